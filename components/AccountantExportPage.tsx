@@ -2,7 +2,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import {
   Download, FileSpreadsheet, Calendar, ChevronDown, Loader2,
   ArrowLeft, CheckSquare, Square, FileArchive, FileText, AlertCircle,
-  Receipt, Banknote, Users, FileQuestion, Building2, Clock, Info, Check
+  Receipt, Banknote, Users, FileQuestion, Building2, Clock, Info, Check, Calculator
 } from 'lucide-react';
 import { useData } from '../src/contexts/DataContext';
 import { useToast } from '../src/contexts/ToastContext';
@@ -17,6 +17,12 @@ import {
   getTaxYearBoundaries,
   formatTaxYearLabel
 } from '../src/utils/accountantExport';
+import {
+  EXPORT_PROFILES,
+  EXPORT_PROFILE_DESCRIPTIONS,
+  EXPORT_PROFILE_LABELS,
+  type ExportProfile
+} from '../src/utils/exportProfiles';
 
 interface AccountantExportPageProps {
   onBack?: () => void;
@@ -41,6 +47,8 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
   const [includeCustomers, setIncludeCustomers] = useState(false);
   const [includeQuotes, setIncludeQuotes] = useState(false);
   const [exportFormat, setExportFormat] = useState<'zip' | 'combined'>('zip');
+  const [profile, setProfile] = useState<ExportProfile>('tradesync');
+  const isPackageProfile = profile !== 'tradesync';
 
   // Progress and preview state
   const [exporting, setExporting] = useState(false);
@@ -148,6 +156,7 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
         includeCustomers,
         includeQuotes,
         exportFormat,
+        profile,
         companyName: settings.companyName || undefined
       };
 
@@ -166,7 +175,9 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
 
       toast.success(
         'Export Complete',
-        `Your ${exportFormat === 'zip' ? 'ZIP bundle' : 'CSV file'} has been downloaded`
+        isPackageProfile
+          ? `Your ${EXPORT_PROFILE_LABELS[profile]} import files have been downloaded`
+          : `Your ${exportFormat === 'zip' ? 'ZIP bundle' : 'CSV file'} has been downloaded`
       );
     } catch (error) {
       console.error('Export failed:', error);
@@ -186,7 +197,7 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
   };
 
   // Check if any export option is selected
-  const hasSelection = includeSales || includeExpenses || includeBankTransactions || includePayables || includeCustomers || includeQuotes;
+  const hasSelection = includeSales || includeExpenses || includeBankTransactions || includePayables || includeCustomers || (includeQuotes && !isPackageProfile);
 
   // Checkbox component
   const ExportOption: React.FC<{
@@ -395,69 +406,116 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
                 icon={<Users size={18} />}
                 count={preview?.customerCount}
               />
-              <ExportOption
-                checked={includeQuotes}
-                onChange={setIncludeQuotes}
-                label="Quotes & Estimates"
-                icon={<FileQuestion size={18} />}
-                count={preview?.quoteCount}
-              />
+              {!isPackageProfile && (
+                <ExportOption
+                  checked={includeQuotes}
+                  onChange={setIncludeQuotes}
+                  label="Quotes & Estimates"
+                  icon={<FileQuestion size={18} />}
+                  count={preview?.quoteCount}
+                />
+              )}
             </div>
           </div>
 
-          {/* Export Format */}
+          {/* Accounting Software */}
           <div className="bg-white rounded-[32px] border border-slate-200 p-6 md:p-8">
             <div className="flex items-center gap-3 mb-6">
-              <div className="p-3 bg-purple-100 text-purple-600 rounded-2xl">
-                <FileArchive size={22} />
+              <div className="p-3 bg-emerald-100 text-emerald-600 rounded-2xl">
+                <Calculator size={22} />
               </div>
               <div>
-                <h2 className="text-lg font-black text-slate-900 uppercase tracking-tight">Export Format</h2>
-                <p className="text-[10px] text-slate-500 italic">Choose how to receive your data</p>
+                <h2 className="text-lg font-black text-slate-900 uppercase tracking-tight">Export For</h2>
+                <p className="text-[10px] text-slate-500 italic">Lay the files out for your accountant's software</p>
               </div>
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <button
-                onClick={() => setExportFormat('zip')}
-                className={`p-4 rounded-2xl border-2 text-left transition-all ${
-                  exportFormat === 'zip'
-                    ? 'border-teal-500 bg-teal-50'
-                    : 'border-slate-100 hover:border-slate-200'
-                }`}
-              >
-                <FileArchive size={24} className={exportFormat === 'zip' ? 'text-teal-600' : 'text-slate-400'} />
-                <p className={`text-sm font-bold mt-2 ${exportFormat === 'zip' ? 'text-teal-700' : 'text-slate-700'}`}>
-                  ZIP Bundle
-                </p>
-                <p className={`text-[10px] mt-1 ${exportFormat === 'zip' ? 'text-teal-500' : 'text-slate-400'}`}>
-                  Separate CSV per data type with README
-                </p>
-                <span className={`inline-block mt-2 text-[9px] font-black px-2 py-1 rounded ${
-                  exportFormat === 'zip' ? 'bg-teal-500 text-white' : 'bg-slate-100 text-slate-500'
-                }`}>
-                  RECOMMENDED
-                </span>
-              </button>
-
-              <button
-                onClick={() => setExportFormat('combined')}
-                className={`p-4 rounded-2xl border-2 text-left transition-all ${
-                  exportFormat === 'combined'
-                    ? 'border-teal-500 bg-teal-50'
-                    : 'border-slate-100 hover:border-slate-200'
-                }`}
-              >
-                <FileText size={24} className={exportFormat === 'combined' ? 'text-teal-600' : 'text-slate-400'} />
-                <p className={`text-sm font-bold mt-2 ${exportFormat === 'combined' ? 'text-teal-700' : 'text-slate-700'}`}>
-                  Single CSV
-                </p>
-                <p className={`text-[10px] mt-1 ${exportFormat === 'combined' ? 'text-teal-500' : 'text-slate-400'}`}>
-                  All data combined in one file
-                </p>
-              </button>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {EXPORT_PROFILES.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setProfile(id)}
+                  className={`p-3 rounded-xl border-2 text-left transition-all ${
+                    profile === id
+                      ? 'border-teal-500 bg-teal-50'
+                      : 'border-slate-100 hover:border-slate-200'
+                  }`}
+                >
+                  <p className={`text-xs font-bold ${profile === id ? 'text-teal-700' : 'text-slate-700'}`}>
+                    {EXPORT_PROFILE_LABELS[id]}
+                  </p>
+                  <p className={`text-[10px] ${profile === id ? 'text-teal-500' : 'text-slate-400'}`}>
+                    {EXPORT_PROFILE_DESCRIPTIONS[id]}
+                  </p>
+                </button>
+              ))}
             </div>
+
+            {isPackageProfile && (
+              <div className="mt-4 p-3 bg-slate-50 rounded-xl flex items-start gap-2">
+                <Info size={14} className="text-slate-400 shrink-0 mt-0.5" />
+                <span className="text-xs text-slate-600">
+                  Account codes and VAT codes follow {EXPORT_PROFILE_LABELS[profile]}'s default UK chart of accounts. Draft invoices are left out.
+                </span>
+              </div>
+            )}
           </div>
+
+          {/* Export Format */}
+          {!isPackageProfile && (
+            <div className="bg-white rounded-[32px] border border-slate-200 p-6 md:p-8">
+              <div className="flex items-center gap-3 mb-6">
+                <div className="p-3 bg-purple-100 text-purple-600 rounded-2xl">
+                  <FileArchive size={22} />
+                </div>
+                <div>
+                  <h2 className="text-lg font-black text-slate-900 uppercase tracking-tight">Export Format</h2>
+                  <p className="text-[10px] text-slate-500 italic">Choose how to receive your data</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <button
+                  onClick={() => setExportFormat('zip')}
+                  className={`p-4 rounded-2xl border-2 text-left transition-all ${
+                    exportFormat === 'zip'
+                      ? 'border-teal-500 bg-teal-50'
+                      : 'border-slate-100 hover:border-slate-200'
+                  }`}
+                >
+                  <FileArchive size={24} className={exportFormat === 'zip' ? 'text-teal-600' : 'text-slate-400'} />
+                  <p className={`text-sm font-bold mt-2 ${exportFormat === 'zip' ? 'text-teal-700' : 'text-slate-700'}`}>
+                    ZIP Bundle
+                  </p>
+                  <p className={`text-[10px] mt-1 ${exportFormat === 'zip' ? 'text-teal-500' : 'text-slate-400'}`}>
+                    Separate CSV per data type with README
+                  </p>
+                  <span className={`inline-block mt-2 text-[9px] font-black px-2 py-1 rounded ${
+                    exportFormat === 'zip' ? 'bg-teal-500 text-white' : 'bg-slate-100 text-slate-500'
+                  }`}>
+                    RECOMMENDED
+                  </span>
+                </button>
+
+                <button
+                  onClick={() => setExportFormat('combined')}
+                  className={`p-4 rounded-2xl border-2 text-left transition-all ${
+                    exportFormat === 'combined'
+                      ? 'border-teal-500 bg-teal-50'
+                      : 'border-slate-100 hover:border-slate-200'
+                  }`}
+                >
+                  <FileText size={24} className={exportFormat === 'combined' ? 'text-teal-600' : 'text-slate-400'} />
+                  <p className={`text-sm font-bold mt-2 ${exportFormat === 'combined' ? 'text-teal-700' : 'text-slate-700'}`}>
+                    Single CSV
+                  </p>
+                  <p className={`text-[10px] mt-1 ${exportFormat === 'combined' ? 'text-teal-500' : 'text-slate-400'}`}>
+                    All data combined in one file
+                  </p>
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Preview & Export Panel */}
@@ -503,7 +561,7 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
                       <span className="font-bold text-slate-900">{preview.customerCount}</span>
                     </div>
                   )}
-                  {includeQuotes && (
+                  {includeQuotes && !isPackageProfile && (
                     <div className="flex justify-between">
                       <span className="text-slate-500">Quotes</span>
                       <span className="font-bold text-slate-900">{preview.quoteCount}</span>
@@ -530,7 +588,9 @@ export const AccountantExportPage: React.FC<AccountantExportPageProps> = ({ onBa
                   <div className="flex justify-between items-center">
                     <span className="text-xs font-bold text-slate-600">Format</span>
                     <span className="text-xs text-slate-500">
-                      {exportFormat === 'zip' ? 'ZIP Bundle (.zip)' : 'Combined CSV (.csv)'}
+                      {isPackageProfile
+                        ? `${EXPORT_PROFILE_LABELS[profile]} files (.zip)`
+                        : exportFormat === 'zip' ? 'ZIP Bundle (.zip)' : 'Combined CSV (.csv)'}
                     </span>
                   </div>
                 </div>
@@ -5,7 +5,10 @@ import {
   CheckCircle, AlertCircle, RefreshCw, ArrowLeft, Download, Users,
   TrendingUp, Ban, DollarSign
 } from 'lucide-react';
-import { payablesService, vendorsService, Payable } from '../src/services/dataService';
+import { payablesService, vendorsService, cisSubcontractorsService, Payable } from '../src/services/dataService';
+import { useData } from '../src/contexts/DataContext';
+import { calculateSubcontractorDeduction, toCisSubcontractor, CIS_TREATMENT_LABELS, type CisSubcontractor } from '../src/utils/cis';
+import { calculateReverseChargeVat } from '../src/utils/reverseCharge';
 import { ExpensesListSkeleton } from './Skeletons';
 import { useToast } from '../src/contexts/ToastContext';
 import { handleApiError } from '../src/utils/errorHandler';
@@ -95,8 +98,10 @@ const getBucketColors = (bucket: AgingBucket) => {
 
 export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) => {
   const toast = useToast();
+  const { settings } = useData();
   const [payables, setPayables] = useState<Payable[]>([]);
   const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [subcontractors, setSubcontractors] = useState<CisSubcontractor[]>([]);
   const [loading, setLoading] = useState(true);
   const [activeBucket, setActiveBucket] = useState<AgingBucket>('all');
   const [searchTerm, setSearchTerm] = useState('');
@@ -122,6 +127,10 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
     due_date: '',
     category: 'materials',
     notes: '',
+    subcontractor_id: '',
+    cis_labour_amount: '',
+    cis_materials_amount: '',
+    is_reverse_charge: false,
   });
 
   useEffect(() => {
@@ -131,12 +140,14 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
   const loadData = async () => {
     setLoading(true);
     try {
-      const [payablesData, vendorsData] = await Promise.all([
+      const [payablesData, vendorsData, subcontractorsData] = await Promise.all([
         payablesService.getAll(),
         vendorsService.getAll().catch(() => []),
+        cisSubcontractorsService.getAll().catch(() => []),
       ]);
       setPayables(payablesData || []);
       setVendors(vendorsData || []);
+      setSubcontractors((subcontractorsData || []).map(toCisSubcontractor));
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -342,6 +353,10 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
       due_date: '',
       category: 'materials',
       notes: '',
+      subcontractor_id: '',
+      cis_labour_amount: '',
+      cis_materials_amount: '',
+      is_reverse_charge: false,
     });
     setEditingPayable(null);
   };
@@ -362,6 +377,10 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
       due_date: payable.due_date || '',
       category: payable.category,
       notes: payable.notes || '',
+      subcontractor_id: payable.subcontractor_id || '',
+      cis_labour_amount: payable.cis_labour_amount?.toString() || '',
+      cis_materials_amount: payable.cis_materials_amount?.toString() || '',
+      is_reverse_charge: payable.is_reverse_charge || false,
     });
     setEditingPayable(payable);
     setShowAddModal(true);
@@ -373,6 +392,31 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
     setShowPaymentModal(true);
   };
 
+  // CIS applies when a subcontractor bill is linked to a verified subcontractor
+  const selectedSubcontractor = formData.category === 'subcontractor'
+    ? subcontractors.find(s => s.id === formData.subcontractor_id)
+    : undefined;
+  const cisDeduction = selectedSubcontractor
+    ? calculateSubcontractorDeduction(parseFloat(formData.cis_labour_amount) || 0, selectedSubcontractor.taxTreatment)
+    : 0;
+
+  // Under the reverse charge the bill carries no VAT; we account for it ourselves
+  const reverseChargeVat = formData.is_reverse_charge
+    ? calculateReverseChargeVat(parseFloat(formData.amount) || 0, settings.defaultTaxRate)
+    : 0;
+
+  const getCisFields = () => selectedSubcontractor ? {
+    subcontractor_id: selectedSubcontractor.id,
+    cis_labour_amount: parseFloat(formData.cis_labour_amount) || 0,
+    cis_materials_amount: parseFloat(formData.cis_materials_amount) || 0,
+    cis_deduction: cisDeduction,
+  } : {
+    subcontractor_id: null,
+    cis_labour_amount: null,
+    cis_materials_amount: null,
+    cis_deduction: null,
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.vendor_name || !formData.amount) return;
@@ -384,11 +428,14 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
         invoice_number: formData.invoice_number || undefined,
         description: formData.description || undefined,
         amount: parseFloat(formData.amount),
-        vat_amount: formData.vat_amount ? parseFloat(formData.vat_amount) : 0,
+        vat_amount: !formData.is_reverse_charge && formData.vat_amount ? parseFloat(formData.vat_amount) : 0,
+        is_reverse_charge: formData.is_reverse_charge,
+        reverse_charge_vat: formData.is_reverse_charge ? reverseChargeVat : null,
         invoice_date: formData.invoice_date,
         due_date: formData.due_date || undefined,
         category: formData.category,
         notes: formData.notes || undefined,
+        ...getCisFields(),
       };
 
       if (editingPayable) {
@@ -825,6 +872,12 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
                             <span className="bg-slate-100 font-bold px-2 py-0.5 rounded">#{payable.invoice_number}</span>
                           )}
                           <span className="px-2 py-0.5 bg-slate-100 rounded-full">{payable.category}</span>
+                          {(payable.cis_deduction || 0) > 0 && (
+                            <span className="px-2 py-0.5 bg-blue-100 text-blue-700 font-bold rounded-full">CIS £{Number(payable.cis_deduction).toFixed(2)} withheld</span>
+                          )}
+                          {payable.is_reverse_charge && (
+                            <span className="px-2 py-0.5 bg-blue-100 text-blue-700 font-bold rounded-full">Reverse charge</span>
+                          )}
                         </div>
                       </div>
                       <div className="text-right">
@@ -1019,14 +1072,35 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
                     <input
                       type="number"
                       step="0.01"
-                      value={formData.vat_amount}
+                      value={formData.is_reverse_charge ? '' : formData.vat_amount}
                       onChange={(e) => setFormData({ ...formData, vat_amount: e.target.value })}
-                      className="w-full pl-10 pr-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                      disabled={formData.is_reverse_charge}
+                      className="w-full pl-10 pr-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent disabled:bg-slate-50"
                     />
                   </div>
                 </div>
               </div>
 
+              {/* Domestic reverse charge - construction services billed without VAT */}
+              {settings.isVatRegistered && (
+                <label className="flex items-start gap-3 p-3 bg-slate-50 rounded-xl cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_reverse_charge}
+                    onChange={(e) => setFormData({ ...formData, is_reverse_charge: e.target.checked })}
+                    className="mt-0.5 w-4 h-4 accent-amber-500"
+                  />
+                  <span>
+                    <span className="block text-sm font-bold text-slate-900">VAT reverse charge</span>
+                    <span className="block text-xs text-slate-500">
+                      {formData.is_reverse_charge
+                        ? `No VAT on this bill - you account for £${reverseChargeVat.toFixed(2)} on your VAT return`
+                        : 'Construction services billed without VAT under the domestic reverse charge'}
+                    </span>
+                  </span>
+                </label>
+              )}
+
               {/* Invoice Number & Category */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -1057,6 +1131,65 @@ export const AgedPayablesPage: React.FC<AgedPayablesPageProps> = ({ onBack }) =>
                 </div>
               </div>
 
+              {/* CIS - subcontractor paid under deduction */}
+              {formData.category === 'subcontractor' && settings.isCisContractor && (
+                <div className="p-4 bg-blue-50 rounded-xl border border-blue-100 space-y-3">
+                  <div>
+                    <label className="text-[10px] font-black text-blue-600 uppercase tracking-widest block mb-2">
+                      CIS Subcontractor
+                    </label>
+                    <select
+                      value={formData.subcontractor_id}
+                      onChange={(e) => setFormData({ ...formData, subcontractor_id: e.target.value })}
+                      className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="">Not paid under CIS</option>
+                      {subcontractors.filter(s => s.isActive || s.id === formData.subcontractor_id).map(s => (
+                        <option key={s.id} value={s.id}>{s.name} - {CIS_TREATMENT_LABELS[s.taxTreatment]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {selectedSubcontractor && (
+                    <>
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">
+                            Labour (ex VAT)
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={formData.cis_labour_amount}
+                            onChange={(e) => setFormData({ ...formData, cis_labour_amount: e.target.value })}
+                            placeholder="0.00"
+                            className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </div>
+                        <div>
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">
+                            Materials (ex VAT)
+                          </label>
+                          <input
+                            type="number"
+                            step="0.01"
+                            value={formData.cis_materials_amount}
+                            onChange={(e) => setFormData({ ...formData, cis_materials_amount: e.target.value })}
+                            placeholder="0.00"
+                            className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                        </div>
+                      </div>
+                      <div className="flex justify-between text-xs font-bold">
+                        <span className="text-blue-700">CIS to withhold £{cisDeduction.toFixed(2)}</span>
+                        <span className="text-slate-700">
+                          Pay subcontractor £{Math.max(0, (parseFloat(formData.amount) || 0) - cisDeduction).toFixed(2)}
+                        </span>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+
               {/* Dates */}
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -2,34 +2,44 @@ import React, { useState, useEffect, useMemo } from 'react';
 import {
   Clock, AlertTriangle, Search, ArrowLeft, ChevronDown, ChevronUp,
   Eye, Mail, CheckCircle2, Download, Filter, Users, PoundSterling,
-  Calendar, Hash, ArrowUpDown, X, Loader2, FileText, AlertCircle
+  Calendar, Hash, ArrowUpDown, X, Loader2, FileText, AlertCircle, ShieldCheck
 } from 'lucide-react';
 import { useData } from '../src/contexts/DataContext';
 import { useToast } from '../src/contexts/ToastContext';
 import { Quote, Customer, AppSettings } from '../types';
-import { quotesService } from '../src/services/dataService';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
+import { getPaymentsForInvoice, summariseInvoicePayments } from '../src/utils/invoicePayments';
+import { getCreditNotesForInvoice, sumCredited } from '../src/utils/creditNotes';
+import { getRetentionEntry, RETENTION_STAGE_LABELS, type RetentionStage } from '../src/utils/retention';
 
 interface AgedReceivablesPageProps {
   onBack?: () => void;
   onViewInvoice?: (id: string) => void;
 }
 
-type AgingBucket = 'all' | 'current' | '30-60' | '60-90' | '90+';
+// 'retention' holds retention whose release date has not yet arrived
+type AgingBucket = 'all' | 'current' | '30-60' | '60-90' | '90+' | 'retention';
 type SortField = 'age' | 'amount' | 'customer' | 'date';
 type SortDirection = 'asc' | 'desc';
 
 interface OutstandingInvoice {
   id: string;
+  invoiceId: string;
+  // Set on a row for retention held against the invoice
+  retentionStage?: RetentionStage;
   referenceNumber: number | undefined;
   title: string;
   customerId: string;
   customerName: string;
   date: string;
   dueDate: string | undefined;
-  amount: number;
+  invoiceTotal: number;
+  amountPaid: number;
+  amountCredited: number;
+  amount: number; // Balance outstanding after payments and credit notes
   status: string;
   daysOutstanding: number;
-  bucket: 'current' | '30-60' | '60-90' | '90+';
+  bucket: Exclude<AgingBucket, 'all'>;
 }
 
 interface CustomerSummary {
@@ -40,20 +50,6 @@ interface CustomerSummary {
   oldestDays: number;
 }
 
-// Calculate invoice total from sections
-const calculateInvoiceTotal = (invoice: Quote): number => {
-  const sections = invoice.sections || [];
-  const materialsTotal = sections.reduce((sum, section) =>
-    sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-  const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-  const labourTotal = labourHoursTotal * (invoice.labourRate || 0);
-
-  const subtotal = materialsTotal + labourTotal;
-  const markup = subtotal * ((invoice.markupPercent || 0) / 100);
-  const tax = (subtotal + markup) * ((invoice.taxPercent || 0) / 100);
-  return subtotal + markup + tax;
-};
-
 // Calculate days outstanding from invoice date or due date
 const calculateDaysOutstanding = (invoice: Quote): number => {
   const referenceDate = invoice.dueDate ? new Date(invoice.dueDate) : new Date(invoice.date);
@@ -74,7 +70,7 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
   onBack,
   onViewInvoice
 }) => {
-  const { quotes, customers, settings } = useData();
+  const { quotes, customers, settings, invoicePayments, recordInvoicePayment } = useData();
   const toast = useToast();
 
   const [searchTerm, setSearchTerm] = useState('');
@@ -87,33 +83,63 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
   const [selectedInvoice, setSelectedInvoice] = useState<OutstandingInvoice | null>(null);
   const [markingPaid, setMarkingPaid] = useState<string | null>(null);
 
-  // Process outstanding invoices
+  // Process outstanding invoices. Retention is split out into a row per
+  // release, aged from its release date rather than the invoice due date.
   const outstandingInvoices = useMemo((): OutstandingInvoice[] => {
     return quotes
       .filter(q =>
         q.type === 'invoice' &&
         q.status !== 'paid' &&
         q.status !== 'draft' &&
-        q.status !== 'declined'
+        q.status !== 'declined' &&
+        q.status !== 'void'
       )
-      .map(invoice => {
+      .flatMap(invoice => {
         const customer = customers.find(c => c.id === invoice.customerId);
         const daysOutstanding = calculateDaysOutstanding(invoice);
-        return {
+        const invoiceTotal = calculateDocumentTotal(invoice, settings);
+        const amountCredited = sumCredited(getCreditNotesForInvoice(quotes, invoice.id), settings);
+        const { amountPaid, balanceDue } = summariseInvoicePayments(
+          invoiceTotal,
+          getPaymentsForInvoice(invoicePayments, invoice.id),
+          amountCredited
+        );
+        const retention = getRetentionEntry(invoice, quotes, invoicePayments, settings);
+
+        const row: OutstandingInvoice = {
           id: invoice.id,
+          invoiceId: invoice.id,
           referenceNumber: invoice.referenceNumber,
           title: invoice.title,
           customerId: invoice.customerId,
           customerName: customer?.name || 'Unknown Customer',
           date: invoice.date,
           dueDate: invoice.dueDate,
-          amount: calculateInvoiceTotal(invoice),
+          invoiceTotal,
+          amountPaid,
+          amountCredited,
+          amount: Math.max(0, Math.round((balanceDue - (retention?.outstanding || 0)) * 100) / 100),
           status: invoice.status,
           daysOutstanding,
           bucket: getAgingBucket(daysOutstanding)
         };
-      });
-  }, [quotes, customers]);
+
+        const retentionRows = (retention?.tranches || [])
+          .filter(tranche => tranche.outstanding > 0)
+          .map((tranche): OutstandingInvoice => ({
+            ...row,
+            id: `${invoice.id}-${tranche.stage}`,
+            retentionStage: tranche.stage,
+            dueDate: tranche.releaseDate,
+            amount: tranche.outstanding,
+            daysOutstanding: tranche.daysOverdue,
+            bucket: tranche.status === 'held' ? 'retention' : getAgingBucket(tranche.daysOverdue)
+          }));
+
+        return [row, ...retentionRows];
+      })
+      .filter(invoice => invoice.amount > 0);
+  }, [quotes, customers, settings, invoicePayments]);
 
   // Calculate summary stats
   const summaryStats = useMemo(() => {
@@ -121,6 +147,7 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
     const days30_60 = outstandingInvoices.filter(i => i.bucket === '30-60');
     const days60_90 = outstandingInvoices.filter(i => i.bucket === '60-90');
     const days90plus = outstandingInvoices.filter(i => i.bucket === '90+');
+    const retentionHeld = outstandingInvoices.filter(i => i.bucket === 'retention');
 
     return {
       total: {
@@ -142,6 +169,10 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
       days90plus: {
         count: days90plus.length,
         amount: days90plus.reduce((sum, i) => sum + i.amount, 0)
+      },
+      retentionHeld: {
+        count: retentionHeld.length,
+        amount: retentionHeld.reduce((sum, i) => sum + i.amount, 0)
       }
     };
   }, [outstandingInvoices]);
@@ -154,14 +185,14 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
       const existing = summaryMap.get(invoice.customerId);
       if (existing) {
         existing.totalOwed += invoice.amount;
-        existing.invoiceCount += 1;
+        if (!invoice.retentionStage) existing.invoiceCount += 1;
         existing.oldestDays = Math.max(existing.oldestDays, invoice.daysOutstanding);
       } else {
         summaryMap.set(invoice.customerId, {
           customerId: invoice.customerId,
           customerName: invoice.customerName,
           totalOwed: invoice.amount,
-          invoiceCount: 1,
+          invoiceCount: invoice.retentionStage ? 0 : 1,
           oldestDays: invoice.daysOutstanding
         });
       }
@@ -233,16 +264,16 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
     }
   };
 
-  // Handle mark as paid
+  // Handle mark as paid - records the outstanding balance as a payment
   const handleMarkAsPaid = async (invoice: OutstandingInvoice) => {
     setMarkingPaid(invoice.id);
     try {
-      await quotesService.update(invoice.id, {
-        status: 'paid',
-        payment_date: new Date().toISOString().split('T')[0]
+      await recordInvoicePayment(invoice.invoiceId, {
+        amount: invoice.amount,
+        paymentDate: new Date().toISOString().split('T')[0],
+        paymentMethod: 'bank_transfer',
       });
       toast.success('Invoice Marked Paid', `${invoice.customerName} - £${invoice.amount.toFixed(2)}`);
-      // Refresh will happen through DataContext
     } catch (error) {
       console.error('Failed to mark as paid:', error);
       toast.error('Update Failed', 'Could not mark invoice as paid');
@@ -259,10 +290,24 @@ export const AgedReceivablesPage: React.FC<AgedReceivablesPageProps> = ({
       ? new Date(invoice.dueDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' })
       : 'as per terms';
 
+    if (invoice.retentionStage) {
+      const subject = `Retention Release - Invoice ${ref}`;
+      const body = `Hi ${invoice.customerName.split(' ')[0]},
+
+The retention of £${invoice.amount.toFixed(2)} held on invoice ${ref} (${invoice.title}) was due for release at ${RETENTION_STAGE_LABELS[invoice.retentionStage].toLowerCase()}${invoice.dueDate ? ` on ${dueDate}` : ''}.
+
+Please could you arrange release of the retention at your earliest convenience. If you've already sent payment, please disregard this message.
+
+Thanks,
+${settings.companyName || 'Your Company'}`;
+
+      return { subject, body };
+    }
+
     const subject = `Payment Reminder - Invoice ${ref}`;
     const body = `Hi ${invoice.customerName.split(' ')[0]},
 
-This is a friendly reminder that invoice ${ref} for £${invoice.amount.toFixed(2)} was due on ${dueDate}.
+This is a friendly reminder that invoice ${ref} for £${invoice.invoiceTotal.toFixed(2)} was due on ${dueDate}.${invoice.amountCredited > 0 ? ` A credit of £${invoice.amountCredited.toFixed(2)} has been applied.` : ''}${invoice.amountPaid > 0 ? ` Thank you for the £${invoice.amountPaid.toFixed(2)} received so far.` : ''}${invoice.amountPaid > 0 || invoice.amountCredited > 0 ? ` The balance outstanding is £${invoice.amount.toFixed(2)}.` : ''}
 
 If you've already sent payment, please disregard this message.
 
@@ -297,14 +342,18 @@ ${settings.companyName || 'Your Company'}`;
 
   // Export to CSV
   const exportToCSV = () => {
-    const headers = ['Customer', 'Invoice #', 'Date', 'Due Date', 'Amount', 'Days Outstanding', 'Status', 'Bucket'];
+    const headers = ['Customer', 'Invoice #', 'Type', 'Date', 'Due Date', 'Invoice Total', 'Paid', 'Credited', 'Outstanding', 'Days Outstanding', 'Status', 'Bucket'];
     const prefix = settings.invoicePrefix || 'INV-';
 
     const rows = filteredInvoices.map(inv => [
       inv.customerName,
       `${prefix}${(inv.referenceNumber || 0).toString().padStart(4, '0')}`,
+      inv.retentionStage ? `Retention - ${RETENTION_STAGE_LABELS[inv.retentionStage]}` : 'Invoice',
       new Date(inv.date).toISOString().split('T')[0],
       inv.dueDate ? new Date(inv.dueDate).toISOString().split('T')[0] : '',
+      inv.invoiceTotal.toFixed(2),
+      inv.amountPaid.toFixed(2),
+      inv.amountCredited.toFixed(2),
       inv.amount.toFixed(2),
       inv.daysOutstanding.toString(),
       inv.status,
@@ -345,6 +394,8 @@ ${settings.companyName || 'Your Company'}`;
         return { bg: 'bg-orange-50', text: 'text-orange-700', border: 'border-orange-200', icon: 'text-orange-500' };
       case '90+':
         return { bg: 'bg-red-50', text: 'text-red-700', border: 'border-red-200', icon: 'text-red-500' };
+      case 'retention':
+        return { bg: 'bg-white', text: 'text-amber-700', border: 'border-amber-200', icon: 'text-amber-500' };
       default:
         return { bg: 'bg-slate-50', text: 'text-slate-700', border: 'border-slate-200', icon: 'text-slate-500' };
     }
@@ -446,6 +497,27 @@ ${settings.companyName || 'Your Company'}`;
         </button>
       )}
 
+      {/* Retention not yet due for release */}
+      {summaryStats.retentionHeld.count > 0 && (
+        <button
+          onClick={() => setActiveBucket('retention')}
+          className={`w-full mb-6 bg-white rounded-2xl p-4 md:p-5 border-2 text-left transition-all ${
+            activeBucket === 'retention' ? 'border-amber-500 shadow-lg shadow-amber-500/10' : 'border-slate-100 hover:border-amber-200'
+          }`}
+        >
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="text-amber-500" size={22} />
+              <div>
+                <p className="text-[10px] font-black text-amber-600 uppercase tracking-wider">Retention Held</p>
+                <p className="text-xs text-slate-500">Not yet due for release</p>
+              </div>
+            </div>
+            <p className="text-xl md:text-2xl font-black text-amber-700">{formatCurrency(summaryStats.retentionHeld.amount)}</p>
+          </div>
+        </button>
+      )}
+
       {/* Filters & Search */}
       <div className="flex flex-col md:flex-row gap-3 mb-4">
         <div className="relative flex-1">
@@ -577,21 +649,26 @@ ${settings.companyName || 'Your Company'}`;
                         <p className="font-bold text-slate-900">{invoice.customerName}</p>
                         <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
                           <span className="bg-teal-100 text-teal-700 font-bold px-2 py-0.5 rounded">{ref}</span>
-                          <span>{new Date(invoice.date).toLocaleDateString('en-GB')}</span>
+                          {invoice.retentionStage
+                            ? <span className="font-bold text-amber-700">Retention</span>
+                            : <span>{new Date(invoice.date).toLocaleDateString('en-GB')}</span>}
                         </div>
                       </div>
                       <div className="text-right">
                         <p className={`font-black text-lg ${bucketColors.text}`}>{formatCurrency(invoice.amount)}</p>
+                        {(invoice.amountPaid > 0 || invoice.amountCredited > 0) && (
+                          <p className="text-[10px] text-slate-400">of {formatCurrency(invoice.invoiceTotal)}</p>
+                        )}
                         <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-[10px] font-black ${bucketColors.bg} ${bucketColors.text} border ${bucketColors.border}`}>
                           {isOverdue && <AlertTriangle size={10} />}
-                          {invoice.daysOutstanding} days
+                          {invoice.bucket === 'retention' ? 'Held' : `${invoice.daysOutstanding} days`}
                         </span>
                       </div>
                     </div>
                     <div className="flex gap-2">
                       {onViewInvoice && (
                         <button
-                          onClick={() => onViewInvoice(invoice.id)}
+                          onClick={() => onViewInvoice(invoice.invoiceId)}
                           className="flex-1 flex items-center justify-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 rounded-xl text-xs font-bold"
                         >
                           <Eye size={14} /> View
@@ -618,7 +695,7 @@ ${settings.companyName || 'Your Company'}`;
                   <div className="hidden md:contents">
                     <div className="col-span-3">
                       <p className="font-bold text-slate-900 truncate">{invoice.customerName}</p>
-                      <p className="text-xs text-slate-500 truncate">{invoice.title}</p>
+                      <p className="text-xs text-slate-500 truncate">{invoice.retentionStage ? `Retention - ${RETENTION_STAGE_LABELS[invoice.retentionStage]}` : invoice.title}</p>
                     </div>
                     <div className="col-span-2">
                       <span className="bg-teal-100 text-teal-700 font-bold px-2 py-1 rounded text-xs">{ref}</span>
@@ -633,17 +710,20 @@ ${settings.companyName || 'Your Company'}`;
                     </div>
                     <div className="col-span-2">
                       <p className={`font-black ${bucketColors.text}`}>{formatCurrency(invoice.amount)}</p>
+                      {(invoice.amountPaid > 0 || invoice.amountCredited > 0) && (
+                        <p className="text-xs text-slate-400">of {formatCurrency(invoice.invoiceTotal)}</p>
+                      )}
                     </div>
                     <div className="col-span-2">
                       <span className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-black ${bucketColors.bg} ${bucketColors.text} border ${bucketColors.border}`}>
                         {isOverdue && <AlertTriangle size={12} />}
-                        {invoice.daysOutstanding} days
+                        {invoice.bucket === 'retention' ? 'Held' : `${invoice.daysOutstanding} days`}
                       </span>
                     </div>
                     <div className="col-span-1 flex justify-end gap-1">
                       {onViewInvoice && (
                         <button
-                          onClick={() => onViewInvoice(invoice.id)}
+                          onClick={() => onViewInvoice(invoice.invoiceId)}
                           className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
                           title="View Invoice"
                         >
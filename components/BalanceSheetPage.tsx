@@ -0,0 +1,282 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Download, Loader2, Landmark, ArrowDownUp } from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import { ledgerService, bankTransactionsService } from '../src/services/dataService';
+import { handleApiError } from '../src/utils/errorHandler';
+import { toLedgerAccount, toLedgerAccountTotal, type LedgerAccount, type LedgerAccountTotal } from '../src/utils/ledger';
+import { buildRetentionLedger } from '../src/utils/retention';
+import {
+  getPeriodBoundaries,
+  toISODate,
+  REPORT_PERIOD_LABELS,
+  type ReportPeriod,
+} from '../src/utils/reportPeriods';
+import {
+  balanceSheetToCsv,
+  buildBalanceSheet,
+  buildCashFlowStatement,
+  cashFlowToCsv,
+  getStatementBalance,
+  CASH_FLOW_ACTIVITY_LABELS,
+  type BalanceSheetLine,
+  type StatementTransaction,
+} from '../src/utils/financialStatements';
+
+interface BalanceSheetPageProps {
+  onBack?: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}£${Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const downloadCsv = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const StatementLines: React.FC<{ lines: BalanceSheetLine[] }> = ({ lines }) => (
+  <>
+    {lines.map(line => (
+      <div key={line.label} className="flex items-center justify-between py-2 border-t border-slate-50 text-sm">
+        <span className="font-bold text-slate-700">{line.label}</span>
+        <span className="font-mono text-slate-900">{formatCurrency(line.amount)}</span>
+      </div>
+    ))}
+  </>
+);
+
+const TotalRow: React.FC<{ label: string; amount: number }> = ({ label, amount }) => (
+  <div className="flex items-center justify-between py-3 border-t-2 border-slate-200 font-black text-slate-900">
+    <span>{label}</span>
+    <span className="font-mono">{formatCurrency(amount)}</span>
+  </div>
+);
+
+export const BalanceSheetPage: React.FC<BalanceSheetPageProps> = ({ onBack }) => {
+  const { quotes, invoicePayments, settings } = useData();
+  const toast = useToast();
+  const [selectedPeriod, setSelectedPeriod] = useState<ReportPeriod>('current_tax_year');
+  const [customStartDate, setCustomStartDate] = useState('');
+  const [customEndDate, setCustomEndDate] = useState('');
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [totals, setTotals] = useState<LedgerAccountTotal[]>([]);
+  const [transactions, setTransactions] = useState<StatementTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const period = useMemo(
+    () => getPeriodBoundaries(selectedPeriod, settings, { start: customStartDate, end: customEndDate }),
+    [selectedPeriod, settings, customStartDate, customEndDate]
+  );
+  const from = toISODate(period.start);
+  const asOf = toISODate(period.end);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [accountRows, totalRows, bankRows] = await Promise.all([
+          ledgerService.getAccounts(),
+          ledgerService.getAccountTotals(undefined, asOf),
+          bankTransactionsService.getAll(),
+        ]);
+        if (cancelled) return;
+        setAccounts((accountRows || []).map(toLedgerAccount));
+        setTotals((totalRows || []).map(toLedgerAccountTotal));
+        // Oldest first so same-day lines keep their statement order
+        setTransactions([...(bankRows || [])].reverse());
+      } catch (error) {
+        const { message } = handleApiError(error);
+        toast.error('Failed to Load Reports', message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [asOf]);
+
+  // Retention outstanding at the period end, ignoring later invoices and payments
+  const retentionsHeld = useMemo(() => {
+    const ledger = buildRetentionLedger(
+      quotes.filter(q => q.date <= asOf),
+      invoicePayments.filter(p => p.paymentDate <= asOf),
+      settings,
+      asOf
+    );
+    return ledger.reduce((sum, entry) => sum + entry.outstanding, 0);
+  }, [quotes, invoicePayments, settings, asOf]);
+
+  const balanceSheet = useMemo(() => buildBalanceSheet({
+    asOf,
+    accounts,
+    totals,
+    bankBalance: getStatementBalance(transactions, asOf),
+    retentionsHeld,
+  }), [asOf, accounts, totals, transactions, retentionsHeld]);
+
+  const cashFlow = useMemo(() => buildCashFlowStatement(transactions, from, asOf), [transactions, from, asOf]);
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Balance Sheet & Cash Flow</h1>
+          <p className="text-slate-500 text-sm font-medium italic">What the business owns, owes and spent</p>
+        </div>
+      </div>
+
+      {/* Period */}
+      <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100 mb-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div>
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Period</label>
+            <select
+              value={selectedPeriod}
+              onChange={e => setSelectedPeriod(e.target.value as ReportPeriod)}
+              className="px-4 py-2 border-2 border-slate-200 rounded-xl focus:border-teal-400 outline-none font-bold text-slate-900 bg-white"
+            >
+              {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map(id => (
+                <option key={id} value={id}>{REPORT_PERIOD_LABELS[id]}</option>
+              ))}
+            </select>
+          </div>
+          {selectedPeriod === 'custom' && (
+            <>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Start Date</label>
+                <input
+                  type="date"
+                  value={customStartDate}
+                  onChange={e => setCustomStartDate(e.target.value)}
+                  className="px-4 py-2 border-2 border-slate-200 rounded-xl focus:border-teal-400 outline-none"
+                />
+              </div>
+              <div>
+                <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">End Date</label>
+                <input
+                  type="date"
+                  value={customEndDate}
+                  onChange={e => setCustomEndDate(e.target.value)}
+                  className="px-4 py-2 border-2 border-slate-200 rounded-xl focus:border-teal-400 outline-none"
+                />
+              </div>
+            </>
+          )}
+          <p className="text-sm text-slate-500 font-medium pb-2">{period.label}</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 size={28} className="animate-spin text-slate-400" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Balance sheet */}
+          <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 md:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Landmark size={20} className="text-teal-600" />
+                <h2 className="font-black text-slate-900">Balance Sheet at {new Date(asOf).toLocaleDateString('en-GB')}</h2>
+              </div>
+              <button
+                onClick={() => downloadCsv(balanceSheetToCsv(balanceSheet), `balance_sheet_${asOf}.csv`)}
+                className="p-2 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded-xl transition-colors"
+                aria-label="Export balance sheet"
+              >
+                <Download size={18} />
+              </button>
+            </div>
+
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-2">Assets</p>
+            <StatementLines lines={balanceSheet.assets} />
+            <TotalRow label="Total assets" amount={balanceSheet.totalAssets} />
+
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-4">Liabilities</p>
+            <StatementLines lines={balanceSheet.liabilities} />
+            <TotalRow label="Total liabilities" amount={balanceSheet.totalLiabilities} />
+
+            <div className="flex items-center justify-between py-4 my-2 px-4 -mx-4 bg-slate-50 rounded-xl font-black text-slate-900">
+              <span className="uppercase tracking-wide">Net assets</span>
+              <span className="font-mono text-lg">{formatCurrency(balanceSheet.netAssets)}</span>
+            </div>
+
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-4">Capital</p>
+            <StatementLines lines={balanceSheet.capital} />
+            <TotalRow label="Total capital" amount={balanceSheet.totalCapital} />
+          </div>
+
+          {/* Cash flow */}
+          <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 md:p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <ArrowDownUp size={20} className="text-teal-600" />
+                <h2 className="font-black text-slate-900">Cash Flow Statement</h2>
+              </div>
+              <button
+                onClick={() => downloadCsv(cashFlowToCsv(cashFlow), `cash_flow_${from}_to_${asOf}.csv`)}
+                className="p-2 text-slate-500 hover:text-slate-900 hover:bg-slate-100 rounded-xl transition-colors"
+                aria-label="Export cash flow statement"
+              >
+                <Download size={18} />
+              </button>
+            </div>
+
+            {cashFlow.openingBalance !== null && (
+              <TotalRow label="Opening bank balance" amount={cashFlow.openingBalance} />
+            )}
+
+            {cashFlow.sections.map(section => (
+              <div key={section.activity} className="mt-4">
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {CASH_FLOW_ACTIVITY_LABELS[section.activity]}
+                </p>
+                {section.lines.length === 0 ? (
+                  <p className="py-2 text-sm text-slate-400 italic">No bank lines</p>
+                ) : (
+                  section.lines.map(line => (
+                    <div key={line.label} className="flex items-center justify-between py-2 border-t border-slate-50 text-sm">
+                      <span className="font-bold text-slate-700">
+                        {line.label} <span className="text-xs text-slate-400 font-medium">({line.count})</span>
+                      </span>
+                      <span className="font-mono text-slate-900">{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))
+                )}
+                <TotalRow label={`Net cash from ${section.activity}`} amount={section.total} />
+              </div>
+            ))}
+
+            <div className={`flex items-center justify-between py-4 mt-4 px-4 -mx-4 rounded-xl font-black ${cashFlow.netCashFlow >= 0 ? 'bg-emerald-50 text-emerald-700' : 'bg-red-50 text-red-700'}`}>
+              <span className="uppercase tracking-wide">Net cash flow</span>
+              <span className="font-mono text-lg">{formatCurrency(cashFlow.netCashFlow)}</span>
+            </div>
+
+            {cashFlow.closingBalance !== null && (
+              <TotalRow label="Closing bank balance" amount={cashFlow.closingBalance} />
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
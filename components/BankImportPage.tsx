@@ -1,152 +1,232 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useMemo, useEffect } from 'react';
 import {
-  Upload, FileSpreadsheet, Check, X, AlertCircle,
-  Loader2, ArrowRight, Building2, Calendar, PoundSterling,
-  ChevronDown, Trash2, RefreshCw, ArrowLeft
+  Upload, FileSpreadsheet, Check, AlertCircle, AlertTriangle,
+  Loader2, ArrowRight, Building2, Columns, ArrowLeft, History, RotateCcw, Plus, X
 } from 'lucide-react';
-import { bankTransactionsService } from '../src/services/dataService';
-import { validateCsvFile } from '../src/utils/fileValidation';
-
-interface ParsedTransaction {
-  date: string;
-  description: string;
-  amount: number;
-  balance?: number;
-  type?: string;
-  reference?: string;
+import { bankAccountsService, bankTransactionsService } from '../src/services/dataService';
+import { validateStatementFile } from '../src/utils/fileValidation';
+import {
+  STATEMENT_FILE_EXTENSIONS,
+  STATEMENT_FORMAT_LABELS,
+  detectCsvLayout,
+  detectStatementFormat,
+  parseCsvRows,
+  parseCsvStatement,
+  parseStatement,
+  type CsvColumnMapping,
+  type CsvLayout,
+  type ParsedStatement,
+  type StatementFormat,
+} from '../src/utils/bankStatements';
+import {
+  checkBalanceContinuity,
+  findDuplicates,
+  sortChronologically,
+  summariseImportBatches,
+  type ImportBatchSummary,
+  type StoredBankLine,
+} from '../src/utils/bankImports';
+import {
+  BANK_ACCOUNT_TYPES,
+  BANK_ACCOUNT_TYPE_LABELS,
+  findAccountByNumber,
+  formatAccountLabel,
+} from '../src/utils/bankAccounts';
+import { BankRuleExpenses } from './BankRuleExpenses';
+import type { BankAccountType } from '../types';
+
+interface BankAccountRow {
+  id: string;
+  name: string;
+  account_type: string;
+  bank_name: string | null;
+  account_last_four: string | null;
+  opening_balance: number;
+  opening_balance_date: string | null;
 }
 
-interface ColumnMapping {
-  date: number;
-  description: number;
-  amount: number;
-  balance?: number;
-  type?: number;
-  reference?: number;
-}
+// Stored as bank_name on each imported line
+const BANKS: Record<string, string> = {
+  starling: 'Starling Bank',
+  monzo: 'Monzo',
+  lloyds: 'Lloyds / Halifax',
+  barclays: 'Barclays',
+  natwest: 'NatWest / RBS',
+  other: 'Other',
+};
 
-// Common UK bank CSV formats
-const BANK_PRESETS: Record<string, { name: string; mapping: ColumnMapping; dateFormat: string; skipRows: number; hasHeader: boolean }> = {
-  starling: {
-    name: 'Starling Bank',
-    mapping: { date: 0, description: 1, amount: 2, balance: 3 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 1,
-    hasHeader: true,
-  },
-  monzo: {
-    name: 'Monzo',
-    mapping: { date: 0, description: 4, amount: 2, balance: -1, type: 1 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 1,
-    hasHeader: true,
-  },
-  lloyds: {
-    name: 'Lloyds / Halifax',
-    mapping: { date: 0, description: 4, amount: 5, balance: 6 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 1,
-    hasHeader: true,
-  },
-  barclays: {
-    name: 'Barclays',
-    mapping: { date: 1, description: 5, amount: 3, balance: -1 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 1,
-    hasHeader: true,
-  },
-  natwest: {
-    name: 'NatWest / RBS',
-    mapping: { date: 0, description: 2, amount: 3, balance: 4 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 1,
-    hasHeader: true,
-  },
-  custom: {
-    name: 'Custom Mapping',
-    mapping: { date: 0, description: 1, amount: 2 },
-    dateFormat: 'DD/MM/YYYY',
-    skipRows: 0,
-    hasHeader: true,
-  },
+const EMPTY_ACCOUNT = {
+  name: '',
+  accountType: 'current' as BankAccountType,
+  bank: 'other',
+  lastFour: '',
+  openingBalance: '',
+  openingBalanceDate: '',
 };
 
+const MAPPING_FIELDS: { field: keyof CsvColumnMapping; label: string }[] = [
+  { field: 'date', label: 'Date' },
+  { field: 'description', label: 'Description' },
+  { field: 'amount', label: 'Amount' },
+  { field: 'paidIn', label: 'Paid In' },
+  { field: 'paidOut', label: 'Paid Out' },
+  { field: 'balance', label: 'Balance' },
+];
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}£${Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
 interface BankImportPageProps {
   onBack?: () => void;
 }
 
 export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
   const [step, setStep] = useState<'upload' | 'preview' | 'importing' | 'complete'>('upload');
+  const [format, setFormat] = useState<StatementFormat | null>(null);
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
   const [rawData, setRawData] = useState<string[][]>([]);
-  const [parsedTransactions, setParsedTransactions] = useState<ParsedTransaction[]>([]);
-  const [selectedBank, setSelectedBank] = useState<string>('custom');
-  const [mapping, setMapping] = useState<ColumnMapping>(BANK_PRESETS.custom.mapping);
-  const [skipRows, setSkipRows] = useState(1);
+  const [csvLayout, setCsvLayout] = useState<CsvLayout | null>(null);
+  const [showMapping, setShowMapping] = useState(false);
+  const [accounts, setAccounts] = useState<BankAccountRow[]>([]);
+  const [selectedAccountId, setSelectedAccountId] = useState<string>('');
+  const [showAccountForm, setShowAccountForm] = useState(false);
+  const [newAccount, setNewAccount] = useState(EMPTY_ACCOUNT);
+  const [savingAccount, setSavingAccount] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [importing, setImporting] = useState(false);
-  const [importResult, setImportResult] = useState<{ success: number; failed: number } | null>(null);
+  const [importResult, setImportResult] = useState<{ success: number; failed: number; skipped: number } | null>(null);
+  const [importedLines, setImportedLines] = useState<{ id: string; transaction_date: string; description: string; amount: number; is_reconciled: boolean | null }[]>([]);
+  const [storedLines, setStoredLines] = useState<StoredBankLine[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  // Rows the user ticked or unticked; the rest follow their duplicate status
+  const [includeOverrides, setIncludeOverrides] = useState<Record<number, boolean>>({});
+  const [previousBalance, setPreviousBalance] = useState<{ date: string; balance: number } | null>(null);
+  const [batches, setBatches] = useState<ImportBatchSummary[]>([]);
+  const [rollingBack, setRollingBack] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const parseCSV = (text: string): string[][] => {
-    const lines = text.split(/\r?\n/).filter(line => line.trim());
-    return lines.map(line => {
-      const result: string[] = [];
-      let current = '';
-      let inQuotes = false;
-
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        if (char === '"') {
-          inQuotes = !inQuotes;
-        } else if (char === ',' && !inQuotes) {
-          result.push(current.trim());
-          current = '';
-        } else {
-          current += char;
-        }
-      }
-      result.push(current.trim());
-      return result;
-    });
-  };
+  const parsedTransactions = useMemo(() => {
+    if (statement) return statement.transactions.filter(t => t.amount !== 0);
+    if (rawData.length > 0 && csvLayout) return parseCsvStatement(rawData, csvLayout);
+    return [];
+  }, [statement, rawData, csvLayout]);
+
+  const duplicateChecks = useMemo(
+    () => findDuplicates(parsedTransactions, storedLines),
+    [parsedTransactions, storedLines]
+  );
 
-  const parseDate = (dateStr: string): string => {
-    // Try DD/MM/YYYY format first (UK standard)
-    const ukMatch = dateStr.match(/(\d{1,2})\/(\d{1,2})\/(\d{4})/);
-    if (ukMatch) {
-      const [, day, month, year] = ukMatch;
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const isIncluded = (idx: number) => includeOverrides[idx] ?? duplicateChecks[idx]?.status !== 'duplicate';
+  const transactionsToImport = parsedTransactions.filter((_, idx) => isIncluded(idx));
+  const duplicateCount = duplicateChecks.filter(c => c.status === 'duplicate').length;
+  const possibleDuplicateCount = duplicateChecks.filter(c => c.status === 'possible_duplicate').length;
+  const firstNewDate = sortChronologically(transactionsToImport)[0]?.date;
+
+  const continuity = checkBalanceContinuity(transactionsToImport, previousBalance);
+  const selectedAccount = accounts.find(a => a.id === selectedAccountId);
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, formatAccountLabel(a)])), [accounts]);
+
+  const loadBatches = async () => {
+    try {
+      const lines = await bankTransactionsService.getImportedLines();
+      setBatches(summariseImportBatches(lines || []));
+    } catch (err) {
+      console.error('Failed to load import history:', err);
     }
+  };
 
-    // Try YYYY-MM-DD format
-    const isoMatch = dateStr.match(/(\d{4})-(\d{2})-(\d{2})/);
-    if (isoMatch) {
-      return dateStr;
+  const loadAccounts = async () => {
+    try {
+      const data = await bankAccountsService.getAll();
+      setAccounts((data || []).filter(a => !a.is_archived));
+    } catch (err) {
+      console.error('Failed to load bank accounts:', err);
     }
+  };
 
-    // Try DD-MM-YYYY format
-    const dashMatch = dateStr.match(/(\d{1,2})-(\d{1,2})-(\d{4})/);
-    if (dashMatch) {
-      const [, day, month, year] = dashMatch;
-      return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  useEffect(() => {
+    loadBatches();
+    loadAccounts();
+  }, []);
+
+  // Pick the account the statement says it's for
+  useEffect(() => {
+    const match = findAccountByNumber(accounts, statement?.accountNumber);
+    if (match) setSelectedAccountId(match.id);
+    else if (!selectedAccountId && accounts.length === 1) setSelectedAccountId(accounts[0].id);
+  }, [statement, accounts]);
+
+  // Look up stored lines over the statement's dates so overlaps are caught before importing
+  useEffect(() => {
+    setIncludeOverrides({});
+    if (parsedTransactions.length === 0) {
+      setStoredLines([]);
+      return;
+    }
+    const dates = parsedTransactions.map(t => t.date).sort();
+    setCheckingDuplicates(true);
+    bankTransactionsService.getInDateRange(dates[0], dates[dates.length - 1], selectedAccountId || undefined)
+      .then(lines => setStoredLines(lines || []))
+      .catch(err => console.error('Failed to check for duplicates:', err))
+      .finally(() => setCheckingDuplicates(false));
+  }, [parsedTransactions, selectedAccountId]);
+
+  useEffect(() => {
+    if (!firstNewDate || !selectedAccount) {
+      setPreviousBalance(null);
+      return;
+    }
+    // A new account carries on from its opening balance
+    const opening = selectedAccount.opening_balance_date && selectedAccount.opening_balance_date < firstNewDate
+      ? { date: selectedAccount.opening_balance_date, balance: Number(selectedAccount.opening_balance) }
+      : null;
+    bankTransactionsService.getLatestBalance(selectedAccount.id, firstNewDate)
+      .then(latest => setPreviousBalance(latest || opening))
+      .catch(err => console.error('Failed to load previous balance:', err));
+  }, [selectedAccount, firstNewDate]);
+
+  const loadStatement = (text: string) => {
+    const detected = detectStatementFormat(text);
+    if (!detected) {
+      setError("This doesn't look like a bank statement. Upload a CSV, OFX, QFX, QIF, CAMT.053 or MT940 file.");
+      return;
     }
 
-    return dateStr;
-  };
+    if (detected === 'csv') {
+      const rows = parseCsvRows(text);
+      if (rows.length < 2) {
+        setError('CSV file appears to be empty or invalid');
+        return;
+      }
+      // Fall back to picking the columns by hand when the headers aren't recognised
+      const layout = detectCsvLayout(rows);
+      setRawData(rows);
+      setCsvLayout(layout || { headerRow: 0, mapping: { date: 0, description: 1, amount: 2 } });
+      setShowMapping(!layout);
+      setStatement(null);
+    } else {
+      const parsed = parseStatement(text, detected);
+      if (!parsed || parsed.transactions.length === 0) {
+        setError(`No transactions found in this ${STATEMENT_FORMAT_LABELS[detected]} file`);
+        return;
+      }
+      setStatement(parsed);
+      setRawData([]);
+      setCsvLayout(null);
+      setShowMapping(false);
+    }
 
-  const parseAmount = (amountStr: string): number => {
-    // Remove currency symbols and whitespace
-    const cleaned = amountStr.replace(/[£$€\s]/g, '').replace(/,/g, '');
-    const num = parseFloat(cleaned);
-    return isNaN(num) ? 0 : num;
+    setFormat(detected);
+    setStep('preview');
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    // Validate CSV file
-    const validation = validateCsvFile(file);
+    // Validate statement file
+    const validation = validateStatementFile(file);
     if (!validation.valid) {
       setError(validation.error || 'Invalid file');
       return;
@@ -156,90 +236,118 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
     const reader = new FileReader();
     reader.onload = (ev) => {
       try {
-        const text = ev.target?.result as string;
-        const data = parseCSV(text);
-        if (data.length < 2) {
-          setError('CSV file appears to be empty or invalid');
-          return;
-        }
-        setRawData(data);
-        setStep('preview');
+        loadStatement(ev.target?.result as string);
       } catch (err) {
-        setError('Failed to parse CSV file');
+        setError('Failed to read the statement file');
       }
     };
     reader.onerror = () => setError('Failed to read file');
     reader.readAsText(file);
   };
 
-  const handleBankSelect = (bankId: string) => {
-    setSelectedBank(bankId);
-    const preset = BANK_PRESETS[bankId];
-    setMapping(preset.mapping);
-    setSkipRows(preset.skipRows);
+  const updateMapping = (field: keyof CsvColumnMapping, index: number) => {
+    if (!csvLayout) return;
+    setCsvLayout({ ...csvLayout, mapping: { ...csvLayout.mapping, [field]: index >= 0 ? index : undefined } });
   };
 
-  const applyMapping = () => {
+  const handleCreateAccount = async () => {
+    if (!newAccount.name.trim()) return;
+    setSavingAccount(true);
+    setError(null);
+
     try {
-      const dataRows = rawData.slice(skipRows);
-      const transactions: ParsedTransaction[] = dataRows
-        .filter(row => row.length > Math.max(mapping.date, mapping.description, mapping.amount))
-        .map(row => ({
-          date: parseDate(row[mapping.date] || ''),
-          description: row[mapping.description] || '',
-          amount: parseAmount(row[mapping.amount] || '0'),
-          balance: mapping.balance !== undefined && mapping.balance >= 0 ? parseAmount(row[mapping.balance] || '0') : undefined,
-          type: mapping.type !== undefined && mapping.type >= 0 ? row[mapping.type] : undefined,
-          reference: mapping.reference !== undefined && mapping.reference >= 0 ? row[mapping.reference] : undefined,
-        }))
-        .filter(t => t.date && t.description && t.amount !== 0);
-
-      setParsedTransactions(transactions);
-    } catch (err) {
-      setError('Failed to apply column mapping');
+      const created = await bankAccountsService.create({
+        name: newAccount.name.trim(),
+        account_type: newAccount.accountType,
+        bank_name: BANKS[newAccount.bank],
+        account_last_four: newAccount.lastFour.replace(/\D/g, '').slice(-4) || null,
+        opening_balance: parseFloat(newAccount.openingBalance) || 0,
+        opening_balance_date: newAccount.openingBalanceDate || null,
+      });
+      setAccounts(prev => [...prev, created]);
+      setSelectedAccountId(created.id);
+      setNewAccount(EMPTY_ACCOUNT);
+      setShowAccountForm(false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to add the account');
+    } finally {
+      setSavingAccount(false);
     }
   };
 
-  React.useEffect(() => {
-    if (rawData.length > 0) {
-      applyMapping();
-    }
-  }, [rawData, mapping, skipRows]);
+  const openAccountForm = () => {
+    const lastFour = statement?.accountNumber?.replace(/\D/g, '').slice(-4) || '';
+    setNewAccount({ ...EMPTY_ACCOUNT, lastFour });
+    setShowAccountForm(true);
+  };
 
   const handleImport = async () => {
+    if (!selectedAccount) {
+      setError('Choose the account this statement is for');
+      return;
+    }
     setImporting(true);
     setError(null);
 
     try {
       const batchId = `import_${Date.now()}`;
-      const transactionsToImport = parsedTransactions.map(t => ({
+      const accountLastFour = selectedAccount.account_last_four
+        || statement?.accountNumber?.replace(/\D/g, '').slice(-4) || undefined;
+      const rows = transactionsToImport.map(t => ({
         transaction_date: t.date,
         description: t.description,
         amount: t.amount,
         balance: t.balance,
         transaction_type: t.type,
         reference: t.reference,
+        external_id: t.uniqueId,
+        statement_format: format,
         import_batch_id: batchId,
-        bank_name: BANK_PRESETS[selectedBank]?.name || 'Unknown',
+        bank_account_id: selectedAccount.id,
+        bank_name: selectedAccount.bank_name || selectedAccount.name,
+        account_last_four: accountLastFour,
       }));
 
-      await bankTransactionsService.importBatch(transactionsToImport);
-      setImportResult({ success: transactionsToImport.length, failed: 0 });
+      const imported = await bankTransactionsService.importBatch(rows);
+      setImportedLines(imported || []);
+      setImportResult({ success: rows.length, failed: 0, skipped: parsedTransactions.length - rows.length });
       setStep('complete');
+      loadBatches();
     } catch (err: any) {
       setError(err.message || 'Failed to import transactions');
-      setImportResult({ success: 0, failed: parsedTransactions.length });
+      setImportResult({ success: 0, failed: transactionsToImport.length, skipped: 0 });
     } finally {
       setImporting(false);
     }
   };
 
+  const handleRollback = async (batch: ImportBatchSummary) => {
+    const reconciled = batch.reconciledCount > 0
+      ? ` ${batch.reconciledCount} of them are reconciled and will be unmatched.`
+      : '';
+    if (!confirm(`Undo this import? ${batch.count} transactions from ${batch.bankAccountId ? accountNames.get(batch.bankAccountId) || batch.bankName : batch.bankName} will be deleted.${reconciled}`)) return;
+
+    setRollingBack(batch.batchId);
+    setError(null);
+    try {
+      await bankTransactionsService.rollbackImport(batch.batchId);
+      await loadBatches();
+    } catch (err: any) {
+      setError(err.message || 'Failed to undo import');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
   const resetImport = () => {
     setStep('upload');
+    setFormat(null);
+    setStatement(null);
     setRawData([]);
-    setParsedTransactions([]);
+    setCsvLayout(null);
     setError(null);
     setImportResult(null);
+    setImportedLines([]);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
@@ -259,7 +367,7 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
           )}
           <div>
             <h1 className="text-3xl font-black text-slate-900 tracking-tight">Bank Import</h1>
-            <p className="text-slate-500 text-sm font-medium">Import transactions from your bank statement CSV</p>
+            <p className="text-slate-500 text-sm font-medium">Import transactions from your bank or card statement</p>
           </div>
         </div>
       </div>
@@ -302,13 +410,13 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
           <div className="text-center mb-4 md:mb-8">
             <FileSpreadsheet className="w-16 h-16 text-slate-300 mx-auto mb-4" />
             <h2 className="text-xl font-black text-slate-900 mb-2">Upload Bank Statement</h2>
-            <p className="text-slate-500 text-sm">Export a CSV file from your online banking and upload it here</p>
+            <p className="text-slate-500 text-sm">Download a statement from your online banking and upload it here</p>
           </div>
 
           <input
             ref={fileInputRef}
             type="file"
-            accept=".csv"
+            accept={STATEMENT_FILE_EXTENSIONS.join(',')}
             onChange={handleFileSelect}
             className="hidden"
           />
@@ -318,8 +426,8 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
             className="w-full p-4 md:p-8 border-2 border-dashed border-slate-200 rounded-2xl text-center hover:border-teal-500 hover:bg-teal-50 transition-colors group"
           >
             <Upload className="w-10 h-10 text-slate-400 group-hover:text-teal-500 mx-auto mb-3 transition-colors" />
-            <p className="font-bold text-slate-600 group-hover:text-teal-600 mb-1">Click to upload CSV</p>
-            <p className="text-xs text-slate-400">Supports most UK banks: Starling, Monzo, Lloyds, Barclays, NatWest</p>
+            <p className="font-bold text-slate-600 group-hover:text-teal-600 mb-1">Click to upload a statement</p>
+            <p className="text-xs text-slate-400">CSV, OFX, QFX, QIF, CAMT.053 (XML) or MT940 - the format is picked up automatically</p>
           </button>
 
           <div className="mt-8 p-3 md:p-6 bg-slate-50 rounded-2xl">
@@ -332,53 +440,189 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
               <li>• <strong>Monzo:</strong> Account → Download statement → CSV</li>
               <li>• <strong>Lloyds:</strong> Statements → Export → Download as CSV</li>
               <li>• <strong>Barclays:</strong> Statements → Download → CSV format</li>
+              <li>• <strong>Credit cards:</strong> most providers offer OFX, QFX or QIF downloads</li>
+              <li>• <strong>Business accounts:</strong> look for MT940 or CAMT.053 in the statement export options</li>
             </ul>
           </div>
         </div>
       )}
 
+      {/* Import history */}
+      {step === 'upload' && batches.length > 0 && (
+        <div className="mt-6 bg-white rounded-3xl border border-slate-200 overflow-hidden">
+          <div className="p-4 md:p-6 border-b border-slate-100">
+            <h3 className="font-black text-slate-900 flex items-center gap-2">
+              <History size={18} />
+              Previous Imports
+            </h3>
+            <p className="text-xs text-slate-500">Undo an import to remove all of its transactions</p>
+          </div>
+          <div className="divide-y divide-slate-100">
+            {batches.map(batch => (
+              <div key={batch.batchId} className="flex items-center justify-between gap-3 p-4 md:px-6">
+                <div className="min-w-0">
+                  <p className="font-bold text-slate-900 text-sm truncate">
+                    {(batch.bankAccountId && accountNames.get(batch.bankAccountId)) || batch.bankName} · {formatDate(batch.from)} to {formatDate(batch.to)}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {batch.count} transactions
+                    {batch.reconciledCount > 0 && ` (${batch.reconciledCount} reconciled)`}
+                    {' · '}+{formatCurrency(batch.moneyIn)} / -{formatCurrency(batch.moneyOut)}
+                    {batch.importedAt && ` · imported ${formatDate(batch.importedAt)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRollback(batch)}
+                  disabled={rollingBack !== null}
+                  className="flex items-center gap-2 px-3 py-2 text-red-600 hover:bg-red-50 rounded-xl transition-colors disabled:opacity-50 shrink-0"
+                >
+                  {rollingBack === batch.batchId ? <Loader2 size={16} className="animate-spin" /> : <RotateCcw size={16} />}
+                  <span className="text-sm font-bold">Undo</span>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Step 2: Preview & Map */}
       {step === 'preview' && (
         <div className="space-y-6">
-          {/* Bank Selection */}
+          {/* Account Selection */}
           <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6">
-            <h3 className="font-black text-sm text-slate-700 mb-4">Select Your Bank</h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-black text-sm text-slate-700">Which account is this statement for?</h3>
+              {!showAccountForm && (
+                <button
+                  onClick={openAccountForm}
+                  className="flex items-center gap-1 px-3 py-1.5 text-teal-600 hover:bg-teal-50 rounded-xl transition-colors"
+                >
+                  <Plus size={14} />
+                  <span className="text-xs font-bold">Add Account</span>
+                </button>
+              )}
+            </div>
+
+            {accounts.length === 0 && !showAccountForm && (
+              <p className="text-sm text-slate-500">Add the bank account or card this statement comes from.</p>
+            )}
+
             <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
-              {Object.entries(BANK_PRESETS).map(([id, preset]) => (
+              {accounts.map(account => (
                 <button
-                  key={id}
-                  onClick={() => handleBankSelect(id)}
+                  key={account.id}
+                  onClick={() => setSelectedAccountId(account.id)}
                   className={`p-4 rounded-2xl border-2 transition-all text-left ${
-                    selectedBank === id
+                    selectedAccountId === account.id
                       ? 'border-teal-500 bg-teal-50'
                       : 'border-slate-100 hover:border-slate-200'
                   }`}
                 >
-                  <p className={`font-bold text-sm ${selectedBank === id ? 'text-teal-700' : 'text-slate-700'}`}>
-                    {preset.name}
+                  <p className={`font-bold text-sm ${selectedAccountId === account.id ? 'text-teal-700' : 'text-slate-700'}`}>
+                    {formatAccountLabel(account)}
+                  </p>
+                  <p className="text-xs text-slate-400">
+                    {BANK_ACCOUNT_TYPE_LABELS[account.account_type as BankAccountType] || account.account_type}
+                    {account.bank_name && ` · ${account.bank_name}`}
                   </p>
                 </button>
               ))}
             </div>
+
+            {showAccountForm && (
+              <div className="mt-4 p-4 bg-slate-50 rounded-2xl space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="font-bold text-sm text-slate-700">New Account</p>
+                  <button onClick={() => setShowAccountForm(false)} className="p-1 text-slate-400 hover:text-slate-600">
+                    <X size={16} />
+                  </button>
+                </div>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                  <input
+                    type="text"
+                    placeholder="Name, e.g. Business Current"
+                    value={newAccount.name}
+                    onChange={(e) => setNewAccount({ ...newAccount, name: e.target.value })}
+                    className="col-span-2 sm:col-span-1 px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  />
+                  <select
+                    value={newAccount.accountType}
+                    onChange={(e) => setNewAccount({ ...newAccount, accountType: e.target.value as BankAccountType })}
+                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  >
+                    {BANK_ACCOUNT_TYPES.map(type => (
+                      <option key={type} value={type}>{BANK_ACCOUNT_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={newAccount.bank}
+                    onChange={(e) => setNewAccount({ ...newAccount, bank: e.target.value })}
+                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  >
+                    {Object.entries(BANKS).map(([id, name]) => (
+                      <option key={id} value={id}>{name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    maxLength={4}
+                    placeholder="Last 4 digits"
+                    value={newAccount.lastFour}
+                    onChange={(e) => setNewAccount({ ...newAccount, lastFour: e.target.value })}
+                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  />
+                  <input
+                    type="number"
+                    step="0.01"
+                    placeholder="Opening balance"
+                    value={newAccount.openingBalance}
+                    onChange={(e) => setNewAccount({ ...newAccount, openingBalance: e.target.value })}
+                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  />
+                  <input
+                    type="date"
+                    title="Opening balance date"
+                    value={newAccount.openingBalanceDate}
+                    onChange={(e) => setNewAccount({ ...newAccount, openingBalanceDate: e.target.value })}
+                    className="px-3 py-2 border border-slate-200 rounded-xl text-sm"
+                  />
+                </div>
+                <p className="text-xs text-slate-500">
+                  Credit cards: enter what you owe as a negative opening balance.
+                </p>
+                <button
+                  onClick={handleCreateAccount}
+                  disabled={!newAccount.name.trim() || savingAccount}
+                  className="flex items-center gap-2 px-4 py-2 bg-teal-500 text-slate-900 font-bold text-sm rounded-xl hover:bg-teal-400 disabled:opacity-50"
+                >
+                  {savingAccount ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                  Save Account
+                </button>
+              </div>
+            )}
           </div>
 
-          {/* Column Mapping (for custom) */}
-          {selectedBank === 'custom' && (
+          {/* Column Mapping (CSV) */}
+          {format === 'csv' && csvLayout && showMapping && (
             <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6">
-              <h3 className="font-black text-sm text-slate-700 mb-4">Column Mapping</h3>
-              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-                {['date', 'description', 'amount', 'balance'].map((field) => (
+              <h3 className="font-black text-sm text-slate-700 mb-1">Column Mapping</h3>
+              <p className="text-xs text-slate-500 mb-4">
+                Pick the columns to use. Leave Amount unused if your bank has separate Paid In and Paid Out columns.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                {MAPPING_FIELDS.map(({ field, label }) => (
                   <div key={field}>
                     <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">
-                      {field} Column
+                      {label} Column
                     </label>
                     <select
-                      value={(mapping as any)[field] ?? -1}
-                      onChange={(e) => setMapping({ ...mapping, [field]: parseInt(e.target.value) })}
+                      value={csvLayout.mapping[field] ?? -1}
+                      onChange={(e) => updateMapping(field, parseInt(e.target.value))}
                       className="w-full px-3 py-2 border border-slate-200 rounded-xl text-sm"
                     >
                       <option value={-1}>Not used</option>
-                      {rawData[0]?.map((header, idx) => (
+                      {(rawData[csvLayout.headerRow] || rawData[0])?.map((header, idx) => (
                         <option key={idx} value={idx}>Col {idx + 1}: {header.slice(0, 20)}</option>
                       ))}
                     </select>
@@ -393,54 +637,108 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
                   type="number"
                   min={0}
                   max={10}
-                  value={skipRows}
-                  onChange={(e) => setSkipRows(parseInt(e.target.value) || 0)}
+                  value={csvLayout.headerRow + 1}
+                  onChange={(e) => setCsvLayout({ ...csvLayout, headerRow: (parseInt(e.target.value) || 0) - 1 })}
                   className="w-24 px-3 py-2 border border-slate-200 rounded-xl text-sm"
                 />
               </div>
             </div>
           )}
 
+          {/* Balance continuity */}
+          {continuity.status === 'gap' && (
+            <div className="p-4 bg-amber-50 border border-amber-200 rounded-2xl flex items-start gap-3 text-amber-700">
+              <AlertTriangle size={20} className="shrink-0 mt-0.5" />
+              <p className="text-sm font-medium">
+                This statement opens at {formatCurrency(continuity.openingBalance!)}, but the last {selectedAccount?.name} balance
+                ({formatDate(continuity.previousDate!)}) was {formatCurrency(continuity.previousBalance!)}.
+                {' '}{formatCurrency(Math.abs(continuity.difference!))} of transactions may be missing between the two.
+              </p>
+            </div>
+          )}
+          {continuity.status === 'ok' && (
+            <div className="p-4 bg-emerald-50 border border-emerald-200 rounded-2xl flex items-center gap-3 text-emerald-700">
+              <Check size={20} className="shrink-0" />
+              <p className="text-sm font-medium">
+                Balance carries on from the last {selectedAccount?.name} balance on {formatDate(continuity.previousDate!)}.
+              </p>
+            </div>
+          )}
+
           {/* Preview Table */}
           <div className="bg-white rounded-3xl border border-slate-200 overflow-hidden">
             <div className="p-6 border-b border-slate-100 flex items-center justify-between">
               <div>
                 <h3 className="font-black text-slate-900">Preview ({parsedTransactions.length} transactions)</h3>
-                <p className="text-xs text-slate-500">Review before importing</p>
+                <p className="text-xs text-slate-500">
+                  {format && `${STATEMENT_FORMAT_LABELS[format]} statement`}
+                  {statement?.accountNumber && ` for account ending ${statement.accountNumber.slice(-4)}`}
+                  {' · '}
+                  {checkingDuplicates
+                    ? 'Checking for duplicates...'
+                    : `${duplicateCount} already imported, ${possibleDuplicateCount} to check`}
+                </p>
               </div>
-              <button
-                onClick={applyMapping}
-                className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
-              >
-                <RefreshCw size={16} />
-                <span className="text-sm font-bold">Refresh</span>
-              </button>
+              {format === 'csv' && (
+                <button
+                  onClick={() => setShowMapping(!showMapping)}
+                  className="flex items-center gap-2 px-4 py-2 text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+                >
+                  <Columns size={16} />
+                  <span className="text-sm font-bold">{showMapping ? 'Hide Columns' : 'Change Columns'}</span>
+                </button>
+              )}
             </div>
 
             <div className="max-h-[400px] overflow-auto">
               <table className="w-full text-sm">
                 <thead className="bg-slate-50 sticky top-0">
                   <tr>
+                    <th className="w-10 p-4" />
                     <th className="text-left p-4 font-black text-slate-600 text-xs uppercase">Date</th>
                     <th className="text-left p-4 font-black text-slate-600 text-xs uppercase">Description</th>
                     <th className="text-right p-4 font-black text-slate-600 text-xs uppercase">Amount</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-100">
-                  {parsedTransactions.slice(0, 50).map((tx, idx) => (
-                    <tr key={idx} className="hover:bg-slate-50">
-                      <td className="p-4 text-slate-600">{tx.date}</td>
-                      <td className="p-4 text-slate-900 font-medium truncate max-w-[300px]">{tx.description}</td>
-                      <td className={`p-4 text-right font-bold ${tx.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
-                        {tx.amount < 0 ? '-' : '+'}£{Math.abs(tx.amount).toFixed(2)}
-                      </td>
-                    </tr>
-                  ))}
+                  {parsedTransactions.map((tx, idx) => {
+                    const check = duplicateChecks[idx];
+                    // Flagged rows always show so they can be ticked or unticked
+                    if (idx >= 50 && check?.status === 'new') return null;
+                    return (
+                      <tr key={idx} className={`hover:bg-slate-50 ${isIncluded(idx) ? '' : 'opacity-50'}`}>
+                        <td className="p-4">
+                          <input
+                            type="checkbox"
+                            checked={isIncluded(idx)}
+                            onChange={(e) => setIncludeOverrides({ ...includeOverrides, [idx]: e.target.checked })}
+                            className="w-4 h-4 rounded accent-teal-500"
+                            aria-label="Import this transaction"
+                          />
+                        </td>
+                        <td className="p-4 text-slate-600">{tx.date}</td>
+                        <td className="p-4 text-slate-900 font-medium max-w-[300px]">
+                          <p className="truncate">{tx.description}</p>
+                          {check?.status === 'duplicate' && (
+                            <span className="text-[10px] font-black uppercase text-slate-400">Already imported</span>
+                          )}
+                          {check?.status === 'possible_duplicate' && (
+                            <span className="text-[10px] font-black uppercase text-amber-600" title={check.matchedDescription}>
+                              Possible duplicate of "{check.matchedDescription}"
+                            </span>
+                          )}
+                        </td>
+                        <td className={`p-4 text-right font-bold ${tx.amount < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                          {tx.amount < 0 ? '-' : '+'}£{Math.abs(tx.amount).toFixed(2)}
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
               {parsedTransactions.length > 50 && (
                 <p className="p-4 text-center text-slate-400 text-sm">
-                  Showing 50 of {parsedTransactions.length} transactions
+                  Showing the first 50 of {parsedTransactions.length} transactions, plus any flagged as duplicates
                 </p>
               )}
             </div>
@@ -456,7 +754,7 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
             </button>
             <button
               onClick={handleImport}
-              disabled={parsedTransactions.length === 0 || importing}
+              disabled={transactionsToImport.length === 0 || !selectedAccount || importing || checkingDuplicates}
               className="flex-1 px-6 py-4 bg-teal-500 text-slate-900 rounded-2xl font-black hover:bg-teal-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {importing ? (
@@ -467,7 +765,7 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
               ) : (
                 <>
                   <Check size={20} />
-                  Import {parsedTransactions.length} Transactions
+                  Import {transactionsToImport.length} Transactions
                 </>
               )}
             </button>
@@ -484,6 +782,7 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
           <h2 className="text-2xl font-black text-slate-900 mb-2">Import Complete!</h2>
           <p className="text-slate-500 mb-4 md:mb-8">
             Successfully imported {importResult.success} transactions
+            {importResult.skipped > 0 && `, skipped ${importResult.skipped} already imported`}
           </p>
 
           <div className="flex gap-4 justify-center">
@@ -502,6 +801,11 @@ export const BankImportPage: React.FC<BankImportPageProps> = ({ onBack }) => {
           </div>
         </div>
       )}
+      {step === 'complete' && importedLines.length > 0 && (
+        <div className="mt-4 md:mt-8">
+          <BankRuleExpenses transactions={importedLines} onApproved={loadBatches} />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,424 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Wand2, Check, Square, CheckSquare, Loader2, Plus, Trash2, AlertCircle, ChevronDown, ChevronUp
+} from 'lucide-react';
+import {
+  bankRulesService, expenseCategoriesService, expensesService, reconciliationService,
+  vendorKeywordsService, vendorsService
+} from '../src/services/dataService';
+import { useData } from '../src/contexts/DataContext';
+import { VAT_RATE_CODES, formatVatBand, getVatRatePercent } from '../src/utils/vatRates';
+import {
+  draftRuleExpenses, normaliseBankRulePattern,
+  type BankRule, type RuleExpenseDraft
+} from '../src/utils/bankRules';
+import type { VatRateCode } from '../types';
+
+interface BankRuleRow {
+  id: string;
+  pattern: string;
+  vendor_name: string;
+  category: string | null;
+  vat_rate: string | null;
+  payment_method: string | null;
+  is_active: boolean;
+  times_applied: number;
+}
+
+interface BankLine {
+  id: string;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  is_reconciled?: boolean | null;
+}
+
+interface VendorDefaults {
+  name: string;
+  category: string | null;
+}
+
+interface BankRuleExpensesProps {
+  // Lines to check; reconciled ones are ignored
+  transactions: BankLine[];
+  onApproved?: () => void;
+}
+
+const PAYMENT_METHODS = [
+  { id: 'card', label: 'Card' },
+  { id: 'bank_transfer', label: 'Bank Transfer' },
+  { id: 'cash', label: 'Cash' },
+  { id: 'cheque', label: 'Cheque' },
+];
+
+const EMPTY_RULE = { pattern: '', vendorName: '', category: '', vatRate: 'standard' as VatRateCode | '', paymentMethod: 'card' };
+
+const toBankRule = (row: BankRuleRow): BankRule => ({
+  id: row.id,
+  pattern: row.pattern,
+  vendorName: row.vendor_name,
+  category: row.category,
+  vatRate: (row.vat_rate as VatRateCode | null) || null,
+  paymentMethod: row.payment_method,
+  isActive: row.is_active,
+});
+
+/**
+ * Expenses drafted by bank rules for unmatched outgoing lines, with a
+ * review and bulk-approve step. Approved drafts are saved as expenses
+ * already reconciled to their bank line.
+ */
+export const BankRuleExpenses: React.FC<BankRuleExpensesProps> = ({ transactions, onApproved }) => {
+  const { settings } = useData();
+  const [rules, setRules] = useState<BankRuleRow[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [vendorDefaults, setVendorDefaults] = useState<Record<string, VendorDefaults>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [approving, setApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Lines given an expense here, hidden before the parent reloads
+  const [doneIds, setDoneIds] = useState<Set<string>>(new Set());
+  const [showRules, setShowRules] = useState(false);
+  const [newRule, setNewRule] = useState(EMPTY_RULE);
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    setLoading(true);
+    try {
+      const [ruleData, categoryData] = await Promise.all([
+        bankRulesService.getAll(),
+        expenseCategoriesService.getAll(),
+      ]);
+      setRules(ruleData || []);
+      setCategories(categoryData || []);
+    } catch (err) {
+      console.error('Failed to load bank rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const drafts = useMemo(() => draftRuleExpenses(
+    transactions
+      .filter(tx => !tx.is_reconciled && !doneIds.has(tx.id))
+      .map(tx => ({ id: tx.id, date: tx.transaction_date, description: tx.description, amount: tx.amount })),
+    rules.map(toBankRule),
+    settings.defaultTaxRate
+  ), [transactions, doneIds, rules, settings.defaultTaxRate]);
+
+  // Use the vendor's saved name, and their usual category when the rule has none
+  useEffect(() => {
+    const missing = Array.from(new Set(drafts.map(d => d.vendor.toLowerCase()))).filter(v => !vendorDefaults[v]);
+    if (missing.length === 0) return;
+
+    Promise.all(drafts
+      .filter((d, i, all) => missing.includes(d.vendor.toLowerCase()) && all.findIndex(o => o.vendor.toLowerCase() === d.vendor.toLowerCase()) === i)
+      .map(async (draft): Promise<[string, VendorDefaults]> => {
+        const vendor = await vendorsService.getByName(draft.vendor);
+        const keyword = vendor?.default_category ? null : await vendorKeywordsService.findCategoryByVendor(draft.vendor);
+        return [draft.vendor.toLowerCase(), {
+          name: vendor?.name || draft.vendor,
+          category: vendor?.default_category || keyword?.name || null,
+        }];
+      }))
+      .then(entries => setVendorDefaults(prev => ({ ...prev, ...Object.fromEntries(entries) })))
+      .catch(err => console.error('Failed to look up vendors:', err));
+  }, [drafts]);
+
+  // Everything starts ticked
+  useEffect(() => {
+    setSelected(new Set(drafts.map(d => d.transactionId)));
+  }, [drafts]);
+
+  const resolveDraft = (draft: RuleExpenseDraft) => {
+    const defaults = vendorDefaults[draft.vendor.toLowerCase()];
+    return {
+      ...draft,
+      vendor: defaults?.name || draft.vendor,
+      category: draft.category || defaults?.category || 'Other',
+    };
+  };
+
+  const toggle = (transactionId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(transactionId)) {
+        next.delete(transactionId);
+      } else {
+        next.add(transactionId);
+      }
+      return next;
+    });
+  };
+
+  const handleApprove = async () => {
+    const toCreate = drafts.filter(d => selected.has(d.transactionId)).map(resolveDraft);
+    if (toCreate.length === 0) return;
+
+    setApproving(true);
+    setError(null);
+    const appliedByRule = new Map<string, number>();
+    const done: string[] = [];
+    try {
+      for (const draft of toCreate) {
+        const expense = await expensesService.create({
+          vendor: draft.vendor,
+          description: draft.description,
+          amount: draft.amount,
+          vat_amount: draft.vatAmount,
+          vat_rate: draft.vatRate,
+          category: draft.category,
+          expense_date: draft.expenseDate,
+          payment_method: draft.paymentMethod,
+        });
+        try {
+          await reconciliationService.reconcileMulti(draft.transactionId, [expense.id]);
+        } catch (err) {
+          // Take the expense back out so approving again doesn't create a duplicate
+          try { await expensesService.delete(expense.id); }
+          catch (deleteErr) { console.error('Failed to remove unreconciled expense:', deleteErr); }
+          throw err;
+        }
+        done.push(draft.transactionId);
+        appliedByRule.set(draft.ruleId, (appliedByRule.get(draft.ruleId) || 0) + 1);
+
+        const category = categories.find(c => c.name === draft.category);
+        if (category && draft.vendor.length >= 3) {
+          try { await vendorKeywordsService.learnKeyword(draft.vendor, category.id); }
+          catch (err) { console.log('Keyword learning skipped:', err); }
+        }
+      }
+    } catch (err: any) {
+      console.error('Failed to create rule expenses:', err);
+      setError(err.message || 'Failed to create expenses');
+    } finally {
+      for (const [ruleId, count] of appliedByRule) {
+        try { await bankRulesService.recordApplied(ruleId, count); }
+        catch (err) { console.error('Failed to update rule usage:', err); }
+      }
+      setDoneIds(prev => new Set([...prev, ...done]));
+      setApproving(false);
+      if (done.length > 0) onApproved?.();
+    }
+  };
+
+  const handleAddRule = async () => {
+    const pattern = normaliseBankRulePattern(newRule.pattern);
+    if (!pattern || !newRule.vendorName.trim()) {
+      setError('Enter the description text and the vendor');
+      return;
+    }
+
+    setError(null);
+    try {
+      const created = await bankRulesService.create({
+        pattern,
+        vendor_name: newRule.vendorName.trim(),
+        category: newRule.category || null,
+        vat_rate: newRule.vatRate || null,
+        payment_method: newRule.paymentMethod,
+      });
+      setRules(prev => [...prev, created].sort((a, b) => a.pattern.localeCompare(b.pattern)));
+      setNewRule(EMPTY_RULE);
+    } catch (err) {
+      console.error('Failed to add bank rule:', err);
+      setError('Could not save the rule. There may already be one for this text.');
+    }
+  };
+
+  const handleToggleRule = async (rule: BankRuleRow) => {
+    try {
+      const updated = await bankRulesService.update(rule.id, { is_active: !rule.is_active });
+      setRules(prev => prev.map(r => r.id === rule.id ? updated : r));
+    } catch (err) {
+      console.error('Failed to update bank rule:', err);
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (!confirm('Delete this bank rule? Expenses it already created are kept.')) return;
+    try {
+      await bankRulesService.delete(id);
+      setRules(prev => prev.filter(r => r.id !== id));
+    } catch (err) {
+      console.error('Failed to delete bank rule:', err);
+    }
+  };
+
+  const formatVatRate = (code: string | null) =>
+    code ? formatVatBand({ code: code as VatRateCode, ratePercent: getVatRatePercent(code as VatRateCode, settings.defaultTaxRate) }) : 'No VAT';
+
+  if (loading) return null;
+
+  const selectedTotal = drafts.filter(d => selected.has(d.transactionId)).reduce((sum, d) => sum + d.gross, 0);
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8 text-left">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-violet-100 rounded-xl">
+            <Wand2 className="w-5 h-5 text-violet-600" />
+          </div>
+          <div>
+            <h2 className="font-black text-slate-900">Bank Rules</h2>
+            <p className="text-sm text-slate-600">
+              {drafts.length > 0
+                ? `${drafts.length} unmatched payment${drafts.length !== 1 ? 's' : ''} can be logged as expenses`
+                : doneIds.size > 0
+                  ? `${doneIds.size} expense${doneIds.size !== 1 ? 's' : ''} created and reconciled`
+                  : 'Log regular payments like fuel and phone bills as expenses automatically'}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowRules(!showRules)}
+          className="flex items-center gap-1 px-3 py-2 bg-slate-100 text-slate-700 rounded-xl font-bold text-xs hover:bg-slate-200 transition-colors shrink-0"
+        >
+          Rules ({rules.length})
+          {showRules ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        </button>
+      </div>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle size={14} />
+          {error}
+        </p>
+      )}
+
+      {/* Drafted expenses */}
+      {drafts.length > 0 && (
+        <>
+          <div className="divide-y divide-slate-100 border border-slate-100 rounded-2xl mb-4">
+            {drafts.map(resolveDraft).map(draft => (
+              <button
+                key={draft.transactionId}
+                onClick={() => toggle(draft.transactionId)}
+                className="w-full p-3 flex items-center gap-3 text-left hover:bg-slate-50 transition-colors"
+              >
+                {selected.has(draft.transactionId)
+                  ? <CheckSquare size={18} className="text-violet-600 shrink-0" />
+                  : <Square size={18} className="text-slate-300 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-900 truncate">{draft.description}</p>
+                  <p className="text-xs text-slate-500 mt-0.5 truncate">
+                    {new Date(draft.expenseDate).toLocaleDateString()} · {draft.vendor} · {draft.category}
+                    {' · '}{draft.vatAmount > 0 ? `VAT £${draft.vatAmount.toFixed(2)}` : formatVatRate(draft.vatRate)}
+                  </p>
+                </div>
+                <span className="font-black text-slate-900">£{draft.gross.toFixed(2)}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <button
+              onClick={() => setSelected(selected.size === drafts.length ? new Set() : new Set(drafts.map(d => d.transactionId)))}
+              className="text-xs font-bold text-slate-500 hover:text-slate-700"
+            >
+              {selected.size === drafts.length ? 'Select none' : 'Select all'}
+            </button>
+            <button
+              onClick={handleApprove}
+              disabled={approving || selected.size === 0}
+              className="flex items-center gap-2 px-5 py-2.5 bg-violet-600 text-white rounded-xl font-black text-sm hover:bg-violet-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {approving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check size={16} />}
+              Create {selected.size} Expense{selected.size !== 1 ? 's' : ''} (£{selectedTotal.toFixed(2)})
+            </button>
+          </div>
+        </>
+      )}
+
+      {/* Rule management */}
+      {showRules && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <div className="grid grid-cols-2 md:grid-cols-[1fr_1fr_1fr_auto_auto_auto] gap-2 items-center mb-3">
+            <input
+              type="text"
+              placeholder="Description contains..."
+              value={newRule.pattern}
+              onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              placeholder="Vendor"
+              value={newRule.vendorName}
+              onChange={(e) => setNewRule({ ...newRule, vendorName: e.target.value })}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-violet-500 focus:border-transparent"
+            />
+            <select
+              value={newRule.category}
+              onChange={(e) => setNewRule({ ...newRule, category: e.target.value })}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm"
+              title="Category"
+            >
+              <option value="">Vendor's usual category</option>
+              {categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
+            </select>
+            <select
+              value={newRule.vatRate}
+              onChange={(e) => setNewRule({ ...newRule, vatRate: e.target.value as VatRateCode | '' })}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm"
+              title="VAT rate"
+            >
+              {VAT_RATE_CODES.map(code => <option key={code} value={code}>{formatVatRate(code)}</option>)}
+              <option value="">No VAT</option>
+            </select>
+            <select
+              value={newRule.paymentMethod}
+              onChange={(e) => setNewRule({ ...newRule, paymentMethod: e.target.value })}
+              className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm"
+              title="Payment method"
+            >
+              {PAYMENT_METHODS.map(pm => <option key={pm.id} value={pm.id}>{pm.label}</option>)}
+            </select>
+            <button
+              onClick={handleAddRule}
+              className="flex items-center justify-center gap-1 px-4 py-2 bg-violet-600 text-white rounded-xl font-black text-sm hover:bg-violet-500 transition-colors"
+            >
+              <Plus size={16} />
+              Add
+            </button>
+          </div>
+
+          {rules.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-4">No bank rules yet</p>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {rules.map(rule => (
+                <div key={rule.id} className={`py-2 flex items-center gap-3 ${rule.is_active ? '' : 'opacity-50'}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-slate-900 text-sm truncate">"{rule.pattern}" → {rule.vendor_name}</p>
+                    <p className="text-xs text-slate-500">
+                      {rule.category || "Vendor's usual category"} · {formatVatRate(rule.vat_rate)}
+                      {' · '}Used {rule.times_applied} time{rule.times_applied !== 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleToggleRule(rule)}
+                    className="px-2 py-1 text-xs font-bold text-slate-500 hover:text-slate-700 hover:bg-slate-100 rounded-lg"
+                  >
+                    {rule.is_active ? 'Pause' : 'Resume'}
+                  </button>
+                  <button
+                    onClick={() => handleDeleteRule(rule.id)}
+                    className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-colors"
+                    title="Delete rule"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
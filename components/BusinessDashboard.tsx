@@ -1,5 +1,7 @@
 import React, { useMemo } from 'react';
 import { Quote, Customer, ScheduleEntry } from '../types';
+import { useData } from '../src/contexts/DataContext';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
 import {
   PoundSterling, TrendingUp, TrendingDown, AlertTriangle,
   Calendar, Clock, FileText, CheckCircle2, XCircle,
@@ -89,18 +91,9 @@ export const BusinessDashboard: React.FC<BusinessDashboardProps> = ({
   onNavigateToQuotes,
   onNavigateToSchedule,
 }) => {
-  // Calculate quote total helper
-  const calculateQuoteTotal = (quote: Quote): number => {
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) =>
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * ((quote.markupPercent || 0) / 100);
-    const tax = (subtotal + markup) * ((quote.taxPercent || 0) / 100);
-    return subtotal + markup + tax;
-  };
+  const { settings } = useData();
+
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
 
   // Calculate all business metrics
   const metrics = useMemo(() => {
@@ -127,12 +120,13 @@ export const BusinessDashboard: React.FC<BusinessDashboardProps> = ({
     // === INVOICES ===
     const invoices = quotes.filter(q => q.type === 'invoice');
 
-    // Outstanding invoices (sent or accepted, not paid)
+    // Outstanding invoices (sent, accepted or part paid)
     const outstandingInvoices = invoices.filter(
-      inv => inv.status === 'sent' || inv.status === 'accepted'
+      inv => inv.status === 'sent' || inv.status === 'accepted' || inv.status === 'part_paid'
     );
+    // amountPaid is rolled up from the invoice_payments ledger
     const outstandingTotal = outstandingInvoices.reduce(
-      (sum, inv) => sum + calculateQuoteTotal(inv), 0
+      (sum, inv) => sum + calculateQuoteTotal(inv) - (inv.amountPaid || 0), 0
     );
 
     // Overdue invoices (unpaid and > 14 days old)
@@ -263,7 +257,7 @@ export const BusinessDashboard: React.FC<BusinessDashboardProps> = ({
       // Customers
       totalCustomers: customers.length,
     };
-  }, [quotes, customers, schedule]);
+  }, [quotes, customers, schedule, settings]);
 
   const formatCurrency = (value: number) => {
     if (value >= 1000) {
@@ -0,0 +1,278 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, AlertTriangle, Loader2, TrendingUp, ChevronDown, ChevronUp } from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import {
+  bankTransactionsService,
+  expensesService,
+  invoicePaymentsService,
+  mileageTripsService,
+  payablesService,
+  quotesService,
+  vatReturnsService,
+  vehiclesService,
+  type Payable,
+} from '../src/services/dataService';
+import { handleApiError } from '../src/utils/errorHandler';
+import { getRowTotals } from '../src/utils/quoteCalculations';
+import { buildVatEntries, getVatSettings, summariseVatPeriods, type VatPeriodSummary } from '../src/utils/vatPeriods';
+import { applyFiledReturns, toFiledVatReturn } from '../src/utils/vatReturn';
+import { buildFuelVatEntries, isAdvisoryFuelExpense, toMileageTrip, toVehicle } from '../src/utils/mileage';
+import { getStatementBalance, type StatementTransaction } from '../src/utils/financialStatements';
+import {
+  buildCashForecast,
+  getBillPayments,
+  getCustomerPaymentDelays,
+  getForecastHorizon,
+  getInvoiceReceipts,
+  getQuoteReceipts,
+  getVatPayments,
+  FORECAST_FLOW_LABELS,
+  FORECAST_WEEKS,
+} from '../src/utils/cashForecast';
+
+interface CashForecastPageProps {
+  onBack?: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}£${Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatShortDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short' });
+
+export const CashForecastPage: React.FC<CashForecastPageProps> = ({ onBack }) => {
+  const { quotes, invoicePayments, schedule, settings } = useData();
+  const toast = useToast();
+  const [bills, setBills] = useState<Payable[]>([]);
+  const [transactions, setTransactions] = useState<StatementTransaction[]>([]);
+  const [vatPeriods, setVatPeriods] = useState<VatPeriodSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [threshold, setThreshold] = useState(1000);
+  const [expandedWeek, setExpandedWeek] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+  const vatSettings = getVatSettings(settings);
+
+  useEffect(() => {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const [payableData, bankData] = await Promise.all([
+          payablesService.getAll(),
+          bankTransactionsService.getAll(),
+        ]);
+        setBills(payableData || []);
+        // Oldest first so same-day lines keep their statement order
+        setTransactions([...(bankData || [])].reverse());
+
+        // VAT owed per return, worked out the same way as the VAT page
+        if (settings.enableVat) {
+          const [expData, quoteData, paymentData, returnData, vehicleData, tripData] = await Promise.all([
+            expensesService.getAll(),
+            quotesService.getAll(),
+            invoicePaymentsService.getAll(),
+            vatReturnsService.getAll(),
+            vehiclesService.getAll(),
+            mileageTripsService.getAll(),
+          ]);
+          const invoices = (quoteData || [])
+            .filter((q: any) => q.type === 'invoice' || q.type === 'credit_note')
+            .map((q: any) => ({ ...q, ...getRowTotals(q, settings) }));
+          const vehicles = (vehicleData || []).map(toVehicle);
+          const expenses = (expData || []).filter(e => !isAdvisoryFuelExpense(e, vehicles));
+          const entries = applyFiledReturns(
+            [
+              ...buildVatEntries({ invoices, payments: paymentData || [], expenses, bills: payableData || [] }, vatSettings.scheme),
+              ...buildFuelVatEntries((tripData || []).map(toMileageTrip), vehicles, vatSettings),
+            ],
+            (returnData || []).map(toFiledVatReturn),
+            vatSettings.stagger
+          );
+          setVatPeriods(summariseVatPeriods(entries, vatSettings));
+        }
+      } catch (error) {
+        const { message } = handleApiError(error);
+        toast.error('Failed to Load Forecast', message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadData();
+  }, [settings.enableVat]);
+
+  const openingBalance = useMemo(() => getStatementBalance(transactions, today), [transactions, today]);
+
+  const forecast = useMemo(() => {
+    const delays = getCustomerPaymentDelays(quotes, invoicePayments);
+    const flows = [
+      ...getInvoiceReceipts(quotes, invoicePayments, settings, delays, today),
+      ...getQuoteReceipts(quotes, schedule, settings, delays, today),
+      ...getBillPayments(bills, today),
+      ...getVatPayments(vatPeriods, getForecastHorizon(today), today),
+    ];
+    return buildCashForecast(openingBalance ?? 0, flows, threshold, today);
+  }, [quotes, invoicePayments, schedule, settings, bills, vatPeriods, openingBalance, threshold, today]);
+
+  // Bars are scaled to the largest balance either side of zero
+  const scale = Math.max(1, ...forecast.weeks.map(w => Math.abs(w.closingBalance)), Math.abs(forecast.openingBalance));
+  const hasNegative = forecast.weeks.some(w => w.closingBalance < 0);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 size={28} className="animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Cash Forecast</h1>
+          <p className="text-slate-500 text-sm font-medium italic">The next {FORECAST_WEEKS} weeks of money in and out</p>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Bank Today</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(forecast.openingBalance)}</p>
+          {openingBalance === null && <p className="text-xs text-amber-600 mt-1">Import a statement with balances</p>}
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">In {FORECAST_WEEKS} Weeks</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(forecast.weeks[forecast.weeks.length - 1]?.closingBalance ?? 0)}</p>
+        </div>
+        <div className={`rounded-2xl p-4 md:p-5 border-2 ${forecast.lowestBalance < threshold ? 'bg-red-50 border-red-100' : 'bg-white border-slate-100'}`}>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Lowest Point</p>
+          <p className={`text-xl md:text-2xl font-black ${forecast.lowestBalance < threshold ? 'text-red-600' : 'text-slate-900'}`}>{formatCurrency(forecast.lowestBalance)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-1">Warn Below (£)</label>
+          <input
+            type="number"
+            min="0"
+            step="100"
+            value={threshold}
+            onChange={e => setThreshold(Math.max(0, Number(e.target.value) || 0))}
+            className="w-full text-xl md:text-2xl font-black text-slate-900 outline-none bg-transparent"
+          />
+        </div>
+      </div>
+
+      {forecast.firstLowWeek && (
+        <div className="flex items-start gap-3 bg-red-50 border-2 border-red-100 rounded-2xl p-4 mb-6">
+          <AlertTriangle size={20} className="text-red-600 shrink-0 mt-0.5" />
+          <div>
+            <p className="font-black text-red-700">
+              Balance drops to {formatCurrency(forecast.firstLowWeek.closingBalance)} in the week of {formatShortDate(forecast.firstLowWeek.start)}
+            </p>
+            <p className="text-sm text-red-600">
+              {forecast.weeks.filter(w => w.isLow).length} of {FORECAST_WEEKS} weeks end below {formatCurrency(threshold)}. Chase receipts or move bills before then.
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Week-by-week chart */}
+      <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 md:p-6 mb-6">
+        <div className="flex items-center gap-2 mb-4">
+          <TrendingUp size={20} className="text-teal-600" />
+          <h2 className="font-black text-slate-900">Closing Balance by Week</h2>
+        </div>
+        <div className="flex items-stretch gap-1 md:gap-2 h-56">
+          {forecast.weeks.map(week => {
+            const height = `${(Math.abs(week.closingBalance) / scale) * (hasNegative ? 50 : 100)}%`;
+            return (
+              <div key={week.start} className="flex-1 flex flex-col min-w-0" title={`${formatShortDate(week.start)}: ${formatCurrency(week.closingBalance)}`}>
+                <div className={`${hasNegative ? 'h-1/2' : 'h-full'} flex items-end`}>
+                  {week.closingBalance >= 0 && (
+                    <div className={`w-full rounded-t-md ${week.isLow ? 'bg-amber-400' : 'bg-teal-500'}`} style={{ height }} />
+                  )}
+                </div>
+                {hasNegative && (
+                  <div className="h-1/2 flex items-start border-t border-slate-300">
+                    {week.closingBalance < 0 && (
+                      <div className="w-full rounded-b-md bg-red-500" style={{ height }} />
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-1 md:gap-2 mt-2">
+          {forecast.weeks.map(week => (
+            <p key={week.start} className="flex-1 min-w-0 text-[9px] md:text-[10px] text-center text-slate-400 font-bold truncate">
+              {formatShortDate(week.start)}
+            </p>
+          ))}
+        </div>
+      </div>
+
+      {/* Weekly detail */}
+      <div className="bg-white rounded-2xl border-2 border-slate-100 overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-wider">
+              <th className="text-left px-4 py-3">Week</th>
+              <th className="text-right px-4 py-3">In</th>
+              <th className="text-right px-4 py-3">Out</th>
+              <th className="text-right px-4 py-3">Closing</th>
+              <th className="w-10" />
+            </tr>
+          </thead>
+          <tbody>
+            {forecast.weeks.map(week => (
+              <React.Fragment key={week.start}>
+                <tr
+                  className={`border-t border-slate-50 ${week.flows.length > 0 ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+                  onClick={() => week.flows.length > 0 && setExpandedWeek(expandedWeek === week.start ? null : week.start)}
+                >
+                  <td className="px-4 py-3 font-bold text-slate-900">{formatShortDate(week.start)} - {formatShortDate(week.end)}</td>
+                  <td className="px-4 py-3 text-right font-mono text-emerald-600">{week.receipts ? formatCurrency(week.receipts) : ''}</td>
+                  <td className="px-4 py-3 text-right font-mono text-slate-700">{week.payments ? formatCurrency(week.payments) : ''}</td>
+                  <td className={`px-4 py-3 text-right font-mono font-black ${week.isLow ? 'text-red-600' : 'text-slate-900'}`}>
+                    {formatCurrency(week.closingBalance)}
+                  </td>
+                  <td className="px-2 text-slate-400">
+                    {week.flows.length > 0 && (expandedWeek === week.start ? <ChevronUp size={16} /> : <ChevronDown size={16} />)}
+                  </td>
+                </tr>
+                {expandedWeek === week.start && week.flows.map((flow, index) => (
+                  <tr key={`${week.start}-${index}`} className="bg-slate-50 text-xs">
+                    <td className="px-4 py-2 pl-8 text-slate-600" colSpan={2}>
+                      <span className="font-bold text-slate-400 uppercase mr-2">{FORECAST_FLOW_LABELS[flow.kind]}</span>
+                      {flow.label}
+                    </td>
+                    <td className="px-4 py-2 text-right text-slate-500">{formatShortDate(flow.date)}</td>
+                    <td className={`px-4 py-2 text-right font-mono ${flow.amount >= 0 ? 'text-emerald-600' : 'text-slate-700'}`}>
+                      {formatCurrency(flow.amount)}
+                    </td>
+                    <td />
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-slate-400 mt-4">
+        Invoices are expected on their due date plus the customer's average delay in paying. Accepted quotes count once their
+        work is scheduled, with any deposit expected now. VAT returns are expected on their payment deadline.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,432 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, HardHat, Download, Plus, Trash2, Edit2, Loader2, X, Users, FileSpreadsheet, ReceiptText } from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import { cisSubcontractorsService, payablesService, Payable } from '../src/services/dataService';
+import { handleApiError } from '../src/utils/errorHandler';
+import { isValidUtr } from '../src/utils/inputValidation';
+import {
+  buildCisDeductionLines,
+  summariseCisByTaxMonth,
+  buildCis300Return,
+  cisDeductionsToCsv,
+  cis300ToCsv,
+  getRecentCisTaxMonths,
+  toCisSubcontractor,
+  CIS_TREATMENT_LABELS,
+  type CisSubcontractor,
+  type CisTaxTreatment,
+} from '../src/utils/cis';
+
+interface CisPageProps {
+  onBack?: () => void;
+}
+
+type CisView = 'suffered' | 'subcontractors' | 'return';
+
+const formatCurrency = (amount: number) => `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const downloadCsv = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const EMPTY_FORM = { name: '', utr: '', verificationNumber: '', taxTreatment: 'standard' as CisTaxTreatment };
+
+export const CisPage: React.FC<CisPageProps> = ({ onBack }) => {
+  const { quotes, customers, settings, invoicePayments } = useData();
+  const toast = useToast();
+  const [view, setView] = useState<CisView>('suffered');
+  const [subcontractors, setSubcontractors] = useState<CisSubcontractor[]>([]);
+  const [payables, setPayables] = useState<Payable[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const taxMonthKeys = useMemo(() => getRecentCisTaxMonths(12).map(m => m.key), []);
+  const [returnMonth, setReturnMonth] = useState(taxMonthKeys[0]);
+
+  useEffect(() => {
+    if (settings.isCisContractor) loadContractorData();
+  }, [settings.isCisContractor]);
+
+  const loadContractorData = async () => {
+    setLoading(true);
+    try {
+      const [subcontractorsData, payablesData] = await Promise.all([
+        cisSubcontractorsService.getAll(),
+        payablesService.getAll(),
+      ]);
+      setSubcontractors((subcontractorsData || []).map(toCisSubcontractor));
+      setPayables(payablesData || []);
+    } catch (error) {
+      console.error('Failed to load CIS data:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const monthlySummaries = useMemo(
+    () => summariseCisByTaxMonth(buildCisDeductionLines(quotes, invoicePayments, customers, settings)),
+    [quotes, invoicePayments, customers, settings]
+  );
+
+  const cisReturn = useMemo(
+    () => buildCis300Return(payables, subcontractors, returnMonth),
+    [payables, subcontractors, returnMonth]
+  );
+
+  const totalSuffered = monthlySummaries.reduce((sum, m) => sum + m.cisDeducted, 0);
+
+  const startEdit = (subcontractor?: CisSubcontractor) => {
+    setEditingId(subcontractor?.id || 'new');
+    setForm(subcontractor ? {
+      name: subcontractor.name,
+      utr: subcontractor.utr || '',
+      verificationNumber: subcontractor.verificationNumber || '',
+      taxTreatment: subcontractor.taxTreatment,
+    } : EMPTY_FORM);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) return;
+    if (!isValidUtr(form.utr)) {
+      toast.error('Invalid UTR', 'UTR must be 10 digits');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const row = {
+        name: form.name.trim(),
+        utr: form.utr.replace(/\s/g, '') || null,
+        verification_number: form.verificationNumber.trim().toUpperCase() || null,
+        tax_treatment: form.taxTreatment,
+      };
+      if (editingId === 'new') {
+        const created = await cisSubcontractorsService.create(row);
+        setSubcontractors(prev => [...prev, toCisSubcontractor(created)].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success('Subcontractor Added', row.name);
+      } else if (editingId) {
+        const updated = await cisSubcontractorsService.update(editingId, row);
+        setSubcontractors(prev => prev.map(s => s.id === editingId ? toCisSubcontractor(updated) : s));
+        toast.success('Subcontractor Updated', row.name);
+      }
+      setEditingId(null);
+    } catch (error) {
+      console.error('Failed to save subcontractor:', error);
+      const { message } = handleApiError(error);
+      toast.error('Save Failed', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (subcontractor: CisSubcontractor) => {
+    if (!confirm(`Remove ${subcontractor.name}? Bills already paid keep their CIS figures.`)) return;
+    try {
+      await cisSubcontractorsService.delete(subcontractor.id);
+      setSubcontractors(prev => prev.filter(s => s.id !== subcontractor.id));
+    } catch (error) {
+      console.error('Failed to delete subcontractor:', error);
+      const { message } = handleApiError(error);
+      toast.error('Delete Failed', message);
+    }
+  };
+
+  const views: { id: CisView; label: string; icon: React.ElementType }[] = [
+    { id: 'suffered', label: 'Deductions Suffered', icon: ReceiptText },
+    ...(settings.isCisContractor ? [
+      { id: 'subcontractors' as const, label: 'Subcontractors', icon: Users },
+      { id: 'return' as const, label: 'Monthly Return', icon: FileSpreadsheet },
+    ] : []),
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">CIS</h1>
+          <p className="text-slate-500 text-sm font-medium italic">Construction Industry Scheme deductions and returns</p>
+        </div>
+      </div>
+
+      {views.length > 1 && (
+        <div className="flex gap-2 mb-6 overflow-x-auto">
+          {views.map(v => {
+            const Icon = v.icon;
+            return (
+              <button
+                key={v.id}
+                onClick={() => setView(v.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold whitespace-nowrap transition-colors ${view === v.id ? 'bg-slate-900 text-white' : 'bg-white border-2 border-slate-100 text-slate-600 hover:bg-slate-50'}`}
+              >
+                <Icon size={16} /> {v.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Deductions suffered - payments received net of CIS */}
+      {view === 'suffered' && (
+        <>
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-blue-600 uppercase tracking-wider mb-1">Total CIS Suffered</p>
+              <p className="text-xl md:text-2xl font-black text-blue-700">{formatCurrency(totalSuffered)}</p>
+            </div>
+            <button
+              onClick={() => downloadCsv(cisDeductionsToCsv(monthlySummaries), `cis_deductions_${new Date().toISOString().split('T')[0]}.csv`)}
+              disabled={monthlySummaries.length === 0}
+              className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-colors disabled:opacity-50"
+            >
+              <Download size={16} /> Export CSV
+            </button>
+          </div>
+
+          {monthlySummaries.length === 0 ? (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+              <HardHat size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="font-black text-slate-900">No CIS deductions recorded</p>
+              <p className="text-sm text-slate-500 mt-1">Enter the CIS deducted when recording a payment from a contractor.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {monthlySummaries.map(summary => (
+                <div key={summary.taxMonth.key} className="bg-white rounded-2xl border-2 border-slate-100 p-4">
+                  <div className="flex items-start justify-between gap-3 mb-3">
+                    <div>
+                      <p className="font-black text-slate-900">Tax month ending {formatDate(summary.taxMonth.end)}</p>
+                      <p className="text-xs text-slate-500">Month {summary.taxMonth.monthNumber} of {summary.taxMonth.taxYear}</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-black text-blue-700">{formatCurrency(summary.cisDeducted)}</p>
+                      <p className="text-[10px] text-slate-400">deducted from {formatCurrency(summary.grossAmount)} gross</p>
+                    </div>
+                  </div>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] font-black text-slate-400 uppercase tracking-wider">
+                        <th className="text-left pb-1">Contractor</th>
+                        <th className="text-left pb-1 hidden md:table-cell">Paid</th>
+                        <th className="text-right pb-1">Gross</th>
+                        <th className="text-right pb-1 hidden md:table-cell">Materials</th>
+                        <th className="text-right pb-1">CIS</th>
+                        <th className="text-right pb-1">Net</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summary.lines.map(line => (
+                        <tr key={line.payment.id} className="border-t border-slate-100">
+                          <td className="py-1.5">
+                            <p className="font-bold text-slate-900">{line.contractorName}</p>
+                            <p className="text-[10px] text-slate-400">{line.contractorUtr ? `UTR ${line.contractorUtr}` : 'No UTR on file'}</p>
+                          </td>
+                          <td className="py-1.5 text-slate-600 hidden md:table-cell">{formatDate(line.payment.paymentDate)}</td>
+                          <td className="py-1.5 text-right font-bold text-slate-700">{formatCurrency(line.grossAmount)}</td>
+                          <td className="py-1.5 text-right text-slate-600 hidden md:table-cell">{formatCurrency(line.materials)}</td>
+                          <td className="py-1.5 text-right font-bold text-blue-700">{formatCurrency(line.cisDeducted)}</td>
+                          <td className="py-1.5 text-right font-bold text-slate-900">{formatCurrency(line.netPaid)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Subcontractors we pay under deduction */}
+      {view === 'subcontractors' && (
+        <>
+          <div className="flex justify-end mb-4">
+            <button
+              onClick={() => startEdit()}
+              className="flex items-center gap-2 px-4 py-2.5 bg-blue-500 text-white rounded-xl font-bold text-sm hover:bg-blue-600 transition-colors"
+            >
+              <Plus size={16} /> Add Subcontractor
+            </button>
+          </div>
+
+          {editingId && (
+            <div className="bg-white rounded-2xl border-2 border-blue-100 p-4 mb-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-black text-slate-900">{editingId === 'new' ? 'New Subcontractor' : 'Edit Subcontractor'}</p>
+                <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-slate-600"><X size={18} /></button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  placeholder="Name"
+                  className="px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={form.utr}
+                  onChange={e => setForm({ ...form, utr: e.target.value })}
+                  placeholder="UTR (10 digits)"
+                  className="px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <input
+                  type="text"
+                  value={form.verificationNumber}
+                  onChange={e => setForm({ ...form, verificationNumber: e.target.value })}
+                  placeholder="HMRC verification number"
+                  className="px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <select
+                  value={form.taxTreatment}
+                  onChange={e => setForm({ ...form, taxTreatment: e.target.value as CisTaxTreatment })}
+                  className="px-4 py-3 border border-slate-200 rounded-xl text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  {(Object.keys(CIS_TREATMENT_LABELS) as CisTaxTreatment[]).map(t => (
+                    <option key={t} value={t}>{CIS_TREATMENT_LABELS[t]}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleSave}
+                disabled={saving || !form.name.trim()}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-blue-500 text-white rounded-xl font-black text-sm uppercase tracking-wider hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {saving && <Loader2 size={16} className="animate-spin" />} Save
+              </button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 text-blue-500 animate-spin" /></div>
+          ) : subcontractors.length === 0 ? (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+              <Users size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="font-black text-slate-900">No subcontractors yet</p>
+              <p className="text-sm text-slate-500 mt-1">Add the subcontractors you verify with HMRC, then link their bills in Payables.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 divide-y divide-slate-100">
+              {subcontractors.map(s => (
+                <div key={s.id} className="flex items-center justify-between gap-3 p-4">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{s.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {s.utr ? `UTR ${s.utr}` : 'No UTR'}{s.verificationNumber && ` · ${s.verificationNumber}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="px-2 py-0.5 rounded-full text-[10px] font-black uppercase bg-blue-100 text-blue-700">{CIS_TREATMENT_LABELS[s.taxTreatment]}</span>
+                    <button onClick={() => startEdit(s)} className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors" title="Edit">
+                      <Edit2 size={14} />
+                    </button>
+                    <button onClick={() => handleDelete(s)} className="p-2 bg-red-50 text-red-500 rounded-lg hover:bg-red-100 transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Monthly return (CIS300) */}
+      {view === 'return' && (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <select
+              value={returnMonth}
+              onChange={e => setReturnMonth(e.target.value)}
+              className="px-4 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-bold bg-white"
+            >
+              {taxMonthKeys.map(key => (
+                <option key={key} value={key}>Tax month ending {formatDate(key)}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => downloadCsv(
+                cis300ToCsv(cisReturn, { utr: settings.cisUtr, accountsOfficeReference: settings.cisAccountsOfficeReference }),
+                `cis300_${cisReturn.taxMonth.key}.csv`
+              )}
+              className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-colors"
+            >
+              <Download size={16} /> Export CSV
+            </button>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 md:gap-4 mb-4">
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Total Payments</p>
+              <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(cisReturn.grossAmount)}</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Materials</p>
+              <p className="text-xl md:text-2xl font-black text-slate-700">{formatCurrency(cisReturn.materials)}</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-blue-600 uppercase tracking-wider mb-1">Deducted</p>
+              <p className="text-xl md:text-2xl font-black text-blue-700">{formatCurrency(cisReturn.deduction)}</p>
+            </div>
+          </div>
+
+          {cisReturn.lines.length === 0 ? (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+              <FileSpreadsheet size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="font-black text-slate-900">Nil return</p>
+              <p className="text-sm text-slate-500 mt-1">No subcontractor bills were paid between {formatDate(cisReturn.taxMonth.start)} and {formatDate(cisReturn.taxMonth.end)}.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-[10px] font-black text-slate-400 uppercase tracking-wider">
+                    <th className="text-left pb-2">Subcontractor</th>
+                    <th className="text-left pb-2">UTR</th>
+                    <th className="text-left pb-2 hidden md:table-cell">Verification</th>
+                    <th className="text-right pb-2">Payments</th>
+                    <th className="text-right pb-2">Materials</th>
+                    <th className="text-right pb-2">Deducted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cisReturn.lines.map(line => (
+                    <tr key={line.subcontractor.id} className="border-t border-slate-100">
+                      <td className="py-2 font-bold text-slate-900">{line.subcontractor.name}</td>
+                      <td className="py-2 text-slate-600">{line.subcontractor.utr || '-'}</td>
+                      <td className="py-2 text-slate-600 hidden md:table-cell">{line.subcontractor.verificationNumber || '-'}</td>
+                      <td className="py-2 text-right font-bold text-slate-700">{formatCurrency(line.grossAmount)}</td>
+                      <td className="py-2 text-right text-slate-600">{formatCurrency(line.materials)}</td>
+                      <td className="py-2 text-right font-bold text-blue-700">{formatCurrency(line.deduction)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
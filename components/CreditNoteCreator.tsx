@@ -0,0 +1,220 @@
+
+import React, { useState } from 'react';
+import { Quote, AppSettings } from '../types';
+import { X, FileMinus, CheckSquare, Square, HardHat, AlertCircle } from 'lucide-react';
+import { hapticTap, hapticSuccess } from '../src/hooks/useHaptic';
+import { calculateDocumentTotals, calculateSectionLabour } from '../src/utils/quoteCalculations';
+import {
+  buildCreditNote,
+  getCreditableAmount,
+  type CreditNoteOptions,
+  type CreditNoteSectionSelection,
+} from '../src/utils/creditNotes';
+
+interface CreditNoteCreatorProps {
+  invoice: Quote;
+  invoiceTotal: number;
+  amountCredited: number;
+  settings: AppSettings;
+  onCreate: (options: CreditNoteOptions) => Promise<void>;
+  onClose: () => void;
+}
+
+export const CreditNoteCreator: React.FC<CreditNoteCreatorProps> = ({
+  invoice,
+  invoiceTotal,
+  amountCredited,
+  settings,
+  onCreate,
+  onClose
+}) => {
+  const creditable = getCreditableAmount(invoiceTotal, amountCredited);
+  // Only offer a full reversal while nothing has been credited yet
+  const [mode, setMode] = useState<'full' | 'lines'>(amountCredited > 0 ? 'lines' : 'full');
+  const [selection, setSelection] = useState<CreditNoteSectionSelection[]>(
+    invoice.sections.map(s => ({ sectionId: s.id, itemIds: [], includeLabour: false }))
+  );
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const options: CreditNoteOptions = {
+    sections: mode === 'full' ? undefined : selection,
+    reason: reason.trim() || undefined,
+  };
+
+  const creditTotal = calculateDocumentTotals(buildCreditNote(invoice, options), settings).grandTotal;
+
+  const exceedsInvoice = creditTotal > creditable + 0.005;
+  const canSubmit = creditTotal > 0 && !exceedsInvoice && !isSaving;
+
+  const toggleItem = (sectionId: string, itemId: string) => {
+    hapticTap();
+    setSelection(prev => prev.map(s => s.sectionId !== sectionId ? s : {
+      ...s,
+      itemIds: s.itemIds.includes(itemId) ? s.itemIds.filter(id => id !== itemId) : [...s.itemIds, itemId],
+    }));
+  };
+
+  const toggleLabour = (sectionId: string) => {
+    hapticTap();
+    setSelection(prev => prev.map(s => s.sectionId === sectionId ? { ...s, includeLabour: !s.includeLabour } : s));
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onCreate(options);
+      hapticSuccess();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-black text-slate-900">Issue Credit Note</h3>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mt-1">
+              {invoice.title}
+            </p>
+          </div>
+          <button
+            onClick={() => { hapticTap(); onClose(); }}
+            className="p-2 hover:bg-slate-100 rounded-xl transition-colors"
+          >
+            <X size={20} className="text-slate-400" />
+          </button>
+        </div>
+
+        {/* Amount Summary */}
+        <div className="bg-slate-50 rounded-2xl p-4 mb-6">
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-xs font-bold text-slate-400 uppercase">Invoice Total</span>
+            <span className="text-sm font-black text-slate-600">£{invoiceTotal.toFixed(2)}</span>
+          </div>
+          {amountCredited > 0 && (
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-bold text-rose-500 uppercase">Already Credited</span>
+              <span className="text-sm font-black text-rose-600">-£{amountCredited.toFixed(2)}</span>
+            </div>
+          )}
+          <div className="flex justify-between items-center pt-2 border-t border-slate-200">
+            <span className="text-xs font-bold text-slate-900 uppercase">Can Be Credited</span>
+            <span className="text-lg font-black text-slate-900">£{creditable.toFixed(2)}</span>
+          </div>
+        </div>
+
+        {/* Mode */}
+        <div className="grid grid-cols-2 gap-2 mb-6">
+          {(['full', 'lines'] as const).map(m => (
+            <button
+              key={m}
+              onClick={() => { hapticTap(); setMode(m); }}
+              disabled={m === 'full' && amountCredited > 0}
+              className={`p-3 rounded-xl font-bold text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
+                mode === m ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+              }`}
+            >
+              {m === 'full' ? 'Whole Invoice' : 'Selected Lines'}
+            </button>
+          ))}
+        </div>
+
+        {/* Line Selection */}
+        {mode === 'lines' && (
+          <div className="mb-6 space-y-3">
+            {invoice.sections.map(section => {
+              const sel = selection.find(s => s.sectionId === section.id)!;
+              const labour = calculateSectionLabour(section, invoice.labourRate, settings.defaultLabourRate);
+              return (
+                <div key={section.id} className="border border-slate-100 rounded-2xl p-3">
+                  <p className="text-xs font-black text-slate-400 uppercase tracking-wider mb-2">{section.title}</p>
+                  {section.items.filter(item => !item.isHeading).map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => toggleItem(section.id, item.id)}
+                      className="w-full flex items-center justify-between gap-2 py-1.5 text-left text-sm"
+                    >
+                      <span className="flex items-center gap-2 min-w-0">
+                        {sel.itemIds.includes(item.id)
+                          ? <CheckSquare size={16} className="text-rose-500 shrink-0" />
+                          : <Square size={16} className="text-slate-300 shrink-0" />}
+                        <span className="font-bold text-slate-700 truncate">{item.name}</span>
+                      </span>
+                      <span className="text-slate-500 font-bold">£{(item.totalPrice || 0).toFixed(2)}</span>
+                    </button>
+                  ))}
+                  {labour > 0 && (
+                    <button
+                      onClick={() => toggleLabour(section.id)}
+                      className="w-full flex items-center justify-between gap-2 py-1.5 text-left text-sm"
+                    >
+                      <span className="flex items-center gap-2">
+                        {sel.includeLabour
+                          ? <CheckSquare size={16} className="text-rose-500 shrink-0" />
+                          : <Square size={16} className="text-slate-300 shrink-0" />}
+                        <HardHat size={14} className="text-slate-400" />
+                        <span className="font-bold text-slate-700">Labour</span>
+                      </span>
+                      <span className="text-slate-500 font-bold">£{labour.toFixed(2)}</span>
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Reason */}
+        <div className="mb-6">
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
+            Reason (shown on the credit note)
+          </label>
+          <textarea
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            rows={2}
+            className="w-full bg-white border-2 border-slate-200 rounded-xl p-3 font-bold text-slate-900 outline-none focus:border-rose-400 transition-colors"
+            placeholder="e.g. Returned materials"
+          />
+        </div>
+
+        {/* Credit Total */}
+        <div className={`flex items-center justify-between p-4 rounded-xl mb-6 ${exceedsInvoice ? 'bg-red-50' : 'bg-rose-50'}`}>
+          <span className={`font-bold ${exceedsInvoice ? 'text-red-700' : 'text-rose-700'}`}>
+            {exceedsInvoice ? 'More than can be credited' : 'Credit Note Total'}
+          </span>
+          <span className={`text-lg font-black ${exceedsInvoice ? 'text-red-700' : 'text-rose-700'}`}>
+            -£{creditTotal.toFixed(2)}
+          </span>
+        </div>
+        {exceedsInvoice && (
+          <p className="flex items-center gap-2 text-xs text-red-600 font-bold -mt-4 mb-6">
+            <AlertCircle size={14} /> Reduce the lines selected to £{creditable.toFixed(2)} or less
+          </p>
+        )}
+
+        {/* Action Buttons */}
+        <div className="flex gap-3">
+          <button
+            onClick={() => { hapticTap(); onClose(); }}
+            className="flex-1 p-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm hover:bg-slate-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="flex-1 p-4 bg-rose-500 text-white rounded-xl font-black uppercase text-sm shadow-lg shadow-rose-500/30 hover:bg-rose-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <FileMinus size={18} />
+            Issue Credit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,7 +4,7 @@ import { Customer } from '../types';
 import {
   Search, UserPlus, Phone, Mail, MapPin, Trash2, Edit2, X,
   AlertCircle, CheckCircle2, Mic, MicOff, Sparkles, Loader2,
-  Building, User as UserIcon, Pencil, Navigation, Briefcase, ChevronDown
+  Building, User as UserIcon, Pencil, Navigation, Briefcase, ChevronDown, Hash
 } from 'lucide-react';
 import { parseCustomerVoiceInput } from '../src/services/geminiService';
 import { useToast } from '../src/contexts/ToastContext';
@@ -187,6 +187,8 @@ export const CustomerManager: React.FC<CustomerManagerProps> = ({ customers, add
           phone: validation.sanitized.phone,
           address: validation.sanitized.address,
           company: validation.sanitized.company || '',
+          utr: validation.sanitized.utr,
+          reverseCharge: customerForm.reverseCharge || false,
         });
         toast.success('Contact Added', `${validation.sanitized.name} added to directory`);
       } else if (editingId) {
@@ -196,6 +198,8 @@ export const CustomerManager: React.FC<CustomerManagerProps> = ({ customers, add
           phone: validation.sanitized.phone,
           address: validation.sanitized.address,
           company: validation.sanitized.company || '',
+          utr: validation.sanitized.utr,
+          reverseCharge: customerForm.reverseCharge || false,
         });
         toast.success('Contact Updated', 'Changes saved successfully');
       }
@@ -390,6 +394,35 @@ export const CustomerManager: React.FC<CustomerManagerProps> = ({ customers, add
                 </div>
               </div>
 
+              {/* UTR Field - only needed for contractors who deduct CIS */}
+              <div className="space-y-0.5">
+                <label className="text-xs font-black text-slate-400 uppercase tracking-wider flex items-center gap-1 px-0.5">
+                  <Hash size={12} className="md:w-3 md:h-3" /> Contractor UTR (CIS)
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  className="w-full bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-1.5 md:px-4 md:py-4 text-slate-950 font-bold text-sm md:text-base outline-none focus:bg-white focus:border-teal-500 transition-all"
+                  value={customerForm.utr || ''}
+                  placeholder="10 digit UTR"
+                  onChange={e => setCustomerForm({...customerForm, utr: e.target.value})}
+                />
+              </div>
+
+              {/* Domestic reverse charge - VAT-registered contractors in CIS */}
+              <label className="md:col-span-2 flex items-start gap-3 bg-slate-50 border-2 border-slate-100 rounded-xl px-3 py-2 md:px-4 md:py-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 w-4 h-4 accent-teal-500"
+                  checked={customerForm.reverseCharge || false}
+                  onChange={e => setCustomerForm({...customerForm, reverseCharge: e.target.checked})}
+                />
+                <span>
+                  <span className="block text-sm font-bold text-slate-900">VAT domestic reverse charge</span>
+                  <span className="block text-xs text-slate-500">New invoices for this contractor charge no VAT - they account for it to HMRC</span>
+                </span>
+              </label>
+
               <div className="md:col-span-2">
                 <AddressAutocomplete
                   value={customerForm.address || ''}
@@ -1,6 +1,8 @@
 
 import React from 'react';
 import { Quote, Customer } from '../types';
+import { useData } from '../src/contexts/DataContext';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
 import { Plus, FileText, TrendingUp, Clock, CheckCircle, MoreVertical, Eye } from 'lucide-react';
 
 interface DashboardProps {
@@ -14,19 +16,9 @@ interface DashboardProps {
 export const Dashboard: React.FC<DashboardProps> = ({ 
   quotes, customers, onEditQuote, onCreateQuote, onViewQuote 
 }) => {
-  const calculateQuoteTotal = (quote: Quote) => {
-    // Fix: Aggregate totals from all sections instead of accessing items directly on the quote
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) => 
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * (quote.markupPercent / 100);
-    const tax = (subtotal + markup) * (quote.taxPercent / 100);
-    return subtotal + markup + tax;
-  };
+  const { settings } = useData();
+
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
 
   const stats = [
     { label: 'Total Quotes', value: quotes.length, icon: FileText, color: 'text-blue-700', bg: 'bg-blue-100' },
@@ -102,7 +94,9 @@ export const Dashboard: React.FC<DashboardProps> = ({
                     accepted: 'bg-green-600 text-white',
                     declined: 'bg-red-600 text-white',
                     invoiced: 'bg-emerald-100 text-emerald-600',
+                    part_paid: 'bg-amber-100 text-amber-700',
                     paid: 'bg-emerald-500 text-white',
+                    void: 'bg-slate-200 text-slate-500 line-through',
                   };
                   return (
                     <tr key={quote.id} className="hover:bg-slate-50 transition-colors group">
@@ -8,7 +8,12 @@ import {
   Phone, Home, Truck, HardHat, Hammer, Lightbulb, Sparkles,
   Clock, TrendingUp, ArrowLeft
 } from 'lucide-react';
-import { expensesService, expenseCategoriesService, vendorKeywordsService, vendorsService, filingService } from '../src/services/dataService';
+import { expensesService, expenseCategoriesService, vendorKeywordsService, vendorsService, filingService, vehiclesService } from '../src/services/dataService';
+import { useData } from '../src/contexts/DataContext';
+import { calculateReverseChargeVat } from '../src/utils/reverseCharge';
+import { VAT_RATE_CODES, formatVatBand, getVatRatePercent } from '../src/utils/vatRates';
+import { toVehicle, type Vehicle } from '../src/utils/mileage';
+import type { VatRateCode } from '../types';
 import { CategoryManager } from './CategoryManager';
 import { ExpensesListSkeleton } from './Skeletons';
 import { useToast } from '../src/contexts/ToastContext';
@@ -20,6 +25,9 @@ interface Expense {
   description?: string | null;
   amount: number;
   vat_amount: number | null;
+  vat_rate?: string | null;
+  is_reverse_charge?: boolean | null;
+  reverse_charge_vat?: number | null;
   category: string | null;
   expense_date: string;
   payment_method: string | null;
@@ -57,12 +65,20 @@ interface FormData {
   description: string;
   amount: string;
   vat_amount: string;
+  // Rate the VAT amount is worked out at; blank when entered by hand from the receipt
+  vat_rate?: VatRateCode | '';
+  // Construction services bought under the domestic reverse charge - no VAT paid to the supplier
+  is_reverse_charge?: boolean;
   category: string;
   expense_date: string;
   payment_method: string;
   job_pack_id: string;
+  // Vehicle a fuel or vehicle expense was for, so it follows how the vehicle is claimed
+  vehicle_id?: string;
 }
 
+const isVehicleCategory = (category: string) => /fuel|vehicle/i.test(category);
+
 const DEFAULT_CATEGORIES = [
   { id: 'materials', name: 'Materials', icon: 'package', color: '#3b82f6' },
   { id: 'tools', name: 'Tools', icon: 'wrench', color: '#8b5cf6' },
@@ -109,8 +125,10 @@ const getIconComponent = (iconName: string): React.FC<any> => {
 
 export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack }) => {
   const toast = useToast();
+  const { settings } = useData();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [categories, setCategories] = useState<ExpenseCategory[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCategoryManager, setShowCategoryManager] = useState(false);
   const [filterCategory, setFilterCategory] = useState<string | null>(null);
@@ -165,6 +183,17 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
     };
   });
   const [saving, setSaving] = useState(false);
+  const reverseChargeVat = calculateReverseChargeVat(
+    parseFloat(formData.amount) || 0,
+    getVatRatePercent(formData.vat_rate || 'standard', settings.defaultTaxRate)
+  );
+
+  // VAT at the chosen rate, still editable to match the receipt
+  const vatAtRate = (amount: string, vatRate: VatRateCode | '' | undefined, fallback: string) => {
+    if (!vatRate) return fallback;
+    const vat = (parseFloat(amount) || 0) * getVatRatePercent(vatRate, settings.defaultTaxRate) / 100;
+    return String(Math.round(vat * 100) / 100);
+  };
 
   // Poll for scanned expense data while modal is open
   // This handles the PWA camera recreation timing issue:
@@ -206,6 +235,7 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
         expensesService.getAll(),
         loadCategories(),
         vendorsService.getTopVendors(5).then(setTopVendors).catch(() => []),
+        vehiclesService.getAll().then(rows => setVehicles((rows || []).map(toVehicle).filter(v => v.isActive))).catch(() => []),
       ]);
       setExpenses(expData || []);
     } catch (error) { console.error('Failed to load data:', error); }
@@ -390,11 +420,15 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
         vendor: formData.vendor,
         description: formData.description || null,
         amount: parseFloat(formData.amount),
-        vat_amount: parseFloat(formData.vat_amount) || 0,
+        vat_amount: formData.is_reverse_charge ? 0 : parseFloat(formData.vat_amount) || 0,
+        vat_rate: formData.vat_rate || null,
+        is_reverse_charge: formData.is_reverse_charge || false,
+        reverse_charge_vat: formData.is_reverse_charge ? reverseChargeVat : null,
         category: validCategory,
         expense_date: formData.expense_date,
         payment_method: formData.payment_method,
         job_pack_id: formData.job_pack_id || null,
+        vehicle_id: isVehicleCategory(validCategory) ? formData.vehicle_id || null : null,
       });
 
       // Step 2: If there's a receipt file, file it to the cabinet AND link to expense
@@ -471,7 +505,7 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
 
   const resetForm = () => {
     setFormData({
-      vendor: '', description: '', amount: '', vat_amount: '',
+      vendor: '', description: '', amount: '', vat_amount: '', vat_rate: '',
       category: categories[0]?.name || 'Materials',
       expense_date: new Date().toISOString().split('T')[0],
       payment_method: 'card', job_pack_id: '',
@@ -639,6 +673,7 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
                     <div className="text-right shrink-0">
                       <p className="font-black text-slate-900">£{expense.amount.toFixed(2)}</p>
                       {expense.vat_amount > 0 && (<p className="text-xs text-emerald-600 font-bold">+£{expense.vat_amount.toFixed(2)} VAT</p>)}
+                      {expense.is_reverse_charge && (<p className="text-xs text-blue-600 font-bold">Reverse charge £{(expense.reverse_charge_vat || 0).toFixed(2)}</p>)}
                     </div>
                     <button onClick={() => handleDelete(expense.id)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-xl transition-colors">
                       <Trash2 size={18} />
@@ -722,18 +757,46 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Amount (exc. VAT) *</label>
                   <div className="relative">
                     <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">£</span>
-                    <input ref={amountInputRef} type="number" step="0.01" value={formData.amount} onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value }))}
+                    <input ref={amountInputRef} type="number" step="0.01" value={formData.amount} onChange={(e) => setFormData(prev => ({ ...prev, amount: e.target.value, vat_amount: vatAtRate(e.target.value, prev.vat_rate, prev.vat_amount) }))}
                       placeholder="0.00" className="w-full pl-8 pr-4 py-2 md:py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent" />
                   </div>
                 </div>
                 <div>
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">VAT Amount</label>
-                  <div className="relative">
-                    <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">£</span>
-                    <input ref={vatInputRef} type="number" step="0.01" value={formData.vat_amount} onChange={(e) => setFormData(prev => ({ ...prev, vat_amount: e.target.value }))}
-                      placeholder="0.00" className="w-full pl-8 pr-4 py-2 md:py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent" />
+                  <div className="flex gap-2">
+                    <div className="relative flex-1">
+                      <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">£</span>
+                      <input ref={vatInputRef} type="number" step="0.01" value={formData.is_reverse_charge ? '' : formData.vat_amount} onChange={(e) => setFormData(prev => ({ ...prev, vat_amount: e.target.value }))}
+                        disabled={formData.is_reverse_charge}
+                        placeholder="0.00" className="w-full pl-8 pr-4 py-2 md:py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent disabled:bg-slate-50" />
+                    </div>
+                    <select value={formData.vat_rate || ''} title="VAT rate"
+                      onChange={(e) => {
+                        const vatRate = e.target.value as VatRateCode | '';
+                        setFormData(prev => ({ ...prev, vat_rate: vatRate, vat_amount: vatAtRate(prev.amount, vatRate, prev.vat_amount) }));
+                      }}
+                      className="w-24 px-2 py-2 md:py-3 border border-slate-200 rounded-xl text-xs focus:ring-2 focus:ring-teal-500 focus:border-transparent">
+                      <option value="">Rate</option>
+                      {VAT_RATE_CODES.map(code => (
+                        <option key={code} value={code}>{formatVatBand({ code, ratePercent: getVatRatePercent(code, settings.defaultTaxRate) })}</option>
+                      ))}
+                    </select>
                   </div>
                 </div>
+                {settings.isVatRegistered && (
+                  <label className="col-span-2 flex items-start gap-3 p-3 bg-slate-50 rounded-xl cursor-pointer">
+                    <input type="checkbox" checked={formData.is_reverse_charge || false} onChange={(e) => setFormData(prev => ({ ...prev, is_reverse_charge: e.target.checked }))}
+                      className="mt-0.5 w-4 h-4 accent-teal-500" />
+                    <span>
+                      <span className="block text-sm font-bold text-slate-900">VAT reverse charge</span>
+                      <span className="block text-xs text-slate-500">
+                        {formData.is_reverse_charge
+                          ? `No VAT paid to the supplier - you account for £${reverseChargeVat.toFixed(2)} on your VAT return`
+                          : 'Construction services from a subcontractor who charged no VAT'}
+                      </span>
+                    </span>
+                  </label>
+                )}
                 <div>
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Date</label>
                   <input ref={dateInputRef} type="date" value={formData.expense_date} onChange={(e) => setFormData(prev => ({ ...prev, expense_date: e.target.value }))}
@@ -767,6 +830,16 @@ export const ExpensesPage: React.FC<ExpensesPageProps> = ({ projects, onBack })
                     </select>
                   )}
                 </div>
+                {isVehicleCategory(formData.category) && vehicles.length > 0 && (
+                  <div className="col-span-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Vehicle (Optional)</label>
+                    <select value={formData.vehicle_id || ''} onChange={(e) => setFormData(prev => ({ ...prev, vehicle_id: e.target.value }))}
+                      className="w-full px-4 py-2 md:py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent">
+                      <option value="">No vehicle</option>
+                      {vehicles.map(v => (<option key={v.id} value={v.id}>{v.registration ? `${v.name} (${v.registration})` : v.name}</option>))}
+                    </select>
+                  </div>
+                )}
                 <div className="col-span-2">
                   <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Link to Job (Optional)</label>
                   <select value={formData.job_pack_id} onChange={(e) => setFormData(prev => ({ ...prev, job_pack_id: e.target.value }))}
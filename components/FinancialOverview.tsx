@@ -1,5 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import { Quote, AppSettings } from '../types';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
 import {
   PoundSterling, Calendar, CalendarDays, CalendarRange,
   TrendingUp, TrendingDown, Clock, ChevronDown
@@ -33,18 +34,7 @@ export const FinancialOverview: React.FC<FinancialOverviewProps> = ({
     { id: 'week', label: 'This Week', shortLabel: 'Week', icon: <Calendar size={16} /> },
   ];
 
-  // Calculate quote total helper
-  const calculateQuoteTotal = (quote: Quote): number => {
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) =>
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * ((quote.markupPercent || 0) / 100);
-    const tax = (subtotal + markup) * ((quote.taxPercent || 0) / 100);
-    return subtotal + markup + tax;
-  };
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
 
   // Get tax year boundaries based on settings
   const getTaxYearBoundaries = () => {
@@ -144,7 +134,7 @@ export const FinancialOverview: React.FC<FinancialOverviewProps> = ({
       month: { revenue: monthRevenue, count: monthCount, trend: monthTrend },
       week: { revenue: weekRevenue, count: weekCount, trend: weekTrend },
     };
-  }, [quotes, settings.taxYearStartMonth, settings.taxYearStartDay]);
+  }, [quotes, settings]);
 
   function formatTaxYearLabel(start: Date): string {
     const endYear = start.getFullYear() + 1;
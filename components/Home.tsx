@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { ScheduleEntry, Customer, JobPack, Quote, AppSettings, TIER_LIMITS } from '../types';
+import { ScheduleEntry, Customer, JobPack, Quote, QuoteResponse, AppSettings, TIER_LIMITS } from '../types';
 import {
   Mic, Trash2, MapPin, Clock, Navigation,
   Bell, BellRing, Play, CheckCircle2,
@@ -11,7 +11,7 @@ import {
   PoundSterling, FileWarning, AlertTriangle,
   ChevronDown, ChevronUp, BarChart3,
   TrendingUp, Camera, Eye, Phone, Plus,
-  ClipboardList, ArrowRightCircle, X, FolderPlus
+  ClipboardList, ArrowRightCircle, X, FolderPlus, ThumbsUp, ThumbsDown, ShieldCheck
 } from 'lucide-react';
 import { parseReminderVoiceInput } from '../src/services/geminiService';
 import { sitePhotosService } from '../src/services/dataService';
@@ -19,8 +19,11 @@ import { hapticTap, hapticSuccess } from '../src/hooks/useHaptic';
 import { useToast } from '../src/contexts/ToastContext';
 import { BusinessDashboard } from './BusinessDashboard';
 import { FinancialOverview } from './FinancialOverview';
+import { HomeTaxPot } from './home';
 import { useSubscription } from '../src/hooks/useFeatureAccess';
 import { UpgradePrompt } from './UpgradePrompt';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
+import type { RetentionLedgerEntry, RetentionTranche } from '../src/utils/retention';
 
 interface HomeProps {
   schedule: ScheduleEntry[];
@@ -42,6 +45,13 @@ interface HomeProps {
   onAddProject?: (project: Partial<JobPack>) => Promise<JobPack>;
   onRefresh?: () => Promise<void>;
   onNavigateToFutureJobs?: () => void;
+  // Customer responses from the quote portal not yet seen
+  quoteResponses?: QuoteResponse[];
+  onViewQuote?: (quoteId: string) => void;
+  // Retention whose release date has passed but is still unpaid
+  retentionReleasesDue?: { entry: RetentionLedgerEntry; tranche: RetentionTranche }[];
+  onViewRetention?: () => void;
+  onViewTaxEstimate?: () => void;
 }
 
 interface Reminder {
@@ -79,7 +89,12 @@ export const Home: React.FC<HomeProps> = ({
   onViewJob,
   onAddProject,
   onRefresh,
-  onNavigateToFutureJobs
+  onNavigateToFutureJobs,
+  quoteResponses = [],
+  onViewQuote,
+  retentionReleasesDue = [],
+  onViewRetention,
+  onViewTaxEstimate
 }) => {
   const toast = useToast();
 
@@ -412,18 +427,7 @@ export const Home: React.FC<HomeProps> = ({
     onCreateJob?.();
   };
 
-  // Calculate quote total helper
-  const calculateQuoteTotal = (quote: Quote): number => {
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) =>
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * ((quote.markupPercent || 0) / 100);
-    const tax = (subtotal + markup) * ((quote.taxPercent || 0) / 100);
-    return subtotal + markup + tax;
-  };
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
 
   // Today's stats
   const todayStats = useMemo(() => {
@@ -455,7 +459,8 @@ export const Home: React.FC<HomeProps> = ({
       q => q.type === 'invoice' && q.status !== 'paid' && q.status !== 'draft'
     );
     const outstandingInvoices = outstandingInvoicesList.length;
-    const outstandingTotal = outstandingInvoicesList.reduce((sum, q) => sum + calculateQuoteTotal(q), 0);
+    // amountPaid is rolled up from the invoice_payments ledger
+    const outstandingTotal = outstandingInvoicesList.reduce((sum, q) => sum + calculateQuoteTotal(q) - (q.amountPaid || 0), 0);
 
     // Overdue invoices (past due date)
     const overdueInvoicesList = outstandingInvoicesList.filter(invoice => {
@@ -483,7 +488,7 @@ export const Home: React.FC<HomeProps> = ({
       overdueTotal,
       pendingQuotes
     };
-  }, [schedule, quotes]);
+  }, [schedule, quotes, settings]);
 
   // Week preview
   const weekPreview = useMemo(() => {
@@ -611,6 +616,60 @@ export const Home: React.FC<HomeProps> = ({
         </div>
       </div>
 
+      {/* CUSTOMER RESPONSES - quotes signed in the customer portal */}
+      {quoteResponses.length > 0 && (
+        <div className="space-y-2">
+          {quoteResponses.map(response => {
+            const quote = quotes.find(q => q.id === response.quoteId);
+            const accepted = response.decision === 'accepted';
+            return (
+              <button
+                key={response.id}
+                onClick={() => { hapticTap(); onViewQuote?.(response.quoteId); }}
+                className={`w-full flex items-center gap-3 p-3 md:p-4 rounded-2xl border-2 text-left transition-all hover:shadow-lg ${
+                  accepted ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'
+                }`}
+              >
+                <div className={`p-2 rounded-xl text-white ${accepted ? 'bg-green-500' : 'bg-red-500'}`}>
+                  {accepted ? <ThumbsUp size={18} /> : <ThumbsDown size={18} />}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-black text-slate-900 text-sm truncate">
+                    {response.signerName} {accepted ? 'accepted' : 'declined'} {quote?.title || response.quoteReference || 'a quote'}
+                  </p>
+                  <p className="text-xs text-slate-500 truncate">
+                    {new Date(response.respondedAt).toLocaleString('en-GB', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    {response.comment && ` · "${response.comment}"`}
+                  </p>
+                </div>
+                <ArrowRight size={16} className="text-slate-400 shrink-0" />
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {/* RETENTION - release dates that have passed */}
+      {retentionReleasesDue.length > 0 && (
+        <button
+          onClick={() => { hapticTap(); onViewRetention?.(); }}
+          className="w-full flex items-center gap-3 p-3 md:p-4 rounded-2xl border-2 text-left transition-all hover:shadow-lg bg-amber-50 border-amber-100"
+        >
+          <div className="p-2 rounded-xl text-white bg-amber-500">
+            <ShieldCheck size={18} />
+          </div>
+          <div className="flex-1 min-w-0">
+            <p className="font-black text-slate-900 text-sm truncate">
+              £{retentionReleasesDue.reduce((sum, d) => sum + d.tranche.outstanding, 0).toFixed(2)} retention due for release
+            </p>
+            <p className="text-xs text-slate-500 truncate">
+              {retentionReleasesDue.map(d => d.entry.invoice.title).join(', ')}
+            </p>
+          </div>
+          <ArrowRight size={16} className="text-slate-400 shrink-0" />
+        </button>
+      )}
+
       {/* QUICK ACTIONS Section */}
       <div>
         <h3 className="text-[10px] md:text-xs font-black text-slate-500 uppercase tracking-widest mb-2 md:mb-3 px-1">Quick Actions</h3>
@@ -811,6 +870,9 @@ export const Home: React.FC<HomeProps> = ({
         {/* Revenue Overview with Period Selector */}
         <FinancialOverview quotes={quotes} settings={settings} />
 
+        {/* Self Assessment tax to set aside */}
+        <HomeTaxPot onViewTaxEstimate={onViewTaxEstimate} />
+
         {/* Invoice Summary Card */}
         {(todayStats.outstandingInvoices > 0 || todayStats.overdueInvoices > 0) && (
           <div
@@ -1,17 +1,20 @@
 
 import React from 'react';
 import { Quote, Customer, AppSettings, TIER_LIMITS } from '../types';
-import { ReceiptText, Eye, Search, CheckCircle2, AlertCircle, Plus, Hash, User, ChevronRight, Trash2, Clock, AlertTriangle } from 'lucide-react';
+import { ReceiptText, Eye, Search, CheckCircle2, AlertCircle, Plus, Hash, User, ChevronRight, Trash2, Clock, AlertTriangle, Repeat } from 'lucide-react';
 import { hapticTap } from '../src/hooks/useHaptic';
 import { useToast } from '../src/contexts/ToastContext';
 import { useSubscription } from '../src/hooks/useFeatureAccess';
 import { UpgradePrompt } from './UpgradePrompt';
 import { useData } from '../src/contexts/DataContext';
 import { PageHeader } from './common/PageHeader';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
+import { getBalanceDue, getPaymentsForInvoice } from '../src/utils/invoicePayments';
+import { getCreditNotesForInvoice, getDocumentPrefix, sumCredited } from '../src/utils/creditNotes';
 
 // Helper functions for overdue detection
 const isOverdue = (invoice: Quote): boolean => {
-  if (invoice.status === 'paid' || invoice.status === 'draft') return false;
+  if (invoice.status === 'paid' || invoice.status === 'draft' || invoice.status === 'void') return false;
   if (!invoice.dueDate) return false;
   return new Date(invoice.dueDate) < new Date();
 };
@@ -34,6 +37,7 @@ interface InvoicesListProps {
   settings: AppSettings;
   onViewQuote: (id: string) => void;
   onCreateInvoice: () => void;
+  onViewRecurring?: () => void;
   onDeleteInvoice?: (id: string) => Promise<void>;
   onBack?: () => void;
 }
@@ -42,7 +46,7 @@ interface InvoicesListProps {
 type InvoiceFilterTab = 'all' | 'draft' | 'unpaid' | 'overdue' | 'cancelled';
 
 export const InvoicesList: React.FC<InvoicesListProps> = ({
-  quotes, customers, settings, onViewQuote, onCreateInvoice, onDeleteInvoice, onBack
+  quotes, customers, settings, onViewQuote, onCreateInvoice, onViewRecurring, onDeleteInvoice, onBack
 }) => {
   const [searchTerm, setSearchTerm] = React.useState('');
   const [activeTab, setActiveTab] = React.useState<InvoiceFilterTab>('all');
@@ -50,7 +54,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
   const toast = useToast();
 
   // Get all invoices for limit checking
-  const { quotes: allQuotes } = useData();
+  const { quotes: allQuotes, invoicePayments } = useData();
   const subscription = useSubscription();
   const limits = subscription.usageLimits || TIER_LIMITS[subscription.tier];
   const invoiceLimit = limits.invoices;
@@ -72,19 +76,12 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
     }
   };
 
-  const calculateQuoteTotal = (quote: Quote) => {
-    // Fix: Aggregate totals from all sections instead of accessing items directly on the quote
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) => 
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * (quote.markupPercent / 100);
-    const tax = (subtotal + markup) * (quote.taxPercent / 100);
-    return subtotal + markup + tax;
-  };
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
+
+  const isUnpaid = (invoice: Quote): boolean =>
+    invoice.type === 'invoice' &&
+    !['paid', 'draft', 'declined', 'void'].includes(invoice.status) &&
+    !isOverdue(invoice);
 
   // Filter by tab status first
   const filterByTab = (invoice: Quote): boolean => {
@@ -93,14 +90,11 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
         return invoice.status === 'draft';
       case 'unpaid':
         // Unpaid: sent or accepted, not paid, not draft, not declined, and not overdue
-        return invoice.status !== 'paid' &&
-               invoice.status !== 'draft' &&
-               invoice.status !== 'declined' &&
-               !isOverdue(invoice);
+        return isUnpaid(invoice);
       case 'overdue':
         return isOverdue(invoice);
       case 'cancelled':
-        return invoice.status === 'declined';
+        return invoice.status === 'declined' || invoice.status === 'void';
       case 'all':
       default:
         return true;
@@ -125,9 +119,9 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
   const tabCounts = {
     all: quotes.length,
     draft: quotes.filter(q => q.status === 'draft').length,
-    unpaid: quotes.filter(q => q.status !== 'paid' && q.status !== 'draft' && q.status !== 'declined' && !isOverdue(q)).length,
+    unpaid: quotes.filter(isUnpaid).length,
     overdue: quotes.filter(q => isOverdue(q)).length,
-    cancelled: quotes.filter(q => q.status === 'declined').length,
+    cancelled: quotes.filter(q => q.status === 'declined' || q.status === 'void').length,
   };
 
   return (
@@ -137,24 +131,35 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
         subtitle="Billed jobs and financial history."
         onBack={onBack}
         actions={
-          <button
-            onClick={() => {
-              if (canCreateInvoice) {
-                onCreateInvoice();
-              } else {
-                setShowUpgradePrompt(true);
-              }
-            }}
-            className="flex items-center justify-center gap-2 bg-teal-500 hover:bg-teal-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all shadow-lg shadow-teal-500/20"
-          >
-            <Plus size={18} />
-            <span>New Invoice</span>
-            {invoiceLimit !== null && (
-              <span className="text-xs bg-white/20 px-2 py-0.5 rounded-full">
-                {currentInvoiceCount}/{invoiceLimit}
-              </span>
+          <div className="flex gap-2">
+            {onViewRecurring && (
+              <button
+                onClick={() => { hapticTap(); onViewRecurring(); }}
+                className="flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all"
+              >
+                <Repeat size={18} />
+                <span className="hidden sm:inline">Recurring</span>
+              </button>
             )}
-          </button>
+            <button
+              onClick={() => {
+                if (canCreateInvoice) {
+                  onCreateInvoice();
+                } else {
+                  setShowUpgradePrompt(true);
+                }
+              }}
+              className="flex items-center justify-center gap-2 bg-teal-500 hover:bg-teal-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest transition-all shadow-lg shadow-teal-500/20"
+            >
+              <Plus size={18} />
+              <span>New Invoice</span>
+              {invoiceLimit !== null && (
+                <span className="text-xs bg-white/20 px-2 py-0.5 rounded-full">
+                  {currentInvoiceCount}/{invoiceLimit}
+                </span>
+              )}
+            </button>
+          </div>
         }
       />
 
@@ -217,10 +222,12 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
         ) : (
           filtered.map((invoice) => {
             const customer = customers.find(c => c.id === invoice.customerId);
-            const prefix = settings.invoicePrefix || 'INV-';
+            const isCreditNote = invoice.type === 'credit_note';
+            const prefix = getDocumentPrefix(invoice.type, settings);
             const numStr = (invoice.referenceNumber || 1).toString().padStart(4, '0');
             const ref = `${prefix}${numStr}`;
             const isPaid = invoice.status === 'paid';
+            const total = calculateQuoteTotal(invoice);
             const overdue = isOverdue(invoice);
             const daysOverdue = getDaysOverdue(invoice);
             const daysUntilDue = getDaysUntilDue(invoice);
@@ -237,9 +244,19 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
               >
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-1 flex-wrap">
-                    <span className="bg-teal-500 text-white text-xs font-black px-2 py-0.5 rounded-md flex items-center gap-1 shrink-0">
+                    <span className={`${isCreditNote ? 'bg-rose-500' : 'bg-teal-500'} text-white text-xs font-black px-2 py-0.5 rounded-md flex items-center gap-1 shrink-0`}>
                       <Hash size={12} /> {ref}
                     </span>
+                    {isCreditNote && (
+                      <span className="bg-rose-100 text-rose-700 text-xs font-black px-2 py-0.5 rounded-md shrink-0">
+                        CREDIT NOTE
+                      </span>
+                    )}
+                    {invoice.recurringInvoiceId && (
+                      <span className="bg-slate-100 text-slate-500 text-xs font-black px-2 py-0.5 rounded-md flex items-center gap-1 shrink-0" title="Generated from a recurring invoice">
+                        <Repeat size={12} />
+                      </span>
+                    )}
                     {overdue && (
                       <span className="bg-red-500 text-white text-xs font-black px-2 py-0.5 rounded-md flex items-center gap-1 shrink-0 animate-pulse">
                         <AlertTriangle size={12} /> {daysOverdue} {daysOverdue === 1 ? 'DAY' : 'DAYS'} OVERDUE
@@ -282,11 +299,20 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({
                           : 'bg-slate-100 text-slate-700'
                     }`}>
                       {isPaid ? <CheckCircle2 size={12}/> : overdue ? <AlertTriangle size={12}/> : <AlertCircle size={12}/>}
-                      {overdue ? 'OVERDUE' : invoice.status}
+                      {overdue ? 'OVERDUE' : invoice.status === 'part_paid' ? 'PART PAID' : isCreditNote ? 'ISSUED' : invoice.status}
                     </div>
-                    <p className={`font-black text-sm md:text-xl tracking-tight ${overdue ? 'text-red-700' : 'text-slate-900'}`}>
-                      £{calculateQuoteTotal(invoice).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                    <p className={`font-black text-sm md:text-xl tracking-tight ${overdue ? 'text-red-700' : isCreditNote ? 'text-rose-600' : 'text-slate-900'}`}>
+                      {total < 0 && '-'}£{Math.abs(total).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                     </p>
+                    {invoice.status === 'part_paid' && (
+                      <p className="text-[10px] font-bold text-amber-600 uppercase tracking-wider">
+                        £{getBalanceDue(
+                          total,
+                          getPaymentsForInvoice(invoicePayments, invoice.id),
+                          sumCredited(getCreditNotesForInvoice(allQuotes, invoice.id), settings)
+                        ).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} due
+                      </p>
+                    )}
                   </div>
                   
                   <div className="flex gap-2">
@@ -1,9 +1,19 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { Quote } from '../types';
 import { TrendingUp, TrendingDown, Info, PoundSterling, Receipt, Hammer, Calculator } from 'lucide-react';
-import { calculateQuoteTotals, CalculationOptions } from '../src/utils/quoteCalculations';
+import { calculateDocumentTotals, getDocumentHeadlineTotals } from '../src/utils/quoteCalculations';
 import { supabase } from '../src/lib/supabase';
 import { useData } from '../src/contexts/DataContext';
+import { vehiclesService, mileageTripsService } from '../src/services/dataService';
+import {
+  calculateMileageClaims,
+  isCoveredByMileageAllowance,
+  summariseMileage,
+  toMileageTrip,
+  toVehicle,
+  type MileageClaim,
+  type Vehicle,
+} from '../src/utils/mileage';
 
 interface JobProfitSummaryProps {
   jobPackId: string;
@@ -15,6 +25,7 @@ interface DBExpense {
   amount: number;
   vat_amount: number;
   category: string;
+  vehicle_id: string | null;
 }
 
 export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
@@ -23,6 +34,8 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
 }) => {
   const { settings } = useData();
   const [expenses, setExpenses] = useState<DBExpense[]>([]);
+  const [mileageClaims, setMileageClaims] = useState<MileageClaim[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [showTooltip, setShowTooltip] = useState(false);
 
@@ -33,7 +46,7 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
       try {
         const { data, error } = await supabase
           .from('expenses')
-          .select('id, amount, vat_amount, category')
+          .select('id, amount, vat_amount, category, vehicle_id')
           .eq('job_pack_id', jobPackId);
 
         if (error) throw error;
@@ -48,6 +61,18 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
     fetchExpenses();
   }, [jobPackId]);
 
+  // Mileage is priced over every trip so the 10,000 mile threshold lands on the right one
+  useEffect(() => {
+    Promise.all([vehiclesService.getAll(), mileageTripsService.getAll()])
+      .then(([vehicleRows, tripRows]) => {
+        const vehicleList = (vehicleRows || []).map(toVehicle);
+        setVehicles(vehicleList);
+        setMileageClaims(calculateMileageClaims((tripRows || []).map(toMileageTrip), vehicleList, settings)
+          .filter(c => c.trip.jobPackId === jobPackId));
+      })
+      .catch(err => console.error('Failed to fetch mileage:', err));
+  }, [jobPackId]);
+
   // Filter quotes linked to this job pack with relevant statuses
   const linkedQuotes = useMemo(() => {
     return quotes.filter(
@@ -60,47 +85,25 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
   const calculations = useMemo(() => {
     if (linkedQuotes.length === 0) return null;
 
-    const calcOptions: CalculationOptions = {
-      enableVat: settings?.enableVat ?? true,
-      enableCis: settings?.enableCis ?? false,
-      showVat: true,
-      showCis: false,
-      defaultLabourRate: settings?.defaultLabourRate ?? 35,
-    };
-
     let totalQuoted = 0;
     let totalLabourCost = 0;
     let totalMaterialsCost = 0;
 
     linkedQuotes.forEach(quote => {
-      const displayOptions = quote.displayOptions || {
-        showMaterials: true,
-        showMaterialItems: true,
-        showMaterialQty: true,
-        showMaterialUnitPrice: true,
-        showMaterialLineTotals: true,
-        showMaterialSectionTotal: true,
-        showLabour: true,
-        showLabourItems: true,
-        showLabourQty: true,
-        showLabourUnitPrice: true,
-        showLabourLineTotals: true,
-        showLabourSectionTotal: true,
-        showVat: true,
-        showCis: false,
-        showNotes: true,
-        showLogo: true,
-        showTotalsBreakdown: true,
-      };
-
-      const totals = calculateQuoteTotals(quote, calcOptions, displayOptions);
-      totalQuoted += totals.grandTotal;
+      const totals = calculateDocumentTotals(quote, settings);
+      const headline = getDocumentHeadlineTotals(quote, settings);
+      // CIS withheld is still turnover for the job, so add it back
+      totalQuoted += headline.grandTotal + headline.cisAmount;
       totalLabourCost += totals.labourTotal;
       totalMaterialsCost += totals.materialsTotal;
     });
 
-    // Total expenses (amount includes VAT already paid)
-    const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+    // Total expenses (amount includes VAT already paid) plus mileage claimed for the job;
+    // fuel and running costs of a vehicle on simplified mileage are in the allowance
+    const mileage = summariseMileage(mileageClaims);
+    const totalExpenses = expenses
+      .filter(exp => !isCoveredByMileageAllowance(exp, vehicles))
+      .reduce((sum, exp) => sum + exp.amount, 0) + mileage.allowance;
 
     // Profit = What we quoted - What we spent
     // Note: Labour is our "cost of time" but represents revenue, not an expense
@@ -111,12 +114,13 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
     return {
       totalQuoted,
       totalExpenses,
+      mileage,
       totalLabourCost,
       totalMaterialsCost,
       profit,
       marginPercent,
     };
-  }, [linkedQuotes, expenses, settings]);
+  }, [linkedQuotes, expenses, mileageClaims, vehicles, settings]);
 
   // Don't render if no linked quotes
   if (linkedQuotes.length === 0) {
@@ -176,7 +180,8 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
               <p className="opacity-80 leading-relaxed">
                 Profit = Total Quoted - Total Expenses.
                 The quoted amount comes from accepted/invoiced/paid quotes.
-                Expenses are all costs logged against this job pack.
+                Expenses are all costs logged against this job pack,
+                plus the mileage allowance for trips to it.
               </p>
             </div>
           )}
@@ -229,6 +234,11 @@ export const JobProfitSummary: React.FC<JobProfitSummaryProps> = ({
           <p className="text-lg font-black text-slate-900">
             {formatCurrency(calculations.totalExpenses)}
           </p>
+          {calculations.mileage.allowance > 0 && (
+            <p className="text-[10px] text-slate-400 font-medium">
+              incl. {formatCurrency(calculations.mileage.allowance)} mileage ({calculations.mileage.miles} mi)
+            </p>
+          )}
         </div>
       </div>
 
@@ -1,6 +1,6 @@
 
 import React, { useState } from 'react';
-import { Users, FileText, Settings, Briefcase, ReceiptText, CalendarDays, Home, LogOut, Receipt, Landmark, Link2, Calculator, CreditCard, FolderOpen, ChevronDown, ChevronRight, Package, MoreHorizontal, X, QrCode, Shield, MessageSquare, TrendingUp, Activity, Download, Clock } from 'lucide-react';
+import { Users, FileText, Settings, Briefcase, ReceiptText, CalendarDays, Home, LogOut, Receipt, Landmark, Link2, Calculator, CreditCard, FolderOpen, ChevronDown, ChevronRight, Package, MoreHorizontal, X, QrCode, Shield, MessageSquare, TrendingUp, Activity, Download, Clock, Repeat, ShieldCheck, HardHat, Scale, Wallet, CalendarClock, Car, PiggyBank } from 'lucide-react';
 import { hapticTap } from '../src/hooks/useHaptic';
 import { useAuth } from '../src/contexts/AuthContext';
 import { useData } from '../src/contexts/DataContext';
@@ -63,7 +63,9 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTa
         { id: 'schedule', label: 'Schedule', icon: CalendarDays, tier: 'starter' },
         { id: 'quotes', label: 'Quotes', icon: FileText, tier: 'starter' },
         { id: 'invoices', label: 'Invoices', icon: ReceiptText, tier: 'starter' },
+        { id: 'recurring', label: 'Recurring', icon: Repeat, tier: 'professional' },
         { id: 'aged_receivables', label: 'Receivables', icon: Clock, tier: 'professional' },
+        { id: 'retention', label: 'Retention', icon: ShieldCheck, tier: 'professional' },
         { id: 'customers', label: 'Customers', icon: Users, tier: 'starter' },
       ]
     },
@@ -75,6 +77,7 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTa
       badge: 'PRO',
       items: [
         { id: 'expenses', label: 'Log Expense', icon: Receipt, tier: 'professional' },
+        { id: 'mileage', label: 'Mileage', icon: Car, tier: 'professional' },
         { id: 'materials', label: 'Materials', icon: Package, tier: 'professional' },
         { id: 'files', label: 'Files', icon: FolderOpen, tier: 'professional' },
       ]
@@ -89,8 +92,13 @@ export const Layout: React.FC<LayoutProps> = ({ children, activeTab, setActiveTa
         { id: 'bank', label: 'Bank Import', icon: Landmark, tier: 'business' },
         { id: 'reconcile', label: 'Reconcile', icon: Link2, tier: 'business' },
         { id: 'vat', label: 'VAT Summary', icon: Calculator, tier: 'business' },
+        { id: 'cis', label: 'CIS', icon: HardHat, tier: 'business' },
         { id: 'profitloss', label: 'Profit & Loss', icon: TrendingUp, tier: 'business' },
         { id: 'payables', label: 'Payables', icon: CreditCard, tier: 'business' },
+        { id: 'tax_estimate', label: 'Tax Estimate', icon: PiggyBank, tier: 'business' },
+        { id: 'cash_forecast', label: 'Cash Forecast', icon: CalendarClock, tier: 'business' },
+        { id: 'balance_sheet', label: 'Balance Sheet', icon: Wallet, tier: 'business' },
+        { id: 'trial_balance', label: 'Trial Balance', icon: Scale, tier: 'business' },
         { id: 'accountant_export', label: 'Export Data', icon: Download, tier: 'business' },
       ]
     },
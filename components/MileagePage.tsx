@@ -0,0 +1,673 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Car, Download, Plus, Trash2, Edit2, Loader2, X, MapPin, Route, Sparkles } from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import { vehiclesService, mileageTripsService } from '../src/services/dataService';
+import { handleApiError } from '../src/utils/errorHandler';
+import {
+  getPeriodBoundaries,
+  toISODate,
+  REPORT_PERIOD_LABELS,
+  type ReportPeriod,
+} from '../src/utils/reportPeriods';
+import {
+  calculateMileageClaims,
+  getTaxYearStart,
+  getTripSuggestions,
+  mileageToCsv,
+  summariseMileage,
+  toMileageTrip,
+  toVehicle,
+  AMAP_THRESHOLD_MILES,
+  CLAIM_METHOD_LABELS,
+  FUEL_VAT_METHOD_LABELS,
+  VEHICLE_TYPE_LABELS,
+  type FuelVatMethod,
+  type MileageTrip,
+  type TripSuggestion,
+  type Vehicle,
+  type VehicleClaimMethod,
+  type VehicleType,
+} from '../src/utils/mileage';
+
+interface MileagePageProps {
+  onBack?: () => void;
+}
+
+type MileageView = 'trips' | 'vehicles';
+
+const formatCurrency = (amount: number) => `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const downloadCsv = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+const EMPTY_VEHICLE_FORM = {
+  name: '',
+  registration: '',
+  vehicleType: 'van' as VehicleType,
+  claimMethod: 'simplified' as VehicleClaimMethod,
+  fuelVatMethod: 'none' as FuelVatMethod,
+  advisoryFuelRate: '',
+  fuelScaleCharge: '',
+};
+
+const emptyTripForm = (vehicleId = '') => ({
+  vehicleId,
+  date: new Date().toISOString().split('T')[0],
+  fromLocation: '',
+  toLocation: '',
+  purpose: '',
+  miles: '',
+  jobPackId: '',
+  scheduleEntryId: '',
+});
+
+const inputClass = 'px-4 py-3 border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+export const MileagePage: React.FC<MileagePageProps> = ({ onBack }) => {
+  const { projects, schedule, settings } = useData();
+  const toast = useToast();
+  const [view, setView] = useState<MileageView>('trips');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [trips, setTrips] = useState<MileageTrip[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [selectedPeriod, setSelectedPeriod] = useState<ReportPeriod>('current_tax_year');
+  const [editingVehicleId, setEditingVehicleId] = useState<string | 'new' | null>(null);
+  const [vehicleForm, setVehicleForm] = useState(EMPTY_VEHICLE_FORM);
+  const [editingTripId, setEditingTripId] = useState<string | 'new' | null>(null);
+  const [tripForm, setTripForm] = useState(emptyTripForm());
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [vehicleRows, tripRows] = await Promise.all([
+          vehiclesService.getAll(),
+          mileageTripsService.getAll(),
+        ]);
+        setVehicles((vehicleRows || []).map(toVehicle));
+        setTrips((tripRows || []).map(toMileageTrip));
+      } catch (error) {
+        const { message } = handleApiError(error);
+        toast.error('Failed to Load Mileage', message);
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const period = useMemo(() => getPeriodBoundaries(selectedPeriod, settings), [selectedPeriod, settings]);
+  const from = toISODate(period.start);
+  const to = toISODate(period.end);
+  const today = new Date().toISOString().split('T')[0];
+
+  // Priced over every trip so the 10,000 mile threshold lands on the right one
+  const claims = useMemo(() => calculateMileageClaims(trips, vehicles, settings), [trips, vehicles, settings]);
+  const periodClaims = useMemo(
+    () => claims.filter(c => c.trip.date >= from && c.trip.date <= to).reverse(),
+    [claims, from, to]
+  );
+  const summary = useMemo(() => summariseMileage(claims, from, to), [claims, from, to]);
+
+  // Car and van miles towards the threshold in the current tax year
+  const taxYearStart = getTaxYearStart(today, settings);
+  const thresholdMilesUsed = claims
+    .filter(c => c.taxYearStart === taxYearStart && (c.vehicleType === 'car' || c.vehicleType === 'van'))
+    .reduce((sum, c) => sum + c.trip.miles, 0);
+
+  const suggestions = useMemo(
+    () => getTripSuggestions(schedule, trips, settings.companyAddress || '', from, to < today ? to : today),
+    [schedule, trips, settings.companyAddress, from, to, today]
+  );
+
+  const activeVehicles = vehicles.filter(v => v.isActive);
+  const vehicleName = (id: string) => vehicles.find(v => v.id === id)?.name || 'Unknown vehicle';
+  const jobName = (id?: string) => (id && projects.find(p => p.id === id)?.title) || '';
+
+  const startVehicleEdit = (vehicle?: Vehicle) => {
+    setEditingVehicleId(vehicle?.id || 'new');
+    setVehicleForm(vehicle ? {
+      name: vehicle.name,
+      registration: vehicle.registration || '',
+      vehicleType: vehicle.vehicleType,
+      claimMethod: vehicle.claimMethod,
+      fuelVatMethod: vehicle.fuelVatMethod,
+      advisoryFuelRate: vehicle.advisoryFuelRate?.toString() || '',
+      fuelScaleCharge: vehicle.fuelScaleCharge?.toString() || '',
+    } : EMPTY_VEHICLE_FORM);
+  };
+
+  const handleSaveVehicle = async () => {
+    if (!vehicleForm.name.trim()) return;
+
+    setSaving(true);
+    try {
+      const row = {
+        name: vehicleForm.name.trim(),
+        registration: vehicleForm.registration.trim().toUpperCase() || null,
+        vehicle_type: vehicleForm.vehicleType,
+        claim_method: vehicleForm.claimMethod,
+        fuel_vat_method: vehicleForm.fuelVatMethod,
+        advisory_fuel_rate: vehicleForm.fuelVatMethod === 'advisory' ? parseFloat(vehicleForm.advisoryFuelRate) || null : null,
+        fuel_scale_charge: vehicleForm.fuelVatMethod === 'scale_charge' ? parseFloat(vehicleForm.fuelScaleCharge) || null : null,
+      };
+      if (editingVehicleId === 'new') {
+        const created = await vehiclesService.create(row);
+        setVehicles(prev => [...prev, toVehicle(created)].sort((a, b) => a.name.localeCompare(b.name)));
+        toast.success('Vehicle Added', row.name);
+      } else if (editingVehicleId) {
+        const updated = await vehiclesService.update(editingVehicleId, row);
+        setVehicles(prev => prev.map(v => v.id === editingVehicleId ? toVehicle(updated) : v));
+        toast.success('Vehicle Updated', row.name);
+      }
+      setEditingVehicleId(null);
+    } catch (error) {
+      console.error('Failed to save vehicle:', error);
+      const { message } = handleApiError(error);
+      toast.error('Save Failed', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleVehicle = async (vehicle: Vehicle) => {
+    try {
+      const updated = await vehiclesService.update(vehicle.id, { is_active: !vehicle.isActive });
+      setVehicles(prev => prev.map(v => v.id === vehicle.id ? toVehicle(updated) : v));
+    } catch (error) {
+      const { message } = handleApiError(error);
+      toast.error('Update Failed', message);
+    }
+  };
+
+  const handleDeleteVehicle = async (vehicle: Vehicle) => {
+    if (!confirm(`Delete ${vehicle.name} and all of its trips? Mark it inactive instead to keep its mileage history.`)) return;
+    try {
+      await vehiclesService.delete(vehicle.id);
+      setVehicles(prev => prev.filter(v => v.id !== vehicle.id));
+      setTrips(prev => prev.filter(t => t.vehicleId !== vehicle.id));
+    } catch (error) {
+      console.error('Failed to delete vehicle:', error);
+      const { message } = handleApiError(error);
+      toast.error('Delete Failed', message);
+    }
+  };
+
+  const startTripEdit = (trip?: MileageTrip, suggestion?: TripSuggestion) => {
+    setEditingTripId(trip?.id || 'new');
+    if (trip) {
+      setTripForm({
+        vehicleId: trip.vehicleId,
+        date: trip.date,
+        fromLocation: trip.fromLocation,
+        toLocation: trip.toLocation,
+        purpose: trip.purpose || '',
+        miles: trip.miles.toString(),
+        jobPackId: trip.jobPackId || '',
+        scheduleEntryId: trip.scheduleEntryId || '',
+      });
+    } else {
+      setTripForm({
+        ...emptyTripForm(activeVehicles[0]?.id),
+        ...(suggestion && {
+          date: suggestion.date,
+          fromLocation: suggestion.fromLocation,
+          toLocation: suggestion.toLocation,
+          purpose: suggestion.purpose,
+          jobPackId: suggestion.jobPackId || '',
+          scheduleEntryId: suggestion.scheduleEntryId,
+        }),
+      });
+    }
+  };
+
+  const tripFormValid = tripForm.vehicleId && tripForm.date && tripForm.fromLocation.trim()
+    && tripForm.toLocation.trim() && parseFloat(tripForm.miles) > 0;
+
+  const handleSaveTrip = async () => {
+    if (!tripFormValid) return;
+
+    setSaving(true);
+    try {
+      const row = {
+        vehicle_id: tripForm.vehicleId,
+        trip_date: tripForm.date,
+        from_location: tripForm.fromLocation.trim(),
+        to_location: tripForm.toLocation.trim(),
+        purpose: tripForm.purpose.trim() || null,
+        miles: parseFloat(tripForm.miles),
+        job_pack_id: tripForm.jobPackId || null,
+        schedule_entry_id: tripForm.scheduleEntryId || null,
+      };
+      if (editingTripId === 'new') {
+        const created = await mileageTripsService.create(row);
+        setTrips(prev => [toMileageTrip(created), ...prev]);
+        toast.success('Trip Logged', `${row.miles} miles to ${row.to_location}`);
+      } else if (editingTripId) {
+        const updated = await mileageTripsService.update(editingTripId, row);
+        setTrips(prev => prev.map(t => t.id === editingTripId ? toMileageTrip(updated) : t));
+        toast.success('Trip Updated', row.to_location);
+      }
+      setEditingTripId(null);
+    } catch (error) {
+      console.error('Failed to save trip:', error);
+      const { message } = handleApiError(error);
+      toast.error('Save Failed', message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteTrip = async (trip: MileageTrip) => {
+    if (!confirm(`Delete the trip to ${trip.toLocation} on ${formatDate(trip.date)}?`)) return;
+    try {
+      await mileageTripsService.delete(trip.id);
+      setTrips(prev => prev.filter(t => t.id !== trip.id));
+    } catch (error) {
+      console.error('Failed to delete trip:', error);
+      const { message } = handleApiError(error);
+      toast.error('Delete Failed', message);
+    }
+  };
+
+  const handleExport = () => {
+    const jobNames = new Map(projects.map(p => [p.id, p.title]));
+    downloadCsv(mileageToCsv([...periodClaims].reverse(), vehicles, jobNames), `mileage_${from}_to_${to}.csv`);
+  };
+
+  const views: { id: MileageView; label: string; icon: React.ElementType }[] = [
+    { id: 'trips', label: 'Trips', icon: Route },
+    { id: 'vehicles', label: 'Vehicles', icon: Car },
+  ];
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Mileage</h1>
+          <p className="text-slate-500 text-sm font-medium italic">Business trips claimed at HMRC approved rates</p>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mb-6 overflow-x-auto">
+        {views.map(v => {
+          const Icon = v.icon;
+          return (
+            <button
+              key={v.id}
+              onClick={() => setView(v.id)}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold whitespace-nowrap transition-colors ${view === v.id ? 'bg-slate-900 text-white' : 'bg-white border-2 border-slate-100 text-slate-600 hover:bg-slate-50'}`}
+            >
+              <Icon size={16} /> {v.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-10"><Loader2 className="w-6 h-6 text-blue-500 animate-spin" /></div>
+      ) : view === 'trips' ? (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <select
+              value={selectedPeriod}
+              onChange={e => setSelectedPeriod(e.target.value as ReportPeriod)}
+              className="px-4 py-2.5 border-2 border-slate-100 rounded-xl text-sm font-bold bg-white"
+            >
+              {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).filter(id => id !== 'custom').map(id => (
+                <option key={id} value={id}>{REPORT_PERIOD_LABELS[id]}</option>
+              ))}
+            </select>
+            <div className="flex gap-2">
+              <button
+                onClick={handleExport}
+                disabled={periodClaims.length === 0}
+                className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                <Download size={16} /> Export CSV
+              </button>
+              <button
+                onClick={() => startTripEdit()}
+                disabled={activeVehicles.length === 0}
+                className="flex items-center gap-2 px-4 py-2.5 bg-blue-500 text-white rounded-xl font-bold text-sm hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                <Plus size={16} /> Log Trip
+              </button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 md:gap-4 mb-4">
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Business Miles</p>
+              <p className="text-xl md:text-2xl font-black text-slate-900">{summary.miles.toLocaleString('en-GB')}</p>
+              <p className="text-[10px] text-slate-400">{summary.trips} trip{summary.trips !== 1 ? 's' : ''} · {period.label}</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-blue-600 uppercase tracking-wider mb-1">Mileage Allowance</p>
+              <p className="text-xl md:text-2xl font-black text-blue-700">{formatCurrency(summary.allowance)}</p>
+            </div>
+            <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">At 45p This Tax Year</p>
+              <p className="text-xl md:text-2xl font-black text-slate-900">
+                {Math.min(thresholdMilesUsed, AMAP_THRESHOLD_MILES).toLocaleString('en-GB')}
+                <span className="text-sm text-slate-400"> / {AMAP_THRESHOLD_MILES.toLocaleString('en-GB')}</span>
+              </p>
+              <p className="text-[10px] text-slate-400">Car and van miles, then 25p</p>
+            </div>
+          </div>
+
+          {activeVehicles.length === 0 && (
+            <div className="bg-amber-50 border-2 border-amber-100 rounded-2xl p-4 mb-4 text-sm text-amber-800 font-medium">
+              Add a vehicle before logging trips.
+            </div>
+          )}
+
+          {editingTripId && (
+            <div className="bg-white rounded-2xl border-2 border-blue-100 p-4 mb-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-black text-slate-900">{editingTripId === 'new' ? 'Log Trip' : 'Edit Trip'}</p>
+                <button onClick={() => setEditingTripId(null)} className="p-1 text-slate-400 hover:text-slate-600"><X size={18} /></button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <select
+                  value={tripForm.vehicleId}
+                  onChange={e => setTripForm({ ...tripForm, vehicleId: e.target.value })}
+                  className={`${inputClass} bg-white`}
+                >
+                  {vehicles.filter(v => v.isActive || v.id === tripForm.vehicleId).map(v => (
+                    <option key={v.id} value={v.id}>{v.name}{v.registration && ` (${v.registration})`}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={tripForm.date}
+                  onChange={e => setTripForm({ ...tripForm, date: e.target.value })}
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={tripForm.fromLocation}
+                  onChange={e => setTripForm({ ...tripForm, fromLocation: e.target.value })}
+                  placeholder="From"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={tripForm.toLocation}
+                  onChange={e => setTripForm({ ...tripForm, toLocation: e.target.value })}
+                  placeholder="To"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={tripForm.purpose}
+                  onChange={e => setTripForm({ ...tripForm, purpose: e.target.value })}
+                  placeholder="Purpose"
+                  className={inputClass}
+                />
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  min="0"
+                  step="0.1"
+                  value={tripForm.miles}
+                  onChange={e => setTripForm({ ...tripForm, miles: e.target.value })}
+                  placeholder="Miles"
+                  className={inputClass}
+                />
+                <select
+                  value={tripForm.jobPackId}
+                  onChange={e => setTripForm({ ...tripForm, jobPackId: e.target.value })}
+                  className={`${inputClass} bg-white md:col-span-2`}
+                >
+                  <option value="">No job</option>
+                  {projects.filter(p => p.status === 'active' || p.id === tripForm.jobPackId).map(p => (
+                    <option key={p.id} value={p.id}>{p.title}</option>
+                  ))}
+                </select>
+              </div>
+              <button
+                onClick={handleSaveTrip}
+                disabled={saving || !tripFormValid}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-blue-500 text-white rounded-xl font-black text-sm uppercase tracking-wider hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {saving && <Loader2 size={16} className="animate-spin" />} Save
+              </button>
+            </div>
+          )}
+
+          {/* Visits from the schedule that have not been logged */}
+          {suggestions.length > 0 && activeVehicles.length > 0 && (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 mb-4">
+              <div className="flex items-center gap-2 mb-3">
+                <Sparkles size={16} className="text-amber-500" />
+                <p className="font-black text-slate-900 text-sm">From your schedule</p>
+              </div>
+              <div className="divide-y divide-slate-100">
+                {suggestions.slice(0, 10).map(s => (
+                  <div key={s.scheduleEntryId} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="font-bold text-slate-900 text-sm truncate">{s.purpose}</p>
+                      <p className="text-xs text-slate-500 truncate">
+                        {formatDate(s.date)} · {s.fromLocation || 'Start'} → {s.toLocation}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => startTripEdit(undefined, s)}
+                      className="px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg text-xs font-bold hover:bg-blue-100 transition-colors shrink-0"
+                    >
+                      Log
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {periodClaims.length === 0 ? (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+              <Route size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="font-black text-slate-900">No trips logged</p>
+              <p className="text-sm text-slate-500 mt-1">Log business journeys to claim the mileage allowance instead of vehicle running costs.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 divide-y divide-slate-100">
+              {periodClaims.map(claim => (
+                <div key={claim.trip.id} className="flex items-center justify-between gap-3 p-4">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 truncate flex items-center gap-1.5">
+                      <MapPin size={14} className="text-slate-400 shrink-0" />
+                      {claim.trip.fromLocation} → {claim.trip.toLocation}
+                    </p>
+                    <p className="text-xs text-slate-500 truncate">
+                      {formatDate(claim.trip.date)} · {vehicleName(claim.trip.vehicleId)}
+                      {claim.trip.purpose && ` · ${claim.trip.purpose}`}
+                      {jobName(claim.trip.jobPackId) && ` · ${jobName(claim.trip.jobPackId)}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <div className="text-right">
+                      <p className="font-black text-slate-900">{formatCurrency(claim.allowance)}</p>
+                      <p className="text-[10px] text-slate-400">
+                        {claim.trip.miles} mi{claim.afterThresholdMiles > 0 && ` (${claim.afterThresholdMiles} at 25p)`}
+                      </p>
+                    </div>
+                    <button onClick={() => startTripEdit(claim.trip)} className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors" title="Edit">
+                      <Edit2 size={14} />
+                    </button>
+                    <button onClick={() => handleDeleteTrip(claim.trip)} className="p-2 bg-red-50 text-red-500 rounded-lg hover:bg-red-100 transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      ) : (
+        <>
+          <div className="flex justify-end mb-4">
+            <button
+              onClick={() => startVehicleEdit()}
+              className="flex items-center gap-2 px-4 py-2.5 bg-blue-500 text-white rounded-xl font-bold text-sm hover:bg-blue-600 transition-colors"
+            >
+              <Plus size={16} /> Add Vehicle
+            </button>
+          </div>
+
+          {editingVehicleId && (
+            <div className="bg-white rounded-2xl border-2 border-blue-100 p-4 mb-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="font-black text-slate-900">{editingVehicleId === 'new' ? 'New Vehicle' : 'Edit Vehicle'}</p>
+                <button onClick={() => setEditingVehicleId(null)} className="p-1 text-slate-400 hover:text-slate-600"><X size={18} /></button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <input
+                  type="text"
+                  value={vehicleForm.name}
+                  onChange={e => setVehicleForm({ ...vehicleForm, name: e.target.value })}
+                  placeholder="Name, e.g. Work van"
+                  className={inputClass}
+                />
+                <input
+                  type="text"
+                  value={vehicleForm.registration}
+                  onChange={e => setVehicleForm({ ...vehicleForm, registration: e.target.value })}
+                  placeholder="Registration"
+                  className={inputClass}
+                />
+                <select
+                  value={vehicleForm.vehicleType}
+                  onChange={e => setVehicleForm({ ...vehicleForm, vehicleType: e.target.value as VehicleType })}
+                  className={`${inputClass} bg-white`}
+                >
+                  {(Object.keys(VEHICLE_TYPE_LABELS) as VehicleType[]).map(t => (
+                    <option key={t} value={t}>{VEHICLE_TYPE_LABELS[t]}</option>
+                  ))}
+                </select>
+                <select
+                  value={vehicleForm.claimMethod}
+                  onChange={e => setVehicleForm({ ...vehicleForm, claimMethod: e.target.value as VehicleClaimMethod })}
+                  className={`${inputClass} bg-white`}
+                >
+                  {(Object.keys(CLAIM_METHOD_LABELS) as VehicleClaimMethod[]).map(m => (
+                    <option key={m} value={m}>{CLAIM_METHOD_LABELS[m]}</option>
+                  ))}
+                </select>
+                <select
+                  value={vehicleForm.fuelVatMethod}
+                  onChange={e => setVehicleForm({ ...vehicleForm, fuelVatMethod: e.target.value as FuelVatMethod })}
+                  className={`${inputClass} bg-white`}
+                >
+                  {(Object.keys(FUEL_VAT_METHOD_LABELS) as FuelVatMethod[]).map(m => (
+                    <option key={m} value={m}>{FUEL_VAT_METHOD_LABELS[m]}</option>
+                  ))}
+                </select>
+                {vehicleForm.fuelVatMethod === 'advisory' && (
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.1"
+                    value={vehicleForm.advisoryFuelRate}
+                    onChange={e => setVehicleForm({ ...vehicleForm, advisoryFuelRate: e.target.value })}
+                    placeholder="Advisory fuel rate (pence per mile)"
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                )}
+                {vehicleForm.fuelVatMethod === 'scale_charge' && (
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.01"
+                    value={vehicleForm.fuelScaleCharge}
+                    onChange={e => setVehicleForm({ ...vehicleForm, fuelScaleCharge: e.target.value })}
+                    placeholder="Quarterly fuel scale charge incl. VAT (£)"
+                    className={`${inputClass} md:col-span-2`}
+                  />
+                )}
+              </div>
+              <p className="text-xs text-slate-500">
+                {vehicleForm.claimMethod === 'simplified'
+                  ? 'Trips are claimed at the approved mileage rates, which cover fuel and running costs. Fuel and vehicle expenses for it are left out of your profit.'
+                  : 'Fuel and running costs are claimed as expenses. Trips are still logged but earn no mileage allowance.'}
+              </p>
+              {vehicleForm.fuelVatMethod !== 'none' && (
+                <p className="text-xs text-slate-500">
+                  {vehicleForm.fuelVatMethod === 'advisory'
+                    ? "Use HMRC's current advisory fuel rate for the engine size. One sixth of the fuel cost of each business trip is reclaimed on your VAT return, in place of the VAT on its fuel receipts."
+                    : "Use the quarterly charge for the vehicle's CO2 band from HMRC's table. It is added to your VAT return for each quarter the vehicle is used."}
+                </p>
+              )}
+              <button
+                onClick={handleSaveVehicle}
+                disabled={saving || !vehicleForm.name.trim()}
+                className="w-full flex items-center justify-center gap-2 py-3 bg-blue-500 text-white rounded-xl font-black text-sm uppercase tracking-wider hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {saving && <Loader2 size={16} className="animate-spin" />} Save
+              </button>
+            </div>
+          )}
+
+          {vehicles.length === 0 ? (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+              <Car size={40} className="mx-auto text-blue-500 mb-3" />
+              <p className="font-black text-slate-900">No vehicles yet</p>
+              <p className="text-sm text-slate-500 mt-1">Add the vehicles you drive for work to start logging trips.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl border-2 border-slate-100 divide-y divide-slate-100">
+              {vehicles.map(v => (
+                <div key={v.id} className={`flex items-center justify-between gap-3 p-4 ${v.isActive ? '' : 'opacity-60'}`}>
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{v.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {VEHICLE_TYPE_LABELS[v.vehicleType]}{v.registration && ` · ${v.registration}`} · {CLAIM_METHOD_LABELS[v.claimMethod]} · {FUEL_VAT_METHOD_LABELS[v.fuelVatMethod]}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <button
+                      onClick={() => handleToggleVehicle(v)}
+                      className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase ${v.isActive ? 'bg-emerald-100 text-emerald-700' : 'bg-slate-100 text-slate-500'}`}
+                    >
+                      {v.isActive ? 'Active' : 'Inactive'}
+                    </button>
+                    <button onClick={() => startVehicleEdit(v)} className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors" title="Edit">
+                      <Edit2 size={14} />
+                    </button>
+                    <button onClick={() => handleDeleteVehicle(v)} className="p-2 bg-red-50 text-red-500 rounded-lg hover:bg-red-100 transition-colors" title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
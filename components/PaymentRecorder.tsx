@@ -1,18 +1,26 @@
 
 import React, { useState } from 'react';
-import { Quote } from '../types';
-import { X, PoundSterling, CreditCard, Banknote, Building2, FileText, Calendar, CheckCircle2 } from 'lucide-react';
+import { Quote, InvoicePayment } from '../types';
+import { X, PoundSterling, CreditCard, Banknote, Building2, FileText, Calendar, CheckCircle2, Hash, Trash2, ShieldCheck } from 'lucide-react';
 import { hapticTap, hapticSuccess } from '../src/hooks/useHaptic';
+import { getBalanceDue, sumPayments } from '../src/utils/invoicePayments';
+import { suggestPaymentCisDeduction } from '../src/utils/cis';
 
 interface PaymentRecorderProps {
   invoice: Quote;
   invoiceTotal: number;
+  // CIS the contractor withholds across the whole invoice
+  cisAmount?: number;
+  amountCredited?: number;
+  payments: InvoicePayment[];
   onRecordPayment: (payment: {
     amount: number;
     method: 'cash' | 'card' | 'bank_transfer' | 'cheque';
     date: string;
-    markAsPaid: boolean;
+    reference?: string;
+    cisDeducted?: number;
   }) => void;
+  onDeletePayment?: (paymentId: string) => void;
   onClose: () => void;
 }
 
@@ -26,14 +34,29 @@ const paymentMethods = [
 export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
   invoice,
   invoiceTotal,
+  cisAmount = 0,
+  amountCredited = 0,
+  payments,
   onRecordPayment,
+  onDeletePayment,
   onClose
 }) => {
-  const amountOwed = invoiceTotal - (invoice.amountPaid || 0);
+  const alreadyPaid = sumPayments(payments);
+  const amountOwed = getBalanceDue(invoiceTotal, payments, amountCredited);
   const [amount, setAmount] = useState(amountOwed);
   const [method, setMethod] = useState<'cash' | 'card' | 'bank_transfer' | 'cheque'>('bank_transfer');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [markAsPaid, setMarkAsPaid] = useState(true);
+  const [reference, setReference] = useState('');
+  const [cisDeducted, setCisDeducted] = useState(() =>
+    suggestPaymentCisDeduction({ grandTotal: invoiceTotal, cisAmount }, amountOwed)
+  );
+  const [cisEdited, setCisEdited] = useState(false);
+
+  // Keep the CIS deduction in proportion to the amount until it is edited by hand
+  const updateAmount = (value: number) => {
+    setAmount(value);
+    if (!cisEdited) setCisDeducted(suggestPaymentCisDeduction({ grandTotal: invoiceTotal, cisAmount }, value));
+  };
 
   const handleSubmit = () => {
     hapticSuccess();
@@ -41,7 +64,8 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
       amount,
       method,
       date,
-      markAsPaid: markAsPaid && amount >= amountOwed
+      reference: reference.trim() || undefined,
+      cisDeducted: cisDeducted > 0 ? cisDeducted : undefined,
     });
   };
 
@@ -72,10 +96,16 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
             <span className="text-xs font-bold text-slate-400 uppercase">Invoice Total</span>
             <span className="text-sm font-black text-slate-600">£{invoiceTotal.toFixed(2)}</span>
           </div>
-          {(invoice.amountPaid || 0) > 0 && (
+          {amountCredited > 0 && (
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-bold text-rose-500 uppercase">Credited</span>
+              <span className="text-sm font-black text-rose-600">-£{amountCredited.toFixed(2)}</span>
+            </div>
+          )}
+          {alreadyPaid > 0 && (
             <div className="flex justify-between items-center mb-2">
               <span className="text-xs font-bold text-emerald-500 uppercase">Already Paid</span>
-              <span className="text-sm font-black text-emerald-600">-£{(invoice.amountPaid || 0).toFixed(2)}</span>
+              <span className="text-sm font-black text-emerald-600">-£{alreadyPaid.toFixed(2)}</span>
             </div>
           )}
           <div className="flex justify-between items-center pt-2 border-t border-slate-200">
@@ -84,6 +114,43 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
           </div>
         </div>
 
+        {/* Previous Payments */}
+        {payments.length > 0 && (
+          <div className="mb-6">
+            <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
+              Payments Received
+            </label>
+            <div className="space-y-1.5 max-h-32 overflow-y-auto">
+              {payments.map(p => (
+                <div key={p.id} className="flex items-center justify-between bg-slate-50 rounded-xl px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-bold text-slate-700">
+                      {new Date(p.paymentDate).toLocaleDateString('en-GB')}
+                    </span>
+                    <span className="text-xs text-slate-400 ml-2">
+                      {paymentMethods.find(pm => pm.id === p.paymentMethod)?.label || p.paymentMethod}
+                      {p.reference && ` · ${p.reference}`}
+                      {p.cisDeducted ? ` · CIS £${p.cisDeducted.toFixed(2)}` : ''}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-black text-emerald-600">£{p.amount.toFixed(2)}</span>
+                    {onDeletePayment && (
+                      <button
+                        onClick={() => { hapticTap(); onDeletePayment(p.id); }}
+                        className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+                        aria-label="Remove payment"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Payment Amount */}
         <div className="mb-6">
           <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
@@ -96,20 +163,20 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
               type="number"
               step="0.01"
               value={amount || ''}
-              onChange={e => setAmount(parseFloat(e.target.value) || 0)}
+              onChange={e => updateAmount(parseFloat(e.target.value) || 0)}
               className="w-full bg-white border-2 border-slate-200 rounded-xl p-4 pl-8 text-xl font-black text-slate-900 outline-none focus:border-emerald-400 transition-colors"
               placeholder="0.00"
             />
           </div>
           <div className="flex gap-2 mt-2">
             <button
-              onClick={() => { hapticTap(); setAmount(amountOwed); }}
+              onClick={() => { hapticTap(); updateAmount(amountOwed); }}
               className="flex-1 py-2 bg-emerald-50 text-emerald-600 rounded-lg text-xs font-black uppercase hover:bg-emerald-100 transition-colors"
             >
               Full Amount
             </button>
             <button
-              onClick={() => { hapticTap(); setAmount(amountOwed / 2); }}
+              onClick={() => { hapticTap(); updateAmount(amountOwed / 2); }}
               className="flex-1 py-2 bg-slate-50 text-slate-600 rounded-lg text-xs font-black uppercase hover:bg-slate-100 transition-colors"
             >
               50%
@@ -117,6 +184,27 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
           </div>
         </div>
 
+        {/* CIS Deducted - recorded for the contractor's deduction statement */}
+        {cisAmount > 0 && (
+          <div className="mb-6">
+            <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
+              <ShieldCheck size={12} className="inline mr-1" />
+              CIS Deducted By Contractor
+            </label>
+            <div className="relative">
+              <span className="absolute left-4 top-1/2 -translate-y-1/2 text-slate-400 font-bold">£</span>
+              <input
+                type="number"
+                step="0.01"
+                value={cisDeducted || ''}
+                onChange={e => { setCisEdited(true); setCisDeducted(parseFloat(e.target.value) || 0); }}
+                className="w-full bg-white border-2 border-slate-200 rounded-xl p-3 pl-8 font-bold text-slate-900 outline-none focus:border-blue-400 transition-colors"
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+        )}
+
         {/* Payment Method */}
         <div className="mb-6">
           <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
@@ -163,23 +251,35 @@ export const PaymentRecorder: React.FC<PaymentRecorderProps> = ({
           />
         </div>
 
-        {/* Mark as Paid checkbox */}
-        {isFullPayment && (
-          <label className="flex items-center gap-3 p-4 bg-emerald-50 rounded-xl mb-6 cursor-pointer group">
-            <input
-              type="checkbox"
-              checked={markAsPaid}
-              onChange={e => setMarkAsPaid(e.target.checked)}
-              className="w-5 h-5 rounded border-emerald-300 text-emerald-500 focus:ring-emerald-500"
-            />
-            <div>
-              <span className="font-bold text-emerald-700 group-hover:text-emerald-800">
-                Mark invoice as paid
-              </span>
-              <p className="text-xs text-emerald-600">This payment settles the full amount</p>
-            </div>
+        {/* Reference */}
+        <div className="mb-6">
+          <label className="block text-xs font-black text-slate-400 uppercase tracking-wider mb-2">
+            <Hash size={12} className="inline mr-1" />
+            Reference (optional)
           </label>
-        )}
+          <input
+            type="text"
+            value={reference}
+            onChange={e => setReference(e.target.value)}
+            className="w-full bg-white border-2 border-slate-200 rounded-xl p-3 font-bold text-slate-900 outline-none focus:border-emerald-400 transition-colors"
+            placeholder="e.g. cheque number or bank reference"
+          />
+        </div>
+
+        {/* Settlement notice - status is derived from the payments ledger */}
+        <div className={`flex items-center gap-3 p-4 rounded-xl mb-6 ${isFullPayment ? 'bg-emerald-50' : 'bg-amber-50'}`}>
+          <CheckCircle2 size={20} className={isFullPayment ? 'text-emerald-500' : 'text-amber-500'} />
+          <div>
+            <span className={`font-bold ${isFullPayment ? 'text-emerald-700' : 'text-amber-700'}`}>
+              {isFullPayment ? 'Invoice will be marked as paid' : 'Invoice will be marked as part paid'}
+            </span>
+            <p className={`text-xs ${isFullPayment ? 'text-emerald-600' : 'text-amber-600'}`}>
+              {isFullPayment
+                ? 'This payment settles the full amount'
+                : `£${Math.max(0, amountOwed - amount).toFixed(2)} will remain outstanding`}
+            </p>
+          </div>
+        </div>
 
         {/* Action Buttons */}
         <div className="flex gap-3">
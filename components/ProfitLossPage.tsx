@@ -2,17 +2,30 @@ import React, { useState, useEffect, useMemo } from 'react';
 import {
   ArrowLeft, TrendingUp, TrendingDown, PoundSterling, Calendar,
   CalendarDays, CalendarRange, Download, FileText, FileSpreadsheet,
-  Package, Wrench, Fuel, Car, Shield, CreditCard, Briefcase, Tag,
+  Package, Wrench, Car, Shield, CreditCard, Briefcase, Phone, Tag,
   ChevronDown, Users, Receipt, Minus, Plus, Loader2
 } from 'lucide-react';
 import { useData } from '../src/contexts/DataContext';
-import { Quote, AppSettings } from '../types';
+import { useToast } from '../src/contexts/ToastContext';
+import { handleApiError } from '../src/utils/errorHandler';
+import { getPeriodBoundaries as getReportPeriodBoundaries, type ReportPeriod } from '../src/utils/reportPeriods';
+import { ledgerService, vehiclesService, mileageTripsService } from '../src/services/dataService';
+import { calculateMileageClaims, toMileageTrip, toVehicle, type MileageClaim } from '../src/utils/mileage';
+import {
+  SALES_ACCOUNT_CODE,
+  buildLedgerProfitAndLoss,
+  sumLedgerTotals,
+  toLedgerAccount,
+  toLedgerMonthlyTotal,
+  type LedgerAccount,
+  type LedgerMonthlyTotal,
+} from '../src/utils/ledger';
 
 interface ProfitLossPageProps {
   onBack?: () => void;
 }
 
-type PeriodType = 'current_month' | 'last_month' | 'current_quarter' | 'last_quarter' | 'current_tax_year' | 'last_tax_year' | 'custom';
+type PeriodType = ReportPeriod;
 
 interface PeriodOption {
   id: PeriodType;
@@ -20,19 +33,8 @@ interface PeriodOption {
   icon: React.ReactNode;
 }
 
-interface Expense {
-  id: string;
-  vendor: string;
-  description?: string | null;
-  amount: number;
-  vat_amount: number | null;
-  category: string | null;
-  expense_date: string;
-  is_reconciled: boolean | null;
-  payment_method: string | null;
-}
-
 interface CategoryBreakdown {
+  code: string;
   category: string;
   count: number;
   total: number;
@@ -50,41 +52,53 @@ interface MonthlyData {
   profit: number;
 }
 
-// Cost of Sales categories (direct costs)
-const COST_OF_SALES_CATEGORIES = ['materials', 'subcontractor', 'tools'];
-
-// Operating expense categories
-const OPERATING_EXPENSE_CATEGORIES = ['fuel', 'vehicle', 'insurance', 'office', 'subscriptions', 'other'];
-
-// Category icon mapping
-const CATEGORY_ICONS: Record<string, React.FC<any>> = {
-  materials: Package,
-  subcontractor: Users,
-  tools: Wrench,
-  fuel: Fuel,
-  vehicle: Car,
-  insurance: Shield,
-  subscriptions: CreditCard,
-  office: Briefcase,
-  other: Tag,
+// Cost of Sales accounts (direct costs: materials, subcontractors, tools)
+const COST_OF_SALES_ACCOUNT_CODES = ['5000', '5100', '5200'];
+
+// Business trips claimed at the approved mileage rates, shown with operating expenses.
+// The allowance is worked out from the mileage log, so it has no ledger account.
+const MILEAGE_CATEGORY = 'mileage allowance';
+
+// Icon per ledger account
+const ACCOUNT_ICONS: Record<string, React.FC<any>> = {
+  [MILEAGE_CATEGORY]: Car,
+  '5000': Package,
+  '5100': Users,
+  '5200': Wrench,
+  '5300': Car,
+  '6000': Shield,
+  '6100': CreditCard,
+  '6200': Phone,
+  '6300': Briefcase,
+  '6900': Tag,
 };
 
-// Category colors
-const CATEGORY_COLORS: Record<string, string> = {
-  materials: '#3b82f6',
-  subcontractor: '#8b5cf6',
-  tools: '#a855f7',
-  fuel: '#ef4444',
-  vehicle: '#06b6d4',
-  insurance: '#10b981',
-  subscriptions: '#f59e0b',
-  office: '#6366f1',
-  other: '#64748b',
+// Colour per ledger account
+const ACCOUNT_COLORS: Record<string, string> = {
+  [MILEAGE_CATEGORY]: '#0ea5e9',
+  '5000': '#3b82f6',
+  '5100': '#8b5cf6',
+  '5200': '#a855f7',
+  '5300': '#06b6d4',
+  '6000': '#10b981',
+  '6100': '#f59e0b',
+  '6200': '#ec4899',
+  '6300': '#6366f1',
+  '6900': '#64748b',
 };
 
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Local calendar date, so a period starting at midnight BST doesn't slip back a day
+const toIsoDate = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
 export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
-  const { quotes, settings, services } = useData();
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const { settings } = useData();
+  const toast = useToast();
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [monthlyTotals, setMonthlyTotals] = useState<LedgerMonthlyTotal[]>([]);
+  const [mileageClaims, setMileageClaims] = useState<MileageClaim[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedPeriod, setSelectedPeriod] = useState<PeriodType>('current_tax_year');
   const [showPeriodDropdown, setShowPeriodDropdown] = useState(false);
@@ -107,176 +121,107 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
     { id: 'custom', label: 'Custom Range', icon: <Calendar size={16} /> },
   ];
 
-  // Load expenses
+  // Get period boundaries
+  const getPeriodBoundaries = (period: PeriodType) =>
+    getReportPeriodBoundaries(period, settings, { start: customStartDate, end: customEndDate });
+
+  const { start: periodStart, end: periodEnd } = getPeriodBoundaries(selectedPeriod);
+  const periodFrom = toIsoDate(periodStart);
+  const periodTo = toIsoDate(periodEnd);
+
+  // Load the period's ledger totals, month by month for the trend table
   useEffect(() => {
-    const loadExpenses = async () => {
+    let cancelled = false;
+    const loadLedger = async () => {
       setLoading(true);
       try {
-        const data = await services.expenses.getAll();
-        setExpenses(data || []);
+        const [accountRows, totalRows] = await Promise.all([
+          ledgerService.getAccounts(),
+          ledgerService.getMonthlyTotals(periodFrom, periodTo),
+        ]);
+        if (cancelled) return;
+        setAccounts((accountRows || []).map(toLedgerAccount));
+        setMonthlyTotals((totalRows || []).map(toLedgerMonthlyTotal));
       } catch (error) {
-        console.error('Failed to load expenses:', error);
+        const { message } = handleApiError(error);
+        toast.error('Failed to Load Ledger', message);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     };
-    loadExpenses();
-  }, [services.expenses]);
-
-  // Calculate quote total helper
-  const calculateQuoteTotal = (quote: Quote): number => {
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) =>
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * ((quote.markupPercent || 0) / 100);
-
-    // Handle discount
-    let discountAmount = 0;
-    if (quote.discountValue && quote.discountValue > 0) {
-      if (quote.discountType === 'percentage') {
-        discountAmount = (subtotal + markup) * (quote.discountValue / 100);
-      } else {
-        discountAmount = quote.discountValue;
-      }
-    }
-
-    const afterDiscount = subtotal + markup - discountAmount;
-    const tax = afterDiscount * ((quote.taxPercent || 0) / 100);
-    return afterDiscount + tax;
-  };
-
-  // Get period boundaries
-  const getPeriodBoundaries = (period: PeriodType): { start: Date; end: Date; label: string } => {
-    const now = new Date();
-    const taxMonth = (settings.taxYearStartMonth || 4) - 1;
-    const taxDay = settings.taxYearStartDay || 6;
-
-    // Calculate current tax year start
-    let currentTaxYearStart = new Date(now.getFullYear(), taxMonth, taxDay);
-    if (now < currentTaxYearStart) {
-      currentTaxYearStart = new Date(now.getFullYear() - 1, taxMonth, taxDay);
-    }
-
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+    loadLedger();
+    return () => { cancelled = true; };
+  }, [periodFrom, periodTo]);
 
-    switch (period) {
-      case 'current_month': {
-        const start = new Date(now.getFullYear(), now.getMonth(), 1);
-        const end = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-        return { start, end, label: `${monthNames[now.getMonth()]} ${now.getFullYear()}` };
-      }
-      case 'last_month': {
-        const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
-        const end = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
-        return { start, end, label: `${monthNames[start.getMonth()]} ${start.getFullYear()}` };
-      }
-      case 'current_quarter': {
-        const quarter = Math.floor(now.getMonth() / 3);
-        const start = new Date(now.getFullYear(), quarter * 3, 1);
-        const end = new Date(now.getFullYear(), quarter * 3 + 3, 0, 23, 59, 59);
-        return { start, end, label: `Q${quarter + 1} ${now.getFullYear()}` };
-      }
-      case 'last_quarter': {
-        const quarter = Math.floor(now.getMonth() / 3) - 1;
-        const year = quarter < 0 ? now.getFullYear() - 1 : now.getFullYear();
-        const adjustedQuarter = quarter < 0 ? 3 : quarter;
-        const start = new Date(year, adjustedQuarter * 3, 1);
-        const end = new Date(year, adjustedQuarter * 3 + 3, 0, 23, 59, 59);
-        return { start, end, label: `Q${adjustedQuarter + 1} ${year}` };
-      }
-      case 'current_tax_year': {
-        const end = new Date(currentTaxYearStart.getFullYear() + 1, taxMonth, taxDay - 1, 23, 59, 59);
-        return {
-          start: currentTaxYearStart,
-          end,
-          label: `${monthNames[taxMonth]} ${currentTaxYearStart.getFullYear()} - ${monthNames[taxMonth]} ${currentTaxYearStart.getFullYear() + 1}`
-        };
-      }
-      case 'last_tax_year': {
-        const start = new Date(currentTaxYearStart.getFullYear() - 1, taxMonth, taxDay);
-        const end = new Date(currentTaxYearStart.getFullYear(), taxMonth, taxDay - 1, 23, 59, 59);
-        return {
-          start,
-          end,
-          label: `${monthNames[taxMonth]} ${start.getFullYear()} - ${monthNames[taxMonth]} ${start.getFullYear() + 1}`
-        };
-      }
-      case 'custom': {
-        const start = customStartDate ? new Date(customStartDate) : new Date(now.getFullYear(), 0, 1);
-        const end = customEndDate ? new Date(customEndDate + 'T23:59:59') : now;
-        return {
-          start,
-          end,
-          label: `${start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })} - ${end.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`
-        };
-      }
-      default:
-        return { start: new Date(now.getFullYear(), 0, 1), end: now, label: 'All Time' };
-    }
-  };
+  // Load mileage - every trip, so the 10,000 mile threshold lands on the right one
+  useEffect(() => {
+    Promise.all([vehiclesService.getAll(), mileageTripsService.getAll()])
+      .then(([vehicleRows, tripRows]) => setMileageClaims(calculateMileageClaims(
+        (tripRows || []).map(toMileageTrip),
+        (vehicleRows || []).map(toVehicle),
+        settings
+      )))
+      .catch(error => console.error('Failed to load mileage:', error));
+  }, [settings.taxYearStartMonth, settings.taxYearStartDay]);
 
   // Calculate P&L data
   const plData = useMemo(() => {
     const { start, end, label } = getPeriodBoundaries(selectedPeriod);
 
-    // Filter paid invoices in period
-    const paidInvoices = quotes.filter(q => {
-      if (q.type !== 'invoice' || q.status !== 'paid') return false;
-      const paymentDate = q.paymentDate ? new Date(q.paymentDate) : new Date(q.updatedAt);
-      return paymentDate >= start && paymentDate <= end;
-    });
+    // Revenue and expenses are the income and expense accounts of the general ledger
+    const ledgerPnl = buildLedgerProfitAndLoss(accounts, sumLedgerTotals(monthlyTotals));
 
-    // Filter expenses in period
-    const periodExpenses = expenses.filter(e => {
-      const expenseDate = new Date(e.expense_date);
-      return expenseDate >= start && expenseDate <= end;
+    const entryCounts = new Map<string, number>();
+    monthlyTotals.forEach(total => {
+      entryCounts.set(total.accountCode, (entryCounts.get(total.accountCode) || 0) + total.entryCount);
     });
 
-    // Calculate revenue
-    const totalRevenue = paidInvoices.reduce((sum, inv) => sum + calculateQuoteTotal(inv), 0);
+    // Vehicles claimed at actual costs have their fuel and running costs in the ledger instead
+    const periodMileage = mileageClaims.filter(c => {
+      const tripDate = new Date(c.trip.date);
+      return c.claimMethod === 'simplified' && tripDate >= start && tripDate <= end;
+    });
 
-    // Group expenses by category
-    const expensesByCategory = periodExpenses.reduce((acc, exp) => {
-      const cat = exp.category || 'other';
-      if (!acc[cat]) acc[cat] = { count: 0, total: 0 };
-      acc[cat].count += 1;
-      acc[cat].total += exp.amount;
-      return acc;
-    }, {} as Record<string, { count: number; total: number }>);
+    // Sales, plus the VAT kept under the Flat Rate Scheme
+    const revenueBreakdown = ledgerPnl.income.map(line => ({
+      code: line.account.code,
+      category: line.account.name,
+      count: entryCounts.get(line.account.code) || 0,
+      total: line.amount,
+    }));
+    const totalRevenue = ledgerPnl.totalIncome;
+    // Every invoice and credit note posts to sales, so its entries count the documents
+    const revenueCount = entryCounts.get(SALES_ACCOUNT_CODE) || 0;
+
+    const expenseLines: CategoryBreakdown[] = ledgerPnl.expenses.map(line => ({
+      code: line.account.code,
+      category: line.account.name,
+      count: entryCounts.get(line.account.code) || 0,
+      total: line.amount,
+      icon: ACCOUNT_ICONS[line.account.code] || Tag,
+      color: ACCOUNT_COLORS[line.account.code] || '#64748b',
+    }));
+
+    if (periodMileage.length > 0) {
+      expenseLines.push({
+        code: MILEAGE_CATEGORY,
+        category: MILEAGE_CATEGORY,
+        count: periodMileage.length,
+        total: periodMileage.reduce((sum, c) => sum + c.allowance, 0),
+        icon: ACCOUNT_ICONS[MILEAGE_CATEGORY],
+        color: ACCOUNT_COLORS[MILEAGE_CATEGORY],
+      });
+    }
 
     // Calculate Cost of Sales
-    const costOfSales = COST_OF_SALES_CATEGORIES.reduce((sum, cat) => {
-      return sum + (expensesByCategory[cat]?.total || 0);
-    }, 0);
-
-    const costOfSalesBreakdown: CategoryBreakdown[] = COST_OF_SALES_CATEGORIES
-      .filter(cat => expensesByCategory[cat])
-      .map(cat => ({
-        category: cat,
-        count: expensesByCategory[cat].count,
-        total: expensesByCategory[cat].total,
-        icon: CATEGORY_ICONS[cat] || Tag,
-        color: CATEGORY_COLORS[cat] || '#64748b',
-      }));
+    const costOfSalesBreakdown = expenseLines.filter(line => COST_OF_SALES_ACCOUNT_CODES.includes(line.code));
+    const costOfSales = costOfSalesBreakdown.reduce((sum, line) => sum + line.total, 0);
 
     // Calculate Operating Expenses
-    const operatingExpenses = Object.entries(expensesByCategory)
-      .filter(([cat]) => !COST_OF_SALES_CATEGORIES.includes(cat))
-      .reduce((sum, [, data]) => sum + data.total, 0);
-
-    const operatingExpensesBreakdown: CategoryBreakdown[] = Object.entries(expensesByCategory)
-      .filter(([cat]) => !COST_OF_SALES_CATEGORIES.includes(cat))
-      .map(([cat, data]) => ({
-        category: cat,
-        count: data.count,
-        total: data.total,
-        icon: CATEGORY_ICONS[cat] || Tag,
-        color: CATEGORY_COLORS[cat] || '#64748b',
-      }))
+    const operatingExpensesBreakdown = expenseLines
+      .filter(line => !COST_OF_SALES_ACCOUNT_CODES.includes(line.code))
       .sort((a, b) => b.total - a.total);
+    const operatingExpenses = operatingExpensesBreakdown.reduce((sum, line) => sum + line.total, 0);
 
     // Calculate Gross and Net Profit
     const grossProfit = totalRevenue - costOfSales;
@@ -286,44 +231,44 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
     // Monthly breakdown
     const monthlyData: MonthlyData[] = [];
     const monthMap = new Map<string, MonthlyData>();
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-
-    paidInvoices.forEach(inv => {
-      const date = inv.paymentDate ? new Date(inv.paymentDate) : new Date(inv.updatedAt);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const getMonth = (monthKey: string) => {
+      const [year, month] = monthKey.split('-').map(Number);
       const existing = monthMap.get(monthKey) || {
         month: monthKey,
-        monthLabel: `${monthNames[date.getMonth()]} ${date.getFullYear()}`,
+        monthLabel: `${MONTH_NAMES[month - 1]} ${year}`,
         revenue: 0,
         revenueCount: 0,
         expenses: 0,
         expenseCount: 0,
         profit: 0,
       };
-      existing.revenue += calculateQuoteTotal(inv);
-      existing.revenueCount += 1;
       monthMap.set(monthKey, existing);
+      return existing;
+    };
+
+    const monthKeys = Array.from(new Set(monthlyTotals.map(total => total.month)));
+    monthKeys.forEach(monthKey => {
+      const monthTotals = monthlyTotals.filter(total => total.month === monthKey);
+      const monthPnl = buildLedgerProfitAndLoss(accounts, monthTotals);
+      const count = (lines: typeof monthPnl.income) =>
+        lines.reduce((sum, line) => sum + (monthTotals.find(t => t.accountCode === line.account.code)?.entryCount || 0), 0);
+      if (monthPnl.income.length === 0 && monthPnl.expenses.length === 0) return;
+
+      const existing = getMonth(monthKey);
+      existing.revenue += monthPnl.totalIncome;
+      existing.revenueCount += monthTotals.find(t => t.accountCode === SALES_ACCOUNT_CODE)?.entryCount || 0;
+      existing.expenses += monthPnl.totalExpenses;
+      existing.expenseCount += count(monthPnl.expenses);
     });
 
-    periodExpenses.forEach(exp => {
-      const date = new Date(exp.expense_date);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      const existing = monthMap.get(monthKey) || {
-        month: monthKey,
-        monthLabel: `${monthNames[date.getMonth()]} ${date.getFullYear()}`,
-        revenue: 0,
-        revenueCount: 0,
-        expenses: 0,
-        expenseCount: 0,
-        profit: 0,
-      };
-      existing.expenses += exp.amount;
-      existing.expenseCount += 1;
-      monthMap.set(monthKey, existing);
+    periodMileage.forEach(claim => {
+      const date = new Date(claim.trip.date);
+      const existing = getMonth(`${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`);
+      existing.expenses += claim.allowance;
     });
 
     // Calculate profit for each month and sort
-    monthMap.forEach((data, key) => {
+    monthMap.forEach(data => {
       data.profit = data.revenue - data.expenses;
       monthlyData.push(data);
     });
@@ -332,7 +277,8 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
     return {
       periodLabel: label,
       totalRevenue,
-      revenueCount: paidInvoices.length,
+      revenueCount,
+      revenueBreakdown,
       costOfSales,
       costOfSalesBreakdown,
       grossProfit,
@@ -341,10 +287,10 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
       netProfit,
       profitMargin,
       totalExpenses: costOfSales + operatingExpenses,
-      totalExpenseCount: periodExpenses.length,
+      totalExpenseCount: expenseLines.reduce((sum, line) => sum + line.count, 0),
       monthlyData,
     };
-  }, [quotes, expenses, selectedPeriod, customStartDate, customEndDate, settings]);
+  }, [accounts, monthlyTotals, mileageClaims, selectedPeriod, customStartDate, customEndDate, settings]);
 
   // Format currency
   const formatCurrency = (amount: number): string => {
@@ -362,49 +308,29 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
 
   // Export as CSV
   const handleExportCSV = () => {
-    const { start, end } = getPeriodBoundaries(selectedPeriod);
-
-    // Revenue lines
-    const revenueLines = quotes
-      .filter(q => {
-        if (q.type !== 'invoice' || q.status !== 'paid') return false;
-        const paymentDate = q.paymentDate ? new Date(q.paymentDate) : new Date(q.updatedAt);
-        return paymentDate >= start && paymentDate <= end;
-      })
-      .map(inv => ({
-        date: inv.paymentDate || inv.updatedAt,
-        type: 'Revenue',
-        category: 'Paid Invoice',
-        description: `Invoice ${inv.referenceNumber || inv.id.slice(0, 8)}`,
-        amount: calculateQuoteTotal(inv),
-      }));
-
-    // Expense lines
-    const expenseLines = expenses
-      .filter(e => {
-        const expenseDate = new Date(e.expense_date);
-        return expenseDate >= start && expenseDate <= end;
-      })
-      .map(exp => ({
-        date: exp.expense_date,
-        type: COST_OF_SALES_CATEGORIES.includes(exp.category || 'other') ? 'Cost of Sales' : 'Operating Expense',
-        category: exp.category || 'other',
-        description: exp.vendor + (exp.description ? ` - ${exp.description}` : ''),
-        amount: -exp.amount,
-      }));
-
-    const allLines = [...revenueLines, ...expenseLines].sort((a, b) =>
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-
-    const headers = ['Date', 'Type', 'Category', 'Description', 'Amount'];
-    const rows = allLines.map(line => [
-      new Date(line.date).toLocaleDateString('en-GB'),
-      line.type,
-      line.category,
-      `"${line.description.replace(/"/g, '""')}"`,
-      line.amount.toFixed(2),
-    ]);
+    // One line per ledger account, as the accountant sees it in the trial balance
+    const lines = [
+      ...plData.costOfSalesBreakdown.map(item => ({ ...item, type: 'Cost of Sales' })),
+      ...plData.operatingExpensesBreakdown.map(item => ({ ...item, type: 'Operating Expense' })),
+    ];
+
+    const headers = ['Account Code', 'Account', 'Type', 'Entries', 'Amount'];
+    const rows = [
+      ...plData.revenueBreakdown.map(line => [
+        line.code,
+        `"${line.category.replace(/"/g, '""')}"`,
+        'Revenue',
+        String(line.count),
+        line.total.toFixed(2),
+      ]),
+      ...lines.map(line => [
+        line.code === MILEAGE_CATEGORY ? '' : line.code,
+        `"${line.category.replace(/"/g, '""')}"`,
+        line.type,
+        String(line.count),
+        (-line.total).toFixed(2),
+      ]),
+    ];
 
     // Add summary
     rows.push([]);
@@ -552,8 +478,8 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
                 <TrendingUp size={20} />
               </div>
               <div>
-                <p className="font-black text-slate-900">Revenue (Paid Invoices)</p>
-                <p className="text-xs text-slate-500">{plData.revenueCount} invoice{plData.revenueCount !== 1 ? 's' : ''}</p>
+                <p className="font-black text-slate-900">Revenue (Sales)</p>
+                <p className="text-xs text-slate-500">{plData.revenueCount} invoice and credit note entr{plData.revenueCount !== 1 ? 'ies' : 'y'}</p>
               </div>
             </div>
             <p className="text-xl sm:text-2xl font-black text-emerald-600">{formatCurrency(plData.totalRevenue)}</p>
@@ -617,7 +543,7 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
         <div className="bg-white rounded-2xl p-4 border border-slate-200">
           <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Revenue</p>
           <p className="text-xl font-black text-emerald-600">{formatCurrency(plData.totalRevenue)}</p>
-          <p className="text-xs text-slate-500">{plData.revenueCount} paid</p>
+          <p className="text-xs text-slate-500">{plData.revenueCount} posted</p>
         </div>
         <div className="bg-white rounded-2xl p-4 border border-slate-200">
           <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Expenses</p>
@@ -668,14 +594,14 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
                 {plData.costOfSalesBreakdown.map(item => {
                   const Icon = item.icon;
                   return (
-                    <div key={item.category} className="flex items-center justify-between py-2">
+                    <div key={item.code} className="flex items-center justify-between py-2">
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-xl flex items-center justify-center" style={{ backgroundColor: item.color + '20' }}>
                           <Icon size={18} style={{ color: item.color }} />
                         </div>
                         <div>
                           <p className="font-bold text-slate-900 capitalize">{item.category}</p>
-                          <p className="text-xs text-slate-500">{item.count} expense{item.count !== 1 ? 's' : ''}</p>
+                          <p className="text-xs text-slate-500">{item.count} entr{item.count !== 1 ? 'ies' : 'y'}</p>
                         </div>
                       </div>
                       <p className="font-black text-slate-700">{formatCurrency(item.total)}</p>
@@ -716,14 +642,16 @@ export const ProfitLossPage: React.FC<ProfitLossPageProps> = ({ onBack }) => {
                 {plData.operatingExpensesBreakdown.map(item => {
                   const Icon = item.icon;
                   return (
-                    <div key={item.category} className="flex items-center justify-between py-2">
+                    <div key={item.code} className="flex items-center justify-between py-2">
                       <div className="flex items-center gap-3">
                         <div className="w-10 h-10 rounded-xl flex items-center justify-center" style={{ backgroundColor: item.color + '20' }}>
                           <Icon size={18} style={{ color: item.color }} />
                         </div>
                         <div>
                           <p className="font-bold text-slate-900 capitalize">{item.category}</p>
-                          <p className="text-xs text-slate-500">{item.count} expense{item.count !== 1 ? 's' : ''}</p>
+                          <p className="text-xs text-slate-500">
+                            {item.count} {item.code === MILEAGE_CATEGORY ? (item.count !== 1 ? 'trips' : 'trip') : (item.count !== 1 ? 'entries' : 'entry')}
+                          </p>
                         </div>
                       </div>
                       <p className="font-black text-slate-700">{formatCurrency(item.total)}</p>
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Quote, Customer, AppSettings, MaterialItem, QuoteSection, LabourItem, DBMaterialLibraryItem } from '../types';
+import { Quote, Customer, AppSettings, MaterialItem, QuoteSection, QuoteOption, LabourItem, DBMaterialLibraryItem, VatRateCode } from '../types';
 import {
   analyzeJobRequirements,
   parseVoiceCommandForItems,
@@ -9,13 +9,20 @@ import {
   ArrowLeft, Mic, Sparkles, Plus,
   Loader2, Camera, UserPlus, ChevronDown, X, MicOff,
   PoundSterling, Percent, FileText,
-  Calendar, Layers, Tag, MapPin, Banknote
+  Calendar, Layers, Tag, MapPin, Banknote, Repeat
 } from 'lucide-react';
 import { AddressAutocomplete } from './AddressAutocomplete';
 import { hapticTap, hapticSuccess } from '../src/hooks/useHaptic';
 import { MaterialsLibrary } from './MaterialsLibrary';
 import { useData } from '../src/contexts/DataContext';
 import { useToast } from '../src/contexts/ToastContext';
+import {
+  calculateSectionLabour as calculateLabourForSection,
+  calculateDocumentTotals,
+} from '../src/utils/quoteCalculations';
+import { applyAcceptedScope, hasQuoteChoices } from '../src/utils/quoteOptions';
+import { validatePaymentSchedule } from '../src/utils/paymentSchedule';
+import { validateRetention } from '../src/utils/retention';
 
 // Import extracted components
 import {
@@ -24,6 +31,9 @@ import {
   DiscountModal,
   PartPaymentModal,
   QuoteTotals,
+  QuoteOptionsEditor,
+  PaymentScheduleEditor,
+  RetentionEditor,
 } from './quote';
 
 interface QuoteCreatorProps {
@@ -106,6 +116,7 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
   };
 
   const [formData, setFormData] = useState<Partial<Quote>>(getInitialData());
+  const isQuoteType = formData.type === 'estimate' || formData.type === 'quotation';
 
   const dropdownRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
@@ -280,6 +291,38 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
     setFormData(prev => ({ ...prev, sections: prev.sections?.map(s => s.id === id ? { ...s, title } : s) }));
   };
 
+  const updateSectionScope = (id: string, updates: Pick<QuoteSection, 'optionId' | 'isOptional' | 'isIncluded'>) => {
+    setFormData(prev => ({ ...prev, sections: prev.sections?.map(s => s.id === id ? { ...s, ...updates } : s) }));
+  };
+
+  const updateSectionVatRate = (id: string, vatRate: VatRateCode | undefined) => {
+    setFormData(prev => ({ ...prev, sections: prev.sections?.map(s => s.id === id ? { ...s, vatRate } : s) }));
+  };
+
+  // Option tier handlers
+  const addOption = () => {
+    const count = formData.options?.length || 0;
+    const newOption: QuoteOption = {
+      id: Math.random().toString(36).substr(2, 9),
+      name: ['Good', 'Better', 'Best'][count] || `Option ${count + 1}`,
+    };
+    setFormData(prev => ({ ...prev, options: [...(prev.options || []), newOption] }));
+  };
+
+  const updateOption = (id: string, updates: Partial<QuoteOption>) => {
+    setFormData(prev => ({ ...prev, options: prev.options?.map(o => o.id === id ? { ...o, ...updates } : o) }));
+  };
+
+  // Sections of a removed option become part of every remaining option
+  const removeOption = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      options: prev.options?.filter(o => o.id !== id),
+      selectedOptionId: prev.selectedOptionId === id ? undefined : prev.selectedOptionId,
+      sections: prev.sections?.map(s => s.optionId === id ? { ...s, optionId: undefined } : s),
+    }));
+  };
+
   // Material item handlers
   const addMaterialToSection = (sectionId: string) => {
     setFormData(prev => ({
@@ -381,11 +424,7 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
 
   // Calculation helpers
   const calculateSectionLabour = (section: QuoteSection) => {
-    const defaultRate = section.labourRate || formData.labourRate || settings.defaultLabourRate;
-    if (section.labourItems && section.labourItems.length > 0) {
-      return section.labourItems.reduce((sum, item) => sum + (item.hours * (item.rate || defaultRate)), 0);
-    }
-    return section.labourCost || (section.labourHours || 0) * defaultRate;
+    return calculateLabourForSection(section, formData.labourRate || settings.defaultLabourRate, settings.defaultLabourRate);
   };
 
   const getTotalLabourHours = (section: QuoteSection) => {
@@ -395,33 +434,21 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
     return section.labourHours || 0;
   };
 
-  // Calculate totals
-  const totals = (() => {
-    const sections = formData.sections || [];
-    let materialsTotal = 0, labourTotal = 0, sectionsTotal = 0;
-
-    sections.forEach(s => {
-      const sectionMaterials = s.items.filter(i => !i.isHeading).reduce((sum, i) => sum + i.totalPrice, 0);
-      const sectionLabour = calculateSectionLabour(s);
-      const sectionPrice = s.subsectionPrice !== undefined ? s.subsectionPrice : (sectionMaterials + sectionLabour);
-      materialsTotal += sectionMaterials;
-      labourTotal += sectionLabour;
-      sectionsTotal += sectionPrice;
-    });
-
-    const subtotal = sectionsTotal;
-    const markup = subtotal * ((formData.markupPercent || 0) / 100);
-    const clientSubtotal = subtotal + markup;
-    const discount = formData.discountValue
-      ? (formData.discountType === 'percentage' ? clientSubtotal * (formData.discountValue / 100) : formData.discountValue)
-      : 0;
-    const afterDiscount = clientSubtotal - discount;
-    const tax = afterDiscount * ((formData.taxPercent || 0) / 100);
-    const cis = (afterDiscount + tax) * ((formData.cisPercent || 0) / 100);
-    const total = afterDiscount + tax - cis;
-
-    return { materialsTotal, labourTotal, subtotal, markup, discount, tax, cis, total };
-  })();
+  // Calculate totals with the shared engine so the editor matches the PDF
+  const documentTotals = calculateDocumentTotals(formData as Quote, settings);
+  const totals = {
+    materialsTotal: documentTotals.materialsTotal,
+    labourTotal: documentTotals.labourTotal,
+    subtotal: documentTotals.sectionsTotal,
+    markup: documentTotals.clientSubtotal - documentTotals.sectionsTotal,
+    discount: documentTotals.discountAmount,
+    tax: documentTotals.taxAmount,
+    reverseChargeVat: documentTotals.reverseChargeVat,
+    cis: documentTotals.cisAmount,
+    total: documentTotals.grandTotal,
+    retention: documentTotals.retentionAmount,
+    dueNow: documentTotals.amountDueNow,
+  };
 
   // Customer handlers
   const handleQuickAddCustomer = async () => {
@@ -442,9 +469,33 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
   };
 
   const handleSave = () => {
-    const quoteToSave = !existingQuote && formData.type === 'invoice' && formData.status === 'draft'
+    const scheduleError = isQuoteType && formData.paymentSchedule?.length
+      ? validatePaymentSchedule(formData.paymentSchedule, totals.total)
+      : null;
+    if (scheduleError) {
+      toast.error('Payment Schedule', scheduleError);
+      return;
+    }
+    const retentionError = formData.type === 'invoice' ? validateRetention(formData) : null;
+    if (retentionError) {
+      toast.error('Retention', retentionError);
+      return;
+    }
+
+    let quoteToSave = !existingQuote && formData.type === 'invoice' && formData.status === 'draft'
       ? { ...formData, status: 'sent' } as Quote
       : formData as Quote;
+    // Invoices bill one scope - drop alternatives left over from a quote
+    if (quoteToSave.type === 'invoice' && hasQuoteChoices(quoteToSave)) {
+      quoteToSave = applyAcceptedScope(quoteToSave);
+    }
+    if (quoteToSave.type === 'invoice' && quoteToSave.paymentSchedule) {
+      quoteToSave = { ...quoteToSave, paymentSchedule: undefined };
+    }
+    // Retention is only held on invoices
+    if (quoteToSave.type !== 'invoice' && quoteToSave.retentionPercent !== undefined) {
+      quoteToSave = { ...quoteToSave, retentionPercent: undefined, practicalCompletionDate: undefined, defectsPeriodEndDate: undefined };
+    }
     onSave(quoteToSave);
   };
 
@@ -499,7 +550,7 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
               {showCustomerDropdown && (
                 <div className="absolute top-full left-0 right-0 mt-1 bg-white border border-slate-100 rounded-xl shadow-xl z-50 max-h-60 overflow-y-auto">
                   {customers.filter(c => c.name.toLowerCase().includes(customerSearch.toLowerCase())).map(c => (
-                    <button key={c.id} onClick={() => { setFormData({ ...formData, customerId: c.id }); setCustomerSearch(c.name); setShowCustomerDropdown(false); }} className="w-full text-left p-3 hover:bg-slate-50 border-b border-slate-50 flex flex-col">
+                    <button key={c.id} onClick={() => { setFormData({ ...formData, customerId: c.id, ...(!existingQuote && { reverseCharge: c.reverseCharge || undefined }) }); setCustomerSearch(c.name); setShowCustomerDropdown(false); }} className="w-full text-left p-3 hover:bg-slate-50 border-b border-slate-50 flex flex-col">
                       <span className="font-bold text-slate-900">{c.name}</span>
                       {c.company && <span className="text-xs text-slate-500">{c.company}</span>}
                     </button>
@@ -575,6 +626,17 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
           </div>
         </details>
 
+        {/* Option Tiers */}
+        {isQuoteType && (
+          <QuoteOptionsEditor
+            options={formData.options || []}
+            optionTotals={documentTotals.optionTotals}
+            onAddOption={addOption}
+            onUpdateOption={updateOption}
+            onRemoveOption={removeOption}
+          />
+        )}
+
         {/* Sections */}
         <div className="space-y-3 md:space-y-4">
           {(formData.sections || []).map((section, sectionIdx) => (
@@ -602,6 +664,10 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
               onUpdateLabourCost={updateLabourCost}
               onUpdateSubsectionPrice={updateSubsectionPrice}
               onRemoveSection={removeSection}
+              options={formData.options}
+              onUpdateScope={isQuoteType ? updateSectionScope : undefined}
+              vatStandardRate={settings.enableVat ? (formData.taxPercent ?? settings.defaultTaxRate) : undefined}
+              onUpdateVatRate={updateSectionVatRate}
               calculateSectionLabour={calculateSectionLabour}
               getTotalLabourHours={getTotalLabourHours}
             />
@@ -642,6 +708,15 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
           </div>
         </div>
 
+        {/* Payment Schedule - staged billing for quotes */}
+        {isQuoteType && (
+          <PaymentScheduleEditor
+            milestones={formData.paymentSchedule || []}
+            total={totals.total}
+            onChange={(paymentSchedule) => setFormData(prev => ({ ...prev, paymentSchedule }))}
+          />
+        )}
+
         {/* Part Payment Section */}
         {formData.type === 'invoice' && (
           <div className="bg-white p-4 rounded-[24px] border border-slate-200 shadow-sm">
@@ -659,6 +734,35 @@ export const QuoteCreator: React.FC<QuoteCreatorProps> = ({
           </div>
         )}
 
+        {/* Retention - held back by a main contractor */}
+        {formData.type === 'invoice' && (
+          <RetentionEditor
+            retentionPercent={formData.retentionPercent}
+            practicalCompletionDate={formData.practicalCompletionDate}
+            defectsPeriodEndDate={formData.defectsPeriodEndDate}
+            retentionAmount={totals.retention}
+            amountDueNow={totals.dueNow}
+            onChange={(updates) => setFormData(prev => ({ ...prev, ...updates }))}
+          />
+        )}
+
+        {/* Domestic reverse charge - the contractor accounts for the VAT */}
+        {settings.enableVat && (
+          <div className="bg-white p-4 rounded-[24px] border border-slate-200 shadow-sm">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2"><Repeat size={16} className="text-blue-500" /><span className="text-xs font-black text-slate-600 uppercase tracking-widest">VAT Reverse Charge</span></div>
+                {formData.reverseCharge && (
+                  <p className="text-xs text-slate-500 mt-1">No VAT charged - £{totals.reverseChargeVat.toFixed(2)} for the customer to account to HMRC</p>
+                )}
+              </div>
+              <button onClick={() => setFormData(prev => ({ ...prev, reverseCharge: !prev.reverseCharge || undefined }))} className={`w-14 h-8 shrink-0 rounded-full relative transition-all duration-300 ${formData.reverseCharge ? 'bg-blue-500 shadow-lg shadow-blue-200' : 'bg-slate-300'}`}>
+                <div className={`absolute top-1 left-1 bg-white w-6 h-6 rounded-full shadow transition-transform duration-300 ${formData.reverseCharge ? 'translate-x-6' : 'translate-x-0'}`} />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Totals */}
         <QuoteTotals totals={totals} settings={settings} documentType={formData.type || 'estimate'} onSave={handleSave} />
       </div>
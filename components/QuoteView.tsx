@@ -1,25 +1,40 @@
 
 import React, { useState, useRef } from 'react';
-import { Quote, Customer, AppSettings, QuoteDisplayOptions, QuoteSection, LabourItem } from '../types';
+import { Quote, Customer, AppSettings, QuoteDisplayOptions, LabourItem, InvoicePayment, RecurringInvoice, QuoteResponse } from '../types';
 import {
   ArrowLeft, Edit3, Hammer, User, FileText, Info,
   Landmark, Package, HardHat, FileDown, Loader2, Navigation, PoundSterling,
   Settings2, Eye, EyeOff, ChevronDown, ChevronUp, LayoutGrid, List,
   Image as ImageIcon, AlignLeft, ReceiptText, ShieldCheck, ListChecks, FileDigit,
-  Box, Circle, Share2, Copy, MessageCircle, MapPin, Mail, Banknote, Check, X, Clock, Tag, Type
+  Box, Circle, Share2, Copy, MessageCircle, MapPin, Mail, Banknote, Check, X, Clock,
+  FileMinus, Ban, Repeat, Link2, CalendarClock
 } from 'lucide-react';
 import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import { PaymentRecorder } from './PaymentRecorder';
+import { CreditNoteCreator } from './CreditNoteCreator';
+import { RecurringInvoiceSetup } from './RecurringInvoiceSetup';
 import { hapticSuccess } from '../src/hooks/useHaptic';
 import { filingService } from '../src/services/dataService';
+import { calculateDocumentTotals, getDocumentHeadlineTotals } from '../src/utils/quoteCalculations';
+import { REVERSE_CHARGE_NOTICE } from '../src/utils/reverseCharge';
+import { formatVatBand, getVatLabel, hasMixedVatRates } from '../src/utils/vatRates';
+import { QuoteDocument, QuoteResponseEvidence, QuoteChoicePanel, PaymentSchedulePanel } from './quote-view';
+import { getBalanceDue } from '../src/utils/invoicePayments';
 import {
-  calculateSectionLabour,
-  calculateQuoteTotals,
-  calculatePartPayment,
-} from '../src/utils/quoteCalculations';
-import { getTemplateConfig, getTableHeaderStyle, getColorScheme } from '../src/lib/invoiceTemplates';
-import { ClassicTemplate } from './invoice-templates';
+  getCreditableAmount,
+  getDocumentPrefix,
+  sumCredited,
+  type CreditNoteOptions,
+} from '../src/utils/creditNotes';
+import {
+  describeSchedule,
+  formatRecurringReference,
+  type RecurringInvoiceInput,
+} from '../src/utils/recurringInvoices';
+import { canShareQuote, getQuotePortalUrl } from '../src/utils/quotePortal';
+import { applyCustomerChoice, hasQuoteChoices } from '../src/utils/quoteOptions';
+import type { PaymentScheduleProgress } from '../src/utils/paymentSchedule';
 
 interface QuoteViewProps {
   quote: Quote;
@@ -29,17 +44,48 @@ interface QuoteViewProps {
   onBack: () => void;
   onUpdateStatus: (status: Quote['status']) => void;
   onUpdateQuote: (quote: Quote) => void;
+  payments?: InvoicePayment[];
+  onRecordPayment?: (payment: Omit<InvoicePayment, 'id' | 'invoiceId' | 'createdAt'>) => Promise<void>;
+  onDeletePayment?: (paymentId: string) => void;
+  // Issued credit notes against this invoice
+  creditNotes?: Quote[];
+  // The invoice this credit note reverses
+  parentInvoice?: Quote;
+  onCreateCreditNote?: (options: CreditNoteOptions) => Promise<void>;
+  onVoidInvoice?: () => Promise<void>;
+  onViewQuote?: (id: string) => void;
+  // The recurring invoice this invoice was generated from
+  recurringInvoice?: RecurringInvoice;
+  onMakeRecurring?: (recurring: RecurringInvoiceInput) => Promise<void>;
+  onViewRecurring?: () => void;
+  // Latest customer response from the quote portal
+  quoteResponse?: QuoteResponse;
+  // Creates (or returns) the portal share token for this quote
+  onShareLink?: () => Promise<string>;
   onConvertToInvoice?: () => void;
+  // Quoted vs invoiced vs paid per milestone, for quotes billed in stages
+  scheduleProgress?: PaymentScheduleProgress;
+  onRaiseStageInvoice?: (milestoneId: string) => Promise<void>;
+  // The quote a stage invoice bills a milestone of
+  stageQuote?: Quote;
   onDuplicate?: () => void;
 }
 
 export const QuoteView: React.FC<QuoteViewProps> = ({
   quote, customer, settings, onEdit, onBack, onUpdateStatus, onUpdateQuote,
-  onConvertToInvoice, onDuplicate
+  payments = [], onRecordPayment, onDeletePayment,
+  creditNotes = [], parentInvoice, onCreateCreditNote, onVoidInvoice, onViewQuote,
+  recurringInvoice, onMakeRecurring, onViewRecurring,
+  quoteResponse, onShareLink,
+  onConvertToInvoice, scheduleProgress, onRaiseStageInvoice, stageQuote, onDuplicate
 }) => {
   const [isDownloading, setIsDownloading] = useState(false);
   const [showCustomiser, setShowCustomiser] = useState(false);
   const [showPaymentRecorder, setShowPaymentRecorder] = useState(false);
+  const [showCreditNoteCreator, setShowCreditNoteCreator] = useState(false);
+  const [showRecurringSetup, setShowRecurringSetup] = useState(false);
+  const [isSharingLink, setIsSharingLink] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [emailHelper, setEmailHelper] = useState<{
     show: boolean;
     subject: string;
@@ -85,107 +131,17 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
     onUpdateQuote({ ...activeQuote, displayOptions: updatedOptions });
   };
 
-  // Use extracted calculation functions for testability
-  const getSectionLabour = (section: QuoteSection) => {
-    return calculateSectionLabour(section, activeQuote.labourRate, settings.defaultLabourRate);
-  };
-
-  const totals = calculateQuoteTotals(
-    activeQuote,
-    {
-      enableVat: settings.enableVat,
-      enableCis: settings.enableCis,
-      showVat: displayOptions.showVat,
-      showCis: displayOptions.showCis,
-      defaultLabourRate: settings.defaultLabourRate,
-    },
-    displayOptions
-  );
-
-  const partPaymentAmount = calculatePartPayment(
-    totals.grandTotal,
-    activeQuote.partPaymentEnabled,
-    activeQuote.partPaymentType,
-    activeQuote.partPaymentValue
-  );
-
-  // Helper to flatten all items (materials + labour) into a single table
-  const getAllLineItems = () => {
-    const items: Array<{
-      lineNum: number;
-      name: string;
-      description: string;
-      subtext?: string;
-      qty: string;
-      rate?: number;
-      amount: number;
-      isHeading?: boolean;
-    }> = [];
-
-    const markupMultiplier = 1 + ((activeQuote.markupPercent || 0) / 100);
-    let lineNum = 1;
-
-    (activeQuote.sections || []).forEach(section => {
-      // Add materials
-      (section.items || []).forEach(item => {
-        if (item.isHeading) {
-          items.push({
-            lineNum: 0,
-            name: item.name || 'Section',
-            description: item.name || 'Section',
-            qty: '',
-            amount: 0,
-            isHeading: true
-          });
-        } else {
-          const unitPrice = (item.unitPrice || 0) * markupMultiplier;
-          items.push({
-            lineNum: lineNum++,
-            name: item.name || '',
-            description: [item.name, item.description].filter(Boolean).join(' '),
-            subtext: item.description || undefined,
-            qty: `${item.quantity}`,
-            rate: unitPrice,
-            amount: (item.totalPrice || 0) * markupMultiplier,
-          });
-        }
-      });
-
-      // Add labour items
-      if (section.labourItems && section.labourItems.length > 0) {
-        section.labourItems.forEach(labour => {
-          const rate = (labour.rate || section.labourRate || activeQuote.labourRate || settings.defaultLabourRate) * markupMultiplier;
-          items.push({
-            lineNum: lineNum++,
-            name: labour.description || 'Labour',
-            description: labour.description || 'Labour',
-            qty: `${labour.hours}`,
-            rate: rate,
-            amount: labour.hours * rate,
-          });
-        });
-      } else if ((section.labourHours || 0) > 0) {
-        const rate = (section.labourRate || activeQuote.labourRate || settings.defaultLabourRate) * markupMultiplier;
-        items.push({
-          lineNum: lineNum++,
-          name: 'Labour',
-          description: 'Labour',
-          qty: `${section.labourHours}`,
-          rate: rate,
-          amount: (section.labourHours || 0) * rate,
-        });
-      }
-    });
-
-    return items;
-  };
+  const totals = calculateDocumentTotals(activeQuote, settings);
+  const amountCredited = sumCredited(creditNotes, settings);
+  const isQuote = activeQuote.type === 'estimate' || activeQuote.type === 'quotation';
+  const documentLabel = activeQuote.type === 'invoice' ? 'Invoice' : activeQuote.type === 'credit_note' ? 'Credit Note' : 'Quote';
 
   // Generate PDF as a Blob for filing
   const generatePDFBlob = async (): Promise<{ blob: Blob; filename: string } | null> => {
     if (!documentRef.current) return null;
 
     try {
-      const prefix = activeQuote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+      const prefix = getDocumentPrefix(activeQuote.type, settings);
       const numStr = (activeQuote.referenceNumber || 1).toString().padStart(4, '0');
       const cleanTitle = (activeQuote.title || 'invoice').replace(/[^a-z0-9]/gi, '_').toLowerCase();
       const filename = `${prefix}${numStr}_${cleanTitle}.pdf`;
@@ -242,7 +198,7 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
   };
 
   // File paid invoice to Filing Cabinet
-  const filePaidInvoice = async () => {
+  const filePaidInvoice = async (paidOn?: string) => {
     const pdfResult = await generatePDFBlob();
     if (!pdfResult) return;
 
@@ -250,7 +206,7 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
     const file = new File([blob], filename, { type: 'application/pdf' });
 
     // Get tax year from payment date
-    const paymentDate = activeQuote.paymentDate || new Date().toISOString().split('T')[0];
+    const paymentDate = paidOn || activeQuote.paymentDate || new Date().toISOString().split('T')[0];
     const paymentYear = new Date(paymentDate).getFullYear();
     const paymentMonth = new Date(paymentDate).getMonth();
     // UK tax year runs April to April
@@ -281,25 +237,31 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
     amount: number;
     method: 'cash' | 'card' | 'bank_transfer' | 'cheque';
     date: string;
-    markAsPaid: boolean;
+    reference?: string;
+    cisDeducted?: number;
   }) => {
-    const newAmountPaid = (activeQuote.amountPaid || 0) + payment.amount;
-    const updatedQuote: Quote = {
-      ...activeQuote,
-      amountPaid: newAmountPaid,
-      paymentMethod: payment.method,
-      paymentDate: payment.date,
-      status: payment.markAsPaid ? 'paid' : activeQuote.status,
-    };
-    onUpdateQuote(updatedQuote);
+    if (!onRecordPayment) return;
+
+    const settlesInvoice = payment.amount >= getBalanceDue(totals.grandTotal, payments, amountCredited);
+    try {
+      await onRecordPayment({
+        amount: payment.amount,
+        paymentMethod: payment.method,
+        paymentDate: payment.date,
+        reference: payment.reference,
+        cisDeducted: payment.cisDeducted,
+      });
+    } catch {
+      return;
+    }
     setShowPaymentRecorder(false);
     hapticSuccess();
 
-    // Auto-file to Filing Cabinet when marked as paid
-    if (payment.markAsPaid) {
+    // Auto-file to Filing Cabinet once the invoice is fully paid
+    if (settlesInvoice) {
       // Small delay to ensure the UI updates with the new status first
       setTimeout(() => {
-        filePaidInvoice();
+        filePaidInvoice(payment.date);
       }, 500);
     }
   };
@@ -309,7 +271,7 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
 
     setIsDownloading(true);
     try {
-      const prefix = activeQuote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+      const prefix = getDocumentPrefix(activeQuote.type, settings);
       const numStr = (activeQuote.referenceNumber || 1).toString().padStart(4, '0');
       const cleanTitle = (activeQuote.title || 'estimate').replace(/[^a-z0-9]/gi, '_').toLowerCase();
       const filename = `${prefix}${numStr}_${cleanTitle}.pdf`;
@@ -372,7 +334,7 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
   };
 
   const handleWhatsAppShare = () => {
-    const prefix = activeQuote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+    const prefix = getDocumentPrefix(activeQuote.type, settings);
     const numStr = (activeQuote.referenceNumber || 1).toString().padStart(4, '0');
     const docType = activeQuote.type === 'invoice' ? 'Invoice' : 'Quote';
 
@@ -401,12 +363,23 @@ export const QuoteView: React.FC<QuoteViewProps> = ({
     let totalsBreakdown = '\n\n💰 *Financial Summary:*';
     totalsBreakdown += `\nSubtotal: £${totals.clientSubtotal.toFixed(2)}`;
     if (settings.enableVat && displayOptions.showVat && totals.taxAmount > 0) {
-      totalsBreakdown += `\nVAT (${activeQuote.taxPercent}%): £${totals.taxAmount.toFixed(2)}`;
+      totalsBreakdown += `\n${getVatLabel(activeQuote, totals.vatBreakdown)}: £${totals.taxAmount.toFixed(2)}`;
+      if (hasMixedVatRates(totals.vatBreakdown)) {
+        totals.vatBreakdown.forEach(band => {
+          totalsBreakdown += `\n   • ${formatVatBand(band)}: £${band.vat.toFixed(2)} on £${band.net.toFixed(2)}`;
+        });
+      }
     }
     if (settings.enableCis && displayOptions.showCis && totals.cisAmount > 0) {
       totalsBreakdown += `\nCIS Deduction: -£${totals.cisAmount.toFixed(2)}`;
     }
     totalsBreakdown += `\n\n*TOTAL DUE: £${totals.grandTotal.toFixed(2)}*`;
+    if (activeQuote.reverseCharge) {
+      if (totals.reverseChargeVat > 0) {
+        totalsBreakdown += `\nVAT reverse charged${hasMixedVatRates(totals.vatBreakdown) ? '' : ` (${activeQuote.taxPercent}%)`}: £${totals.reverseChargeVat.toFixed(2)}`;
+      }
+      totalsBreakdown += `\n${REVERSE_CHARGE_NOTICE}`;
+    }
 
     // Add part payment info if enabled
     let partPaymentInfo = '';
@@ -455,7 +428,7 @@ ${settings?.email ? `📧 ${settings.email}` : ''}`;
 
     setIsDownloading(true);
     try {
-      const prefix = activeQuote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+      const prefix = getDocumentPrefix(activeQuote.type, settings);
       const numStr = (activeQuote.referenceNumber || 1).toString().padStart(4, '0');
       const cleanTitle = (activeQuote.title || 'estimate').replace(/[^a-z0-9]/gi, '_').toLowerCase();
       const filename = `${prefix}${numStr}_${cleanTitle}.pdf`;
@@ -586,38 +559,9 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
     accepted: 'bg-green-100 text-green-600',
     declined: 'bg-red-100 text-red-600',
     invoiced: 'bg-emerald-100 text-emerald-600',
-    paid: 'bg-emerald-500 text-white'
-  };
-
-  const costBoxThemes = {
-    slate: 'bg-slate-900 text-white',
-    amber: 'bg-amber-500 text-slate-950',
-    blue: 'bg-blue-600 text-white'
-  };
-
-  const currentThemeClass = costBoxThemes[settings.costBoxColor || 'slate'];
-
-  // Get template configuration from the template system
-  const templateConfig = getTemplateConfig(settings.documentTemplate);
-
-  // Get the table header style with color scheme support
-  const tableHeaderStyle = getTableHeaderStyle(templateConfig, settings.invoiceColorScheme);
-  const colorScheme = getColorScheme(settings.invoiceColorScheme || templateConfig.defaultColorScheme);
-
-  // Create templateStyle for backwards compatibility with existing rendering
-  const activeTemplate = settings.documentTemplate || 'professional';
-  const templateStyle = {
-    container: templateConfig.borderRadius,
-    header: templateConfig.headerPadding,
-    titleBar: `border-y border-slate-200 ${templateConfig.showBackgrounds ? 'bg-slate-50' : 'bg-white'} px-2 py-1`,
-    clientSection: `px-2 py-1 ${templateConfig.showBackgrounds ? 'bg-slate-50' : ''}`,
-    sectionPadding: templateConfig.containerPadding,
-    sectionSpacing: templateConfig.sectionGap,
-    sectionTitle: `${templateConfig.fontSize} font-bold text-slate-900 uppercase tracking-wide`,
-    materialHeader: templateConfig.sectionHeaderStyle || 'flex items-center gap-1.5 border-b border-slate-100 pb-1',
-    tableText: templateConfig.fontSize,
-    footerRounding: templateConfig.borderRadius === 'rounded-none' ? '' : 'rounded-b-xl',
-    borderStyle: 'border-slate-200'
+    part_paid: 'bg-amber-100 text-amber-700',
+    paid: 'bg-emerald-500 text-white',
+    void: 'bg-slate-200 text-slate-500 line-through'
   };
 
   const CustomiseToggle = ({ label, optionKey, activeColor }: { label: string, optionKey: keyof QuoteDisplayOptions, activeColor: string }) => (
@@ -634,9 +578,66 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
     </button>
   );
 
-  const prefix = activeQuote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+  const prefix = getDocumentPrefix(activeQuote.type, settings);
   const numStr = (activeQuote.referenceNumber || 1).toString().padStart(4, '0');
   const reference = `${prefix}${numStr}`;
+  const parentReference = parentInvoice
+    ? `${getDocumentPrefix('invoice', settings)}${(parentInvoice.referenceNumber || 1).toString().padStart(4, '0')}`
+    : undefined;
+
+  const handleCreateCreditNote = async (options: CreditNoteOptions) => {
+    if (!onCreateCreditNote) return;
+    try {
+      await onCreateCreditNote(options);
+    } catch {
+      return;
+    }
+    setShowCreditNoteCreator(false);
+  };
+
+  const handleMakeRecurring = async (recurring: RecurringInvoiceInput) => {
+    if (!onMakeRecurring) return;
+    try {
+      await onMakeRecurring(recurring);
+    } catch {
+      return;
+    }
+    setShowRecurringSetup(false);
+  };
+
+  const handleShareLink = async () => {
+    if (!onShareLink) return;
+    setIsSharingLink(true);
+    try {
+      const url = getQuotePortalUrl(await onShareLink(), window.location.origin);
+      const message = `${activeQuote.title} (${reference}) from ${settings.companyName || 'us'} - view and accept online`;
+      if (navigator.share) {
+        try {
+          await navigator.share({ title: `${documentLabel} ${reference}`, text: message, url });
+          hapticSuccess();
+          return;
+        } catch (err) {
+          if ((err as Error).name === 'AbortError') return;
+        }
+      }
+      await navigator.clipboard.writeText(url);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+      hapticSuccess();
+    } catch (err) {
+      console.error('Share link failed:', err);
+      alert('Could not create the customer link. Please try again.');
+    } finally {
+      setIsSharingLink(false);
+    }
+  };
+
+  const handleVoidInvoice = async () => {
+    if (!onVoidInvoice) return;
+    if (!window.confirm(`Void ${reference}? A credit note for the full amount will be issued and the invoice can no longer be paid.`)) return;
+    await onVoidInvoice();
+    hapticSuccess();
+  };
 
   return (
     <div className="max-w-4xl mx-auto space-y-4 pb-24">
@@ -646,10 +647,13 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
           <button onClick={onBack} className="p-2 -ml-2 text-slate-400 hover:text-slate-700">
             <ArrowLeft size={20} />
           </button>
-          <h1 className="text-lg font-bold text-slate-900">{activeQuote.type === 'invoice' ? 'Invoice' : 'Quote'} Details</h1>
+          <h1 className="text-lg font-bold text-slate-900">{documentLabel} Details</h1>
         </div>
         <div className="flex gap-2">
-           <button onClick={onEdit} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100"><Edit3 size={18} /></button>
+           {/* Issued credit notes are not edited - raise another one instead */}
+           {activeQuote.type !== 'credit_note' && (
+             <button onClick={onEdit} className="p-2 bg-slate-50 text-slate-600 rounded-lg hover:bg-slate-100"><Edit3 size={18} /></button>
+           )}
            <button onClick={handleEmailShare} disabled={isDownloading} className="p-2 bg-blue-50 text-blue-600 rounded-lg hover:bg-blue-100" title="Email with PDF">
              {isDownloading ? <Loader2 size={18} className="animate-spin"/> : <Mail size={18} />}
            </button>
@@ -662,7 +666,7 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
 
       <div className="flex flex-col gap-2 print:hidden">
         {/* Status Action Buttons for Quotes */}
-        {activeQuote.type !== 'invoice' && (
+        {isQuote && (
           <div className="flex gap-2 overflow-x-auto no-scrollbar pb-2">
             {activeQuote.status === 'draft' && (
               <button
@@ -723,12 +727,23 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
                 <Copy size={14} /> Duplicate
               </button>
             )}
-            {activeQuote.type !== 'invoice' && onConvertToInvoice && ['draft', 'sent', 'accepted'].includes(activeQuote.status) && (
+            {canShareQuote(activeQuote) && onShareLink && ['draft', 'sent'].includes(activeQuote.status) && (
+              <button
+                onClick={handleShareLink}
+                disabled={isSharingLink}
+                className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-blue-50 text-blue-600 text-xs font-bold shadow-sm border border-blue-100"
+              >
+                {isSharingLink ? <Loader2 size={14} className="animate-spin" /> : linkCopied ? <Check size={14} /> : <Link2 size={14} />}
+                {linkCopied ? 'Link Copied' : 'Customer Link'}
+              </button>
+            )}
+            {/* Quotes with a payment schedule are invoiced stage by stage */}
+            {isQuote && onConvertToInvoice && !scheduleProgress && ['draft', 'sent', 'accepted'].includes(activeQuote.status) && (
               <button onClick={onConvertToInvoice} className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-emerald-50 text-emerald-600 text-xs font-bold shadow-sm border border-emerald-100">
                 <ReceiptText size={14} /> To Invoice
               </button>
             )}
-            {activeQuote.type === 'invoice' && activeQuote.status !== 'paid' && (
+            {activeQuote.type === 'invoice' && activeQuote.status !== 'paid' && activeQuote.status !== 'void' && (
               <button
                 onClick={() => setShowPaymentRecorder(true)}
                 className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-emerald-500 text-white text-xs font-bold shadow-lg shadow-emerald-500/30 hover:bg-emerald-600 transition-colors"
@@ -736,6 +751,33 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
                 <Banknote size={14} /> Record Payment
               </button>
             )}
+            {activeQuote.type === 'invoice' && onCreateCreditNote && !['draft', 'void'].includes(activeQuote.status)
+              && getCreditableAmount(totals.grandTotal, amountCredited) > 0 && (
+              <button
+                onClick={() => setShowCreditNoteCreator(true)}
+                className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-rose-50 text-rose-600 text-xs font-bold shadow-sm border border-rose-100"
+              >
+                <FileMinus size={14} /> Credit Note
+              </button>
+            )}
+            {/* Paid or credited invoices are corrected with a credit note instead */}
+            {activeQuote.type === 'invoice' && onVoidInvoice && !['draft', 'void'].includes(activeQuote.status)
+              && payments.length === 0 && amountCredited === 0 && (
+              <button
+                onClick={handleVoidInvoice}
+                className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-white border border-slate-100 text-slate-500 text-xs font-bold shadow-sm"
+              >
+                <Ban size={14} /> Void
+              </button>
+            )}
+            {activeQuote.type === 'invoice' && onMakeRecurring && activeQuote.status !== 'void' && (
+              <button
+                onClick={() => setShowRecurringSetup(true)}
+                className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-teal-50 text-teal-600 text-xs font-bold shadow-sm border border-teal-100"
+              >
+                <Repeat size={14} /> Repeat
+              </button>
+            )}
             {customer?.address && (
               <button onClick={handleOpenMaps} className="flex-shrink-0 flex items-center gap-2 px-2 py-1 rounded-lg bg-blue-50 text-blue-600 text-xs font-bold shadow-sm border border-blue-100">
                 <MapPin size={14} /> Map
@@ -743,6 +785,70 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
             )}
         </div>
 
+        {isQuote && quoteResponse && <QuoteResponseEvidence response={quoteResponse} />}
+
+        {isQuote && hasQuoteChoices(activeQuote) && ['draft', 'sent', 'accepted'].includes(activeQuote.status) && (
+          <QuoteChoicePanel
+            quote={activeQuote}
+            totals={totals}
+            onChange={(optionId, addOnIds) => onUpdateQuote(applyCustomerChoice(activeQuote, optionId, addOnIds))}
+          />
+        )}
+
+        {isQuote && scheduleProgress && (
+          <PaymentSchedulePanel
+            progress={scheduleProgress}
+            canRaiseInvoices={['accepted', 'invoiced'].includes(activeQuote.status)}
+            onRaiseInvoice={onRaiseStageInvoice}
+            onViewInvoice={onViewQuote}
+          />
+        )}
+
+        {activeQuote.type === 'invoice' && stageQuote && (
+          <button
+            onClick={() => onViewQuote?.(stageQuote.id)}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-blue-50 text-blue-700 text-xs font-bold border border-blue-100 text-left"
+          >
+            <CalendarClock size={14} /> {stageQuote.paymentSchedule?.find(m => m.id === activeQuote.milestoneId)?.label || 'Stage'} payment for {getDocumentPrefix(stageQuote.type, settings)}{(stageQuote.referenceNumber || 1).toString().padStart(4, '0')} - {stageQuote.title}
+          </button>
+        )}
+
+        {activeQuote.type === 'credit_note' && parentInvoice && (
+          <button
+            onClick={() => onViewQuote?.(parentInvoice.id)}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-rose-50 text-rose-700 text-xs font-bold border border-rose-100 text-left"
+          >
+            <FileMinus size={14} /> Credit note against invoice {parentReference} - {parentInvoice.title}
+          </button>
+        )}
+
+        {activeQuote.type === 'invoice' && recurringInvoice && (
+          <button
+            onClick={onViewRecurring}
+            className="flex items-center gap-2 px-3 py-2 rounded-xl bg-teal-50 text-teal-700 text-xs font-bold border border-teal-100 text-left"
+          >
+            <Repeat size={14} /> Generated from {formatRecurringReference(recurringInvoice.referenceNumber)} · {describeSchedule(recurringInvoice)}
+          </button>
+        )}
+
+        {activeQuote.type === 'invoice' && creditNotes.length > 0 && (
+          <div className="flex flex-col gap-1 px-3 py-2 rounded-xl bg-rose-50 border border-rose-100">
+            {activeQuote.status === 'void' && (
+              <p className="text-xs font-black text-rose-700 uppercase tracking-wider">This invoice has been voided</p>
+            )}
+            {creditNotes.map(cn => (
+              <button
+                key={cn.id}
+                onClick={() => onViewQuote?.(cn.id)}
+                className="flex justify-between text-xs font-bold text-rose-700 text-left"
+              >
+                <span>{getDocumentPrefix('credit_note', settings)}{(cn.referenceNumber || 1).toString().padStart(4, '0')} · {new Date(cn.date).toLocaleDateString('en-GB')}</span>
+                <span>-£{getDocumentHeadlineTotals(cn, settings).grandTotal.toFixed(2)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
         {showCustomiser && (
           <div className="bg-white p-5 rounded-[28px] border border-slate-200 shadow-2xl animate-in slide-in-from-top-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-5">
@@ -787,574 +893,17 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
         )}
       </div>
 
-      <div ref={documentRef} className={`bg-white ${templateStyle.container} shadow-xl border ${templateStyle.borderStyle} overflow-hidden print:border-none print:shadow-none print:rounded-none max-w-[750px] mx-auto`} style={{ width: '750px' }}>
-        {/* Use ClassicTemplate component for classic template */}
-        {activeTemplate === 'classic' ? (
-          <ClassicTemplate
-            quote={activeQuote}
-            customer={customer}
-            settings={settings}
-            totals={totals}
-            reference={reference}
-          />
-        ) : (
-          <>
-        {/* Company Header - Statement template has special Zoho-style layout */}
-        {activeTemplate === 'professional' ? (
-          /* PROFESSIONAL TEMPLATE HEADER - Matches Zoho screenshot */
-          <div className="p-4">
-            <div className="flex justify-between items-start mb-3">
-              {/* Left: Logo + Company */}
-              <div className="flex-1">
-                {displayOptions.showLogo && settings.companyLogo && (
-                  <img src={settings.companyLogo} alt={settings.companyName || 'Logo'} className="h-16 w-auto object-contain mb-2" style={{ maxWidth: '120px' }} />
-                )}
-                <h2 className="text-sm font-bold text-slate-900">{settings.companyName}</h2>
-                {settings.companyAddress && (
-                  <p className="text-[10px] text-slate-600 leading-snug whitespace-pre-line mt-0.5">{settings.companyAddress}</p>
-                )}
-                {settings.phone && <p className="text-[10px] text-slate-600 mt-0.5">{settings.phone}</p>}
-                {settings.email && <p className="text-[10px] text-slate-600">{settings.email}</p>}
-                {settings.vatNumber && <p className="text-[10px] text-slate-600">{settings.vatNumber}</p>}
-              </div>
-
-              {/* Right: INVOICE header + Balance */}
-              <div className="text-right">
-                <h1 className="text-2xl font-bold text-slate-900 mb-1">
-                  {activeQuote.type === 'invoice' ? 'INVOICE' : 'QUOTE'}
-                </h1>
-                <p className="text-[10px] text-slate-600 font-semibold">{activeQuote.type === 'invoice' ? 'Invoice' : 'Quote'}# {reference}</p>
-                <div className="mt-2">
-                  <div className="text-[10px] text-slate-600 font-semibold">Balance Due</div>
-                  <div className="text-xl font-bold text-slate-900">£{totals.grandTotal.toFixed(2)}</div>
-                </div>
-              </div>
-            </div>
-
-            {/* Bill To + Dates Row */}
-            <div className="grid grid-cols-2 gap-4 mb-3">
-              <div>
-                <div className="text-[10px] font-bold text-slate-900 mb-1">Bill To</div>
-                <p className="text-sm font-bold text-slate-900">{customer?.name}</p>
-                {customer?.company && <p className="text-[10px] text-slate-600">{customer.company}</p>}
-                {customer?.address && <p className="text-[10px] text-slate-600 leading-snug">{customer.address}</p>}
-              </div>
-              <div className="space-y-0.5">
-                <div className="flex justify-between text-[10px]">
-                  <span className="text-slate-600">Invoice Date :</span>
-                  <span className="text-slate-900 font-medium">{activeQuote?.date ? new Date(activeQuote.date).toLocaleDateString('en-GB') : ''}</span>
-                </div>
-                <div className="flex justify-between text-[10px]">
-                  <span className="text-slate-600">Terms :</span>
-                  <span className="text-slate-900 font-medium">Due on Receipt</span>
-                </div>
-                {activeQuote.dueDate && (
-                  <div className="flex justify-between text-[10px]">
-                    <span className="text-slate-600">Due Date :</span>
-                    <span className="text-slate-900 font-medium">{new Date(activeQuote.dueDate).toLocaleDateString('en-GB')}</span>
-                  </div>
-                )}
-              </div>
-            </div>
-          </div>
-        ) : (
-          /* STANDARD HEADER - All other templates */
-          <>
-            <div className={`${templateStyle.header} flex justify-between items-start`}>
-              {/* Logo & Company Info */}
-              <div className="flex items-start gap-2">
-                {displayOptions.showLogo && settings.companyLogo && (
-                  <img
-                    src={settings.companyLogo}
-                    alt={settings.companyName || 'Company Logo'}
-                    className="h-12 w-auto object-contain"
-                    style={{ maxWidth: '120px' }}
-                  />
-                )}
-                <div>
-                  <h2 className="text-lg font-bold text-slate-900">{settings.companyName}</h2>
-                  {settings.companyAddress && (
-                    <p className="text-[11px] text-slate-500 leading-tight whitespace-pre-line">{settings.companyAddress}</p>
-                  )}
-                  <div className="flex gap-2 mt-1 text-[11px] text-slate-400">
-                    {settings.phone && <span>{settings.phone}</span>}
-                    {settings.email && <span>{settings.email}</span>}
-                  </div>
-                  {settings.vatNumber && (
-                    <p className="text-[10px] text-slate-400">VAT: {settings.vatNumber}</p>
-                  )}
-                </div>
-              </div>
-
-              {/* Document Type Badge */}
-              <div className="text-right">
-                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
-                  {activeQuote.type === 'invoice' ? 'Invoice' : activeQuote.type === 'quotation' ? 'Quotation' : 'Estimate'}
-                </span>
-                <p className="text-base font-mono font-bold text-slate-900">{reference}</p>
-                <p className="text-[11px] text-slate-500">{activeQuote?.date ? new Date(activeQuote.date).toLocaleDateString('en-GB') : ''}</p>
-                {activeQuote.type === 'invoice' && activeQuote.dueDate && (
-                  <p className="text-[11px] text-amber-600 font-bold">
-                    Due: {new Date(activeQuote.dueDate).toLocaleDateString('en-GB')}
-                  </p>
-                )}
-              </div>
-            </div>
-
-            {/* Project Title Bar */}
-            <div className={templateStyle.titleBar}>
-              <h1 className={templateStyle.sectionTitle}>{activeQuote?.title || 'Proposed Works'}</h1>
-            </div>
-
-            {/* Client and Job Address Section */}
-            <div className={templateStyle.clientSection}>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                {/* To: Client Address */}
-                <div>
-                  <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 mb-0.5">
-                    <User size={9} /> To
-                  </p>
-                  <p className="text-sm font-bold text-slate-900">{customer?.name}</p>
-                  {customer?.company && <p className="text-[11px] text-slate-600">{customer.company}</p>}
-                  {customer?.address && (
-                    <p className="text-[11px] text-slate-500 leading-snug">{customer.address}</p>
-                  )}
-                </div>
-
-                {/* For: Job Address (only show if different from client) */}
-                {activeQuote.jobAddress && activeQuote.jobAddress !== customer?.address && (
-                  <div>
-                    <p className="text-[9px] font-bold text-amber-600 uppercase tracking-wider flex items-center gap-1 mb-0.5">
-                      <MapPin size={9} /> Job Site
-                    </p>
-                    <p className="text-[11px] text-slate-500 leading-snug">{activeQuote.jobAddress}</p>
-                  </div>
-                )}
-              </div>
-            </div>
-          </>
-        )}
-
-        {/* COMBINED LINE ITEMS TABLE - For templates that combine materials + labour */}
-        {templateConfig.combineLineItems ? (
-          <div className="px-4 pb-2">
-            <table className="w-full text-[10px]" style={{ borderCollapse: 'collapse' }}>
-              {templateConfig.showColumnHeaders && (
-                <thead>
-                  <tr className={tableHeaderStyle}>
-                    {templateConfig.showLineNumbers && (
-                      <th className="py-2 px-2 text-left w-10 text-[10px] font-semibold">#</th>
-                    )}
-                    <th className="py-2 px-2 text-left text-[10px] font-semibold">Item & Description</th>
-                    <th className="py-2 px-2 text-center w-16 text-[10px] font-semibold">Qty</th>
-                    {activeTemplate === 'professional' && (
-                      <th className="py-2 px-2 text-right w-24 text-[10px] font-semibold">Rate</th>
-                    )}
-                    <th className="py-2 px-2 text-right w-24 text-[10px] font-semibold">Amount</th>
-                  </tr>
-                </thead>
-              )}
-              <tbody>
-                {getAllLineItems().map((item, idx) => (
-                  item.isHeading ? (
-                    <tr key={`heading-${idx}`} className="bg-slate-50">
-                      <td colSpan={activeTemplate === 'professional' ? 5 : (templateConfig.showLineNumbers ? 4 : 3)} className="py-1 px-2">
-                        <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500">{item.description}</span>
-                      </td>
-                    </tr>
-                  ) : (
-                    <tr key={`item-${idx}`} className={templateConfig.showTableBorders ? 'border-b border-slate-100' : ''}>
-                      {templateConfig.showLineNumbers && (
-                        <td className="py-2 px-2 text-slate-600 text-[10px]">{item.lineNum}</td>
-                      )}
-                      <td className="py-2 px-2 text-[10px]">
-                        <div className="text-slate-900 font-medium">{item.name}</div>
-                        {item.subtext && <div className="text-[9px] text-slate-500 mt-0.5">{item.subtext}</div>}
-                      </td>
-                      <td className="py-2 px-2 text-slate-900 text-[10px] text-center font-medium">{item.qty}</td>
-                      {activeTemplate === 'professional' && (
-                        <td className="py-2 px-2 text-slate-900 text-[10px] text-right">{item.rate ? `${item.rate.toFixed(2)}` : '-'}</td>
-                      )}
-                      <td className="py-2 px-2 text-slate-900 text-[10px] text-right font-medium">
-                        {item.amount.toFixed(2)}
-                      </td>
-                    </tr>
-                  )
-                ))}
-              </tbody>
-            </table>
-          </div>
-        ) : (
-          /* SEPARATE SECTIONS - For templates that split materials/labour */
-          (activeQuote.sections || []).map((section, idx) => {
-          const markupMultiplier = 1 + ((activeQuote.markupPercent || 0) / 100);
-          // Filter out heading items from materials total
-          const rawMaterialsTotal = (section.items || []).filter(i => !i.isHeading).reduce((s, i) => s + (i.totalPrice || 0), 0);
-          // Use labourItems if present, otherwise fall back
-          const rawLabourTotal = getSectionLabour(section);
-          // Use subsectionPrice override if set
-          const sectionTotal = section.subsectionPrice !== undefined ? section.subsectionPrice : (rawMaterialsTotal + rawLabourTotal);
-          // Get total labour hours
-          const totalLabourHours = section.labourItems && section.labourItems.length > 0
-            ? section.labourItems.reduce((sum, item) => sum + item.hours, 0)
-            : section.labourHours || 0;
-
-          return (
-            <div key={section.id} className={`${templateStyle.sectionPadding} ${idx % 2 === 1 ? 'bg-slate-50/30' : 'bg-white'} ${templateStyle.sectionSpacing}`}>
-              <div className="flex items-center gap-2.5">
-                 <span className={`${templateStyle.tableText} font-bold text-slate-400`}>{idx + 1}.</span>
-                 <h4 className={templateStyle.sectionTitle}>{section.title}</h4>
-              </div>
-
-              {/* Materials Block */}
-              {displayOptions.showMaterials && (rawMaterialsTotal > 0 || (section.items || []).length > 0) && (
-                <div className="space-y-1">
-                  {templateConfig.showSectionHeaders && (
-                    <div className={templateStyle.materialHeader}>
-                      {templateConfig.showIcons && <Package size={12} className="text-amber-500" />}
-                      <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider">Materials</span>
-                    </div>
-                  )}
-
-                  {displayOptions.showMaterialItems && (section.items || []).length > 0 && (
-                    <div className="w-full">
-                      {/* Desktop Table */}
-                      <table className={`hidden md:table w-full text-left ${activeTemplate === 'minimal' ? 'border border-slate-300' : ''}`} style={{ borderCollapse: 'collapse' }}>
-                        <thead>
-                          <tr className={activeTemplate === 'minimal' ? 'border-b-2 border-slate-300 bg-slate-50' : 'border-b border-slate-100'}>
-                            <th className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-[9px] font-bold ${activeTemplate === 'minimal' ? 'text-slate-700' : 'text-slate-400'} uppercase tracking-wider ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`} style={{ lineHeight: '1.6' }}>Item & Description</th>
-                            {displayOptions.showMaterialQty && <th className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-[9px] font-bold ${activeTemplate === 'minimal' ? 'text-slate-700' : 'text-slate-400'} uppercase tracking-wider text-center w-20 ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`} style={{ lineHeight: '1.6' }}>Qty</th>}
-                            {displayOptions.showMaterialUnitPrice && <th className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-[9px] font-bold ${activeTemplate === 'minimal' ? 'text-slate-700' : 'text-slate-400'} uppercase tracking-wider text-right w-24 ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`} style={{ lineHeight: '1.6' }}>Rate</th>}
-                            {displayOptions.showMaterialLineTotals && <th className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-[9px] font-bold ${activeTemplate === 'minimal' ? 'text-slate-700' : 'text-slate-400'} uppercase tracking-wider text-right w-24`} style={{ lineHeight: '1.6' }}>Amount</th>}
-                          </tr>
-                        </thead>
-                        <tbody className={activeTemplate === 'minimal' ? '' : 'divide-y divide-slate-50'}>
-                          {(section.items || []).map(item => (
-                            item.isHeading ? (
-                              // Heading row
-                              <tr key={item.id} className={`bg-slate-50 ${activeTemplate === 'minimal' ? 'border-b border-slate-300' : ''}`}>
-                                <td colSpan={4} className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`}>
-                                  <div className="flex items-center gap-1">
-                                    <Type size={10} className="text-slate-400" />
-                                    <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500">{item.name || 'Section'}</span>
-                                  </div>
-                                </td>
-                              </tr>
-                            ) : (
-                              <tr key={item.id} className={activeTemplate === 'minimal' ? 'border-b border-slate-300' : ''}>
-                                <td className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`} style={{ lineHeight: '1.5' }}><p className={`${activeTemplate === 'minimal' ? 'text-[10px]' : 'text-[11px]'} font-medium text-slate-900`} style={{ lineHeight: '1.5' }}>{[item.name, item.description].filter(Boolean).join(' ')}</p></td>
-                                {displayOptions.showMaterialQty && <td className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-center ${activeTemplate === 'minimal' ? 'border-r border-slate-300' : ''}`} style={{ lineHeight: '1.5' }}><span className="text-[10px] font-medium text-slate-700" style={{ lineHeight: '1.5' }}>{item.quantity} {item.unit}</span></td>}
-                                {displayOptions.showMaterialUnitPrice && <td className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-right text-[10px] font-medium ${activeTemplate === 'minimal' ? 'text-slate-700 border-r border-slate-300' : 'text-slate-600'}`} style={{ lineHeight: '1.5' }}>£{(item.unitPrice * markupMultiplier).toFixed(2)}</td>}
-                                {displayOptions.showMaterialLineTotals && <td className={`${activeTemplate === 'minimal' ? 'py-1 px-2' : 'py-1 px-2'} text-right text-[10px] font-bold ${activeTemplate === 'minimal' ? 'text-slate-900' : 'text-slate-900'}`} style={{ lineHeight: '1.5' }}>£{(item.totalPrice * markupMultiplier).toFixed(2)}</td>}
-                              </tr>
-                            )
-                          ))}
-                        </tbody>
-                      </table>
-
-                      {/* Mobile List View - Ultra Clean */}
-                      <div className="md:hidden">
-                        {(section.items || []).map(item => (
-                          item.isHeading ? (
-                            // Heading row for mobile
-                            <div key={item.id} className="py-1 px-2 bg-slate-50 rounded my-0.5 flex items-center gap-1">
-                              <Type size={10} className="text-slate-400" />
-                              <span className="text-[9px] font-bold uppercase tracking-wider text-slate-500">{item.name || 'Section'}</span>
-                            </div>
-                          ) : (
-                            <div key={item.id} className="py-1 border-b border-slate-50 last:border-0 flex justify-between items-start gap-2">
-                              <div className="flex-1 min-w-0">
-                                <div className="flex items-center gap-1.5">
-                                  {displayOptions.showMaterialQty && <span className="text-[9px] font-medium text-slate-500 bg-slate-100 px-1 rounded">{item.quantity}{item.unit}</span>}
-                                  <span className="font-medium text-slate-900 text-[11px]">{[item.name, item.description].filter(Boolean).join(' ')}</span>
-                                </div>
-                              </div>
-                              <div className="text-right whitespace-nowrap">
-                                {displayOptions.showMaterialLineTotals && <p className="text-[11px] font-bold text-slate-900">£{(item.totalPrice * markupMultiplier).toFixed(2)}</p>}
-                              </div>
-                            </div>
-                          )
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {displayOptions.showMaterialSectionTotal && (
-                    <div className={`flex justify-between items-center py-1 ${templateConfig.showBackgrounds ? 'bg-slate-50 px-2 rounded-lg border border-slate-100/50' : 'border-t border-slate-100 px-1'}`}>
-                      <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider">Materials Total</span>
-                      <span className="font-bold text-[11px] text-slate-900">£{(rawMaterialsTotal * markupMultiplier).toFixed(2)}</span>
-                    </div>
-                  )}
-                </div>
-              )}
-
-              {/* Labour Block - Now with itemized support */}
-              {displayOptions.showLabour && rawLabourTotal > 0 && (
-                <div className="space-y-1">
-                  {templateConfig.showSectionHeaders && (
-                    <div className="flex items-center gap-1.5 border-b border-slate-100 pb-1">
-                      {templateConfig.showIcons && <HardHat size={12} className="text-blue-500" />}
-                      <span className="text-[9px] font-bold text-slate-500 uppercase tracking-wider">Labour & Site Support</span>
-                    </div>
-                  )}
-
-                  {displayOptions.showLabourItems && (
-                    <div className="space-y-1.5">
-                      {/* Itemized Labour List */}
-                      {section.labourItems && section.labourItems.length > 0 ? (
-                        <>
-                          {section.labourItems.map((labourItem) => {
-                            const rate = labourItem.rate || section.labourRate || activeQuote.labourRate || settings.defaultLabourRate;
-                            const itemTotal = labourItem.hours * rate;
-                            return (
-                              <div key={labourItem.id} className={`py-1 px-2 ${templateConfig.showBackgrounds ? 'bg-blue-50/40 rounded-lg border border-blue-100/30' : 'border-b border-slate-100'} flex justify-between items-center`}>
-                                <div className="flex-1">
-                                  <p className="text-[11px] font-medium text-slate-900">{labourItem.description || 'Labour'}</p>
-                                  {(displayOptions.showLabourQty || displayOptions.showLabourUnitPrice) && (
-                                    <span className="text-[9px] font-medium text-slate-500">
-                                      {displayOptions.showLabourQty ? `${labourItem.hours} hrs` : ''}
-                                      {displayOptions.showLabourQty && displayOptions.showLabourUnitPrice ? ' @ ' : ''}
-                                      {displayOptions.showLabourUnitPrice ? `£${(rate * markupMultiplier).toFixed(2)}/hr` : ''}
-                                    </span>
-                                  )}
-                                </div>
-                                {displayOptions.showLabourLineTotals && (
-                                  <p className="text-[11px] font-bold text-blue-600">£{(itemTotal * markupMultiplier).toFixed(2)}</p>
-                                )}
-                              </div>
-                            );
-                          })}
-                        </>
-                      ) : (
-                        // Fallback to old-style single labour block
-                        <div className={`py-1 px-2 ${templateConfig.showBackgrounds ? 'bg-blue-50/40 rounded-lg border border-blue-100/30' : 'border-b border-slate-100'} flex justify-between items-center`}>
-                          <div className="flex-1">
-                            <p className="text-[11px] font-medium text-slate-900">Technical Personnel & Site Resource</p>
-                            {totalLabourHours > 0 && (displayOptions.showLabourQty || displayOptions.showLabourUnitPrice) && (
-                              <p className="text-[9px] font-medium text-slate-500">
-                                {displayOptions.showLabourQty ? `${totalLabourHours} hrs` : ''}
-                                {displayOptions.showLabourQty && displayOptions.showLabourUnitPrice ? ' @ ' : ''}
-                                {displayOptions.showLabourUnitPrice ? `£${((activeQuote.labourRate || settings.defaultLabourRate) * markupMultiplier).toFixed(2)}/hr` : ''}
-                              </p>
-                            )}
-                          </div>
-                          {displayOptions.showLabourSectionTotal && (
-                            <p className="text-[11px] font-bold text-blue-600">£{(rawLabourTotal * markupMultiplier).toFixed(2)}</p>
-                          )}
-                        </div>
-                      )}
-                    </div>
-                  )}
-
-                  {displayOptions.showLabourSectionTotal && (
-                    <div className={`flex justify-between items-center py-1 ${templateConfig.showBackgrounds ? 'bg-blue-50/50 px-2 rounded-lg border border-blue-100/50' : 'border-t border-slate-100 px-1'}`}>
-                      <span className="text-[9px] font-bold text-blue-500 uppercase tracking-wider">
-                        Labour Total {totalLabourHours > 0 && `(${totalLabourHours} hrs)`}
-                      </span>
-                      <span className="font-bold text-[11px] text-blue-600">£{(rawLabourTotal * markupMultiplier).toFixed(2)}</span>
-                    </div>
-                  )}
-                </div>
-              )}
-
-              <div className="flex justify-between items-center pt-2 border-t border-slate-100">
-                <span className="text-[8px] font-medium text-slate-400 uppercase tracking-wider">Section {idx + 1}</span>
-                <p className="text-[10px] font-bold text-slate-600">Section Total: <span className="text-slate-900 ml-1">£{(sectionTotal * markupMultiplier).toFixed(2)}</span></p>
-              </div>
-            </div>
-          );
-        })
-        )}
-
-        {/* TOTALS SECTION - Statement template has special compact right-aligned layout */}
-        {activeTemplate === 'professional' ? (
-          /* PROFESSIONAL TEMPLATE TOTALS - Zoho-style right-aligned */
-          <div className="px-2 py-1">
-            <div className="flex justify-end">
-              <div className="w-48">
-                <div className="flex justify-between py-1 border-b border-slate-100 text-[10px]">
-                  <span className="text-slate-500">Sub Total</span>
-                  <span className="text-slate-900">£{totals.clientSubtotal.toFixed(2)}</span>
-                </div>
-                {totals.discountAmount > 0 && (
-                  <div className="flex justify-between py-1 border-b border-slate-100 text-[10px]">
-                    <span className="text-slate-500">Discount</span>
-                    <span className="text-slate-900">-£{totals.discountAmount.toFixed(2)}</span>
-                  </div>
-                )}
-                {settings.enableVat && displayOptions.showVat && totals.taxAmount > 0 && (
-                  <div className="flex justify-between py-1 border-b border-slate-100 text-[10px]">
-                    <span className="text-slate-500">VAT ({activeQuote.taxPercent}%)</span>
-                    <span className="text-slate-900">£{totals.taxAmount.toFixed(2)}</span>
-                  </div>
-                )}
-                {settings.enableCis && displayOptions.showCis && totals.cisAmount > 0 && (
-                  <div className="flex justify-between py-1 border-b border-slate-100 text-[10px]">
-                    <span className="text-slate-500">CIS Deduction</span>
-                    <span className="text-slate-900">-£{totals.cisAmount.toFixed(2)}</span>
-                  </div>
-                )}
-                <div className="flex justify-between py-1 font-bold bg-slate-100 px-2 -mx-2 mt-1 rounded text-[11px]">
-                  <span>Balance Due</span>
-                  <span>£{totals.grandTotal.toFixed(2)}</span>
-                </div>
-              </div>
-            </div>
-
-            {/* Part Payment - compact version */}
-            {activeQuote.type === 'invoice' && activeQuote.partPaymentEnabled && activeQuote.partPaymentValue && (
-              <div className="flex justify-end mt-2">
-                <div className="bg-teal-50 border border-teal-200 p-2 rounded-lg w-48">
-                  <div className="flex justify-between text-[10px]">
-                    <span className="text-teal-700">{activeQuote.partPaymentLabel || 'Due Now'}</span>
-                    <span className="font-bold text-teal-700">£{partPaymentAmount.toFixed(2)}</span>
-                  </div>
-                  <div className="flex justify-between text-[9px] mt-1">
-                    <span className="text-slate-500">Remaining</span>
-                    <span className="text-slate-700">£{(totals.grandTotal - partPaymentAmount).toFixed(2)}</span>
-                  </div>
-                </div>
-              </div>
-            )}
-          </div>
-        ) : (
-          /* STANDARD TOTALS - All other templates */
-          <div className={`${activeTemplate === 'minimal' ? 'bg-white border-t-2 border-slate-300 text-slate-900' : currentThemeClass} px-2 py-1 ${templateStyle.footerRounding} ${activeTemplate === 'minimal' ? '' : 'shadow-sm'}`}>
-            <div className="flex flex-col gap-2">
-              <div className="space-y-1">
-                {displayOptions.showTotalsBreakdown && (
-                  <>
-                    <div className={`flex justify-between text-[10px] ${activeTemplate === 'minimal' ? 'text-slate-700 font-medium' : 'opacity-70'}`}><span>Sub Total</span><span className={activeTemplate === 'minimal' ? '' : 'opacity-90'}>£{totals.clientSubtotal.toFixed(2)}</span></div>
-                    {totals.discountAmount > 0 && (
-                      <div className={`flex justify-between text-[10px] ${activeTemplate === 'minimal' ? 'text-slate-700 font-medium' : ''}`}>
-                        <span className={`flex items-center gap-1 ${activeTemplate === 'minimal' ? '' : 'opacity-70'}`}>
-                          <Tag size={9} />
-                          Discount
-                          {activeQuote.discountDescription && <span className={activeTemplate === 'minimal' ? 'text-slate-500 ml-1' : 'opacity-50 ml-1'}>({activeQuote.discountDescription})</span>}
-                          {activeQuote.discountType === 'percentage' && <span className={activeTemplate === 'minimal' ? 'text-slate-500 ml-1' : 'opacity-50 ml-1'}>({activeQuote.discountValue}%)</span>}
-                        </span>
-                        <span className="font-semibold">-£{totals.discountAmount.toFixed(2)}</span>
-                      </div>
-                    )}
-                    {settings.enableVat && displayOptions.showVat && (
-                      <div className={`flex justify-between text-[10px] ${activeTemplate === 'minimal' ? 'text-slate-700 font-medium' : 'opacity-70'}`}><span>VAT ({activeQuote.taxPercent}%)</span><span className={activeTemplate === 'minimal' ? '' : 'opacity-90'}>£{totals.taxAmount.toFixed(2)}</span></div>
-                    )}
-                    {settings.enableCis && displayOptions.showCis && totals.cisAmount > 0 && (
-                      <div className={`flex justify-between text-[10px] ${activeTemplate === 'minimal' ? 'text-slate-700 font-medium' : 'opacity-70'}`}><span>CIS Deduction ({activeQuote.cisPercent}%)</span><span className={activeTemplate === 'minimal' ? '' : 'opacity-90'}>-£{totals.cisAmount.toFixed(2)}</span></div>
-                    )}
-                  </>
-                )}
-                <div className={`h-px ${activeTemplate === 'minimal' ? 'bg-slate-300' : 'bg-current opacity-20'} my-1`}></div>
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center gap-2">
-                    {activeTemplate !== 'minimal' && <div className="w-1 h-1 rounded-full bg-current opacity-60"></div>}
-                    <span className={`font-bold ${activeTemplate === 'minimal' ? 'text-sm' : 'text-[10px] opacity-80'} uppercase tracking-wider`}>{activeQuote.type === 'invoice' ? 'Balance Due' : 'Total Due'}</span>
-                  </div>
-                  <span className={`${activeTemplate === 'minimal' ? 'text-2xl' : 'text-xl'} font-black`}>£{totals.grandTotal.toFixed(2)}</span>
-                </div>
-
-                {/* Part Payment Highlight Box */}
-                {activeQuote.type === 'invoice' && activeQuote.partPaymentEnabled && activeQuote.partPaymentValue && (
-                  <div className="bg-white border border-teal-200 p-2 rounded-xl mt-2 shadow-sm">
-                    <div className="flex justify-between items-center">
-                      <div>
-                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-0.5">
-                          {activeQuote.partPaymentLabel || 'Amount Due Now'}
-                        </p>
-                        <p className="text-lg font-black text-teal-600">
-                          £{partPaymentAmount.toFixed(2)}
-                        </p>
-                        {activeQuote.partPaymentType === 'percentage' && (
-                          <p className="text-[9px] font-bold text-slate-400">
-                            ({activeQuote.partPaymentValue}% of £{totals.grandTotal.toFixed(2)})
-                          </p>
-                        )}
-                      </div>
-                      <div className="text-right">
-                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Balance</p>
-                        <p className="text-base font-black text-slate-700">
-                          £{(totals.grandTotal - partPaymentAmount).toFixed(2)}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-
-              {/* Bank Details Section - Only for invoices */}
-              {activeQuote.type === 'invoice' && (
-                settings.bankAccountName || settings.bankAccountNumber || settings.bankSortCode || settings.bankName
-              ) && (
-                <div className="mt-4 pt-4 border-t border-slate-200">
-                  <div className="bg-gradient-to-r from-emerald-50 to-teal-50 border border-emerald-200 rounded-xl p-2">
-                    <div className="flex items-center gap-2 mb-2">
-                      <Landmark size={14} className="text-emerald-600" />
-                      <h4 className="text-[10px] font-black text-emerald-900 uppercase tracking-widest">Payment Details</h4>
-                    </div>
-                    <div className="grid grid-cols-2 gap-x-4 gap-y-1">
-                      {settings.bankAccountName && (
-                        <div>
-                          <p className="text-[8px] font-bold text-emerald-700 uppercase">Account Name</p>
-                          <p className="text-[10px] font-bold text-slate-900">{settings.bankAccountName}</p>
-                        </div>
-                      )}
-                      {settings.bankName && (
-                        <div>
-                          <p className="text-[8px] font-bold text-emerald-700 uppercase">Bank</p>
-                          <p className="text-[10px] font-bold text-slate-900">{settings.bankName}</p>
-                        </div>
-                      )}
-                      {settings.bankAccountNumber && (
-                        <div>
-                          <p className="text-[8px] font-bold text-emerald-700 uppercase">Account Number</p>
-                          <p className="text-[10px] font-bold text-slate-900">{settings.bankAccountNumber}</p>
-                        </div>
-                      )}
-                      {settings.bankSortCode && (
-                        <div>
-                          <p className="text-[8px] font-bold text-emerald-700 uppercase">Sort Code</p>
-                          <p className="text-[10px] font-bold text-slate-900">{settings.bankSortCode}</p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {displayOptions.showNotes && activeQuote?.notes && (
-                  <div className="text-[8px] leading-snug opacity-60 mt-2">
-                    {activeQuote.notes}
-                  </div>
-              )}
-            </div>
-          </div>
-        )}
-
-        {/* Notes section for Professional Template */}
-        {activeTemplate === 'professional' && (displayOptions.showNotes || (settings.bankAccountName || settings.bankAccountNumber || settings.bankSortCode || settings.bankName)) && (
-          <div className="px-4 py-3 border-t border-slate-200">
-            <div className="text-[10px] font-bold text-slate-900 mb-2">Notes</div>
-            {(settings.bankAccountName || settings.bankAccountNumber || settings.bankSortCode || settings.bankName) && activeQuote.type === 'invoice' && (
-              <div className="mb-2">
-                <div className="text-[10px] text-slate-900">Payment Details:</div>
-                <div className="text-[10px] text-slate-600 space-y-0.5 mt-1">
-                  {settings.bankAccountName && <div>Mr {settings.bankAccountName}</div>}
-                  {settings.bankAccountNumber && <div>{settings.bankAccountNumber}</div>}
-                  {settings.bankSortCode && <div>{settings.bankSortCode}</div>}
-                  {settings.bankName && <div>{settings.bankName}</div>}
-                </div>
-              </div>
-            )}
-            {displayOptions.showNotes && activeQuote?.notes && (
-              <div className="text-[10px] text-slate-600 leading-relaxed">
-                {activeQuote.notes}
-              </div>
-            )}
-          </div>
-        )}
-          </>
-        )}
-      </div>
+      <QuoteDocument
+        documentRef={documentRef}
+        quote={activeQuote}
+        customer={customer}
+        settings={settings}
+        totals={totals}
+        reference={reference}
+        parentReference={parentReference}
+        payments={payments}
+        amountCredited={amountCredited}
+      />
       <div className="flex justify-center pt-4 print:hidden">
         <div className={`px-6 py-1 rounded-full text-[10px] font-black uppercase tracking-widest shadow-sm flex items-center gap-2.5 ${statusColors[activeQuote.status || 'draft']}`}>Status: {activeQuote.status || 'draft'}</div>
       </div>
@@ -1364,11 +913,36 @@ ${settings?.companyName || ''}${settings?.phone ? `\n${settings.phone}` : ''}${s
         <PaymentRecorder
           invoice={activeQuote}
           invoiceTotal={totals.grandTotal}
+          cisAmount={totals.cisAmount}
+          amountCredited={amountCredited}
+          payments={payments}
           onRecordPayment={handleRecordPayment}
+          onDeletePayment={onDeletePayment}
           onClose={() => setShowPaymentRecorder(false)}
         />
       )}
 
+      {/* Credit Note Modal */}
+      {showCreditNoteCreator && activeQuote.type === 'invoice' && (
+        <CreditNoteCreator
+          invoice={activeQuote}
+          invoiceTotal={totals.grandTotal}
+          amountCredited={amountCredited}
+          settings={settings}
+          onCreate={handleCreateCreditNote}
+          onClose={() => setShowCreditNoteCreator(false)}
+        />
+      )}
+
+      {/* Recurring Invoice Modal */}
+      {showRecurringSetup && activeQuote.type === 'invoice' && (
+        <RecurringInvoiceSetup
+          sourceQuote={activeQuote}
+          onSave={handleMakeRecurring}
+          onClose={() => setShowRecurringSetup(false)}
+        />
+      )}
+
       {/* Email Helper Modal */}
       {emailHelper?.show && (
         <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-2">
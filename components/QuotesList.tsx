@@ -8,6 +8,7 @@ import { useSubscription } from '../src/hooks/useFeatureAccess';
 import { UpgradePrompt } from './UpgradePrompt';
 import { useData } from '../src/contexts/DataContext';
 import { PageHeader } from './common/PageHeader';
+import { calculateDocumentTotal } from '../src/utils/quoteCalculations';
 
 interface QuotesListProps {
   quotes: Quote[];
@@ -54,19 +55,7 @@ export const QuotesList: React.FC<QuotesListProps> = ({
     }
   };
 
-  const calculateQuoteTotal = (quote: Quote) => {
-    // Fix: Aggregate totals from all sections instead of accessing items directly on the quote
-    const sections = quote.sections || [];
-    const materialsTotal = sections.reduce((sum, section) => 
-      sum + (section.items || []).reduce((itemSum, item) => itemSum + (item.totalPrice || 0), 0), 0);
-    const labourHoursTotal = sections.reduce((sum, section) => sum + (section.labourHours || 0), 0);
-    const labourTotal = labourHoursTotal * (quote.labourRate || 0);
-    
-    const subtotal = materialsTotal + labourTotal;
-    const markup = subtotal * (quote.markupPercent / 100);
-    const tax = (subtotal + markup) * (quote.taxPercent / 100);
-    return subtotal + markup + tax;
-  };
+  const calculateQuoteTotal = (quote: Quote): number => calculateDocumentTotal(quote, settings);
 
   // Filter by tab status first
   const filterByTab = (quote: Quote): boolean => {
@@ -3,9 +3,24 @@ import {
   Link2, Check, X, AlertCircle, Loader2, Search,
   Calendar, PoundSterling, ArrowRight, Sparkles,
   CheckCircle, Building2, Filter, RefreshCw, Plus,
-  Unlink, ChevronDown, ChevronUp, Square, CheckSquare, ArrowLeft
+  Unlink, ChevronDown, ChevronUp, Square, CheckSquare, ArrowLeft,
+  ListChecks, Trash2, ArrowLeftRight, Landmark
 } from 'lucide-react';
-import { bankTransactionsService, expensesService, quotesService, reconciliationService } from '../src/services/dataService';
+import {
+  bankTransactionsService, expensesService, quotesService, reconciliationService,
+  invoicePaymentsService, reconciliationRulesService, customersService, bankAccountsService
+} from '../src/services/dataService';
+import { useData } from '../src/contexts/DataContext';
+import { getRowTotals } from '../src/utils/quoteCalculations';
+import {
+  suggestMatches, getDescriptionKey, normaliseRulePattern,
+  type MatchRule, type MatchSuggestion
+} from '../src/utils/reconciliationMatching';
+import {
+  findTransferPairs, formatAccountLabel, summariseAccounts,
+  type AccountRow
+} from '../src/utils/bankAccounts';
+import { BankRuleExpenses } from './BankRuleExpenses';
 
 interface BankTransaction {
   id: string;
@@ -16,12 +31,15 @@ interface BankTransaction {
   is_reconciled: boolean;
   reconciled_expense_id?: string;
   reconciled_invoice_id?: string;
+  bank_account_id?: string | null;
+  transfer_transaction_id?: string | null;
 }
 
 interface Expense {
   id: string;
   vendor: string;
   amount: number;
+  vat_amount?: number | null;
   expense_date: string;
   is_reconciled: boolean;
   category: string;
@@ -31,18 +49,38 @@ interface Expense {
 interface Invoice {
   id: string;
   reference_number: number;
+  customer_id: string | null;
+  customer?: { id: string; name: string } | null;
+  date: string;
   total: number;
+  amount_paid: number;
   updated_at: string;
   status: string;
   type: string;
 }
 
-interface SuggestedMatch {
+interface InvoicePaymentRow {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  payment_date: string;
+  bank_transaction_id: string | null;
+}
+
+interface SuggestedMatch extends MatchSuggestion {
   transaction: BankTransaction;
-  expense?: Expense;
-  invoice?: Invoice;
-  confidence: 'high' | 'medium' | 'low';
-  reason: string;
+  expenses: Expense[];
+  invoices: Invoice[];
+}
+
+interface ReconciliationRule {
+  id: string;
+  pattern: string;
+  match_type: string;
+  vendor_name: string | null;
+  customer_id: string | null;
+  is_learned: boolean;
+  times_used: number;
 }
 
 interface ReconciliationPageProps {
@@ -50,11 +88,17 @@ interface ReconciliationPageProps {
 }
 
 export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }) => {
+  const { settings } = useData();
   const [transactions, setTransactions] = useState<BankTransaction[]>([]);
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [unmatchedPayments, setUnmatchedPayments] = useState<InvoicePaymentRow[]>([]);
+  const [rules, setRules] = useState<ReconciliationRule[]>([]);
+  const [customers, setCustomers] = useState<{ id: string; name: string }[]>([]);
+  const [accounts, setAccounts] = useState<AccountRow[]>([]);
+  // 'all', an account id, or 'unassigned' for lines imported before accounts
+  const [accountFilter, setAccountFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
-  const [suggestions, setSuggestions] = useState<SuggestedMatch[]>([]);
   const [processing, setProcessing] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'unreconciled' | 'reconciled'>('unreconciled');
   const [searchTerm, setSearchTerm] = useState('');
@@ -65,6 +109,11 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
   const [selectedExpenseIds, setSelectedExpenseIds] = useState<Set<string>>(new Set());
   const [selectedInvoiceIds, setSelectedInvoiceIds] = useState<Set<string>>(new Set());
 
+  // Match rules modal state
+  const [rulesOpen, setRulesOpen] = useState(false);
+  const [newRule, setNewRule] = useState({ pattern: '', matchType: 'expense' as 'expense' | 'invoice', vendorName: '', customerId: '' });
+  const [ruleError, setRuleError] = useState<string | null>(null);
+
   useEffect(() => {
     loadData();
   }, []);
@@ -72,14 +121,24 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
   const loadData = async () => {
     setLoading(true);
     try {
-      const [txData, expData, quoteData] = await Promise.all([
+      const [txData, expData, quoteData, paymentData, ruleData, customerData, accountData] = await Promise.all([
         bankTransactionsService.getAll(),
         expensesService.getAll(),
         quotesService.getAll(),
+        invoicePaymentsService.getUnreconciled(),
+        reconciliationRulesService.getAll(),
+        customersService.getAll(),
+        bankAccountsService.getAll(),
       ]);
       setTransactions(txData || []);
       setExpenses(expData || []);
-      setInvoices((quoteData || []).filter((q: any) => q.type === 'invoice' && q.status === 'paid'));
+      setInvoices((quoteData || [])
+        .filter((q: any) => q.type === 'invoice' && !['draft', 'void', 'declined'].includes(q.status))
+        .map((q: any) => ({ ...q, amount_paid: Number(q.amount_paid) || 0, ...getRowTotals(q, settings) })));
+      setUnmatchedPayments((paymentData || []).map((p: any) => ({ ...p, amount: Number(p.amount) })));
+      setRules(ruleData || []);
+      setCustomers(customerData || []);
+      setAccounts((accountData || []).filter(a => !a.is_archived).map(a => ({ ...a, opening_balance: Number(a.opening_balance) || 0 })));
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -87,91 +146,94 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
     }
   };
 
-  // Auto-match logic
-  useEffect(() => {
-    if (transactions.length === 0) return;
-
-    const unreconciledTx = transactions.filter(tx => !tx.is_reconciled);
-    const unreconciledExp = expenses.filter(exp => !exp.is_reconciled);
-
-    const matches: SuggestedMatch[] = [];
-
-    unreconciledTx.forEach(tx => {
-      if (tx.amount < 0) {
-        const txAmount = Math.abs(tx.amount);
-        const txDate = new Date(tx.transaction_date);
-
-        // Find expenses with matching amount
-        const matchingExpenses = unreconciledExp.filter(exp => {
-          const expAmount = exp.amount;
-          const expDate = new Date(exp.expense_date);
-          const daysDiff = Math.abs((txDate.getTime() - expDate.getTime()) / (1000 * 60 * 60 * 24));
-
-          if (Math.abs(txAmount - expAmount) < 0.01 && daysDiff <= 7) {
-            return true;
-          }
-          const amountWithVat = expAmount * 1.2;
-          if (Math.abs(txAmount - amountWithVat) < 0.01 && daysDiff <= 7) {
-            return true;
-          }
-          return false;
-        });
-
-        if (matchingExpenses.length > 0) {
-          const bestMatch = matchingExpenses[0];
-          const daysDiff = Math.abs(
-            (txDate.getTime() - new Date(bestMatch.expense_date).getTime()) / (1000 * 60 * 60 * 24)
-          );
-          const exactAmount = Math.abs(txAmount - bestMatch.amount) < 0.01;
-
-          matches.push({
-            transaction: tx,
-            expense: bestMatch,
-            confidence: exactAmount && daysDiff <= 2 ? 'high' : daysDiff <= 5 ? 'medium' : 'low',
-            reason: exactAmount
-              ? `Exact amount match (£${txAmount.toFixed(2)}), ${daysDiff.toFixed(0)} days apart`
-              : `Amount with VAT match, ${daysDiff.toFixed(0)} days apart`,
-          });
-        }
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, formatAccountLabel(a)])), [accounts]);
+  const accountSummaries = useMemo(() => summariseAccounts(accounts, transactions), [accounts, transactions]);
+
+  // Transfers are looked for across every account, whichever one is shown
+  const transferPairs = useMemo(() => findTransferPairs(transactions, accounts), [transactions, accounts]);
+  const pairedIds = useMemo(() => new Set(transferPairs.flatMap(pair => [pair.outId, pair.inId])), [transferPairs]);
+
+  const accountTransactions = useMemo(() => {
+    if (accountFilter === 'all') return transactions;
+    if (accountFilter === 'unassigned') return transactions.filter(tx => !tx.bank_account_id || !accountNames.has(tx.bank_account_id));
+    return transactions.filter(tx => tx.bank_account_id === accountFilter);
+  }, [transactions, accountFilter, accountNames]);
+
+  // Score every unreconciled line against outstanding expenses and invoices
+  const suggestions = useMemo((): SuggestedMatch[] => {
+    const unreconciledTx = accountTransactions.filter(tx => !tx.is_reconciled && !pairedIds.has(tx.id));
+    if (unreconciledTx.length === 0) return [];
+
+    const matches = suggestMatches(
+      unreconciledTx.map(tx => ({ id: tx.id, date: tx.transaction_date, description: tx.description, amount: tx.amount })),
+      {
+        expenses: expenses
+          .filter(exp => !exp.is_reconciled)
+          .map(exp => ({ id: exp.id, vendor: exp.vendor, amount: exp.amount, vatAmount: exp.vat_amount || 0, date: exp.expense_date })),
+        invoices: invoices.map(inv => ({
+          id: inv.id,
+          referenceNumber: inv.reference_number,
+          customerId: inv.customer_id,
+          customerName: inv.customer?.name || '',
+          total: inv.total,
+          balanceDue: Math.max(0, Math.round((inv.total - inv.amount_paid) * 100) / 100),
+          date: inv.date,
+        })),
+        payments: unmatchedPayments.map(p => ({ id: p.id, invoiceId: p.invoice_id, amount: p.amount, date: p.payment_date })),
+        rules: rules.map((rule): MatchRule => ({
+          id: rule.id,
+          pattern: rule.pattern,
+          matchType: rule.match_type === 'invoice' ? 'invoice' : 'expense',
+          vendorName: rule.vendor_name,
+          customerId: rule.customer_id,
+        })),
       }
+    );
 
-      if (tx.amount > 0) {
-        const txAmount = tx.amount;
-        const txDate = new Date(tx.transaction_date);
-
-        const matchingInvoices = invoices.filter(inv => {
-          const invAmount = inv.total;
-          const invDate = new Date(inv.updated_at);
-          const daysDiff = Math.abs((txDate.getTime() - invDate.getTime()) / (1000 * 60 * 60 * 24));
-
-          return Math.abs(txAmount - invAmount) < 0.01 && daysDiff <= 30;
-        });
-
-        if (matchingInvoices.length > 0) {
-          const bestMatch = matchingInvoices[0];
-          const daysDiff = Math.abs(
-            (txDate.getTime() - new Date(bestMatch.updated_at).getTime()) / (1000 * 60 * 60 * 24)
-          );
-
-          matches.push({
-            transaction: tx,
-            invoice: bestMatch,
-            confidence: daysDiff <= 7 ? 'high' : daysDiff <= 14 ? 'medium' : 'low',
-            reason: `Invoice #${bestMatch.reference_number} (£${bestMatch.total.toFixed(2)}), ${daysDiff.toFixed(0)} days apart`,
-          });
-        }
-      }
-    });
+    return matches.map(match => ({
+      ...match,
+      transaction: unreconciledTx.find(tx => tx.id === match.transactionId)!,
+      expenses: expenses.filter(exp => match.expenseIds.includes(exp.id)),
+      invoices: invoices.filter(inv => match.invoiceIds.includes(inv.id)),
+    }));
+  }, [accountTransactions, pairedIds, expenses, invoices, unmatchedPayments, rules]);
 
-    setSuggestions(matches);
-  }, [transactions, expenses, invoices]);
+  // Remember who this bank description belongs to for next time
+  const learnRule = async (description: string, matchType: 'expense' | 'invoice', target: { vendor_name?: string; customer_id?: string }) => {
+    try {
+      await reconciliationRulesService.recordMatch(getDescriptionKey(description), matchType, target);
+    } catch (error) {
+      console.error('Failed to save match rule:', error);
+    }
+  };
 
   const handleAcceptMatch = async (suggestion: SuggestedMatch) => {
     setProcessing(suggestion.transaction.id);
     try {
-      const expenseIds = suggestion.expense ? [suggestion.expense.id] : [];
-      const invoiceIds = suggestion.invoice ? [suggestion.invoice.id] : [];
-      await reconciliationService.reconcileMulti(suggestion.transaction.id, expenseIds, invoiceIds);
+      const { transaction } = suggestion;
+      // Link or record the invoice payments first so the reconciliation records their amounts
+      for (const paymentId of suggestion.paymentIds) {
+        await invoicePaymentsService.linkBankTransaction(paymentId, transaction.id);
+      }
+      for (const payment of suggestion.newPayments) {
+        await invoicePaymentsService.create({
+          invoice_id: payment.invoiceId,
+          amount: payment.amount,
+          payment_date: transaction.transaction_date,
+          payment_method: 'bank_transfer',
+          reference: transaction.description,
+          bank_transaction_id: transaction.id,
+        });
+      }
+      await reconciliationService.reconcileMulti(transaction.id, suggestion.expenseIds, suggestion.invoiceIds);
+
+      const [expense] = suggestion.expenses;
+      const customerId = suggestion.invoices[0]?.customer_id;
+      if (suggestion.kind === 'expense' && expense) {
+        await learnRule(transaction.description, 'expense', { vendor_name: expense.vendor });
+      } else if (suggestion.kind === 'invoice' && customerId) {
+        await learnRule(transaction.description, 'invoice', { customer_id: customerId });
+      }
       await loadData();
     } catch (error) {
       console.error('Failed to reconcile:', error);
@@ -180,10 +242,27 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
     }
   };
 
-  const handleUnreconcile = async (transactionId: string) => {
+  const handleLinkTransfer = async (outId: string, inId: string) => {
+    setProcessing(outId);
+    try {
+      await bankTransactionsService.linkTransfer(outId, inId);
+      await loadData();
+    } catch (error) {
+      console.error('Failed to link transfer:', error);
+    } finally {
+      setProcessing(null);
+    }
+  };
+
+  const handleUnreconcile = async (tx: BankTransaction) => {
+    const transactionId = tx.id;
     setProcessing(transactionId);
     try {
-      await reconciliationService.unreconcile(transactionId);
+      if (tx.transfer_transaction_id) {
+        await bankTransactionsService.unlinkTransfer(transactionId);
+      } else {
+        await reconciliationService.unreconcile(transactionId);
+      }
       await loadData();
     } catch (error) {
       console.error('Failed to unreconcile:', error);
@@ -192,6 +271,44 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
     }
   };
 
+  const handleAddRule = async () => {
+    const pattern = normaliseRulePattern(newRule.pattern);
+    if (!pattern) {
+      setRuleError('Enter a word from the bank description, such as the shop name');
+      return;
+    }
+    if (newRule.matchType === 'expense' ? !newRule.vendorName.trim() : !newRule.customerId) {
+      setRuleError(newRule.matchType === 'expense' ? 'Enter the vendor to match' : 'Choose the customer to match');
+      return;
+    }
+
+    setRuleError(null);
+    try {
+      await reconciliationRulesService.create({
+        pattern,
+        match_type: newRule.matchType,
+        vendor_name: newRule.matchType === 'expense' ? newRule.vendorName.trim() : null,
+        customer_id: newRule.matchType === 'invoice' ? newRule.customerId : null,
+        is_learned: false,
+      });
+      setNewRule({ pattern: '', matchType: newRule.matchType, vendorName: '', customerId: '' });
+      setRules(await reconciliationRulesService.getAll());
+    } catch (error) {
+      console.error('Failed to add match rule:', error);
+      setRuleError('Could not save the rule. There may already be one for this text.');
+    }
+  };
+
+  const handleDeleteRule = async (id: string) => {
+    if (!confirm('Delete this match rule?')) return;
+    try {
+      await reconciliationRulesService.delete(id);
+      setRules(prev => prev.filter(rule => rule.id !== id));
+    } catch (error) {
+      console.error('Failed to delete match rule:', error);
+    }
+  };
+
   const openMultiSelect = (tx: BankTransaction) => {
     setSelectedTransaction(tx);
     setSelectedExpenseIds(new Set());
@@ -246,6 +363,10 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
         Array.from(selectedExpenseIds),
         Array.from(selectedInvoiceIds)
       );
+      const vendors = new Set(expenses.filter(e => selectedExpenseIds.has(e.id)).map(e => e.vendor));
+      if (vendors.size === 1) {
+        await learnRule(selectedTransaction.description, 'expense', { vendor_name: Array.from(vendors)[0] });
+      }
       setMultiSelectOpen(false);
       setSelectedTransaction(null);
       await loadData();
@@ -257,23 +378,26 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
   };
 
   const filteredTransactions = useMemo(() => {
-    return transactions.filter(tx => {
+    return accountTransactions.filter(tx => {
       if (filter === 'unreconciled' && tx.is_reconciled) return false;
       if (filter === 'reconciled' && !tx.is_reconciled) return false;
       if (searchTerm && !tx.description.toLowerCase().includes(searchTerm.toLowerCase())) return false;
       return true;
     });
-  }, [transactions, filter, searchTerm]);
+  }, [accountTransactions, filter, searchTerm]);
 
   const unreconciledExpenses = useMemo(() => expenses.filter(e => !e.is_reconciled), [expenses]);
 
   const stats = useMemo(() => {
-    const total = transactions.length;
-    const reconciled = transactions.filter(tx => tx.is_reconciled).length;
+    const total = accountTransactions.length;
+    const reconciled = accountTransactions.filter(tx => tx.is_reconciled).length;
     const pending = total - reconciled;
     const suggestedCount = suggestions.length;
     return { total, reconciled, pending, suggestedCount };
-  }, [transactions, suggestions]);
+  }, [accountTransactions, suggestions]);
+
+  const findTransaction = (id: string) => transactions.find(tx => tx.id === id);
+  const formatSigned = (amount: number) => `${amount < 0 ? '-' : ''}£${Math.abs(amount).toFixed(2)}`;
 
   if (loading) {
     return (
@@ -302,15 +426,63 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
             <p className="text-slate-500 text-sm font-medium">Match bank transactions with expenses and invoices</p>
           </div>
         </div>
-        <button
-          onClick={loadData}
-          className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-xl font-bold text-sm hover:bg-slate-200 transition-colors"
-        >
-          <RefreshCw size={16} />
-          Refresh
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setRulesOpen(true)}
+            className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-xl font-bold text-sm hover:bg-slate-200 transition-colors"
+          >
+            <ListChecks size={16} />
+            Match Rules{rules.length > 0 ? ` (${rules.length})` : ''}
+          </button>
+          <button
+            onClick={loadData}
+            className="flex items-center gap-2 bg-slate-100 text-slate-700 px-4 py-2 rounded-xl font-bold text-sm hover:bg-slate-200 transition-colors"
+          >
+            <RefreshCw size={16} />
+            Refresh
+          </button>
+        </div>
       </div>
 
+      {/* Accounts */}
+      {accounts.length > 0 && (
+        <div className="flex gap-2 sm:gap-3 overflow-x-auto pb-1 mb-3 md:mb-6">
+          {[{ accountId: 'all', name: 'All accounts' } as const, ...accountSummaries].map(summary => {
+            const id = summary.accountId ?? 'unassigned';
+            const active = accountFilter === id;
+            return (
+              <button
+                key={id}
+                onClick={() => setAccountFilter(id)}
+                className={`shrink-0 min-w-[160px] text-left rounded-xl sm:rounded-2xl p-3 sm:p-4 border transition-colors ${
+                  active ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 hover:border-slate-300'
+                }`}
+              >
+                <p className={`text-[10px] font-black uppercase tracking-wide truncate flex items-center gap-1 ${active ? 'text-slate-300' : 'text-slate-400'}`}>
+                  <Landmark size={12} />
+                  {summary.name}
+                </p>
+                {'closingBalance' in summary ? (
+                  <>
+                    <p className={`text-lg font-black ${active ? 'text-white' : 'text-slate-900'}`}>
+                      {formatSigned(summary.statementBalance ?? summary.closingBalance)}
+                    </p>
+                    <p className={`text-[11px] ${active ? 'text-slate-300' : 'text-slate-500'}`}>
+                      +£{summary.moneyIn.toFixed(2)} / -£{summary.moneyOut.toFixed(2)}
+                      {(summary.transfersIn > 0 || summary.transfersOut > 0) &&
+                        ` · transfers +£${summary.transfersIn.toFixed(2)} / -£${summary.transfersOut.toFixed(2)}`}
+                      {summary.unreconciledCount > 0 && ` · ${summary.unreconciledCount} to do`}
+                    </p>
+                  </>
+                ) : (
+                  <p className={`text-lg font-black ${active ? 'text-white' : 'text-slate-900'}`}>{transactions.length} lines</p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-2 gap-2 sm:gap-3 md:grid-cols-4 md:gap-4 mb-3 md:mb-8">
         <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-4 md:p-5 border border-slate-200">
@@ -345,9 +517,9 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
           </div>
 
           <div className="space-y-3">
-            {suggestions.slice(0, 5).map((suggestion, idx) => (
+            {suggestions.slice(0, 5).map(suggestion => (
               <div
-                key={idx}
+                key={suggestion.transactionId}
                 className="bg-white rounded-2xl p-4 border border-blue-100 flex flex-col md:flex-row md:items-center gap-4"
               >
                 {/* Transaction */}
@@ -367,25 +539,31 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
                 {/* Match */}
                 <div className="flex-1 min-w-0">
                   <p className="text-xs text-slate-400 font-bold mb-1">
-                    {suggestion.expense ? 'Expense' : 'Invoice'}
+                    {suggestion.kind === 'expense' ? 'Expense' : suggestion.invoices.length > 1 ? `${suggestion.invoices.length} Invoices` : 'Invoice'}
                   </p>
-                  {suggestion.expense && (
-                    <>
-                      <p className="font-bold text-slate-900 truncate">{suggestion.expense.vendor}</p>
+                  {suggestion.expenses.map(expense => (
+                    <React.Fragment key={expense.id}>
+                      <p className="font-bold text-slate-900 truncate">{expense.vendor}</p>
                       <div className="flex items-center gap-3 text-xs text-slate-500 mt-1">
-                        <span>{new Date(suggestion.expense.expense_date).toLocaleDateString()}</span>
-                        <span className="font-bold text-slate-700">£{suggestion.expense.amount.toFixed(2)}</span>
+                        <span>{new Date(expense.expense_date).toLocaleDateString()}</span>
+                        <span className="font-bold text-slate-700">£{expense.amount.toFixed(2)}</span>
                       </div>
-                    </>
-                  )}
-                  {suggestion.invoice && (
+                    </React.Fragment>
+                  ))}
+                  {suggestion.invoices.length > 0 && (
                     <>
-                      <p className="font-bold text-slate-900">Invoice #{suggestion.invoice.reference_number}</p>
+                      <p className="font-bold text-slate-900 truncate">
+                        {suggestion.invoices.map(inv => `Invoice #${inv.reference_number}`).join(', ')}
+                        {suggestion.invoices[0].customer?.name && ` · ${suggestion.invoices[0].customer.name}`}
+                      </p>
                       <div className="flex items-center gap-3 text-xs text-slate-500 mt-1">
-                        <span className="font-bold text-slate-700">£{suggestion.invoice.total.toFixed(2)}</span>
+                        <span className="font-bold text-slate-700">
+                          £{suggestion.invoices.reduce((sum, inv) => sum + inv.total, 0).toFixed(2)}
+                        </span>
                       </div>
                     </>
                   )}
+                  <p className="text-xs text-blue-700 mt-2">{suggestion.reasons.join(' · ')}</p>
                 </div>
 
                 {/* Confidence & Actions */}
@@ -395,7 +573,7 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
                     suggestion.confidence === 'medium' ? 'bg-amber-100 text-amber-700' :
                     'bg-slate-100 text-slate-600'
                   }`}>
-                    {suggestion.confidence}
+                    {suggestion.confidence} · {suggestion.score}
                   </span>
                   <button
                     onClick={() => handleAcceptMatch(suggestion)}
@@ -428,6 +606,71 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
         </div>
       )}
 
+      {/* Transfers between accounts */}
+      {transferPairs.length > 0 && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="p-2 bg-violet-100 rounded-xl">
+              <ArrowLeftRight className="w-5 h-5 text-violet-600" />
+            </div>
+            <div>
+              <h2 className="font-black text-slate-900">Transfers Between Accounts</h2>
+              <p className="text-sm text-slate-600">Money moved between your own accounts isn't income or spending</p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {transferPairs.map(pair => {
+              const out = findTransaction(pair.outId)!;
+              const into = findTransaction(pair.inId)!;
+              return (
+                <div key={pair.outId} className="rounded-2xl p-4 border border-slate-100 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-slate-400 font-bold mb-1">
+                      Out of {accountNames.get(out.bank_account_id!) || 'Unknown account'}
+                    </p>
+                    <p className="font-bold text-slate-900 truncate">{out.description}</p>
+                    <p className="text-xs text-slate-500 mt-1">{new Date(out.transaction_date).toLocaleDateString()}</p>
+                  </div>
+                  <ArrowRight className="text-slate-300 hidden md:block" size={20} />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs text-slate-400 font-bold mb-1">
+                      Into {accountNames.get(into.bank_account_id!) || 'Unknown account'}
+                    </p>
+                    <p className="font-bold text-slate-900 truncate">{into.description}</p>
+                    <p className="text-xs text-slate-500 mt-1">{new Date(into.transaction_date).toLocaleDateString()}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="font-black text-slate-700">£{pair.amount.toFixed(2)}</span>
+                    <span className={`px-3 py-1 rounded-full text-xs font-black ${
+                      pair.confidence === 'high' ? 'bg-emerald-100 text-emerald-700' : 'bg-amber-100 text-amber-700'
+                    }`}>
+                      {pair.confidence}
+                    </span>
+                    <button
+                      onClick={() => handleLinkTransfer(pair.outId, pair.inId)}
+                      disabled={processing === pair.outId}
+                      className="p-2 bg-emerald-500 text-white rounded-xl hover:bg-emerald-600 transition-colors disabled:opacity-50"
+                      title="Mark as transfer"
+                    >
+                      {processing === pair.outId ? <Loader2 className="w-5 h-5 animate-spin" /> : <Check size={20} />}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Bank Rules */}
+      {!loading && (
+        <BankRuleExpenses
+          transactions={accountTransactions.filter(tx => !pairedIds.has(tx.id))}
+          onApproved={loadData}
+        />
+      )}
+
       {/* Filters */}
       <div className="flex flex-col md:flex-row gap-4 mb-3 md:mb-6">
         <div className="relative flex-1">
@@ -481,7 +724,14 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
                         <Calendar size={12} />
                         {new Date(tx.transaction_date).toLocaleDateString()}
                       </span>
-                      {tx.is_reconciled && (
+                      {accountFilter === 'all' && tx.bank_account_id && accountNames.has(tx.bank_account_id) && (
+                        <span className="truncate">{accountNames.get(tx.bank_account_id)}</span>
+                      )}
+                      {tx.transfer_transaction_id ? (
+                        <span className="px-2 py-0.5 bg-violet-100 text-violet-700 rounded-full font-black text-[10px] uppercase">
+                          Transfer
+                        </span>
+                      ) : tx.is_reconciled && (
                         <span className="px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full font-black text-[10px] uppercase">
                           Reconciled
                         </span>
@@ -503,7 +753,7 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
                     )}
                     {tx.is_reconciled && (
                       <button
-                        onClick={() => handleUnreconcile(tx.id)}
+                        onClick={() => handleUnreconcile(tx)}
                         disabled={processing === tx.id}
                         className="p-2 bg-slate-100 text-slate-500 rounded-xl hover:bg-red-100 hover:text-red-600 transition-colors"
                         title="Unreconcile"
@@ -655,6 +905,115 @@ export const ReconciliationPage: React.FC<ReconciliationPageProps> = ({ onBack }
           </div>
         </div>
       )}
+      {/* Match Rules Modal */}
+      {rulesOpen && (
+        <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+          <div className="bg-white rounded-3xl max-w-2xl w-full max-h-[85vh] overflow-hidden flex flex-col">
+            <div className="p-6 border-b border-slate-200">
+              <div className="flex items-center justify-between">
+                <div>
+                  <h2 className="text-xl font-black text-slate-900">Match Rules</h2>
+                  <p className="text-sm text-slate-500 mt-1">
+                    Always match bank lines containing some text to a vendor or customer. Accepted matches add rules too.
+                  </p>
+                </div>
+                <button
+                  onClick={() => setRulesOpen(false)}
+                  className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-xl transition-colors"
+                >
+                  <X size={20} />
+                </button>
+              </div>
+
+              {/* New Rule */}
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-[1fr_auto_1fr_auto] gap-2 items-center">
+                <input
+                  type="text"
+                  placeholder="Description contains..."
+                  value={newRule.pattern}
+                  onChange={(e) => setNewRule({ ...newRule, pattern: e.target.value })}
+                  className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                />
+                <select
+                  value={newRule.matchType}
+                  onChange={(e) => setNewRule({ ...newRule, matchType: e.target.value as 'expense' | 'invoice' })}
+                  className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm"
+                >
+                  <option value="expense">Vendor</option>
+                  <option value="invoice">Customer</option>
+                </select>
+                {newRule.matchType === 'expense' ? (
+                  <input
+                    type="text"
+                    placeholder="Vendor name"
+                    value={newRule.vendorName}
+                    onChange={(e) => setNewRule({ ...newRule, vendorName: e.target.value })}
+                    className="px-4 py-2 bg-white border border-slate-200 rounded-xl text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
+                  />
+                ) : (
+                  <select
+                    value={newRule.customerId}
+                    onChange={(e) => setNewRule({ ...newRule, customerId: e.target.value })}
+                    className="px-3 py-2 bg-white border border-slate-200 rounded-xl text-sm"
+                  >
+                    <option value="">Choose customer...</option>
+                    {customers.map(customer => (
+                      <option key={customer.id} value={customer.id}>{customer.name}</option>
+                    ))}
+                  </select>
+                )}
+                <button
+                  onClick={handleAddRule}
+                  className="flex items-center justify-center gap-1 px-4 py-2 bg-amber-500 text-slate-900 rounded-xl font-black text-sm hover:bg-amber-400 transition-colors"
+                >
+                  <Plus size={16} />
+                  Add
+                </button>
+              </div>
+              {ruleError && (
+                <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
+                  <AlertCircle size={14} />
+                  {ruleError}
+                </p>
+              )}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-3 md:p-6">
+              {rules.length === 0 ? (
+                <div className="text-center py-8 text-slate-400">
+                  <p>No rules yet</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {rules.map(rule => (
+                    <div key={rule.id} className="py-3 flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-bold text-slate-900 truncate">
+                          "{rule.pattern}" → {rule.match_type === 'invoice'
+                            ? customers.find(c => c.id === rule.customer_id)?.name || 'Unknown customer'
+                            : rule.vendor_name}
+                        </p>
+                        <p className="text-xs text-slate-500 mt-1">
+                          {rule.match_type === 'invoice' ? 'Customer' : 'Vendor'}
+                          {' · '}{rule.is_learned ? 'Learned' : 'Added by you'}
+                          {' · '}Used {rule.times_used} time{rule.times_used !== 1 ? 's' : ''}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDeleteRule(rule.id)}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-xl transition-colors"
+                        title="Delete rule"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,295 @@
+
+import React, { useState } from 'react';
+import { Quote, RecurringInvoice, RecurrenceFrequency } from '../types';
+import { X, Repeat, CalendarDays, AlertCircle } from 'lucide-react';
+import { hapticTap, hapticSuccess } from '../src/hooks/useHaptic';
+import {
+  createRecurringTemplate,
+  describeSchedule,
+  getUpcomingGenerations,
+  type RecurringInvoiceInput,
+} from '../src/utils/recurringInvoices';
+
+type EndMode = 'never' | 'count' | 'date';
+
+interface RecurringInvoiceSetupProps {
+  // Invoice the template is built from (new recurring invoices)
+  sourceQuote?: Quote;
+  // Recurring invoice being edited
+  existing?: RecurringInvoice;
+  onSave: (recurring: RecurringInvoiceInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weeks',
+  monthly: 'Months',
+  annual: 'Years',
+};
+
+export const RecurringInvoiceSetup: React.FC<RecurringInvoiceSetupProps> = ({
+  sourceQuote,
+  existing,
+  onSave,
+  onClose
+}) => {
+  const today = new Date().toISOString().split('T')[0];
+
+  const [title, setTitle] = useState(existing?.title || sourceQuote?.title || '');
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>(existing?.frequency || 'monthly');
+  const [intervalCount, setIntervalCount] = useState(existing?.interval || 1);
+  const [startDate, setStartDate] = useState(existing?.startDate || today);
+  const [endMode, setEndMode] = useState<EndMode>(
+    existing?.maxOccurrences != null ? 'count' : existing?.endDate ? 'date' : 'never'
+  );
+  const [maxOccurrences, setMaxOccurrences] = useState(existing?.maxOccurrences || 12);
+  const [endDate, setEndDate] = useState(existing?.endDate || '');
+  const [generateStatus, setGenerateStatus] = useState<'draft' | 'sent'>(existing?.generateStatus || 'draft');
+  const [paymentTermsDays, setPaymentTermsDays] = useState(existing?.paymentTermsDays ?? 14);
+  const [createVisits, setCreateVisits] = useState(existing?.createVisits || false);
+  const [visitStartTime, setVisitStartTime] = useState(existing?.visitStartTime || '09:00');
+  const [visitDurationMinutes, setVisitDurationMinutes] = useState(existing?.visitDurationMinutes || 60);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const recurring: RecurringInvoiceInput = {
+    title: title.trim(),
+    customerId: existing?.customerId ?? sourceQuote?.customerId ?? '',
+    projectId: existing ? existing.projectId : sourceQuote?.projectId,
+    template: existing?.template || (sourceQuote ? createRecurringTemplate(sourceQuote) : { sections: [], labourRate: 0, markupPercent: 0, taxPercent: 0, cisPercent: 0, notes: '' }),
+    frequency,
+    interval: Math.max(1, intervalCount || 1),
+    startDate,
+    endDate: endMode === 'date' ? endDate || undefined : undefined,
+    maxOccurrences: endMode === 'count' ? Math.max(1, maxOccurrences || 1) : undefined,
+    generateStatus,
+    paymentTermsDays: Math.max(0, paymentTermsDays || 0),
+    createVisits,
+    visitStartTime: createVisits ? visitStartTime : undefined,
+    visitDurationMinutes: createVisits ? visitDurationMinutes : undefined,
+    isActive: existing?.isActive ?? true,
+  };
+
+  // Preview the first few dates this schedule will generate
+  const preview = getUpcomingGenerations([{
+    ...recurring,
+    id: existing?.id || 'preview',
+    occurrencesGenerated: existing?.occurrencesGenerated || 0,
+    createdAt: today,
+    updatedAt: today,
+  }], 4);
+
+  const endsBeforeStart = endMode === 'date' && !!endDate && endDate < startDate;
+  const canSubmit = !!recurring.title && !!startDate && !endsBeforeStart && !isSaving;
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(recurring);
+      hapticSuccess();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full bg-white border-2 border-slate-200 rounded-xl p-3 font-bold text-slate-900 outline-none focus:border-teal-400 transition-colors';
+  const labelClass = 'block text-xs font-black text-slate-400 uppercase tracking-wider mb-2';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[200] flex items-center justify-center p-4">
+      <div className="bg-white rounded-[32px] p-6 w-full max-w-md max-h-[90vh] overflow-y-auto shadow-2xl animate-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-black text-slate-900">{existing ? 'Edit Schedule' : 'Repeat Invoice'}</h3>
+            <p className="text-xs text-slate-500 font-bold uppercase tracking-wider mt-1">
+              {describeSchedule(recurring)}
+            </p>
+          </div>
+          <button
+            onClick={() => { hapticTap(); onClose(); }}
+            className="p-2 hover:bg-slate-100 rounded-xl transition-colors"
+          >
+            <X size={20} className="text-slate-400" />
+          </button>
+        </div>
+
+        {/* Title */}
+        <div className="mb-4">
+          <label className={labelClass}>Invoice Title</label>
+          <input type="text" value={title} onChange={e => setTitle(e.target.value)} className={inputClass} placeholder="e.g. Annual Boiler Service" />
+        </div>
+
+        {/* Frequency */}
+        <div className="mb-4">
+          <label className={labelClass}>Repeat Every</label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              value={intervalCount}
+              onChange={e => setIntervalCount(parseInt(e.target.value) || 1)}
+              className={`${inputClass} w-20`}
+            />
+            <div className="grid grid-cols-3 gap-2 flex-1">
+              {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => (
+                <button
+                  key={f}
+                  onClick={() => { hapticTap(); setFrequency(f); }}
+                  className={`p-3 rounded-xl font-bold text-sm transition-all ${
+                    frequency === f ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                  }`}
+                >
+                  {FREQUENCY_LABELS[f]}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Start */}
+        <div className="mb-4">
+          <label className={labelClass}>First Invoice</label>
+          <input
+            type="date"
+            value={startDate}
+            onChange={e => setStartDate(e.target.value)}
+            disabled={!!existing && existing.occurrencesGenerated > 0}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </div>
+
+        {/* End */}
+        <div className="mb-4">
+          <label className={labelClass}>Ends</label>
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            {([['never', 'Never'], ['count', 'After'], ['date', 'On Date']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => { hapticTap(); setEndMode(mode); }}
+                className={`p-3 rounded-xl font-bold text-sm transition-all ${
+                  endMode === mode ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {endMode === 'count' && (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={maxOccurrences}
+                onChange={e => setMaxOccurrences(parseInt(e.target.value) || 1)}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-sm font-bold text-slate-500">invoices</span>
+            </div>
+          )}
+          {endMode === 'date' && (
+            <input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} className={inputClass} />
+          )}
+        </div>
+
+        {/* Generated invoices */}
+        <div className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className={labelClass}>Create As</label>
+            <select
+              value={generateStatus}
+              onChange={e => setGenerateStatus(e.target.value as 'draft' | 'sent')}
+              className={inputClass}
+            >
+              <option value="draft">Draft</option>
+              <option value="sent">Sent</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Due In (Days)</label>
+            <input
+              type="number"
+              min={0}
+              value={paymentTermsDays}
+              onChange={e => setPaymentTermsDays(parseInt(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        {/* Visits */}
+        <div className="bg-slate-50 rounded-2xl p-4 mb-4">
+          <label className="flex items-center justify-between gap-3 cursor-pointer">
+            <span className="flex items-center gap-2 text-sm font-bold text-slate-700">
+              <CalendarDays size={16} className="text-teal-500" />
+              Add a visit to the schedule
+            </span>
+            <input
+              type="checkbox"
+              checked={createVisits}
+              onChange={e => setCreateVisits(e.target.checked)}
+              className="w-5 h-5 accent-teal-500"
+            />
+          </label>
+          {createVisits && (
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <div>
+                <label className={labelClass}>Start Time</label>
+                <input type="time" value={visitStartTime} onChange={e => setVisitStartTime(e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Minutes</label>
+                <input
+                  type="number"
+                  min={15}
+                  step={15}
+                  value={visitDurationMinutes}
+                  onChange={e => setVisitDurationMinutes(parseInt(e.target.value) || 60)}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="mb-6">
+          <label className={labelClass}>Next Invoices</label>
+          {preview.length === 0 ? (
+            <p className="text-sm text-slate-500 font-medium">No invoices left on this schedule</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {preview.map(p => (
+                <span key={p.index} className="px-3 py-1.5 bg-teal-50 text-teal-700 rounded-lg text-xs font-bold">
+                  {new Date(p.date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        {endsBeforeStart && (
+          <p className="flex items-center gap-2 text-xs text-red-600 font-bold -mt-4 mb-6">
+            <AlertCircle size={14} /> The end date is before the first invoice
+          </p>
+        )}
+
+        {/* Action Buttons */}
+        <div className="flex gap-3">
+          <button
+            onClick={() => { hapticTap(); onClose(); }}
+            className="flex-1 p-4 bg-slate-100 text-slate-600 rounded-xl font-black uppercase text-sm hover:bg-slate-200 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+            className="flex-1 p-4 bg-teal-500 text-white rounded-xl font-black uppercase text-sm shadow-lg shadow-teal-500/30 hover:bg-teal-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+          >
+            <Repeat size={18} />
+            {existing ? 'Save' : 'Repeat'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowLeft, Repeat, CalendarClock, Pause, Play, Pencil, Trash2, RefreshCw, Eye, CalendarDays, Loader2
+} from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import { RecurringInvoice } from '../types';
+import { calculateDocumentTotals } from '../src/utils/quoteCalculations';
+import {
+  buildRecurringInvoice,
+  describeSchedule,
+  formatRecurringReference,
+  getUpcomingGenerations,
+  type RecurringInvoiceInput,
+} from '../src/utils/recurringInvoices';
+import { RecurringInvoiceSetup } from './RecurringInvoiceSetup';
+
+interface RecurringInvoicesPageProps {
+  onBack?: () => void;
+  onViewInvoice?: (id: string) => void;
+}
+
+const formatCurrency = (amount: number) => `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const RecurringInvoicesPage: React.FC<RecurringInvoicesPageProps> = ({ onBack, onViewInvoice }) => {
+  const {
+    recurringInvoices, customers, quotes, settings,
+    updateRecurringInvoice, deleteRecurringInvoice, generateDueRecurringInvoices,
+  } = useData();
+  const toast = useToast();
+  const [editing, setEditing] = useState<RecurringInvoice | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const upcoming = useMemo(() => getUpcomingGenerations(recurringInvoices, 3).slice(0, 12), [recurringInvoices]);
+
+  const sorted = useMemo(() => [...recurringInvoices].sort((a, b) => {
+    if (a.isActive !== b.isActive) return a.isActive ? -1 : 1;
+    return (a.nextRunDate || '9999').localeCompare(b.nextRunDate || '9999');
+  }), [recurringInvoices]);
+
+  const getCustomerName = (customerId: string) => customers.find(c => c.id === customerId)?.name || 'Unassigned Client';
+
+  const getTemplateTotal = (recurring: RecurringInvoice) =>
+    calculateDocumentTotals(buildRecurringInvoice(recurring, recurring.startDate), settings).grandTotal;
+
+  const getGeneratedInvoices = (recurringId: string) =>
+    quotes
+      .filter(q => q.recurringInvoiceId === recurringId)
+      .sort((a, b) => (b.recurrenceDate || b.date).localeCompare(a.recurrenceDate || a.date));
+
+  const handleGenerateNow = async () => {
+    setIsGenerating(true);
+    try {
+      const generated = await generateDueRecurringInvoices();
+      if (generated.length > 0) {
+        toast.success('Invoices Generated', `${generated.length} recurring invoice${generated.length !== 1 ? 's' : ''} created`);
+      } else {
+        toast.info('Up To Date', 'No recurring invoices are due');
+      }
+    } catch (error) {
+      console.error('Failed to generate recurring invoices:', error);
+      toast.error('Generation Failed', 'Could not generate recurring invoices');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleToggleActive = async (recurring: RecurringInvoice) => {
+    try {
+      await updateRecurringInvoice(recurring.id, { isActive: !recurring.isActive });
+      toast.success(recurring.isActive ? 'Paused' : 'Resumed', recurring.title);
+    } catch (error) {
+      console.error('Failed to update recurring invoice:', error);
+      toast.error('Update Failed', 'Could not change schedule');
+    }
+  };
+
+  const handleSaveEdit = async (updates: RecurringInvoiceInput) => {
+    if (!editing) return;
+    try {
+      await updateRecurringInvoice(editing.id, updates);
+      setEditing(null);
+      toast.success('Schedule Updated', updates.title);
+    } catch (error) {
+      console.error('Failed to update recurring invoice:', error);
+      toast.error('Update Failed', 'Could not save schedule');
+      throw error;
+    }
+  };
+
+  const handleDelete = async (recurring: RecurringInvoice) => {
+    if (!window.confirm(`Stop repeating "${recurring.title}"? Invoices already created are kept.`)) return;
+    try {
+      await deleteRecurringInvoice(recurring.id);
+      toast.success('Recurring Invoice Deleted', recurring.title);
+    } catch (error) {
+      console.error('Failed to delete recurring invoice:', error);
+      toast.error('Delete Failed', 'Could not delete recurring invoice');
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-2 md:gap-3">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+              aria-label="Go back"
+            >
+              <ArrowLeft size={22} className="md:w-5 md:h-5" />
+            </button>
+          )}
+          <div>
+            <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Recurring Invoices</h1>
+            <p className="text-slate-500 text-sm font-medium italic">Repeat work invoiced on a schedule</p>
+          </div>
+        </div>
+        <button
+          onClick={handleGenerateNow}
+          disabled={isGenerating}
+          className="flex items-center justify-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold text-sm transition-colors disabled:opacity-50"
+        >
+          {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+          Generate Due Now
+        </button>
+      </div>
+
+      {recurringInvoices.length === 0 ? (
+        <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+          <Repeat size={40} className="mx-auto text-teal-500 mb-3" />
+          <p className="font-black text-slate-900">No recurring invoices yet</p>
+          <p className="text-sm text-slate-500 mt-1">Open an invoice and choose Repeat to invoice it on a schedule.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Upcoming generations */}
+          <div className="bg-white rounded-2xl border-2 border-slate-100 p-4 md:p-6 h-fit">
+            <h3 className="font-black text-slate-900 uppercase tracking-wider text-sm mb-4 flex items-center gap-2">
+              <CalendarClock size={16} className="text-teal-500" />
+              Upcoming
+            </h3>
+            {upcoming.length === 0 ? (
+              <p className="text-sm text-slate-500">Nothing scheduled</p>
+            ) : (
+              <div className="space-y-2">
+                {upcoming.map(u => (
+                  <div key={`${u.recurringInvoice.id}-${u.index}`} className="flex items-center justify-between gap-3 p-3 bg-slate-50 rounded-xl">
+                    <div className="min-w-0">
+                      <p className="font-bold text-slate-900 text-sm truncate">{u.recurringInvoice.title}</p>
+                      <p className="text-xs text-slate-500 truncate">{getCustomerName(u.recurringInvoice.customerId)}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-sm font-black text-slate-900">{formatDate(u.date)}</p>
+                      <p className="text-[10px] font-bold text-slate-400 uppercase">
+                        {u.recurringInvoice.generateStatus === 'sent' ? 'Sent' : 'Draft'}
+                        {u.recurringInvoice.createVisits && ' + visit'}
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Recurring invoices */}
+          <div className="lg:col-span-2 space-y-3">
+            {sorted.map(recurring => {
+              const generated = getGeneratedInvoices(recurring.id);
+              return (
+                <div
+                  key={recurring.id}
+                  className={`bg-white rounded-2xl border-2 p-4 md:p-5 ${recurring.isActive ? 'border-slate-100' : 'border-slate-100 opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-[10px] font-black text-slate-400 uppercase tracking-wider">
+                          {formatRecurringReference(recurring.referenceNumber)}
+                        </span>
+                        <span className={`px-2 py-0.5 rounded-md text-[10px] font-black uppercase tracking-wider ${
+                          recurring.isActive ? 'bg-teal-100 text-teal-700' : 'bg-slate-200 text-slate-500'
+                        }`}>
+                          {recurring.isActive ? describeSchedule(recurring) : recurring.nextRunDate ? 'Paused' : 'Finished'}
+                        </span>
+                        {recurring.createVisits && <CalendarDays size={14} className="text-slate-400" />}
+                      </div>
+                      <p className="font-black text-slate-900 text-lg leading-tight mt-1 truncate">{recurring.title}</p>
+                      <p className="text-sm text-slate-500">{getCustomerName(recurring.customerId)}</p>
+                    </div>
+                    <div className="text-right shrink-0">
+                      <p className="text-lg font-black text-slate-900">{formatCurrency(getTemplateTotal(recurring))}</p>
+                      <p className="text-xs text-slate-500">
+                        {recurring.nextRunDate ? `Next ${formatDate(recurring.nextRunDate)}` : 'No more invoices'}
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-3 mt-4 pt-3 border-t border-slate-100">
+                    <p className="text-xs text-slate-500 font-medium">
+                      {recurring.occurrencesGenerated} generated
+                      {recurring.maxOccurrences != null && ` of ${recurring.maxOccurrences}`}
+                      {recurring.endDate && ` · ends ${formatDate(recurring.endDate)}`}
+                    </p>
+                    <div className="flex items-center gap-1">
+                      {generated[0] && onViewInvoice && (
+                        <button
+                          onClick={() => onViewInvoice(generated[0].id)}
+                          className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                          title="View latest invoice"
+                        >
+                          <Eye size={16} />
+                        </button>
+                      )}
+                      {(recurring.isActive || recurring.nextRunDate) && (
+                        <button
+                          onClick={() => handleToggleActive(recurring)}
+                          className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                          title={recurring.isActive ? 'Pause' : 'Resume'}
+                        >
+                          {recurring.isActive ? <Pause size={16} /> : <Play size={16} />}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setEditing(recurring)}
+                        className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Edit schedule"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(recurring)}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {editing && (
+        <RecurringInvoiceSetup
+          existing={editing}
+          onSave={handleSaveEdit}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, ShieldCheck, BellRing, Eye, CheckCircle2, Loader2 } from 'lucide-react';
+import { useData } from '../src/contexts/DataContext';
+import { useToast } from '../src/contexts/ToastContext';
+import { getDocumentPrefix } from '../src/utils/creditNotes';
+import {
+  buildRetentionLedger,
+  getRetentionReleasesDue,
+  RETENTION_STAGE_LABELS,
+  type RetentionTranche,
+} from '../src/utils/retention';
+
+interface RetentionLedgerPageProps {
+  onBack?: () => void;
+  onViewInvoice?: (id: string) => void;
+}
+
+const formatCurrency = (amount: number) => `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+const STATUS_STYLES: Record<RetentionTranche['status'], string> = {
+  held: 'bg-slate-100 text-slate-600',
+  due: 'bg-red-100 text-red-700',
+  received: 'bg-emerald-100 text-emerald-700',
+};
+
+export const RetentionLedgerPage: React.FC<RetentionLedgerPageProps> = ({ onBack, onViewInvoice }) => {
+  const { quotes, customers, settings, invoicePayments, recordInvoicePayment } = useData();
+  const toast = useToast();
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  const ledger = useMemo(
+    () => buildRetentionLedger(quotes, invoicePayments, settings),
+    [quotes, invoicePayments, settings]
+  );
+  const releasesDue = useMemo(() => getRetentionReleasesDue(ledger), [ledger]);
+
+  const totals = useMemo(() => ({
+    retained: ledger.reduce((sum, e) => sum + e.retentionAmount, 0),
+    outstanding: ledger.reduce((sum, e) => sum + e.outstanding, 0),
+    due: releasesDue.reduce((sum, d) => sum + d.tranche.outstanding, 0),
+    received: ledger.reduce((sum, e) => sum + e.received, 0),
+  }), [ledger, releasesDue]);
+
+  const getCustomerName = (customerId: string) => customers.find(c => c.id === customerId)?.name || 'Unknown Customer';
+
+  // Releasing retention is recorded as a payment against the invoice
+  const handleRecordRelease = async (invoiceId: string, tranche: RetentionTranche) => {
+    const key = `${invoiceId}-${tranche.stage}`;
+    setRecordingId(key);
+    try {
+      await recordInvoicePayment(invoiceId, {
+        amount: tranche.outstanding,
+        paymentDate: new Date().toISOString().split('T')[0],
+        paymentMethod: 'bank_transfer',
+        notes: `Retention released - ${RETENTION_STAGE_LABELS[tranche.stage].toLowerCase()}`,
+      });
+      toast.success('Retention Received', formatCurrency(tranche.outstanding));
+    } catch (error) {
+      console.error('Failed to record retention release:', error);
+      toast.error('Update Failed', 'Could not record the retention release');
+    } finally {
+      setRecordingId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Retention</h1>
+          <p className="text-slate-500 text-sm font-medium italic">Money held back by main contractors until release</p>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Total Retained</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(totals.retained)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-amber-600 uppercase tracking-wider mb-1">Still Held</p>
+          <p className="text-xl md:text-2xl font-black text-amber-700">{formatCurrency(totals.outstanding)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-red-600 uppercase tracking-wider mb-1">Due For Release</p>
+          <p className="text-xl md:text-2xl font-black text-red-700">{formatCurrency(totals.due)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-emerald-600 uppercase tracking-wider mb-1">Received</p>
+          <p className="text-xl md:text-2xl font-black text-emerald-700">{formatCurrency(totals.received)}</p>
+        </div>
+      </div>
+
+      {/* Release reminders */}
+      {releasesDue.length > 0 && (
+        <div className="mb-6 bg-gradient-to-r from-red-500 to-red-600 rounded-2xl p-4 md:p-6 text-white">
+          <p className="flex items-center gap-2 font-black uppercase tracking-wider text-sm mb-2">
+            <BellRing size={18} /> Retention Due For Release
+          </p>
+          <div className="space-y-1">
+            {releasesDue.map(({ entry, tranche }) => (
+              <p key={`${entry.invoice.id}-${tranche.stage}`} className="text-sm text-red-50">
+                {getCustomerName(entry.invoice.customerId)} - {entry.invoice.title}: {formatCurrency(tranche.outstanding)} at {RETENTION_STAGE_LABELS[tranche.stage].toLowerCase()}, {tranche.daysOverdue} day{tranche.daysOverdue !== 1 ? 's' : ''} ago
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {ledger.length === 0 ? (
+        <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+          <ShieldCheck size={40} className="mx-auto text-amber-500 mb-3" />
+          <p className="font-black text-slate-900">No retention held</p>
+          <p className="text-sm text-slate-500 mt-1">Add retention to an invoice when a main contractor holds some back.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {ledger.map(entry => {
+            const ref = `${getDocumentPrefix(entry.invoice.type, settings)}${(entry.invoice.referenceNumber || 0).toString().padStart(4, '0')}`;
+            return (
+              <div key={entry.invoice.id} className="bg-white rounded-2xl border-2 border-slate-100 p-4">
+                <div className="flex items-start justify-between gap-3 mb-3">
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 truncate">{getCustomerName(entry.invoice.customerId)}</p>
+                    <div className="flex items-center gap-2 text-xs text-slate-500 mt-1">
+                      <span className="bg-teal-100 text-teal-700 font-bold px-2 py-0.5 rounded">{ref}</span>
+                      <span className="truncate">{entry.invoice.title}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <div className="text-right">
+                      <p className="font-black text-amber-700">{formatCurrency(entry.outstanding)}</p>
+                      <p className="text-[10px] text-slate-400">of {formatCurrency(entry.retentionAmount)} ({entry.invoice.retentionPercent}%)</p>
+                    </div>
+                    {onViewInvoice && (
+                      <button
+                        onClick={() => onViewInvoice(entry.invoice.id)}
+                        className="p-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 transition-colors"
+                        title="View Invoice"
+                      >
+                        <Eye size={16} />
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {entry.tranches.map(tranche => {
+                    const key = `${entry.invoice.id}-${tranche.stage}`;
+                    return (
+                      <div key={key} className="flex items-center justify-between gap-2 bg-slate-50 rounded-xl px-3 py-2">
+                        <div>
+                          <p className="text-xs font-bold text-slate-700">{RETENTION_STAGE_LABELS[tranche.stage]}</p>
+                          <p className="text-[10px] text-slate-500">
+                            {tranche.releaseDate ? formatDate(tranche.releaseDate) : 'Release date not set'} · {formatCurrency(tranche.amount)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className={`px-2 py-0.5 rounded-full text-[10px] font-black uppercase ${STATUS_STYLES[tranche.status]}`}>
+                            {tranche.status}
+                          </span>
+                          {tranche.status !== 'received' && (
+                            <button
+                              onClick={() => handleRecordRelease(entry.invoice.id, tranche)}
+                              disabled={recordingId !== null}
+                              className="p-1.5 bg-emerald-100 text-emerald-700 rounded-lg hover:bg-emerald-200 transition-colors disabled:opacity-50"
+                              title="Record Release"
+                            >
+                              {recordingId === key ? <Loader2 size={14} className="animate-spin" /> : <CheckCircle2 size={14} />}
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
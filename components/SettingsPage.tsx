@@ -15,6 +15,7 @@ import { TEMPLATE_METADATA, TEMPLATE_DESCRIPTIONS, COLOR_SCHEMES, getTemplateCon
 import { useToast } from '../src/contexts/ToastContext';
 import { handleApiError } from '../src/utils/errorHandler';
 import { userSettingsService } from '../src/services/dataService';
+import { VAT_STAGGER_LABELS, VAT_SCHEME_LABELS, FRS_RATES, FRS_FIRST_YEAR_DISCOUNT, type VatStagger, type VatScheme } from '../src/utils/vatPeriods';
 import { useSubscription } from '../src/hooks/useFeatureAccess';
 import { redirectToCheckout, redirectToPortal } from '../src/lib/stripe';
 import { useData } from '../src/contexts/DataContext';
@@ -569,6 +570,113 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ settings, setSetting
                           placeholder="GB 123 4567 89"
                         />
                       </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-2">
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">VAT Periods (Stagger)</label>
+                          <select
+                            className="w-full bg-slate-50 border-2 border-slate-100 rounded-[16px] p-4 outline-none text-slate-900 font-bold text-sm focus:border-teal-400 focus:bg-white transition-all"
+                            value={settings.vatStagger || 1}
+                            onChange={e => setSettings({ ...settings, vatStagger: parseInt(e.target.value) as VatStagger })}
+                          >
+                            {([1, 2, 3] as VatStagger[]).map(stagger => (
+                              <option key={stagger} value={stagger}>{VAT_STAGGER_LABELS[stagger]}</option>
+                            ))}
+                          </select>
+                        </div>
+                        <div className="space-y-2">
+                          <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">VAT Scheme</label>
+                          <select
+                            className="w-full bg-slate-50 border-2 border-slate-100 rounded-[16px] p-4 outline-none text-slate-900 font-bold text-sm focus:border-teal-400 focus:bg-white transition-all"
+                            value={settings.vatScheme || 'standard'}
+                            onChange={e => setSettings({ ...settings, vatScheme: e.target.value as VatScheme })}
+                          >
+                            {(Object.keys(VAT_SCHEME_LABELS) as VatScheme[]).map(scheme => (
+                              <option key={scheme} value={scheme}>{VAT_SCHEME_LABELS[scheme]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      </div>
+
+                      {settings.vatScheme === 'flat_rate' && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="space-y-2">
+                            <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">Flat Rate Business Type</label>
+                            <select
+                              className="w-full bg-slate-50 border-2 border-slate-100 rounded-[16px] p-4 outline-none text-slate-900 font-bold text-sm focus:border-teal-400 focus:bg-white transition-all"
+                              value={settings.vatFlatRateCategory || 'general_building'}
+                              onChange={e => setSettings({ ...settings, vatFlatRateCategory: e.target.value })}
+                            >
+                              {Object.entries(FRS_RATES).map(([key, { rate, label }]) => (
+                                <option key={key} value={key}>{label} ({rate}%)</option>
+                              ))}
+                            </select>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setSettings({ ...settings, vatFlatRateFirstYear: !settings.vatFlatRateFirstYear })}
+                            className="flex items-center justify-between gap-4 bg-slate-50 border-2 border-slate-100 rounded-[16px] p-4 text-left md:mt-6"
+                          >
+                            <span>
+                              <span className="block text-sm font-bold text-slate-900">First year of registration</span>
+                              <span className="block text-[10px] text-slate-500">{FRS_FIRST_YEAR_DISCOUNT}% off the flat rate until your first anniversary</span>
+                            </span>
+                            <span className={`relative w-14 h-8 shrink-0 rounded-full transition-colors ${settings.vatFlatRateFirstYear ? "bg-teal-500" : "bg-slate-300"}`}>
+                              <span className={`absolute top-1 w-6 h-6 rounded-full bg-white shadow transition-all ${settings.vatFlatRateFirstYear ? "left-7" : "left-1"}`} />
+                            </span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* CIS Contractor Section */}
+                <div className="p-10 border-t border-slate-100 space-y-3 md:space-y-6">
+                  <div className="flex items-center justify-between bg-blue-50 p-7 rounded-[32px] border border-blue-100">
+                    <div className="flex gap-4">
+                      <div className="p-3 bg-white rounded-2xl border border-blue-200 shadow-sm flex items-center justify-center text-blue-600"><ShieldCheck size={20}/></div>
+                      <div>
+                        <p className="text-sm font-black text-slate-900 uppercase tracking-tight">CIS Contractor</p>
+                        <p className="text-[10px] font-medium text-slate-500 italic mt-0.5">Toggle if you pay subcontractors under the Construction Industry Scheme.</p>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => setSettings({ ...settings, isCisContractor: !settings.isCisContractor })}
+                      className={`relative w-14 h-8 rounded-full transition-colors ${settings.isCisContractor ? "bg-blue-500" : "bg-slate-300"}`}>
+                      <div className={`absolute top-1 w-6 h-6 rounded-full bg-white shadow transition-all ${settings.isCisContractor ? "left-7" : "left-1"}`} />
+                    </button>
+                  </div>
+
+                  {settings.isCisContractor && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-2">
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">Contractor UTR</label>
+                        <div className="flex items-center bg-slate-50 border-2 border-slate-100 rounded-[20px] px-5 focus-within:border-blue-400 focus-within:bg-white transition-all">
+                          <Hash size={18} className="text-slate-400 mr-3 shrink-0" />
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            className="w-full bg-transparent border-none py-5 outline-none text-slate-900 font-bold text-sm"
+                            value={settings.cisUtr || ''}
+                            onChange={e => setSettings({...settings, cisUtr: e.target.value})}
+                            placeholder="1234567890"
+                          />
+                        </div>
+                      </div>
+                      <div className="space-y-2">
+                        <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">Accounts Office Reference</label>
+                        <div className="flex items-center bg-slate-50 border-2 border-slate-100 rounded-[20px] px-5 focus-within:border-blue-400 focus-within:bg-white transition-all">
+                          <Hash size={18} className="text-slate-400 mr-3 shrink-0" />
+                          <input
+                            type="text"
+                            className="w-full bg-transparent border-none py-5 outline-none text-slate-900 font-bold text-sm"
+                            value={settings.cisAccountsOfficeReference || ''}
+                            onChange={e => setSettings({...settings, cisAccountsOfficeReference: e.target.value.toUpperCase()})}
+                            placeholder="123PA00012345"
+                          />
+                        </div>
+                      </div>
                     </div>
                   )}
                 </div>
@@ -777,6 +885,20 @@ export const SettingsPage: React.FC<SettingsPageProps> = ({ settings, setSetting
                     </div>
                   </div>
 
+                  <div className="space-y-2">
+                    <label className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] px-1 italic">Credit Note Reference Prefix</label>
+                    <div className="flex items-center bg-slate-50 border-2 border-slate-100 rounded-[20px] px-5 focus-within:border-emerald-400 focus-within:bg-white transition-all">
+                      <Hash size={18} className="text-slate-400 mr-3 shrink-0" />
+                      <input
+                        type="text"
+                        className="w-full bg-transparent border-none py-5 outline-none text-slate-900 font-bold text-sm"
+                        value={settings.creditNotePrefix || ''}
+                        onChange={e => setSettings({...settings, creditNotePrefix: e.target.value.toUpperCase()})}
+                        placeholder="CN-"
+                      />
+                    </div>
+                  </div>
+
                   <div className="space-y-4">
                     <div className="flex items-center gap-2 px-1">
                       <Calendar size={16} className="text-emerald-500" />
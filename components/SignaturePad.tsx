@@ -0,0 +1,98 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { Eraser } from 'lucide-react';
+
+interface SignaturePadProps {
+  // PNG data URL of the signature, or '' once cleared
+  onChange: (dataUrl: string) => void;
+  height?: number;
+}
+
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, height = 160 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  // Match the canvas resolution to its displayed size so strokes stay sharp
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = canvas.offsetWidth * ratio;
+    canvas.height = height * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#0f172a';
+  }, [height]);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const { x, y } = getPoint(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current || !canvasRef.current) return;
+    drawingRef.current = false;
+    setHasSignature(true);
+    onChange(canvasRef.current.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+    onChange('');
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        className="w-full bg-white border-2 border-dashed border-slate-300 rounded-xl touch-none cursor-crosshair"
+        style={{ height }}
+      />
+      {!hasSignature && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-slate-400 font-medium pointer-events-none">
+          Sign here
+        </p>
+      )}
+      {hasSignature && (
+        <button
+          type="button"
+          onClick={handleClear}
+          className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 bg-slate-100 text-slate-600 rounded-lg text-xs font-bold hover:bg-slate-200"
+        >
+          <Eraser size={12} /> Clear
+        </button>
+      )}
+    </div>
+  );
+};
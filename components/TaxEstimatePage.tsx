@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { ArrowLeft, AlertTriangle, Loader2, PiggyBank } from 'lucide-react';
+import { useTaxEstimate } from '../src/hooks/useTaxEstimate';
+import { PAYMENT_KIND_LABELS } from '../src/utils/selfAssessment';
+
+interface TaxEstimatePageProps {
+  onBack?: () => void;
+}
+
+type EstimateBasis = 'to_date' | 'full_year';
+
+const formatCurrency = (amount: number) =>
+  `${amount < 0 ? '-' : ''}£${Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+export const TaxEstimatePage: React.FC<TaxEstimatePageProps> = ({ onBack }) => {
+  const { years, schedule, nextPayments, loading } = useTaxEstimate();
+  // The two years before the current one only set payments on account; show the last and current
+  const shownYears = years.slice(-2);
+  const [selectedYear, setSelectedYear] = useState(shownYears[shownYears.length - 1].taxYear);
+  const [basis, setBasis] = useState<EstimateBasis>('full_year');
+
+  const position = shownYears.find(y => y.taxYear === selectedYear) || shownYears[shownYears.length - 1];
+  const estimate = position.inProgress && basis === 'to_date' ? position.estimate : position.fullYear;
+  const nextDueDate = nextPayments[0]?.dueDate;
+  const reconciliation = !position.inProgress || basis === 'to_date' ? position.reconciliation : null;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16">
+        <Loader2 size={28} className="animate-spin text-slate-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center gap-2 md:gap-3 mb-6">
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+            aria-label="Go back"
+          >
+            <ArrowLeft size={22} className="md:w-5 md:h-5" />
+          </button>
+        )}
+        <div>
+          <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Tax Estimate</h1>
+          <p className="text-slate-500 text-sm font-medium italic">Self Assessment on your cash-basis trading profit and when to pay it</p>
+        </div>
+      </div>
+
+      {/* Tax years */}
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        {shownYears.map(y => (
+          <button
+            key={y.taxYear}
+            onClick={() => setSelectedYear(y.taxYear)}
+            className={`px-4 py-2 rounded-xl text-sm font-bold whitespace-nowrap transition-colors ${position.taxYear === y.taxYear ? 'bg-slate-900 text-white' : 'bg-white border-2 border-slate-100 text-slate-600 hover:bg-slate-50'}`}
+          >
+            {y.taxYear}
+          </button>
+        ))}
+        {position.inProgress && (
+          <select
+            value={basis}
+            onChange={e => setBasis(e.target.value as EstimateBasis)}
+            className="ml-auto px-3 py-2 rounded-xl border-2 border-slate-100 bg-white text-sm font-bold text-slate-600 outline-none"
+          >
+            <option value="full_year">Full year (projected)</option>
+            <option value="to_date">Profit so far</option>
+          </select>
+        )}
+      </div>
+
+      {estimate.ratesTaxYear !== estimate.taxYear && (
+        <div className="flex items-start gap-3 bg-amber-50 border-2 border-amber-100 rounded-2xl p-4 mb-6">
+          <AlertTriangle size={20} className="text-amber-600 shrink-0 mt-0.5" />
+          <p className="text-sm text-amber-700">
+            Rates for {estimate.taxYear} aren't in the app yet, so this uses the {estimate.ratesTaxYear} rates.
+          </p>
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Profit</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(estimate.profit)}</p>
+          {position.inProgress && basis === 'full_year' && (
+            <p className="text-xs text-slate-500 mt-1">{formatCurrency(position.trading.profit)} so far</p>
+          )}
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Tax &amp; NI</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(estimate.totalTax)}</p>
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">CIS Suffered</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">{formatCurrency(estimate.cisSuffered)}</p>
+        </div>
+        <div className={`rounded-2xl p-4 md:p-5 border-2 ${estimate.liability < 0 ? 'bg-emerald-50 border-emerald-100' : 'bg-white border-slate-100'}`}>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">{estimate.liability < 0 ? 'Repayment' : 'Estimated Bill'}</p>
+          <p className={`text-xl md:text-2xl font-black ${estimate.liability < 0 ? 'text-emerald-600' : 'text-slate-900'}`}>{formatCurrency(Math.abs(estimate.liability))}</p>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-4 md:gap-6">
+        {/* Calculation */}
+        <div className="bg-white rounded-2xl border-2 border-slate-100 overflow-hidden">
+          <div className="px-4 py-3 bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-wider">How it's worked out (cash basis)</div>
+          <table className="w-full text-sm">
+            <tbody>
+              {(!position.inProgress || basis === 'to_date') && (
+                <>
+                  <tr className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-slate-600">Income</td>
+                    <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(position.trading.income)}</td>
+                  </tr>
+                  <tr className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-slate-600">Expenses</td>
+                    <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(-position.trading.expenses)}</td>
+                  </tr>
+                  {position.trading.mileageAllowance > 0 && (
+                    <tr className="border-t border-slate-100">
+                      <td className="px-4 py-2 text-slate-600">Mileage allowance</td>
+                      <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(-position.trading.mileageAllowance)}</td>
+                    </tr>
+                  )}
+                </>
+              )}
+              <tr className="border-t border-slate-100 bg-slate-50">
+                <td className="px-4 py-2 font-black text-slate-900">Trading profit</td>
+                <td className="px-4 py-2 text-right font-black text-slate-900">{formatCurrency(estimate.profit)}</td>
+              </tr>
+              <tr className="border-t border-slate-100">
+                <td className="px-4 py-2 text-slate-600">Personal allowance</td>
+                <td className="px-4 py-2 text-right text-slate-500">{formatCurrency(estimate.personalAllowance)}</td>
+              </tr>
+              {estimate.bands.filter(b => b.taxable > 0).map(band => (
+                <tr key={band.name} className="border-t border-slate-100">
+                  <td className="px-4 py-2 text-slate-600">{band.name} {band.rate}% on {formatCurrency(band.taxable)}</td>
+                  <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(band.tax)}</td>
+                </tr>
+              ))}
+              <tr className="border-t border-slate-100">
+                <td className="px-4 py-2 text-slate-600">Class 4 National Insurance</td>
+                <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(estimate.class4)}</td>
+              </tr>
+              {estimate.class2 > 0 && (
+                <tr className="border-t border-slate-100">
+                  <td className="px-4 py-2 text-slate-600">Class 2 National Insurance</td>
+                  <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(estimate.class2)}</td>
+                </tr>
+              )}
+              {estimate.cisSuffered > 0 && (
+                <tr className="border-t border-slate-100">
+                  <td className="px-4 py-2 text-slate-600">Less CIS suffered</td>
+                  <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(-estimate.cisSuffered)}</td>
+                </tr>
+              )}
+              <tr className="border-t-2 border-slate-200 bg-slate-50">
+                <td className="px-4 py-3 font-black text-slate-900">{estimate.liability < 0 ? 'Repayment due' : 'Estimated bill'}</td>
+                <td className={`px-4 py-3 text-right font-black ${estimate.liability < 0 ? 'text-emerald-600' : 'text-slate-900'}`}>{formatCurrency(Math.abs(estimate.liability))}</td>
+              </tr>
+            </tbody>
+          </table>
+          {reconciliation && (
+            <>
+              <div className="px-4 py-3 bg-slate-50 border-t-2 border-slate-100 text-[10px] font-black text-slate-400 uppercase tracking-wider">Against the Profit &amp; Loss</div>
+              <table className="w-full text-sm">
+                <tbody>
+                  <tr className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-slate-600">Profit &amp; Loss profit (invoices when issued)</td>
+                    <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(reconciliation.ledgerProfit)}</td>
+                  </tr>
+                  <tr className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-slate-600">Income received less income invoiced</td>
+                    <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(reconciliation.incomeTiming)}</td>
+                  </tr>
+                  <tr className="border-t border-slate-100">
+                    <td className="px-4 py-2 text-slate-600">Bills and other costs only on the Profit &amp; Loss</td>
+                    <td className="px-4 py-2 text-right font-bold text-slate-900">{formatCurrency(reconciliation.costDifference)}</td>
+                  </tr>
+                  <tr className="border-t border-slate-100 bg-slate-50">
+                    <td className="px-4 py-2 font-black text-slate-900">Cash-basis profit</td>
+                    <td className="px-4 py-2 text-right font-black text-slate-900">{formatCurrency(reconciliation.cashProfit)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {/* Payments */}
+        <div className="bg-white rounded-2xl border-2 border-slate-100 overflow-hidden">
+          <div className="px-4 py-3 bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-wider">Payments</div>
+          {schedule.length === 0 ? (
+            <div className="p-8 text-center text-slate-400">
+              <PiggyBank size={32} className="mx-auto mb-2" />
+              <p className="text-sm">Nothing to pay on these figures</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100">
+              {schedule.map(payment => (
+                <div
+                  key={`${payment.dueDate}-${payment.taxYear}-${payment.kind}`}
+                  className={`flex items-center justify-between gap-3 px-4 py-3 ${payment.dueDate === nextDueDate ? 'bg-teal-50' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <p className="font-bold text-slate-900 text-sm">{formatDate(payment.dueDate)}</p>
+                    <p className="text-xs text-slate-500">{PAYMENT_KIND_LABELS[payment.kind]} {payment.taxYear}</p>
+                  </div>
+                  <p className={`font-black text-sm ${payment.amount < 0 ? 'text-emerald-600' : 'text-slate-900'}`}>
+                    {payment.amount < 0 ? `${formatCurrency(-payment.amount)} back` : formatCurrency(payment.amount)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="px-4 py-3 text-xs text-slate-400 border-t border-slate-100">
+            The current year uses projected profit. Payments already made to HMRC aren't taken off.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Scale, Download, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { useToast } from '../src/contexts/ToastContext';
+import { ledgerService } from '../src/services/dataService';
+import { handleApiError } from '../src/utils/errorHandler';
+import {
+  buildTrialBalance,
+  toLedgerAccount,
+  toLedgerAccountTotal,
+  trialBalanceToCsv,
+  LEDGER_ACCOUNT_TYPE_LABELS,
+  type LedgerAccount,
+  type LedgerAccountTotal,
+  type LedgerAccountType,
+} from '../src/utils/ledger';
+
+interface TrialBalancePageProps {
+  onBack?: () => void;
+}
+
+const formatCurrency = (amount: number) => `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const ACCOUNT_TYPES: LedgerAccountType[] = ['asset', 'liability', 'equity', 'income', 'expense'];
+
+export const TrialBalancePage: React.FC<TrialBalancePageProps> = ({ onBack }) => {
+  const toast = useToast();
+  const [asOf, setAsOf] = useState(new Date().toISOString().split('T')[0]);
+  const [accounts, setAccounts] = useState<LedgerAccount[]>([]);
+  const [totals, setTotals] = useState<LedgerAccountTotal[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [accountRows, totalRows] = await Promise.all([
+          ledgerService.getAccounts(),
+          ledgerService.getAccountTotals(undefined, asOf),
+        ]);
+        if (cancelled) return;
+        setAccounts((accountRows || []).map(toLedgerAccount));
+        setTotals((totalRows || []).map(toLedgerAccountTotal));
+      } catch (error) {
+        const { message } = handleApiError(error);
+        toast.error('Failed to Load Ledger', message);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [asOf]);
+
+  const trialBalance = useMemo(() => buildTrialBalance(accounts, totals), [accounts, totals]);
+
+  const handleExport = () => {
+    const blob = new Blob([trialBalanceToCsv(trialBalance)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `trial_balance_${asOf}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-2 md:gap-3">
+          {onBack && (
+            <button
+              onClick={onBack}
+              className="p-2.5 md:p-2 -ml-1 md:-ml-2 text-slate-500 hover:text-slate-700 bg-slate-100 md:bg-transparent hover:bg-slate-200 md:hover:bg-slate-100 rounded-xl transition-colors active:scale-95 min-w-[44px] min-h-[44px] flex items-center justify-center"
+              aria-label="Go back"
+            >
+              <ArrowLeft size={22} className="md:w-5 md:h-5" />
+            </button>
+          )}
+          <div>
+            <h1 className="text-2xl md:text-3xl font-black text-slate-900 tracking-tight">Trial Balance</h1>
+            <p className="text-slate-500 text-sm font-medium italic">Every account in the general ledger</p>
+          </div>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={loading || trialBalance.rows.length === 0}
+          className="flex items-center gap-2 px-4 py-2.5 bg-slate-900 text-white rounded-xl font-bold text-sm hover:bg-slate-800 transition-colors disabled:opacity-50"
+        >
+          <Download size={16} /> Export CSV
+        </button>
+      </div>
+
+      {/* As-of date and balance check */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4 mb-6">
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-wider block mb-1">As At</label>
+          <input
+            type="date"
+            value={asOf}
+            onChange={e => e.target.value && setAsOf(e.target.value)}
+            className="w-full text-lg font-black text-slate-900 outline-none bg-transparent"
+          />
+        </div>
+        <div className="bg-white rounded-2xl p-4 md:p-5 border-2 border-slate-100">
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Debits / Credits</p>
+          <p className="text-xl md:text-2xl font-black text-slate-900">
+            {formatCurrency(trialBalance.totalDebit)} / {formatCurrency(trialBalance.totalCredit)}
+          </p>
+        </div>
+        <div className={`rounded-2xl p-4 md:p-5 border-2 ${trialBalance.isBalanced ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-100'}`}>
+          <p className={`flex items-center gap-2 font-black ${trialBalance.isBalanced ? 'text-emerald-700' : 'text-red-700'}`}>
+            {trialBalance.isBalanced ? <CheckCircle2 size={18} /> : <AlertTriangle size={18} />}
+            {trialBalance.isBalanced ? 'Balanced' : 'Out of balance'}
+          </p>
+          <p className="text-xs text-slate-500 mt-1">
+            {trialBalance.isBalanced
+              ? 'Debits equal credits across the ledger'
+              : `Difference of ${formatCurrency(Math.abs(trialBalance.totalDebit - trialBalance.totalCredit))}`}
+          </p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-16">
+          <Loader2 size={28} className="animate-spin text-slate-400" />
+        </div>
+      ) : trialBalance.rows.length === 0 ? (
+        <div className="bg-white rounded-2xl border-2 border-slate-100 p-10 text-center">
+          <Scale size={40} className="mx-auto text-slate-400 mb-3" />
+          <p className="font-black text-slate-900">Nothing posted yet</p>
+          <p className="text-sm text-slate-500 mt-1">Issued invoices, payments, expenses, bills and reconciled bank lines post here automatically.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-2xl border-2 border-slate-100 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="bg-slate-50 text-[10px] font-black text-slate-400 uppercase tracking-wider">
+                <th className="text-left px-4 py-3">Account</th>
+                <th className="text-right px-4 py-3">Debit</th>
+                <th className="text-right px-4 py-3">Credit</th>
+              </tr>
+            </thead>
+            {ACCOUNT_TYPES.map(type => {
+              const rows = trialBalance.rows.filter(row => row.account.type === type);
+              if (rows.length === 0) return null;
+              return (
+                <tbody key={type}>
+                  <tr>
+                    <td colSpan={3} className="px-4 pt-4 pb-1 text-xs font-black text-slate-500 uppercase tracking-wider">
+                      {LEDGER_ACCOUNT_TYPE_LABELS[type]}
+                    </td>
+                  </tr>
+                  {rows.map(row => (
+                    <tr key={row.account.code} className="border-t border-slate-50">
+                      <td className="px-4 py-2">
+                        <span className="text-slate-400 font-mono text-xs mr-2">{row.account.code}</span>
+                        <span className="font-bold text-slate-900">{row.account.name}</span>
+                      </td>
+                      <td className="px-4 py-2 text-right font-mono">{row.debit ? formatCurrency(row.debit) : ''}</td>
+                      <td className="px-4 py-2 text-right font-mono">{row.credit ? formatCurrency(row.credit) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              );
+            })}
+            <tfoot>
+              <tr className="border-t-2 border-slate-200 font-black">
+                <td className="px-4 py-3">Total</td>
+                <td className="px-4 py-3 text-right font-mono">{formatCurrency(trialBalance.totalDebit)}</td>
+                <td className="px-4 py-3 text-right font-mono">{formatCurrency(trialBalance.totalCredit)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
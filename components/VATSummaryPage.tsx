@@ -3,83 +3,50 @@ import {
   Calculator, TrendingUp, TrendingDown, PoundSterling,
   Calendar, ChevronDown, Loader2, FileText, Receipt,
   ArrowUpRight, ArrowDownRight, Building2, AlertCircle,
-  Download, Car, Clock, CheckCircle, Info, Percent, ArrowLeft
+  Download, Car, Clock, CheckCircle, Info, Percent, ArrowLeft, Repeat, Lock, Send, Link2
 } from 'lucide-react';
-import { expensesService, quotesService } from '../src/services/dataService';
+import { expensesService, quotesService, payablesService, invoicePaymentsService, vatReturnsService, vehiclesService, mileageTripsService } from '../src/services/dataService';
 import { useData } from '../src/contexts/DataContext';
-
-interface Expense {
-  id: string;
-  vendor: string;
-  amount: number;
-  vat_amount: number;
-  expense_date: string;
-  category: string;
-}
-
-interface Invoice {
-  id: string;
-  reference_number: number;
-  subtotal: number;
-  vat: number;
-  total: number;
-  updated_at: string;
-  status: string;
-  type: string;
-}
-
-interface QuarterSummary {
-  quarter: string;
-  label: string;
-  inputVat: number;
-  outputVat: number;
-  netVat: number;
-  expenseCount: number;
-  invoiceCount: number;
-  deadline: Date;
-  isSubmitted?: boolean;
-}
-
-// Flat Rate Scheme percentages by business type
-const FRS_RATES: Record<string, { rate: number; label: string }> = {
-  'general_building': { rate: 9.5, label: 'General building/construction' },
-  'labour_only': { rate: 14.5, label: 'Labour-only building services' },
-  'electrical': { rate: 10.5, label: 'Electrical/plumbing services' },
-  'architect': { rate: 14.5, label: 'Architect/surveying' },
-  'other': { rate: 12.0, label: 'Other services' },
-};
+import { useToast } from '../src/contexts/ToastContext';
+import { handleApiError } from '../src/utils/errorHandler';
+import {
+  getHmrcConnection,
+  connectToHmrc,
+  getVatObligations,
+  getVatLiabilities,
+  submitVatReturn,
+  type VatObligation,
+  type VatLiability,
+} from '../src/lib/mtdVat';
+import { normaliseVrn } from '../supabase/functions/_shared/mtdVatClient.ts';
+import { getRowTotals } from '../src/utils/quoteCalculations';
+import {
+  getVatSettings,
+  buildVatEntries,
+  summariseVatPeriods,
+  totalVatEntries,
+  VAT_SCHEME_LABELS,
+  VAT_STAGGER_LABELS,
+  type VatInvoiceRow,
+  type VatPaymentRow,
+  type VatExpenseRow,
+  type VatBillRow,
+} from '../src/utils/vatPeriods';
+import {
+  applyFiledReturns,
+  buildVatReturnBoxes,
+  prepareVatReturn,
+  toFiledVatReturn,
+  toVatReturnRow,
+  VAT_RETURN_BOX_LABELS,
+  type FiledVatReturn,
+  type VatReturnBoxes,
+} from '../src/utils/vatReturn';
+import { buildFuelVatEntries, isAdvisoryFuelExpense, toMileageTrip, toVehicle, type MileageTrip, type Vehicle } from '../src/utils/mileage';
 
 const VAT_RATE = 0.20; // 20% UK standard rate
-const MILEAGE_RATE = 0.45; // HMRC approved mileage rate
-const FUEL_VAT_PER_MILE = 0.02; // Approximate recoverable VAT on fuel
-
-const getQuarter = (date: Date): string => {
-  const month = date.getMonth();
-  const year = date.getFullYear();
-  const quarter = Math.floor(month / 3) + 1;
-  return `${year}-Q${quarter}`;
-};
 
-const getQuarterLabel = (quarterStr: string): string => {
-  const [year, q] = quarterStr.split('-Q');
-  const quarterNames: Record<string, string> = {
-    '1': 'Jan - Mar',
-    '2': 'Apr - Jun',
-    '3': 'Jul - Sep',
-    '4': 'Oct - Dec',
-  };
-  return `${quarterNames[q]} ${year}`;
-};
-
-const getQuarterDeadline = (quarterStr: string): Date => {
-  const [year, q] = quarterStr.split('-Q');
-  const quarterNum = parseInt(q);
-  // Deadline is 1 month and 7 days after quarter end
-  const deadlineMonth = quarterNum * 3 + 1; // Month after quarter end
-  const deadlineYear = deadlineMonth > 12 ? parseInt(year) + 1 : parseInt(year);
-  const adjustedMonth = deadlineMonth > 12 ? deadlineMonth - 12 : deadlineMonth;
-  return new Date(deadlineYear, adjustedMonth - 1, 7);
-};
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
 
 interface VATSummaryPageProps {
   onBack?: () => void;
@@ -87,28 +54,79 @@ interface VATSummaryPageProps {
 
 export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
   const { settings } = useData();
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const toast = useToast();
+  const [expenses, setExpenses] = useState<VatExpenseRow[]>([]);
+  const [invoices, setInvoices] = useState<VatInvoiceRow[]>([]);
+  const [payments, setPayments] = useState<VatPaymentRow[]>([]);
+  const [bills, setBills] = useState<VatBillRow[]>([]);
+  const [filedReturns, setFiledReturns] = useState<FiledVatReturn[]>([]);
+  const [filing, setFiling] = useState(false);
+  const [hmrcConnected, setHmrcConnected] = useState(false);
+  const [obligations, setObligations] = useState<VatObligation[]>([]);
+  const [liabilities, setLiabilities] = useState<VatLiability[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedQuarter, setSelectedQuarter] = useState<string | 'all'>('all');
-  const [vatScheme, setVatScheme] = useState<'standard' | 'flat_rate'>('standard');
-  const [frsBusinessType, setFrsBusinessType] = useState('general_building');
-  const [showMileageCalc, setShowMileageCalc] = useState(false);
-  const [businessMiles, setBusinessMiles] = useState('');
+  const [selectedPeriod, setSelectedPeriod] = useState<string | 'all'>('all');
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [trips, setTrips] = useState<MileageTrip[]>([]);
+  const [showFuelVat, setShowFuelVat] = useState(false);
+
+  const vatSettings = getVatSettings(settings);
+
+  const vrn = settings.vatNumber ? normaliseVrn(settings.vatNumber) : '';
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Back from HMRC sign-in
+  useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get('hmrc');
+    if (!result) return;
+    if (result === 'connected') toast.success('Connected to HMRC', 'VAT returns can now be submitted directly');
+    else toast.error('HMRC Connection Failed', result.replace(/_/g, ' '));
+    window.history.replaceState({}, document.title, window.location.pathname);
+  }, []);
+
+  // Obligations and liabilities for the last two years, once connected
+  useEffect(() => {
+    if (!vrn) return;
+    getHmrcConnection()
+      .then(async ({ connected }) => {
+        setHmrcConnected(connected);
+        if (!connected) return;
+        const to = new Date().toISOString().split('T')[0];
+        const from = new Date(Date.now() - 2 * 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        const [obligationData, liabilityData] = await Promise.all([
+          getVatObligations(vrn, from, to),
+          getVatLiabilities(vrn, from, to),
+        ]);
+        setObligations(obligationData);
+        setLiabilities(liabilityData);
+      })
+      .catch(error => console.error('Failed to load HMRC VAT data:', error));
+  }, [vrn]);
+
   const loadData = async () => {
     setLoading(true);
     try {
-      const [expData, quoteData] = await Promise.all([
+      const [expData, quoteData, paymentData, payableData, returnData, vehicleData, tripData] = await Promise.all([
         expensesService.getAll(),
         quotesService.getAll(),
+        invoicePaymentsService.getAll(),
+        payablesService.getAll(),
+        vatReturnsService.getAll(),
+        vehiclesService.getAll(),
+        mileageTripsService.getAll(),
       ]);
       setExpenses(expData || []);
-      setInvoices((quoteData || []).filter((q: any) => q.type === 'invoice' && q.status === 'paid'));
+      setInvoices((quoteData || [])
+        .filter((q: any) => q.type === 'invoice' || q.type === 'credit_note')
+        .map((q: any) => ({ ...q, ...getRowTotals(q, settings) })));
+      setPayments(paymentData || []);
+      setBills(payableData || []);
+      setFiledReturns((returnData || []).map(toFiledVatReturn));
+      setVehicles((vehicleData || []).map(toVehicle));
+      setTrips((tripData || []).map(toMileageTrip));
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -116,172 +134,102 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
     }
   };
 
-  // Calculate quarterly summaries
-  const quarterSummaries = useMemo(() => {
-    const summaryMap = new Map<string, QuarterSummary>();
-
-    expenses.forEach(exp => {
-      const quarter = getQuarter(new Date(exp.expense_date));
-      const existing = summaryMap.get(quarter) || {
-        quarter,
-        label: getQuarterLabel(quarter),
-        inputVat: 0,
-        outputVat: 0,
-        netVat: 0,
-        expenseCount: 0,
-        invoiceCount: 0,
-        deadline: getQuarterDeadline(quarter),
-      };
-      existing.inputVat += exp.vat_amount || 0;
-      existing.expenseCount += 1;
-      summaryMap.set(quarter, existing);
-    });
-
-    invoices.forEach(inv => {
-      const quarter = getQuarter(new Date(inv.updated_at));
-      const existing = summaryMap.get(quarter) || {
-        quarter,
-        label: getQuarterLabel(quarter),
-        inputVat: 0,
-        outputVat: 0,
-        netVat: 0,
-        expenseCount: 0,
-        invoiceCount: 0,
-        deadline: getQuarterDeadline(quarter),
-      };
-      existing.outputVat += inv.vat || 0;
-      existing.invoiceCount += 1;
-      summaryMap.set(quarter, existing);
-    });
-
-    const summaries = Array.from(summaryMap.values())
-      .map(s => ({ ...s, netVat: s.outputVat - s.inputVat }))
-      .sort((a, b) => b.quarter.localeCompare(a.quarter));
-
-    return summaries;
-  }, [expenses, invoices]);
+  // Every sale and purchase, dated by the tax point of the configured scheme,
+  // plus fuel VAT from the mileage log in place of advisory-rate fuel receipts,
+  // with filed periods frozen and late changes carried forward
+  const entries = useMemo(
+    () => applyFiledReturns(
+      [
+        ...buildVatEntries({
+          invoices,
+          payments,
+          expenses: expenses.filter(e => !isAdvisoryFuelExpense(e, vehicles)),
+          bills,
+        }, vatSettings.scheme),
+        ...buildFuelVatEntries(trips, vehicles, vatSettings),
+      ],
+      filedReturns,
+      vatSettings.stagger
+    ),
+    [invoices, payments, expenses, bills, trips, vehicles, filedReturns, vatSettings.scheme, vatSettings.stagger]
+  );
 
-  const availableQuarters = useMemo(() => {
-    return ['all', ...quarterSummaries.map(s => s.quarter)];
-  }, [quarterSummaries]);
+  // One summary per VAT return, latest first
+  const periodSummaries = useMemo(
+    () => summariseVatPeriods(entries, vatSettings),
+    [entries, vatSettings.stagger, vatSettings.scheme, vatSettings.flatRateCategory, vatSettings.flatRateFirstYear]
+  );
 
-  // Filter data by selected quarter
+  // Filter data by selected period
   const filteredData = useMemo(() => {
-    if (selectedQuarter === 'all') {
-      return {
-        expenses,
-        invoices,
-        summary: quarterSummaries.reduce(
-          (acc, s) => ({
-            inputVat: acc.inputVat + s.inputVat,
-            outputVat: acc.outputVat + s.outputVat,
-            netVat: acc.netVat + s.netVat,
-            expenseCount: acc.expenseCount + s.expenseCount,
-            invoiceCount: acc.invoiceCount + s.invoiceCount,
-            grossSales: acc.grossSales,
-          }),
-          { inputVat: 0, outputVat: 0, netVat: 0, expenseCount: 0, invoiceCount: 0, grossSales: 0 }
-        ),
-      };
+    const selected = periodSummaries.find(s => s.period.key === selectedPeriod);
+    if (selected) {
+      return { entries: selected.entries, summary: selected };
     }
+    return { entries, summary: totalVatEntries(entries, vatSettings) };
+  }, [selectedPeriod, entries, periodSummaries]);
 
-    const quarterStart = new Date(selectedQuarter.replace('-Q', '-0') + '-01');
-    const quarterNum = parseInt(selectedQuarter.split('Q')[1]);
-    quarterStart.setMonth((quarterNum - 1) * 3);
-    const quarterEnd = new Date(quarterStart);
-    quarterEnd.setMonth(quarterEnd.getMonth() + 3);
-
-    const filteredExpenses = expenses.filter(e => {
-      const d = new Date(e.expense_date);
-      return d >= quarterStart && d < quarterEnd;
-    });
-
-    const filteredInvoices = invoices.filter(i => {
-      const d = new Date(i.updated_at);
-      return d >= quarterStart && d < quarterEnd;
-    });
+  const selectedLabel = periodSummaries.find(s => s.period.key === selectedPeriod)?.period.label || 'All Time';
+  const selectedFiled = filedReturns.find(r => r.periodKey === selectedPeriod);
+  const todayISO = new Date().toISOString().split('T')[0];
 
-    const inputVat = filteredExpenses.reduce((sum, e) => sum + (e.vat_amount || 0), 0);
-    const outputVat = filteredInvoices.reduce((sum, i) => sum + (i.vat || 0), 0);
-    const grossSales = filteredInvoices.reduce((sum, i) => sum + i.total, 0);
-
-    return {
-      expenses: filteredExpenses,
-      invoices: filteredInvoices,
-      summary: {
-        inputVat,
-        outputVat,
-        netVat: outputVat - inputVat,
-        expenseCount: filteredExpenses.length,
-        invoiceCount: filteredInvoices.length,
-        grossSales,
-      },
-    };
-  }, [selectedQuarter, expenses, invoices, quarterSummaries]);
+  // A filed period shows the boxes exactly as filed
+  const returnBoxes: VatReturnBoxes = selectedFiled?.boxes || buildVatReturnBoxes(filteredData.summary, vatSettings.scheme);
 
   // Flat Rate Scheme calculation
   const frsCalculation = useMemo(() => {
-    const rate = FRS_RATES[frsBusinessType]?.rate || 12.0;
-    const grossSales = invoices.reduce((sum, i) => sum + i.total, 0);
-    const vatDue = grossSales * (rate / 100);
-    const keepAmount = filteredData.summary.outputVat - vatDue;
-    return { rate, grossSales, vatDue, keepAmount };
-  }, [invoices, frsBusinessType, filteredData.summary.outputVat]);
-
-  // Mileage VAT calculation
-  const mileageVat = useMemo(() => {
-    const miles = parseFloat(businessMiles) || 0;
-    return miles * FUEL_VAT_PER_MILE;
-  }, [businessMiles]);
+    const { grossSales, flatRatePercent, flatRateVat, salesVat } = filteredData.summary;
+    return { rate: flatRatePercent, grossSales, vatDue: flatRateVat, keepAmount: salesVat - flatRateVat };
+  }, [filteredData.summary]);
+
+  // Fuel VAT from the mileage log in the selected period
+  const fuelEntries = useMemo(
+    () => filteredData.entries.filter(e => e.source === 'fuel'),
+    [filteredData.entries]
+  );
 
   // Category breakdown for expenses
   const categoryBreakdown = useMemo(() => {
     const categories = new Map<string, { amount: number; vat: number; count: number }>();
-    filteredData.expenses.forEach(exp => {
+    filteredData.entries.filter(e => e.source === 'expense').forEach(exp => {
       const cat = exp.category || 'other';
       const existing = categories.get(cat) || { amount: 0, vat: 0, count: 0 };
-      existing.amount += exp.amount;
-      existing.vat += exp.vat_amount || 0;
+      existing.amount += exp.net;
+      existing.vat += exp.vat;
       existing.count += 1;
       categories.set(cat, existing);
     });
     return Array.from(categories.entries())
       .map(([category, data]) => ({ category, ...data }))
       .sort((a, b) => b.vat - a.vat);
-  }, [filteredData.expenses]);
+  }, [filteredData.entries]);
 
   // Export VAT report
   const handleExportReport = () => {
+    const { summary } = filteredData;
     const report = {
-      period: selectedQuarter === 'all' ? 'All Time' : getQuarterLabel(selectedQuarter),
+      period: selectedLabel,
       generated: new Date().toISOString(),
-      scheme: vatScheme === 'flat_rate' ? `Flat Rate (${FRS_RATES[frsBusinessType]?.rate}%)` : 'Standard VAT',
-      summary: {
-        box1_vatDueSales: filteredData.summary.outputVat.toFixed(2),
-        box2_vatDueAcquisitions: '0.00',
-        box3_totalVatDue: filteredData.summary.outputVat.toFixed(2),
-        box4_vatReclaimedInputs: vatScheme === 'standard' ? filteredData.summary.inputVat.toFixed(2) : '0.00',
-        box5_netVatPayable: vatScheme === 'standard'
-          ? filteredData.summary.netVat.toFixed(2)
-          : frsCalculation.vatDue.toFixed(2),
-        box6_totalSalesExVat: (invoices.reduce((sum, i) => sum + i.subtotal, 0)).toFixed(2),
-        box7_totalPurchasesExVat: (expenses.reduce((sum, e) => sum + e.amount, 0)).toFixed(2),
-        box8_totalGoodsSuppliedEU: '0.00',
-        box9_totalGoodsAcquiredEU: '0.00',
+      scheme: vatSettings.scheme === 'flat_rate'
+        ? `Flat Rate (${summary.flatRatePercent}%)`
+        : VAT_SCHEME_LABELS[vatSettings.scheme],
+      filed: selectedFiled ? selectedFiled.submittedAt : null,
+      boxes: returnBoxes,
+      netPosition: summary.netVat >= 0 ? 'payable' : 'repayable',
+      // Included above: purchase VAT in boxes 1 and 4, sales in box 6 with no VAT
+      reverseCharge: {
+        salesNet: summary.reverseChargeSales.toFixed(2),
+        salesVatForCustomers: summary.reverseChargeSalesVat.toFixed(2),
+        purchasesVat: summary.reverseChargeVat.toFixed(2),
       },
-      expenses: filteredData.expenses.map(e => ({
-        date: e.expense_date,
-        vendor: e.vendor,
-        amount: e.amount,
-        vat: e.vat_amount,
-        category: e.category,
-      })),
-      invoices: filteredData.invoices.map(i => ({
-        number: i.reference_number,
-        date: i.updated_at,
-        subtotal: i.subtotal,
-        vat: i.vat,
-        total: i.total,
+      entries: filteredData.entries.map(e => ({
+        date: e.date,
+        source: e.source,
+        description: e.description,
+        net: e.net,
+        vat: e.vat,
+        reverseChargeVat: e.reverseChargeVat,
+        adjustmentFor: e.adjustmentFor || null,
       })),
     };
 
@@ -289,16 +237,77 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `vat-report-${selectedQuarter === 'all' ? 'all' : selectedQuarter}.json`;
+    a.download = `vat-report-${selectedPeriod === 'all' ? 'all' : selectedPeriod}.json`;
     a.click();
     URL.revokeObjectURL(url);
   };
 
+  // Lock the selected period: store the return and its entries
+  const handleFileReturn = async () => {
+    const summary = periodSummaries.find(s => s.period.key === selectedPeriod);
+    if (!summary || selectedFiled) return;
+    if (!confirm(`Mark ${summary.period.label} as filed? Its figures will be locked and later changes carried into the next return.`)) return;
+
+    setFiling(true);
+    try {
+      const prepared = prepareVatReturn(summary.period, entries, vatSettings);
+      const created = await vatReturnsService.create({ ...toVatReturnRow(prepared), entries: JSON.parse(JSON.stringify(prepared.entries)) });
+      setFiledReturns(prev => [toFiledVatReturn(created), ...prev]);
+      toast.success('VAT Return Filed', summary.period.label);
+    } catch (error) {
+      console.error('Failed to file VAT return:', error);
+      const { message } = handleApiError(error);
+      toast.error('Filing Failed', message);
+    } finally {
+      setFiling(false);
+    }
+  };
+
+  // The open HMRC obligation for the selected period
+  const selectedObligation = obligations.find(o => o.end === selectedPeriod && o.status === 'O');
+
+  // Submit through MTD; the edge function stores the return with HMRC's receipt
+  const handleSubmitToHmrc = async () => {
+    const summary = periodSummaries.find(s => s.period.key === selectedPeriod);
+    if (!summary || !selectedObligation || selectedFiled) return;
+    if (!confirm(
+      `Submit the ${summary.period.label} VAT return to HMRC?\n\n` +
+      'When you submit this VAT information you are making a legal declaration that the information is true and complete. ' +
+      'A false declaration can result in prosecution.'
+    )) return;
+
+    setFiling(true);
+    try {
+      const prepared = prepareVatReturn(summary.period, entries, vatSettings);
+      const { receipt, vatReturn } = await submitVatReturn(vrn, selectedObligation.periodKey, toVatReturnRow(prepared));
+      setFiledReturns(prev => [toFiledVatReturn(vatReturn), ...prev]);
+      setObligations(prev => prev.map(o => o.periodKey === selectedObligation.periodKey ? { ...o, status: 'F' } : o));
+      toast.success('Submitted to HMRC', `Receipt ${receipt.formBundleNumber}`);
+    } catch (error) {
+      console.error('Failed to submit VAT return:', error);
+      const { message } = handleApiError(error);
+      toast.error('Submission Failed', message);
+    } finally {
+      setFiling(false);
+    }
+  };
+
+  const handleConnectHmrc = async () => {
+    try {
+      await connectToHmrc();
+    } catch (error) {
+      const { message } = handleApiError(error);
+      toast.error('HMRC Connection Failed', message);
+    }
+  };
+
   // Upcoming deadline
   const upcomingDeadline = useMemo(() => {
-    const now = new Date();
-    return quarterSummaries.find(s => s.deadline > now);
-  }, [quarterSummaries]);
+    const open = periodSummaries.filter(s =>
+      s.period.deadline >= todayISO && !filedReturns.some(r => r.periodKey === s.period.key)
+    );
+    return open[open.length - 1]?.period;
+  }, [periodSummaries, filedReturns, todayISO]);
 
   if (loading) {
     return (
@@ -346,37 +355,41 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
         </div>
 
         <div className="flex flex-wrap gap-3">
-          {/* VAT Scheme Toggle */}
-          <div className="flex bg-white border border-slate-200 rounded-xl overflow-hidden">
-            <button
-              onClick={() => setVatScheme('standard')}
-              className={`px-4 py-2 text-xs font-bold ${vatScheme === 'standard' ? 'bg-slate-900 text-white' : 'text-slate-600'}`}
-            >
-              Standard
-            </button>
-            <button
-              onClick={() => setVatScheme('flat_rate')}
-              className={`px-4 py-2 text-xs font-bold ${vatScheme === 'flat_rate' ? 'bg-slate-900 text-white' : 'text-slate-600'}`}
-            >
-              Flat Rate
-            </button>
+          {/* VAT Scheme (configured in Settings) */}
+          <div className="flex items-center gap-2 bg-white border border-slate-200 rounded-xl px-4 py-2 text-xs font-bold text-slate-600">
+            <Percent size={14} className="text-slate-400" />
+            {vatSettings.scheme === 'flat_rate'
+              ? `Flat Rate ${frsCalculation.rate}%`
+              : VAT_SCHEME_LABELS[vatSettings.scheme]}
+            <span className="text-slate-400 font-medium">· {VAT_STAGGER_LABELS[vatSettings.stagger]}</span>
           </div>
 
-          {/* Quarter Selector */}
+          {/* Period Selector */}
           <div className="relative">
             <select
-              value={selectedQuarter}
-              onChange={(e) => setSelectedQuarter(e.target.value)}
+              value={selectedPeriod}
+              onChange={(e) => setSelectedPeriod(e.target.value)}
               className="appearance-none bg-white border border-slate-200 rounded-xl px-4 py-2 pr-10 font-bold text-sm focus:ring-2 focus:ring-amber-500 focus:border-transparent"
             >
               <option value="all">All Time</option>
-              {quarterSummaries.map(s => (
-                <option key={s.quarter} value={s.quarter}>{s.label}</option>
+              {periodSummaries.map(s => (
+                <option key={s.period.key} value={s.period.key}>{s.period.label}</option>
               ))}
             </select>
             <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" size={18} />
           </div>
 
+          {/* Making Tax Digital */}
+          {vrn && !hmrcConnected && (
+            <button
+              onClick={handleConnectHmrc}
+              className="flex items-center gap-2 bg-white border border-slate-200 text-slate-700 px-4 py-2 rounded-xl font-bold text-sm hover:bg-slate-50 transition-colors"
+            >
+              <Link2 size={16} />
+              Connect to HMRC
+            </button>
+          )}
+
           {/* Export */}
           <button
             onClick={handleExportReport}
@@ -397,37 +410,18 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
           <div className="flex-1">
             <p className="font-bold text-blue-900">Next VAT Return Deadline</p>
             <p className="text-sm text-blue-700">
-              {upcomingDeadline.label} - Due by {upcomingDeadline.deadline.toLocaleDateString()}
+              {upcomingDeadline.label} - Due by {formatDate(upcomingDeadline.deadline)}
             </p>
           </div>
           <span className="px-3 py-1 bg-blue-100 text-blue-700 rounded-full text-xs font-bold">
-            {Math.ceil((upcomingDeadline.deadline.getTime() - Date.now()) / (1000 * 60 * 60 * 24))} days
+            {Math.ceil((new Date(upcomingDeadline.deadline).getTime() - Date.now()) / (1000 * 60 * 60 * 24))} days
           </span>
         </div>
       )}
 
-      {/* Flat Rate Scheme Selector */}
-      {vatScheme === 'flat_rate' && (
-        <div className="bg-purple-50 border border-purple-200 rounded-2xl p-4 mb-4 md:mb-8">
-          <div className="flex items-center gap-3 mb-3">
-            <Percent className="w-5 h-5 text-purple-600" />
-            <span className="font-bold text-purple-900">Flat Rate Scheme Business Type</span>
-          </div>
-          <select
-            value={frsBusinessType}
-            onChange={(e) => setFrsBusinessType(e.target.value)}
-            className="w-full md:w-auto px-4 py-2 border border-purple-200 rounded-xl text-sm bg-white"
-          >
-            {Object.entries(FRS_RATES).map(([key, { rate, label }]) => (
-              <option key={key} value={key}>{label} ({rate}%)</option>
-            ))}
-          </select>
-        </div>
-      )}
-
       {/* Main Stats */}
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 sm:gap-3 md:gap-6 mb-3 md:mb-8">
-        {vatScheme === 'standard' ? (
+        {vatSettings.scheme !== 'flat_rate' ? (
           <>
             {/* Input VAT (Reclaimable) */}
             <div className="bg-gradient-to-br from-emerald-50 to-green-50 rounded-xl sm:rounded-2xl md:rounded-3xl border border-emerald-200 p-3 sm:p-4 md:p-6">
@@ -441,7 +435,7 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
                 </div>
               </div>
               <p className="text-2xl sm:text-3xl md:text-4xl font-black text-emerald-700 truncate">£{filteredData.summary.inputVat.toFixed(0)}</p>
-              <p className="text-xs sm:text-sm text-emerald-600 mt-1 sm:mt-2">{filteredData.summary.expenseCount} expenses</p>
+              <p className="text-xs sm:text-sm text-emerald-600 mt-1 sm:mt-2">{filteredData.summary.purchaseCount} purchases</p>
             </div>
 
             {/* Output VAT (Owed) */}
@@ -456,7 +450,7 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
                 </div>
               </div>
               <p className="text-2xl sm:text-3xl md:text-4xl font-black text-red-700 truncate">£{filteredData.summary.outputVat.toFixed(0)}</p>
-              <p className="text-xs sm:text-sm text-red-600 mt-1 sm:mt-2">{filteredData.summary.invoiceCount} invoices</p>
+              <p className="text-xs sm:text-sm text-red-600 mt-1 sm:mt-2">{filteredData.summary.salesCount} sales</p>
             </div>
 
             {/* Net VAT Position */}
@@ -510,7 +504,9 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
                 </div>
                 <div>
                   <p className="text-xs font-black text-purple-600 uppercase tracking-widest">FRS VAT Due</p>
-                  <p className="text-[10px] text-purple-500">{frsCalculation.rate}% of gross sales</p>
+                  <p className="text-[10px] text-purple-500">
+                    {frsCalculation.rate}% of gross sales{vatSettings.flatRateFirstYear ? ' (first-year discount)' : ''}
+                  </p>
                 </div>
               </div>
               <p className="text-4xl font-black text-purple-700">£{frsCalculation.vatDue.toFixed(2)}</p>
@@ -534,80 +530,198 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
         )}
       </div>
 
-      {/* Mileage VAT Calculator */}
-      <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
-        <button
-          onClick={() => setShowMileageCalc(!showMileageCalc)}
-          className="w-full flex items-center justify-between"
-        >
-          <div className="flex items-center gap-3">
-            <Car className="w-5 h-5 text-amber-500" />
-            <span className="font-black text-slate-900">Mileage VAT Calculator</span>
+      {/* Nine-box VAT Return */}
+      {selectedPeriod !== 'all' && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h2 className="font-black text-slate-900 flex items-center gap-2">
+              <FileText size={20} className="text-amber-500" />
+              VAT Return - {selectedLabel}
+            </h2>
+            {selectedFiled ? (
+              <span className="flex items-center gap-1.5 px-3 py-1 bg-emerald-50 text-emerald-700 rounded-full text-xs font-bold">
+                <Lock size={12} />
+                Filed {formatDate(selectedFiled.submittedAt)}
+                {selectedFiled.hmrcFormBundleNumber && ` · HMRC receipt ${selectedFiled.hmrcFormBundleNumber}`}
+              </span>
+            ) : selectedObligation ? (
+              <button
+                onClick={handleSubmitToHmrc}
+                disabled={filing || selectedPeriod > todayISO}
+                title={selectedPeriod > todayISO ? 'The period has not ended yet' : undefined}
+                className="flex items-center gap-2 bg-amber-500 text-slate-900 px-4 py-2 rounded-xl font-bold text-xs hover:bg-amber-400 transition-colors disabled:opacity-50"
+              >
+                {filing ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                Submit to HMRC
+              </button>
+            ) : (
+              <button
+                onClick={handleFileReturn}
+                disabled={filing || selectedPeriod > todayISO}
+                title={selectedPeriod > todayISO ? 'The period has not ended yet' : undefined}
+                className="flex items-center gap-2 bg-slate-900 text-white px-4 py-2 rounded-xl font-bold text-xs hover:bg-slate-800 transition-colors disabled:opacity-50"
+              >
+                {filing ? <Loader2 size={14} className="animate-spin" /> : <Lock size={14} />}
+                Mark as Filed
+              </button>
+            )}
           </div>
-          <ChevronDown className={`text-slate-400 transition-transform ${showMileageCalc ? 'rotate-180' : ''}`} size={20} />
-        </button>
-
-        {showMileageCalc && (
-          <div className="mt-4 pt-4 border-t border-slate-100">
-            <p className="text-sm text-slate-500 mb-4">
-              Calculate VAT you can reclaim on fuel for business miles (approx 2p per mile)
-            </p>
-            <div className="flex flex-col md:flex-row gap-4 items-end">
-              <div className="flex-1">
-                <label className="text-xs font-bold text-slate-500 block mb-2">Business Miles This Quarter</label>
-                <input
-                  type="number"
-                  value={businessMiles}
-                  onChange={(e) => setBusinessMiles(e.target.value)}
-                  placeholder="e.g. 2500"
-                  className="w-full px-4 py-3 border border-slate-200 rounded-xl text-sm"
-                />
+          <div className="divide-y divide-slate-50">
+            {(Object.keys(VAT_RETURN_BOX_LABELS) as (keyof VatReturnBoxes)[]).map(box => (
+              <div key={box} className={`flex items-center justify-between py-2 text-sm ${box === 'netVatDue' ? 'font-black text-slate-900' : 'text-slate-600'}`}>
+                <span>{VAT_RETURN_BOX_LABELS[box]}</span>
+                <span className="font-bold tabular-nums">£{returnBoxes[box].toFixed(2)}</span>
               </div>
-              <div className="flex-1 p-4 bg-emerald-50 rounded-xl">
-                <p className="text-xs font-bold text-emerald-600 mb-1">Reclaimable Fuel VAT</p>
-                <p className="text-2xl font-black text-emerald-700">£{mileageVat.toFixed(2)}</p>
-              </div>
-            </div>
-            <p className="text-xs text-slate-400 mt-3">
+            ))}
+          </div>
+          {filteredData.entries.some(e => e.adjustmentFor) && (
+            <p className="text-xs text-slate-500 mt-3">
               <Info size={12} className="inline mr-1" />
-              Keep fuel receipts and mileage log as evidence for HMRC
+              Includes {filteredData.entries.filter(e => e.adjustmentFor).length} adjustments for changes made after an earlier return was filed
             </p>
+          )}
+        </div>
+      )}
+
+      {/* HMRC Liabilities */}
+      {hmrcConnected && liabilities.length > 0 && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
+          <h2 className="font-black text-slate-900 mb-4 flex items-center gap-2">
+            <Building2 size={20} className="text-amber-500" />
+            HMRC Liabilities
+          </h2>
+          <div className="divide-y divide-slate-50">
+            {liabilities.map((liability, i) => (
+              <div key={`${liability.taxPeriod?.to || ''}-${liability.type}-${i}`} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-bold text-slate-900">{liability.type}</p>
+                  <p className="text-xs text-slate-500">
+                    {liability.taxPeriod ? `${formatDate(liability.taxPeriod.from)} - ${formatDate(liability.taxPeriod.to)}` : 'No period'}
+                    {liability.due && ` · due ${formatDate(liability.due)}`}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-black text-slate-900">£{(liability.outstandingAmount ?? liability.originalAmount).toFixed(2)}</p>
+                  <p className="text-[10px] text-slate-400 uppercase">{liability.outstandingAmount ? 'Outstanding' : 'Paid'}</p>
+                </div>
+              </div>
+            ))}
           </div>
-        )}
-      </div>
+        </div>
+      )}
 
-      {/* Quarterly Breakdown */}
-      {selectedQuarter === 'all' && quarterSummaries.length > 0 && (
+      {/* Domestic Reverse Charge */}
+      {(filteredData.summary.reverseChargeSales > 0 || filteredData.summary.reverseChargeVat > 0) && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
+          <h2 className="font-black text-slate-900 mb-4 flex items-center gap-2">
+            <Repeat size={20} className="text-blue-500" />
+            Domestic Reverse Charge
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="p-4 bg-slate-50 rounded-2xl">
+              <p className="text-xs font-black text-slate-500 uppercase tracking-wide">Sales</p>
+              <p className="text-2xl font-black text-slate-900 mt-1">£{filteredData.summary.reverseChargeSales.toFixed(2)}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                No VAT charged, box 6 only ·
+                £{filteredData.summary.reverseChargeSalesVat.toFixed(2)} for customers to account for
+              </p>
+            </div>
+            <div className="p-4 bg-blue-50 rounded-2xl">
+              <p className="text-xs font-black text-blue-600 uppercase tracking-wide">Purchases</p>
+              <p className="text-2xl font-black text-blue-700 mt-1">£{filteredData.summary.reverseChargeVat.toFixed(2)} VAT</p>
+              <p className="text-xs text-blue-600 mt-1">
+                Declared in box 1{vatSettings.scheme === 'flat_rate' ? '' : ' and reclaimed in box 4'}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Fuel VAT from the mileage log */}
+      {vatSettings.scheme !== 'flat_rate' && (
+        <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
+          <button
+            onClick={() => setShowFuelVat(!showFuelVat)}
+            className="w-full flex items-center justify-between"
+          >
+            <div className="flex items-center gap-3">
+              <Car className="w-5 h-5 text-amber-500" />
+              <span className="font-black text-slate-900">Fuel VAT</span>
+              <span className="text-xs font-bold text-slate-400">{fuelEntries.length} entr{fuelEntries.length === 1 ? 'y' : 'ies'}</span>
+            </div>
+            <ChevronDown className={`text-slate-400 transition-transform ${showFuelVat ? 'rotate-180' : ''}`} size={20} />
+          </button>
+
+          {showFuelVat && (
+            <div className="mt-4 pt-4 border-t border-slate-100">
+              {fuelEntries.length === 0 ? (
+                <p className="text-sm text-slate-500">
+                  No fuel VAT in this period. Set a vehicle's fuel VAT method and log business trips in Mileage.
+                </p>
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {fuelEntries.map(entry => (
+                    <div key={`${entry.id}${entry.adjustmentFor || ''}`} className="flex items-center justify-between gap-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <p className="font-bold text-slate-900 truncate">{entry.description}</p>
+                        <p className="text-xs text-slate-500">{formatDate(entry.date)}</p>
+                      </div>
+                      <p className={`font-black shrink-0 ${entry.direction === 'purchase' ? 'text-emerald-700' : 'text-red-600'}`}>
+                        {entry.direction === 'purchase' ? 'Reclaim' : 'Charge'} £{entry.vat.toFixed(2)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="text-xs text-slate-400 mt-3">
+                <Info size={12} className="inline mr-1" />
+                Advisory fuel rates reclaim VAT on business miles only - keep fuel receipts that cover it. The fuel scale charge is added for each quarter a vehicle is used.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Period Breakdown */}
+      {selectedPeriod === 'all' && periodSummaries.length > 0 && (
         <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6 mb-4 md:mb-8">
           <h2 className="font-black text-slate-900 mb-4 flex items-center gap-2">
             <Calendar size={20} className="text-amber-500" />
-            Quarterly Breakdown
+            VAT Periods
           </h2>
           <div className="overflow-x-auto">
             <table className="w-full text-sm">
               <thead>
                 <tr className="border-b border-slate-100">
-                  <th className="text-left p-3 font-black text-slate-600 text-xs uppercase">Quarter</th>
+                  <th className="text-left p-3 font-black text-slate-600 text-xs uppercase">Period</th>
                   <th className="text-right p-3 font-black text-slate-600 text-xs uppercase">Input VAT</th>
                   <th className="text-right p-3 font-black text-slate-600 text-xs uppercase">Output VAT</th>
                   <th className="text-right p-3 font-black text-slate-600 text-xs uppercase">Net Position</th>
                   <th className="text-right p-3 font-black text-slate-600 text-xs uppercase">Deadline</th>
+                  <th className="text-right p-3 font-black text-slate-600 text-xs uppercase">Status</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-slate-50">
-                {quarterSummaries.map(s => {
-                  const isPastDeadline = s.deadline < new Date();
+                {periodSummaries.map(s => {
+                  const isPastDeadline = new Date(s.period.deadline) < new Date();
+                  const filed = filedReturns.find(r => r.periodKey === s.period.key);
                   return (
-                    <tr key={s.quarter} className="hover:bg-slate-50">
-                      <td className="p-3 font-bold text-slate-900">{s.label}</td>
+                    <tr key={s.period.key} onClick={() => setSelectedPeriod(s.period.key)} className="hover:bg-slate-50 cursor-pointer">
+                      <td className="p-3 font-bold text-slate-900">{s.period.label}</td>
                       <td className="p-3 text-right text-emerald-600 font-bold">£{s.inputVat.toFixed(2)}</td>
                       <td className="p-3 text-right text-red-600 font-bold">£{s.outputVat.toFixed(2)}</td>
                       <td className={`p-3 text-right font-black ${s.netVat >= 0 ? 'text-amber-600' : 'text-blue-600'}`}>
                         {s.netVat >= 0 ? '' : '-'}£{Math.abs(s.netVat).toFixed(2)}
                       </td>
                       <td className={`p-3 text-right text-xs ${isPastDeadline ? 'text-slate-400' : 'text-slate-600'}`}>
-                        {s.deadline.toLocaleDateString()}
-                        {isPastDeadline && <CheckCircle size={12} className="inline ml-1 text-emerald-500" />}
+                        {formatDate(s.period.deadline)}
+                      </td>
+                      <td className="p-3 text-right text-xs font-bold">
+                        {filed ? (
+                          <span className="text-emerald-600"><CheckCircle size={12} className="inline mr-1" />Filed {formatDate(filed.submittedAt)}</span>
+                        ) : (
+                          <span className={isPastDeadline ? 'text-red-600' : 'text-slate-400'}>{isPastDeadline ? 'Overdue' : 'Open'}</span>
+                        )}
                       </td>
                     </tr>
                   );
@@ -619,7 +733,7 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
       )}
 
       {/* Category Breakdown */}
-      {categoryBreakdown.length > 0 && vatScheme === 'standard' && (
+      {categoryBreakdown.length > 0 && vatSettings.scheme !== 'flat_rate' && (
         <div className="bg-white rounded-3xl border border-slate-200 p-3 md:p-6">
           <h2 className="font-black text-slate-900 mb-4 flex items-center gap-2">
             <Receipt size={20} className="text-amber-500" />
@@ -645,8 +759,8 @@ export const VATSummaryPage: React.FC<VATSummaryPageProps> = ({ onBack }) => {
       {/* HMRC Notice */}
       <div className="mt-8 p-3 md:p-6 bg-slate-50 rounded-2xl border border-slate-200">
         <p className="text-xs text-slate-500">
-          <strong>Making Tax Digital (MTD):</strong> If your taxable turnover exceeds £85,000, you must submit VAT returns
-          digitally through MTD-compatible software. This summary can be exported and used as a reference for your submissions.
+          <strong>Making Tax Digital (MTD):</strong> All VAT-registered businesses must submit VAT returns digitally through
+          MTD-compatible software. Connect to HMRC to submit returns for open obligations directly from this page.
           Always verify figures against your official records before submitting to HMRC.
         </p>
       </div>
@@ -0,0 +1,65 @@
+import React from 'react';
+import { PiggyBank, ArrowRight } from 'lucide-react';
+import { hapticTap } from '../../src/hooks/useHaptic';
+import { useTaxEstimate } from '../../src/hooks/useTaxEstimate';
+import { PAYMENT_KIND_LABELS } from '../../src/utils/selfAssessment';
+
+interface HomeTaxPotProps {
+  onViewTaxEstimate?: () => void;
+}
+
+const formatCurrency = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+export const HomeTaxPot: React.FC<HomeTaxPotProps> = ({ onViewTaxEstimate }) => {
+  const { current, taxPot, nextPayments, loading } = useTaxEstimate();
+
+  if (loading || (taxPot === 0 && nextPayments.length === 0)) return null;
+
+  const nextTotal = nextPayments.reduce((sum, p) => sum + p.amount, 0);
+  const nextDate = nextPayments[0] && new Date(nextPayments[0].dueDate).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+  return (
+    <div
+      onClick={() => { hapticTap(); onViewTaxEstimate?.(); }}
+      className="bg-white rounded-2xl md:rounded-[32px] border border-slate-200 p-4 md:p-6 shadow-sm mt-3 md:mt-4 cursor-pointer hover:shadow-lg transition-all group"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 md:gap-3">
+          <div className="p-2 md:p-3 rounded-xl md:rounded-2xl bg-slate-900 text-white">
+            <PiggyBank size={18} className="md:w-6 md:h-6" />
+          </div>
+          <div>
+            <h4 className="font-black text-slate-900 text-sm md:text-lg">Tax Pot</h4>
+            <p className="text-[10px] md:text-xs text-slate-500 font-medium italic">
+              Set aside for {current.taxYear} on profit so far
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 text-slate-400 group-hover:text-teal-500 transition-colors">
+          <span className="text-xs font-bold hidden sm:inline">Details</span>
+          <ArrowRight size={16} className="group-hover:translate-x-1 transition-transform" />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 sm:gap-3 md:gap-4">
+        <div className="bg-slate-50 rounded-xl md:rounded-2xl p-2 sm:p-3 md:p-4">
+          <span className="text-[10px] sm:text-[11px] md:text-xs font-black text-slate-500 uppercase truncate block mb-1.5 sm:mb-2">Tax Pot</span>
+          <p className="text-lg sm:text-xl md:text-3xl font-black text-slate-900 truncate">{formatCurrency(taxPot)}</p>
+          <p className="text-[10px] md:text-xs text-slate-500 font-medium truncate">on {formatCurrency(Math.max(0, current.trading.profit))} profit</p>
+        </div>
+        <div className="bg-amber-50 rounded-xl md:rounded-2xl p-2 sm:p-3 md:p-4">
+          <span className="text-[10px] sm:text-[11px] md:text-xs font-black text-amber-600 uppercase truncate block mb-1.5 sm:mb-2">
+            {nextDate ? `Due ${nextDate}` : 'Next Payment'}
+          </span>
+          <p className="text-lg sm:text-xl md:text-3xl font-black text-slate-900 truncate">
+            {nextPayments.length > 0 ? formatCurrency(Math.max(0, nextTotal)) : '—'}
+          </p>
+          <p className="text-[10px] md:text-xs text-slate-500 font-medium truncate">
+            {nextPayments.map(p => PAYMENT_KIND_LABELS[p.kind]).join(' + ')}
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,3 +2,4 @@ export { HomeReminders, type Reminder } from './HomeReminders';
 export { HomeQuickNotes } from './HomeQuickNotes';
 export { HomeFutureJobs, type FutureJob } from './HomeFutureJobs';
 export { PhotoJobPicker } from './PhotoJobPicker';
+export { HomeTaxPot } from './HomeTaxPot';
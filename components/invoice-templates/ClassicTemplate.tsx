@@ -1,26 +1,31 @@
 // ClassicTemplate.tsx - Ultra-compact traditional invoice layout with inline styles
 
 import React from 'react';
-import { Quote, Customer, AppSettings } from '../../types';
+import { Quote, Customer, AppSettings, InvoicePayment } from '../../types';
 import { getColorScheme } from '../../src/lib/invoiceTemplates';
 import type { ColorScheme } from '../../src/lib/invoiceTemplates';
+import { getBalanceDue } from '../../src/utils/invoicePayments';
+import { getSectionScopeLabel } from '../../src/utils/quoteOptions';
+import type { QuoteTotals } from '../../src/utils/quoteCalculations';
+import { QuoteOptionsSummary } from '../quote-view/QuoteOptionsSummary';
+import { REVERSE_CHARGE_NOTICE } from '../../src/utils/reverseCharge';
+import { formatVatBand, getVatLabel, hasMixedVatRates } from '../../src/utils/vatRates';
 
 interface TemplateProps {
   quote: Quote;
   customer: Customer;
   settings: AppSettings;
-  totals: {
-    clientSubtotal: number;
-    taxAmount: number;
-    cisAmount: number;
-    discountAmount: number;
-    grandTotal: number;
-  };
+  totals: QuoteTotals;
   reference: string;
+  payments?: InvoicePayment[];
+  // Issued credit notes against an invoice
+  amountCredited?: number;
+  // Invoice a credit note reverses
+  parentReference?: string;
 }
 
 export const ClassicTemplate: React.FC<TemplateProps> = ({
-  quote, customer, settings, totals, reference
+  quote, customer, settings, totals, reference, payments = [], amountCredited = 0, parentReference
 }) => {
   const markupMultiplier = 1 + ((quote.markupPercent || 0) / 100);
   const displayOptions = quote.displayOptions || settings.defaultDisplayOptions;
@@ -51,9 +56,13 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
     const items: Array<{ description: string; qty: string; rate: number; amount: number }> = [];
 
     (quote.sections || []).forEach(section => {
+      // Lines belonging to an option or optional extra say so
+      const scopeLabel = getSectionScopeLabel(section, quote);
+      const withScope = (description: string) => scopeLabel ? `[${scopeLabel}] ${description}` : description;
+
       (section.items || []).filter(i => !i.isHeading).forEach(item => {
         items.push({
-          description: [item.name, item.description].filter(Boolean).join(' - '),
+          description: withScope([item.name, item.description].filter(Boolean).join(' - ')),
           qty: `${item.quantity} ${item.unit}`,
           rate: item.unitPrice * markupMultiplier,
           amount: (item.totalPrice || 0) * markupMultiplier,
@@ -64,7 +73,7 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
         section.labourItems.forEach(labour => {
           const rate = labour.rate || section.labourRate || quote.labourRate || settings.defaultLabourRate;
           items.push({
-            description: labour.description || 'Labour',
+            description: withScope(labour.description || 'Labour'),
             qty: `${labour.hours} hrs`,
             rate: rate * markupMultiplier,
             amount: labour.hours * rate * markupMultiplier,
@@ -73,7 +82,7 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
       } else if ((section.labourHours || 0) > 0) {
         const rate = section.labourRate || quote.labourRate || settings.defaultLabourRate;
         items.push({
-          description: 'Labour',
+          description: withScope('Labour'),
           qty: `${section.labourHours} hrs`,
           rate: rate * markupMultiplier,
           amount: (section.labourHours || 0) * rate * markupMultiplier,
@@ -112,9 +121,12 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
         </div>
         <div style={{ textAlign: 'right' }}>
           <div style={{ fontSize: '11px', fontWeight: '300', textTransform: 'uppercase', letterSpacing: '0.1em' }}>
-            {quote.type === 'invoice' ? 'Invoice' : 'Quote'}
+            {quote.type === 'invoice' ? 'Invoice' : quote.type === 'credit_note' ? 'Credit Note' : 'Quote'}
           </div>
           <div style={{ fontSize: '9px', fontWeight: 'bold' }}>{reference}</div>
+          {parentReference && (
+            <div style={{ fontSize: '8px', color: '#64748b' }}>Credit against {parentReference}</div>
+          )}
           <div style={{ fontSize: '8px', color: '#64748b' }}>{quote.date ? new Date(quote.date).toLocaleDateString('en-GB') : ''}</div>
         </div>
       </div>
@@ -160,6 +172,8 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
         </tbody>
       </table>
 
+      <QuoteOptionsSummary quote={quote} settings={settings} totals={totals} />
+
       {/* TOTALS */}
       <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
         <div style={{ width: '160px' }}>
@@ -173,9 +187,9 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
               <span>-£{totals.discountAmount.toFixed(2)}</span>
             </div>
           )}
-          {settings.enableVat && displayOptions.showVat && totals.taxAmount > 0 && (
+          {settings.enableVat && displayOptions.showVat && (totals.taxAmount > 0 || quote.reverseCharge) && (
             <div style={{ display: 'flex', justifyContent: 'space-between', padding: '3px 0', fontSize: '8px', color: '#64748b' }}>
-              <span>VAT ({quote.taxPercent}%)</span>
+              <span>{getVatLabel(quote, totals.vatBreakdown)}</span>
               <span>£{totals.taxAmount.toFixed(2)}</span>
             </div>
           )}
@@ -194,14 +208,80 @@ export const ClassicTemplate: React.FC<TemplateProps> = ({
             fontWeight: 'bold',
             fontSize: '11px'
           }}>
-            <span>Total</span>
+            <span>{quote.type === 'credit_note' ? 'Total Credit' : 'Total'}</span>
             <span>£{totals.grandTotal.toFixed(2)}</span>
           </div>
+          {quote.type === 'invoice' && totals.retentionAmount > 0 && (
+            <>
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0', fontSize: '8px', color: '#b45309' }}>
+                <span>Less Retention ({quote.retentionPercent}%)</span>
+                <span>-£{totals.retentionAmount.toFixed(2)}</span>
+              </div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0', fontSize: '9px', fontWeight: 'bold' }}>
+                <span>Due Now</span>
+                <span>£{totals.amountDueNow.toFixed(2)}</span>
+              </div>
+            </>
+          )}
+          {amountCredited > 0 && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0', fontSize: '8px', color: '#64748b' }}>
+              <span>Credited</span>
+              <span>-£{amountCredited.toFixed(2)}</span>
+            </div>
+          )}
+          {payments.map(p => (
+            <div key={p.id} style={{ display: 'flex', justifyContent: 'space-between', padding: '2px 0', fontSize: '8px', color: '#64748b' }}>
+              <span>Paid {new Date(p.paymentDate).toLocaleDateString('en-GB')}</span>
+              <span>-£{p.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          {(payments.length > 0 || amountCredited > 0) && (
+            <div style={{ display: 'flex', justifyContent: 'space-between', padding: '4px 0', borderTop: '1px solid #e2e8f0', fontWeight: 'bold', fontSize: '10px' }}>
+              <span>Balance Due</span>
+              <span>£{getBalanceDue(totals.grandTotal, payments, amountCredited).toFixed(2)}</span>
+            </div>
+          )}
         </div>
       </div>
 
+      {/* VAT ANALYSIS */}
+      {settings.enableVat && displayOptions.showVat && hasMixedVatRates(totals.vatBreakdown) && (
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '3mm' }}>
+          <table style={{ width: '160px', borderCollapse: 'collapse', fontSize: '8px', color: '#64748b' }}>
+            <thead>
+              <tr style={{ borderBottom: '1px solid #e2e8f0' }}>
+                <th style={{ textAlign: 'left', padding: '2px 0' }}>Rate</th>
+                <th style={{ textAlign: 'right', padding: '2px 0' }}>Net</th>
+                <th style={{ textAlign: 'right', padding: '2px 0' }}>{quote.reverseCharge ? 'Reverse charged' : 'VAT'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {totals.vatBreakdown.map(band => (
+                <tr key={band.code}>
+                  <td style={{ padding: '2px 0' }}>{formatVatBand(band)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 0' }}>£{band.net.toFixed(2)}</td>
+                  <td style={{ textAlign: 'right', padding: '2px 0' }}>£{band.vat.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* REVERSE CHARGE */}
+      {quote.reverseCharge && (
+        <div style={{ marginTop: '4mm', padding: '2mm 3mm', border: '1px solid #bfdbfe', borderRadius: '4px', fontSize: '8px', color: '#1e3a8a' }}>
+          {totals.reverseChargeVat > 0 && (
+            <div style={{ fontWeight: 'bold', marginBottom: '1mm' }}>
+              VAT reverse charged{hasMixedVatRates(totals.vatBreakdown) ? '' : ` (${quote.taxPercent}%)`}: £{totals.reverseChargeVat.toFixed(2)}
+            </div>
+          )}
+          <div>{REVERSE_CHARGE_NOTICE}</div>
+        </div>
+      )}
+
       {/* BANK DETAILS */}
-      {settings.bankAccountName && (
+      {settings.bankAccountName && quote.type !== 'credit_note' && (
         <div style={{ marginTop: '6mm', paddingTop: '3mm', borderTop: '1px solid #e2e8f0', fontSize: '8px', color: '#64748b' }}>
           <div style={{ fontWeight: 'bold', marginBottom: '1mm' }}>Payment Details</div>
           <div>
@@ -0,0 +1,59 @@
+import React from 'react';
+import { InvoicePayment } from '../../types';
+import { getBalanceDue, sumPayments } from '../../src/utils/invoicePayments';
+
+const METHOD_LABELS: Record<InvoicePayment['paymentMethod'], string> = {
+  bank_transfer: 'Bank Transfer',
+  card: 'Card',
+  cash: 'Cash',
+  cheque: 'Cheque',
+};
+
+interface PaymentHistoryProps {
+  payments: InvoicePayment[];
+  invoiceTotal: number;
+  amountCredited?: number;
+}
+
+/**
+ * Payment history block printed on invoices that have received payments.
+ */
+export const PaymentHistory: React.FC<PaymentHistoryProps> = ({ payments, invoiceTotal, amountCredited = 0 }) => {
+  if (payments.length === 0) return null;
+
+  const amountPaid = sumPayments(payments);
+  const balanceDue = getBalanceDue(invoiceTotal, payments, amountCredited);
+
+  return (
+    <div className="px-2 py-2">
+      <div className="flex justify-end">
+        <div className="w-64 border border-slate-200 rounded-lg p-2">
+          <h4 className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-1">Payment History</h4>
+          {payments.map(p => (
+            <div key={p.id} className="flex justify-between py-0.5 text-[9px] border-b border-slate-100 last:border-0">
+              <span className="text-slate-500">
+                {new Date(p.paymentDate).toLocaleDateString('en-GB')} · {METHOD_LABELS[p.paymentMethod] || p.paymentMethod}
+                {p.reference && ` (${p.reference})`}
+              </span>
+              <span className="text-slate-900 font-semibold">-£{p.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between pt-1 mt-1 border-t border-slate-200 text-[9px]">
+            <span className="text-slate-500">Total Paid</span>
+            <span className="text-slate-900 font-semibold">£{amountPaid.toFixed(2)}</span>
+          </div>
+          {amountCredited > 0 && (
+            <div className="flex justify-between text-[9px]">
+              <span className="text-slate-500">Credited</span>
+              <span className="text-slate-900 font-semibold">£{amountCredited.toFixed(2)}</span>
+            </div>
+          )}
+          <div className="flex justify-between text-[10px] font-bold">
+            <span>{balanceDue > 0 ? 'Balance Outstanding' : 'Paid in Full'}</span>
+            <span>£{balanceDue.toFixed(2)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
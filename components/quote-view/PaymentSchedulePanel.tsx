@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { CalendarClock, ReceiptText, Loader2 } from 'lucide-react';
+import { describeMilestoneDue, type PaymentScheduleProgress } from '../../src/utils/paymentSchedule';
+
+interface PaymentSchedulePanelProps {
+  progress: PaymentScheduleProgress;
+  // Stage invoices can only be raised once the quote is accepted
+  canRaiseInvoices: boolean;
+  onRaiseInvoice?: (milestoneId: string) => Promise<void>;
+  onViewInvoice?: (invoiceId: string) => void;
+}
+
+/**
+ * Quoted vs invoiced vs paid for each milestone of a quote's payment schedule.
+ */
+export const PaymentSchedulePanel: React.FC<PaymentSchedulePanelProps> = ({
+  progress, canRaiseInvoices, onRaiseInvoice, onViewInvoice
+}) => {
+  const [raisingId, setRaisingId] = useState<string | null>(null);
+
+  const handleRaise = async (milestoneId: string) => {
+    if (!onRaiseInvoice) return;
+    setRaisingId(milestoneId);
+    try {
+      await onRaiseInvoice(milestoneId);
+    } finally {
+      setRaisingId(null);
+    }
+  };
+
+  return (
+    <div className="px-3 py-3 rounded-xl border border-blue-100 bg-blue-50/50">
+      <p className="flex items-center gap-2 text-xs font-black text-blue-700 uppercase tracking-wider mb-2">
+        <CalendarClock size={14} /> Payment Schedule
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-[10px] font-black text-slate-400 uppercase tracking-wider">
+            <th className="text-left pb-1">Milestone</th>
+            <th className="text-right pb-1">Quoted</th>
+            <th className="text-right pb-1">Invoiced</th>
+            <th className="text-right pb-1">Paid</th>
+            <th className="w-24"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {progress.rows.map(({ milestone, quoted, invoiced, paid, invoice }) => (
+            <tr key={milestone.id} className="border-t border-blue-100/60">
+              <td className="py-1.5">
+                <p className="font-bold text-slate-900">{milestone.label}</p>
+                {describeMilestoneDue(milestone) && <p className="text-[10px] text-slate-500">{describeMilestoneDue(milestone)}</p>}
+              </td>
+              <td className="py-1.5 text-right font-bold text-slate-700">£{quoted.toFixed(2)}</td>
+              <td className="py-1.5 text-right font-bold text-slate-700">£{invoiced.toFixed(2)}</td>
+              <td className={`py-1.5 text-right font-bold ${invoice && paid >= invoiced && invoiced > 0 ? 'text-emerald-600' : 'text-slate-700'}`}>£{paid.toFixed(2)}</td>
+              <td className="py-1.5 text-right">
+                {invoice ? (
+                  <button onClick={() => onViewInvoice?.(invoice.id)} className="text-[10px] font-black text-blue-600 uppercase tracking-wider">
+                    View
+                  </button>
+                ) : canRaiseInvoices && onRaiseInvoice && (
+                  <button
+                    onClick={() => handleRaise(milestone.id)}
+                    disabled={raisingId !== null}
+                    className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-emerald-500 text-white text-[10px] font-black uppercase tracking-wider disabled:opacity-50"
+                  >
+                    {raisingId === milestone.id ? <Loader2 size={10} className="animate-spin" /> : <ReceiptText size={10} />} Invoice
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+          <tr className="border-t-2 border-blue-200 font-black text-slate-900">
+            <td className="py-1.5">Total</td>
+            <td className="py-1.5 text-right">£{progress.quoted.toFixed(2)}</td>
+            <td className="py-1.5 text-right">£{progress.invoiced.toFixed(2)}</td>
+            <td className="py-1.5 text-right">£{progress.paid.toFixed(2)}</td>
+            <td></td>
+          </tr>
+        </tbody>
+      </table>
+
+      {progress.unscheduled > 0 && (
+        <p className="text-[10px] font-bold text-amber-600 mt-2">£{progress.unscheduled.toFixed(2)} of the quote is not covered by a milestone.</p>
+      )}
+    </div>
+  );
+};
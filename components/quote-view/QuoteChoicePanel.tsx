@@ -0,0 +1,79 @@
+import React from 'react';
+import { CheckCircle2, Circle, Square, CheckSquare, ListChecks } from 'lucide-react';
+import { Quote } from '../../types';
+import type { QuoteTotals } from '../../src/utils/quoteCalculations';
+
+interface QuoteChoicePanelProps {
+  quote: Quote;
+  totals: QuoteTotals;
+  // Records the customer's option and ticked add-ons on the quote
+  onChange: (optionId: string | undefined, includedAddOnIds: string[]) => void;
+}
+
+/**
+ * Where the tradesperson records which option and extras the customer chose.
+ * The choice fixes the scope carried onto the invoice.
+ */
+export const QuoteChoicePanel: React.FC<QuoteChoicePanelProps> = ({ quote, totals, onChange }) => {
+  const addOns = quote.sections.filter(s => s.isOptional);
+  const includedAddOnIds = addOns.filter(s => s.isIncluded).map(s => s.id);
+
+  const toggleAddOn = (sectionId: string) => {
+    onChange(
+      quote.selectedOptionId,
+      includedAddOnIds.includes(sectionId)
+        ? includedAddOnIds.filter(id => id !== sectionId)
+        : [...includedAddOnIds, sectionId]
+    );
+  };
+
+  return (
+    <div className="px-3 py-3 rounded-xl border border-teal-100 bg-teal-50/50 space-y-2">
+      <p className="flex items-center gap-2 text-xs font-black text-teal-700 uppercase tracking-wider">
+        <ListChecks size={14} /> Customer's Choice
+      </p>
+
+      {totals.optionTotals.length > 0 && (
+        <div className="space-y-1">
+          {totals.optionTotals.map(option => {
+            const selected = option.optionId === quote.selectedOptionId;
+            return (
+              <button
+                key={option.optionId}
+                onClick={() => onChange(option.optionId, includedAddOnIds)}
+                className={`w-full flex items-center justify-between gap-2 px-3 py-2 rounded-lg text-xs font-bold text-left transition-colors ${
+                  selected ? 'bg-teal-500 text-white shadow' : 'bg-white text-slate-700 border border-slate-100 hover:bg-slate-50'
+                }`}
+              >
+                <span className="flex items-center gap-2">
+                  {selected ? <CheckCircle2 size={14} /> : <Circle size={14} className="text-slate-300" />}
+                  {option.name}
+                </span>
+                <span>£{option.grandTotal.toFixed(2)}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {addOns.length > 0 && (
+        <div className="space-y-1">
+          {addOns.map(section => (
+            <button
+              key={section.id}
+              onClick={() => toggleAddOn(section.id)}
+              className="w-full flex items-center gap-2 px-3 py-2 rounded-lg bg-white border border-slate-100 text-xs font-bold text-slate-700 text-left hover:bg-slate-50"
+            >
+              {section.isIncluded ? <CheckSquare size={14} className="text-teal-500" /> : <Square size={14} className="text-slate-300" />}
+              {section.title}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {totals.optionTotals.length > 0 && !quote.selectedOptionId && (
+        <p className="text-[10px] font-bold text-slate-500">Pick the customer's option before converting to an invoice.</p>
+      )}
+    </div>
+  );
+};
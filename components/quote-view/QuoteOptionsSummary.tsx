@@ -0,0 +1,76 @@
+import React from 'react';
+import { Quote, AppSettings } from '../../types';
+import {
+  calculateSectionLabour,
+  calculateSectionMaterials,
+  calculateSectionPrice,
+  type QuoteTotals,
+} from '../../src/utils/quoteCalculations';
+import { getActiveOptionId, hasQuoteChoices } from '../../src/utils/quoteOptions';
+
+interface QuoteOptionsSummaryProps {
+  quote: Quote;
+  settings: AppSettings;
+  totals: QuoteTotals;
+}
+
+/**
+ * The price of each option and optional extra, so the customer can compare
+ * them on one document. Renders nothing for a single-scope quote.
+ */
+export const QuoteOptionsSummary: React.FC<QuoteOptionsSummaryProps> = ({ quote, settings, totals }) => {
+  if (!hasQuoteChoices(quote)) return null;
+
+  const activeOptionId = quote.selectedOptionId ? getActiveOptionId(quote) : undefined;
+  const markupMultiplier = 1 + ((quote.markupPercent || 0) / 100);
+  const addOns = quote.sections.filter(s => s.isOptional);
+  const showVat = settings.enableVat && (quote.displayOptions || settings.defaultDisplayOptions).showVat;
+
+  return (
+    <div className="px-4 py-2 space-y-2">
+      {totals.optionTotals.length > 0 && (
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mb-1">Options</p>
+          {totals.optionTotals.map((option, idx) => (
+            <div
+              key={option.optionId}
+              className={`flex justify-between items-center py-1 px-2 text-[11px] border-b border-slate-100 ${option.optionId === activeOptionId ? 'bg-teal-50 font-bold' : ''}`}
+            >
+              <span className="text-slate-900">
+                {String.fromCharCode(65 + idx)}. {option.name}
+                {option.optionId === activeOptionId && <span className="ml-2 text-[9px] text-teal-600 uppercase tracking-wider">Chosen</span>}
+              </span>
+              <span className="font-bold text-slate-900">£{option.grandTotal.toFixed(2)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {addOns.length > 0 && (
+        <div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-wider mb-1">Optional Extras</p>
+          {addOns.map(section => {
+            const materials = calculateSectionMaterials(section);
+            const labour = calculateSectionLabour(section, quote.labourRate, settings.defaultLabourRate);
+            const price = calculateSectionPrice(section, materials, labour) * markupMultiplier;
+            return (
+              <div key={section.id} className="flex justify-between items-center py-1 px-2 text-[11px] border-b border-slate-100">
+                <span className="text-slate-900">
+                  {section.title}
+                  {section.isIncluded && <span className="ml-2 text-[9px] text-teal-600 font-bold uppercase tracking-wider">Included</span>}
+                </span>
+                <span className="font-bold text-slate-900">+£{price.toFixed(2)}{showVat ? ' + VAT' : ''}</span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <p className="text-[9px] text-slate-400">
+        {totals.optionTotals.length > 0 && !quote.selectedOptionId
+          ? `Totals below are for option A${addOns.some(s => s.isIncluded) ? ' with the included extras' : ''}.`
+          : 'Totals below include only the chosen work.'}
+      </p>
+    </div>
+  );
+};
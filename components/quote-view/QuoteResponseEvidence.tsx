@@ -0,0 +1,45 @@
+import React from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import { QuoteResponse } from '../../types';
+
+interface QuoteResponseEvidenceProps {
+  response: QuoteResponse;
+}
+
+/**
+ * The customer's signed accept/decline from the quote portal, with the
+ * details recorded when they signed.
+ */
+export const QuoteResponseEvidence: React.FC<QuoteResponseEvidenceProps> = ({ response }) => {
+  const accepted = response.decision === 'accepted';
+
+  return (
+    <div className={`px-3 py-3 rounded-xl border ${accepted ? 'bg-green-50 border-green-100' : 'bg-red-50 border-red-100'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className={`flex items-center gap-2 text-xs font-black uppercase tracking-wider ${accepted ? 'text-green-700' : 'text-red-700'}`}>
+          {accepted ? <CheckCircle2 size={14} /> : <XCircle size={14} />}
+          {accepted ? 'Accepted' : 'Declined'} online by {response.signerName}
+        </p>
+        {response.quoteTotal != null && (
+          <span className="text-xs font-bold text-slate-600">£{response.quoteTotal.toFixed(2)}</span>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg border border-slate-100 p-2 mt-2">
+        {response.signatureType === 'drawn'
+          ? <img src={response.signatureData} alt={`Signature of ${response.signerName}`} className="h-14 w-auto" />
+          : <p className="text-xl text-slate-900 italic" style={{ fontFamily: 'cursive' }}>{response.signatureData}</p>}
+      </div>
+
+      {response.comment && (
+        <p className="text-xs text-slate-700 mt-2 whitespace-pre-line">"{response.comment}"</p>
+      )}
+
+      <p className="text-[10px] text-slate-500 mt-2">
+        {new Date(response.respondedAt).toLocaleString('en-GB')}
+        {response.quoteReference && ` · ${response.quoteReference}`}
+        {response.ipAddress && ` · IP ${response.ipAddress}`}
+      </p>
+    </div>
+  );
+};
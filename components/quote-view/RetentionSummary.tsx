@@ -0,0 +1,39 @@
+import React from 'react';
+import { Quote } from '../../types';
+import type { ScopeTotals } from '../../src/utils/quoteCalculations';
+
+interface RetentionSummaryProps {
+  quote: Quote;
+  totals: ScopeTotals;
+}
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString('en-GB');
+
+/**
+ * Amount due now and retention held back, with its release dates.
+ * Renders nothing when the invoice holds no retention.
+ */
+export const RetentionSummary: React.FC<RetentionSummaryProps> = ({ quote, totals }) => {
+  if (quote.type !== 'invoice' || totals.retentionAmount <= 0) return null;
+
+  return (
+    <div className="bg-white border border-amber-200 p-2 rounded-xl mt-2 text-slate-900">
+      <div className="flex justify-between text-[10px]">
+        <span className="text-amber-700">Less Retention ({quote.retentionPercent}%)</span>
+        <span className="font-bold text-amber-700">-£{totals.retentionAmount.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between items-center mt-1">
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Amount Due Now</span>
+        <span className="text-base font-black">£{totals.amountDueNow.toFixed(2)}</span>
+      </div>
+      {(quote.practicalCompletionDate || quote.defectsPeriodEndDate) && (
+        <p className="text-[9px] text-slate-500 mt-1">
+          Retention released
+          {quote.practicalCompletionDate && ` 50% at practical completion (${formatDate(quote.practicalCompletionDate)})`}
+          {quote.practicalCompletionDate && quote.defectsPeriodEndDate && ','}
+          {quote.defectsPeriodEndDate && ` 50% at the end of the defects period (${formatDate(quote.defectsPeriodEndDate)})`}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Quote } from '../../types';
+import type { ScopeTotals } from '../../src/utils/quoteCalculations';
+import { REVERSE_CHARGE_NOTICE } from '../../src/utils/reverseCharge';
+import { hasMixedVatRates } from '../../src/utils/vatRates';
+
+interface ReverseChargeNoticeProps {
+  quote: Quote;
+  totals: ScopeTotals;
+}
+
+/**
+ * Domestic reverse charge wording, with the VAT the customer must account for.
+ * Renders nothing unless the document is reverse charged.
+ */
+export const ReverseChargeNotice: React.FC<ReverseChargeNoticeProps> = ({ quote, totals }) => {
+  if (!quote.reverseCharge) return null;
+
+  return (
+    <div className="bg-white border border-blue-200 p-2 rounded-xl mt-2 text-slate-900">
+      {totals.reverseChargeVat > 0 && (
+        <div className="flex justify-between text-[10px] mb-1">
+          <span className="text-blue-700">VAT reverse charged{hasMixedVatRates(totals.vatBreakdown) ? '' : ` (${quote.taxPercent}%)`}</span>
+          <span className="font-bold text-blue-700">£{totals.reverseChargeVat.toFixed(2)}</span>
+        </div>
+      )}
+      <p className="text-[9px] text-slate-500">{REVERSE_CHARGE_NOTICE}</p>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Quote } from '../../types';
+import type { ScopeTotals } from '../../src/utils/quoteCalculations';
+import { formatVatBand, hasMixedVatRates } from '../../src/utils/vatRates';
+
+interface VatBreakdownTableProps {
+  quote: Quote;
+  totals: ScopeTotals;
+}
+
+/**
+ * VAT analysis by rate, as required on an invoice charging more than one rate.
+ * Renders nothing when everything is at the standard rate.
+ */
+export const VatBreakdownTable: React.FC<VatBreakdownTableProps> = ({ quote, totals }) => {
+  if (!hasMixedVatRates(totals.vatBreakdown)) return null;
+
+  return (
+    <div className="bg-white border border-slate-200 p-2 rounded-xl mt-2 text-slate-900">
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+            <th className="text-left font-black">Rate</th>
+            <th className="text-right font-black">Net</th>
+            <th className="text-right font-black">{quote.reverseCharge ? 'Reverse charged' : 'VAT'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {totals.vatBreakdown.map(band => (
+            <tr key={band.code}>
+              <td className="text-slate-500">{formatVatBand(band)}</td>
+              <td className="text-right">£{band.net.toFixed(2)}</td>
+              <td className="text-right">£{band.vat.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,3 +1,12 @@
 export { QuoteActions } from './QuoteActions';
 export { QuoteDisplayCustomizer } from './QuoteDisplayCustomizer';
 export { QuoteEmailHelper } from './QuoteEmailHelper';
+export { PaymentHistory } from './PaymentHistory';
+export { QuoteDocument } from './QuoteDocument';
+export { QuoteResponseEvidence } from './QuoteResponseEvidence';
+export { QuoteChoicePanel } from './QuoteChoicePanel';
+export { QuoteOptionsSummary } from './QuoteOptionsSummary';
+export { PaymentSchedulePanel } from './PaymentSchedulePanel';
+export { RetentionSummary } from './RetentionSummary';
+export { ReverseChargeNotice } from './ReverseChargeNotice';
+export { VatBreakdownTable } from './VatBreakdownTable';
@@ -1,6 +1,7 @@
 import React from 'react';
 import { LabourItem } from '../../types';
 import { Plus, Minus, Trash2 } from 'lucide-react';
+import { VatRateSelect } from './VatRateSelect';
 
 interface LabourItemRowProps {
   item: LabourItem;
@@ -10,6 +11,8 @@ interface LabourItemRowProps {
   onRemove: (sectionId: string, itemId: string) => void;
   onIncrement: (sectionId: string, itemId: string) => void;
   onDecrement: (sectionId: string, itemId: string) => void;
+  // Standard VAT rate; shows a per-line VAT rate picker when set
+  vatStandardRate?: number;
 }
 
 export const LabourItemRow: React.FC<LabourItemRowProps> = ({
@@ -20,6 +23,7 @@ export const LabourItemRow: React.FC<LabourItemRowProps> = ({
   onRemove,
   onIncrement,
   onDecrement,
+  vatStandardRate,
 }) => {
   const rate = item.rate || defaultRate;
   const total = item.hours * rate;
@@ -35,6 +39,14 @@ export const LabourItemRow: React.FC<LabourItemRowProps> = ({
           onChange={e => onUpdate(sectionId, item.id, { description: e.target.value })}
           className="flex-1 bg-transparent text-[10px] md:text-base font-medium text-slate-900 outline-none placeholder:text-blue-300 leading-tight md:leading-normal py-0.5 md:py-1 md:border-b md:border-transparent md:focus:border-blue-400 md:transition-colors"
         />
+        {vatStandardRate !== undefined && (
+          <VatRateSelect
+            value={item.vatRate}
+            standardRate={vatStandardRate}
+            onChange={vatRate => onUpdate(sectionId, item.id, { vatRate })}
+            inheritLabel="VAT: Section rate"
+          />
+        )}
         <button
           onClick={() => onRemove(sectionId, item.id)}
           className="p-0.5 md:p-2 text-slate-300 hover:text-red-500 transition-colors md:bg-white md:rounded-lg md:hover:bg-red-50"
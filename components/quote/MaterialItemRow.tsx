@@ -1,6 +1,7 @@
 import React from 'react';
 import { MaterialItem } from '../../types';
 import { Plus, Minus, Trash2, BookmarkPlus, Type } from 'lucide-react';
+import { VatRateSelect } from './VatRateSelect';
 
 interface MaterialItemRowProps {
   item: MaterialItem;
@@ -10,6 +11,8 @@ interface MaterialItemRowProps {
   onIncrement: (sectionId: string, itemId: string) => void;
   onDecrement: (sectionId: string, itemId: string) => void;
   onSaveToLibrary?: (item: MaterialItem) => void;
+  // Standard VAT rate; shows a per-line VAT rate picker when set
+  vatStandardRate?: number;
 }
 
 export const MaterialItemRow: React.FC<MaterialItemRowProps> = ({
@@ -20,6 +23,7 @@ export const MaterialItemRow: React.FC<MaterialItemRowProps> = ({
   onIncrement,
   onDecrement,
   onSaveToLibrary,
+  vatStandardRate,
 }) => {
   if (item.isHeading) {
     return (
@@ -62,6 +66,15 @@ export const MaterialItemRow: React.FC<MaterialItemRowProps> = ({
             onChange={e => onUpdate(sectionId, item.id, { description: e.target.value })}
             placeholder="Description (optional)"
           />
+          {vatStandardRate !== undefined && (
+            <VatRateSelect
+              value={item.vatRate}
+              standardRate={vatStandardRate}
+              onChange={vatRate => onUpdate(sectionId, item.id, { vatRate })}
+              inheritLabel="VAT: Section rate"
+              className="mt-0.5 md:mt-1"
+            />
+          )}
         </div>
         <div className="flex gap-0.5 md:gap-2 shrink-0">
           {item.name && onSaveToLibrary && (
@@ -0,0 +1,127 @@
+import React from 'react';
+import { PaymentMilestone, PaymentMilestoneTrigger } from '../../types';
+import { Plus, Trash2, CalendarClock, Percent, PoundSterling } from 'lucide-react';
+import {
+  getMilestoneAmount,
+  validatePaymentSchedule,
+  MILESTONE_PRESETS,
+  MILESTONE_TRIGGER_LABELS,
+} from '../../src/utils/paymentSchedule';
+
+interface PaymentScheduleEditorProps {
+  milestones: PaymentMilestone[];
+  total: number;
+  onChange: (milestones: PaymentMilestone[]) => void;
+}
+
+export const PaymentScheduleEditor: React.FC<PaymentScheduleEditorProps> = ({ milestones, total, onChange }) => {
+  const error = milestones.length > 0 ? validatePaymentSchedule(milestones, total) : null;
+  const scheduled = milestones.reduce((sum, m) => sum + getMilestoneAmount(m, total), 0);
+
+  const addMilestone = () => {
+    const label = MILESTONE_PRESETS.find(p => !milestones.some(m => m.label === p)) || `Stage ${milestones.length + 1}`;
+    onChange([...milestones, {
+      id: Math.random().toString(36).substr(2, 9),
+      label,
+      type: 'percentage',
+      value: 0,
+    }]);
+  };
+
+  const updateMilestone = (id: string, updates: Partial<PaymentMilestone>) => {
+    onChange(milestones.map(m => m.id === id ? { ...m, ...updates } : m));
+  };
+
+  const removeMilestone = (id: string) => {
+    onChange(milestones.filter(m => m.id !== id));
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-[24px] border border-slate-200 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2"><CalendarClock size={16} className="text-blue-500" /><span className="text-xs font-black text-slate-600 uppercase tracking-widest">Payment Schedule</span></div>
+        {milestones.length > 0 && (
+          <span className="text-xs font-bold text-slate-500">£{scheduled.toFixed(2)} of £{total.toFixed(2)}</span>
+        )}
+      </div>
+
+      {milestones.map(milestone => (
+        <div key={milestone.id} className="bg-slate-50 rounded-xl p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              list="milestone-presets"
+              className="flex-1 bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-bold text-slate-900 outline-none focus:border-blue-400"
+              value={milestone.label}
+              onChange={e => updateMilestone(milestone.id, { label: e.target.value })}
+              placeholder="e.g. First fix"
+            />
+            <button
+              onClick={() => removeMilestone(milestone.id)}
+              className="p-1.5 text-slate-300 hover:text-red-500 transition-colors"
+              title="Remove Milestone"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-white border border-slate-200 rounded-lg overflow-hidden">
+              {(['percentage', 'fixed'] as const).map(type => (
+                <button
+                  key={type}
+                  onClick={() => updateMilestone(milestone.id, { type })}
+                  className={`px-2 py-1.5 ${milestone.type === type ? 'bg-blue-500 text-white' : 'text-slate-400'}`}
+                  title={type === 'percentage' ? 'Percentage of total' : 'Fixed amount'}
+                >
+                  {type === 'percentage' ? <Percent size={14} /> : <PoundSterling size={14} />}
+                </button>
+              ))}
+            </div>
+            <input
+              type="number"
+              className="w-24 bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-sm font-bold text-slate-900 outline-none focus:border-blue-400"
+              value={milestone.value || ''}
+              onChange={e => updateMilestone(milestone.id, { value: parseFloat(e.target.value) || 0 })}
+              placeholder={milestone.type === 'percentage' ? '25' : '500.00'}
+            />
+            <select
+              className="bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-600 outline-none"
+              value={milestone.dueTrigger || ''}
+              onChange={e => updateMilestone(milestone.id, {
+                dueTrigger: (e.target.value || undefined) as PaymentMilestoneTrigger | undefined,
+                dueDate: e.target.value === 'on_date' ? milestone.dueDate : undefined,
+              })}
+            >
+              <option value="">No due trigger</option>
+              {(Object.keys(MILESTONE_TRIGGER_LABELS) as PaymentMilestoneTrigger[]).map(trigger => (
+                <option key={trigger} value={trigger}>{MILESTONE_TRIGGER_LABELS[trigger]}</option>
+              ))}
+            </select>
+            {milestone.dueTrigger === 'on_date' && (
+              <input
+                type="date"
+                className="bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-600 outline-none"
+                value={milestone.dueDate || ''}
+                onChange={e => updateMilestone(milestone.id, { dueDate: e.target.value || undefined })}
+              />
+            )}
+            <span className="ml-auto text-sm font-black text-blue-600">£{getMilestoneAmount(milestone, total).toFixed(2)}</span>
+          </div>
+        </div>
+      ))}
+
+      <datalist id="milestone-presets">
+        {MILESTONE_PRESETS.map(label => <option key={label} value={label} />)}
+      </datalist>
+
+      {error && <p className="text-xs font-bold text-red-600">{error}</p>}
+
+      <button
+        onClick={addMilestone}
+        className="w-full flex items-center justify-center gap-2 py-2 bg-blue-50 border border-blue-200 rounded-xl text-blue-600 font-bold text-xs uppercase tracking-wider hover:bg-blue-100 active:scale-95 transition-all"
+      >
+        <Plus size={14} /> Add Milestone
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { QuoteOption } from '../../types';
+import type { QuoteOptionTotals } from '../../src/utils/quoteCalculations';
+import { Plus, Trash2, ListChecks } from 'lucide-react';
+
+interface QuoteOptionsEditorProps {
+  options: QuoteOption[];
+  optionTotals: QuoteOptionTotals[];
+  onAddOption: () => void;
+  onUpdateOption: (optionId: string, updates: Partial<QuoteOption>) => void;
+  onRemoveOption: (optionId: string) => void;
+}
+
+export const QuoteOptionsEditor: React.FC<QuoteOptionsEditorProps> = ({
+  options,
+  optionTotals,
+  onAddOption,
+  onUpdateOption,
+  onRemoveOption,
+}) => {
+  return (
+    <div className="bg-white p-3 md:p-5 rounded-[24px] border border-slate-200 shadow-sm space-y-3">
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 bg-slate-900 text-teal-500 rounded-2xl flex items-center justify-center shrink-0 shadow-lg"><ListChecks size={20} /></div>
+        <div className="flex-1">
+          <h3 className="text-xs md:text-sm font-black text-slate-900 uppercase tracking-widest">Options</h3>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest italic">
+            {options.length > 0 ? 'Assign each section to an option, or leave it in all of them' : 'Offer good / better / best in one quote'}
+          </p>
+        </div>
+      </div>
+
+      {options.map((option, idx) => {
+        const total = optionTotals.find(t => t.optionId === option.id)?.grandTotal || 0;
+        return (
+          <div key={option.id} className="flex items-center gap-2 bg-slate-50 rounded-xl px-3 py-2">
+            <span className="text-[10px] font-black text-slate-400 w-4">{idx + 1}</span>
+            <input
+              type="text"
+              className="flex-1 bg-transparent text-sm font-bold text-slate-900 outline-none focus:text-teal-600"
+              value={option.name}
+              onChange={e => onUpdateOption(option.id, { name: e.target.value })}
+              placeholder="Option name (e.g. Full replacement)"
+            />
+            <span className="text-sm font-black text-slate-900">£{total.toFixed(2)}</span>
+            <button
+              onClick={() => onRemoveOption(option.id)}
+              className="p-1.5 text-slate-300 hover:text-red-500 transition-colors"
+              title="Remove Option"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        );
+      })}
+
+      <button
+        onClick={onAddOption}
+        className="w-full flex items-center justify-center gap-2 py-2 bg-white border border-slate-200 rounded-xl text-slate-600 font-bold text-xs uppercase tracking-wider shadow-sm hover:bg-slate-50 active:scale-95 transition-all"
+      >
+        <Plus size={14} className="text-teal-500" /> Add Option
+      </button>
+    </div>
+  );
+};
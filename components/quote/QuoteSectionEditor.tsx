@@ -1,7 +1,8 @@
 import React from 'react';
-import { QuoteSection, MaterialItem, LabourItem, AppSettings } from '../../types';
+import { QuoteSection, QuoteOption, MaterialItem, LabourItem, AppSettings, VatRateCode } from '../../types';
 import { MaterialItemRow } from './MaterialItemRow';
 import { LabourItemRow } from './LabourItemRow';
+import { VatRateSelect } from './VatRateSelect';
 import { Trash2, Plus, Package, Type, HardHat, PoundSterling } from 'lucide-react';
 
 interface QuoteSectionEditorProps {
@@ -30,6 +31,12 @@ interface QuoteSectionEditorProps {
   onUpdateLabourCost: (sectionId: string, cost: number) => void;
   onUpdateSubsectionPrice: (sectionId: string, price: number | undefined) => void;
   onRemoveSection: (sectionId: string) => void;
+  // Option tiers - omitted for invoices
+  options?: QuoteOption[];
+  onUpdateScope?: (sectionId: string, updates: Pick<QuoteSection, 'optionId' | 'isOptional' | 'isIncluded'>) => void;
+  // VAT rates - omitted when VAT is off
+  vatStandardRate?: number;
+  onUpdateVatRate?: (sectionId: string, vatRate: VatRateCode | undefined) => void;
   // Calculations
   calculateSectionLabour: (section: QuoteSection) => number;
   getTotalLabourHours: (section: QuoteSection) => number;
@@ -58,6 +65,10 @@ export const QuoteSectionEditor: React.FC<QuoteSectionEditorProps> = ({
   onUpdateLabourCost,
   onUpdateSubsectionPrice,
   onRemoveSection,
+  options = [],
+  onUpdateScope,
+  vatStandardRate,
+  onUpdateVatRate,
   calculateSectionLabour,
   getTotalLabourHours,
 }) => {
@@ -101,6 +112,53 @@ export const QuoteSectionEditor: React.FC<QuoteSectionEditorProps> = ({
         </div>
       </div>
 
+      {/* Which option the section belongs to, and whether it's an optional extra */}
+      {onUpdateScope && (
+        <div className="flex flex-wrap items-center gap-2 md:gap-3 mt-1 md:mt-3 ml-8 md:ml-[52px]">
+          {options.length > 0 && (
+            <select
+              className="bg-slate-50 border border-slate-200 rounded-lg text-[9px] md:text-xs font-black uppercase px-2 py-1 outline-none text-slate-600 cursor-pointer"
+              value={section.optionId || ''}
+              onChange={e => onUpdateScope(section.id, { optionId: e.target.value || undefined })}
+            >
+              <option value="">All options</option>
+              {options.map((option, idx) => <option key={option.id} value={option.id}>{option.name || `Option ${idx + 1}`} only</option>)}
+            </select>
+          )}
+          <label className="flex items-center gap-1.5 text-[9px] md:text-xs font-black text-slate-500 uppercase tracking-wider cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!section.isOptional}
+              onChange={e => onUpdateScope(section.id, { isOptional: e.target.checked || undefined, isIncluded: undefined })}
+              className="accent-teal-500"
+            />
+            Optional extra
+          </label>
+          {section.isOptional && (
+            <label className="flex items-center gap-1.5 text-[9px] md:text-xs font-black text-teal-600 uppercase tracking-wider cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!!section.isIncluded}
+                onChange={e => onUpdateScope(section.id, { isIncluded: e.target.checked || undefined })}
+                className="accent-teal-500"
+              />
+              Included in total
+            </label>
+          )}
+        </div>
+      )}
+
+      {/* Default VAT rate for the section's lines */}
+      {vatStandardRate !== undefined && onUpdateVatRate && (
+        <div className="flex items-center gap-2 mt-1 md:mt-3 ml-8 md:ml-[52px]">
+          <VatRateSelect
+            value={section.vatRate}
+            standardRate={vatStandardRate}
+            onChange={vatRate => onUpdateVatRate(section.id, vatRate)}
+          />
+        </div>
+      )}
+
       {/* Material Items Section */}
       <div className="pt-1 md:pt-4 mt-1 md:mt-4 border-t border-slate-100">
         <div className="flex items-center justify-between mb-1 md:mb-3">
@@ -121,6 +179,7 @@ export const QuoteSectionEditor: React.FC<QuoteSectionEditorProps> = ({
             onIncrement={onIncrementQuantity}
             onDecrement={onDecrementQuantity}
             onSaveToLibrary={onSaveItemToLibrary}
+            vatStandardRate={vatStandardRate}
           />
         ))}
 
@@ -176,6 +235,7 @@ export const QuoteSectionEditor: React.FC<QuoteSectionEditorProps> = ({
             onRemove={onRemoveLabourItem}
             onIncrement={onIncrementLabourHours}
             onDecrement={onDecrementLabourHours}
+            vatStandardRate={vatStandardRate}
           />
         ))}
 
@@ -1,5 +1,5 @@
 import React from 'react';
-import { AppSettings } from '../../types';
+import { AppSettings, Quote } from '../../types';
 import { hapticSuccess } from '../../src/hooks/useHaptic';
 
 interface QuoteTotalsProps {
@@ -10,11 +10,14 @@ interface QuoteTotalsProps {
     markup: number;
     discount: number;
     tax: number;
+    reverseChargeVat: number;
     cis: number;
     total: number;
+    retention: number;
+    dueNow: number;
   };
   settings: AppSettings;
-  documentType: 'estimate' | 'quotation' | 'invoice';
+  documentType: Quote['type'];
   onSave: () => void;
 }
 
@@ -67,8 +70,11 @@ export const QuoteTotals: React.FC<QuoteTotalsProps> = ({
           )}
           {settings.enableVat && (
             <div className="flex justify-between gap-4 py-1 border-b border-slate-700/50">
-              <span className="text-blue-400">VAT</span>
-              <span className="text-blue-300">£{totals.tax.toFixed(2)}</span>
+              <span className="text-blue-400">{totals.reverseChargeVat > 0 ? 'VAT (reverse charge)' : 'VAT'}</span>
+              <span className="text-blue-300">
+                £{totals.tax.toFixed(2)}
+                {totals.reverseChargeVat > 0 && <span className="text-slate-400 ml-1">(£{totals.reverseChargeVat.toFixed(2)} due by customer)</span>}
+              </span>
             </div>
           )}
           {settings.enableCis && (
@@ -77,6 +83,18 @@ export const QuoteTotals: React.FC<QuoteTotalsProps> = ({
               <span className="text-red-300">-£{totals.cis.toFixed(2)}</span>
             </div>
           )}
+          {totals.retention > 0 && (
+            <>
+              <div className="flex justify-between gap-4 py-1 border-t border-slate-700/50">
+                <span className="text-amber-400">Retention</span>
+                <span className="text-amber-300">-£{totals.retention.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between gap-4 py-1">
+                <span className="text-slate-400">Due Now</span>
+                <span className="text-slate-200">£{totals.dueNow.toFixed(2)}</span>
+              </div>
+            </>
+          )}
         </div>
       </div>
 
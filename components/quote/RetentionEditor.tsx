@@ -0,0 +1,99 @@
+import React from 'react';
+import { Quote } from '../../types';
+import { ShieldCheck, X } from 'lucide-react';
+
+interface RetentionEditorProps {
+  retentionPercent?: number;
+  practicalCompletionDate?: string;
+  defectsPeriodEndDate?: string;
+  retentionAmount: number;
+  amountDueNow: number;
+  onChange: (updates: Pick<Quote, 'retentionPercent' | 'practicalCompletionDate' | 'defectsPeriodEndDate'>) => void;
+}
+
+// Rates main contractors typically hold back
+const RETENTION_PRESETS = [2.5, 3, 5];
+
+export const RetentionEditor: React.FC<RetentionEditorProps> = ({
+  retentionPercent,
+  practicalCompletionDate,
+  defectsPeriodEndDate,
+  retentionAmount,
+  amountDueNow,
+  onChange,
+}) => {
+  const current = { retentionPercent, practicalCompletionDate, defectsPeriodEndDate };
+  const enabled = retentionPercent !== undefined;
+
+  return (
+    <div className="bg-white p-4 rounded-[24px] border border-slate-200 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2"><ShieldCheck size={16} className="text-amber-500" /><span className="text-xs font-black text-slate-600 uppercase tracking-widest">Retention</span></div>
+        {enabled ? (
+          <button
+            onClick={() => onChange({ retentionPercent: undefined, practicalCompletionDate: undefined, defectsPeriodEndDate: undefined })}
+            className="p-1 text-slate-300 hover:text-red-500 transition-colors"
+            title="Remove Retention"
+          >
+            <X size={14} />
+          </button>
+        ) : (
+          <div className="flex gap-1">
+            {RETENTION_PRESETS.map(percent => (
+              <button
+                key={percent}
+                onClick={() => onChange({ ...current, retentionPercent: percent })}
+                className="px-2.5 py-1.5 bg-amber-50 text-amber-700 rounded-lg text-xs font-bold hover:bg-amber-100 transition-colors"
+              >
+                {percent}%
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              step="0.5"
+              min="0"
+              max="100"
+              className="w-20 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-sm font-bold text-slate-900 outline-none focus:border-amber-400"
+              value={retentionPercent || ''}
+              onChange={e => onChange({ ...current, retentionPercent: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="text-xs font-bold text-slate-500">% of the net value held back</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">Practical completion</span>
+              <input
+                type="date"
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-600 outline-none"
+                value={practicalCompletionDate || ''}
+                onChange={e => onChange({ ...current, practicalCompletionDate: e.target.value || undefined })}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-wider mb-1">End of defects period</span>
+              <input
+                type="date"
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-600 outline-none"
+                value={defectsPeriodEndDate || ''}
+                onChange={e => onChange({ ...current, defectsPeriodEndDate: e.target.value || undefined })}
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-between text-xs font-bold">
+            <span className="text-amber-600">Retained £{retentionAmount.toFixed(2)}</span>
+            <span className="text-slate-700">Due now £{amountDueNow.toFixed(2)}</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { VatRateCode } from '../../types';
+import { VAT_RATE_CODES, formatVatBand, getVatRatePercent } from '../../src/utils/vatRates';
+
+interface VatRateSelectProps {
+  value?: VatRateCode;
+  standardRate: number;
+  onChange: (value: VatRateCode | undefined) => void;
+  // Offer an unset option that follows the section's rate
+  inheritLabel?: string;
+  className?: string;
+}
+
+export const VatRateSelect: React.FC<VatRateSelectProps> = ({
+  value,
+  standardRate,
+  onChange,
+  inheritLabel,
+  className = '',
+}) => (
+  <select
+    value={value || (inheritLabel ? '' : 'standard')}
+    onChange={e => onChange((e.target.value || undefined) as VatRateCode | undefined)}
+    className={`bg-white border border-slate-200 rounded md:rounded-lg text-[8px] md:text-xs font-bold text-slate-500 outline-none focus:ring-1 focus:ring-teal-200 px-0.5 md:px-2 h-5 md:h-8 ${className}`}
+    title="VAT rate"
+  >
+    {inheritLabel && <option value="">{inheritLabel}</option>}
+    {VAT_RATE_CODES.map(code => (
+      <option key={code} value={code}>
+        VAT: {formatVatBand({ code, ratePercent: getVatRatePercent(code, standardRate) })}
+      </option>
+    ))}
+  </select>
+);
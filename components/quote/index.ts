@@ -5,3 +5,7 @@ export { CustomerModal } from './CustomerModal';
 export { DiscountModal } from './DiscountModal';
 export { PartPaymentModal } from './PartPaymentModal';
 export { QuoteTotals } from './QuoteTotals';
+export { QuoteOptionsEditor } from './QuoteOptionsEditor';
+export { PaymentScheduleEditor } from './PaymentScheduleEditor';
+export { RetentionEditor } from './RetentionEditor';
+export { VatRateSelect } from './VatRateSelect';
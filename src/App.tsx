@@ -6,12 +6,14 @@ import { OfflineProvider } from './contexts/OfflineContext';
 import { LoginPage } from './components/Auth/LoginPage';
 import { LandingPage } from './components/LandingPage';
 import { PrivacyPolicy } from './components/PrivacyPolicy';
+import { QuotePortal } from './components/QuotePortal';
 import { PWAPrompt, OfflineIndicator as PWAOfflineIndicator } from './components/PWAPrompt';
 import { OfflineIndicator } from '../components/OfflineIndicator';
 import { ErrorBoundary } from '../components/ErrorBoundary';
 import MainApp from './components/MainApp';
 import { Loader2 } from 'lucide-react';
 import { useReferralCapture } from './hooks/useReferralCapture';
+import { parseQuotePortalToken } from './utils/quotePortal';
 
 // Loading screen component
 const LoadingScreen: React.FC<{ message?: string }> = ({ message = 'Loading...' }) => (
@@ -63,6 +65,8 @@ const ViewRouter: React.FC = () => {
   const { user, loading } = useAuth();
   const [view, setView] = useState<ViewState>('landing');
   const [hasVisitedBefore, setHasVisitedBefore] = useState<boolean | null>(null);
+  // Customer quote links (/q/<token>) are public and bypass sign-in
+  const [portalToken] = useState(() => parseQuotePortalToken(window.location.pathname));
 
   // Check URL path for direct navigation (e.g., /privacy)
   useEffect(() => {
@@ -101,6 +105,10 @@ const ViewRouter: React.FC = () => {
     }
   }, [user]);
 
+  if (portalToken) {
+    return <QuotePortal token={portalToken} />;
+  }
+
   if (loading || hasVisitedBefore === null) {
     return <LoadingScreen />;
   }
@@ -1,4 +1,4 @@
-import React, { useState, useMemo, Suspense, lazy, useCallback } from 'react';
+import React, { useState, useMemo, Suspense, lazy, useCallback, useEffect, useRef } from 'react';
 import { Layout } from '../../components/Layout';
 import { Home } from '../../components/Home';
 import { JobPackList } from '../../components/JobPackList';
@@ -8,7 +8,14 @@ import { useAuth } from '../contexts/AuthContext';
 import { useToast } from '../contexts/ToastContext';
 import { useHistoryNavigation } from '../hooks/useHistoryNavigation';
 import { usePageTracking } from '../hooks/usePageTracking';
-import { Quote, JobPack, Customer } from '../../types';
+import { getPaymentsForInvoice } from '../utils/invoicePayments';
+import { buildCreditNote, getCreditNotesForInvoice, type CreditNoteOptions } from '../utils/creditNotes';
+import { describeSchedule, type RecurringInvoiceInput } from '../utils/recurringInvoices';
+import { getLatestQuoteResponse, getUnseenQuoteResponses } from '../utils/quotePortal';
+import { applyAcceptedScope, needsCustomerChoice } from '../utils/quoteOptions';
+import { buildStageInvoice, isScheduleFullyInvoiced, summarisePaymentSchedule } from '../utils/paymentSchedule';
+import { buildRetentionLedger, getRetentionReleasesDue } from '../utils/retention';
+import { Quote, JobPack, Customer, InvoicePayment } from '../../types';
 import { AlertCircle, FileWarning, Loader2 } from 'lucide-react';
 
 // Lazy loaded components for code splitting
@@ -21,6 +28,7 @@ const QuotesList = lazy(() => import('../../components/QuotesList').then(m => ({
 const InvoicesList = lazy(() => import('../../components/InvoicesList').then(m => ({ default: m.InvoicesList })));
 const ScheduleCalendar = lazy(() => import('../../components/ScheduleCalendar').then(m => ({ default: m.ScheduleCalendar })));
 const ExpensesPage = lazy(() => import('../../components/ExpensesPage').then(m => ({ default: m.ExpensesPage })));
+const MileagePage = lazy(() => import('../../components/MileagePage').then(m => ({ default: m.MileagePage })));
 const BankImportPage = lazy(() => import('../../components/BankImportPage').then(m => ({ default: m.BankImportPage })));
 const ReconciliationPage = lazy(() => import('../../components/ReconciliationPage').then(m => ({ default: m.ReconciliationPage })));
 const VATSummaryPage = lazy(() => import('../../components/VATSummaryPage').then(m => ({ default: m.VATSummaryPage })));
@@ -34,6 +42,13 @@ const TrialUsersAdmin = lazy(() => import('../../components/TrialUsersAdmin').th
 const FutureJobsPage = lazy(() => import('../../components/FutureJobsPage').then(m => ({ default: m.FutureJobsPage })));
 const AccountantExportPage = lazy(() => import('../../components/AccountantExportPage').then(m => ({ default: m.AccountantExportPage })));
 const AgedReceivablesPage = lazy(() => import('../../components/AgedReceivablesPage').then(m => ({ default: m.AgedReceivablesPage })));
+const TaxEstimatePage = lazy(() => import('../../components/TaxEstimatePage').then(m => ({ default: m.TaxEstimatePage })));
+const CashForecastPage = lazy(() => import('../../components/CashForecastPage').then(m => ({ default: m.CashForecastPage })));
+const BalanceSheetPage = lazy(() => import('../../components/BalanceSheetPage').then(m => ({ default: m.BalanceSheetPage })));
+const TrialBalancePage = lazy(() => import('../../components/TrialBalancePage').then(m => ({ default: m.TrialBalancePage })));
+const CisPage = lazy(() => import('../../components/CisPage').then(m => ({ default: m.CisPage })));
+const RetentionLedgerPage = lazy(() => import('../../components/RetentionLedgerPage').then(m => ({ default: m.RetentionLedgerPage })));
+const RecurringInvoicesPage = lazy(() => import('../../components/RecurringInvoicesPage').then(m => ({ default: m.RecurringInvoicesPage })));
 
 // Loading fallback component
 const PageLoader: React.FC = () => (
@@ -48,17 +63,25 @@ type TabType =
   | 'jobpacks'
   | 'quotes'
   | 'invoices'
+  | 'recurring'
   | 'aged_receivables'
+  | 'retention'
   | 'customers'
   | 'schedule'
   | 'expenses'
+  | 'mileage'
   | 'materials'
   | 'files'
   | 'bank'
   | 'reconcile'
   | 'vat'
+  | 'cis'
   | 'profitloss'
   | 'payables'
+  | 'tax_estimate'
+  | 'cash_forecast'
+  | 'balance_sheet'
+  | 'trial_balance'
   | 'accountant_export'
   | 'settings'
   | 'wholesalers'
@@ -70,7 +93,7 @@ type TabType =
   | 'quote_edit';
 
 // Valid main tabs that can be restored after page reload (e.g., returning from camera)
-const RESTORABLE_TABS: readonly TabType[] = ['home', 'jobpacks', 'quotes', 'invoices', 'aged_receivables', 'customers', 'settings', 'schedule', 'expenses', 'bank', 'reconcile', 'vat', 'payables', 'accountant_export', 'files', 'materials', 'wholesalers', 'support', 'trial_analytics', 'future_jobs'];
+const RESTORABLE_TABS: readonly TabType[] = ['home', 'jobpacks', 'quotes', 'invoices', 'recurring', 'aged_receivables', 'retention', 'customers', 'settings', 'schedule', 'expenses', 'mileage', 'bank', 'reconcile', 'vat', 'cis', 'payables', 'tax_estimate', 'cash_forecast', 'balance_sheet', 'trial_balance', 'accountant_export', 'files', 'materials', 'wholesalers', 'support', 'trial_analytics', 'future_jobs'];
 type RestorableTab = typeof RESTORABLE_TABS[number];
 
 const App: React.FC = () => {
@@ -80,6 +103,9 @@ const App: React.FC = () => {
     customers, quotes, projects, schedule, settings,
     setCustomers, setSettings, updateSettings,
     addCustomer, updateCustomer, deleteCustomer, saveQuote, updateQuote, updateQuoteStatus, deleteQuote,
+    invoicePayments, recordInvoicePayment, deleteInvoicePayment,
+    recurringInvoices, addRecurringInvoice,
+    quoteResponses, shareQuote, markQuoteResponsesSeen,
     addProject, saveProject, deleteProject,
     addScheduleEntry, updateScheduleEntry, deleteScheduleEntry,
     refresh,
@@ -197,10 +223,85 @@ const App: React.FC = () => {
     try { await updateQuoteStatus(id, status); } catch (error) { console.error('Failed:', error); }
   };
 
+  const handleRecordPayment = async (invoiceId: string, payment: Omit<InvoicePayment, 'id' | 'invoiceId' | 'createdAt'>) => {
+    try {
+      await recordInvoicePayment(invoiceId, payment);
+      toast.success('Payment Recorded', `£${payment.amount.toFixed(2)} received`);
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      toast.error('Payment Failed', 'Could not record payment');
+      throw error;
+    }
+  };
+
+  const handleDeletePayment = async (paymentId: string) => {
+    try {
+      await deleteInvoicePayment(paymentId);
+    } catch (error) {
+      console.error('Failed to delete payment:', error);
+      toast.error('Delete Failed', 'Could not remove payment');
+    }
+  };
+
+  const handleCreateCreditNote = async (invoiceId: string, options: CreditNoteOptions) => {
+    const invoice = quotes.find(q => q.id === invoiceId);
+    if (!invoice) return;
+
+    try {
+      const saved = await saveQuote(buildCreditNote(invoice, options));
+      setViewingQuoteId(saved.id);
+      toast.success('Credit Note Issued', `"${invoice.title}" has been credited`);
+    } catch (error) {
+      console.error('Failed to create credit note:', error);
+      toast.error('Credit Note Failed', 'Could not issue credit note');
+      throw error;
+    }
+  };
+
+  const handleVoidInvoice = async (invoiceId: string) => {
+    const invoice = quotes.find(q => q.id === invoiceId);
+    if (!invoice) return;
+
+    try {
+      // Voiding reverses the whole invoice so the books still balance
+      await saveQuote(buildCreditNote(invoice, { reason: `Void of invoice "${invoice.title}"` }));
+      await updateQuoteStatus(invoiceId, 'void');
+      toast.success('Invoice Voided', 'A credit note for the full amount has been issued');
+    } catch (error) {
+      console.error('Failed to void invoice:', error);
+      toast.error('Void Failed', 'Could not void invoice');
+    }
+  };
+
+  const handleMakeRecurring = async (recurring: RecurringInvoiceInput) => {
+    try {
+      const created = await addRecurringInvoice(recurring);
+      toast.success('Recurring Invoice Set Up', `${describeSchedule(created)} from ${new Date(created.startDate).toLocaleDateString('en-GB')}`);
+    } catch (error) {
+      console.error('Failed to create recurring invoice:', error);
+      toast.error('Setup Failed', 'Could not set up recurring invoice');
+      throw error;
+    }
+  };
+
+  const handleShareQuoteLink = async (quoteId: string) => {
+    try {
+      return await shareQuote(quoteId);
+    } catch (error) {
+      console.error('Failed to share quote:', error);
+      toast.error('Share Failed', 'Could not create the customer link');
+      throw error;
+    }
+  };
+
   const handleConvertToInvoice = async () => {
     if (!viewingQuoteId) return;
     const quote = quotes.find(q => q.id === viewingQuoteId);
     if (!quote) return;
+    if (needsCustomerChoice(quote)) {
+      toast.error('Choose an Option', 'Record which option the customer chose before invoicing');
+      return;
+    }
 
     try {
       // Calculate default due date (14 days from now)
@@ -208,7 +309,8 @@ const App: React.FC = () => {
       dueDate.setDate(dueDate.getDate() + 14);
 
       const invoiceQuote: Quote = {
-        ...quote,
+        // Bill only the option and add-ons the customer accepted
+        ...applyAcceptedScope(quote),
         id: '', // Will be generated
         type: 'invoice',
         status: 'draft',
@@ -216,6 +318,7 @@ const App: React.FC = () => {
         date: new Date().toISOString().split('T')[0],
         dueDate: dueDate.toISOString().split('T')[0],
         parentQuoteId: quote.id, // Link back to original quote
+        paymentSchedule: undefined,
         notes: settings.defaultInvoiceNotes || quote.notes, // Use invoice notes
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -231,6 +334,30 @@ const App: React.FC = () => {
     }
   };
 
+  const handleRaiseStageInvoice = async (milestoneId: string) => {
+    if (!viewingQuoteId) return;
+    const quote = quotes.find(q => q.id === viewingQuoteId);
+    const milestone = quote?.paymentSchedule?.find(m => m.id === milestoneId);
+    if (!quote || !milestone) return;
+    if (needsCustomerChoice(quote)) {
+      toast.error('Choose an Option', 'Record which option the customer chose before invoicing');
+      return;
+    }
+
+    try {
+      const saved = await saveQuote(buildStageInvoice(quote, milestone, settings));
+      // The quote is invoiced once every stage has been raised
+      if (isScheduleFullyInvoiced(quote, [...quotes, saved])) {
+        await updateQuoteStatus(viewingQuoteId, 'invoiced');
+      }
+      setViewingQuoteId(saved.id);
+      toast.success('Stage Invoice Created', `${milestone.label} invoiced with 14-day payment terms`);
+    } catch (error) {
+      console.error('Failed to raise stage invoice:', error);
+      toast.error('Invoice Failed', 'Could not create the stage invoice');
+    }
+  };
+
   const handleDuplicateQuote = async () => {
     if (!viewingQuoteId) return;
     const quote = quotes.find(q => q.id === viewingQuoteId);
@@ -244,6 +371,11 @@ const App: React.FC = () => {
         status: 'draft',
         referenceNumber: undefined, // Will be auto-assigned
         date: new Date().toISOString().split('T')[0],
+        // A copy is not part of the original's recurring schedule
+        recurringInvoiceId: undefined,
+        recurrenceDate: undefined,
+        // ...nor does it bill one of the source quote's milestones
+        milestoneId: undefined,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
@@ -274,6 +406,38 @@ const App: React.FC = () => {
   const activeProject = useMemo(() => activeProjectId ? projects.find(p => p.id === activeProjectId) || null : null, [projects, activeProjectId]);
   const activeViewQuote = useMemo(() => viewingQuoteId ? quotes.find(q => q.id === viewingQuoteId) : null, [quotes, viewingQuoteId]);
   const activeViewCustomer = useMemo(() => activeViewQuote ? customers.find(c => c.id === activeViewQuote.customerId) : null, [customers, activeViewQuote]);
+  const activeViewRecurringInvoice = useMemo(() => activeViewQuote?.recurringInvoiceId ? recurringInvoices.find(r => r.id === activeViewQuote.recurringInvoiceId) : undefined, [recurringInvoices, activeViewQuote]);
+  const activeViewQuoteResponse = useMemo(() => viewingQuoteId ? getLatestQuoteResponse(quoteResponses, viewingQuoteId) : undefined, [quoteResponses, viewingQuoteId]);
+  const unseenQuoteResponses = useMemo(() => getUnseenQuoteResponses(quoteResponses), [quoteResponses]);
+  const retentionReleasesDue = useMemo(() => getRetentionReleasesDue(buildRetentionLedger(quotes, invoicePayments, settings)), [quotes, invoicePayments, settings]);
+
+  // Tell the user about customer responses as they arrive
+  const notifiedResponseIdsRef = useRef(new Set<string>());
+  useEffect(() => {
+    unseenQuoteResponses
+      .filter(r => !notifiedResponseIdsRef.current.has(r.id))
+      .forEach(r => {
+        notifiedResponseIdsRef.current.add(r.id);
+        const title = quotes.find(q => q.id === r.quoteId)?.title || r.quoteReference || 'Quote';
+        if (r.decision === 'accepted') {
+          toast.success('Quote Accepted', `${r.signerName} accepted "${title}"`);
+        } else {
+          toast.info('Quote Declined', `${r.signerName} declined "${title}"`);
+        }
+      });
+  }, [unseenQuoteResponses, quotes, toast]);
+
+  // Opening the quote clears its notification
+  useEffect(() => {
+    if (activeTab !== 'view' || !viewingQuoteId) return;
+    const ids = unseenQuoteResponses.filter(r => r.quoteId === viewingQuoteId).map(r => r.id);
+    if (ids.length === 0) return;
+    markQuoteResponsesSeen(ids).catch(err => console.warn('Failed to mark quote responses seen:', err));
+  }, [activeTab, viewingQuoteId, unseenQuoteResponses]);
+
+  const activeViewParentInvoice = useMemo(() => activeViewQuote?.type === 'credit_note' ? quotes.find(q => q.id === activeViewQuote.parentQuoteId) : undefined, [quotes, activeViewQuote]);
+  const activeViewStageQuote = useMemo(() => activeViewQuote?.milestoneId ? quotes.find(q => q.id === activeViewQuote.parentQuoteId) : undefined, [quotes, activeViewQuote]);
+  const activeViewScheduleProgress = useMemo(() => activeViewQuote?.paymentSchedule?.length ? summarisePaymentSchedule(activeViewQuote, quotes, settings) : undefined, [quotes, activeViewQuote, settings]);
 
   return (
     <Layout activeTab={activeTab === 'view' || activeTab === 'jobpack_detail' || activeTab === 'quote_edit' ? '' : activeTab} setActiveTab={setActiveTab} onSignOut={signOut}>
@@ -309,6 +473,11 @@ const App: React.FC = () => {
           return created;
         }}
         onRefresh={refresh}
+        quoteResponses={unseenQuoteResponses}
+        onViewQuote={handleViewQuote}
+        retentionReleasesDue={retentionReleasesDue}
+        onViewRetention={() => setActiveTab('retention')}
+        onViewTaxEstimate={() => setActiveTab('tax_estimate')}
         onNavigateToFutureJobs={() => setActiveTab('future_jobs')}
       />}
       {activeTab === 'jobpacks' && <JobPackList projects={[...projects].sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())} customers={customers} onOpenProject={openProject} onAddProject={handleAddProject} onAddCustomer={handleAddCustomer} onBack={() => setActiveTab('home')} />}
@@ -317,14 +486,22 @@ const App: React.FC = () => {
         {activeTab === 'schedule' && <ScheduleCalendar entries={schedule} projects={projects} customers={customers} onAddCustomer={handleAddCustomer} onAddEntry={addScheduleEntry} onUpdateEntry={updateScheduleEntry} onDeleteEntry={deleteScheduleEntry} onBack={() => setActiveTab('home')} />}
         {activeTab === 'jobpack_detail' && activeProjectId && (activeProject ? <JobPackView key={activeProjectId} project={activeProject} customers={customers} quotes={quotes.filter(q => q.projectId === activeProjectId)} onSaveProject={handleSaveProject} onViewQuote={handleViewQuote} onCreateQuote={() => handleCreateQuote(activeProjectId)} onBack={() => setActiveTab('jobpacks')} onDeleteProject={deleteProject} onRefresh={refresh} /> : <div className="flex flex-col items-center justify-center py-20 text-slate-400"><AlertCircle size={48} className="text-teal-500 mb-4" /><p>Job Pack Not Found</p><button onClick={() => setActiveTab('jobpacks')} className="mt-4 bg-slate-900 text-white px-4 py-2 rounded">Back</button></div>)}
         {activeTab === 'quotes' && <QuotesList quotes={[...quotes].filter(q => q.type === 'estimate' || q.type === 'quotation').sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())} customers={customers} settings={settings} onViewQuote={handleViewQuote} onEditQuote={handleEditQuote} onCreateQuote={() => handleCreateQuote()} onDeleteQuote={deleteQuote} onBack={() => setActiveTab('home')} />}
-        {activeTab === 'invoices' && <InvoicesList quotes={[...quotes].filter(q => q.type === 'invoice').sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())} customers={customers} settings={settings} onViewQuote={handleViewQuote} onCreateInvoice={handleCreateInvoice} onDeleteInvoice={deleteQuote} onBack={() => setActiveTab('home')} />}
+        {activeTab === 'invoices' && <InvoicesList quotes={[...quotes].filter(q => q.type === 'invoice' || q.type === 'credit_note').sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())} customers={customers} settings={settings} onViewQuote={handleViewQuote} onCreateInvoice={handleCreateInvoice} onViewRecurring={() => setActiveTab('recurring')} onDeleteInvoice={deleteQuote} onBack={() => setActiveTab('home')} />}
+        {activeTab === 'recurring' && <RecurringInvoicesPage onBack={() => setActiveTab('invoices')} onViewInvoice={handleViewQuote} />}
         {activeTab === 'aged_receivables' && <AgedReceivablesPage onBack={() => setActiveTab('home')} onViewInvoice={handleViewQuote} />}
+        {activeTab === 'retention' && <RetentionLedgerPage onBack={() => setActiveTab('aged_receivables')} onViewInvoice={handleViewQuote} />}
         {activeTab === 'expenses' && <ExpensesPage projects={projects} onBack={() => setActiveTab('home')} />}
+        {activeTab === 'mileage' && <MileagePage onBack={() => setActiveTab('home')} />}
         {activeTab === 'bank' && <BankImportPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'reconcile' && <ReconciliationPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'vat' && <VATSummaryPage onBack={() => setActiveTab('home')} />}
+        {activeTab === 'cis' && <CisPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'profitloss' && <ProfitLossPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'payables' && <AgedPayablesPage onBack={() => setActiveTab('home')} />}
+        {activeTab === 'tax_estimate' && <TaxEstimatePage onBack={() => setActiveTab('home')} />}
+        {activeTab === 'cash_forecast' && <CashForecastPage onBack={() => setActiveTab('home')} />}
+        {activeTab === 'balance_sheet' && <BalanceSheetPage onBack={() => setActiveTab('home')} />}
+        {activeTab === 'trial_balance' && <TrialBalancePage onBack={() => setActiveTab('home')} />}
         {activeTab === 'accountant_export' && <AccountantExportPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'files' && <FilingCabinetPage onBack={() => setActiveTab('home')} />}
         {activeTab === 'materials' && <MaterialsLibrary onBack={() => setActiveTab('home')} />}
@@ -335,7 +512,7 @@ const App: React.FC = () => {
         {activeTab === 'customers' && <CustomerManager customers={customers} addCustomer={addCustomer} updateCustomer={updateCustomer} deleteCustomer={deleteCustomer} onBack={() => setActiveTab('home')} />}
         {activeTab === 'settings' && <SettingsPage settings={settings} setSettings={setSettings} onSave={updateSettings} onBack={() => setActiveTab('home')} />}
         {activeTab === 'quote_edit' && <QuoteCreator existingQuote={quotes.find(q => q.id === editingQuoteId)} projectId={activeProjectId || undefined} initialType={initialQuoteType} customers={customers} settings={settings} onSave={handleSaveQuote} onAddCustomer={handleAddCustomer} onCancel={() => activeProjectId ? setActiveTab('jobpack_detail') : (initialQuoteType === 'invoice' ? setActiveTab('invoices') : setActiveTab('quotes'))} />}
-        {activeTab === 'view' && viewingQuoteId && (activeViewQuote ? <QuoteView quote={activeViewQuote} customer={activeViewCustomer || { id: 'unknown', name: 'Unassigned Client', email: '', phone: '', address: 'N/A' }} settings={settings} onEdit={() => handleEditQuote(viewingQuoteId)} onBack={() => activeProjectId ? setActiveTab('jobpack_detail') : (activeViewQuote.type === 'invoice' ? setActiveTab('invoices') : setActiveTab('quotes'))} onUpdateStatus={(status) => handleUpdateQuoteStatus(viewingQuoteId, status)} onUpdateQuote={handleUpdateQuote} onConvertToInvoice={handleConvertToInvoice} onDuplicate={handleDuplicateQuote} /> : <div className="flex flex-col items-center justify-center py-20 text-slate-400"><FileWarning size={48} className="text-teal-500 mb-4" /><p>Document Not Found</p><button onClick={() => setActiveTab('quotes')} className="mt-4 bg-slate-900 text-white px-4 py-2 rounded">Back</button></div>)}
+        {activeTab === 'view' && viewingQuoteId && (activeViewQuote ? <QuoteView quote={activeViewQuote} customer={activeViewCustomer || { id: 'unknown', name: 'Unassigned Client', email: '', phone: '', address: 'N/A' }} settings={settings} onEdit={() => handleEditQuote(viewingQuoteId)} onBack={() => activeProjectId ? setActiveTab('jobpack_detail') : (activeViewQuote.type === 'invoice' || activeViewQuote.type === 'credit_note' ? setActiveTab('invoices') : setActiveTab('quotes'))} onUpdateStatus={(status) => handleUpdateQuoteStatus(viewingQuoteId, status)} onUpdateQuote={handleUpdateQuote} payments={getPaymentsForInvoice(invoicePayments, viewingQuoteId)} onRecordPayment={(payment) => handleRecordPayment(viewingQuoteId, payment)} onDeletePayment={handleDeletePayment} creditNotes={getCreditNotesForInvoice(quotes, viewingQuoteId)} parentInvoice={activeViewParentInvoice} onCreateCreditNote={(options) => handleCreateCreditNote(viewingQuoteId, options)} onVoidInvoice={() => handleVoidInvoice(viewingQuoteId)} onViewQuote={handleViewQuote} recurringInvoice={activeViewRecurringInvoice} onMakeRecurring={handleMakeRecurring} onViewRecurring={() => setActiveTab('recurring')} quoteResponse={activeViewQuoteResponse} onShareLink={() => handleShareQuoteLink(viewingQuoteId)} onConvertToInvoice={handleConvertToInvoice} scheduleProgress={activeViewScheduleProgress} onRaiseStageInvoice={handleRaiseStageInvoice} stageQuote={activeViewStageQuote} onDuplicate={handleDuplicateQuote} /> : <div className="flex flex-col items-center justify-center py-20 text-slate-400"><FileWarning size={48} className="text-teal-500 mb-4" /><p>Document Not Found</p><button onClick={() => setActiveTab('quotes')} className="mt-4 bg-slate-900 text-white px-4 py-2 rounded">Back</button></div>)}
       </Suspense>
     </Layout>
   );
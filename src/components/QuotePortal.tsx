@@ -0,0 +1,287 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, CheckCircle2, XCircle, FileWarning, PenLine, Type, ShieldCheck } from 'lucide-react';
+import { QuoteDocument } from '../../components/quote-view';
+import { SignaturePad } from '../../components/SignaturePad';
+import { dbQuoteToApp, dbQuoteResponseToApp, dbSettingsToApp } from '../contexts/DataContext';
+import { getPortalQuote, respondToQuote, type PortalQuotePayload } from '../services/quotePortalService';
+import { calculateDocumentTotals } from '../utils/quoteCalculations';
+import { getDocumentPrefix } from '../utils/creditNotes';
+import {
+  canRespondToQuote,
+  validateQuoteResponse,
+  MAX_RESPONSE_COMMENT_LENGTH,
+  type QuoteResponseInput,
+} from '../utils/quotePortal';
+import { needsCustomerChoice } from '../utils/quoteOptions';
+import type { Customer, QuoteDecision, QuoteResponse } from '../../types';
+
+interface QuotePortalProps {
+  token: string;
+}
+
+const formatDateTime = (date: string) => new Date(date).toLocaleString('en-GB', {
+  day: 'numeric', month: 'long', year: 'numeric', hour: '2-digit', minute: '2-digit',
+});
+
+// Public page a customer opens from a shared quote link to review, sign and
+// accept or decline the quote. Works without a TradeSync account.
+export const QuotePortal: React.FC<QuotePortalProps> = ({ token }) => {
+  const [payload, setPayload] = useState<PortalQuotePayload | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [response, setResponse] = useState<QuoteResponse | null>(null);
+
+  const [decision, setDecision] = useState<QuoteDecision | null>(null);
+  const [signerName, setSignerName] = useState('');
+  const [signatureType, setSignatureType] = useState<QuoteResponseInput['signatureType']>('typed');
+  const [typedSignature, setTypedSignature] = useState('');
+  const [drawnSignature, setDrawnSignature] = useState('');
+  const [comment, setComment] = useState('');
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    getPortalQuote(token)
+      .then(data => {
+        setPayload(data);
+        setResponse(data.response ? dbQuoteResponseToApp(data.response) : null);
+      })
+      .catch(err => setLoadError(err.message || 'This quote could not be found'));
+  }, [token]);
+
+  const view = useMemo(() => {
+    if (!payload) return null;
+    const quote = dbQuoteToApp(payload.quote);
+    const settings = { ...dbSettingsToApp(payload.settings || {}), companyLogo: payload.logoUrl || undefined };
+    const customer: Customer = {
+      id: payload.customer?.id || 'unknown',
+      name: payload.customer?.name || '',
+      email: '',
+      phone: '',
+      address: payload.customer?.address || '',
+      company: payload.customer?.company || undefined,
+    };
+    const totals = calculateDocumentTotals(quote, settings);
+    const reference = `${getDocumentPrefix(quote.type, settings)}${(quote.referenceNumber || 1).toString().padStart(4, '0')}`;
+    return { quote, settings, customer, totals, reference };
+  }, [payload]);
+
+  const input: QuoteResponseInput = {
+    decision: decision || 'accepted',
+    signerName: signerName.trim(),
+    signatureType,
+    signatureData: signatureType === 'typed' ? typedSignature.trim() : drawnSignature,
+    comment: comment.trim() || undefined,
+  };
+
+  const handleSubmit = async () => {
+    const validationError = validateQuoteResponse(input);
+    if (validationError) {
+      setSubmitError(validationError);
+      return;
+    }
+    setSubmitError(null);
+    setIsSubmitting(true);
+    try {
+      const result = await respondToQuote(token, input);
+      setResponse(dbQuoteResponseToApp(result.response));
+    } catch (err: any) {
+      setSubmitError(err.message || 'Your response could not be saved. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+        <div className="bg-white rounded-[32px] p-8 max-w-md text-center shadow-xl">
+          <FileWarning size={48} className="mx-auto text-slate-300 mb-4" />
+          <h1 className="text-xl font-black text-slate-900">Quote unavailable</h1>
+          <p className="text-sm text-slate-500 mt-2">{loadError}. Please contact the business that sent you this link.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return (
+      <div className="min-h-screen bg-slate-100 flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-teal-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const { quote, settings, customer, totals, reference } = view;
+  const isOpen = !response && canRespondToQuote(quote);
+  // Until an option is chosen the customer is accepting the quote, not one price
+  const isUnchosen = needsCustomerChoice(quote);
+  const headlineTotal = isUnchosen
+    ? Math.min(...totals.optionTotals.map(o => o.grandTotal))
+    : totals.grandTotal;
+  const inputClass = 'w-full bg-white border-2 border-slate-200 rounded-xl p-3 font-bold text-slate-900 outline-none focus:border-teal-400 transition-colors';
+  const labelClass = 'block text-xs font-black text-slate-400 uppercase tracking-wider mb-2';
+
+  return (
+    <div className="min-h-screen bg-slate-100 pb-16">
+      {/* Header */}
+      <header className="bg-white border-b border-slate-200">
+        <div className="max-w-4xl mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-wider">{reference}</p>
+            <h1 className="text-lg font-black text-slate-900 truncate">{quote.title}</h1>
+            <p className="text-sm text-slate-500 truncate">From {settings.companyName}</p>
+          </div>
+          <div className="text-right shrink-0">
+            <p className="text-xs font-black text-slate-400 uppercase tracking-wider">{isUnchosen ? 'From' : 'Total'}</p>
+            <p className="text-2xl font-black text-slate-900">£{headlineTotal.toFixed(2)}</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        {/* The quote, in the business's own template */}
+        <div className="overflow-x-auto">
+          <QuoteDocument
+            quote={quote}
+            customer={customer}
+            settings={settings}
+            totals={totals}
+            reference={reference}
+          />
+        </div>
+
+        {/* Outcome */}
+        {response && (
+          <div className={`rounded-[32px] p-6 border-2 ${response.decision === 'accepted' ? 'bg-emerald-50 border-emerald-200' : 'bg-slate-50 border-slate-200'}`}>
+            <div className="flex items-center gap-3 mb-4">
+              {response.decision === 'accepted'
+                ? <CheckCircle2 size={28} className="text-emerald-600" />
+                : <XCircle size={28} className="text-slate-500" />}
+              <div>
+                <h2 className="text-lg font-black text-slate-900">
+                  {response.decision === 'accepted' ? 'Quote accepted' : 'Quote declined'}
+                </h2>
+                <p className="text-sm text-slate-500">
+                  By {response.signerName} on {formatDateTime(response.respondedAt)}
+                </p>
+              </div>
+            </div>
+            <div className="bg-white rounded-2xl p-4 border border-slate-100">
+              {response.signatureType === 'drawn'
+                ? <img src={response.signatureData} alt={`Signature of ${response.signerName}`} className="h-20 w-auto" />
+                : <p className="text-3xl text-slate-900 italic" style={{ fontFamily: 'cursive' }}>{response.signatureData}</p>}
+            </div>
+            {response.comment && <p className="text-sm text-slate-600 mt-3 whitespace-pre-line">{response.comment}</p>}
+            <p className="text-xs text-slate-400 mt-3">{settings.companyName} has been notified.</p>
+          </div>
+        )}
+
+        {!response && !isOpen && (
+          <div className="rounded-[32px] p-6 bg-white border-2 border-slate-100 text-center">
+            <p className="font-black text-slate-900">This quote is no longer open for a response</p>
+            <p className="text-sm text-slate-500 mt-1">Please contact {settings.companyName} if you have any questions.</p>
+          </div>
+        )}
+
+        {/* Respond */}
+        {isOpen && (
+          <div className="bg-white rounded-[32px] p-6 shadow-xl">
+            <h2 className="text-xl font-black text-slate-900 mb-4">Your response</h2>
+
+            <div className="grid grid-cols-2 gap-3 mb-6">
+              <button
+                onClick={() => setDecision('accepted')}
+                className={`p-4 rounded-xl font-black uppercase text-sm flex items-center justify-center gap-2 transition-all ${
+                  decision === 'accepted' ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/30' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <CheckCircle2 size={18} /> Accept
+              </button>
+              <button
+                onClick={() => setDecision('declined')}
+                className={`p-4 rounded-xl font-black uppercase text-sm flex items-center justify-center gap-2 transition-all ${
+                  decision === 'declined' ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                }`}
+              >
+                <XCircle size={18} /> Decline
+              </button>
+            </div>
+
+            {decision && (
+              <>
+                <div className="mb-4">
+                  <label className={labelClass}>Full Name</label>
+                  <input type="text" value={signerName} onChange={e => setSignerName(e.target.value)} className={inputClass} autoComplete="name" />
+                </div>
+
+                <div className="mb-4">
+                  <label className={labelClass}>Signature</label>
+                  <div className="grid grid-cols-2 gap-2 mb-3">
+                    {([['typed', 'Type', Type], ['drawn', 'Draw', PenLine]] as const).map(([type, label, Icon]) => (
+                      <button
+                        key={type}
+                        onClick={() => setSignatureType(type)}
+                        className={`p-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 transition-all ${
+                          signatureType === type ? 'bg-slate-900 text-white shadow-lg' : 'bg-slate-50 text-slate-600 hover:bg-slate-100'
+                        }`}
+                      >
+                        <Icon size={16} /> {label}
+                      </button>
+                    ))}
+                  </div>
+                  {signatureType === 'typed' ? (
+                    <input
+                      type="text"
+                      value={typedSignature}
+                      onChange={e => setTypedSignature(e.target.value)}
+                      placeholder="Type your name"
+                      className={`${inputClass} text-2xl italic font-normal`}
+                      style={{ fontFamily: 'cursive' }}
+                    />
+                  ) : (
+                    <SignaturePad onChange={setDrawnSignature} />
+                  )}
+                </div>
+
+                <div className="mb-4">
+                  <label className={labelClass}>Comment (optional)</label>
+                  <textarea
+                    value={comment}
+                    onChange={e => setComment(e.target.value)}
+                    maxLength={MAX_RESPONSE_COMMENT_LENGTH}
+                    rows={3}
+                    className={`${inputClass} font-medium`}
+                    placeholder={decision === 'accepted'
+                      ? (isUnchosen ? 'Which option would you like? Any extras?' : 'e.g. preferred start date')
+                      : 'Let them know why'}
+                  />
+                </div>
+
+                <p className="flex items-start gap-2 text-xs text-slate-500 mb-4">
+                  <ShieldCheck size={14} className="text-teal-500 shrink-0 mt-0.5" />
+                  {decision === 'accepted'
+                    ? isUnchosen
+                      ? `By signing you accept ${reference} from ${settings.companyName}, subject to the option you choose.`
+                      : `By signing you accept ${reference} for £${totals.grandTotal.toFixed(2)} from ${settings.companyName}.`
+                    : `By signing you decline ${reference} from ${settings.companyName}.`}
+                  {' '}Your name, signature, IP address and the time are recorded.
+                </p>
+
+                {submitError && <p className="text-sm text-red-600 font-bold mb-4">{submitError}</p>}
+
+                <button
+                  onClick={handleSubmit}
+                  disabled={isSubmitting}
+                  className="w-full p-4 bg-teal-500 text-white rounded-xl font-black uppercase text-sm shadow-lg shadow-teal-500/30 hover:bg-teal-600 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {isSubmitting && <Loader2 size={18} className="animate-spin" />}
+                  {decision === 'accepted' ? 'Sign & Accept' : 'Sign & Decline'}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
@@ -4,6 +4,9 @@ import {
   customersService,
   jobPacksService,
   quotesService,
+  invoicePaymentsService,
+  recurringInvoicesService,
+  quoteResponsesService,
   scheduleService,
   userSettingsService,
   expensesService,
@@ -20,7 +23,24 @@ import {
 } from '../services/dataService';
 import { offlineService } from '../services/offlineStorage';
 import { syncManager } from '../services/syncManager';
-import type { Customer, Quote, JobPack, ScheduleEntry, AppSettings, DocumentTemplate } from '../../types';
+import {
+  calculateDocumentTotals,
+  getDocumentSign,
+  toStoredTotals,
+  type StoredQuoteTotals,
+} from '../utils/quoteCalculations';
+import {
+  advanceSchedule,
+  buildRecurringInvoice,
+  buildRecurringVisit,
+  getDueOccurrences,
+  getNextRunDate,
+  getResumeIndex,
+  type RecurringInvoiceInput,
+} from '../utils/recurringInvoices';
+import { generateShareToken } from '../utils/quotePortal';
+import type { Customer, Quote, QuoteResponse, InvoicePayment, RecurringInvoice, JobPack, ScheduleEntry, AppSettings, DocumentTemplate, SavedQuoteTotals } from '../../types';
+import type { Database } from '../lib/database.types';
 
 // Default settings
 const DEFAULT_SETTINGS: AppSettings = {
@@ -35,9 +55,12 @@ const DEFAULT_SETTINGS: AppSettings = {
   isVatRegistered: false,
   vatNumber: undefined,
   enableVat: true,
+  vatStagger: 1,
+  vatScheme: 'standard',
   enableCis: true,
   quotePrefix: 'EST-',
   invoicePrefix: 'INV-',
+  creditNotePrefix: 'CN-',
   defaultQuoteNotes: 'This estimate is based on the initial survey. Prices for materials are subject to market volatility. Final invoicing will be based on actual quantities used on site.',
   defaultInvoiceNotes: 'Please settle this invoice within 14 days. Thank you for your business!',
   costBoxColor: 'slate',
@@ -79,6 +102,9 @@ interface DataContextType {
   // Data
   customers: Customer[];
   quotes: Quote[];
+  invoicePayments: InvoicePayment[];
+  recurringInvoices: RecurringInvoice[];
+  quoteResponses: QuoteResponse[];
   projects: JobPack[];
   schedule: ScheduleEntry[];
   settings: AppSettings;
@@ -98,6 +124,21 @@ interface DataContextType {
   updateQuoteStatus: (id: string, status: Quote['status']) => Promise<void>;
   deleteQuote: (id: string) => Promise<void>;
 
+  // Invoice payment actions
+  recordInvoicePayment: (invoiceId: string, payment: Omit<InvoicePayment, 'id' | 'invoiceId' | 'createdAt'>) => Promise<InvoicePayment>;
+  deleteInvoicePayment: (id: string) => Promise<void>;
+
+  // Recurring invoice actions
+  addRecurringInvoice: (recurring: RecurringInvoiceInput) => Promise<RecurringInvoice>;
+  updateRecurringInvoice: (id: string, updates: Partial<RecurringInvoiceInput>) => Promise<void>;
+  deleteRecurringInvoice: (id: string) => Promise<void>;
+  generateDueRecurringInvoices: () => Promise<Quote[]>;
+
+  // Quote portal actions
+  shareQuote: (id: string) => Promise<string>;
+  refreshQuoteResponses: () => Promise<QuoteResponse[]>;
+  markQuoteResponsesSeen: (ids: string[]) => Promise<void>;
+
   // Project actions
   addProject: (project: Omit<JobPack, 'id' | 'createdAt' | 'updatedAt'>) => Promise<JobPack>;
   saveProject: (project: JobPack) => Promise<void>;
@@ -118,6 +159,7 @@ interface DataContextType {
 
   // Direct access to services for components that need them
   services: {
+    invoicePayments: typeof invoicePaymentsService;
     expenses: typeof expensesService;
     bankTransactions: typeof bankTransactionsService;
     reconciliation: typeof reconciliationService;
@@ -215,7 +257,7 @@ async function dbJobPackToApp(dbPack: any): Promise<JobPack> {
 }
 
 // Helper to convert DB format to app format for Quote
-function dbQuoteToApp(dbQuote: any): Quote {
+export function dbQuoteToApp(dbQuote: any): Quote {
   return {
     id: dbQuote.id,
     customerId: dbQuote.customer_id || '',
@@ -251,6 +293,137 @@ function dbQuoteToApp(dbQuote: any): Quote {
     partPaymentLabel: dbQuote.part_payment_label || undefined,
     // Job address
     jobAddress: dbQuote.job_address || undefined,
+    // Recurring invoice link
+    recurringInvoiceId: dbQuote.recurring_invoice_id || undefined,
+    recurrenceDate: dbQuote.recurrence_date || undefined,
+    shareToken: dbQuote.share_token || undefined,
+    // Good / better / best options
+    options: dbQuote.options?.length ? dbQuote.options : undefined,
+    selectedOptionId: dbQuote.selected_option_id || undefined,
+    // Staged billing
+    paymentSchedule: dbQuote.payment_schedule?.length ? dbQuote.payment_schedule : undefined,
+    milestoneId: dbQuote.milestone_id || undefined,
+    // Retention held back by a main contractor
+    retentionPercent: dbQuote.retention_percent != null ? Number(dbQuote.retention_percent) : undefined,
+    practicalCompletionDate: dbQuote.practical_completion_date || undefined,
+    defectsPeriodEndDate: dbQuote.defects_period_end_date || undefined,
+    reverseCharge: dbQuote.reverse_charge || undefined,
+    savedTotals: dbQuote.total != null ? toSavedTotals(dbQuote) : undefined,
+  };
+}
+
+function toSavedTotals(stored: { [K in keyof StoredQuoteTotals]?: number | string | null }): SavedQuoteTotals {
+  return {
+    subtotal: Number(stored.subtotal) || 0,
+    discountAmount: Number(stored.discount_amount) || 0,
+    vat: Number(stored.vat) || 0,
+    cisAmount: Number(stored.cis_amount) || 0,
+    total: Number(stored.total) || 0,
+  };
+}
+
+// Totals to persist for a document when they differ from the saved ones, or
+// none are saved yet; null when they already match
+function getChangedTotals(quote: Quote, totalsSettings: AppSettings): StoredQuoteTotals | null {
+  const stored = toStoredTotals(calculateDocumentTotals(quote, totalsSettings), getDocumentSign(quote.type));
+  const saved = quote.savedTotals;
+  const matches = saved
+    && saved.subtotal === stored.subtotal
+    && saved.discountAmount === stored.discount_amount
+    && saved.vat === stored.vat
+    && saved.cisAmount === stored.cis_amount
+    && saved.total === stored.total;
+  return matches ? null : stored;
+}
+
+// Helper to convert DB format to app format for QuoteResponse
+export function dbQuoteResponseToApp(dbResponse: any): QuoteResponse {
+  return {
+    id: dbResponse.id,
+    quoteId: dbResponse.quote_id,
+    decision: dbResponse.decision,
+    signerName: dbResponse.signer_name,
+    signatureType: dbResponse.signature_type,
+    signatureData: dbResponse.signature_data,
+    comment: dbResponse.comment || undefined,
+    ipAddress: dbResponse.ip_address || undefined,
+    userAgent: dbResponse.user_agent || undefined,
+    quoteTotal: dbResponse.quote_total != null ? Number(dbResponse.quote_total) : undefined,
+    quoteReference: dbResponse.quote_reference || undefined,
+    respondedAt: dbResponse.responded_at,
+    seenAt: dbResponse.seen_at || undefined,
+  };
+}
+
+// Helper to convert DB format to app format for RecurringInvoice
+function dbRecurringInvoiceToApp(dbRecurring: any): RecurringInvoice {
+  return {
+    id: dbRecurring.id,
+    referenceNumber: dbRecurring.reference_number || undefined,
+    title: dbRecurring.title,
+    customerId: dbRecurring.customer_id || '',
+    projectId: dbRecurring.job_pack_id || undefined,
+    template: { ...dbRecurring.template, sections: dbRecurring.template?.sections || [] },
+    frequency: dbRecurring.frequency,
+    interval: Number(dbRecurring.interval_count) || 1,
+    startDate: dbRecurring.start_date,
+    endDate: dbRecurring.end_date || undefined,
+    maxOccurrences: dbRecurring.max_occurrences ?? undefined,
+    occurrencesGenerated: Number(dbRecurring.occurrences_generated) || 0,
+    nextRunDate: dbRecurring.next_run_date || undefined,
+    generateStatus: dbRecurring.generate_status,
+    paymentTermsDays: Number(dbRecurring.payment_terms_days) || 0,
+    createVisits: dbRecurring.create_visits ?? false,
+    // TIME columns come back as HH:MM:SS
+    visitStartTime: dbRecurring.visit_start_time ? dbRecurring.visit_start_time.slice(0, 5) : undefined,
+    visitDurationMinutes: dbRecurring.visit_duration_minutes ?? undefined,
+    isActive: dbRecurring.is_active ?? true,
+    lastGeneratedAt: dbRecurring.last_generated_at || undefined,
+    createdAt: dbRecurring.created_at,
+    updatedAt: dbRecurring.updated_at,
+  };
+}
+
+// Helper to convert app format to DB columns, only for the fields given
+function recurringInvoiceToDb(
+  recurring: Partial<RecurringInvoice>
+): Database['public']['Tables']['recurring_invoices']['Update'] {
+  const columns: Database['public']['Tables']['recurring_invoices']['Update'] = {
+    title: recurring.title,
+    customer_id: recurring.customerId === undefined ? undefined : recurring.customerId || null,
+    job_pack_id: recurring.projectId === undefined ? undefined : recurring.projectId || null,
+    template: recurring.template as any,
+    frequency: recurring.frequency,
+    interval_count: recurring.interval,
+    start_date: recurring.startDate,
+    end_date: 'endDate' in recurring ? recurring.endDate || null : undefined,
+    max_occurrences: 'maxOccurrences' in recurring ? recurring.maxOccurrences ?? null : undefined,
+    occurrences_generated: recurring.occurrencesGenerated,
+    next_run_date: 'nextRunDate' in recurring ? recurring.nextRunDate || null : undefined,
+    generate_status: recurring.generateStatus,
+    payment_terms_days: recurring.paymentTermsDays,
+    create_visits: recurring.createVisits,
+    visit_start_time: 'visitStartTime' in recurring ? recurring.visitStartTime || null : undefined,
+    visit_duration_minutes: 'visitDurationMinutes' in recurring ? recurring.visitDurationMinutes ?? null : undefined,
+    is_active: recurring.isActive,
+    last_generated_at: recurring.lastGeneratedAt,
+  };
+  return Object.fromEntries(Object.entries(columns).filter(([, value]) => value !== undefined));
+}
+
+// Helper to convert DB format to app format for InvoicePayment
+function dbInvoicePaymentToApp(dbPayment: any): InvoicePayment {
+  return {
+    id: dbPayment.id,
+    invoiceId: dbPayment.invoice_id,
+    amount: Number(dbPayment.amount) || 0,
+    paymentDate: dbPayment.payment_date,
+    paymentMethod: dbPayment.payment_method,
+    reference: dbPayment.reference || undefined,
+    notes: dbPayment.notes || undefined,
+    bankTransactionId: dbPayment.bank_transaction_id || undefined,
+    cisDeducted: dbPayment.cis_deducted != null ? Number(dbPayment.cis_deducted) : undefined,
+    createdAt: dbPayment.created_at,
   };
 }
 
@@ -269,7 +442,7 @@ function dbScheduleToApp(dbEntry: any): ScheduleEntry {
 }
 
 // Helper to convert DB settings to app settings
-function dbSettingsToApp(dbSettings: any): AppSettings {
+export function dbSettingsToApp(dbSettings: any): AppSettings {
   return {
     defaultLabourRate: Number(dbSettings.default_labour_rate) || 65,
     defaultTaxRate: Number(dbSettings.default_tax_rate) || 20,
@@ -283,9 +456,17 @@ function dbSettingsToApp(dbSettings: any): AppSettings {
     isVatRegistered: dbSettings.is_vat_registered ?? false,
     vatNumber: dbSettings.vat_number || undefined,
     enableVat: dbSettings.enable_vat ?? true,
+    vatStagger: (dbSettings.vat_stagger as AppSettings['vatStagger']) || 1,
+    vatScheme: (dbSettings.vat_scheme as AppSettings['vatScheme']) || 'standard',
+    vatFlatRateCategory: dbSettings.vat_flat_rate_category || undefined,
+    vatFlatRateFirstYear: dbSettings.vat_flat_rate_first_year ?? false,
     enableCis: dbSettings.enable_cis ?? true,
+    isCisContractor: dbSettings.is_cis_contractor ?? false,
+    cisUtr: dbSettings.cis_utr || undefined,
+    cisAccountsOfficeReference: dbSettings.cis_accounts_office_reference || undefined,
     quotePrefix: dbSettings.quote_prefix || 'EST-',
     invoicePrefix: dbSettings.invoice_prefix || 'INV-',
+    creditNotePrefix: dbSettings.credit_note_prefix || 'CN-',
     defaultQuoteNotes: dbSettings.default_quote_notes ?? '',
     defaultInvoiceNotes: dbSettings.default_invoice_notes ?? '',
     costBoxColor: (dbSettings.cost_box_color as 'slate' | 'amber' | 'blue') || 'slate',
@@ -322,6 +503,9 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const [customers, setCustomers] = useState<Customer[]>([]);
   const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [invoicePayments, setInvoicePayments] = useState<InvoicePayment[]>([]);
+  const [recurringInvoices, setRecurringInvoices] = useState<RecurringInvoice[]>([]);
+  const [quoteResponses, setQuoteResponses] = useState<QuoteResponse[]>([]);
   const [projects, setProjects] = useState<JobPack[]>([]);
   const [schedule, setSchedule] = useState<ScheduleEntry[]>([]);
   const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
@@ -407,9 +591,12 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         quotesService.getAll(),
         scheduleService.getAll(),
         userSettingsService.get(),
+        invoicePaymentsService.getAll(),
+        recurringInvoicesService.getAll(),
+        quoteResponsesService.getAll(),
       ]);
 
-      const [customersResult, jobPacksResult, quotesResult, scheduleResult, settingsResult] = results;
+      const [customersResult, jobPacksResult, quotesResult, scheduleResult, settingsResult, paymentsResult, recurringResult, responsesResult] = results;
 
       const loadedCustomers: Customer[] = [];
       const loadedQuotes: Quote[] = [];
@@ -425,6 +612,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
           phone: c.phone || '',
           address: c.address || '',
           company: c.company || undefined,
+          utr: c.utr || undefined,
+          reverseCharge: c.reverse_charge || undefined,
         }));
         loadedCustomers.push(...mapped);
         setCustomers(mapped);
@@ -442,6 +631,18 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setQuotes(mapped);
       }
 
+      if (paymentsResult.status === 'fulfilled') {
+        setInvoicePayments(paymentsResult.value.map(dbInvoicePaymentToApp));
+      }
+
+      if (recurringResult.status === 'fulfilled') {
+        setRecurringInvoices(recurringResult.value.map(dbRecurringInvoiceToApp));
+      }
+
+      if (responsesResult.status === 'fulfilled') {
+        setQuoteResponses(responsesResult.value.map(dbQuoteResponseToApp));
+      }
+
       if (scheduleResult.status === 'fulfilled') {
         const mapped = scheduleResult.value.map(dbScheduleToApp);
         loadedSchedule.push(...mapped);
@@ -482,6 +683,15 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setSettings(appSettings);
       }
 
+      // Backfill totals for documents saved before totals were stored, and
+      // catch up any left behind by a settings change made elsewhere
+      if (quotesResult.status === 'fulfilled') {
+        const totalsSettings = settingsResult.status === 'fulfilled' && settingsResult.value
+          ? dbSettingsToApp(settingsResult.value)
+          : DEFAULT_SETTINGS;
+        resaveChangedTotals(loadedQuotes, totalsSettings);
+      }
+
       // Cache data to IndexedDB for offline use
       await saveToCache({
         customers: loadedCustomers,
@@ -522,6 +732,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       phone: customer.phone || null,
       address: customer.address || null,
       company: customer.company || null,
+      utr: customer.utr || null,
+      reverse_charge: customer.reverseCharge || false,
     });
 
     const newCustomer: Customer = {
@@ -531,6 +743,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       phone: created.phone || '',
       address: created.address || '',
       company: created.company || undefined,
+      utr: created.utr || undefined,
+      reverseCharge: created.reverse_charge || undefined,
     };
 
     setCustomers(prev => [...prev, newCustomer]);
@@ -544,6 +758,8 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       phone: updates.phone || null,
       address: updates.address || null,
       company: updates.company || null,
+      utr: updates.utr || null,
+      reverse_charge: updates.reverseCharge || false,
     });
 
     setCustomers(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
@@ -554,11 +770,31 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setCustomers(prev => prev.filter(c => c.id !== id));
   };
 
+  // Re-save the totals of every document whose figures differ under these
+  // settings (fire-and-forget), so the reports reading the stored columns
+  // agree with the pages and the PDF
+  const resaveChangedTotals = (documents: Quote[], totalsSettings: AppSettings) => {
+    const changed = new Map<string, StoredQuoteTotals>();
+    documents.forEach(q => {
+      const totals = getChangedTotals(q, totalsSettings);
+      if (totals) changed.set(q.id, totals);
+    });
+    if (changed.size === 0) return;
+
+    setQuotes(prev => prev.map(q => changed.has(q.id) ? { ...q, savedTotals: toSavedTotals(changed.get(q.id)!) } : q));
+    changed.forEach((totals, id) => {
+      quotesService.update(id, totals)
+        .catch(err => console.warn('Failed to save quote totals:', err));
+    });
+  };
+
   // Quote actions
   const saveQuote = async (quote: Quote): Promise<Quote> => {
     if (!user) throw new Error('Not authenticated');
 
     const isNew = !quotes.find(q => q.id === quote.id);
+    // Persist denormalised totals so reports read the same figures as the PDF
+    const storedTotals = toStoredTotals(calculateDocumentTotals(quote, settings), getDocumentSign(quote.type));
 
     if (isNew) {
       const refNum = await quotesService.getNextReferenceNumber(quote.type);
@@ -578,11 +814,9 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         notes: quote.notes || null,
         display_options: quote.displayOptions as any,
         reference_number: refNum,
-        // Invoice-specific fields
+        // Invoice-specific fields (payments are recorded via the invoice_payments ledger)
         due_date: quote.dueDate || null,
-        payment_date: quote.paymentDate || null,
-        payment_method: quote.paymentMethod || null,
-        amount_paid: quote.amountPaid ?? 0,
+        amount_paid: 0,
         parent_quote_id: quote.parentQuoteId || null,
         // Discount fields
         discount_type: quote.discountType || null,
@@ -595,10 +829,29 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         part_payment_label: quote.partPaymentLabel || null,
         // Job address
         job_address: quote.jobAddress || null,
+        // Good / better / best options
+        options: quote.options?.length ? quote.options as any : null,
+        selected_option_id: quote.selectedOptionId || null,
+        // Staged billing (a milestone is billed by one stage invoice)
+        payment_schedule: quote.paymentSchedule?.length ? quote.paymentSchedule as any : null,
+        milestone_id: quote.milestoneId || null,
+        // Retention held back by a main contractor
+        retention_percent: quote.retentionPercent ?? null,
+        practical_completion_date: quote.practicalCompletionDate || null,
+        defects_period_end_date: quote.defectsPeriodEndDate || null,
+        reverse_charge: quote.reverseCharge || false,
+        // Recurring invoice link (unique per occurrence)
+        recurring_invoice_id: quote.recurringInvoiceId || null,
+        recurrence_date: quote.recurrenceDate || null,
+        ...storedTotals,
       });
 
       const newQuote = dbQuoteToApp(created);
       setQuotes(prev => [...prev, newQuote]);
+      // Issuing a credit note can settle the invoice it reverses
+      if (newQuote.type === 'credit_note' && newQuote.parentQuoteId) {
+        await refreshInvoice(newQuote.parentQuoteId);
+      }
       return newQuote;
     } else {
       const updated = await quotesService.update(quote.id, {
@@ -614,11 +867,9 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         cis_percent: quote.cisPercent,
         notes: quote.notes || null,
         display_options: quote.displayOptions as any,
-        // Invoice-specific fields
+        // Invoice-specific fields (amount_paid, payment_date and payment_method
+        // are maintained from the invoice_payments ledger)
         due_date: quote.dueDate || null,
-        payment_date: quote.paymentDate || null,
-        payment_method: quote.paymentMethod || null,
-        amount_paid: quote.amountPaid ?? 0,
         parent_quote_id: quote.parentQuoteId || null,
         // Discount fields
         discount_type: quote.discountType || null,
@@ -631,10 +882,23 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
         part_payment_label: quote.partPaymentLabel || null,
         // Job address
         job_address: quote.jobAddress || null,
+        // Good / better / best options
+        options: quote.options?.length ? quote.options as any : null,
+        selected_option_id: quote.selectedOptionId || null,
+        payment_schedule: quote.paymentSchedule?.length ? quote.paymentSchedule as any : null,
+        // Retention held back by a main contractor
+        retention_percent: quote.retentionPercent ?? null,
+        practical_completion_date: quote.practicalCompletionDate || null,
+        defects_period_end_date: quote.defectsPeriodEndDate || null,
+        reverse_charge: quote.reverseCharge || false,
+        ...storedTotals,
       });
 
       const updatedQuote = dbQuoteToApp(updated);
       setQuotes(prev => prev.map(q => q.id === quote.id ? updatedQuote : q));
+      if (updatedQuote.type === 'credit_note' && updatedQuote.parentQuoteId) {
+        await refreshInvoice(updatedQuote.parentQuoteId);
+      }
       return updatedQuote;
     }
   };
@@ -649,10 +913,203 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   const deleteQuote = async (id: string) => {
+    const quote = quotes.find(q => q.id === id);
     await quotesService.delete(id);
     setQuotes(prev => prev.filter(q => q.id !== id));
+    setInvoicePayments(prev => prev.filter(p => p.invoiceId !== id));
+    if (quote?.type === 'credit_note' && quote.parentQuoteId) {
+      await refreshInvoice(quote.parentQuoteId);
+    }
+  };
+
+  // Reload an invoice after its ledger changes - the database rolls payments
+  // up into amount_paid, payment_date, payment_method and status
+  const refreshInvoice = async (invoiceId: string): Promise<Quote> => {
+    const refreshed = dbQuoteToApp(await quotesService.getById(invoiceId));
+    setQuotes(prev => prev.map(q => q.id === invoiceId ? refreshed : q));
+    return refreshed;
+  };
+
+  // Invoice payment actions
+  const recordInvoicePayment = async (
+    invoiceId: string,
+    payment: Omit<InvoicePayment, 'id' | 'invoiceId' | 'createdAt'>
+  ): Promise<InvoicePayment> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const created = await invoicePaymentsService.create({
+      invoice_id: invoiceId,
+      amount: payment.amount,
+      payment_date: payment.paymentDate,
+      payment_method: payment.paymentMethod,
+      reference: payment.reference || null,
+      notes: payment.notes || null,
+      bank_transaction_id: payment.bankTransactionId || null,
+      cis_deducted: payment.cisDeducted || null,
+    });
+
+    const newPayment = dbInvoicePaymentToApp(created);
+    setInvoicePayments(prev => [...prev, newPayment]);
+    await refreshInvoice(invoiceId);
+    return newPayment;
+  };
+
+  const deleteInvoicePayment = async (id: string) => {
+    const payment = invoicePayments.find(p => p.id === id);
+    await invoicePaymentsService.delete(id);
+    setInvoicePayments(prev => prev.filter(p => p.id !== id));
+    if (payment) await refreshInvoice(payment.invoiceId);
+  };
+
+  // Recurring invoice actions
+  const addRecurringInvoice = async (recurring: RecurringInvoiceInput): Promise<RecurringInvoice> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const created = await recurringInvoicesService.create({
+      ...recurringInvoiceToDb(recurring),
+      title: recurring.title,
+      template: recurring.template as any,
+      start_date: recurring.startDate,
+      occurrences_generated: 0,
+      next_run_date: getNextRunDate(recurring, 0) || null,
+    });
+
+    const newRecurring = dbRecurringInvoiceToApp(created);
+    setRecurringInvoices(prev => [...prev, newRecurring]);
+    return newRecurring;
+  };
+
+  const updateRecurringInvoice = async (id: string, updates: Partial<RecurringInvoiceInput>) => {
+    const existing = recurringInvoices.find(r => r.id === id);
+    if (!existing) return;
+
+    // Schedule edits move the next run date, and extending a finished
+    // schedule starts it again
+    const merged = { ...existing, ...updates };
+    const isResuming = updates.isActive === true && !existing.isActive;
+    const occurrencesGenerated = isResuming
+      ? getResumeIndex(merged, new Date().toISOString().split('T')[0])
+      : merged.occurrencesGenerated;
+    const nextRunDate = getNextRunDate(merged, occurrencesGenerated);
+    const isActive = nextRunDate != null && (updates.isActive ?? (existing.nextRunDate ? existing.isActive : true));
+
+    const updated = await recurringInvoicesService.update(id, recurringInvoiceToDb({
+      ...updates,
+      occurrencesGenerated,
+      nextRunDate,
+      isActive,
+    }));
+    setRecurringInvoices(prev => prev.map(r => r.id === id ? dbRecurringInvoiceToApp(updated) : r));
+  };
+
+  const deleteRecurringInvoice = async (id: string) => {
+    // Invoices already generated are kept; they just lose the link
+    await recurringInvoicesService.delete(id);
+    setRecurringInvoices(prev => prev.filter(r => r.id !== id));
+    setQuotes(prev => prev.map(q => q.recurringInvoiceId === id ? { ...q, recurringInvoiceId: undefined } : q));
+  };
+
+  // Generate invoices (and visits) for every occurrence that has fallen due
+  const generateDueRecurringInvoices = async (): Promise<Quote[]> => {
+    const today = new Date().toISOString().split('T')[0];
+    const generated: Quote[] = [];
+
+    for (const recurring of recurringInvoices) {
+      let current = recurring;
+      try {
+        for (const occurrence of getDueOccurrences(recurring, today)) {
+          try {
+            generated.push(await saveQuote(buildRecurringInvoice(current, occurrence.date)));
+          } catch (err: any) {
+            // Unique violation: this occurrence's invoice already exists
+            if (err?.code !== '23505') throw err;
+          }
+
+          // Checked separately so a visit that failed after its invoice was saved is created on the next run
+          if (current.createVisits) {
+            const customer = customers.find(c => c.id === current.customerId);
+            const visit = buildRecurringVisit(current, occurrence.date, customer?.address);
+            const visitStart = new Date(visit.start).getTime();
+            const exists = schedule.some(e => e.description === visit.description && new Date(e.start).getTime() === visitStart);
+            if (!exists) await addScheduleEntry(visit);
+          }
+
+          current = { ...current, ...advanceSchedule(current, occurrence), lastGeneratedAt: new Date().toISOString() };
+          await recurringInvoicesService.update(current.id, recurringInvoiceToDb({
+            occurrencesGenerated: current.occurrencesGenerated,
+            nextRunDate: current.nextRunDate,
+            isActive: current.isActive,
+            lastGeneratedAt: current.lastGeneratedAt,
+          }));
+        }
+      } catch (err) {
+        console.error(`Failed to generate recurring invoice ${recurring.id}:`, err);
+      }
+
+      if (current !== recurring) {
+        const advanced = current;
+        setRecurringInvoices(prev => prev.map(r => r.id === advanced.id ? advanced : r));
+      }
+    }
+
+    return generated;
   };
 
+  // Catch up on recurring invoices once the data has loaded
+  const hasGeneratedRecurringRef = useRef(false);
+  useEffect(() => {
+    if (loading || error || hasGeneratedRecurringRef.current || !isOnlineRef.current) return;
+    hasGeneratedRecurringRef.current = true;
+    generateDueRecurringInvoices()
+      .catch(err => console.error('Failed to generate recurring invoices:', err));
+  }, [loading, error]);
+
+  // Quote portal actions
+
+  // Portal share token for a quote, creating one the first time. Sharing a
+  // draft marks it as sent so the customer can respond.
+  const shareQuote = async (id: string): Promise<string> => {
+    const quote = quotes.find(q => q.id === id);
+    if (!quote) throw new Error('Quote not found');
+    if (quote.shareToken && quote.status !== 'draft') return quote.shareToken;
+
+    const shareToken = quote.shareToken || generateShareToken();
+    const status = quote.status === 'draft' ? 'sent' : quote.status;
+    const updated = await quotesService.update(id, { share_token: shareToken, status });
+    setQuotes(prev => prev.map(q => q.id === id ? dbQuoteToApp(updated) : q));
+    return shareToken;
+  };
+
+  // Pick up responses customers have made through the portal since the data
+  // loaded, and the status change each one made to its quote
+  const refreshQuoteResponses = useCallback(async (): Promise<QuoteResponse[]> => {
+    const responses = (await quoteResponsesService.getAll()).map(dbQuoteResponseToApp);
+    setQuoteResponses(responses);
+    setQuotes(prev => prev.map(q => {
+      const latest = responses.find(r => r.quoteId === q.id);
+      return latest && q.status === 'sent' ? { ...q, status: latest.decision } : q;
+    }));
+    return responses;
+  }, []);
+
+  const markQuoteResponsesSeen = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    await quoteResponsesService.markSeen(ids);
+    const seenAt = new Date().toISOString();
+    setQuoteResponses(prev => prev.map(r => ids.includes(r.id) ? { ...r, seenAt } : r));
+  };
+
+  // Check for new portal responses when the user comes back to the app
+  useEffect(() => {
+    if (!user) return;
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible' || !isOnlineRef.current) return;
+      refreshQuoteResponses().catch(err => console.warn('Failed to refresh quote responses:', err));
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [user, refreshQuoteResponses]);
+
   // Project actions
   const addProject = async (project: Omit<JobPack, 'id' | 'createdAt' | 'updatedAt'>): Promise<JobPack> => {
     if (!user) throw new Error('Not authenticated');
@@ -755,9 +1212,17 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
       is_vat_registered: updates.isVatRegistered,
       vat_number: updates.vatNumber || null,
       enable_vat: updates.enableVat,
+      vat_stagger: updates.vatStagger,
+      vat_scheme: updates.vatScheme,
+      vat_flat_rate_category: updates.vatFlatRateCategory || null,
+      vat_flat_rate_first_year: updates.vatFlatRateFirstYear,
       enable_cis: updates.enableCis,
+      is_cis_contractor: updates.isCisContractor,
+      cis_utr: updates.cisUtr || null,
+      cis_accounts_office_reference: updates.cisAccountsOfficeReference || null,
       quote_prefix: updates.quotePrefix,
       invoice_prefix: updates.invoicePrefix,
+      credit_note_prefix: updates.creditNotePrefix,
       default_quote_notes: updates.defaultQuoteNotes || null,
       default_invoice_notes: updates.defaultInvoiceNotes || null,
       cost_box_color: updates.costBoxColor,
@@ -774,11 +1239,16 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     });
 
     setSettings(prev => ({ ...prev, ...updates }));
+    // VAT, CIS, the default labour rate and display options all change document totals
+    resaveChangedTotals(quotes, { ...settings, ...updates });
   };
 
   const value: DataContextType = {
     customers,
     quotes,
+    invoicePayments,
+    recurringInvoices,
+    quoteResponses,
     projects,
     schedule,
     settings,
@@ -791,6 +1261,15 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     updateQuote,
     updateQuoteStatus,
     deleteQuote,
+    recordInvoicePayment,
+    deleteInvoicePayment,
+    addRecurringInvoice,
+    updateRecurringInvoice,
+    deleteRecurringInvoice,
+    generateDueRecurringInvoices,
+    shareQuote,
+    refreshQuoteResponses,
+    markQuoteResponsesSeen,
     addProject,
     saveProject,
     deleteProject,
@@ -802,6 +1281,7 @@ export const DataProvider: React.FC<{ children: React.ReactNode }> = ({ children
     setSettings,
     setCustomers,
     services: {
+      invoicePayments: invoicePaymentsService,
       expenses: expensesService,
       bankTransactions: bankTransactionsService,
       reconciliation: reconciliationService,
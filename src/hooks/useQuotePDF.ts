@@ -3,10 +3,16 @@ import html2canvas from 'html2canvas';
 import { jsPDF } from 'jspdf';
 import { Quote, Customer, AppSettings } from '../../types';
 import { filingService } from '../services/dataService';
+import { calculateSectionLabour, calculateSectionMaterials, calculateSectionPrice } from '../utils/quoteCalculations';
+import { getDocumentPrefix } from '../utils/creditNotes';
+import { REVERSE_CHARGE_NOTICE } from '../utils/reverseCharge';
+import { formatVatBand, getVatLabel, hasMixedVatRates, type VatRateBand } from '../utils/vatRates';
 
 interface QuoteTotals {
   clientSubtotal: number;
   taxAmount: number;
+  vatBreakdown: VatRateBand[];
+  reverseChargeVat: number;
   cisAmount: number;
   grandTotal: number;
 }
@@ -34,14 +40,14 @@ export function useQuotePDF({ quote, customer, settings, totals, displayOptions
   const [emailHelper, setEmailHelper] = useState<EmailHelperState | null>(null);
 
   const getFilename = useCallback(() => {
-    const prefix = quote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+    const prefix = getDocumentPrefix(quote.type, settings);
     const numStr = (quote.referenceNumber || 1).toString().padStart(4, '0');
     const cleanTitle = (quote.title || 'estimate').replace(/[^a-z0-9]/gi, '_').toLowerCase();
     return `${prefix}${numStr}_${cleanTitle}.pdf`;
   }, [quote, settings]);
 
   const getReference = useCallback(() => {
-    const prefix = quote.type === 'invoice' ? (settings.invoicePrefix || 'INV-') : (settings.quotePrefix || 'EST-');
+    const prefix = getDocumentPrefix(quote.type, settings);
     const numStr = (quote.referenceNumber || 1).toString().padStart(4, '0');
     return `${prefix}${numStr}`;
   }, [quote, settings]);
@@ -199,9 +205,9 @@ export function useQuotePDF({ quote, customer, settings, totals, displayOptions
       breakdown += '\n\u{1F4CB} *Work Breakdown:*\n';
       quote.sections.forEach((section, idx) => {
         const markupMultiplier = 1 + ((quote.markupPercent || 0) / 100);
-        const rawMaterialsTotal = (section.items || []).reduce((s, i) => s + (i.totalPrice || 0), 0);
-        const rawLabourTotal = (section.labourHours || 0) * (quote.labourRate || settings.defaultLabourRate || 0);
-        const sectionTotal = (rawMaterialsTotal + rawLabourTotal) * markupMultiplier;
+        const rawMaterialsTotal = calculateSectionMaterials(section);
+        const rawLabourTotal = calculateSectionLabour(section, quote.labourRate, settings.defaultLabourRate);
+        const sectionTotal = calculateSectionPrice(section, rawMaterialsTotal, rawLabourTotal) * markupMultiplier;
 
         breakdown += `\n${idx + 1}. ${section.title}`;
         if (section.items && section.items.length > 0) {
@@ -217,12 +223,23 @@ export function useQuotePDF({ quote, customer, settings, totals, displayOptions
     let totalsBreakdown = '\n\n\u{1F4B0} *Financial Summary:*';
     totalsBreakdown += `\nSubtotal: \u00A3${totals.clientSubtotal.toFixed(2)}`;
     if (settings.enableVat && displayOptions.showVat && totals.taxAmount > 0) {
-      totalsBreakdown += `\nVAT (${quote.taxPercent}%): \u00A3${totals.taxAmount.toFixed(2)}`;
+      totalsBreakdown += `\n${getVatLabel(quote, totals.vatBreakdown)}: \u00A3${totals.taxAmount.toFixed(2)}`;
+      if (hasMixedVatRates(totals.vatBreakdown)) {
+        totals.vatBreakdown.forEach(band => {
+          totalsBreakdown += `\n   \u2022 ${formatVatBand(band)}: \u00A3${band.vat.toFixed(2)} on \u00A3${band.net.toFixed(2)}`;
+        });
+      }
     }
     if (settings.enableCis && displayOptions.showCis && totals.cisAmount > 0) {
       totalsBreakdown += `\nCIS Deduction: -\u00A3${totals.cisAmount.toFixed(2)}`;
     }
     totalsBreakdown += `\n\n*TOTAL DUE: \u00A3${totals.grandTotal.toFixed(2)}*`;
+    if (quote.reverseCharge) {
+      if (totals.reverseChargeVat > 0) {
+        totalsBreakdown += `\nVAT reverse charged${hasMixedVatRates(totals.vatBreakdown) ? '' : ` (${quote.taxPercent}%)`}: \u00A3${totals.reverseChargeVat.toFixed(2)}`;
+      }
+      totalsBreakdown += `\n${REVERSE_CHARGE_NOTICE}`;
+    }
 
     let partPaymentInfo = '';
     if (quote.type === 'invoice' && quote.partPaymentEnabled && quote.partPaymentValue) {
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useData } from '../contexts/DataContext';
+import { ledgerService, vehiclesService, mileageTripsService } from '../services/dataService';
+import { getPeriodBoundaries } from '../utils/reportPeriods';
+import { calculateMileageClaims, toMileageTrip, toVehicle, type MileageClaim, type Vehicle } from '../utils/mileage';
+import {
+  calculateTradingProfit,
+  reconcileToLedgerProfit,
+  type ProfitExpense,
+  type ProfitReconciliation,
+  type TradingProfit,
+} from '../utils/tradingProfit';
+import {
+  buildLedgerProfitAndLoss,
+  toLedgerAccount,
+  toLedgerAccountTotal,
+  type LedgerAccount,
+  type LedgerAccountTotal,
+} from '../utils/ledger';
+import { buildCisDeductionLines, totalCisSuffered } from '../utils/cis';
+import {
+  buildPaymentSchedule,
+  estimateSelfAssessment,
+  getNextPayments,
+  getTaxYearLabel,
+  projectAnnualProfit,
+  type SelfAssessmentPayment,
+  type TaxEstimate,
+} from '../utils/selfAssessment';
+
+export interface TaxYearPosition {
+  taxYear: string;
+  start: Date;
+  end: Date;
+  // Cash-basis profit and CIS up to today for the current year
+  trading: TradingProfit;
+  // How that profit differs from the Profit & Loss; null until the ledger loads
+  reconciliation: ProfitReconciliation | null;
+  cisSuffered: number;
+  estimate: TaxEstimate;
+  // Full-year estimate, projected from profit to date while the year is running
+  fullYear: TaxEstimate;
+  inProgress: boolean;
+}
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const toISODate = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// The current tax year and the two before it, earliest first
+const getTaxYearBoundaries = (settings: Parameters<typeof getPeriodBoundaries>[1], now: Date) => {
+  const yearAgo = new Date(now.getFullYear() - 1, now.getMonth(), now.getDate());
+  return [
+    getPeriodBoundaries('last_tax_year', settings, {}, yearAgo),
+    getPeriodBoundaries('last_tax_year', settings, {}, now),
+    getPeriodBoundaries('current_tax_year', settings, {}, now),
+  ];
+};
+
+/**
+ * Self Assessment position for the current tax year and the two before it,
+ * with the payment schedule they set and the tax pot to put aside so far.
+ */
+export function useTaxEstimate() {
+  const { quotes, invoicePayments, customers, settings, services } = useData();
+  const [expenses, setExpenses] = useState<ProfitExpense[]>([]);
+  const [mileageClaims, setMileageClaims] = useState<MileageClaim[]>([]);
+  const [vehicles, setVehicles] = useState<Vehicle[]>([]);
+  const [ledgerAccounts, setLedgerAccounts] = useState<LedgerAccount[]>([]);
+  // Ledger totals per tax year, keyed by the year's start date
+  const [ledgerTotals, setLedgerTotals] = useState<Record<string, LedgerAccountTotal[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([services.expenses.getAll(), vehiclesService.getAll(), mileageTripsService.getAll()])
+      .then(([expenseRows, vehicleRows, tripRows]) => {
+        const vehicleList = (vehicleRows || []).map(toVehicle);
+        setExpenses(expenseRows || []);
+        setVehicles(vehicleList);
+        setMileageClaims(calculateMileageClaims((tripRows || []).map(toMileageTrip), vehicleList, settings));
+      })
+      .catch(error => console.error('Failed to load tax estimate data:', error))
+      .finally(() => setLoading(false));
+  }, [services.expenses, settings.taxYearStartMonth, settings.taxYearStartDay]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const years = getTaxYearBoundaries(settings, new Date());
+    Promise.all([
+      ledgerService.getAccounts(),
+      ...years.map(({ start, end }) => ledgerService.getAccountTotals(toISODate(start), toISODate(end))),
+    ])
+      .then(([accountRows, ...totalsRows]) => {
+        if (cancelled) return;
+        setLedgerAccounts((accountRows || []).map(toLedgerAccount));
+        setLedgerTotals(Object.fromEntries(years.map(({ start }, i) => [
+          toISODate(start),
+          (totalsRows[i] || []).map(toLedgerAccountTotal),
+        ])));
+      })
+      .catch(error => console.error('Failed to load ledger totals for the tax estimate:', error));
+    return () => { cancelled = true; };
+  }, [settings.taxYearStartMonth, settings.taxYearStartDay]);
+
+  return useMemo(() => {
+    const now = new Date();
+    const cisLines = buildCisDeductionLines(quotes, invoicePayments, customers, settings);
+
+    const years: TaxYearPosition[] = getTaxYearBoundaries(settings, now).map(({ start, end }) => {
+      const taxYear = getTaxYearLabel(start.getFullYear());
+      const inProgress = now < end;
+      const trading = calculateTradingProfit(quotes, invoicePayments, expenses, mileageClaims, vehicles, settings, start, end);
+      const yearLedgerTotals = ledgerTotals[toISODate(start)];
+      const reconciliation = yearLedgerTotals
+        ? reconcileToLedgerProfit(trading, buildLedgerProfitAndLoss(ledgerAccounts, yearLedgerTotals))
+        : null;
+      const cisSuffered = totalCisSuffered(cisLines, toISODate(start), toISODate(end));
+      const estimate = estimateSelfAssessment(taxYear, trading.profit, cisSuffered);
+      const fullYear = inProgress
+        ? estimateSelfAssessment(
+            taxYear,
+            projectAnnualProfit(trading.profit, start, end, now),
+            projectAnnualProfit(cisSuffered, start, end, now)
+          )
+        : estimate;
+
+      return { taxYear, start, end, trading, reconciliation, cisSuffered, estimate, fullYear, inProgress };
+    });
+
+    const schedule: SelfAssessmentPayment[] = buildPaymentSchedule(years.map(y => y.fullYear));
+    const current = years[years.length - 1];
+
+    return {
+      years,
+      current,
+      schedule,
+      nextPayments: getNextPayments(schedule, toISODate(now)),
+      taxPot: Math.max(0, current.estimate.liability),
+      loading,
+    };
+  }, [quotes, invoicePayments, customers, settings, expenses, mileageClaims, vehicles, ledgerAccounts, ledgerTotals, loading]);
+}
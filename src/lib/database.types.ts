@@ -14,56 +14,161 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_accounts: {
+        Row: {
+          account_last_four: string | null
+          account_type: string
+          bank_name: string | null
+          created_at: string | null
+          currency: string
+          id: string
+          is_archived: boolean
+          name: string
+          opening_balance: number
+          opening_balance_date: string | null
+          sort_code: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          account_last_four?: string | null
+          account_type?: string
+          bank_name?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          is_archived?: boolean
+          name: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          sort_code?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          account_last_four?: string | null
+          account_type?: string
+          bank_name?: string | null
+          created_at?: string | null
+          currency?: string
+          id?: string
+          is_archived?: boolean
+          name?: string
+          opening_balance?: number
+          opening_balance_date?: string | null
+          sort_code?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      bank_rules: {
+        Row: {
+          category: string | null
+          created_at: string | null
+          id: string
+          is_active: boolean
+          last_applied_at: string | null
+          pattern: string
+          payment_method: string | null
+          times_applied: number
+          updated_at: string | null
+          user_id: string
+          vat_rate: string | null
+          vendor_name: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_applied_at?: string | null
+          pattern: string
+          payment_method?: string | null
+          times_applied?: number
+          updated_at?: string | null
+          user_id: string
+          vat_rate?: string | null
+          vendor_name: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          last_applied_at?: string | null
+          pattern?: string
+          payment_method?: string | null
+          times_applied?: number
+          updated_at?: string | null
+          user_id?: string
+          vat_rate?: string | null
+          vendor_name?: string
+        }
+        Relationships: []
+      }
       bank_transactions: {
         Row: {
           account_last_four: string | null
           amount: number
           balance: number | null
+          bank_account_id: string | null
           bank_name: string | null
           created_at: string | null
           description: string
+          external_id: string | null
           id: string
           import_batch_id: string | null
           is_reconciled: boolean | null
           reconciled_expense_id: string | null
           reconciled_invoice_id: string | null
           reference: string | null
+          statement_format: string | null
           transaction_date: string
           transaction_type: string | null
+          transfer_transaction_id: string | null
           user_id: string
         }
         Insert: {
           account_last_four?: string | null
           amount: number
           balance?: number | null
+          bank_account_id?: string | null
           bank_name?: string | null
           created_at?: string | null
           description: string
+          external_id?: string | null
           id?: string
           import_batch_id?: string | null
           is_reconciled?: boolean | null
           reconciled_expense_id?: string | null
           reconciled_invoice_id?: string | null
           reference?: string | null
+          statement_format?: string | null
           transaction_date: string
           transaction_type?: string | null
+          transfer_transaction_id?: string | null
           user_id: string
         }
         Update: {
           account_last_four?: string | null
           amount?: number
           balance?: number | null
+          bank_account_id?: string | null
           bank_name?: string | null
           created_at?: string | null
           description?: string
+          external_id?: string | null
           id?: string
           import_batch_id?: string | null
           is_reconciled?: boolean | null
           reconciled_expense_id?: string | null
           reconciled_invoice_id?: string | null
           reference?: string | null
+          statement_format?: string | null
           transaction_date?: string
           transaction_type?: string | null
+          transfer_transaction_id?: string | null
           user_id?: string
         }
         Relationships: [
@@ -83,6 +188,42 @@ export type Database = {
           },
         ]
       }
+      cis_subcontractors: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          tax_treatment: string
+          updated_at: string | null
+          user_id: string
+          utr: string | null
+          verification_number: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          tax_treatment?: string
+          updated_at?: string | null
+          user_id: string
+          utr?: string | null
+          verification_number?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          tax_treatment?: string
+          updated_at?: string | null
+          user_id?: string
+          utr?: string | null
+          verification_number?: string | null
+        }
+        Relationships: []
+      }
       customers: {
         Row: {
           address: string | null
@@ -92,8 +233,10 @@ export type Database = {
           id: string
           name: string
           phone: string | null
+          reverse_charge: boolean | null
           updated_at: string | null
           user_id: string
+          utr: string | null
         }
         Insert: {
           address?: string | null
@@ -103,8 +246,10 @@ export type Database = {
           id?: string
           name: string
           phone?: string | null
+          reverse_charge?: boolean | null
           updated_at?: string | null
           user_id: string
+          utr?: string | null
         }
         Update: {
           address?: string | null
@@ -114,8 +259,10 @@ export type Database = {
           id?: string
           name?: string
           phone?: string | null
+          reverse_charge?: boolean | null
           updated_at?: string | null
           user_id?: string
+          utr?: string | null
         }
         Relationships: []
       }
@@ -161,14 +308,18 @@ export type Database = {
           expense_date: string
           id: string
           is_reconciled: boolean | null
+          is_reverse_charge: boolean | null
           job_pack_id: string | null
           payment_method: string | null
           receipt_extracted_text: string | null
           receipt_storage_path: string | null
           reconciled_transaction_id: string | null
+          reverse_charge_vat: number | null
           updated_at: string | null
           user_id: string
           vat_amount: number | null
+          vat_rate: string | null
+          vehicle_id: string | null
           vendor: string
         }
         Insert: {
@@ -179,14 +330,18 @@ export type Database = {
           expense_date?: string
           id?: string
           is_reconciled?: boolean | null
+          is_reverse_charge?: boolean | null
           job_pack_id?: string | null
           payment_method?: string | null
           receipt_extracted_text?: string | null
           receipt_storage_path?: string | null
           reconciled_transaction_id?: string | null
+          reverse_charge_vat?: number | null
           updated_at?: string | null
           user_id: string
           vat_amount?: number | null
+          vat_rate?: string | null
+          vehicle_id?: string | null
           vendor: string
         }
         Update: {
@@ -197,14 +352,18 @@ export type Database = {
           expense_date?: string
           id?: string
           is_reconciled?: boolean | null
+          is_reverse_charge?: boolean | null
           job_pack_id?: string | null
           payment_method?: string | null
           receipt_extracted_text?: string | null
           receipt_storage_path?: string | null
           reconciled_transaction_id?: string | null
+          reverse_charge_vat?: number | null
           updated_at?: string | null
           user_id?: string
           vat_amount?: number | null
+          vat_rate?: string | null
+          vehicle_id?: string | null
           vendor?: string
         }
         Relationships: [
@@ -215,6 +374,13 @@ export type Database = {
             referencedRelation: "job_packs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expenses_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "vehicles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       filed_documents: {
@@ -283,6 +449,87 @@ export type Database = {
         }
         Relationships: []
       }
+      hmrc_tokens: {
+        Row: {
+          access_token: string | null
+          connected_at: string | null
+          expires_at: string | null
+          oauth_state: string | null
+          refresh_token: string | null
+          return_url: string | null
+          scope: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          access_token?: string | null
+          connected_at?: string | null
+          expires_at?: string | null
+          oauth_state?: string | null
+          refresh_token?: string | null
+          return_url?: string | null
+          scope?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          access_token?: string | null
+          connected_at?: string | null
+          expires_at?: string | null
+          oauth_state?: string | null
+          refresh_token?: string | null
+          return_url?: string | null
+          scope?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      invoice_payments: {
+        Row: {
+          amount: number
+          bank_transaction_id: string | null
+          cis_deducted: number | null
+          created_at: string | null
+          id: string
+          invoice_id: string
+          notes: string | null
+          payment_date: string
+          payment_method: string
+          reference: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bank_transaction_id?: string | null
+          cis_deducted?: number | null
+          created_at?: string | null
+          id?: string
+          invoice_id: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: string
+          reference?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bank_transaction_id?: string | null
+          cis_deducted?: number | null
+          created_at?: string | null
+          id?: string
+          invoice_id?: string
+          notes?: string | null
+          payment_date?: string
+          payment_method?: string
+          reference?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       job_packs: {
         Row: {
           created_at: string | null
@@ -324,6 +571,99 @@ export type Database = {
           },
         ]
       }
+      journal_entries: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          entry_date: string
+          id: string
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          entry_date: string
+          id?: string
+          source_id: string
+          source_type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          entry_date?: string
+          id?: string
+          source_id?: string
+          source_type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      journal_lines: {
+        Row: {
+          account_code: string
+          credit: number
+          debit: number
+          id: string
+          journal_entry_id: string
+          user_id: string
+        }
+        Insert: {
+          account_code: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id: string
+          user_id: string
+        }
+        Update: {
+          account_code?: string
+          credit?: number
+          debit?: number
+          id?: string
+          journal_entry_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_lines_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_lines_account_code_fkey"
+            columns: ["account_code"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          code: string
+          display_order: number
+          name: string
+          type: string
+        }
+        Insert: {
+          code: string
+          display_order?: number
+          name: string
+          type: string
+        }
+        Update: {
+          code?: string
+          display_order?: number
+          name?: string
+          type?: string
+        }
+        Relationships: []
+      }
       materials_import_history: {
         Row: {
           filename: string | null
@@ -405,11 +745,59 @@ export type Database = {
         }
         Relationships: []
       }
+      mileage_trips: {
+        Row: {
+          created_at: string | null
+          from_location: string
+          id: string
+          job_pack_id: string | null
+          miles: number
+          purpose: string | null
+          schedule_entry_id: string | null
+          to_location: string
+          trip_date: string
+          updated_at: string | null
+          user_id: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          from_location: string
+          id?: string
+          job_pack_id?: string | null
+          miles: number
+          purpose?: string | null
+          schedule_entry_id?: string | null
+          to_location: string
+          trip_date: string
+          updated_at?: string | null
+          user_id: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string | null
+          from_location?: string
+          id?: string
+          job_pack_id?: string | null
+          miles?: number
+          purpose?: string | null
+          schedule_entry_id?: string | null
+          to_location?: string
+          trip_date?: string
+          updated_at?: string | null
+          user_id?: string
+          vehicle_id?: string
+        }
+        Relationships: []
+      }
       payables: {
         Row: {
           amount: number
           amount_paid: number | null
           category: string | null
+          cis_deduction: number | null
+          cis_labour_amount: number | null
+          cis_materials_amount: number | null
           created_at: string | null
           description: string | null
           document_path: string | null
@@ -418,11 +806,14 @@ export type Database = {
           invoice_date: string
           invoice_number: string | null
           is_reconciled: boolean | null
+          is_reverse_charge: boolean | null
           job_pack_id: string | null
           notes: string | null
           paid_date: string | null
           reconciled_transaction_id: string | null
+          reverse_charge_vat: number | null
           status: string | null
+          subcontractor_id: string | null
           updated_at: string | null
           user_id: string
           vat_amount: number | null
@@ -433,6 +824,9 @@ export type Database = {
           amount: number
           amount_paid?: number | null
           category?: string | null
+          cis_deduction?: number | null
+          cis_labour_amount?: number | null
+          cis_materials_amount?: number | null
           created_at?: string | null
           description?: string | null
           document_path?: string | null
@@ -441,11 +835,14 @@ export type Database = {
           invoice_date?: string
           invoice_number?: string | null
           is_reconciled?: boolean | null
+          is_reverse_charge?: boolean | null
           job_pack_id?: string | null
           notes?: string | null
           paid_date?: string | null
           reconciled_transaction_id?: string | null
+          reverse_charge_vat?: number | null
           status?: string | null
+          subcontractor_id?: string | null
           updated_at?: string | null
           user_id: string
           vat_amount?: number | null
@@ -456,6 +853,9 @@ export type Database = {
           amount?: number
           amount_paid?: number | null
           category?: string | null
+          cis_deduction?: number | null
+          cis_labour_amount?: number | null
+          cis_materials_amount?: number | null
           created_at?: string | null
           description?: string | null
           document_path?: string | null
@@ -464,11 +864,14 @@ export type Database = {
           invoice_date?: string
           invoice_number?: string | null
           is_reconciled?: boolean | null
+          is_reverse_charge?: boolean | null
           job_pack_id?: string | null
           notes?: string | null
           paid_date?: string | null
           reconciled_transaction_id?: string | null
+          reverse_charge_vat?: number | null
           status?: string | null
+          subcontractor_id?: string | null
           updated_at?: string | null
           user_id?: string
           vat_amount?: number | null
@@ -527,13 +930,70 @@ export type Database = {
           },
         ]
       }
+      quote_responses: {
+        Row: {
+          comment: string | null
+          created_at: string | null
+          decision: string
+          id: string
+          ip_address: string | null
+          quote_id: string
+          quote_reference: string | null
+          quote_total: number | null
+          responded_at: string
+          seen_at: string | null
+          signature_data: string
+          signature_type: string
+          signer_name: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string | null
+          decision: string
+          id?: string
+          ip_address?: string | null
+          quote_id: string
+          quote_reference?: string | null
+          quote_total?: number | null
+          responded_at?: string
+          seen_at?: string | null
+          signature_data: string
+          signature_type: string
+          signer_name: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string | null
+          decision?: string
+          id?: string
+          ip_address?: string | null
+          quote_id?: string
+          quote_reference?: string | null
+          quote_total?: number | null
+          responded_at?: string
+          seen_at?: string | null
+          signature_data?: string
+          signature_type?: string
+          signer_name?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       quotes: {
         Row: {
           amount_paid: number | null
+          cis_amount: number | null
           cis_percent: number | null
           created_at: string | null
           customer_id: string | null
           date: string | null
+          defects_period_end_date: string | null
+          discount_amount: number | null
           discount_description: string | null
           discount_type: string | null
           discount_value: number | null
@@ -544,7 +1004,9 @@ export type Database = {
           job_pack_id: string | null
           labour_rate: number | null
           markup_percent: number | null
+          milestone_id: string | null
           notes: string | null
+          options: Json | null
           parent_quote_id: string | null
           part_payment_enabled: boolean | null
           part_payment_label: string | null
@@ -552,21 +1014,35 @@ export type Database = {
           part_payment_value: number | null
           payment_date: string | null
           payment_method: string | null
+          payment_schedule: Json | null
+          practical_completion_date: string | null
+          recurrence_date: string | null
+          recurring_invoice_id: string | null
           reference_number: number | null
+          retention_percent: number | null
+          reverse_charge: boolean | null
+          share_token: string | null
           sections: Json | null
+          selected_option_id: string | null
           status: string | null
+          subtotal: number | null
           tax_percent: number | null
           title: string
+          total: number | null
           type: string | null
           updated_at: string | null
           user_id: string
+          vat: number | null
         }
         Insert: {
           amount_paid?: number | null
+          cis_amount?: number | null
           cis_percent?: number | null
           created_at?: string | null
           customer_id?: string | null
           date?: string | null
+          defects_period_end_date?: string | null
+          discount_amount?: number | null
           discount_description?: string | null
           discount_type?: string | null
           discount_value?: number | null
@@ -577,7 +1053,9 @@ export type Database = {
           job_pack_id?: string | null
           labour_rate?: number | null
           markup_percent?: number | null
+          milestone_id?: string | null
           notes?: string | null
+          options?: Json | null
           parent_quote_id?: string | null
           part_payment_enabled?: boolean | null
           part_payment_label?: string | null
@@ -585,21 +1063,35 @@ export type Database = {
           part_payment_value?: number | null
           payment_date?: string | null
           payment_method?: string | null
+          payment_schedule?: Json | null
+          practical_completion_date?: string | null
+          recurrence_date?: string | null
+          recurring_invoice_id?: string | null
           reference_number?: number | null
+          retention_percent?: number | null
+          reverse_charge?: boolean | null
+          share_token?: string | null
           sections?: Json | null
+          selected_option_id?: string | null
           status?: string | null
+          subtotal?: number | null
           tax_percent?: number | null
           title: string
+          total?: number | null
           type?: string | null
           updated_at?: string | null
           user_id: string
+          vat?: number | null
         }
         Update: {
           amount_paid?: number | null
+          cis_amount?: number | null
           cis_percent?: number | null
           created_at?: string | null
           customer_id?: string | null
           date?: string | null
+          defects_period_end_date?: string | null
+          discount_amount?: number | null
           discount_description?: string | null
           discount_type?: string | null
           discount_value?: number | null
@@ -610,7 +1102,9 @@ export type Database = {
           job_pack_id?: string | null
           labour_rate?: number | null
           markup_percent?: number | null
+          milestone_id?: string | null
           notes?: string | null
+          options?: Json | null
           parent_quote_id?: string | null
           part_payment_enabled?: boolean | null
           part_payment_label?: string | null
@@ -618,14 +1112,25 @@ export type Database = {
           part_payment_value?: number | null
           payment_date?: string | null
           payment_method?: string | null
+          payment_schedule?: Json | null
+          practical_completion_date?: string | null
+          recurrence_date?: string | null
+          recurring_invoice_id?: string | null
           reference_number?: number | null
+          retention_percent?: number | null
+          reverse_charge?: boolean | null
+          share_token?: string | null
           sections?: Json | null
+          selected_option_id?: string | null
           status?: string | null
+          subtotal?: number | null
           tax_percent?: number | null
           title?: string
+          total?: number | null
           type?: string | null
           updated_at?: string | null
           user_id?: string
+          vat?: number | null
         }
         Relationships: []
       }
@@ -659,6 +1164,126 @@ export type Database = {
         }
         Relationships: []
       }
+      reconciliation_rules: {
+        Row: {
+          created_at: string | null
+          customer_id: string | null
+          id: string
+          is_learned: boolean
+          last_used_at: string | null
+          match_type: string
+          pattern: string
+          times_used: number
+          updated_at: string | null
+          user_id: string
+          vendor_name: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          customer_id?: string | null
+          id?: string
+          is_learned?: boolean
+          last_used_at?: string | null
+          match_type: string
+          pattern: string
+          times_used?: number
+          updated_at?: string | null
+          user_id: string
+          vendor_name?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          customer_id?: string | null
+          id?: string
+          is_learned?: boolean
+          last_used_at?: string | null
+          match_type?: string
+          pattern?: string
+          times_used?: number
+          updated_at?: string | null
+          user_id?: string
+          vendor_name?: string | null
+        }
+        Relationships: []
+      }
+      recurring_invoices: {
+        Row: {
+          create_visits: boolean
+          created_at: string | null
+          customer_id: string | null
+          end_date: string | null
+          frequency: string
+          generate_status: string
+          id: string
+          interval_count: number
+          is_active: boolean
+          job_pack_id: string | null
+          last_generated_at: string | null
+          max_occurrences: number | null
+          next_run_date: string | null
+          occurrences_generated: number
+          payment_terms_days: number
+          reference_number: number | null
+          start_date: string
+          template: Json
+          title: string
+          updated_at: string | null
+          user_id: string
+          visit_duration_minutes: number | null
+          visit_start_time: string | null
+        }
+        Insert: {
+          create_visits?: boolean
+          created_at?: string | null
+          customer_id?: string | null
+          end_date?: string | null
+          frequency?: string
+          generate_status?: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          job_pack_id?: string | null
+          last_generated_at?: string | null
+          max_occurrences?: number | null
+          next_run_date?: string | null
+          occurrences_generated?: number
+          payment_terms_days?: number
+          reference_number?: number | null
+          start_date: string
+          template?: Json
+          title: string
+          updated_at?: string | null
+          user_id: string
+          visit_duration_minutes?: number | null
+          visit_start_time?: string | null
+        }
+        Update: {
+          create_visits?: boolean
+          created_at?: string | null
+          customer_id?: string | null
+          end_date?: string | null
+          frequency?: string
+          generate_status?: string
+          id?: string
+          interval_count?: number
+          is_active?: boolean
+          job_pack_id?: string | null
+          last_generated_at?: string | null
+          max_occurrences?: number | null
+          next_run_date?: string | null
+          occurrences_generated?: number
+          payment_terms_days?: number
+          reference_number?: number | null
+          start_date?: string
+          template?: Json
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+          visit_duration_minutes?: number | null
+          visit_start_time?: string | null
+        }
+        Relationships: []
+      }
       schedule_entries: {
         Row: {
           created_at: string | null
@@ -910,6 +1535,8 @@ export type Database = {
       }
       user_settings: {
         Row: {
+          cis_accounts_office_reference: string | null
+          cis_utr: string | null
           company_address: string | null
           company_logo_path: string | null
           company_name: string | null
@@ -917,6 +1544,7 @@ export type Database = {
           converted_at: string | null
           cost_box_color: string | null
           created_at: string | null
+          credit_note_prefix: string | null
           default_cis_rate: number | null
           default_display_options: Json | null
           default_invoice_notes: string | null
@@ -929,6 +1557,7 @@ export type Database = {
           footer_logos: string[] | null
           id: string
           invoice_prefix: string | null
+          is_cis_contractor: boolean | null
           is_vat_registered: boolean | null
           quote_prefix: string | null
           referral_code: string | null
@@ -951,9 +1580,15 @@ export type Database = {
           updated_at: string | null
           usage_limits: Json | null
           user_id: string
+          vat_flat_rate_category: string | null
+          vat_flat_rate_first_year: boolean | null
           vat_number: string | null
+          vat_scheme: string | null
+          vat_stagger: number | null
         }
         Insert: {
+          cis_accounts_office_reference?: string | null
+          cis_utr?: string | null
           company_address?: string | null
           company_logo_path?: string | null
           company_name?: string | null
@@ -961,6 +1596,7 @@ export type Database = {
           converted_at?: string | null
           cost_box_color?: string | null
           created_at?: string | null
+          credit_note_prefix?: string | null
           default_cis_rate?: number | null
           default_display_options?: Json | null
           default_invoice_notes?: string | null
@@ -973,6 +1609,7 @@ export type Database = {
           footer_logos?: string[] | null
           id?: string
           invoice_prefix?: string | null
+          is_cis_contractor?: boolean | null
           is_vat_registered?: boolean | null
           quote_prefix?: string | null
           referral_code?: string | null
@@ -995,9 +1632,15 @@ export type Database = {
           updated_at?: string | null
           usage_limits?: Json | null
           user_id: string
+          vat_flat_rate_category?: string | null
+          vat_flat_rate_first_year?: boolean | null
           vat_number?: string | null
+          vat_scheme?: string | null
+          vat_stagger?: number | null
         }
         Update: {
+          cis_accounts_office_reference?: string | null
+          cis_utr?: string | null
           company_address?: string | null
           company_logo_path?: string | null
           company_name?: string | null
@@ -1005,6 +1648,7 @@ export type Database = {
           converted_at?: string | null
           cost_box_color?: string | null
           created_at?: string | null
+          credit_note_prefix?: string | null
           default_cis_rate?: number | null
           default_display_options?: Json | null
           default_invoice_notes?: string | null
@@ -1017,6 +1661,7 @@ export type Database = {
           footer_logos?: string[] | null
           id?: string
           invoice_prefix?: string | null
+          is_cis_contractor?: boolean | null
           is_vat_registered?: boolean | null
           quote_prefix?: string | null
           referral_code?: string | null
@@ -1039,7 +1684,137 @@ export type Database = {
           updated_at?: string | null
           usage_limits?: Json | null
           user_id?: string
+          vat_flat_rate_category?: string | null
+          vat_flat_rate_first_year?: boolean | null
           vat_number?: string | null
+          vat_scheme?: string | null
+          vat_stagger?: number | null
+        }
+        Relationships: []
+      }
+      vat_returns: {
+        Row: {
+          created_at: string | null
+          entries: Json
+          hmrc_charge_ref_number: string | null
+          hmrc_form_bundle_number: string | null
+          hmrc_payment_indicator: string | null
+          hmrc_period_key: string | null
+          hmrc_processing_date: string | null
+          id: string
+          net_vat_due: number
+          period_end: string
+          period_key: string
+          period_start: string
+          submitted_at: string | null
+          total_acquisitions_ex_vat: number
+          total_value_goods_supplied_ex_vat: number
+          total_value_purchases_ex_vat: number
+          total_value_sales_ex_vat: number
+          total_vat_due: number
+          user_id: string
+          vat_due_acquisitions: number
+          vat_due_sales: number
+          vat_reclaimed_curr_period: number
+        }
+        Insert: {
+          created_at?: string | null
+          entries?: Json
+          hmrc_charge_ref_number?: string | null
+          hmrc_form_bundle_number?: string | null
+          hmrc_payment_indicator?: string | null
+          hmrc_period_key?: string | null
+          hmrc_processing_date?: string | null
+          id?: string
+          net_vat_due?: number
+          period_end: string
+          period_key: string
+          period_start: string
+          submitted_at?: string | null
+          total_acquisitions_ex_vat?: number
+          total_value_goods_supplied_ex_vat?: number
+          total_value_purchases_ex_vat?: number
+          total_value_sales_ex_vat?: number
+          total_vat_due?: number
+          user_id: string
+          vat_due_acquisitions?: number
+          vat_due_sales?: number
+          vat_reclaimed_curr_period?: number
+        }
+        Update: {
+          created_at?: string | null
+          entries?: Json
+          hmrc_charge_ref_number?: string | null
+          hmrc_form_bundle_number?: string | null
+          hmrc_payment_indicator?: string | null
+          hmrc_period_key?: string | null
+          hmrc_processing_date?: string | null
+          id?: string
+          net_vat_due?: number
+          period_end?: string
+          period_key?: string
+          period_start?: string
+          submitted_at?: string | null
+          total_acquisitions_ex_vat?: number
+          total_value_goods_supplied_ex_vat?: number
+          total_value_purchases_ex_vat?: number
+          total_value_sales_ex_vat?: number
+          total_vat_due?: number
+          user_id?: string
+          vat_due_acquisitions?: number
+          vat_due_sales?: number
+          vat_reclaimed_curr_period?: number
+        }
+        Relationships: []
+      }
+      vehicles: {
+        Row: {
+          advisory_fuel_rate: number | null
+          claim_method: string
+          created_at: string | null
+          engine_cc: number | null
+          fuel_scale_charge: number | null
+          fuel_type: string | null
+          fuel_vat_method: string
+          id: string
+          is_active: boolean
+          name: string
+          registration: string | null
+          updated_at: string | null
+          user_id: string
+          vehicle_type: string
+        }
+        Insert: {
+          advisory_fuel_rate?: number | null
+          claim_method?: string
+          created_at?: string | null
+          engine_cc?: number | null
+          fuel_scale_charge?: number | null
+          fuel_type?: string | null
+          fuel_vat_method?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          registration?: string | null
+          updated_at?: string | null
+          user_id: string
+          vehicle_type?: string
+        }
+        Update: {
+          advisory_fuel_rate?: number | null
+          claim_method?: string
+          created_at?: string | null
+          engine_cc?: number | null
+          fuel_scale_charge?: number | null
+          fuel_type?: string | null
+          fuel_vat_method?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          registration?: string | null
+          updated_at?: string | null
+          user_id?: string
+          vehicle_type?: string
         }
         Relationships: []
       }
@@ -1197,6 +1972,43 @@ export type Database = {
       }
     }
     Functions: {
+      derive_invoice_status: {
+        Args: {
+          p_amount_credited?: number
+          p_amount_paid: number
+          p_status: string
+          p_total: number
+        }
+        Returns: string
+      }
+      get_invoice_credited_amount: {
+        Args: { p_invoice_id: string }
+        Returns: number
+      }
+      get_ledger_account_totals: {
+        Args: {
+          p_from?: string
+          p_to?: string
+        }
+        Returns: {
+          account_code: string
+          debit: number
+          credit: number
+        }[]
+      }
+      get_ledger_monthly_totals: {
+        Args: {
+          p_from?: string
+          p_to?: string
+        }
+        Returns: {
+          month: string
+          account_code: string
+          debit: number
+          credit: number
+          entry_count: number
+        }[]
+      }
       get_next_reference_number: {
         Args: { p_type: string; p_user_id: string }
         Returns: number
@@ -1209,6 +2021,10 @@ export type Database = {
         Returns: boolean
       }
       is_trial_active: { Args: { user_uuid: string }; Returns: boolean }
+      link_bank_transfer: {
+        Args: { p_in_id: string; p_out_id: string }
+        Returns: undefined
+      }
       mark_payable_paid: {
         Args: {
           p_paid_date?: string
@@ -1225,6 +2041,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      rollback_bank_import: {
+        Args: { p_batch_id: string }
+        Returns: number
+      }
       search_filed_documents: {
         Args: {
           p_category?: string
@@ -1242,6 +2062,10 @@ export type Database = {
           storage_path: string
         }[]
       }
+      unlink_bank_transfer: {
+        Args: { p_transaction_id: string }
+        Returns: undefined
+      }
       unreconcile_transaction: {
         Args: { p_transaction_id: string }
         Returns: undefined
@@ -0,0 +1,109 @@
+import { supabase } from './supabase';
+import type {
+  VatObligation,
+  VatLiability,
+  VatSubmissionReceipt,
+} from '../../supabase/functions/_shared/mtdVatClient.ts';
+import type { VatReturnRow, toVatReturnRow } from '../utils/vatReturn';
+
+export type { VatObligation, VatLiability, VatSubmissionReceipt };
+
+const DEVICE_ID_KEY = 'tradesync_hmrc_device_id';
+
+/**
+ * Calls the mtd-vat edge function with the user's session.
+ */
+async function callMtdVat<T>(action: string, body: Record<string, unknown> = {}): Promise<T> {
+  const { data: { session }, error: sessionError } = await supabase.auth.getSession();
+
+  if (sessionError || !session) {
+    throw new Error('You must be logged in to use Making Tax Digital');
+  }
+
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mtd-vat`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ action, ...body }),
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'HMRC request failed');
+  }
+  return result as T;
+}
+
+// HMRC fraud prevention headers only the browser can supply
+function getFraudPreventionHeaders(): Record<string, string> {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+
+  const offset = -new Date().getTimezoneOffset();
+  const sign = offset >= 0 ? '+' : '-';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+
+  return {
+    'Gov-Client-Device-ID': deviceId,
+    'Gov-Client-Timezone': `UTC${sign}${hours}:${minutes}`,
+    'Gov-Client-Browser-JS-User-Agent': navigator.userAgent,
+    'Gov-Client-Browser-Do-Not-Track': navigator.doNotTrack === '1' ? 'true' : 'false',
+    'Gov-Client-Screens': `width=${window.screen.width}&height=${window.screen.height}&scaling-factor=${window.devicePixelRatio}&colour-depth=${window.screen.colorDepth}`,
+    'Gov-Client-Window-Size': `width=${window.innerWidth}&height=${window.innerHeight}`,
+  };
+}
+
+export function getHmrcConnection(): Promise<{ connected: boolean; connectedAt: string | null }> {
+  return callMtdVat('status');
+}
+
+/**
+ * Redirects the user to HMRC to grant access. HMRC sends them back to the
+ * current page with ?hmrc=connected (or the error code).
+ */
+export async function connectToHmrc(): Promise<void> {
+  const { url } = await callMtdVat<{ url: string }>('authorize', {
+    returnUrl: `${window.location.origin}${window.location.pathname}`,
+  });
+  window.location.href = url;
+}
+
+export async function disconnectHmrc(): Promise<void> {
+  await callMtdVat('disconnect');
+}
+
+export async function getVatObligations(vrn: string, from: string, to: string): Promise<VatObligation[]> {
+  const { obligations } = await callMtdVat<{ obligations: VatObligation[] }>('obligations', { vrn, from, to });
+  return obligations;
+}
+
+export async function getVatLiabilities(vrn: string, from: string, to: string): Promise<VatLiability[]> {
+  const { liabilities } = await callMtdVat<{ liabilities: VatLiability[] }>('liabilities', { vrn, from, to });
+  return liabilities;
+}
+
+/**
+ * Submits a prepared return against an HMRC obligation. The edge function
+ * stores the filed return with HMRC's receipt.
+ */
+export function submitVatReturn(
+  vrn: string,
+  periodKey: string,
+  vatReturn: ReturnType<typeof toVatReturnRow>
+): Promise<{ receipt: VatSubmissionReceipt; vatReturn: VatReturnRow }> {
+  return callMtdVat('submit', {
+    vrn,
+    periodKey,
+    vatReturn,
+    fraudHeaders: getFraudPreventionHeaders(),
+  });
+}
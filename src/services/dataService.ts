@@ -398,7 +398,7 @@ export const quotesService = {
     if (error) throw error;
   },
 
-  async getNextReferenceNumber(type: 'estimate' | 'quotation' | 'invoice') {
+  async getNextReferenceNumber(type: 'estimate' | 'quotation' | 'invoice' | 'credit_note') {
     const user = (await supabase.auth.getUser()).data.user;
     if (!user) throw new Error('Not authenticated');
 
@@ -412,6 +412,149 @@ export const quotesService = {
   },
 };
 
+// ============================================
+// INVOICE PAYMENTS (Ledger of payments received)
+// ============================================
+
+export const invoicePaymentsService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('invoice_payments')
+      .select('*')
+      .order('payment_date', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  async getByInvoice(invoiceId: string) {
+    const { data, error } = await supabase
+      .from('invoice_payments')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('payment_date', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  async getUnreconciled() {
+    const { data, error } = await supabase
+      .from('invoice_payments')
+      .select('*')
+      .is('bank_transaction_id', null)
+      .order('payment_date', { ascending: false });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(payment: Omit<Tables['invoice_payments']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('invoice_payments')
+      .insert({ ...payment, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['invoice_payments']['Update']) {
+    const { data, error } = await supabase
+      .from('invoice_payments')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async linkBankTransaction(id: string, transactionId: string | null) {
+    return this.update(id, { bank_transaction_id: transactionId });
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('invoice_payments')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// ============================================
+// RECURRING INVOICES
+// ============================================
+
+export const recurringInvoicesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('recurring_invoices')
+      .select('*')
+      .order('next_run_date', { ascending: true, nullsFirst: false });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(recurring: Omit<Tables['recurring_invoices']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('recurring_invoices')
+      .insert({ ...recurring, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['recurring_invoices']['Update']) {
+    const { data, error } = await supabase
+      .from('recurring_invoices')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('recurring_invoices')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// ============================================
+// QUOTE RESPONSES (Customer accept/decline from the quote portal)
+// ============================================
+
+export const quoteResponsesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('quote_responses')
+      .select('*')
+      .order('responded_at', { ascending: false });
+    if (error) throw error;
+    return data;
+  },
+
+  // Responses are written by the quote-portal edge function; the app only
+  // records when they have been seen
+  async markSeen(ids: string[]) {
+    const { error } = await supabase
+      .from('quote_responses')
+      .update({ seen_at: new Date().toISOString() })
+      .in('id', ids);
+    if (error) throw error;
+  },
+};
+
 // ============================================
 // SCHEDULE ENTRIES
 // ============================================
@@ -676,6 +819,63 @@ export const bankTransactionsService = {
     return data;
   },
 
+  // Stored lines a new statement could overlap with, for the duplicate check
+  async getInDateRange(from: string, to: string, bankAccountId?: string) {
+    let query = supabase
+      .from('bank_transactions')
+      .select('id, transaction_date, description, amount, balance, external_id, import_batch_id, bank_name, bank_account_id, is_reconciled, created_at')
+      .gte('transaction_date', from)
+      .lte('transaction_date', to);
+    if (bankAccountId) query = query.eq('bank_account_id', bankAccountId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  },
+
+  // Last running balance stored for an account on or before a date
+  async getLatestBalance(bankAccountId: string, onOrBefore: string) {
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .select('transaction_date, balance')
+      .eq('bank_account_id', bankAccountId)
+      .not('balance', 'is', null)
+      .lte('transaction_date', onOrBefore)
+      .order('transaction_date', { ascending: false })
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    return data && data.balance !== null ? { date: data.transaction_date, balance: data.balance } : null;
+  },
+
+  async getImportedLines() {
+    const { data, error } = await supabase
+      .from('bank_transactions')
+      .select('id, transaction_date, description, amount, balance, external_id, import_batch_id, bank_name, bank_account_id, is_reconciled, created_at')
+      .not('import_batch_id', 'is', null)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data;
+  },
+
+  // Undo a whole import: unreconciles its lines and deletes them
+  async rollbackImport(batchId: string) {
+    const { data, error } = await supabase.rpc('rollback_bank_import', { p_batch_id: batchId });
+    if (error) throw error;
+    return data;
+  },
+
+  // Link money out of one account with the same amount into another
+  async linkTransfer(outId: string, inId: string) {
+    const { error } = await supabase.rpc('link_bank_transfer', { p_out_id: outId, p_in_id: inId });
+    if (error) throw error;
+  },
+
+  async unlinkTransfer(transactionId: string) {
+    const { error } = await supabase.rpc('unlink_bank_transfer', { p_transaction_id: transactionId });
+    if (error) throw error;
+  },
+
   async reconcileWithExpense(transactionId: string, expenseId: string) {
     const { error: txError } = await supabase
       .from('bank_transactions')
@@ -707,6 +907,53 @@ export const bankTransactionsService = {
   },
 };
 
+// ============================================
+// BANK ACCOUNTS
+// ============================================
+
+export const bankAccountsService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .select('*')
+      .order('created_at');
+    if (error) throw error;
+    return data;
+  },
+
+  async create(account: Omit<Tables['bank_accounts']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .insert({ ...account, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['bank_accounts']['Update']) {
+    const { data, error } = await supabase
+      .from('bank_accounts')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('bank_accounts')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
 // ============================================
 // RECONCILIATION (Multi-receipt support)
 // ============================================
@@ -767,6 +1014,261 @@ export const reconciliationService = {
   },
 };
 
+// ============================================
+// RECONCILIATION RULES ("always match X to Y")
+// ============================================
+
+type ReconciliationRuleTarget = { vendor_name?: string | null; customer_id?: string | null };
+
+export const reconciliationRulesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('reconciliation_rules')
+      .select('*')
+      .order('times_used', { ascending: false });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(rule: Omit<Tables['reconciliation_rules']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('reconciliation_rules')
+      .insert({ ...rule, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  // Learn from an accepted match. Rules the user set up keep their target;
+  // learned ones follow the latest match.
+  async recordMatch(pattern: string, matchType: 'expense' | 'invoice', target: ReconciliationRuleTarget) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+    if (!pattern) return;
+
+    const { data: existing, error: findError } = await supabase
+      .from('reconciliation_rules')
+      .select('id, is_learned, times_used')
+      .eq('user_id', user.id)
+      .eq('pattern', pattern)
+      .eq('match_type', matchType)
+      .maybeSingle();
+    if (findError) throw findError;
+
+    const now = new Date().toISOString();
+
+    if (existing) {
+      const { error } = await supabase
+        .from('reconciliation_rules')
+        .update({
+          ...(existing.is_learned ? target : {}),
+          times_used: (existing.times_used || 0) + 1,
+          last_used_at: now,
+          updated_at: now,
+        })
+        .eq('id', existing.id);
+      if (error) throw error;
+    } else {
+      const { error } = await supabase
+        .from('reconciliation_rules')
+        .insert({
+          user_id: user.id,
+          pattern,
+          match_type: matchType,
+          ...target,
+          is_learned: true,
+          times_used: 1,
+          last_used_at: now,
+        });
+      if (error) throw error;
+    }
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('reconciliation_rules')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// ============================================
+// BANK RULES (draft expenses from bank lines)
+// ============================================
+
+export const bankRulesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .select('*')
+      .order('pattern');
+    if (error) throw error;
+    return data;
+  },
+
+  async create(rule: Omit<Tables['bank_rules']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .insert({ ...rule, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['bank_rules']['Update']) {
+    const { data, error } = await supabase
+      .from('bank_rules')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  // Count expenses created from a rule
+  async recordApplied(id: string, count: number) {
+    const { data: existing, error: findError } = await supabase
+      .from('bank_rules')
+      .select('times_applied')
+      .eq('id', id)
+      .single();
+    if (findError) throw findError;
+
+    return this.update(id, {
+      times_applied: (existing.times_applied || 0) + count,
+      last_applied_at: new Date().toISOString(),
+    });
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('bank_rules')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// ============================================
+// CIS SUBCONTRACTORS (Paid under deduction when we act as contractor)
+// ============================================
+
+export const cisSubcontractorsService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('cis_subcontractors')
+      .select('*')
+      .order('name', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(subcontractor: Omit<Tables['cis_subcontractors']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('cis_subcontractors')
+      .insert({ ...subcontractor, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['cis_subcontractors']['Update']) {
+    const { data, error } = await supabase
+      .from('cis_subcontractors')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('cis_subcontractors')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// ============================================
+// VAT RETURNS (filed periods, never edited)
+// ============================================
+
+export const vatReturnsService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('vat_returns')
+      .select('*')
+      .order('period_key', { ascending: false });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(vatReturn: Omit<Tables['vat_returns']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('vat_returns')
+      .insert({ ...vatReturn, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+};
+
+// ============================================
+// GENERAL LEDGER (read only - journals are posted by database triggers)
+// ============================================
+
+export const ledgerService = {
+  async getAccounts() {
+    const { data, error } = await supabase
+      .from('ledger_accounts')
+      .select('*')
+      .order('display_order', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  // Debit and credit totals per account for entries dated in the range
+  async getAccountTotals(from?: string, to?: string) {
+    const { data, error } = await supabase.rpc('get_ledger_account_totals', {
+      p_from: from,
+      p_to: to,
+    });
+    if (error) throw error;
+    return data;
+  },
+
+  // The same totals split by calendar month, for trends within a report period
+  async getMonthlyTotals(from?: string, to?: string) {
+    const { data, error } = await supabase.rpc('get_ledger_monthly_totals', {
+      p_from: from,
+      p_to: to,
+    });
+    if (error) throw error;
+    return data;
+  },
+};
+
 // ============================================
 // PAYABLES (Bills to pay)
 // ============================================
@@ -790,6 +1292,14 @@ export interface Payable {
   document_path?: string | null;
   notes?: string | null;
   is_reconciled: boolean | null;
+  // CIS: set when the bill is from a subcontractor paid under deduction
+  subcontractor_id?: string | null;
+  cis_labour_amount?: number | null;
+  cis_materials_amount?: number | null;
+  cis_deduction?: number | null;
+  // Domestic reverse charge: no VAT on the bill, reverse_charge_vat is what we account for
+  is_reverse_charge?: boolean | null;
+  reverse_charge_vat?: number | null;
   created_at: string | null;
   updated_at: string | null;
 }
@@ -908,6 +1418,110 @@ export const payablesService = {
   },
 };
 
+// ============================================
+// MILEAGE (vehicles and business trips)
+// ============================================
+
+export const vehiclesService = {
+  async getAll() {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .select('*')
+      .order('name', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(vehicle: Omit<Tables['vehicles']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('vehicles')
+      .insert({ ...vehicle, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['vehicles']['Update']) {
+    const { data, error } = await supabase
+      .from('vehicles')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('vehicles')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
+export const mileageTripsService = {
+  async getAll(from?: string, to?: string) {
+    let query = supabase
+      .from('mileage_trips')
+      .select('*')
+      .order('trip_date', { ascending: false });
+    if (from) query = query.gte('trip_date', from);
+    if (to) query = query.lte('trip_date', to);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data;
+  },
+
+  async getByJobPack(jobPackId: string) {
+    const { data, error } = await supabase
+      .from('mileage_trips')
+      .select('*')
+      .eq('job_pack_id', jobPackId)
+      .order('trip_date', { ascending: true });
+    if (error) throw error;
+    return data;
+  },
+
+  async create(trip: Omit<Tables['mileage_trips']['Insert'], 'user_id'>) {
+    const user = (await supabase.auth.getUser()).data.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('mileage_trips')
+      .insert({ ...trip, user_id: user.id })
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Tables['mileage_trips']['Update']) {
+    const { data, error } = await supabase
+      .from('mileage_trips')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string) {
+    const { error } = await supabase
+      .from('mileage_trips')
+      .delete()
+      .eq('id', id);
+    if (error) throw error;
+  },
+};
+
 // ============================================
 // FILING CABINET
 // ============================================
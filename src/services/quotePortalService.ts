@@ -0,0 +1,40 @@
+import type { QuoteResponseInput } from '../utils/quotePortal';
+
+// The customer portal is used without logging in, so it talks to the
+// quote-portal edge function with the anon key rather than to the tables.
+const FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/quote-portal`;
+
+async function callQuotePortal<T>(action: string, data: Record<string, any>): Promise<T> {
+  const response = await fetch(FUNCTION_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+    body: JSON.stringify({ action, data }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Could not reach the quote portal');
+  }
+
+  return response.json();
+}
+
+// Raw rows as returned by the edge function
+export interface PortalQuotePayload {
+  quote: any;
+  customer: any | null;
+  settings: any | null;
+  logoUrl: string | null;
+  response: any | null;
+}
+
+export async function getPortalQuote(token: string): Promise<PortalQuotePayload> {
+  return callQuotePortal<PortalQuotePayload>('get', { token });
+}
+
+export async function respondToQuote(token: string, input: QuoteResponseInput): Promise<{ response: any }> {
+  return callQuotePortal<{ response: any }>('respond', { token, ...input });
+}
@@ -198,6 +198,8 @@ class SyncManager {
           phone: data.phone || null,
           address: data.address || null,
           company: data.company || null,
+          utr: data.utr || null,
+          reverse_charge: data.reverseCharge || false,
           user_id: data.userId,
         });
         break;
@@ -208,6 +210,8 @@ class SyncManager {
           phone: data.phone || null,
           address: data.address || null,
           company: data.company || null,
+          utr: data.utr || null,
+          reverse_charge: data.reverseCharge || false,
         });
         break;
       case 'delete':
@@ -249,6 +253,9 @@ class SyncManager {
           cis_percent: data.cisPercent,
           notes: data.notes || null,
           display_options: data.displayOptions,
+          // Settings aren't available here; clearing the stored total lets
+          // DataContext recompute it on the next load
+          total: null,
         });
         break;
       case 'delete':
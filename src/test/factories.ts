@@ -1,6 +1,9 @@
 import type {
   Customer,
   Quote,
+  InvoicePayment,
+  RecurringInvoice,
+  QuoteResponse,
   QuoteSection,
   QuoteDisplayOptions,
   MaterialItem,
@@ -185,6 +188,78 @@ export function createMockInvoice(overrides: Partial<Quote> = {}): Quote {
   });
 }
 
+// Create a credit note raised against an invoice
+export function createMockCreditNote(overrides: Partial<Quote> = {}): Quote {
+  return createMockQuote({
+    type: 'credit_note',
+    status: 'sent',
+    parentQuoteId: 'invoice-1',
+    referenceNumber: 1,
+    ...overrides,
+  });
+}
+
+// Create a recurring invoice (monthly from 1 Jan 2026, no end)
+export function createMockRecurringInvoice(overrides: Partial<RecurringInvoice> = {}): RecurringInvoice {
+  const now = new Date().toISOString();
+
+  return {
+    id: generateId('recurring'),
+    referenceNumber: 1,
+    title: 'Monthly Maintenance',
+    customerId: 'cust-1',
+    template: {
+      sections: [createMockQuoteSection()],
+      labourRate: 65,
+      markupPercent: 0,
+      taxPercent: 20,
+      cisPercent: 0,
+      notes: '',
+    },
+    frequency: 'monthly',
+    interval: 1,
+    startDate: '2026-01-01',
+    occurrencesGenerated: 0,
+    nextRunDate: '2026-01-01',
+    generateStatus: 'draft',
+    paymentTermsDays: 14,
+    createVisits: false,
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+// Create a payment recorded against an invoice
+export function createMockInvoicePayment(overrides: Partial<InvoicePayment> = {}): InvoicePayment {
+  const now = new Date().toISOString();
+
+  return {
+    id: generateId('payment'),
+    invoiceId: 'invoice-1',
+    amount: 100,
+    paymentDate: now.split('T')[0],
+    paymentMethod: 'bank_transfer',
+    createdAt: now,
+    ...overrides,
+  };
+}
+
+// Create a customer's signed response from the quote portal
+export function createMockQuoteResponse(overrides: Partial<QuoteResponse> = {}): QuoteResponse {
+  return {
+    id: generateId('response'),
+    quoteId: 'quote-1',
+    decision: 'accepted',
+    signerName: 'Jane Customer',
+    signatureType: 'typed',
+    signatureData: 'Jane Customer',
+    respondedAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
 // ============================================
 // JOBPACK FACTORIES
 // ============================================
@@ -357,6 +432,7 @@ export function createMockSettings(overrides: Partial<AppSettings> = {}): AppSet
     enableCis: false,
     quotePrefix: 'Q-',
     invoicePrefix: 'INV-',
+    creditNotePrefix: 'CN-',
     defaultQuoteNotes: 'Thank you for your business.',
     defaultInvoiceNotes: 'Payment due within 30 days.',
     costBoxColor: 'slate',
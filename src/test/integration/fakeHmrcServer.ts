@@ -0,0 +1,228 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local stand-in for the HMRC sandbox: OAuth token endpoint plus the MTD VAT
+ * obligations, returns and liabilities endpoints. It validates requests the
+ * way HMRC does (Accept header, bearer token, nine-box arithmetic, duplicate
+ * submissions) so the whole filing flow can run offline.
+ */
+
+export interface FakeHmrcObligation {
+  periodKey: string;
+  start: string;
+  end: string;
+  due: string;
+  status: 'O' | 'F';
+  received?: string;
+}
+
+export interface FakeHmrcServerOptions {
+  clientId?: string;
+  clientSecret?: string;
+  vrn?: string;
+  obligations?: FakeHmrcObligation[];
+  // Seconds an access token lives for
+  tokenLifetime?: number;
+}
+
+export interface FakeHmrcServer {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  vrn: string;
+  // Issue an authorisation code, as HMRC does after the user signs in
+  issueAuthorizationCode(): string;
+  // Expire every access token so the next call must refresh
+  expireAccessTokens(): void;
+  submissions: Array<{ vrn: string; body: Record<string, unknown>; headers: http.IncomingHttpHeaders }>;
+  close(): Promise<void>;
+}
+
+const ACCEPT = 'application/vnd.hmrc.1.0+json';
+
+const BOX_FIELDS = [
+  'vatDueSales',
+  'vatDueAcquisitions',
+  'totalVatDue',
+  'vatReclaimedCurrPeriod',
+  'netVatDue',
+  'totalValueSalesExVAT',
+  'totalValuePurchasesExVAT',
+  'totalValueGoodsSuppliedExVAT',
+  'totalAcquisitionsExVAT',
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export async function startFakeHmrcServer(options: FakeHmrcServerOptions = {}): Promise<FakeHmrcServer> {
+  const clientId = options.clientId || 'fake-client-id';
+  const clientSecret = options.clientSecret || 'fake-client-secret';
+  const vrn = options.vrn || '123456789';
+  const tokenLifetime = options.tokenLifetime ?? 14400;
+  const obligations = (options.obligations || []).map(o => ({ ...o }));
+
+  const codes = new Set<string>();
+  const accessTokens = new Set<string>();
+  const refreshTokens = new Set<string>();
+  const submissions: FakeHmrcServer['submissions'] = [];
+  let counter = 0;
+
+  const issueTokens = () => {
+    const accessToken = `access-${++counter}`;
+    const refreshToken = `refresh-${counter}`;
+    accessTokens.add(accessToken);
+    refreshTokens.add(refreshToken);
+    return { access_token: accessToken, refresh_token: refreshToken, expires_in: tokenLifetime, scope: 'read:vat write:vat', token_type: 'bearer' };
+  };
+
+  const send = (res: http.ServerResponse, status: number, body: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const readBody = (req: http.IncomingMessage): Promise<string> =>
+    new Promise((resolve, reject) => {
+      let data = '';
+      req.on('data', chunk => { data += chunk; });
+      req.on('end', () => resolve(data));
+      req.on('error', reject);
+    });
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const params = new URLSearchParams(await readBody(req));
+    if (params.get('client_id') !== clientId || params.get('client_secret') !== clientSecret) {
+      return send(res, 401, { error: 'invalid_client', error_description: 'Invalid client credentials' });
+    }
+
+    const grantType = params.get('grant_type');
+    if (grantType === 'authorization_code') {
+      const code = params.get('code') || '';
+      if (!codes.delete(code)) return send(res, 400, { error: 'invalid_grant', error_description: 'Authorization code is invalid' });
+      return send(res, 200, issueTokens());
+    }
+    if (grantType === 'refresh_token') {
+      const refreshToken = params.get('refresh_token') || '';
+      if (!refreshTokens.delete(refreshToken)) return send(res, 400, { error: 'invalid_grant', error_description: 'Refresh token is invalid' });
+      return send(res, 200, issueTokens());
+    }
+    return send(res, 400, { error: 'unsupported_grant_type' });
+  };
+
+  const handleVat = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    if (req.headers.accept !== ACCEPT) {
+      return send(res, 406, { code: 'ACCEPT_HEADER_INVALID', message: 'The accept header is missing or invalid' });
+    }
+    const token = (req.headers.authorization || '').replace('Bearer ', '');
+    if (!accessTokens.has(token)) {
+      return send(res, 401, { code: 'INVALID_CREDENTIALS', message: 'Invalid Authentication information provided' });
+    }
+
+    const match = url.pathname.match(/^\/organisations\/vat\/([^/]+)\/(obligations|returns|liabilities)$/);
+    if (!match) return send(res, 404, { code: 'MATCHING_RESOURCE_NOT_FOUND', message: 'A resource with the name in the request can not be found in the API' });
+    const [, requestVrn, resource] = match;
+    if (!/^\d{9}$/.test(requestVrn)) return send(res, 400, { code: 'VRN_INVALID', message: 'The provided VRN is invalid' });
+    if (requestVrn !== vrn) return send(res, 403, { code: 'CLIENT_OR_AGENT_NOT_AUTHORISED', message: 'The client or agent is not authorised' });
+
+    if (resource === 'obligations' && req.method === 'GET') {
+      const from = url.searchParams.get('from') || '';
+      const to = url.searchParams.get('to') || '';
+      const status = url.searchParams.get('status');
+      if (!status && (!from || !to)) return send(res, 400, { code: 'INVALID_DATE_RANGE', message: 'Invalid date range' });
+      const matching = obligations.filter(o =>
+        (!status || o.status === status) && (!from || o.end >= from) && (!to || o.start <= to)
+      );
+      if (matching.length === 0) return send(res, 404, { code: 'NOT_FOUND', message: 'The requested resource could not be found' });
+      return send(res, 200, { obligations: matching });
+    }
+
+    if (resource === 'liabilities' && req.method === 'GET') {
+      const liabilities = submissions
+        .filter(s => s.vrn === requestVrn && Number(s.body.netVatDue) > 0)
+        .map(s => {
+          const obligation = obligations.find(o => o.periodKey === s.body.periodKey);
+          return {
+            taxPeriod: obligation ? { from: obligation.start, to: obligation.end } : undefined,
+            type: 'VAT Return Debit Charge',
+            originalAmount: Number(s.body.netVatDue),
+            outstandingAmount: Number(s.body.netVatDue),
+            due: obligation?.due,
+          };
+        });
+      if (liabilities.length === 0) return send(res, 404, { code: 'NOT_FOUND', message: 'The requested resource could not be found' });
+      return send(res, 200, { liabilities });
+    }
+
+    if (resource === 'returns' && req.method === 'POST') {
+      let body: Record<string, any>;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch {
+        return send(res, 400, { code: 'INVALID_REQUEST', message: 'Invalid request' });
+      }
+
+      const errors: Array<{ code: string; path: string }> = [];
+      BOX_FIELDS.forEach(field => {
+        if (typeof body[field] !== 'number') errors.push({ code: 'INVALID_MONETARY_AMOUNT', path: `/${field}` });
+      });
+      if (body.finalised !== true) errors.push({ code: 'NOT_FINALISED', path: '/finalised' });
+      if (errors.length === 0) {
+        if (round(body.vatDueSales + body.vatDueAcquisitions) !== body.totalVatDue) {
+          errors.push({ code: 'VAT_TOTAL_VALUE', path: '/totalVatDue' });
+        }
+        if (round(Math.abs(body.totalVatDue - body.vatReclaimedCurrPeriod)) !== body.netVatDue) {
+          errors.push({ code: 'VAT_NET_VALUE', path: '/netVatDue' });
+        }
+        ['totalValueSalesExVAT', 'totalValuePurchasesExVAT', 'totalValueGoodsSuppliedExVAT', 'totalAcquisitionsExVAT'].forEach(field => {
+          if (!Number.isInteger(body[field])) errors.push({ code: 'INVALID_WHOLE_AMOUNT', path: `/${field}` });
+        });
+      }
+      if (errors.length > 0) return send(res, 400, { code: 'INVALID_REQUEST', message: 'Invalid request', errors });
+
+      const obligation = obligations.find(o => o.periodKey === body.periodKey);
+      if (!obligation) return send(res, 403, { code: 'PERIOD_KEY_INVALID', message: 'Invalid period key' });
+      if (obligation.status === 'F') return send(res, 403, { code: 'DUPLICATE_SUBMISSION', message: 'The VAT return was already submitted for the given period.' });
+
+      obligation.status = 'F';
+      obligation.received = new Date().toISOString().split('T')[0];
+      submissions.push({ vrn: requestVrn, body, headers: req.headers });
+      return send(res, 201, {
+        processingDate: new Date().toISOString(),
+        formBundleNumber: String(100000000000 + submissions.length),
+        ...(body.netVatDue > 0 && body.totalVatDue >= body.vatReclaimedCurrPeriod
+          ? { paymentIndicator: 'BANK', chargeRefNumber: `XD${String(submissions.length).padStart(12, '0')}` }
+          : {}),
+      });
+    }
+
+    return send(res, 405, { code: 'METHOD_NOT_ALLOWED', message: 'Method not allowed' });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const handler = url.pathname === '/oauth/token' && req.method === 'POST'
+      ? handleToken(req, res)
+      : handleVat(req, res, url);
+    handler.catch(error => send(res, 500, { code: 'INTERNAL_SERVER_ERROR', message: String(error) }));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    clientId,
+    clientSecret,
+    vrn,
+    issueAuthorizationCode() {
+      const code = `code-${++counter}`;
+      codes.add(code);
+      return code;
+    },
+    expireAccessTokens() {
+      accessTokens.clear();
+    },
+    submissions,
+    close: () => new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve()))),
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { startFakeHmrcServer, type FakeHmrcServer } from './fakeHmrcServer';
+import {
+  HmrcApiError,
+  HmrcMtdVatClient,
+  buildAuthorizeUrl,
+  exchangeAuthorizationCode,
+  isTokenExpired,
+  normaliseVrn,
+  refreshAccessToken,
+  type HmrcOAuthConfig,
+  type HmrcTokens,
+} from '../../../supabase/functions/_shared/mtdVatClient.ts';
+import { buildVatEntries, getVatPeriod, type VatSettings } from '../../utils/vatPeriods';
+import { prepareVatReturn } from '../../utils/vatReturn';
+
+const standard: VatSettings = { stagger: 1, scheme: 'standard', flatRateCategory: 'general_building', flatRateFirstYear: false };
+
+describe('MTD VAT against the fake HMRC server', () => {
+  let hmrc: FakeHmrcServer;
+  let config: HmrcOAuthConfig;
+  let tokens: HmrcTokens;
+
+  // Token store standing in for hmrc_tokens in the edge function
+  const getAccessToken = async () => {
+    if (isTokenExpired(tokens)) tokens = await refreshAccessToken(config, tokens.refreshToken);
+    return tokens.accessToken;
+  };
+
+  const connect = async () => {
+    tokens = await exchangeAuthorizationCode(config, hmrc.issueAuthorizationCode());
+    return new HmrcMtdVatClient(hmrc.baseUrl, getAccessToken, { 'Gov-Client-Connection-Method': 'WEB_APP_VIA_SERVER' });
+  };
+
+  const startServer = async (tokenLifetime?: number) => {
+    hmrc = await startFakeHmrcServer({
+      tokenLifetime,
+      obligations: [
+        { periodKey: '26A1', start: '2026-01-01', end: '2026-03-31', due: '2026-05-07', status: 'O' },
+        { periodKey: '26A2', start: '2026-04-01', end: '2026-06-30', due: '2026-08-07', status: 'O' },
+      ],
+    });
+    config = { baseUrl: hmrc.baseUrl, clientId: hmrc.clientId, clientSecret: hmrc.clientSecret, redirectUri: 'http://localhost/callback' };
+  };
+
+  beforeEach(async () => {
+    await startServer();
+  });
+
+  afterEach(async () => {
+    await hmrc.close();
+  });
+
+  it('builds the HMRC sign-in URL', () => {
+    const url = new URL(buildAuthorizeUrl(config, 'state-1'));
+
+    expect(url.pathname).toBe('/oauth/authorize');
+    expect(url.searchParams.get('client_id')).toBe(hmrc.clientId);
+    expect(url.searchParams.get('scope')).toBe('read:vat write:vat');
+    expect(url.searchParams.get('state')).toBe('state-1');
+  });
+
+  it('rejects a reused authorisation code', async () => {
+    const code = hmrc.issueAuthorizationCode();
+    await exchangeAuthorizationCode(config, code);
+
+    await expect(exchangeAuthorizationCode(config, code)).rejects.toMatchObject({ status: 400, code: 'invalid_grant' });
+  });
+
+  it('files a return prepared from the VAT engine and reads back the liability', async () => {
+    const client = await connect();
+    const vrn = normaliseVrn('GB 123 4567 89');
+
+    const open = await client.getObligations(vrn, { from: '2026-01-01', to: '2026-12-31', status: 'O' });
+    expect(open.map(o => o.periodKey)).toEqual(['26A1', '26A2']);
+
+    const entries = buildVatEntries({
+      invoices: [{ id: 'inv-1', type: 'invoice', status: 'sent', date: '2026-02-10', subtotal: 1000.6, vat: 200.12, total: 1200.72 }],
+      payments: [],
+      expenses: [{ id: 'exp-1', vendor: 'Merchant', amount: 250, vat_amount: 50, expense_date: '2026-03-01' }],
+      bills: [],
+    }, 'standard');
+    const prepared = prepareVatReturn(getVatPeriod(open[0].end, standard.stagger), entries, standard);
+
+    const receipt = await client.submitReturn(vrn, { periodKey: open[0].periodKey, ...prepared.boxes, finalised: true });
+    expect(receipt.formBundleNumber).toMatch(/^\d{12}$/);
+    expect(receipt.paymentIndicator).toBe('BANK');
+    expect(hmrc.submissions[0].body).toMatchObject({ vatDueSales: 200.12, netVatDue: 150.12, totalValueSalesExVAT: 1000 });
+    expect(hmrc.submissions[0].headers['gov-client-connection-method']).toBe('WEB_APP_VIA_SERVER');
+
+    const fulfilled = await client.getObligations(vrn, { from: '2026-01-01', to: '2026-12-31', status: 'F' });
+    expect(fulfilled.map(o => o.periodKey)).toEqual(['26A1']);
+
+    const liabilities = await client.getLiabilities(vrn, { from: '2026-01-01', to: '2026-12-31' });
+    expect(liabilities).toEqual([
+      expect.objectContaining({ originalAmount: 150.12, taxPeriod: { from: '2026-01-01', to: '2026-03-31' } }),
+    ]);
+  });
+
+  it('refuses a second submission for the same period', async () => {
+    const client = await connect();
+    const body = {
+      periodKey: '26A1', vatDueSales: 100, vatDueAcquisitions: 0, totalVatDue: 100, vatReclaimedCurrPeriod: 40,
+      netVatDue: 60, totalValueSalesExVAT: 500, totalValuePurchasesExVAT: 200, totalValueGoodsSuppliedExVAT: 0,
+      totalAcquisitionsExVAT: 0, finalised: true,
+    };
+    await client.submitReturn(hmrc.vrn, body);
+
+    await expect(client.submitReturn(hmrc.vrn, body)).rejects.toMatchObject({ status: 403, code: 'DUPLICATE_SUBMISSION' });
+  });
+
+  it('rejects boxes that do not add up', async () => {
+    const client = await connect();
+
+    const error = await client.submitReturn(hmrc.vrn, {
+      periodKey: '26A1', vatDueSales: 100, vatDueAcquisitions: 0, totalVatDue: 100, vatReclaimedCurrPeriod: 40,
+      netVatDue: 50, totalValueSalesExVAT: 500, totalValuePurchasesExVAT: 200, totalValueGoodsSuppliedExVAT: 0,
+      totalAcquisitionsExVAT: 0, finalised: true,
+    }).catch(e => e);
+
+    expect(error).toBeInstanceOf(HmrcApiError);
+    expect(error.status).toBe(400);
+    expect(hmrc.submissions).toHaveLength(0);
+  });
+
+  it('refreshes short-lived access tokens before each call', async () => {
+    await hmrc.close();
+    await startServer(30);
+    const client = await connect();
+    const first = tokens.accessToken;
+
+    await client.getObligations(hmrc.vrn, { from: '2026-01-01', to: '2026-12-31' });
+
+    expect(tokens.accessToken).not.toBe(first);
+  });
+
+  it('surfaces HMRC authentication errors', async () => {
+    const client = await connect();
+    hmrc.expireAccessTokens();
+
+    await expect(client.getObligations(hmrc.vrn, { from: '2026-01-01', to: '2026-12-31' }))
+      .rejects.toMatchObject({ status: 401, code: 'INVALID_CREDENTIALS' });
+  });
+});
@@ -1,5 +1,43 @@
 import JSZip from 'jszip';
 import { supabase } from '../lib/supabase';
+import {
+  calculateRetention,
+  getRowTotals,
+  getRowVatBreakdown,
+  toRowTotalsSettings,
+  type QuoteTotalsRow,
+  type RowTotalsSettings,
+} from './quoteCalculations';
+import { getRetentionReceived } from './retention';
+import {
+  balanceSheetToCsv,
+  buildBalanceSheet,
+  buildCashFlowStatement,
+  cashFlowToCsv,
+  getStatementBalance,
+} from './financialStatements';
+import { accountSummariesToCsv, formatAccountLabel, summariseAccounts, type AccountRow } from './bankAccounts';
+import {
+  buildLedgerProfitAndLoss,
+  buildTrialBalance,
+  getNaturalBalance,
+  toLedgerAccount,
+  toLedgerAccountTotal,
+  trialBalanceToCsv,
+  type LedgerAccount,
+  type LedgerAccountTotal,
+} from './ledger';
+import { calculateMileageClaims, isCoveredByMileageAllowance, mileageToCsv, summariseMileage, toMileageTrip, toVehicle } from './mileage';
+import { formatVatBand } from './vatRates';
+import {
+  buildProfileFiles,
+  EXPORT_PROFILE_LABELS,
+  type ExportProfile,
+  type ProfileExportData,
+  type ProfileFile,
+  type ProfileSalesLine,
+} from './exportProfiles';
+import type { VatRateCode } from '../../types';
 
 // ============================================
 // Types
@@ -15,6 +53,8 @@ export interface ExportOptions {
   includeCustomers: boolean;
   includeQuotes: boolean;
   exportFormat: 'zip' | 'combined';
+  // Accounting package the files are laid out for; other profiles are always a ZIP
+  profile: ExportProfile;
   companyName?: string;
 }
 
@@ -23,9 +63,12 @@ export interface ExportProgress {
   percent: number;
 }
 
-interface InvoiceData {
+interface InvoiceData extends QuoteTotalsRow {
   id: string;
+  type: string;
+  parent_quote_id: string | null;
   date: string | null;
+  due_date: string | null;
   reference_number: number | null;
   title: string | null;
   customer_id: string | null;
@@ -47,6 +90,9 @@ interface ExpenseData {
   category: string | null;
   amount: number;
   vat_amount: number | null;
+  vat_rate: string | null;
+  is_reverse_charge: boolean | null;
+  vehicle_id: string | null;
   payment_method: string | null;
   is_reconciled: boolean | null;
   job_pack?: { id: string; title: string } | null;
@@ -62,6 +108,8 @@ interface BankTransactionData {
   is_reconciled: boolean | null;
   reconciled_expense_id: string | null;
   reconciled_invoice_id: string | null;
+  bank_account_id: string | null;
+  transfer_transaction_id: string | null;
 }
 
 interface PayableData {
@@ -76,6 +124,7 @@ interface PayableData {
   due_date: string | null;
   status: string | null;
   amount_paid: number | null;
+  is_reverse_charge: boolean | null;
 }
 
 interface CustomerData {
@@ -88,7 +137,7 @@ interface CustomerData {
   created_at: string | null;
 }
 
-interface QuoteData {
+interface QuoteData extends QuoteTotalsRow {
   id: string;
   date: string | null;
   reference_number: number | null;
@@ -130,25 +179,11 @@ const toCsvRow = (values: any[]): string => {
   return values.map(escapeCsvField).join(',');
 };
 
-const calculateInvoiceTotal = (invoice: InvoiceData): { net: number; vat: number; gross: number } => {
-  const sections = invoice.sections || [];
-  const labourRate = invoice.labour_rate || 65;
-  const taxPercent = invoice.tax_percent || 20;
-  const markupPercent = invoice.markup_percent || 0;
-
-  const materialsTotal = sections.reduce((sum: number, section: any) =>
-    sum + (section.items || []).reduce((itemSum: number, item: any) => itemSum + (item.totalPrice || 0), 0), 0);
-
-  const labourHoursTotal = sections.reduce((sum: number, section: any) => sum + (section.labourHours || 0), 0);
-  const labourTotal = labourHoursTotal * labourRate;
-
-  const subtotal = materialsTotal + labourTotal;
-  const markup = subtotal * (markupPercent / 100);
-  const net = subtotal + markup;
-  const vat = net * (taxPercent / 100);
-  const gross = net + vat;
-
-  return { net, vat, gross };
+// Net/VAT/gross from the document totals filled in when the rows were fetched
+const calculateInvoiceTotal = (invoice: QuoteTotalsRow): { net: number; vat: number; gross: number } => {
+  const net = Number(invoice.subtotal) || 0;
+  const vat = Number(invoice.vat) || 0;
+  return { net, vat, gross: net + vat };
 };
 
 // ============================================
@@ -188,17 +223,36 @@ export const formatTaxYearLabel = (startDate: Date, endDate: Date): string => {
 // Data Fetching Functions
 // ============================================
 
+// The user's settings for working out totals on documents saved before totals were stored
+async function fetchTotalsSettings(): Promise<RowTotalsSettings> {
+  const { data, error } = await supabase
+    .from('user_settings')
+    .select('enable_vat, enable_cis, default_labour_rate, default_display_options')
+    .maybeSingle();
+
+  if (error) throw error;
+  return toRowTotalsSettings(data);
+}
+
+// Fill in every row's totals so the exports read saved totals only
+async function withTotals<T extends QuoteTotalsRow>(rows: T[]): Promise<T[]> {
+  if (rows.length === 0) return rows;
+  const settings = await fetchTotalsSettings();
+  return rows.map(row => ({ ...row, ...getRowTotals(row, settings) }));
+}
+
+// Invoices and the credit notes issued against them (credit notes carry negative totals)
 async function fetchInvoices(startDate: Date, endDate: Date): Promise<InvoiceData[]> {
   const { data, error } = await supabase
     .from('quotes')
     .select('*, customer:customers(name)')
-    .eq('type', 'invoice')
+    .in('type', ['invoice', 'credit_note'])
     .gte('date', formatDate(startDate))
     .lte('date', formatDate(endDate))
     .order('date');
 
   if (error) throw error;
-  return data || [];
+  return withTotals(data || []);
 }
 
 async function fetchExpenses(startDate: Date, endDate: Date): Promise<ExpenseData[]> {
@@ -225,6 +279,28 @@ async function fetchBankTransactions(startDate: Date, endDate: Date): Promise<Ba
   return data || [];
 }
 
+async function fetchBankAccounts(): Promise<AccountRow[]> {
+  const { data, error } = await supabase
+    .from('bank_accounts')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []).map(a => ({ ...a, opening_balance: Number(a.opening_balance) || 0 }));
+}
+
+// Every bank line up to the date, for balances carried into the period
+async function fetchBankLinesTo(endDate: Date) {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('id, bank_account_id, transaction_date, description, amount, balance, is_reconciled, transfer_transaction_id')
+    .lte('transaction_date', formatDate(endDate))
+    .order('transaction_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
 async function fetchPayables(startDate: Date, endDate: Date): Promise<PayableData[]> {
   const { data, error } = await supabase
     .from('payables')
@@ -257,24 +333,143 @@ async function fetchQuotes(startDate: Date, endDate: Date): Promise<QuoteData[]>
     .order('date');
 
   if (error) throw error;
-  return data || [];
+  return withTotals(data || []);
+}
+
+// Chart of accounts plus per-account journal totals; omit startDate for balances brought forward
+async function fetchLedger(startDate: Date | null, endDate: Date): Promise<{ accounts: LedgerAccount[]; totals: LedgerAccountTotal[] }> {
+  const [accountsResult, totalsResult] = await Promise.all([
+    supabase.from('ledger_accounts').select('*').order('display_order'),
+    supabase.rpc('get_ledger_account_totals', {
+      p_from: startDate ? formatDate(startDate) : undefined,
+      p_to: formatDate(endDate),
+    }),
+  ]);
+
+  if (accountsResult.error) throw accountsResult.error;
+  if (totalsResult.error) throw totalsResult.error;
+  return {
+    accounts: (accountsResult.data || []).map(toLedgerAccount),
+    totals: (totalsResult.data || []).map(toLedgerAccountTotal),
+  };
+}
+
+// Closing balances on the latest statement line of each account up to the date
+async function fetchStatementBalance(endDate: Date): Promise<number | null> {
+  const { data, error } = await supabase
+    .from('bank_transactions')
+    .select('transaction_date, description, amount, balance, bank_account_id')
+    .lte('transaction_date', formatDate(endDate))
+    .not('balance', 'is', null)
+    .order('transaction_date')
+    .order('created_at');
+
+  if (error) throw error;
+  return getStatementBalance(data || [], formatDate(endDate));
+}
+
+// Retention still held by customers at the date, counting payments and credits made by then
+async function fetchRetentionsHeld(endDate: Date): Promise<number> {
+  const { data: invoices, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('type', 'invoice')
+    .gt('retention_percent', 0)
+    .not('status', 'in', '(draft,declined,void)')
+    .lte('date', formatDate(endDate));
+
+  if (error) throw error;
+  if (!invoices || invoices.length === 0) return 0;
+
+  const ids = invoices.map(inv => inv.id);
+  const [paymentsResult, creditsResult] = await Promise.all([
+    supabase.from('invoice_payments').select('invoice_id, amount').in('invoice_id', ids).lte('payment_date', formatDate(endDate)),
+    supabase.from('quotes').select('*').eq('type', 'credit_note').neq('status', 'draft').in('parent_quote_id', ids).lte('date', formatDate(endDate)),
+  ]);
+  if (paymentsResult.error) throw paymentsResult.error;
+  if (creditsResult.error) throw creditsResult.error;
+  const settings = await fetchTotalsSettings();
+
+  return invoices.reduce((sum, inv) => {
+    const { subtotal, total } = getRowTotals(inv, settings);
+    const retention = calculateRetention(subtotal, Number(inv.retention_percent));
+    const paid = (paymentsResult.data || [])
+      .filter(p => p.invoice_id === inv.id)
+      .reduce((s, p) => s + Number(p.amount), 0);
+    const credited = (creditsResult.data || [])
+      .filter(cn => cn.parent_quote_id === inv.id)
+      .reduce((s, cn) => s + Math.abs(getRowTotals(cn, settings).total), 0);
+    return sum + retention - getRetentionReceived(total, retention, paid, credited);
+  }, 0);
+}
+
+// Trips up to the end date priced at the mileage allowance rates, so the
+// 10,000 mile threshold counts miles from earlier in the tax year
+async function fetchMileage(endDate: Date) {
+  const [vehiclesResult, tripsResult, settingsResult, jobsResult] = await Promise.all([
+    supabase.from('vehicles').select('*'),
+    supabase.from('mileage_trips').select('*').lte('trip_date', formatDate(endDate)).order('trip_date'),
+    supabase.from('user_settings').select('tax_year_start_month, tax_year_start_day').maybeSingle(),
+    supabase.from('job_packs').select('id, title'),
+  ]);
+
+  if (vehiclesResult.error) throw vehiclesResult.error;
+  if (tripsResult.error) throw tripsResult.error;
+  if (settingsResult.error) throw settingsResult.error;
+  if (jobsResult.error) throw jobsResult.error;
+
+  const vehicles = (vehiclesResult.data || []).map(toVehicle);
+  const claims = calculateMileageClaims((tripsResult.data || []).map(toMileageTrip), vehicles, {
+    taxYearStartMonth: settingsResult.data?.tax_year_start_month || 4,
+    taxYearStartDay: settingsResult.data?.tax_year_start_day || 6,
+  });
+  return {
+    vehicles,
+    claims,
+    jobNames: new Map((jobsResult.data || []).map(job => [job.id, job.title] as [string, string])),
+  };
 }
 
 // ============================================
 // CSV Generation Functions
 // ============================================
 
+// Reference numbers of the invoices credited by these credit notes, including
+// invoices raised before the export period
+async function fetchCreditedInvoiceNumbers(invoices: InvoiceData[]): Promise<Map<string, number | null>> {
+  const numbers = new Map(invoices.map(inv => [inv.id, inv.reference_number] as [string, number | null]));
+  const missing = [...new Set(invoices
+    .filter(inv => inv.type === 'credit_note' && inv.parent_quote_id && !numbers.has(inv.parent_quote_id))
+    .map(inv => inv.parent_quote_id as string))];
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('quotes')
+      .select('id, reference_number')
+      .in('id', missing);
+    if (error) throw error;
+    (data || []).forEach(q => numbers.set(q.id, q.reference_number));
+  }
+
+  return numbers;
+}
+
+const formatSalesReference = (type: string, referenceNumber: number | null | undefined): string =>
+  referenceNumber ? `${type === 'credit_note' ? 'CN' : 'INV'}-${String(referenceNumber).padStart(4, '0')}` : '';
+
 export async function generateSalesCSV(startDate: Date, endDate: Date): Promise<string> {
   const invoices = await fetchInvoices(startDate, endDate);
+  const creditedInvoiceNumbers = await fetchCreditedInvoiceNumbers(invoices);
 
-  const headers = ['Date', 'Invoice Number', 'Customer', 'Description', 'Net Amount', 'VAT', 'Gross Amount', 'Status', 'Payment Date', 'Payment Method'];
+  const headers = ['Date', 'Invoice Number', 'Customer', 'Description', 'Net Amount', 'VAT', 'Gross Amount', 'Status', 'Payment Date', 'Payment Method', 'Document Type', 'Credits Invoice'];
   const rows = [toCsvRow(headers)];
 
   for (const inv of invoices) {
     const { net, vat, gross } = calculateInvoiceTotal(inv);
+    const isCreditNote = inv.type === 'credit_note';
     rows.push(toCsvRow([
       formatDate(inv.date),
-      inv.reference_number ? `INV-${String(inv.reference_number).padStart(4, '0')}` : '',
+      formatSalesReference(inv.type, inv.reference_number),
       inv.customer?.name || '',
       inv.title || '',
       net.toFixed(2),
@@ -282,7 +477,11 @@ export async function generateSalesCSV(startDate: Date, endDate: Date): Promise<
       gross.toFixed(2),
       inv.status || '',
       formatDate(inv.payment_date),
-      inv.payment_method || ''
+      inv.payment_method || '',
+      isCreditNote ? 'Credit Note' : 'Invoice',
+      isCreditNote && inv.parent_quote_id
+        ? formatSalesReference('invoice', creditedInvoiceNumbers.get(inv.parent_quote_id))
+        : ''
     ]));
   }
 
@@ -315,18 +514,24 @@ export async function generateExpensesCSV(startDate: Date, endDate: Date): Promi
 }
 
 export async function generateBankCSV(startDate: Date, endDate: Date): Promise<string> {
-  const transactions = await fetchBankTransactions(startDate, endDate);
+  const [transactions, accounts] = await Promise.all([
+    fetchBankTransactions(startDate, endDate),
+    fetchBankAccounts(),
+  ]);
+  const accountNames = new Map(accounts.map(a => [a.id, formatAccountLabel(a)]));
 
-  const headers = ['Date', 'Description', 'Amount', 'Balance', 'Type', 'Reconciled', 'Matched To'];
+  const headers = ['Date', 'Account', 'Description', 'Amount', 'Balance', 'Type', 'Reconciled', 'Matched To'];
   const rows = [toCsvRow(headers)];
 
   for (const tx of transactions) {
     let matchedTo = '';
-    if (tx.reconciled_expense_id) matchedTo = `EXP-${tx.reconciled_expense_id.slice(0, 8)}`;
+    if (tx.transfer_transaction_id) matchedTo = 'Transfer';
+    else if (tx.reconciled_expense_id) matchedTo = `EXP-${tx.reconciled_expense_id.slice(0, 8)}`;
     else if (tx.reconciled_invoice_id) matchedTo = `INV-${tx.reconciled_invoice_id.slice(0, 8)}`;
 
     rows.push(toCsvRow([
       formatDate(tx.transaction_date),
+      (tx.bank_account_id && accountNames.get(tx.bank_account_id)) || '',
       tx.description,
       tx.amount.toFixed(2),
       tx.balance?.toFixed(2) || '',
@@ -339,6 +544,12 @@ export async function generateBankCSV(startDate: Date, endDate: Date): Promise<s
   return rows.join('\n');
 }
 
+// Opening balance, money in and out, transfers and closing balance per bank account
+export async function generateBankAccountsCSV(startDate: Date, endDate: Date): Promise<string> {
+  const [accounts, lines] = await Promise.all([fetchBankAccounts(), fetchBankLinesTo(endDate)]);
+  return accountSummariesToCsv(summariseAccounts(accounts, lines, formatDate(startDate)));
+}
+
 export async function generatePayablesCSV(startDate: Date, endDate: Date): Promise<string> {
   const payables = await fetchPayables(startDate, endDate);
 
@@ -408,13 +619,44 @@ export async function generateQuotesCSV(startDate: Date, endDate: Date): Promise
   return rows.join('\n');
 }
 
+// Trial balance at the end of the period, from the general ledger
+export async function generateTrialBalanceCSV(endDate: Date): Promise<string> {
+  const { accounts, totals } = await fetchLedger(null, endDate);
+  return trialBalanceToCsv(buildTrialBalance(accounts, totals));
+}
+
+// Balance sheet at the end of the period
+export async function generateBalanceSheetCSV(endDate: Date): Promise<string> {
+  const [{ accounts, totals }, bankBalance, retentionsHeld] = await Promise.all([
+    fetchLedger(null, endDate),
+    fetchStatementBalance(endDate),
+    fetchRetentionsHeld(endDate),
+  ]);
+  return balanceSheetToCsv(buildBalanceSheet({ asOf: formatDate(endDate), accounts, totals, bankBalance, retentionsHeld }));
+}
+
+// Cash-flow statement over the period's bank lines
+export async function generateCashFlowCSV(startDate: Date, endDate: Date): Promise<string> {
+  const transactions = await fetchBankTransactions(startDate, endDate);
+  return cashFlowToCsv(buildCashFlowStatement(transactions, formatDate(startDate), formatDate(endDate)));
+}
+
+// Mileage log for the period at the approved mileage rates
+export async function generateMileageCSV(startDate: Date, endDate: Date): Promise<string> {
+  const { vehicles, claims, jobNames } = await fetchMileage(endDate);
+  const from = formatDate(startDate);
+  return mileageToCsv(claims.filter(c => c.trip.date >= from), vehicles, jobNames);
+}
+
 export async function generateSummaryCSV(startDate: Date, endDate: Date): Promise<string> {
   // Fetch all data for summary
-  const [invoices, expenses, bankTransactions, payables] = await Promise.all([
+  const [invoices, expenses, bankTransactions, payables, ledger, mileageData] = await Promise.all([
     fetchInvoices(startDate, endDate),
     fetchExpenses(startDate, endDate),
     fetchBankTransactions(startDate, endDate),
-    fetchPayables(startDate, endDate)
+    fetchPayables(startDate, endDate),
+    fetchLedger(startDate, endDate),
+    fetchMileage(endDate)
   ]);
 
   // Calculate totals
@@ -436,8 +678,9 @@ export async function generateSummaryCSV(startDate: Date, endDate: Date): Promis
     };
   }, { gross: 0, vat: 0, net: 0 });
 
-  const paidInvoices = invoices.filter(i => i.status === 'paid');
-  const outstandingInvoices = invoices.filter(i => i.status !== 'paid');
+  const creditNotes = invoices.filter(i => i.type === 'credit_note');
+  const paidInvoices = invoices.filter(i => i.type === 'invoice' && i.status === 'paid');
+  const outstandingInvoices = invoices.filter(i => i.type === 'invoice' && i.status !== 'paid' && i.status !== 'void');
   const outstandingTotal = outstandingInvoices.reduce((sum, inv) => {
     const { gross } = calculateInvoiceTotal(inv);
     return sum + gross;
@@ -446,8 +689,21 @@ export async function generateSummaryCSV(startDate: Date, endDate: Date): Promis
   const unpaidPayables = payables.filter(p => p.status !== 'paid');
   const unpaidPayablesTotal = unpaidPayables.reduce((sum, p) => sum + (p.amount - (p.amount_paid || 0)), 0);
 
+  const mileage = summariseMileage(mileageData.claims, formatDate(startDate), formatDate(endDate));
+
+  // Fuel and running costs of vehicles on simplified mileage are covered by the allowance
+  const coveredByAllowance = expenses
+    .filter(exp => isCoveredByMileageAllowance(exp, mileageData.vehicles))
+    .reduce((sum, exp) => sum + exp.amount - (exp.vat_amount || 0), 0);
+
   const vatLiability = salesTotals.vat - expenseTotals.vat;
-  const netProfit = salesTotals.net - expenseTotals.net;
+  const netProfit = salesTotals.net - (expenseTotals.net - coveredByAllowance) - mileage.allowance;
+
+  // Ledger figures include bills, CIS and reverse charge, so they tie to the trial balance
+  const ledgerPnl = buildLedgerProfitAndLoss(ledger.accounts, ledger.totals);
+  const vatControl = ledger.totals
+    .filter(t => t.accountCode === '2200' || t.accountCode === '2201')
+    .reduce((sum, t) => sum + getNaturalBalance('liability', t), 0);
 
   const rows = [
     'Report Type,TradeSync Accountant Export',
@@ -462,11 +718,20 @@ export async function generateSummaryCSV(startDate: Date, endDate: Date): Promis
     `Total Expenses (Net),${expenseTotals.net.toFixed(2)}`,
     `Total Expenses VAT (Input),${expenseTotals.vat.toFixed(2)}`,
     `VAT Liability (Output - Input),${vatLiability.toFixed(2)}`,
+    `Business Miles,${mileage.miles}`,
+    `Mileage Allowance,${mileage.allowance.toFixed(2)}`,
     `Net Profit,${netProfit.toFixed(2)}`,
     '',
+    'General Ledger',
+    `Ledger Income,${ledgerPnl.totalIncome.toFixed(2)}`,
+    `Ledger Expenses,${ledgerPnl.totalExpenses.toFixed(2)}`,
+    `Ledger Net Profit,${ledgerPnl.netProfit.toFixed(2)}`,
+    `Ledger VAT Movement (Sales - Purchases),${vatControl.toFixed(2)}`,
+    '',
     'Record Counts',
-    `Invoices,${invoices.length}`,
+    `Invoices,${invoices.length - creditNotes.length}`,
     `Paid Invoices,${paidInvoices.length}`,
+    `Credit Notes,${creditNotes.length}`,
     `Expenses,${expenses.length}`,
     `Bank Transactions,${bankTransactions.length}`,
     `Outstanding Receivables,${outstandingInvoices.length}`,
@@ -492,22 +757,28 @@ ${options.companyName ? `Company: ${options.companyName}` : ''}
 
 File Contents
 -------------
-${options.includeSales ? '- sales_invoices.csv: All invoices for the period\n' : ''}${options.includeExpenses ? '- expenses.csv: All business expenses for the period\n' : ''}${options.includeBankTransactions ? '- bank_transactions.csv: All bank transactions for the period\n' : ''}${options.includePayables ? '- payables.csv: Bills and supplier invoices\n' : ''}${options.includeCustomers ? '- customers.csv: Customer directory\n' : ''}${options.includeQuotes ? '- quotes.csv: Quotes and estimates for the period\n' : ''}- summary.csv: Financial summary and record counts
+${options.includeSales ? '- sales_invoices.csv: All invoices and credit notes for the period\n' : ''}${options.includeExpenses ? '- expenses.csv: All business expenses for the period\n' : ''}${options.includeBankTransactions ? '- bank_transactions.csv: All bank transactions for the period\n- bank_accounts.csv: Opening and closing balance of each bank account for the period\n' : ''}${options.includePayables ? '- payables.csv: Bills and supplier invoices\n' : ''}${options.includeCustomers ? '- customers.csv: Customer directory\n' : ''}${options.includeQuotes ? '- quotes.csv: Quotes and estimates for the period\n' : ''}- summary.csv: Financial summary and record counts
+- trial_balance.csv: General ledger balances at the end of the period
+- balance_sheet.csv: Assets, liabilities and capital at the end of the period
+- cash_flow.csv: Bank receipts and payments for the period by operating, investing and financing activity
+- mileage.csv: Business trips for the period with the mileage allowance claimed
 
 Column Definitions
 ------------------
 
 SALES/INVOICES:
 - Date: Invoice date (YYYY-MM-DD)
-- Invoice Number: Unique reference (INV-xxxx)
+- Invoice Number: Unique reference (INV-xxxx, or CN-xxxx for credit notes)
 - Customer: Customer name
 - Description: Invoice title/description
 - Net Amount: Total before VAT
 - VAT: Value Added Tax amount
 - Gross Amount: Total including VAT
-- Status: draft/sent/accepted/paid
+- Status: draft/sent/accepted/part_paid/paid/void
 - Payment Date: When payment was received
 - Payment Method: cash/card/bank_transfer/cheque
+- Document Type: Invoice or Credit Note (credit note amounts are negative)
+- Credits Invoice: For credit notes, the invoice being credited
 
 EXPENSES:
 - Date: Expense date (YYYY-MM-DD)
@@ -523,12 +794,13 @@ EXPENSES:
 
 BANK TRANSACTIONS:
 - Date: Transaction date (YYYY-MM-DD)
+- Account: Bank account or card the line was imported into
 - Description: Bank statement description
 - Amount: Transaction amount (negative for debits)
 - Balance: Account balance after transaction
 - Type: credit/debit
 - Reconciled: Whether matched to expense/invoice
-- Matched To: Reference to matched record
+- Matched To: Reference to matched record, or Transfer for money moved between your own accounts
 
 PAYABLES (Bills):
 - Date: Invoice/bill date
@@ -542,6 +814,36 @@ PAYABLES (Bills):
 - Status: unpaid/partial/paid/overdue
 - Amount Paid: Payments made so far
 
+TRIAL BALANCE:
+- Account Code: Chart of accounts code
+- Account: Account name
+- Type: asset/liability/equity/income/expense
+- Debit: Net debit balance
+- Credit: Net credit balance
+- Summary "General Ledger" figures come from the same journals for the period
+
+BALANCE SHEET:
+- Bank: Closing balances on the last imported statement line of each account, added together (ledger bank if none)
+- Retentions held by customers: Retention not yet released, split out of trade debtors
+- Owner's capital and drawings: Balancing figure for opening balances, capital introduced and drawings
+
+CASH FLOW:
+- Lines matched to invoices or expenses are operating activities
+- Other lines are classified by their statement description (HMRC, loans, drawings, equipment purchases)
+- Transfers between your own accounts are left out
+
+BANK ACCOUNTS:
+- Opening Balance: Balance at the start of the period, from the account's opening balance plus earlier lines
+- Money In / Money Out: Receipts and payments for the period, not counting transfers
+- Transfers In / Transfers Out: Money moved between your own accounts
+- Closing Balance: Opening balance plus the period's lines
+- Statement Balance: Running balance on the latest imported line, when the bank gives one
+
+MILEAGE:
+- Miles at First Rate: Car and van miles at 45p up to 10,000 in the tax year, or motorcycle (24p) and bicycle (20p) miles
+- Miles at 25p: Car and van miles over 10,000 in the tax year
+- Allowance: Claimed in the summary's Net Profit instead of vehicle running costs
+
 Notes
 -----
 - All amounts are in GBP
@@ -567,6 +869,22 @@ async function generateCombinedCSV(options: ExportOptions): Promise<string> {
   sections.push(await generateSummaryCSV(options.startDate, options.endDate));
   sections.push('');
 
+  sections.push('=== TRIAL BALANCE ===');
+  sections.push(await generateTrialBalanceCSV(options.endDate));
+  sections.push('');
+
+  sections.push('=== BALANCE SHEET ===');
+  sections.push(await generateBalanceSheetCSV(options.endDate));
+  sections.push('');
+
+  sections.push('=== CASH FLOW ===');
+  sections.push(await generateCashFlowCSV(options.startDate, options.endDate));
+  sections.push('');
+
+  sections.push('=== MILEAGE ===');
+  sections.push(await generateMileageCSV(options.startDate, options.endDate));
+  sections.push('');
+
   if (options.includeSales) {
     sections.push('=== SALES/INVOICES ===');
     sections.push(await generateSalesCSV(options.startDate, options.endDate));
@@ -583,6 +901,9 @@ async function generateCombinedCSV(options: ExportOptions): Promise<string> {
     sections.push('=== BANK TRANSACTIONS ===');
     sections.push(await generateBankCSV(options.startDate, options.endDate));
     sections.push('');
+    sections.push('=== BANK ACCOUNTS ===');
+    sections.push(await generateBankAccountsCSV(options.startDate, options.endDate));
+    sections.push('');
   }
 
   if (options.includePayables) {
@@ -606,6 +927,143 @@ async function generateCombinedCSV(options: ExportOptions): Promise<string> {
   return sections.join('\n');
 }
 
+// ============================================
+// Accounting Package Profiles
+// ============================================
+
+// One line per VAT rate; a document with no VAT charged has a single line and no rate
+function toProfileSalesLines(invoice: InvoiceData, description: string, settings: RowTotalsSettings): ProfileSalesLine[] {
+  const { net, vat } = calculateInvoiceTotal(invoice);
+  const bands = getRowVatBreakdown(invoice, settings);
+  const noVat = vat === 0 && bands.every(b => b.code === 'standard');
+
+  if (bands.length <= 1 || noVat) {
+    return [{ description, net, vat, vatRate: noVat ? undefined : bands[0]?.code }];
+  }
+  return bands.map(band => ({
+    description: `${description} (${formatVatBand(band)})`,
+    net: band.net,
+    vat: band.vat,
+    vatRate: band.code,
+  }));
+}
+
+async function fetchProfileData(options: ExportOptions): Promise<ProfileExportData> {
+  const { startDate, endDate } = options;
+  const [invoices, expenses, payables, bankTransactions, customers, bankAccounts, totalsSettings] = await Promise.all([
+    options.includeSales ? fetchInvoices(startDate, endDate) : Promise.resolve([]),
+    options.includeExpenses ? fetchExpenses(startDate, endDate) : Promise.resolve([]),
+    options.includePayables ? fetchPayables(startDate, endDate) : Promise.resolve([]),
+    options.includeBankTransactions ? fetchBankTransactions(startDate, endDate) : Promise.resolve([]),
+    options.includeCustomers ? fetchCustomers() : Promise.resolve([]),
+    options.includeBankTransactions ? fetchBankAccounts() : Promise.resolve([]),
+    fetchTotalsSettings(),
+  ]);
+  const accountNames = new Map(bankAccounts.map(a => [a.id, a.name]));
+  const creditedInvoiceNumbers = await fetchCreditedInvoiceNumbers(invoices);
+
+  const sales = invoices
+    .filter(inv => inv.status !== 'draft')
+    .map(inv => {
+      const number = formatSalesReference(inv.type, inv.reference_number) || inv.id.slice(0, 8);
+      const isCreditNote = inv.type === 'credit_note';
+      return {
+        number,
+        type: isCreditNote ? 'credit_note' as const : 'invoice' as const,
+        date: formatDate(inv.date),
+        dueDate: formatDate(inv.due_date || inv.date),
+        contactName: inv.customer?.name || 'Unknown Customer',
+        reference: isCreditNote && inv.parent_quote_id
+          ? formatSalesReference('invoice', creditedInvoiceNumbers.get(inv.parent_quote_id)) || undefined
+          : undefined,
+        reverseCharge: !!inv.reverse_charge,
+        lines: toProfileSalesLines(inv, inv.title || number, totalsSettings),
+      };
+    });
+
+  const purchaseVatRate = (rate: string | null, vat: number): VatRateCode | undefined =>
+    (rate as VatRateCode | null) || (vat > 0 ? 'standard' : undefined);
+
+  const purchases = [
+    ...payables.map(pay => {
+      const vat = pay.vat_amount || 0;
+      return {
+        kind: 'bill' as const,
+        number: pay.invoice_number || undefined,
+        date: formatDate(pay.invoice_date),
+        dueDate: formatDate(pay.due_date || pay.invoice_date),
+        supplier: pay.vendor_name,
+        description: pay.description || pay.category || pay.vendor_name,
+        category: pay.category || undefined,
+        net: pay.amount - vat,
+        vat,
+        vatRate: purchaseVatRate(null, vat),
+        reverseCharge: !!pay.is_reverse_charge,
+      };
+    }),
+    ...expenses.map(exp => {
+      const vat = exp.vat_amount || 0;
+      return {
+        kind: 'expense' as const,
+        date: formatDate(exp.expense_date),
+        dueDate: formatDate(exp.expense_date),
+        supplier: exp.vendor,
+        description: exp.description || exp.category || exp.vendor,
+        category: exp.category || undefined,
+        net: exp.amount - vat,
+        vat,
+        vatRate: purchaseVatRate(exp.vat_rate, vat),
+        reverseCharge: !!exp.is_reverse_charge,
+        paidInCash: exp.payment_method === 'cash',
+      };
+    }),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    sales,
+    purchases,
+    bankTransactions: bankTransactions.map(t => ({
+      date: formatDate(t.transaction_date),
+      description: t.description,
+      amount: t.amount,
+      account: (t.bank_account_id && accountNames.get(t.bank_account_id)) || undefined,
+    })),
+    contacts: customers.map(c => ({
+      name: c.name,
+      email: c.email || undefined,
+      phone: c.phone || undefined,
+      address: c.address || undefined,
+    })),
+  };
+}
+
+function generateProfileReadme(options: ExportOptions, files: ProfileFile[]): string {
+  const packageName = EXPORT_PROFILE_LABELS[options.profile];
+
+  return `TradeSync Export for ${packageName}
+${'='.repeat(21 + packageName.length)}
+
+Generated: ${formatDateTime(new Date())}
+Period: ${formatDate(options.startDate)} to ${formatDate(options.endDate)}
+${options.companyName ? `Company: ${options.companyName}` : ''}
+
+Files
+-----
+${files.map(f => `- ${f.name}`).join('\n') || '- Nothing to export for this period'}
+
+Notes
+-----
+- Files follow ${packageName}'s own import templates, with UK dates (DD/MM/YYYY)
+- Draft invoices are left out; credit notes have negative amounts
+- Expenses are exported alongside bills from the payables ledger
+- Account codes assume ${packageName}'s default UK chart of accounts:
+  check the mapping before importing if your chart has been changed
+- VAT rates are mapped to ${packageName}'s standard UK tax codes
+
+Generated by TradeSync (https://tradesync.app)
+`;
+}
+
 // ============================================
 // Main Export Function
 // ============================================
@@ -625,6 +1083,19 @@ export async function generateExportBundle(
 
   const dateRange = `${formatDate(options.startDate)}_to_${formatDate(options.endDate)}`;
 
+  if (options.profile !== 'tradesync') {
+    reportProgress(`Preparing ${EXPORT_PROFILE_LABELS[options.profile]} files...`, 10);
+    const files = buildProfileFiles(options.profile, await fetchProfileData(options));
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.name, file.content));
+    zip.file('README.txt', generateProfileReadme(options, files));
+
+    reportProgress('Creating ZIP archive...', 90);
+    const zipBlob = await zip.generateAsync({ type: 'blob' });
+    reportProgress('Complete', 100);
+    return zipBlob;
+  }
+
   if (options.exportFormat === 'combined') {
     reportProgress('Generating combined CSV...', 10);
     const combinedCsv = await generateCombinedCSV(options);
@@ -644,6 +1115,10 @@ export async function generateExportBundle(
     options.includeCustomers,
     options.includeQuotes,
     true, // summary
+    true, // trial balance
+    true, // balance sheet
+    true, // cash flow
+    true, // mileage
     true  // readme
   ].filter(Boolean).length;
 
@@ -668,6 +1143,7 @@ export async function generateExportBundle(
     reportProgress('Generating bank transactions...', Math.round(progressStep * stepPercent));
     const bankCsv = await generateBankCSV(options.startDate, options.endDate);
     zip.file('bank_transactions.csv', bankCsv);
+    zip.file('bank_accounts.csv', await generateBankAccountsCSV(options.startDate, options.endDate));
     progressStep++;
   }
 
@@ -698,6 +1174,26 @@ export async function generateExportBundle(
   zip.file('summary.csv', summaryCsv);
   progressStep++;
 
+  reportProgress('Generating trial balance...', Math.round(progressStep * stepPercent));
+  const trialBalanceCsv = await generateTrialBalanceCSV(options.endDate);
+  zip.file('trial_balance.csv', trialBalanceCsv);
+  progressStep++;
+
+  reportProgress('Generating balance sheet...', Math.round(progressStep * stepPercent));
+  const balanceSheetCsv = await generateBalanceSheetCSV(options.endDate);
+  zip.file('balance_sheet.csv', balanceSheetCsv);
+  progressStep++;
+
+  reportProgress('Generating cash flow...', Math.round(progressStep * stepPercent));
+  const cashFlowCsv = await generateCashFlowCSV(options.startDate, options.endDate);
+  zip.file('cash_flow.csv', cashFlowCsv);
+  progressStep++;
+
+  reportProgress('Generating mileage log...', Math.round(progressStep * stepPercent));
+  const mileageCsv = await generateMileageCSV(options.startDate, options.endDate);
+  zip.file('mileage.csv', mileageCsv);
+  progressStep++;
+
   // Add README
   reportProgress('Creating README...', Math.round(progressStep * stepPercent));
   const readme = generateReadme(options);
@@ -722,9 +1218,11 @@ export function generateExportFilename(options: ExportOptions): string {
     .slice(0, 30);
 
   const dateRange = `${formatDate(options.startDate)}_to_${formatDate(options.endDate)}`;
-  const extension = options.exportFormat === 'zip' ? 'zip' : 'csv';
+  const isPackage = options.profile !== 'tradesync';
+  const extension = options.exportFormat === 'zip' || isPackage ? 'zip' : 'csv';
+  const exportName = isPackage ? `${EXPORT_PROFILE_LABELS[options.profile]}_Export` : 'Export';
 
-  return `TradeSync_Export_${companySlug}_${dateRange}.${extension}`;
+  return `TradeSync_${exportName}_${companySlug}_${dateRange}.${extension}`;
 }
 
 // ============================================
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  accountSummariesToCsv,
+  findAccountByNumber,
+  findTransferPairs,
+  formatAccountLabel,
+  summariseAccounts,
+  type AccountLine,
+  type AccountRow,
+} from './bankAccounts';
+
+const accounts: AccountRow[] = [
+  { id: 'current', name: 'Business Current', account_last_four: '5678', opening_balance: 1000, opening_balance_date: '2026-04-01' },
+  { id: 'savings', name: 'Tax Pot', account_last_four: null, opening_balance: 0 },
+  { id: 'card', name: 'Amex', account_last_four: '4321', opening_balance: -50 },
+];
+
+const line = (overrides: Partial<AccountLine>): AccountLine => ({
+  id: 'tx',
+  bank_account_id: 'current',
+  transaction_date: '2026-04-05',
+  description: 'LINE',
+  amount: 0,
+  is_reconciled: false,
+  ...overrides,
+});
+
+describe('account labels and numbers', () => {
+  it('shows the last four digits when there are some', () => {
+    expect(formatAccountLabel(accounts[0])).toBe('Business Current (…5678)');
+    expect(formatAccountLabel(accounts[1])).toBe('Tax Pot');
+  });
+
+  it('finds the account a statement belongs to', () => {
+    expect(findAccountByNumber(accounts, '20325312345678')?.id).toBe('current');
+    expect(findAccountByNumber(accounts, 'XXXXXXXXXXXX4321')?.id).toBe('card');
+    expect(findAccountByNumber(accounts, '99999999')).toBeNull();
+    expect(findAccountByNumber(accounts, undefined)).toBeNull();
+  });
+});
+
+describe('findTransferPairs', () => {
+  it('pairs money out of one account with the same amount into another', () => {
+    const pairs = findTransferPairs([
+      line({ id: 'out', description: 'TO TAX POT', amount: -500, transaction_date: '2026-04-05' }),
+      line({ id: 'in', bank_account_id: 'savings', description: 'FROM BUSINESS CURRENT', amount: 500, transaction_date: '2026-04-06' }),
+      line({ id: 'sale', description: 'SMITH J', amount: 500, transaction_date: '2026-04-05' }),
+    ], accounts);
+
+    expect(pairs).toEqual([{ outId: 'out', inId: 'in', amount: 500, days: 1, confidence: 'high' }]);
+  });
+
+  it('prefers the pair that says it is a transfer, then the closest date', () => {
+    const pairs = findTransferPairs([
+      line({ id: 'card-payment', description: 'AMEX 4321', amount: -200, transaction_date: '2026-04-10' }),
+      line({ id: 'refund', bank_account_id: 'savings', description: 'INTEREST', amount: 200, transaction_date: '2026-04-10' }),
+      line({ id: 'card-in', bank_account_id: 'card', description: 'PAYMENT RECEIVED', amount: 200, transaction_date: '2026-04-12' }),
+    ], accounts);
+
+    expect(pairs.map(p => [p.outId, p.inId, p.confidence])).toEqual([['card-payment', 'card-in', 'high']]);
+  });
+
+  it('ignores reconciled lines, lines in the same account and lines too far apart', () => {
+    expect(findTransferPairs([
+      line({ id: 'a', amount: -100 }),
+      line({ id: 'b', amount: 100 }),
+      line({ id: 'c', bank_account_id: 'savings', amount: 100, is_reconciled: true }),
+      line({ id: 'd', bank_account_id: 'savings', amount: 100, transaction_date: '2026-04-20' }),
+    ])).toEqual([]);
+  });
+});
+
+describe('summariseAccounts', () => {
+  it('splits money in, money out and transfers per account', () => {
+    const summaries = summariseAccounts(accounts, [
+      line({ id: 'old', amount: 999, transaction_date: '2026-03-31' }),
+      line({ id: 'sale', amount: 1200, balance: 2200, is_reconciled: true }),
+      line({ id: 'fuel', amount: -60, balance: 2140 }),
+      line({ id: 'out', amount: -500, balance: 1640, transfer_transaction_id: 'in', is_reconciled: true }),
+      line({ id: 'in', bank_account_id: 'savings', amount: 500, transfer_transaction_id: 'out', is_reconciled: true }),
+      line({ id: 'loose', bank_account_id: null, amount: -10 }),
+    ]);
+
+    expect(summaries.map(s => s.name)).toEqual(['Business Current (…5678)', 'Tax Pot', 'Amex (…4321)', 'Unassigned']);
+    expect(summaries[0]).toMatchObject({
+      openingBalance: 1000, moneyIn: 1200, moneyOut: 60, transfersIn: 0, transfersOut: 500,
+      closingBalance: 1640, statementBalance: 1640, lineCount: 3, unreconciledCount: 1,
+    });
+    expect(summaries[1]).toMatchObject({ transfersIn: 500, closingBalance: 500, statementBalance: null });
+    expect(summaries[2]).toMatchObject({ closingBalance: -50, lineCount: 0 });
+    expect(summaries[3]).toMatchObject({ accountId: null, moneyOut: 10, closingBalance: -10 });
+  });
+
+  it('rolls lines before the period into the opening balance', () => {
+    const [current] = summariseAccounts(accounts, [
+      line({ id: 'march', amount: 200, transaction_date: '2026-04-02' }),
+      line({ id: 'may', amount: -75, transaction_date: '2026-05-03', is_reconciled: true }),
+    ], '2026-05-01');
+
+    expect(current).toMatchObject({ openingBalance: 1200, moneyIn: 0, moneyOut: 75, closingBalance: 1125, lineCount: 1, unreconciledCount: 0 });
+    expect(accountSummariesToCsv([current]).split('\n')[1])
+      .toBe('Business Current (…5678),1200.00,0.00,75.00,0.00,0.00,1125.00,,1,0');
+  });
+});
@@ -0,0 +1,231 @@
+import type { BankAccountType } from '../../types';
+import { getStatementBalance } from './financialStatements';
+
+/**
+ * Bank accounts: balances per account and transfers between them.
+ *
+ * Each account starts from its opening balance and adds the lines imported
+ * into it. Money moved between the user's own accounts (current account to
+ * savings pot, paying off the credit card) shows as a line out of one and
+ * the same amount into another a day or two later; those pairs are found
+ * here so they can be linked and kept out of income and spending.
+ */
+
+export const BANK_ACCOUNT_TYPES: BankAccountType[] = ['current', 'savings', 'credit_card', 'other'];
+
+export const BANK_ACCOUNT_TYPE_LABELS: Record<BankAccountType, string> = {
+  current: 'Current account',
+  savings: 'Savings',
+  credit_card: 'Credit card',
+  other: 'Other',
+};
+
+/**
+ * The bank_accounts columns the summaries need.
+ */
+export interface AccountRow {
+  id: string;
+  name: string;
+  account_type?: string | null;
+  account_last_four?: string | null;
+  opening_balance: number;
+  opening_balance_date?: string | null;
+}
+
+/**
+ * The bank_transactions columns the summaries need.
+ */
+export interface AccountLine {
+  id: string;
+  bank_account_id?: string | null;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  balance?: number | null;
+  is_reconciled?: boolean | null;
+  transfer_transaction_id?: string | null;
+}
+
+export interface AccountSummary {
+  // Null for lines imported before they had an account
+  accountId: string | null;
+  name: string;
+  openingBalance: number;
+  moneyIn: number;
+  moneyOut: number;
+  transfersIn: number;
+  transfersOut: number;
+  // Opening balance plus every line
+  closingBalance: number;
+  // Running balance on the latest line, when the statement gives one
+  statementBalance: number | null;
+  lineCount: number;
+  unreconciledCount: number;
+}
+
+export interface TransferPair {
+  outId: string;
+  inId: string;
+  amount: number;
+  days: number;
+  // High when a description says it's a transfer or names the other account
+  confidence: 'high' | 'medium';
+}
+
+// Days between the two sides of a transfer
+export const TRANSFER_WINDOW_DAYS = 3;
+
+const TRANSFER_PATTERN = /\b(transfer|trf|tfr|xfer|to savings|from savings|savings|pot|own account|credit card|card payment received|payment received|payment thank you)\b/i;
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+/**
+ * Account name with its last four digits, e.g. "Business Current (…1234)".
+ */
+export function formatAccountLabel(account: Pick<AccountRow, 'name' | 'account_last_four'>): string {
+  return account.account_last_four ? `${account.name} (…${account.account_last_four})` : account.name;
+}
+
+/**
+ * The account a statement belongs to, from the account or card number in the file.
+ */
+export function findAccountByNumber<T extends Pick<AccountRow, 'account_last_four'>>(accounts: T[], accountNumber?: string): T | null {
+  const lastFour = accountNumber?.replace(/\D/g, '').slice(-4);
+  if (!lastFour || lastFour.length < 4) return null;
+  return accounts.find(account => account.account_last_four === lastFour) || null;
+}
+
+const mentionsAccount = (description: string, account?: Pick<AccountRow, 'name' | 'account_last_four'>): boolean => {
+  if (!account) return false;
+  const text = description.toUpperCase();
+  return (!!account.account_last_four && text.includes(account.account_last_four))
+    || (account.name.length >= 4 && text.includes(account.name.toUpperCase()));
+};
+
+/**
+ * Likely transfers between the user's own accounts: money out of one and
+ * the same amount into another within a few days. Closest dates are paired
+ * first and each line is used once. Reconciled lines and lines without an
+ * account are left alone.
+ */
+export function findTransferPairs(
+  lines: AccountLine[],
+  accounts: Pick<AccountRow, 'id' | 'name' | 'account_last_four'>[] = [],
+  windowDays = TRANSFER_WINDOW_DAYS
+): TransferPair[] {
+  const open = lines.filter(line => line.bank_account_id && !line.is_reconciled && !line.transfer_transaction_id);
+  const accountById = new Map(accounts.map(account => [account.id, account]));
+
+  const candidates: (TransferPair & { rank: number })[] = [];
+  open.filter(line => line.amount < 0).forEach(out => {
+    open.forEach(into => {
+      if (into.bank_account_id === out.bank_account_id || Math.abs(into.amount + out.amount) >= 0.005) return;
+      const days = daysBetween(out.transaction_date, into.transaction_date);
+      if (Math.abs(days) > windowDays) return;
+
+      const described = TRANSFER_PATTERN.test(out.description) || TRANSFER_PATTERN.test(into.description)
+        || mentionsAccount(out.description, accountById.get(into.bank_account_id!))
+        || mentionsAccount(into.description, accountById.get(out.bank_account_id!));
+
+      candidates.push({
+        outId: out.id,
+        inId: into.id,
+        amount: roundCurrency(into.amount),
+        days: Math.abs(days),
+        confidence: described ? 'high' : 'medium',
+        rank: Math.abs(days) - (described ? windowDays + 1 : 0),
+      });
+    });
+  });
+
+  const used = new Set<string>();
+  return candidates
+    .sort((a, b) => a.rank - b.rank)
+    .filter(pair => {
+      if (used.has(pair.outId) || used.has(pair.inId)) return false;
+      used.add(pair.outId);
+      used.add(pair.inId);
+      return true;
+    })
+    .map(({ rank: _rank, ...pair }) => pair);
+}
+
+/**
+ * Money in, money out, transfers and balance for each account, in the
+ * order the accounts are given. Lines with no account are gathered under
+ * "Unassigned" at the end. Lines dated before an account's opening balance
+ * date are already counted in it. With a from date, earlier lines roll into
+ * the opening balance and only the rest count as money in and out.
+ */
+export function summariseAccounts(accounts: AccountRow[], lines: AccountLine[], from?: string): AccountSummary[] {
+  const known = new Set(accounts.map(account => account.id));
+  const groups: { accountId: string | null; name: string; opening: number; from?: string | null }[] = accounts.map(account => ({
+    accountId: account.id,
+    name: formatAccountLabel(account),
+    opening: Number(account.opening_balance) || 0,
+    from: account.opening_balance_date,
+  }));
+  if (lines.some(line => !line.bank_account_id || !known.has(line.bank_account_id))) {
+    groups.push({ accountId: null, name: 'Unassigned', opening: 0 });
+  }
+
+  return groups.map(group => {
+    const accountLines = lines.filter(line =>
+      (group.accountId ? line.bank_account_id === group.accountId : !line.bank_account_id || !known.has(line.bank_account_id))
+      && (!group.from || line.transaction_date >= group.from)
+    );
+
+    const periodLines = from ? accountLines.filter(line => line.transaction_date >= from) : accountLines;
+    const openingBalance = roundCurrency(accountLines
+      .filter(line => !periodLines.includes(line))
+      .reduce((total, line) => total + line.amount, group.opening));
+
+    const sum = (filter: (line: AccountLine) => boolean) =>
+      roundCurrency(periodLines.filter(filter).reduce((total, line) => total + Math.abs(line.amount), 0));
+
+    return {
+      accountId: group.accountId,
+      name: group.name,
+      openingBalance,
+      moneyIn: sum(line => line.amount > 0 && !line.transfer_transaction_id),
+      moneyOut: sum(line => line.amount < 0 && !line.transfer_transaction_id),
+      transfersIn: sum(line => line.amount > 0 && !!line.transfer_transaction_id),
+      transfersOut: sum(line => line.amount < 0 && !!line.transfer_transaction_id),
+      closingBalance: roundCurrency(periodLines.reduce((total, line) => total + line.amount, openingBalance)),
+      statementBalance: getStatementBalance(accountLines, '9999-12-31'),
+      lineCount: periodLines.length,
+      unreconciledCount: periodLines.filter(line => !line.is_reconciled).length,
+    };
+  });
+}
+
+const escapeCsvField = (value: string | number): string => {
+  const str = String(value);
+  return /[",\n]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+};
+
+/**
+ * Account balances as CSV for the accountant, one row per account.
+ */
+export function accountSummariesToCsv(summaries: AccountSummary[]): string {
+  return [
+    ['Account', 'Opening Balance', 'Money In', 'Money Out', 'Transfers In', 'Transfers Out', 'Closing Balance', 'Statement Balance', 'Transactions', 'Unreconciled'],
+    ...summaries.map(s => [
+      s.name,
+      s.openingBalance.toFixed(2),
+      s.moneyIn.toFixed(2),
+      s.moneyOut.toFixed(2),
+      s.transfersIn.toFixed(2),
+      s.transfersOut.toFixed(2),
+      s.closingBalance.toFixed(2),
+      s.statementBalance === null ? '' : s.statementBalance.toFixed(2),
+      s.lineCount,
+      s.unreconciledCount,
+    ]),
+  ].map(row => row.map(escapeCsvField).join(',')).join('\n');
+}
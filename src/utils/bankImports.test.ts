@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkBalanceContinuity,
+  findDuplicates,
+  getTransactionFingerprint,
+  sortChronologically,
+  summariseImportBatches,
+  type StoredBankLine,
+} from './bankImports';
+import type { ParsedTransaction } from './bankStatements';
+
+const stored = (overrides: Partial<StoredBankLine> = {}): StoredBankLine => ({
+  id: 'bt-1',
+  transaction_date: '2026-04-03',
+  description: 'SCREWFIX DIRECT',
+  amount: -84.5,
+  balance: 2035.5,
+  external_id: null,
+  import_batch_id: 'import_1',
+  bank_name: 'Starling Bank',
+  is_reconciled: false,
+  created_at: '2026-04-05T09:00:00Z',
+  ...overrides,
+});
+
+const line = (overrides: Partial<ParsedTransaction> = {}): ParsedTransaction => ({
+  date: '2026-04-03',
+  description: 'SCREWFIX DIRECT',
+  amount: -84.5,
+  balance: 2035.5,
+  ...overrides,
+});
+
+describe('getTransactionFingerprint', () => {
+  it('uses the bank ID when there is one', () => {
+    expect(getTransactionFingerprint(line({ uniqueId: 'FIT-1' }))).toBe('id:FIT-1');
+  });
+
+  it('otherwise combines date, amount, description and balance', () => {
+    expect(getTransactionFingerprint(line({ description: 'Screwfix  direct!' }))).toBe('2026-04-03|-84.50|SCREWFIX DIRECT|2035.50');
+    expect(getTransactionFingerprint(line({ balance: undefined }))).toBe('2026-04-03|-84.50|SCREWFIX DIRECT|');
+  });
+});
+
+describe('findDuplicates', () => {
+  it('skips lines already stored and keeps new ones', () => {
+    const checks = findDuplicates(
+      [line(), line({ date: '2026-04-04', description: 'JEWSON', amount: -312.4, balance: 1723.1 })],
+      [stored()]
+    );
+
+    expect(checks.map(c => c.status)).toEqual(['duplicate', 'new']);
+    expect(checks[0].matchedId).toBe('bt-1');
+  });
+
+  it('matches on the bank ID even when the description changed', () => {
+    const checks = findDuplicates(
+      [line({ description: 'SCREWFIX 1234 LEEDS', uniqueId: 'FIT-1' })],
+      [stored({ external_id: 'FIT-1' })]
+    );
+    expect(checks[0].status).toBe('duplicate');
+  });
+
+  it('never matches lines with different bank IDs', () => {
+    const checks = findDuplicates([line({ uniqueId: 'FIT-2' })], [stored({ external_id: 'FIT-1' })]);
+    expect(checks[0].status).toBe('new');
+  });
+
+  it('flags a line that only shares the date and amount', () => {
+    const checks = findDuplicates([line({ description: 'SCREWFIX 1234 LEEDS', balance: undefined })], [stored()]);
+
+    expect(checks[0]).toMatchObject({ status: 'possible_duplicate', matchedDescription: 'SCREWFIX DIRECT' });
+  });
+
+  it('treats a different running balance as a different line', () => {
+    const checks = findDuplicates([line({ balance: 1950.5 })], [stored()]);
+    expect(checks[0].status).toBe('possible_duplicate');
+  });
+
+  it('matches each stored line once, so repeated payments still import', () => {
+    const checks = findDuplicates(
+      [line({ balance: undefined }), line({ balance: undefined })],
+      [stored({ balance: null })]
+    );
+    expect(checks.map(c => c.status)).toEqual(['duplicate', 'new']);
+  });
+});
+
+describe('sortChronologically', () => {
+  it('reverses newest-first statements and keeps same-day order', () => {
+    const sorted = sortChronologically([
+      line({ date: '2026-04-05', description: 'C' }),
+      line({ date: '2026-04-03', description: 'B' }),
+      line({ date: '2026-04-03', description: 'A' }),
+    ]);
+    expect(sorted.map(t => t.description)).toEqual(['A', 'B', 'C']);
+  });
+});
+
+describe('checkBalanceContinuity', () => {
+  it('is ok when the statement picks up from the last stored balance', () => {
+    const result = checkBalanceContinuity(
+      [line({ date: '2026-04-06', amount: -20, balance: 2015.5 })],
+      { date: '2026-04-03', balance: 2035.5 }
+    );
+    expect(result).toEqual({ status: 'ok', previousDate: '2026-04-03', previousBalance: 2035.5, openingBalance: 2035.5, difference: 0 });
+  });
+
+  it('reports the gap when transactions are missing in between', () => {
+    const result = checkBalanceContinuity(
+      [line({ date: '2026-04-20', amount: 100, balance: 1600 })],
+      { date: '2026-04-03', balance: 2035.5 }
+    );
+    expect(result).toMatchObject({ status: 'gap', openingBalance: 1500, difference: -535.5 });
+  });
+
+  it('is unknown without balances or a previous import', () => {
+    expect(checkBalanceContinuity([line({ balance: undefined })], { date: '2026-04-01', balance: 10 }).status).toBe('unknown');
+    expect(checkBalanceContinuity([line()], null).status).toBe('unknown');
+    expect(checkBalanceContinuity([line()], { date: '2026-04-10', balance: 10 }).status).toBe('unknown');
+  });
+});
+
+describe('summariseImportBatches', () => {
+  it('groups lines by batch, newest import first', () => {
+    const batches = summariseImportBatches([
+      stored({ id: '1', amount: 1620, transaction_date: '2026-04-01', is_reconciled: true }),
+      stored({ id: '2' }),
+      stored({ id: '3', import_batch_id: 'import_2', created_at: '2026-05-01T09:00:00Z', transaction_date: '2026-04-28', bank_name: 'Monzo', bank_account_id: 'monzo' }),
+      stored({ id: '4', import_batch_id: null }),
+    ]);
+
+    expect(batches).toEqual([
+      { batchId: 'import_2', bankName: 'Monzo', bankAccountId: 'monzo', importedAt: '2026-05-01T09:00:00Z', count: 1, reconciledCount: 0, from: '2026-04-28', to: '2026-04-28', moneyIn: 0, moneyOut: 84.5 },
+      { batchId: 'import_1', bankName: 'Starling Bank', bankAccountId: null, importedAt: '2026-04-05T09:00:00Z', count: 2, reconciledCount: 1, from: '2026-04-01', to: '2026-04-03', moneyIn: 1620, moneyOut: 84.5 },
+    ]);
+  });
+});
@@ -0,0 +1,204 @@
+import type { ParsedTransaction } from './bankStatements';
+
+/**
+ * Duplicate-safe bank imports.
+ *
+ * Each statement line gets a fingerprint: the bank's own ID when the format
+ * has one, otherwise date, amount, description and running balance. Lines
+ * already stored are skipped, and lines that only share a date and amount
+ * with a stored one (often the same payment from a different export format)
+ * are flagged for the user to decide. The running balance is also checked
+ * against the previous import so a missing statement shows up as a gap.
+ */
+
+export type DuplicateStatus = 'new' | 'duplicate' | 'possible_duplicate';
+
+/**
+ * The bank_transactions columns the checks need.
+ */
+export interface StoredBankLine {
+  id: string;
+  transaction_date: string;
+  description: string;
+  amount: number;
+  balance?: number | null;
+  external_id?: string | null;
+  import_batch_id?: string | null;
+  bank_name?: string | null;
+  bank_account_id?: string | null;
+  is_reconciled?: boolean | null;
+  created_at?: string | null;
+}
+
+export interface DuplicateCheck {
+  status: DuplicateStatus;
+  fingerprint: string;
+  // The stored line it matched
+  matchedId?: string;
+  matchedDescription?: string;
+}
+
+export interface BalanceContinuity {
+  status: 'ok' | 'gap' | 'unknown';
+  previousDate?: string;
+  previousBalance?: number;
+  // Balance before the first new line, worked back from its running balance
+  openingBalance?: number;
+  // Opening balance less the previous closing balance
+  difference?: number;
+}
+
+export interface ImportBatchSummary {
+  batchId: string;
+  bankName: string;
+  bankAccountId: string | null;
+  importedAt: string;
+  count: number;
+  reconciledCount: number;
+  from: string;
+  to: string;
+  moneyIn: number;
+  moneyOut: number;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const normaliseDescription = (description: string): string =>
+  description.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+const amountKey = (date: string, amount: number): string => `${date}|${amount.toFixed(2)}`;
+
+/**
+ * Fingerprint for a statement line: the bank ID where there is one, else
+ * date, amount, description and running balance.
+ */
+export function getTransactionFingerprint(transaction: ParsedTransaction): string {
+  if (transaction.uniqueId) return `id:${transaction.uniqueId}`;
+  return [
+    transaction.date,
+    transaction.amount.toFixed(2),
+    normaliseDescription(transaction.description),
+    transaction.balance !== undefined ? transaction.balance.toFixed(2) : '',
+  ].join('|');
+}
+
+const sameLine = (incoming: ParsedTransaction, stored: StoredBankLine): boolean =>
+  normaliseDescription(incoming.description) === normaliseDescription(stored.description)
+  && (incoming.balance === undefined || stored.balance == null || Math.abs(incoming.balance - stored.balance) < 0.005);
+
+/**
+ * Check each incoming line against the stored ones. A stored line is only
+ * matched once, so two genuine identical payments on the same day in a
+ * statement still import when only one was stored before. Lines with
+ * different bank IDs are never treated as the same.
+ */
+export function findDuplicates(incoming: ParsedTransaction[], stored: StoredBankLine[]): DuplicateCheck[] {
+  const pool = new Map<string, StoredBankLine[]>();
+  stored.forEach(line => {
+    const key = amountKey(line.transaction_date, line.amount);
+    pool.set(key, [...(pool.get(key) || []), line]);
+  });
+
+  const take = (key: string, line: StoredBankLine) => {
+    pool.set(key, (pool.get(key) || []).filter(candidate => candidate !== line));
+  };
+
+  return incoming.map((transaction): DuplicateCheck => {
+    const fingerprint = getTransactionFingerprint(transaction);
+    const key = amountKey(transaction.date, transaction.amount);
+    const candidates = (pool.get(key) || []).filter(line =>
+      !transaction.uniqueId || !line.external_id || line.external_id === transaction.uniqueId
+    );
+
+    const byId = transaction.uniqueId
+      ? stored.find(line => line.external_id === transaction.uniqueId)
+      : undefined;
+    const exact = byId || candidates.find(line => sameLine(transaction, line));
+    const match = exact || candidates[0];
+    if (!match) return { status: 'new', fingerprint };
+
+    take(amountKey(match.transaction_date, match.amount), match);
+    return {
+      status: exact ? 'duplicate' : 'possible_duplicate',
+      fingerprint,
+      matchedId: match.id,
+      matchedDescription: match.description,
+    };
+  });
+}
+
+/**
+ * Put statement lines oldest first. Banks export either way round, so a
+ * file that ends on an earlier date than it starts is reversed.
+ */
+export function sortChronologically<T extends { date: string }>(transactions: T[]): T[] {
+  if (transactions.length < 2) return [...transactions];
+  const ordered = transactions[0].date > transactions[transactions.length - 1].date
+    ? [...transactions].reverse()
+    : [...transactions];
+  // Stable, so lines on the same day keep the bank's order
+  return ordered.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Compare the balance before the first new line with the last balance
+ * stored for the account. Unknown when either side has no running balance
+ * or the new lines start before the previous import ends.
+ */
+export function checkBalanceContinuity(
+  incoming: ParsedTransaction[],
+  previous: { date: string; balance: number } | null
+): BalanceContinuity {
+  const first = sortChronologically(incoming)[0];
+  if (!first || first.balance === undefined || !previous || previous.date > first.date) {
+    return { status: 'unknown' };
+  }
+
+  const openingBalance = roundCurrency(first.balance - first.amount);
+  const difference = roundCurrency(openingBalance - previous.balance);
+
+  return {
+    status: Math.abs(difference) < 0.01 ? 'ok' : 'gap',
+    previousDate: previous.date,
+    previousBalance: previous.balance,
+    openingBalance,
+    difference,
+  };
+}
+
+/**
+ * Group stored lines by import batch, newest import first.
+ */
+export function summariseImportBatches(lines: StoredBankLine[]): ImportBatchSummary[] {
+  const batches = new Map<string, ImportBatchSummary>();
+
+  lines.forEach(line => {
+    if (!line.import_batch_id) return;
+    const batch = batches.get(line.import_batch_id) || {
+      batchId: line.import_batch_id,
+      bankName: line.bank_name || 'Unknown',
+      bankAccountId: line.bank_account_id || null,
+      importedAt: line.created_at || '',
+      count: 0,
+      reconciledCount: 0,
+      from: line.transaction_date,
+      to: line.transaction_date,
+      moneyIn: 0,
+      moneyOut: 0,
+    };
+
+    batch.count += 1;
+    if (line.is_reconciled) batch.reconciledCount += 1;
+    if (line.created_at && (!batch.importedAt || line.created_at < batch.importedAt)) batch.importedAt = line.created_at;
+    if (line.transaction_date < batch.from) batch.from = line.transaction_date;
+    if (line.transaction_date > batch.to) batch.to = line.transaction_date;
+    if (line.amount > 0) batch.moneyIn = roundCurrency(batch.moneyIn + line.amount);
+    else batch.moneyOut = roundCurrency(batch.moneyOut - line.amount);
+
+    batches.set(line.import_batch_id, batch);
+  });
+
+  return Array.from(batches.values()).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
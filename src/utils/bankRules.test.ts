@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bankRuleMatches,
+  calculateIncludedVat,
+  draftRuleExpenses,
+  findBankRule,
+  normaliseBankRulePattern,
+  type BankRule,
+} from './bankRules';
+
+const rule = (overrides: Partial<BankRule> = {}): BankRule => ({
+  id: 'rule-shell',
+  pattern: 'SHELL',
+  vendorName: 'Shell',
+  category: 'Fuel',
+  vatRate: 'standard',
+  paymentMethod: null,
+  isActive: true,
+  ...overrides,
+});
+
+describe('bankRuleMatches', () => {
+  it('matches whole words anywhere in the description', () => {
+    expect(bankRuleMatches(rule(), 'CARD PAYMENT TO SHELL A1 NORTH')).toBe(true);
+    expect(bankRuleMatches(rule(), 'shell*a1')).toBe(true);
+    expect(bankRuleMatches(rule(), 'SHELLEY & CO')).toBe(false);
+    expect(bankRuleMatches(rule({ pattern: '' }), 'SHELL')).toBe(false);
+  });
+
+  it('tidies typed patterns', () => {
+    expect(normaliseBankRulePattern('  o2 - mobile ')).toBe('O2 MOBILE');
+    expect(bankRuleMatches(rule({ pattern: 'o2 mobile' }), 'DD O2-MOBILE 88213')).toBe(true);
+  });
+});
+
+describe('findBankRule', () => {
+  it('prefers the longest active pattern', () => {
+    const rules = [
+      rule(),
+      rule({ id: 'rule-recharge', pattern: 'SHELL RECHARGE', category: 'Vehicle' }),
+      rule({ id: 'rule-off', pattern: 'SHELL RECHARGE UK', isActive: false }),
+    ];
+    expect(findBankRule(rules, 'SHELL RECHARGE UK LTD')?.id).toBe('rule-recharge');
+    expect(findBankRule(rules, 'JEWSON LEEDS')).toBeNull();
+  });
+});
+
+describe('calculateIncludedVat', () => {
+  it('takes the VAT out of a gross amount', () => {
+    expect(calculateIncludedVat(60, 20)).toBe(10);
+    expect(calculateIncludedVat(84.5, 5)).toBe(4.02);
+    expect(calculateIncludedVat(45.2, 0)).toBe(0);
+  });
+});
+
+describe('draftRuleExpenses', () => {
+  it('drafts expenses net of VAT for outgoing lines a rule matches', () => {
+    const drafts = draftRuleExpenses(
+      [
+        { id: 'tx-1', date: '2026-04-09', description: 'SHELL A1 NORTH', amount: -60 },
+        { id: 'tx-2', date: '2026-04-07', description: 'AVIVA INSURANCE', amount: -45.2 },
+        { id: 'tx-3', date: '2026-04-08', description: 'SHELL REFUND', amount: 10 },
+      ],
+      [rule(), rule({ id: 'rule-aviva', pattern: 'AVIVA', vendorName: 'Aviva', category: null, vatRate: 'exempt', paymentMethod: 'bank_transfer' })],
+      20
+    );
+
+    expect(drafts).toEqual([
+      {
+        transactionId: 'tx-1', ruleId: 'rule-shell', vendor: 'Shell', category: 'Fuel', gross: 60, amount: 50, vatAmount: 10,
+        vatRate: 'standard', expenseDate: '2026-04-09', description: 'SHELL A1 NORTH', paymentMethod: 'card',
+      },
+      {
+        transactionId: 'tx-2', ruleId: 'rule-aviva', vendor: 'Aviva', category: null, gross: 45.2, amount: 45.2, vatAmount: 0,
+        vatRate: 'exempt', expenseDate: '2026-04-07', description: 'AVIVA INSURANCE', paymentMethod: 'bank_transfer',
+      },
+    ]);
+  });
+
+  it('uses the business standard rate', () => {
+    const [draft] = draftRuleExpenses([{ id: 'tx-1', date: '2026-04-09', description: 'SHELL', amount: -60 }], [rule()], 0);
+    expect(draft.vatAmount).toBe(0);
+    expect(draft.amount).toBe(60);
+  });
+});
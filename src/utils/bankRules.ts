@@ -0,0 +1,118 @@
+import type { VatRateCode } from '../../types';
+import { getVatRatePercent } from './vatRates';
+
+/**
+ * Bank rules: "description contains SHELL → Shell, Fuel, VAT 20%".
+ *
+ * Money going out that matches a rule becomes a draft expense. The VAT is
+ * worked out of the bank line's amount at the rule's rate and the draft is
+ * stored net of that VAT, as expenses are. Drafts are shown for review and
+ * only saved when approved.
+ */
+
+export interface BankRule {
+  id: string;
+  pattern: string;
+  vendorName: string;
+  category: string | null;
+  vatRate: VatRateCode | null;
+  paymentMethod: string | null;
+  isActive: boolean;
+}
+
+export interface RuleTransaction {
+  id: string;
+  date: string;
+  description: string;
+  // Bank sign: money out negative
+  amount: number;
+}
+
+export interface RuleExpenseDraft {
+  transactionId: string;
+  ruleId: string;
+  vendor: string;
+  // Null when the rule leaves it to the vendor's usual category
+  category: string | null;
+  // What left the bank; amount is net of the VAT in it, as expenses are stored
+  gross: number;
+  amount: number;
+  vatAmount: number;
+  vatRate: VatRateCode | null;
+  expenseDate: string;
+  description: string;
+  paymentMethod: string;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const normaliseText = (text: string): string =>
+  ` ${text.toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim()} `;
+
+/**
+ * Tidy the text a user types for a rule, e.g. "shell " → "SHELL".
+ */
+export function normaliseBankRulePattern(text: string): string {
+  return normaliseText(text).trim();
+}
+
+/**
+ * Whether a description contains the rule's text as whole words, so SHELL
+ * matches "SHELL A1 NORTH" but not "SHELLEY & CO".
+ */
+export function bankRuleMatches(rule: Pick<BankRule, 'pattern'>, description: string): boolean {
+  const pattern = normaliseBankRulePattern(rule.pattern);
+  return !!pattern && normaliseText(description).includes(` ${pattern} `);
+}
+
+/**
+ * The active rule for a description. The longest pattern wins, so
+ * "SHELL RECHARGE" beats "SHELL".
+ */
+export function findBankRule<T extends Pick<BankRule, 'pattern' | 'isActive'>>(rules: T[], description: string): T | null {
+  return rules
+    .filter(rule => rule.isActive && bankRuleMatches(rule, description))
+    .sort((a, b) => normaliseBankRulePattern(b.pattern).length - normaliseBankRulePattern(a.pattern).length)[0] || null;
+}
+
+/**
+ * VAT included in a gross amount at a percentage rate.
+ */
+export function calculateIncludedVat(gross: number, ratePercent: number): number {
+  if (ratePercent <= 0) return 0;
+  return roundCurrency(gross * ratePercent / (100 + ratePercent));
+}
+
+/**
+ * Draft an expense for each outgoing bank line a rule matches.
+ */
+export function draftRuleExpenses(
+  transactions: RuleTransaction[],
+  rules: BankRule[],
+  standardVatRate: number
+): RuleExpenseDraft[] {
+  return transactions.flatMap(tx => {
+    if (tx.amount >= 0) return [];
+    const rule = findBankRule(rules, tx.description);
+    if (!rule) return [];
+
+    const gross = roundCurrency(Math.abs(tx.amount));
+    const vatAmount = rule.vatRate ? calculateIncludedVat(gross, getVatRatePercent(rule.vatRate, standardVatRate)) : 0;
+
+    return [{
+      transactionId: tx.id,
+      ruleId: rule.id,
+      vendor: rule.vendorName,
+      category: rule.category,
+      gross,
+      amount: roundCurrency(gross - vatAmount),
+      vatAmount,
+      vatRate: rule.vatRate,
+      expenseDate: tx.date,
+      description: tx.description,
+      paymentMethod: rule.paymentMethod || 'card',
+    }];
+  });
+}
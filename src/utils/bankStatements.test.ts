@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  detectCsvLayout,
+  detectStatementFormat,
+  parseCamt053,
+  parseCsvRows,
+  parseCsvStatement,
+  parseMt940,
+  parseOfx,
+  parseQif,
+  parseStatement,
+  parseStatementAmount,
+  parseStatementDate,
+} from './bankStatements';
+
+const FIXTURE_DIR = resolve(__dirname, '../test/fixtures/bankStatements');
+
+const fixture = (name: string) => readFileSync(resolve(FIXTURE_DIR, name), 'utf8');
+
+describe('detectStatementFormat', () => {
+  it('recognises each format from the file content', () => {
+    expect(detectStatementFormat(fixture('starling.csv'))).toBe('csv');
+    expect(detectStatementFormat(fixture('nationwide.csv'))).toBe('csv');
+    expect(detectStatementFormat(fixture('statement.ofx'))).toBe('ofx');
+    expect(detectStatementFormat(fixture('creditcard.qfx'))).toBe('ofx');
+    expect(detectStatementFormat(fixture('statement.qif'))).toBe('qif');
+    expect(detectStatementFormat(fixture('camt053.xml'))).toBe('camt053');
+    expect(detectStatementFormat(fixture('statement.sta'))).toBe('mt940');
+  });
+
+  it('returns null for anything else', () => {
+    expect(detectStatementFormat('')).toBeNull();
+    expect(detectStatementFormat('<html><body>Statement</body></html>')).toBeNull();
+  });
+});
+
+describe('parseStatementDate and parseStatementAmount', () => {
+  it('reads UK, ISO, compact and month name dates', () => {
+    expect(parseStatementDate('05/04/2026')).toBe('2026-04-05');
+    expect(parseStatementDate('5-4-26')).toBe('2026-04-05');
+    expect(parseStatementDate('2026-04-05T10:00:00')).toBe('2026-04-05');
+    expect(parseStatementDate('20260405120000[0:GMT]')).toBe('2026-04-05');
+    expect(parseStatementDate('05 Apr 2026')).toBe('2026-04-05');
+    expect(parseStatementDate('04/05/2026', true)).toBe('2026-04-05');
+    expect(parseStatementDate('31/31/2026')).toBe('');
+    expect(parseStatementDate('Pending')).toBe('');
+  });
+
+  it('reads signed, bracketed and DR amounts', () => {
+    expect(parseStatementAmount('£1,234.56')).toBe(1234.56);
+    expect(parseStatementAmount('-84.50')).toBe(-84.5);
+    expect(parseStatementAmount('(20.00)')).toBe(-20);
+    expect(parseStatementAmount('15.00 DR')).toBe(-15);
+    expect(parseStatementAmount('15.00CR')).toBe(15);
+    expect(parseStatementAmount('')).toBe(0);
+  });
+});
+
+describe('CSV statements', () => {
+  it('finds columns by header name', () => {
+    const rows = parseCsvRows(fixture('starling.csv'));
+    const layout = detectCsvLayout(rows);
+
+    expect(layout).toEqual({
+      headerRow: 0,
+      mapping: { date: 0, description: 1, amount: 4, balance: 5, type: 3, reference: 2 },
+    });
+    expect(parseCsvStatement(rows, layout!)).toEqual([
+      { date: '2026-04-01', description: 'Smith J', amount: 1620, balance: 2120, type: 'FASTER PAYMENT', reference: 'INV-0001', uniqueId: undefined },
+      { date: '2026-04-03', description: 'Screwfix', amount: -84.5, balance: 2035.5, type: 'CARD', reference: 'SCREWFIX DIRECT', uniqueId: undefined },
+      { date: '2026-04-05', description: 'Jewson, Leeds', amount: -312.4, balance: 1723.1, type: 'CARD', reference: 'Timber', uniqueId: undefined },
+    ]);
+  });
+
+  it('skips account details above the header and combines paid in and paid out', () => {
+    const statement = parseStatement(fixture('nationwide.csv'));
+
+    expect(statement?.format).toBe('csv');
+    expect(statement?.transactions.map(t => [t.date, t.description, t.amount, t.balance])).toEqual([
+      ['2026-04-07', 'AVIVA INSURANCE', -45.2, 1204.8],
+      ['2026-04-08', 'BIG BUILD LTD', 2500, 3704.8],
+      ['2026-04-09', 'SHELL A1 "NORTH"', -60, 3644.8],
+    ]);
+  });
+
+  it('still finds the columns when the bank reorders them', () => {
+    const rows = parseCsvRows('Amount,Memo,Transaction ID,Date\n-12.00,PARKING,tx_1,2026-04-03');
+    const layout = detectCsvLayout(rows)!;
+
+    expect(parseCsvStatement(rows, layout)).toEqual([
+      { date: '2026-04-03', description: 'PARKING', amount: -12, balance: undefined, type: undefined, reference: undefined, uniqueId: 'tx_1' },
+    ]);
+  });
+
+  it('needs a mapping when there is no header row', () => {
+    const text = '05/04/2026,SCREWFIX,-10.00';
+    expect(detectCsvLayout(parseCsvRows(text))).toBeNull();
+    expect(parseStatement(text)).toBeNull();
+    expect(parseCsvStatement(parseCsvRows(text), { headerRow: -1, mapping: { date: 0, description: 1, amount: 2 } })).toHaveLength(1);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads an SGML bank statement with FITIDs', () => {
+    const statement = parseOfx(fixture('statement.ofx'));
+
+    expect(statement.accountNumber).toBe('12345678');
+    expect(statement.currency).toBe('GBP');
+    expect(statement.closingBalance).toBe(1424.8);
+    expect(statement.transactions).toEqual([
+      { date: '2026-04-02', description: 'SMITH J INV-0001', amount: 1620, type: 'CREDIT', reference: undefined, uniqueId: '202604020001' },
+      { date: '2026-04-07', description: 'AVIVA INSURANCE', amount: -45.2, type: 'DIRECTDEBIT', reference: undefined, uniqueId: '202604070002' },
+      { date: '2026-04-10', description: 'B & Q', amount: -150, type: 'CHECK', reference: '100231', uniqueId: '202604100003' },
+    ]);
+  });
+
+  it('reads an XML credit card statement', () => {
+    const statement = parseOfx(fixture('creditcard.qfx'));
+
+    expect(statement.accountNumber).toBe('XXXXXXXXXXXX4321');
+    expect(statement.closingBalance).toBe(-123.99);
+    expect(statement.transactions.map(t => [t.date, t.description, t.amount, t.uniqueId])).toEqual([
+      ['2026-04-12', 'ADOBE SYSTEMS', -23.99, 'CC-9001'],
+      ['2026-04-20', 'PAYMENT RECEIVED THANK YOU', 500, 'CC-9002'],
+    ]);
+  });
+});
+
+describe('parseQif', () => {
+  it('reads day-first dates, payee and memo, and check numbers', () => {
+    const statement = parseQif(fixture('statement.qif'));
+
+    expect(statement.transactions).toEqual([
+      { date: '2026-04-14', description: 'TOOLSTATION DeWalt kit', amount: -1234.56, type: 'Tools', reference: '100232' },
+      { date: '2026-04-15', description: 'GREEN HOMES LTD', amount: 850, type: undefined, reference: undefined },
+      { date: '2026-04-16', description: 'O2 Phone bill', amount: -9.99, type: undefined, reference: undefined },
+    ]);
+  });
+
+  it('switches to month-first dates when a day can only be the second part', () => {
+    const statement = parseQif(fixture('statement-us.qif'));
+    expect(statement.transactions.map(t => t.date)).toEqual(['2026-04-18', '2026-04-02']);
+  });
+});
+
+describe('parseCamt053', () => {
+  it('reads entries with the account servicer reference and running balance', () => {
+    const statement = parseCamt053(fixture('camt053.xml'));
+
+    expect(statement.accountNumber).toBe('GB33BUKB20201555555555');
+    expect(statement.currency).toBe('GBP');
+    expect(statement.closingBalance).toBe(3379.5);
+    expect(statement.transactions).toEqual([
+      { date: '2026-04-08', description: 'Big Build Ltd INV-0002', amount: 2500, balance: 3500, type: 'FPS', reference: 'INV-0002', uniqueId: 'BARC-0408-001' },
+      { date: '2026-04-09', description: 'Travis Perkins ACC 55123', amount: -120.5, balance: 3379.5, type: undefined, reference: undefined, uniqueId: 'BARC-0409-002' },
+    ]);
+  });
+});
+
+describe('parseMt940', () => {
+  it('reads statement lines with their :86: details and bank references', () => {
+    const statement = parseMt940(fixture('statement.sta'));
+
+    expect(statement.accountNumber).toBe('20325312345678');
+    expect(statement.currency).toBe('GBP');
+    expect(statement.closingBalance).toBe(3394.5);
+    expect(statement.transactions).toEqual([
+      { date: '2026-04-08', description: 'INV-0002 BIG BUILD LTD', amount: 2500, balance: 3500, type: 'TRF', reference: 'INV-0002', uniqueId: 'FP260408001' },
+      { date: '2026-04-09', description: 'TRAVIS PERKINS ACC 55123', amount: -120.5, balance: 3379.5, type: 'DDT', reference: undefined, uniqueId: 'DD260409002' },
+      { date: '2026-04-10', description: 'CHARGE REFUND', amount: 15, balance: 3394.5, type: 'CHG', reference: undefined, uniqueId: undefined },
+    ]);
+  });
+
+  it('closes on the balance the bank states', () => {
+    const statement = parseMt940(fixture('statement.sta'));
+    const last = statement.transactions[statement.transactions.length - 1];
+    expect(last.balance).toBe(statement.closingBalance);
+  });
+});
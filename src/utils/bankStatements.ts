@@ -0,0 +1,587 @@
+/**
+ * Bank statement parsing.
+ *
+ * Turns a downloaded statement into one list of transactions for the bank
+ * import, whatever format the bank gave us: CSV (columns found by their
+ * header names, so a bank reordering columns doesn't break it), OFX/QFX
+ * (SGML 1.x and XML 2.x), QIF, ISO 20022 CAMT.053 and SWIFT MT940.
+ *
+ * Money in is positive and money out negative in every format. Where the
+ * bank gives each line its own ID (OFX FITID, CAMT account servicer
+ * reference, MT940 bank reference) it is kept as uniqueId so a line can be
+ * recognised when it turns up again in a later statement.
+ */
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif' | 'camt053' | 'mt940';
+
+export const STATEMENT_FORMAT_LABELS: Record<StatementFormat, string> = {
+  csv: 'CSV',
+  ofx: 'OFX / QFX',
+  qif: 'QIF',
+  camt053: 'CAMT.053',
+  mt940: 'MT940',
+};
+
+export const STATEMENT_FILE_EXTENSIONS = ['.csv', '.ofx', '.qfx', '.qif', '.xml', '.sta', '.mt940'];
+
+export interface ParsedTransaction {
+  // YYYY-MM-DD
+  date: string;
+  description: string;
+  amount: number;
+  balance?: number;
+  type?: string;
+  reference?: string;
+  // The bank's own ID for the line, when the format has one
+  uniqueId?: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  transactions: ParsedTransaction[];
+  accountNumber?: string;
+  currency?: string;
+  closingBalance?: number;
+}
+
+/**
+ * Column indices for a CSV statement. A single signed amount column, or
+ * separate paid in and paid out columns.
+ */
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount?: number;
+  paidIn?: number;
+  paidOut?: number;
+  balance?: number;
+  type?: number;
+  reference?: number;
+  uniqueId?: number;
+}
+
+export interface CsvLayout {
+  // Row holding the column names; data starts on the row after it
+  headerRow: number;
+  mapping: CsvColumnMapping;
+}
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const pad = (value: number | string): string => value.toString().padStart(2, '0');
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const fullYear = (year: string): number => {
+  const value = parseInt(year, 10);
+  if (year.length > 2) return value;
+  return value < 80 ? 2000 + value : 1900 + value;
+};
+
+const toISODate = (year: number, month: number, day: number): string => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return '';
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * Read a statement date. Numeric dates are day first (UK banks) unless
+ * monthFirst is set; ISO and compact YYYYMMDD dates are read as they are.
+ * Returns an empty string when the value isn't a date.
+ */
+export function parseStatementDate(value: string, monthFirst = false): string {
+  const text = value.trim();
+
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return toISODate(+iso[1], +iso[2], +iso[3]);
+
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (compact) return toISODate(+compact[1], +compact[2], +compact[3]);
+
+  const numeric = text.match(/^(\d{1,2})\s*[/.\-']\s*(\d{1,2})\s*[/.\-']\s*(\d{2,4})/);
+  if (numeric) {
+    const [, first, second, year] = numeric;
+    return monthFirst
+      ? toISODate(fullYear(year), +first, +second)
+      : toISODate(fullYear(year), +second, +first);
+  }
+
+  const named = text.match(/^(\d{1,2})[\s\-]+([A-Za-z]{3})[A-Za-z]*[\s\-]+(\d{2,4})/);
+  if (named) {
+    const month = MONTHS.indexOf(named[2].toLowerCase()) + 1;
+    return month ? toISODate(fullYear(named[3]), month, +named[1]) : '';
+  }
+
+  return '';
+}
+
+/**
+ * Read a statement amount: currency symbols and thousands separators are
+ * dropped, and brackets or a DR suffix mean money out.
+ */
+export function parseStatementAmount(value: string): number {
+  let text = value.replace(/[£$€\s]/g, '').replace(/,/g, '');
+  let sign = 1;
+
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/DR$/i.test(text)) {
+    sign = -1;
+    text = text.slice(0, -2);
+  } else if (/CR$/i.test(text)) {
+    text = text.slice(0, -2);
+  }
+
+  const amount = parseFloat(text);
+  return isNaN(amount) ? 0 : roundCurrency(sign * amount);
+}
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const joinText = (...parts: (string | undefined)[]): string => {
+  const seen: string[] = [];
+  parts.forEach(part => {
+    const text = part?.replace(/\s+/g, ' ').trim();
+    if (text && !seen.some(s => s.includes(text))) seen.push(text);
+  });
+  return seen.join(' ');
+};
+
+/**
+ * Work out the format from the file content. The extension isn't trusted as
+ * banks label OFX as .qfx, CAMT as .xml and MT940 as anything.
+ */
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text.replace(/^\uFEFF/, '').trimStart().slice(0, 4000);
+  if (!head) return null;
+
+  if (/^OFXHEADER|<OFX>/i.test(head) || /<\?OFX /i.test(head)) return 'ofx';
+  if (/<BkToCstmrStmt/.test(head) || /camt\.053/.test(head)) return 'camt053';
+  if (/^!(Type|Account|Option)/i.test(head)) return 'qif';
+  if (/^:20:/m.test(head) && /^:(25|60F|61):/m.test(head)) return 'mt940';
+  if (/[,;\t]/.test(head.split(/\r?\n/)[0])) return 'csv';
+  return null;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Split CSV text into rows. Handles quoted fields (with "" for a quote) and
+ * semicolon or tab separated files.
+ */
+export function parseCsvRows(text: string): string[][] {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) return [];
+
+  const first = lines[0];
+  const count = (char: string) => first.split(char).length - 1;
+  const separator = [';', '\t'].find(char => count(char) > count(',')) || ',';
+
+  return lines.map(line => {
+    const result: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (char === '"') {
+        if (inQuotes && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else {
+          inQuotes = !inQuotes;
+        }
+      } else if (char === separator && !inQuotes) {
+        result.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    result.push(current.trim());
+    return result;
+  });
+}
+
+// Header names for each column, best match first. Compared after lowercasing
+// and turning punctuation into spaces, so "Amount (GBP)" is "amount gbp".
+const CSV_HEADERS: Record<keyof CsvColumnMapping, string[]> = {
+  date: ['date', 'transaction date', 'posting date', 'posted date', 'date posted', 'booking date', 'completed date', 'value date'],
+  description: ['description', 'transaction description', 'details', 'narrative', 'memo', 'counter party', 'name', 'payee', 'merchant'],
+  amount: ['amount', 'amount gbp', 'transaction amount', 'value', 'net amount'],
+  paidIn: ['paid in', 'money in', 'credit', 'credit amount', 'credits', 'in'],
+  paidOut: ['paid out', 'money out', 'debit', 'debit amount', 'debits', 'out'],
+  balance: ['balance', 'balance gbp', 'running balance', 'account balance'],
+  type: ['type', 'transaction type'],
+  reference: ['reference', 'ref', 'notes'],
+  uniqueId: ['transaction id', 'transaction reference', 'id'],
+};
+
+const normaliseHeader = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const findColumn = (headers: string[], names: string[], used: number[]): number | undefined => {
+  for (const name of names) {
+    const index = headers.findIndex((header, i) => header === name && !used.includes(i));
+    if (index >= 0) return index;
+  }
+  return undefined;
+};
+
+/**
+ * Find the header row and map columns by name. Looks at the first few rows
+ * as some banks put the account details above the header. Returns null
+ * when no row has a date, a description and an amount (or paid in/out).
+ */
+export function detectCsvLayout(rows: string[][]): CsvLayout | null {
+  for (let headerRow = 0; headerRow < Math.min(rows.length, 10); headerRow++) {
+    const headers = rows[headerRow].map(normaliseHeader);
+    const used: number[] = [];
+    const mapping: Partial<CsvColumnMapping> = {};
+
+    (Object.keys(CSV_HEADERS) as (keyof CsvColumnMapping)[]).forEach(field => {
+      const index = findColumn(headers, CSV_HEADERS[field], used);
+      if (index !== undefined) {
+        mapping[field] = index;
+        used.push(index);
+      }
+    });
+
+    const hasAmount = mapping.amount !== undefined || (mapping.paidIn !== undefined && mapping.paidOut !== undefined);
+    if (mapping.date !== undefined && mapping.description !== undefined && hasAmount) {
+      if (mapping.amount !== undefined) {
+        delete mapping.paidIn;
+        delete mapping.paidOut;
+      }
+      return { headerRow, mapping: mapping as CsvColumnMapping };
+    }
+  }
+  return null;
+}
+
+const cell = (row: string[], index?: number): string | undefined =>
+  index !== undefined && index >= 0 && row[index] !== undefined && row[index] !== '' ? row[index] : undefined;
+
+/**
+ * Read the rows after the header into transactions. Rows without a date or
+ * with a zero amount are left out.
+ */
+export function parseCsvStatement(rows: string[][], layout: CsvLayout): ParsedTransaction[] {
+  const { mapping } = layout;
+
+  return rows.slice(layout.headerRow + 1).flatMap(row => {
+    const date = parseStatementDate(cell(row, mapping.date) || '');
+    const amount = mapping.amount !== undefined
+      ? parseStatementAmount(cell(row, mapping.amount) || '0')
+      : roundCurrency(
+          Math.abs(parseStatementAmount(cell(row, mapping.paidIn) || '0'))
+          - Math.abs(parseStatementAmount(cell(row, mapping.paidOut) || '0'))
+        );
+    const balance = cell(row, mapping.balance);
+    const reference = cell(row, mapping.reference);
+    const description = joinText(cell(row, mapping.description)) || reference || '';
+
+    if (!date || amount === 0 || !description) return [];
+
+    return [{
+      date,
+      description,
+      amount,
+      balance: balance !== undefined ? parseStatementAmount(balance) : undefined,
+      type: cell(row, mapping.type),
+      reference,
+      uniqueId: cell(row, mapping.uniqueId),
+    }];
+  });
+}
+
+// ============================================
+// OFX / QFX
+// ============================================
+
+// Leaf elements aren't closed in SGML OFX, so read up to the next tag or line end
+const ofxValue = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+};
+
+const ofxBlocks = (text: string, tag: string): string[] =>
+  Array.from(text.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), match => match[1]);
+
+/**
+ * OFX 1.x (SGML) and 2.x (XML), bank and credit card statements. QFX is
+ * OFX with an Intuit header.
+ */
+export function parseOfx(text: string): ParsedStatement {
+  const transactions = ofxBlocks(text, 'STMTTRN').flatMap(block => {
+    const date = parseStatementDate(ofxValue(block, 'DTPOSTED') || '');
+    const amount = parseStatementAmount(ofxValue(block, 'TRNAMT') || '0');
+    const description = joinText(ofxValue(block, 'NAME'), ofxValue(block, 'MEMO'));
+    if (!date || !description) return [];
+
+    return [{
+      date,
+      description,
+      amount,
+      type: ofxValue(block, 'TRNTYPE'),
+      reference: ofxValue(block, 'CHECKNUM') || ofxValue(block, 'REFNUM'),
+      uniqueId: ofxValue(block, 'FITID'),
+    }];
+  });
+
+  const account = ofxBlocks(text, 'BANKACCTFROM')[0] || ofxBlocks(text, 'CCACCTFROM')[0] || '';
+  const ledgerBalance = ofxBlocks(text, 'LEDGERBAL')[0];
+  const closingBalance = ledgerBalance && ofxValue(ledgerBalance, 'BALAMT');
+
+  return {
+    format: 'ofx',
+    transactions,
+    accountNumber: ofxValue(account, 'ACCTID'),
+    currency: ofxValue(text, 'CURDEF'),
+    closingBalance: closingBalance ? parseStatementAmount(closingBalance) : undefined,
+  };
+}
+
+// ============================================
+// QIF
+// ============================================
+
+/**
+ * Quicken Interchange Format. QIF has no line IDs, and its dates have no
+ * fixed order: they are read day first unless one can only be month first.
+ */
+export function parseQif(text: string): ParsedStatement {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('!')) return;
+    if (line === '^') {
+      if (Object.keys(current).length > 0) records.push(current);
+      current = {};
+      return;
+    }
+    const code = line[0];
+    // Split lines (S, E, $) belong to the category breakdown, not the transaction
+    if (!'DTUPMNLC'.includes(code) || current[code] !== undefined) return;
+    current[code] = line.slice(1).trim();
+  });
+  if (Object.keys(current).length > 0) records.push(current);
+
+  const monthFirst = records.some(record => {
+    const parts = (record.D || '').match(/^(\d{1,2})\s*[/.\-']\s*(\d{1,2})/);
+    return !!parts && +parts[2] > 12;
+  });
+
+  const transactions = records.flatMap(record => {
+    const date = parseStatementDate(record.D || '', monthFirst);
+    const amount = parseStatementAmount(record.T ?? record.U ?? '0');
+    const description = joinText(record.P, record.M);
+    if (!date || !description) return [];
+
+    return [{
+      date,
+      description,
+      amount,
+      type: record.L || undefined,
+      reference: record.N || undefined,
+    }];
+  });
+
+  return { format: 'qif', transactions };
+}
+
+// ============================================
+// CAMT.053
+// ============================================
+
+const children = (parent: Element, name: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === name);
+
+// Walk down by local name so any namespace version (camt.053.001.02 to .08) works
+const find = (parent: Element | undefined, ...path: string[]): Element | undefined =>
+  path.reduce<Element | undefined>((node, name) => (node ? children(node, name)[0] : undefined), parent);
+
+const textOf = (parent: Element | undefined, ...path: string[]): string | undefined => {
+  const value = find(parent, ...path)?.textContent?.trim();
+  return value || undefined;
+};
+
+const camtAmount = (parent: Element): number => {
+  const amount = parseFloat(textOf(parent, 'Amt') || '0');
+  const sign = textOf(parent, 'CdtDbtInd') === 'DBIT' ? -1 : 1;
+  return roundCurrency(sign * (isNaN(amount) ? 0 : amount));
+};
+
+/**
+ * ISO 20022 bank to customer statement. Uses the first statement in the file.
+ */
+export function parseCamt053(text: string): ParsedStatement {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  const statement = doc.getElementsByTagNameNS('*', 'Stmt')[0];
+  if (!statement) return { format: 'camt053', transactions: [] };
+
+  const balanceOf = (code: string) => {
+    const balance = children(statement, 'Bal').find(b => textOf(b, 'Tp', 'CdOrPrtry', 'Cd') === code);
+    return balance ? camtAmount(balance) : undefined;
+  };
+
+  let running = balanceOf('OPBD') ?? balanceOf('PRCD');
+
+  const transactions = children(statement, 'Ntry').flatMap(entry => {
+    const date = parseStatementDate(textOf(entry, 'BookgDt', 'Dt') || textOf(entry, 'BookgDt', 'DtTm') || textOf(entry, 'ValDt', 'Dt') || '');
+    const amount = camtAmount(entry);
+    const details = find(entry, 'NtryDtls', 'TxDtls');
+    const party = amount < 0
+      ? textOf(details, 'RltdPties', 'Cdtr', 'Nm') || textOf(details, 'RltdPties', 'Cdtr', 'Pty', 'Nm')
+      : textOf(details, 'RltdPties', 'Dbtr', 'Nm') || textOf(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm');
+    const remittanceInfo = find(details, 'RmtInf');
+    const remittance = remittanceInfo ? children(remittanceInfo, 'Ustrd').map(u => u.textContent || '').join(' ') : '';
+    const description = joinText(party, remittance, textOf(entry, 'AddtlNtryInf'));
+    if (!date || !description) return [];
+
+    if (running !== undefined) running = roundCurrency(running + amount);
+    const endToEnd = textOf(details, 'Refs', 'EndToEndId');
+
+    return [{
+      date,
+      description,
+      amount,
+      balance: running,
+      type: textOf(entry, 'BkTxCd', 'Prtry', 'Cd') || textOf(entry, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd'),
+      reference: endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : undefined,
+      uniqueId: textOf(entry, 'AcctSvcrRef') || textOf(entry, 'NtryRef') || textOf(details, 'Refs', 'AcctSvcrRef'),
+    }];
+  });
+
+  return {
+    format: 'camt053',
+    transactions,
+    accountNumber: textOf(statement, 'Acct', 'Id', 'IBAN') || textOf(statement, 'Acct', 'Id', 'Othr', 'Id'),
+    currency: textOf(statement, 'Acct', 'Ccy') || find(statement, 'Bal', 'Amt')?.getAttribute('Ccy') || undefined,
+    closingBalance: balanceOf('CLBD'),
+  };
+}
+
+// ============================================
+// MT940
+// ============================================
+
+// :61: value date, optional entry date, debit/credit mark, optional funds
+// code, amount, transaction type, customer reference, optional //bank reference
+const MT940_LINE = /^(\d{6})(\d{4})?(R?[CD])([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^/\n]*)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+const mt940Amount = (value: string): number => parseFloat(value.replace(',', '.')) || 0;
+
+// :60F: / :62F: balance: C or D, YYMMDD, currency, amount
+const mt940Balance = (value: string) => {
+  const match = value.match(/^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/);
+  if (!match) return undefined;
+  return {
+    currency: match[3],
+    amount: roundCurrency((match[1] === 'D' ? -1 : 1) * mt940Amount(match[4])),
+  };
+};
+
+// Structured :86: fields (?20 to ?29 remittance, ?32/?33 name) become plain text
+const mt940Info = (value: string): string => value.replace(/\?\d{2}/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * SWIFT customer statement. Running balances are worked out from the
+ * opening balance.
+ */
+export function parseMt940(text: string): ParsedStatement {
+  const fields: { tag: string; value: string }[] = [];
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length > 0 && line.trim() && !/^-}?$/.test(line.trim())) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  });
+
+  const transactions: ParsedTransaction[] = [];
+  let accountNumber: string | undefined;
+  let currency: string | undefined;
+  let closingBalance: number | undefined;
+  let running: number | undefined;
+
+  fields.forEach(({ tag, value }) => {
+    if (tag === '25' && !accountNumber) {
+      accountNumber = value.trim();
+    } else if (tag === '60F' || tag === '60M') {
+      const balance = mt940Balance(value);
+      running = balance?.amount;
+      currency = currency || balance?.currency;
+    } else if (tag === '62F' || tag === '62M') {
+      closingBalance = mt940Balance(value)?.amount;
+    } else if (tag === '61') {
+      const match = value.match(MT940_LINE);
+      if (!match) return;
+      const [, valueDate, , mark, , amountText, typeCode, customerRef, bankRef, supplementary] = match;
+      const amount = roundCurrency((mark === 'D' || mark === 'RC' ? -1 : 1) * mt940Amount(amountText));
+      if (running !== undefined) running = roundCurrency(running + amount);
+      const reference = customerRef.trim();
+
+      transactions.push({
+        date: parseStatementDate(`20${valueDate}`),
+        description: joinText(supplementary),
+        amount,
+        balance: running,
+        type: typeCode.slice(1),
+        reference: reference && reference !== 'NONREF' ? reference : undefined,
+        uniqueId: bankRef?.trim() || undefined,
+      });
+    } else if (tag === '86' && transactions.length > 0) {
+      const last = transactions[transactions.length - 1];
+      last.description = joinText(mt940Info(value), last.description);
+    }
+  });
+
+  return {
+    format: 'mt940',
+    transactions: transactions.filter(t => t.date && t.description),
+    accountNumber,
+    currency,
+    closingBalance,
+  };
+}
+
+/**
+ * Parse a statement in any supported format. Returns null when the format
+ * isn't recognised, or for a CSV whose columns can't be found by name (the
+ * import page then asks for the columns).
+ */
+export function parseStatement(text: string, format = detectStatementFormat(text)): ParsedStatement | null {
+  switch (format) {
+    case 'ofx':
+      return parseOfx(text);
+    case 'qif':
+      return parseQif(text);
+    case 'camt053':
+      return parseCamt053(text);
+    case 'mt940':
+      return parseMt940(text);
+    case 'csv': {
+      const rows = parseCsvRows(text);
+      const layout = detectCsvLayout(rows);
+      return layout ? { format, transactions: parseCsvStatement(rows, layout) } : null;
+    }
+    default:
+      return null;
+  }
+}
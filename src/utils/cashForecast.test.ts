@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCashForecast,
+  getBillPayments,
+  getCustomerPaymentDelays,
+  getForecastHorizon,
+  getInvoiceReceipts,
+  getQuoteReceipts,
+  getVatPayments,
+  type ForecastFlow,
+} from './cashForecast';
+import { getVatPeriod, type VatPeriodSummary } from './vatPeriods';
+import {
+  createMockInvoice,
+  createMockInvoicePayment,
+  createMockQuote,
+  createMockQuoteSection,
+  createMockMaterialItem,
+  createMockSettings,
+} from '../test/factories';
+
+const settings = createMockSettings();
+const today = '2026-03-02';
+
+// 1000 net + 20% VAT = 1200
+const sections = [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 1000 })], labourHours: 0 })];
+
+describe('getCustomerPaymentDelays', () => {
+  it('averages days paid after the due date per customer', () => {
+    const quotes = [
+      createMockInvoice({ id: 'a', customerId: 'slow', status: 'paid', sections, dueDate: '2026-01-01' }),
+      createMockInvoice({ id: 'b', customerId: 'slow', status: 'paid', sections, dueDate: '2026-02-01' }),
+      createMockInvoice({ id: 'c', customerId: 'early', status: 'paid', sections, dueDate: '2026-02-01' }),
+    ];
+    const payments = [
+      createMockInvoicePayment({ invoiceId: 'a', paymentDate: '2026-01-11' }),
+      createMockInvoicePayment({ invoiceId: 'b', paymentDate: '2026-02-21' }),
+      createMockInvoicePayment({ invoiceId: 'c', paymentDate: '2026-01-25' }),
+    ];
+
+    const delays = getCustomerPaymentDelays(quotes, payments);
+    expect(delays.get('slow')).toBe(15);
+    expect(delays.get('early')).toBe(0);
+  });
+});
+
+describe('getInvoiceReceipts', () => {
+  it('expects the balance on the due date plus the customer delay, overdue ones today', () => {
+    const quotes = [
+      createMockInvoice({ id: 'due', customerId: 'slow', sections, dueDate: '2026-03-10', referenceNumber: 7 }),
+      createMockInvoice({ id: 'overdue', customerId: 'new', sections, dueDate: '2026-02-01' }),
+      createMockInvoice({ id: 'draft', status: 'draft', sections }),
+    ];
+    const payments = [createMockInvoicePayment({ invoiceId: 'due', amount: 200, paymentDate: '2026-02-20' })];
+
+    const flows = getInvoiceReceipts(quotes, payments, settings, new Map([['slow', 10]]), today);
+    expect(flows.map(f => [f.sourceId, f.date, f.amount])).toEqual([
+      ['due', '2026-03-20', 1000],
+      ['overdue', today, 1200],
+    ]);
+    expect(flows[0].label).toBe('Invoice 7');
+  });
+
+  it('splits out retention on its release date', () => {
+    const quotes = [createMockInvoice({
+      id: 'ret', sections, dueDate: '2026-03-10', retentionPercent: 5, practicalCompletionDate: '2026-04-01',
+    })];
+
+    const flows = getInvoiceReceipts(quotes, [], settings, new Map(), today);
+    expect(flows.map(f => [f.kind, f.date, f.amount])).toEqual([
+      ['invoice', '2026-03-10', 1150],
+      ['retention', '2026-04-01', 25],
+    ]);
+  });
+});
+
+describe('getQuoteReceipts', () => {
+  const schedule = [
+    { id: 's1', title: 'Day 1', start: '2026-03-09T08:00', end: '2026-03-09T17:00', projectId: 'job-1' },
+    { id: 's2', title: 'Day 2', start: '2026-03-16T08:00', end: '2026-03-16T17:00', projectId: 'job-1' },
+  ];
+
+  it('expects the deposit now and the balance after the last visit', () => {
+    const quote = createMockQuote({
+      id: 'q1', status: 'accepted', projectId: 'job-1', sections,
+      partPaymentEnabled: true, partPaymentType: 'percentage', partPaymentValue: 25, partPaymentLabel: 'Deposit',
+    });
+
+    const flows = getQuoteReceipts([quote], schedule, settings, new Map(), today);
+    expect(flows.map(f => [f.kind, f.date, f.amount])).toEqual([
+      ['deposit', today, 300],
+      ['quote', '2026-03-30', 900],
+    ]);
+  });
+
+  it('leaves out what has been invoiced and quotes with no scheduled work', () => {
+    const quote = createMockQuote({ id: 'q1', status: 'accepted', projectId: 'job-1', sections });
+    const stage = createMockInvoice({
+      parentQuoteId: 'q1',
+      sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 400 })], labourHours: 0 })],
+    });
+    const unscheduled = createMockQuote({ status: 'accepted', sections });
+
+    const flows = getQuoteReceipts([quote, stage, unscheduled], schedule, settings, new Map(), today);
+    expect(flows.map(f => [f.sourceId, f.amount])).toEqual([['q1', 720]]);
+  });
+});
+
+describe('getBillPayments', () => {
+  it('pays what is left on unpaid bills, net of CIS', () => {
+    const flows = getBillPayments([
+      { id: 'b1', vendor_name: 'Builders Merchant', amount: 600, amount_paid: 100, invoice_date: '2026-02-01', due_date: '2026-03-15', status: 'partial' },
+      { id: 'b2', vendor_name: 'Subbie', amount: 1000, amount_paid: 0, cis_deduction: 200, invoice_date: '2026-02-20', status: 'unpaid' },
+      { id: 'b3', vendor_name: 'Paid', amount: 50, amount_paid: 50, invoice_date: '2026-02-01', status: 'paid' },
+    ], today);
+
+    expect(flows.map(f => [f.sourceId, f.date, f.amount])).toEqual([
+      ['b1', '2026-03-15', -500],
+      ['b2', today, -800],
+    ]);
+  });
+});
+
+describe('getVatPayments', () => {
+  it('pays returns whose deadline falls within the forecast', () => {
+    const summary = (date: string, netVat: number) =>
+      ({ period: getVatPeriod(date, 1), netVat } as VatPeriodSummary);
+
+    const flows = getVatPayments(
+      [summary('2026-05-15', 900), summary('2026-02-15', 1500), summary('2025-11-15', 700)],
+      getForecastHorizon(today),
+      today
+    );
+    expect(flows.map(f => [f.date, f.amount])).toEqual([['2026-05-07', -1500]]);
+  });
+});
+
+describe('buildCashForecast', () => {
+  it('rolls the balance forward and flags low weeks', () => {
+    const flows: ForecastFlow[] = [
+      { kind: 'invoice', date: '2026-02-20', amount: 500, label: 'Overdue' },
+      { kind: 'bill', date: '2026-03-10', amount: -2000, label: 'Merchant' },
+      { kind: 'invoice', date: '2026-03-20', amount: 1500, label: 'Job' },
+      { kind: 'vat', date: '2026-07-01', amount: -900, label: 'After horizon' },
+    ];
+
+    const forecast = buildCashForecast(1000, flows, 0, today);
+    expect(forecast.weeks).toHaveLength(13);
+    expect(forecast.weeks.slice(0, 3).map(w => [w.start, w.receipts, w.payments, w.closingBalance])).toEqual([
+      ['2026-03-02', 500, 0, 1500],
+      ['2026-03-09', 0, 2000, -500],
+      ['2026-03-16', 1500, 0, 1000],
+    ]);
+    expect(forecast.weeks[12].closingBalance).toBe(1000);
+    expect(forecast.lowestBalance).toBe(-500);
+    expect(forecast.firstLowWeek?.start).toBe('2026-03-09');
+  });
+});
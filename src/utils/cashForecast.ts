@@ -0,0 +1,318 @@
+import type { Quote, InvoicePayment, ScheduleEntry } from '../../types';
+import { calculateDocumentTotal } from './quoteCalculations';
+import { getPaymentsForInvoice, summariseInvoicePayments } from './invoicePayments';
+import { getCreditNotesForInvoice, sumCredited } from './creditNotes';
+import { getRetentionEntry } from './retention';
+import type { VatPeriodSummary } from './vatPeriods';
+
+/**
+ * Thirteen-week cash-flow forecast.
+ *
+ * Starts from the latest bank balance and adds the money we expect in and
+ * out, week by week: unpaid invoices on their due date pushed back by how
+ * late the customer usually pays, deposits and balances on accepted quotes,
+ * bills on their due date and VAT returns on their payment deadline.
+ * Anything already overdue is expected in the first week.
+ */
+
+export const FORECAST_WEEKS = 13;
+
+// Days after the work finishes that an accepted quote's balance is invoiced on
+export const QUOTE_PAYMENT_TERMS_DAYS = 14;
+
+export type ForecastFlowKind = 'invoice' | 'retention' | 'deposit' | 'quote' | 'bill' | 'vat';
+
+export interface ForecastFlow {
+  kind: ForecastFlowKind;
+  date: string;
+  // Positive money in, negative money out
+  amount: number;
+  label: string;
+  sourceId?: string;
+}
+
+export interface ForecastWeek {
+  start: string;
+  end: string;
+  openingBalance: number;
+  receipts: number;
+  payments: number;
+  closingBalance: number;
+  flows: ForecastFlow[];
+  isLow: boolean;
+}
+
+export interface CashForecast {
+  openingBalance: number;
+  weeks: ForecastWeek[];
+  lowestBalance: number;
+  // First week closing under the threshold, if any
+  firstLowWeek: ForecastWeek | null;
+}
+
+export const FORECAST_FLOW_LABELS: Record<ForecastFlowKind, string> = {
+  invoice: 'Invoice',
+  retention: 'Retention release',
+  deposit: 'Quote deposit',
+  quote: 'Accepted quote',
+  bill: 'Bill',
+  vat: 'VAT return',
+};
+
+/**
+ * The columns of a payables row the forecast reads.
+ */
+export interface ForecastBillRow {
+  id: string;
+  vendor_name: string;
+  amount: number;
+  amount_paid: number | null;
+  cis_deduction?: number | null;
+  invoice_date: string | null;
+  due_date?: string | null;
+  status: string | null;
+}
+
+type TotalsSettings = Parameters<typeof calculateDocumentTotal>[1];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const todayISO = (): string => new Date().toISOString().split('T')[0];
+
+const addDays = (iso: string, days: number): string => {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+// Nothing is expected before today
+const notBefore = (date: string, today: string): string => (date < today ? today : date);
+
+const isIssuedInvoice = (q: Quote): boolean =>
+  q.type === 'invoice' && q.status !== 'draft' && q.status !== 'declined' && q.status !== 'void';
+
+/**
+ * Average days each customer has paid after the due date (never below zero),
+ * from invoices they have paid in full.
+ */
+export function getCustomerPaymentDelays(quotes: Quote[], payments: InvoicePayment[]): Map<string, number> {
+  const delays = new Map<string, number[]>();
+
+  quotes
+    .filter(q => q.type === 'invoice' && q.status === 'paid')
+    .forEach(invoice => {
+      const invoicePayments = getPaymentsForInvoice(payments, invoice.id);
+      const paidOn = invoicePayments[invoicePayments.length - 1]?.paymentDate || invoice.paymentDate;
+      if (!paidOn) return;
+      const days = daysBetween(invoice.dueDate || invoice.date, paidOn);
+      delays.set(invoice.customerId, [...(delays.get(invoice.customerId) || []), days]);
+    });
+
+  return new Map([...delays].map(([customerId, days]) => [
+    customerId,
+    Math.max(0, Math.round(days.reduce((sum, d) => sum + d, 0) / days.length)),
+  ]));
+}
+
+/**
+ * Expected receipts from issued invoices: the balance due now, plus retention
+ * tranches that have a release date.
+ */
+export function getInvoiceReceipts(
+  quotes: Quote[],
+  payments: InvoicePayment[],
+  settings: TotalsSettings,
+  delays: Map<string, number>,
+  today: string = todayISO()
+): ForecastFlow[] {
+  return quotes
+    .filter(q => isIssuedInvoice(q) && q.status !== 'paid')
+    .flatMap(invoice => {
+      const delay = delays.get(invoice.customerId) || 0;
+      const invoiceTotal = calculateDocumentTotal(invoice, settings);
+      const { balanceDue } = summariseInvoicePayments(
+        invoiceTotal,
+        getPaymentsForInvoice(payments, invoice.id),
+        sumCredited(getCreditNotesForInvoice(quotes, invoice.id), settings)
+      );
+      const retention = getRetentionEntry(invoice, quotes, payments, settings, today);
+      const reference = `Invoice ${invoice.referenceNumber ?? invoice.title}`;
+
+      const dueNow = roundCurrency(balanceDue - (retention?.outstanding || 0));
+      const flows: ForecastFlow[] = dueNow > 0 ? [{
+        kind: 'invoice',
+        date: notBefore(addDays(invoice.dueDate || invoice.date, delay), today),
+        amount: dueNow,
+        label: reference,
+        sourceId: invoice.id,
+      }] : [];
+
+      (retention?.tranches || [])
+        .filter(tranche => tranche.outstanding > 0 && tranche.releaseDate)
+        .forEach(tranche => flows.push({
+          kind: 'retention',
+          date: notBefore(addDays(tranche.releaseDate!, delay), today),
+          amount: tranche.outstanding,
+          label: `${reference} retention`,
+          sourceId: invoice.id,
+        }));
+
+      return flows;
+    });
+}
+
+/**
+ * Expected receipts from accepted quotes not yet fully invoiced.
+ *
+ * An unpaid deposit is expected straight away. The rest is expected when the
+ * last scheduled visit for the job ends, plus payment terms and the customer's
+ * usual delay; quotes with no scheduled work have no date and are left out.
+ */
+export function getQuoteReceipts(
+  quotes: Quote[],
+  schedule: ScheduleEntry[],
+  settings: TotalsSettings,
+  delays: Map<string, number>,
+  today: string = todayISO()
+): ForecastFlow[] {
+  return quotes
+    .filter(q => (q.type === 'estimate' || q.type === 'quotation') && q.status === 'accepted')
+    .flatMap(quote => {
+      const total = calculateDocumentTotal(quote, settings);
+      const invoiced = quotes
+        .filter(q => q.parentQuoteId === quote.id && isIssuedInvoice(q))
+        .reduce((sum, q) => sum + calculateDocumentTotal(q, settings), 0);
+      let remaining = roundCurrency(total - invoiced);
+      if (remaining <= 0) return [];
+
+      const flows: ForecastFlow[] = [];
+      const label = `Quote ${quote.referenceNumber ?? quote.title}`;
+
+      // Once any stage has been invoiced the deposit has been billed
+      if (quote.partPaymentEnabled && quote.partPaymentValue && invoiced === 0) {
+        const deposit = roundCurrency(Math.min(
+          remaining,
+          quote.partPaymentType === 'percentage' ? total * (quote.partPaymentValue / 100) : quote.partPaymentValue
+        ));
+        if (deposit > 0) {
+          flows.push({ kind: 'deposit', date: today, amount: deposit, label: `${label} ${quote.partPaymentLabel || 'deposit'}`, sourceId: quote.id });
+          remaining = roundCurrency(remaining - deposit);
+        }
+      }
+
+      const workEnds = schedule
+        .filter(entry => quote.projectId && entry.projectId === quote.projectId)
+        .map(entry => entry.end.split('T')[0])
+        .sort();
+      const lastVisit = workEnds[workEnds.length - 1];
+      if (remaining > 0 && lastVisit) {
+        flows.push({
+          kind: 'quote',
+          date: notBefore(addDays(lastVisit, QUOTE_PAYMENT_TERMS_DAYS + (delays.get(quote.customerId) || 0)), today),
+          amount: remaining,
+          label,
+          sourceId: quote.id,
+        });
+      }
+
+      return flows;
+    });
+}
+
+/**
+ * Outgoings on unpaid bills, on their due date. CIS withheld from a
+ * subcontractor is paid to HMRC rather than the supplier, so it is left out.
+ */
+export function getBillPayments(bills: ForecastBillRow[], today: string = todayISO()): ForecastFlow[] {
+  return bills
+    .filter(bill => bill.status !== 'paid' && bill.status !== 'disputed')
+    .map(bill => ({
+      bill,
+      outstanding: roundCurrency(bill.amount - (bill.cis_deduction || 0) - (bill.amount_paid || 0)),
+    }))
+    .filter(({ outstanding }) => outstanding > 0)
+    .map(({ bill, outstanding }) => ({
+      kind: 'bill' as const,
+      date: notBefore(bill.due_date || bill.invoice_date || today, today),
+      amount: -outstanding,
+      label: bill.vendor_name,
+      sourceId: bill.id,
+    }));
+}
+
+/**
+ * VAT returns whose payment deadline falls on or before the horizon and has
+ * not passed. A refund shows as money in.
+ */
+export function getVatPayments(
+  periods: VatPeriodSummary[],
+  horizon: string,
+  today: string = todayISO()
+): ForecastFlow[] {
+  return periods
+    .filter(summary => summary.period.deadline >= today && summary.period.deadline <= horizon && summary.netVat !== 0)
+    .map(summary => ({
+      kind: 'vat' as const,
+      date: summary.period.deadline,
+      amount: -roundCurrency(summary.netVat),
+      label: `VAT return ${summary.period.label}`,
+      sourceId: summary.period.key,
+    }));
+}
+
+/**
+ * Last day of the forecast.
+ */
+export function getForecastHorizon(today: string = todayISO(), weeks: number = FORECAST_WEEKS): string {
+  return addDays(today, weeks * 7 - 1);
+}
+
+/**
+ * Roll the opening balance forward week by week. Weeks start today; flows
+ * after the horizon are ignored.
+ */
+export function buildCashForecast(
+  openingBalance: number,
+  flows: ForecastFlow[],
+  lowBalanceThreshold = 0,
+  today: string = todayISO(),
+  weeks: number = FORECAST_WEEKS
+): CashForecast {
+  const result: ForecastWeek[] = [];
+  let balance = roundCurrency(openingBalance);
+
+  for (let i = 0; i < weeks; i++) {
+    const start = addDays(today, i * 7);
+    const end = addDays(start, 6);
+    const weekFlows = flows
+      .filter(flow => notBefore(flow.date, today) >= start && notBefore(flow.date, today) <= end)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    const receipts = roundCurrency(weekFlows.filter(f => f.amount > 0).reduce((sum, f) => sum + f.amount, 0));
+    const payments = roundCurrency(weekFlows.filter(f => f.amount < 0).reduce((sum, f) => sum - f.amount, 0));
+    const closingBalance = roundCurrency(balance + receipts - payments);
+
+    result.push({
+      start,
+      end,
+      openingBalance: balance,
+      receipts,
+      payments,
+      closingBalance,
+      flows: weekFlows,
+      isLow: closingBalance < lowBalanceThreshold,
+    });
+    balance = closingBalance;
+  }
+
+  return {
+    openingBalance: roundCurrency(openingBalance),
+    weeks: result,
+    lowestBalance: Math.min(roundCurrency(openingBalance), ...result.map(w => w.closingBalance)),
+    firstLowWeek: result.find(w => w.isLow) || null,
+  };
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCisTaxMonth,
+  getRecentCisTaxMonths,
+  suggestPaymentCisDeduction,
+  calculateSubcontractorDeduction,
+  buildCisDeductionLines,
+  summariseCisByTaxMonth,
+  buildCis300Return,
+  cis300ToCsv,
+  type CisSubcontractor,
+} from './cis';
+import {
+  createMockInvoice,
+  createMockInvoicePayment,
+  createMockQuoteSection,
+  createMockMaterialItem,
+  createMockCustomer,
+  createMockSettings,
+} from '../test/factories';
+
+const settings = createMockSettings({ enableCis: true });
+
+// 600 materials + 8h at £50 = 1000 net, 200 VAT, 80 CIS on labour -> 1120 payable
+const invoice = createMockInvoice({
+  id: 'invoice-1',
+  customerId: 'contractor-1',
+  sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 600 })], labourHours: 8 })],
+});
+const contractor = createMockCustomer({ id: 'contractor-1', company: 'Big Build Ltd', utr: '1234567890' });
+
+describe('getCisTaxMonth', () => {
+  it('runs from the 6th to the 5th of the next month', () => {
+    expect(getCisTaxMonth('2026-05-06')).toMatchObject({ key: '2026-06-05', start: '2026-05-06', end: '2026-06-05' });
+    expect(getCisTaxMonth('2026-06-05').key).toBe('2026-06-05');
+  });
+
+  it('numbers months from the start of the tax year', () => {
+    expect(getCisTaxMonth('2026-04-06')).toMatchObject({ key: '2026-05-05', taxYear: '2026/27', monthNumber: 1 });
+    expect(getCisTaxMonth('2027-04-05')).toMatchObject({ key: '2027-04-05', taxYear: '2026/27', monthNumber: 12 });
+  });
+
+  it('rolls over the year end', () => {
+    expect(getCisTaxMonth('2026-12-20')).toMatchObject({ key: '2027-01-05', start: '2026-12-06', taxYear: '2026/27', monthNumber: 9 });
+  });
+});
+
+describe('getRecentCisTaxMonths', () => {
+  it('lists months latest first', () => {
+    expect(getRecentCisTaxMonths(3, '2026-01-10').map(m => m.key)).toEqual(['2026-02-05', '2026-01-05', '2025-12-05']);
+  });
+});
+
+describe('suggestPaymentCisDeduction', () => {
+  it('withholds CIS in proportion to the payment', () => {
+    expect(suggestPaymentCisDeduction({ grandTotal: 1120, cisAmount: 80 }, 1120)).toBe(80);
+    expect(suggestPaymentCisDeduction({ grandTotal: 1120, cisAmount: 80 }, 560)).toBe(40);
+  });
+
+  it('is zero without CIS', () => {
+    expect(suggestPaymentCisDeduction({ grandTotal: 1200, cisAmount: 0 }, 600)).toBe(0);
+  });
+});
+
+describe('calculateSubcontractorDeduction', () => {
+  it('applies the verified rate to labour', () => {
+    expect(calculateSubcontractorDeduction(1000, 'standard')).toBe(200);
+    expect(calculateSubcontractorDeduction(1000, 'higher')).toBe(300);
+    expect(calculateSubcontractorDeduction(1000, 'gross')).toBe(0);
+  });
+
+  it('rounds down to the penny', () => {
+    expect(calculateSubcontractorDeduction(333.33, 'standard')).toBe(66.66);
+    expect(calculateSubcontractorDeduction(100.05, 'higher')).toBe(30.01);
+  });
+});
+
+describe('buildCisDeductionLines', () => {
+  it('splits each payment into gross, materials and CIS', () => {
+    const payments = [createMockInvoicePayment({ id: 'p1', amount: 1120, cisDeducted: 80, paymentDate: '2026-05-10' })];
+    const [line] = buildCisDeductionLines([invoice], payments, [contractor], settings);
+
+    expect(line).toMatchObject({
+      contractorName: 'Big Build Ltd',
+      contractorUtr: '1234567890',
+      grossAmount: 1000,
+      labour: 400,
+      materials: 600,
+      cisDeducted: 80,
+      netPaid: 1120,
+    });
+  });
+
+  it('takes a share of the invoice for part payments', () => {
+    const payments = [createMockInvoicePayment({ amount: 560, cisDeducted: 40 })];
+    expect(buildCisDeductionLines([invoice], payments, [contractor], settings)[0]).toMatchObject({
+      grossAmount: 500, labour: 200, materials: 300,
+    });
+  });
+
+  it('ignores payments without a deduction', () => {
+    const payments = [createMockInvoicePayment({ amount: 1120 })];
+    expect(buildCisDeductionLines([invoice], payments, [contractor], settings)).toEqual([]);
+  });
+});
+
+describe('summariseCisByTaxMonth', () => {
+  it('groups deductions by tax month, latest first', () => {
+    const payments = [
+      createMockInvoicePayment({ id: 'p1', amount: 560, cisDeducted: 40, paymentDate: '2026-05-05' }),
+      createMockInvoicePayment({ id: 'p2', amount: 280, cisDeducted: 20, paymentDate: '2026-05-06' }),
+      createMockInvoicePayment({ id: 'p3', amount: 280, cisDeducted: 20, paymentDate: '2026-06-01' }),
+    ];
+    const summaries = summariseCisByTaxMonth(buildCisDeductionLines([invoice], payments, [contractor], settings));
+
+    expect(summaries.map(s => [s.taxMonth.key, s.lines.length, s.cisDeducted, s.netPaid])).toEqual([
+      ['2026-06-05', 2, 40, 560],
+      ['2026-05-05', 1, 40, 560],
+    ]);
+  });
+});
+
+describe('buildCis300Return', () => {
+  const subcontractors: CisSubcontractor[] = [
+    { id: 'sub-1', name: 'Sparks Electrical', utr: '1111111111', verificationNumber: 'V1234567890', taxTreatment: 'standard', isActive: true },
+    { id: 'sub-2', name: 'Acme Plastering', utr: '2222222222', taxTreatment: 'gross', isActive: true },
+  ];
+  const payables = [
+    { id: 'b1', subcontractor_id: 'sub-1', status: 'paid', paid_date: '2026-05-10', cis_labour_amount: 1000, cis_materials_amount: 250, cis_deduction: 200 },
+    { id: 'b2', subcontractor_id: 'sub-1', status: 'paid', paid_date: '2026-06-05', cis_labour_amount: 500, cis_materials_amount: 0, cis_deduction: 100 },
+    { id: 'b3', subcontractor_id: 'sub-2', status: 'paid', paid_date: '2026-05-20', cis_labour_amount: 800, cis_materials_amount: 100, cis_deduction: 0 },
+    // Outside the month, unpaid, or not a CIS subcontractor
+    { id: 'b4', subcontractor_id: 'sub-1', status: 'paid', paid_date: '2026-06-06', cis_labour_amount: 100, cis_materials_amount: 0, cis_deduction: 20 },
+    { id: 'b5', subcontractor_id: 'sub-2', status: 'unpaid', paid_date: null, cis_labour_amount: 100, cis_materials_amount: 0, cis_deduction: 0 },
+    { id: 'b6', subcontractor_id: null, status: 'paid', paid_date: '2026-05-10', cis_labour_amount: null, cis_materials_amount: null, cis_deduction: null },
+  ];
+
+  it('totals payments per subcontractor for the tax month', () => {
+    const cisReturn = buildCis300Return(payables, subcontractors, '2026-06-05');
+
+    expect(cisReturn.lines.map(l => [l.subcontractor.name, l.grossAmount, l.materials, l.deduction])).toEqual([
+      ['Acme Plastering', 900, 100, 0],
+      ['Sparks Electrical', 1750, 250, 300],
+    ]);
+    expect(cisReturn).toMatchObject({ grossAmount: 2650, materials: 350, deduction: 300 });
+  });
+
+  it('is a nil return when nothing was paid', () => {
+    expect(buildCis300Return(payables, subcontractors, '2026-09-05').lines).toEqual([]);
+  });
+
+  it('exports the return as CSV', () => {
+    const csv = cis300ToCsv(buildCis300Return(payables, subcontractors, '2026-06-05'), { utr: '9999999999', accountsOfficeReference: '123PA00012345' });
+    const rows = csv.split('\n');
+
+    expect(rows[0]).toBe('Contractor UTR,9999999999');
+    expect(rows[2]).toBe('Tax Month Ending,2026-06-05');
+    expect(rows).toContain('Sparks Electrical,1111111111,V1234567890,Standard (20%),1750.00,250.00,300.00');
+    expect(rows[rows.length - 1]).toBe('Total,,,,2650.00,350.00,300.00');
+  });
+});
@@ -0,0 +1,363 @@
+import type { Quote, InvoicePayment, Customer, AppSettings } from '../../types';
+import { calculateDocumentTotals, getDocumentHeadlineTotals } from './quoteCalculations';
+
+export type CisTaxTreatment = 'gross' | 'standard' | 'higher';
+
+// Deduction rates HMRC sets for each verified status
+export const CIS_RATES: Record<CisTaxTreatment, number> = {
+  gross: 0,
+  standard: 20,
+  higher: 30,
+};
+
+export const CIS_TREATMENT_LABELS: Record<CisTaxTreatment, string> = {
+  gross: 'Gross (0%)',
+  standard: 'Standard (20%)',
+  higher: 'Unmatched (30%)',
+};
+
+export interface CisSubcontractor {
+  id: string;
+  name: string;
+  utr?: string;
+  verificationNumber?: string;
+  taxTreatment: CisTaxTreatment;
+  isActive: boolean;
+}
+
+/**
+ * A CIS tax month runs from the 6th of one month to the 5th of the next.
+ * It is identified by the date it ends on, as HMRC does.
+ */
+export interface CisTaxMonth {
+  key: string;
+  start: string;
+  end: string;
+  // e.g. '2025/26'
+  taxYear: string;
+  // 1 = 6 April to 5 May ... 12 = 6 March to 5 April
+  monthNumber: number;
+}
+
+/**
+ * One payment received under deduction, as shown on the contractor's statement.
+ */
+export interface CisDeductionLine {
+  payment: InvoicePayment;
+  invoice: Quote;
+  contractorName: string;
+  contractorUtr?: string;
+  grossAmount: number;
+  materials: number;
+  labour: number;
+  cisDeducted: number;
+  netPaid: number;
+}
+
+export interface CisMonthSummary {
+  taxMonth: CisTaxMonth;
+  lines: CisDeductionLine[];
+  grossAmount: number;
+  materials: number;
+  cisDeducted: number;
+  netPaid: number;
+}
+
+/**
+ * The minimum a subcontractor payable needs for the monthly return.
+ */
+export interface CisPayableInput {
+  id: string;
+  subcontractor_id?: string | null;
+  paid_date?: string | null;
+  status: string | null;
+  cis_labour_amount?: number | null;
+  cis_materials_amount?: number | null;
+  cis_deduction?: number | null;
+}
+
+export interface Cis300Line {
+  subcontractor: CisSubcontractor;
+  grossAmount: number;
+  materials: number;
+  deduction: number;
+}
+
+export interface Cis300Return {
+  taxMonth: CisTaxMonth;
+  lines: Cis300Line[];
+  grossAmount: number;
+  materials: number;
+  deduction: number;
+}
+
+/**
+ * Map a cis_subcontractors row to the app shape.
+ */
+export function toCisSubcontractor(row: {
+  id: string;
+  name: string;
+  utr: string | null;
+  verification_number: string | null;
+  tax_treatment: string;
+  is_active: boolean;
+}): CisSubcontractor {
+  return {
+    id: row.id,
+    name: row.name,
+    utr: row.utr || undefined,
+    verificationNumber: row.verification_number || undefined,
+    taxTreatment: (row.tax_treatment as CisTaxTreatment) || 'standard',
+    isActive: row.is_active,
+  };
+}
+
+type TotalsSettings = Pick<AppSettings, 'enableVat' | 'enableCis' | 'defaultLabourRate' | 'defaultDisplayOptions'>;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const todayISO = (): string => new Date().toISOString().split('T')[0];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const toISO = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+/**
+ * The CIS tax month an ISO date falls in.
+ */
+export function getCisTaxMonth(date: string): CisTaxMonth {
+  const [year, month, day] = date.split('-').map(Number);
+
+  // On or before the 5th belongs to the month ending this month
+  let endYear = year;
+  let endMonth = day <= 5 ? month : month + 1;
+  if (endMonth > 12) {
+    endMonth = 1;
+    endYear += 1;
+  }
+  const startYear = endMonth === 1 ? endYear - 1 : endYear;
+  const startMonth = endMonth === 1 ? 12 : endMonth - 1;
+
+  // Tax years start on 6 April, so the month ending 5 May is month 1
+  const taxYearStart = endMonth >= 5 ? endYear : endYear - 1;
+  const monthNumber = ((endMonth - 5 + 12) % 12) + 1;
+
+  return {
+    key: toISO(endYear, endMonth, 5),
+    start: toISO(startYear, startMonth, 6),
+    end: toISO(endYear, endMonth, 5),
+    taxYear: `${taxYearStart}/${pad((taxYearStart + 1) % 100)}`,
+    monthNumber,
+  };
+}
+
+/**
+ * The most recent tax months up to and including the one `today` falls in,
+ * latest first.
+ */
+export function getRecentCisTaxMonths(count: number, today: string = todayISO()): CisTaxMonth[] {
+  const months: CisTaxMonth[] = [];
+  let month = getCisTaxMonth(today);
+  for (let i = 0; i < count; i++) {
+    months.push(month);
+    // The 5th of the month this one starts in ends the previous tax month
+    month = getCisTaxMonth(month.start.replace(/-06$/, '-05'));
+  }
+  return months;
+}
+
+/**
+ * CIS a contractor should withhold from a payment, in proportion to the
+ * invoice's total deduction.
+ */
+export function suggestPaymentCisDeduction(
+  totals: { grandTotal: number; cisAmount: number },
+  paymentAmount: number
+): number {
+  if (totals.cisAmount <= 0 || totals.grandTotal <= 0) return 0;
+  return roundCurrency(totals.cisAmount * Math.min(1, paymentAmount / totals.grandTotal));
+}
+
+/**
+ * Deduction to withhold from a subcontractor. HMRC rounds down to the penny.
+ */
+export function calculateSubcontractorDeduction(labour: number, treatment: CisTaxTreatment): number {
+  return Math.floor(roundCurrency(Math.max(0, labour) * CIS_RATES[treatment]) + 0.0001) / 100;
+}
+
+/**
+ * Statement lines for every payment received with CIS deducted.
+ * Each payment covers a share of the invoice, so the gross and materials
+ * figures are the same share of the invoice's net value.
+ */
+export function buildCisDeductionLines(
+  quotes: Quote[],
+  payments: InvoicePayment[],
+  customers: Customer[],
+  settings: TotalsSettings
+): CisDeductionLine[] {
+  return payments
+    .filter(p => (p.cisDeducted || 0) > 0)
+    .flatMap(payment => {
+      const invoice = quotes.find(q => q.id === payment.invoiceId);
+      if (!invoice) return [];
+
+      const totals = getDocumentHeadlineTotals(invoice, settings);
+      const invoiceGross = totals.grandTotal + totals.cisAmount;
+      const cisDeducted = payment.cisDeducted || 0;
+      const share = invoiceGross > 0 ? Math.min(1, (payment.amount + cisDeducted) / invoiceGross) : 0;
+
+      const grossAmount = roundCurrency(totals.afterDiscount * share);
+      // Labour is not stored with the totals, so it comes from the engine
+      const labour = roundCurrency(Math.min(calculateDocumentTotals(invoice, settings).labourTotal * share, grossAmount));
+      const customer = customers.find(c => c.id === invoice.customerId);
+
+      return [{
+        payment,
+        invoice,
+        contractorName: customer?.company || customer?.name || 'Unknown Contractor',
+        contractorUtr: customer?.utr,
+        grossAmount,
+        materials: roundCurrency(grossAmount - labour),
+        labour,
+        cisDeducted,
+        netPaid: payment.amount,
+      }];
+    })
+    .sort((a, b) => a.payment.paymentDate.localeCompare(b.payment.paymentDate));
+}
+
+/**
+ * Deductions suffered grouped by tax month, latest month first.
+ */
+export function summariseCisByTaxMonth(lines: CisDeductionLine[]): CisMonthSummary[] {
+  const months = new Map<string, CisMonthSummary>();
+
+  for (const line of lines) {
+    const taxMonth = getCisTaxMonth(line.payment.paymentDate);
+    const summary = months.get(taxMonth.key) || {
+      taxMonth, lines: [], grossAmount: 0, materials: 0, cisDeducted: 0, netPaid: 0,
+    };
+    summary.lines.push(line);
+    summary.grossAmount = roundCurrency(summary.grossAmount + line.grossAmount);
+    summary.materials = roundCurrency(summary.materials + line.materials);
+    summary.cisDeducted = roundCurrency(summary.cisDeducted + line.cisDeducted);
+    summary.netPaid = roundCurrency(summary.netPaid + line.netPaid);
+    months.set(taxMonth.key, summary);
+  }
+
+  return [...months.values()].sort((a, b) => b.taxMonth.key.localeCompare(a.taxMonth.key));
+}
+
+/**
+ * CIS deducted from payments received between two ISO dates, inclusive.
+ */
+export function totalCisSuffered(lines: CisDeductionLine[], from: string, to: string): number {
+  return roundCurrency(lines
+    .filter(l => l.payment.paymentDate.slice(0, 10) >= from && l.payment.paymentDate.slice(0, 10) <= to)
+    .reduce((sum, l) => sum + l.cisDeducted, 0));
+}
+
+/**
+ * Monthly return of payments made to subcontractors (CIS300), one line per
+ * subcontractor paid in the tax month.
+ */
+export function buildCis300Return(
+  payables: CisPayableInput[],
+  subcontractors: CisSubcontractor[],
+  taxMonthKey: string
+): Cis300Return {
+  const taxMonth = getCisTaxMonth(taxMonthKey);
+  const bySubcontractor = new Map<string, Cis300Line>();
+
+  for (const payable of payables) {
+    if (!payable.subcontractor_id || payable.status !== 'paid' || !payable.paid_date) continue;
+    if (payable.paid_date < taxMonth.start || payable.paid_date > taxMonth.end) continue;
+
+    const subcontractor = subcontractors.find(s => s.id === payable.subcontractor_id);
+    if (!subcontractor) continue;
+
+    const materials = Number(payable.cis_materials_amount) || 0;
+    const labour = Number(payable.cis_labour_amount) || 0;
+    const line = bySubcontractor.get(subcontractor.id) || { subcontractor, grossAmount: 0, materials: 0, deduction: 0 };
+    line.grossAmount = roundCurrency(line.grossAmount + labour + materials);
+    line.materials = roundCurrency(line.materials + materials);
+    line.deduction = roundCurrency(line.deduction + (Number(payable.cis_deduction) || 0));
+    bySubcontractor.set(subcontractor.id, line);
+  }
+
+  const lines = [...bySubcontractor.values()].sort((a, b) => a.subcontractor.name.localeCompare(b.subcontractor.name));
+
+  return {
+    taxMonth,
+    lines,
+    grossAmount: roundCurrency(lines.reduce((sum, l) => sum + l.grossAmount, 0)),
+    materials: roundCurrency(lines.reduce((sum, l) => sum + l.materials, 0)),
+    deduction: roundCurrency(lines.reduce((sum, l) => sum + l.deduction, 0)),
+  };
+}
+
+const escapeCsvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+/**
+ * CSV of deductions suffered, one row per payment, for self-assessment.
+ */
+export function cisDeductionsToCsv(summaries: CisMonthSummary[]): string {
+  const rows: (string | number | undefined)[][] = [[
+    'Tax Month Ending', 'Payment Date', 'Contractor', 'Contractor UTR', 'Invoice',
+    'Gross Amount', 'Materials', 'CIS Deducted', 'Net Paid',
+  ]];
+  for (const summary of summaries) {
+    for (const line of summary.lines) {
+      rows.push([
+        summary.taxMonth.key,
+        line.payment.paymentDate,
+        line.contractorName,
+        line.contractorUtr,
+        line.invoice.title,
+        line.grossAmount.toFixed(2),
+        line.materials.toFixed(2),
+        line.cisDeducted.toFixed(2),
+        line.netPaid.toFixed(2),
+      ]);
+    }
+  }
+  return toCsv(rows);
+}
+
+/**
+ * CSV of a monthly return, laid out like the CIS300 subcontractor table.
+ */
+export function cis300ToCsv(
+  cisReturn: Cis300Return,
+  contractor: { utr?: string; accountsOfficeReference?: string }
+): string {
+  const rows: (string | number | undefined)[][] = [
+    ['Contractor UTR', contractor.utr],
+    ['Accounts Office Reference', contractor.accountsOfficeReference],
+    ['Tax Month Ending', cisReturn.taxMonth.key],
+    [],
+    ['Subcontractor', 'UTR', 'Verification Number', 'Tax Treatment', 'Total Payments', 'Cost of Materials', 'Amount Deducted'],
+    ...cisReturn.lines.map(line => [
+      line.subcontractor.name,
+      line.subcontractor.utr,
+      line.subcontractor.verificationNumber,
+      CIS_TREATMENT_LABELS[line.subcontractor.taxTreatment],
+      line.grossAmount.toFixed(2),
+      line.materials.toFixed(2),
+      line.deduction.toFixed(2),
+    ]),
+    ['Total', '', '', '', cisReturn.grossAmount.toFixed(2), cisReturn.materials.toFixed(2), cisReturn.deduction.toFixed(2)],
+  ];
+  return toCsv(rows);
+}
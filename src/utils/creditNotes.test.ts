@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDocumentPrefix,
+  getCreditNotesForInvoice,
+  sumCredited,
+  getCreditableAmount,
+  buildCreditNote,
+} from './creditNotes';
+import { calculateDocumentTotals, calculateDocumentTotal } from './quoteCalculations';
+import {
+  createMockInvoice,
+  createMockCreditNote,
+  createMockQuoteSection,
+  createMockMaterialItem,
+  createMockSettings,
+} from '../test/factories';
+
+const settings = createMockSettings();
+
+// 2 sections: (100 + 2h labour @ 50) and (40 materials only), 20% VAT
+const invoice = createMockInvoice({
+  id: 'invoice-1',
+  status: 'sent',
+  labourRate: 50,
+  sections: [
+    createMockQuoteSection({
+      id: 's1',
+      items: [
+        createMockMaterialItem({ id: 'h1', name: 'Kitchen', isHeading: true, totalPrice: 0 }),
+        createMockMaterialItem({ id: 'm1', totalPrice: 60 }),
+        createMockMaterialItem({ id: 'm2', totalPrice: 40 }),
+      ],
+      labourHours: 2,
+      subsectionPrice: 210,
+    }),
+    createMockQuoteSection({
+      id: 's2',
+      items: [createMockMaterialItem({ id: 'm3', totalPrice: 40 })],
+    }),
+  ],
+});
+
+describe('creditNotes utilities', () => {
+  describe('getDocumentPrefix', () => {
+    it('uses a separate prefix for each series', () => {
+      expect(getDocumentPrefix('invoice', settings)).toBe('INV-');
+      expect(getDocumentPrefix('credit_note', settings)).toBe('CN-');
+      expect(getDocumentPrefix('quotation', settings)).toBe('Q-');
+    });
+
+    it('falls back to CN- when no credit note prefix is set', () => {
+      expect(getDocumentPrefix('credit_note', { ...settings, creditNotePrefix: undefined })).toBe('CN-');
+    });
+  });
+
+  describe('buildCreditNote', () => {
+    it('reverses the whole invoice by default', () => {
+      const cn = buildCreditNote(invoice, { reason: 'Job cancelled' });
+
+      expect(cn.type).toBe('credit_note');
+      expect(cn.parentQuoteId).toBe('invoice-1');
+      expect(cn.notes).toBe('Job cancelled');
+      expect(cn.id).toBe('');
+      expect(cn.referenceNumber).toBeUndefined();
+      expect(cn.dueDate).toBeUndefined();
+      expect(calculateDocumentTotals(cn, settings).grandTotal)
+        .toBe(calculateDocumentTotals(invoice, settings).grandTotal);
+      expect(calculateDocumentTotal(cn, settings)).toBeLessThan(0);
+    });
+
+    it('does not carry over the recurring schedule link', () => {
+      const generated = { ...invoice, recurringInvoiceId: 'rec-1', recurrenceDate: '2026-01-01' };
+      const cn = buildCreditNote(generated);
+
+      expect(cn.recurringInvoiceId).toBeUndefined();
+      expect(cn.recurrenceDate).toBeUndefined();
+    });
+
+    it('reverses only the selected lines', () => {
+      const cn = buildCreditNote(invoice, {
+        sections: [{ sectionId: 's1', itemIds: ['m2'], includeLabour: false }],
+      });
+
+      expect(cn.sections).toHaveLength(1);
+      expect(cn.sections[0].items.map(i => i.id)).toEqual(['m2']);
+      expect(cn.sections[0].subsectionPrice).toBeUndefined();
+      // £40 net + 20% VAT
+      expect(calculateDocumentTotals(cn, settings).grandTotal).toBe(48);
+    });
+
+    it('keeps a section price override when the whole section is reversed', () => {
+      const cn = buildCreditNote(invoice, {
+        sections: [{ sectionId: 's1', itemIds: ['m1', 'm2'], includeLabour: true }],
+      });
+      expect(cn.sections[0].subsectionPrice).toBe(210);
+    });
+
+    it('can reverse labour without materials', () => {
+      const cn = buildCreditNote(invoice, {
+        sections: [{ sectionId: 's1', itemIds: [], includeLabour: true }],
+      });
+      expect(cn.sections[0].items).toEqual([]);
+      expect(calculateDocumentTotals(cn, settings).clientSubtotal).toBe(100);
+    });
+
+    it('drops sections with nothing selected', () => {
+      const cn = buildCreditNote(invoice, {
+        sections: [{ sectionId: 's2', itemIds: [], includeLabour: false }],
+      });
+      expect(cn.sections).toEqual([]);
+    });
+
+    it('keeps a percentage discount but drops a fixed one on partial credits', () => {
+      const selection = { sections: [{ sectionId: 's2', itemIds: ['m3'], includeLabour: false }] };
+
+      const pct = buildCreditNote({ ...invoice, discountType: 'percentage', discountValue: 10 }, selection);
+      expect(pct.discountType).toBe('percentage');
+
+      const fixed = buildCreditNote({ ...invoice, discountType: 'fixed', discountValue: 25 }, selection);
+      expect(fixed.discountType).toBeUndefined();
+      expect(fixed.discountValue).toBeUndefined();
+
+      const fullFixed = buildCreditNote({ ...invoice, discountType: 'fixed', discountValue: 25 });
+      expect(fullFixed.discountValue).toBe(25);
+    });
+  });
+
+  describe('credited amounts', () => {
+    const partial = createMockCreditNote({
+      id: 'cn-1',
+      sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 40 })] })],
+    });
+    const draft = createMockCreditNote({ id: 'cn-2', status: 'draft', sections: partial.sections });
+    const other = createMockCreditNote({ id: 'cn-3', parentQuoteId: 'invoice-2', sections: partial.sections });
+
+    it('only counts issued credit notes for the invoice', () => {
+      const notes = getCreditNotesForInvoice([invoice, partial, draft, other], 'invoice-1');
+      expect(notes.map(n => n.id)).toEqual(['cn-1']);
+    });
+
+    it('sums credit notes as a positive amount', () => {
+      expect(sumCredited([partial, other], settings)).toBe(96);
+    });
+
+    it('caps what can still be credited at the invoice total', () => {
+      expect(getCreditableAmount(300, 48)).toBe(252);
+      expect(getCreditableAmount(300, 350)).toBe(0);
+    });
+  });
+});
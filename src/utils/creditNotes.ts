@@ -0,0 +1,139 @@
+import type { Quote, QuoteSection, AppSettings } from '../../types';
+import { calculateDocumentTotals, getDocumentHeadlineTotals } from './quoteCalculations';
+
+/**
+ * Which parts of one invoice section a credit note reverses.
+ */
+export interface CreditNoteSectionSelection {
+  sectionId: string;
+  itemIds: string[];
+  includeLabour: boolean;
+}
+
+export interface CreditNoteOptions {
+  // Omit to reverse the whole invoice
+  sections?: CreditNoteSectionSelection[];
+  reason?: string;
+  date?: string;
+}
+
+type TotalsSettings = Parameters<typeof calculateDocumentTotals>[1];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Reference prefix for a document's numbering series.
+ */
+export function getDocumentPrefix(
+  type: Quote['type'],
+  settings: Pick<AppSettings, 'quotePrefix' | 'invoicePrefix' | 'creditNotePrefix'>
+): string {
+  if (type === 'invoice') return settings.invoicePrefix || 'INV-';
+  if (type === 'credit_note') return settings.creditNotePrefix || 'CN-';
+  return settings.quotePrefix || 'EST-';
+}
+
+/**
+ * Issued (non-draft) credit notes raised against an invoice, oldest first.
+ */
+export function getCreditNotesForInvoice(quotes: Quote[], invoiceId: string): Quote[] {
+  return quotes
+    .filter(q => q.type === 'credit_note' && q.parentQuoteId === invoiceId && q.status !== 'draft')
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/**
+ * Total value credited by a set of credit notes, as a positive amount.
+ */
+export function sumCredited(creditNotes: Quote[], settings: TotalsSettings): number {
+  return roundCurrency(
+    creditNotes.reduce((sum, cn) => sum + getDocumentHeadlineTotals(cn, settings).grandTotal, 0)
+  );
+}
+
+/**
+ * How much of an invoice can still be credited. Never negative.
+ */
+export function getCreditableAmount(invoiceTotal: number, creditedAmount: number): number {
+  return Math.max(0, roundCurrency(invoiceTotal - creditedAmount));
+}
+
+const reverseSection = (
+  section: QuoteSection,
+  selection: CreditNoteSectionSelection
+): QuoteSection | null => {
+  const billableItems = section.items.filter(item => !item.isHeading);
+  const items = billableItems.filter(item => selection.itemIds.includes(item.id));
+  if (items.length === 0 && !selection.includeLabour) return null;
+
+  const isWholeSection = selection.includeLabour && items.length === billableItems.length;
+  if (isWholeSection) return { ...section };
+
+  return {
+    ...section,
+    items,
+    labourHours: selection.includeLabour ? section.labourHours : 0,
+    labourCost: selection.includeLabour ? section.labourCost : undefined,
+    labourItems: selection.includeLabour ? section.labourItems : [],
+    // A price override only applies to the section as a whole
+    subsectionPrice: undefined,
+  };
+};
+
+/**
+ * Build a credit note reversing all or part of an invoice.
+ * Lines are copied with their original prices; the credit note's stored
+ * totals are negated when it is saved. A fixed discount only carries over on
+ * a full reversal, while a percentage discount applies pro rata to the
+ * lines selected.
+ */
+export function buildCreditNote(invoice: Quote, options: CreditNoteOptions = {}): Quote {
+  const now = new Date().toISOString();
+  const isFullReversal = !options.sections;
+
+  const sections = isFullReversal
+    ? invoice.sections.map(section => ({ ...section }))
+    : invoice.sections
+        .map(section => {
+          const selection = options.sections!.find(s => s.sectionId === section.id);
+          return selection ? reverseSection(section, selection) : null;
+        })
+        .filter((section): section is QuoteSection => section !== null);
+
+  const keepDiscount = isFullReversal || invoice.discountType === 'percentage';
+
+  return {
+    ...invoice,
+    id: '',
+    type: 'credit_note',
+    savedTotals: undefined,
+    status: 'sent',
+    referenceNumber: undefined,
+    date: options.date || now.split('T')[0],
+    sections,
+    notes: options.reason || '',
+    parentQuoteId: invoice.id,
+    discountType: keepDiscount ? invoice.discountType : undefined,
+    discountValue: keepDiscount ? invoice.discountValue : undefined,
+    discountDescription: keepDiscount ? invoice.discountDescription : undefined,
+    // Nothing is due on a credit note
+    dueDate: undefined,
+    paymentDate: undefined,
+    paymentMethod: undefined,
+    amountPaid: undefined,
+    partPaymentEnabled: false,
+    partPaymentType: undefined,
+    partPaymentValue: undefined,
+    partPaymentLabel: undefined,
+    retentionPercent: undefined,
+    practicalCompletionDate: undefined,
+    defectsPeriodEndDate: undefined,
+    // Only the generated invoice itself belongs to the recurring schedule
+    recurringInvoiceId: undefined,
+    recurrenceDate: undefined,
+    // ...or bills a payment milestone
+    milestoneId: undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
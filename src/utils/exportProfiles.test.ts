@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  buildProfileFiles,
+  getProfileAccount,
+  getProfileTaxCode,
+  toFreeAgentBankStatementCsv,
+  type ProfileExportData,
+} from './exportProfiles';
+import { getExpenseAccountCode } from './ledger';
+
+// Run with UPDATE_GOLDEN=1 to rewrite the expected files after an intended format change
+const GOLDEN_DIR = resolve(__dirname, '../test/golden/exportProfiles');
+
+const expectGolden = (name: string, actual: string) => {
+  const path = resolve(GOLDEN_DIR, name);
+  if (process.env.UPDATE_GOLDEN) {
+    if (!existsSync(GOLDEN_DIR)) mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(path, actual);
+  }
+  expect(actual).toBe(readFileSync(path, 'utf8'));
+};
+
+const data: ProfileExportData = {
+  sales: [
+    {
+      number: 'INV-0001',
+      type: 'invoice',
+      date: '2026-04-10',
+      dueDate: '2026-05-10',
+      contactName: 'Smith, J',
+      reverseCharge: false,
+      lines: [
+        { description: 'Kitchen refit (Standard 20%)', net: 1000, vat: 200, vatRate: 'standard' },
+        { description: 'Kitchen refit (Reduced 5%)', net: 400, vat: 20, vatRate: 'reduced' },
+      ],
+    },
+    {
+      number: 'INV-0002',
+      type: 'invoice',
+      date: '2026-04-20',
+      dueDate: '2026-05-20',
+      contactName: 'Big Build Ltd',
+      reverseCharge: true,
+      lines: [{ description: 'First fix electrics', net: 2500, vat: 0, vatRate: 'standard' }],
+    },
+    {
+      number: 'CN-0003',
+      type: 'credit_note',
+      date: '2026-04-25',
+      dueDate: '2026-04-25',
+      contactName: 'Smith, J',
+      reference: 'INV-0001',
+      reverseCharge: false,
+      lines: [{ description: 'Refund for "spare" tiles', net: -50, vat: -10, vatRate: 'standard' }],
+    },
+  ],
+  purchases: [
+    {
+      kind: 'bill',
+      number: 'B-77',
+      date: '2026-04-12',
+      dueDate: '2026-05-12',
+      supplier: 'Timber Co',
+      description: 'Timber',
+      category: 'Materials',
+      net: 300,
+      vat: 60,
+      vatRate: 'standard',
+      reverseCharge: false,
+    },
+    {
+      kind: 'expense',
+      date: '2026-04-15',
+      dueDate: '2026-04-15',
+      supplier: 'Shell',
+      description: 'Diesel',
+      category: 'fuel',
+      net: 50,
+      vat: 10,
+      vatRate: 'standard',
+      reverseCharge: false,
+      paidInCash: true,
+    },
+    {
+      kind: 'expense',
+      date: '2026-04-18',
+      dueDate: '2026-04-18',
+      supplier: 'Post Office',
+      description: 'Stamps',
+      category: 'office',
+      net: 8.5,
+      vat: 0,
+      vatRate: 'exempt',
+      reverseCharge: false,
+    },
+  ],
+  bankTransactions: [
+    { date: '2026-04-11', description: 'FPS SMITH J', amount: 1620 },
+    { date: '2026-04-15', description: 'CARD SHELL, A1', amount: -60 },
+  ],
+  contacts: [
+    { name: 'Big Build Ltd', email: 'accounts@bigbuild.co.uk', address: 'Unit 4\nTrade Park' },
+    { name: 'Smith, J', phone: '07700 900123' },
+  ],
+};
+
+describe('profile mappings', () => {
+  it('maps expense categories through the ledger account', () => {
+    expect(getExpenseAccountCode('Materials')).toBe('5000');
+    expect(getExpenseAccountCode('Labour')).toBe('5100');
+    expect(getExpenseAccountCode('Van hire')).toBe('6900');
+    expect(getExpenseAccountCode('Office')).toBe('6300');
+    expect(getExpenseAccountCode('Mobile phone')).toBe('6200');
+    expect(getProfileAccount('xero', '6300')).toBe('453');
+    expect(getExpenseAccountCode(undefined)).toBe('6900');
+    expect(getProfileAccount('xero', '5300')).toBe('449');
+    expect(getProfileAccount('quickbooks', '5000')).toBe('Cost of sales');
+    expect(getProfileAccount('freeagent', '5000')).toBe('');
+  });
+
+  it('maps VAT rate codes to each package tax code', () => {
+    expect(getProfileTaxCode('xero', 'sales', 'reduced')).toBe('5% (VAT on Income)');
+    expect(getProfileTaxCode('xero', 'purchases', 'standard', true)).toBe('Domestic Reverse Charge @ 20% (VAT on Expenses)');
+    expect(getProfileTaxCode('quickbooks', 'sales', undefined)).toBe('No VAT');
+    expect(getProfileTaxCode('freeagent', 'sales', 'zero')).toBe('0%');
+  });
+});
+
+describe('buildProfileFiles', () => {
+  it('writes the Xero import files', () => {
+    const files = buildProfileFiles('xero', data);
+
+    expect(files.map(f => f.name)).toEqual(['xero_sales_invoices.csv', 'xero_bills.csv', 'xero_contacts.csv', 'xero_bank_statement.csv']);
+    files.forEach(f => expectGolden(f.name, f.content));
+  });
+
+  it('writes the QuickBooks invoice CSV and IIF file', () => {
+    const files = buildProfileFiles('quickbooks', data);
+
+    expect(files.map(f => f.name)).toEqual(['quickbooks_invoices.csv', 'quickbooks.iif']);
+    files.forEach(f => expectGolden(f.name, f.content));
+  });
+
+  it('writes the FreeAgent import files', () => {
+    const files = buildProfileFiles('freeagent', data);
+
+    expect(files.map(f => f.name)).toEqual(['freeagent_invoices.csv', 'freeagent_contacts.csv', 'freeagent_bank_statement.csv']);
+    files.forEach(f => expectGolden(f.name, f.content));
+  });
+
+  it('writes a bank statement per account', () => {
+    const files = buildProfileFiles('freeagent', {
+      ...data,
+      sales: [],
+      contacts: [],
+      bankTransactions: [
+        { ...data.bankTransactions[0], account: 'Business Current' },
+        { ...data.bankTransactions[1], account: 'Amex (…4321)' },
+      ],
+    });
+
+    expect(files.map(f => f.name)).toEqual(['freeagent_bank_statement_business_current.csv', 'freeagent_bank_statement_amex_4321.csv']);
+    expect(files[1].content).toBe(toFreeAgentBankStatementCsv([data.bankTransactions[1]]));
+  });
+
+  it('leaves out files with nothing in them', () => {
+    const files = buildProfileFiles('xero', { ...data, purchases: [], contacts: [], bankTransactions: [] });
+    expect(files.map(f => f.name)).toEqual(['xero_sales_invoices.csv']);
+  });
+});
@@ -0,0 +1,525 @@
+import type { VatRateCode } from '../../types';
+import { SALES_ACCOUNT_CODE, getExpenseAccountCode } from './ledger';
+
+/**
+ * Accountant export profiles.
+ *
+ * The TradeSync profile is our own CSV layout. The others write the import
+ * files each accounting package expects, so an accountant can load the
+ * year without remapping columns: Xero sales invoice, bill, contact and
+ * bank statement CSVs; QuickBooks Online invoice CSV and a QuickBooks
+ * Desktop IIF file; FreeAgent invoice, contact and bank statement CSVs.
+ *
+ * Expense categories go to the package's account through our ledger
+ * account (see getExpenseAccountCode), and VAT rate codes to its tax
+ * codes. Both tables assume the package's default UK chart of accounts.
+ */
+
+export type ExportProfile = 'tradesync' | 'xero' | 'quickbooks' | 'freeagent';
+
+type PackageProfile = Exclude<ExportProfile, 'tradesync'>;
+
+export const EXPORT_PROFILES: ExportProfile[] = ['tradesync', 'xero', 'quickbooks', 'freeagent'];
+
+export const EXPORT_PROFILE_LABELS: Record<ExportProfile, string> = {
+  tradesync: 'TradeSync',
+  xero: 'Xero',
+  quickbooks: 'QuickBooks',
+  freeagent: 'FreeAgent',
+};
+
+export const EXPORT_PROFILE_DESCRIPTIONS: Record<ExportProfile, string> = {
+  tradesync: 'Our own CSV layout with reports',
+  xero: 'Sales invoices, bills, contacts and bank statement',
+  quickbooks: 'Online invoice CSV and Desktop IIF',
+  freeagent: 'Invoices, contacts and bank statement',
+};
+
+export interface ProfileContact {
+  name: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+}
+
+/**
+ * Net and VAT at one rate on a sales document. Credit notes carry negative figures.
+ */
+export interface ProfileSalesLine {
+  description: string;
+  net: number;
+  vat: number;
+  // Unset when the document charges no VAT
+  vatRate?: VatRateCode;
+}
+
+export interface ProfileSalesDocument {
+  number: string;
+  type: 'invoice' | 'credit_note';
+  date: string;
+  dueDate: string;
+  contactName: string;
+  reference?: string;
+  reverseCharge: boolean;
+  lines: ProfileSalesLine[];
+}
+
+/**
+ * A bill from the payables ledger or an expense paid at the time.
+ */
+export interface ProfilePurchase {
+  kind: 'bill' | 'expense';
+  number?: string;
+  date: string;
+  dueDate: string;
+  supplier: string;
+  description: string;
+  category?: string;
+  net: number;
+  vat: number;
+  // Unset when the supplier charged no VAT
+  vatRate?: VatRateCode;
+  reverseCharge: boolean;
+  paidInCash?: boolean;
+}
+
+export interface ProfileBankTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  // Bank account name; each account gets its own statement file
+  account?: string;
+}
+
+export interface ProfileExportData {
+  sales: ProfileSalesDocument[];
+  purchases: ProfilePurchase[];
+  bankTransactions: ProfileBankTransaction[];
+  contacts: ProfileContact[];
+}
+
+export interface ProfileFile {
+  name: string;
+  content: string;
+}
+
+// Ledger account code to the package's account (code for Xero, name for QuickBooks)
+const ACCOUNT_MAPPINGS: Record<PackageProfile, Record<string, string>> = {
+  xero: {
+    '4000': '200',
+    '5000': '310',
+    '5100': '325',
+    '5200': '429',
+    '5300': '449',
+    '6000': '433',
+    '6100': '485',
+    '6200': '489',
+    '6300': '453',
+    '6900': '429',
+  },
+  quickbooks: {
+    '4000': 'Sales',
+    '5000': 'Cost of sales',
+    '5100': 'Subcontractors',
+    '5200': 'Tools and equipment',
+    '5300': 'Motor vehicle expenses',
+    '6000': 'Insurance',
+    '6100': 'Subscriptions',
+    '6200': 'Telephone and internet',
+    '6300': 'Office expenses',
+    '6900': 'Other expenses',
+  },
+  freeagent: {
+    '4000': '001',
+  },
+};
+
+type TaxDirection = 'sales' | 'purchases';
+
+type TaxCodeKey = VatRateCode | 'none' | 'reverse_charge';
+
+const TAX_CODES: Record<PackageProfile, Record<TaxDirection, Record<TaxCodeKey, string>>> = {
+  xero: {
+    sales: {
+      standard: '20% (VAT on Income)',
+      reduced: '5% (VAT on Income)',
+      zero: 'Zero Rated Income',
+      exempt: 'Exempt Income',
+      none: 'No VAT',
+      reverse_charge: 'Domestic Reverse Charge @ 20% (VAT on Income)',
+    },
+    purchases: {
+      standard: '20% (VAT on Expenses)',
+      reduced: '5% (VAT on Expenses)',
+      zero: 'Zero Rated Expenses',
+      exempt: 'Exempt Expenses',
+      none: 'No VAT',
+      reverse_charge: 'Domestic Reverse Charge @ 20% (VAT on Expenses)',
+    },
+  },
+  quickbooks: {
+    sales: {
+      standard: '20.0% S',
+      reduced: '5.0% R',
+      zero: '0.0% Z',
+      exempt: 'Exempt',
+      none: 'No VAT',
+      reverse_charge: 'RC CIS',
+    },
+    purchases: {
+      standard: '20.0% S',
+      reduced: '5.0% R',
+      zero: '0.0% Z',
+      exempt: 'Exempt',
+      none: 'No VAT',
+      reverse_charge: '20.0% RC CIS',
+    },
+  },
+  freeagent: {
+    sales: {
+      standard: '20%',
+      reduced: '5%',
+      zero: '0%',
+      exempt: 'Exempt',
+      none: 'Out of Scope',
+      reverse_charge: 'Reverse Charge',
+    },
+    purchases: {
+      standard: '20%',
+      reduced: '5%',
+      zero: '0%',
+      exempt: 'Exempt',
+      none: 'Out of Scope',
+      reverse_charge: 'Reverse Charge',
+    },
+  },
+};
+
+// QuickBooks control accounts used by the IIF transactions
+const QUICKBOOKS_ACCOUNTS = {
+  receivable: 'Accounts Receivable',
+  payable: 'Accounts Payable',
+  vat: 'VAT Control',
+  bank: 'Current Account',
+  cash: 'Petty Cash',
+};
+
+/**
+ * The package's account for a ledger account code.
+ */
+export function getProfileAccount(profile: PackageProfile, ledgerCode: string): string {
+  const mapping = ACCOUNT_MAPPINGS[profile];
+  return mapping[ledgerCode] ?? mapping['6900'] ?? '';
+}
+
+/**
+ * The package's tax code for a VAT rate code.
+ */
+export function getProfileTaxCode(
+  profile: PackageProfile,
+  direction: TaxDirection,
+  vatRate: VatRateCode | undefined,
+  reverseCharge = false
+): string {
+  const key: TaxCodeKey = reverseCharge ? 'reverse_charge' : vatRate || 'none';
+  return TAX_CODES[profile][direction][key];
+}
+
+const escapeCsvField = (value: string | number | undefined): string => {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+// IIF is tab separated with no quoting, so tabs and line breaks can't appear in a field
+const toIifField = (value: string | number | undefined): string =>
+  value === undefined ? '' : String(value).replace(/[\t\r\n]+/g, ' ');
+
+const toIif = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(toIifField).join('\t')).join('\n');
+
+const money = (value: number): string => (Math.round(value * 100) / 100 || 0).toFixed(2);
+
+// dd/mm/yyyy, as UK editions of all three packages expect
+const ukDate = (iso: string): string => {
+  const [year, month, day] = iso.slice(0, 10).split('-');
+  return `${day}/${month}/${year}`;
+};
+
+const singleLine = (value: string | undefined): string | undefined => value?.replace(/\s*\n\s*/g, ', ');
+
+const purchaseReference = (purchase: ProfilePurchase): string => purchase.number || purchase.description;
+
+// ============================================
+// Xero
+// ============================================
+
+export function toXeroSalesInvoicesCsv(sales: ProfileSalesDocument[]): string {
+  const rows: (string | number | undefined)[][] = [[
+    '*ContactName', '*InvoiceNumber', 'Reference', '*InvoiceDate', '*DueDate',
+    '*Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency',
+  ]];
+
+  for (const doc of sales) {
+    for (const line of doc.lines) {
+      rows.push([
+        doc.contactName,
+        doc.number,
+        doc.reference,
+        ukDate(doc.date),
+        ukDate(doc.dueDate),
+        line.description,
+        1,
+        money(line.net),
+        getProfileAccount('xero', SALES_ACCOUNT_CODE),
+        getProfileTaxCode('xero', 'sales', line.vatRate, doc.reverseCharge),
+        money(line.vat),
+        'GBP',
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+export function toXeroBillsCsv(purchases: ProfilePurchase[]): string {
+  const rows: (string | number | undefined)[][] = [[
+    '*ContactName', '*InvoiceNumber', '*InvoiceDate', '*DueDate',
+    'Description', '*Quantity', '*UnitAmount', '*AccountCode', '*TaxType', 'TaxAmount', 'Currency',
+  ]];
+
+  for (const purchase of purchases) {
+    rows.push([
+      purchase.supplier,
+      purchaseReference(purchase),
+      ukDate(purchase.date),
+      ukDate(purchase.dueDate),
+      purchase.description,
+      1,
+      money(purchase.net),
+      getProfileAccount('xero', getExpenseAccountCode(purchase.category)),
+      getProfileTaxCode('xero', 'purchases', purchase.vatRate, purchase.reverseCharge),
+      money(purchase.vat),
+      'GBP',
+    ]);
+  }
+
+  return toCsv(rows);
+}
+
+export function toXeroContactsCsv(contacts: ProfileContact[]): string {
+  return toCsv([
+    ['*ContactName', 'EmailAddress', 'POAddressLine1', 'PhoneNumber'],
+    ...contacts.map(c => [c.name, c.email, singleLine(c.address), c.phone]),
+  ]);
+}
+
+export function toXeroBankStatementCsv(transactions: ProfileBankTransaction[]): string {
+  return toCsv([
+    ['*Date', '*Amount', 'Payee', 'Description', 'Reference'],
+    ...transactions.map(t => [ukDate(t.date), money(t.amount), '', t.description, '']),
+  ]);
+}
+
+// ============================================
+// QuickBooks
+// ============================================
+
+export function toQuickBooksInvoicesCsv(sales: ProfileSalesDocument[]): string {
+  const rows: (string | number | undefined)[][] = [[
+    'InvoiceNo', 'Customer', 'InvoiceDate', 'DueDate', 'Memo',
+    'Item(Product/Service)', 'ItemDescription', 'ItemQuantity', 'ItemRate', 'ItemAmount', 'ItemTaxCode', 'ItemTaxAmount', 'Currency',
+  ]];
+
+  for (const doc of sales) {
+    for (const line of doc.lines) {
+      rows.push([
+        doc.number,
+        doc.contactName,
+        ukDate(doc.date),
+        ukDate(doc.dueDate),
+        doc.reference,
+        getProfileAccount('quickbooks', SALES_ACCOUNT_CODE),
+        line.description,
+        1,
+        money(line.net),
+        money(line.net),
+        getProfileTaxCode('quickbooks', 'sales', line.vatRate, doc.reverseCharge),
+        money(line.vat),
+        'GBP',
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+/**
+ * QuickBooks Desktop IIF: customer and supplier lists, then invoices and
+ * credit memos against Accounts Receivable, bills against Accounts Payable
+ * and expenses as cheques from the bank.
+ */
+export function toQuickBooksIif(data: Pick<ProfileExportData, 'sales' | 'purchases' | 'contacts'>): string {
+  const rows: (string | number | undefined)[][] = [];
+
+  if (data.contacts.length > 0) {
+    rows.push(['!CUST', 'NAME', 'EMAIL', 'PHONE1', 'BADDR1']);
+    data.contacts.forEach(c => rows.push(['CUST', c.name, c.email, c.phone, singleLine(c.address)]));
+  }
+
+  const suppliers = [...new Set(data.purchases.map(p => p.supplier))].sort((a, b) => a.localeCompare(b));
+  if (suppliers.length > 0) {
+    rows.push(['!VEND', 'NAME']);
+    suppliers.forEach(name => rows.push(['VEND', name]));
+  }
+
+  if (data.sales.length === 0 && data.purchases.length === 0) return toIif(rows);
+
+  rows.push(
+    ['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO'],
+    ['!ENDTRNS'],
+  );
+
+  for (const doc of data.sales) {
+    const type = doc.type === 'credit_note' ? 'CREDIT MEMO' : 'INVOICE';
+    const date = ukDate(doc.date);
+    const gross = doc.lines.reduce((sum, l) => sum + l.net + l.vat, 0);
+    const vat = doc.lines.reduce((sum, l) => sum + l.vat, 0);
+
+    rows.push(['TRNS', '', type, date, QUICKBOOKS_ACCOUNTS.receivable, doc.contactName, money(gross), doc.number, doc.reference]);
+    doc.lines.forEach(line => rows.push([
+      'SPL', '', type, date, getProfileAccount('quickbooks', SALES_ACCOUNT_CODE), '', money(-line.net), doc.number, line.description,
+    ]));
+    if (vat !== 0) rows.push(['SPL', '', type, date, QUICKBOOKS_ACCOUNTS.vat, '', money(-vat), doc.number, 'VAT']);
+    rows.push(['ENDTRNS']);
+  }
+
+  for (const purchase of data.purchases) {
+    const isBill = purchase.kind === 'bill';
+    const type = isBill ? 'BILL' : 'CHECK';
+    const account = isBill
+      ? QUICKBOOKS_ACCOUNTS.payable
+      : purchase.paidInCash ? QUICKBOOKS_ACCOUNTS.cash : QUICKBOOKS_ACCOUNTS.bank;
+    const date = ukDate(purchase.date);
+    const reference = purchaseReference(purchase);
+
+    rows.push(['TRNS', '', type, date, account, purchase.supplier, money(-(purchase.net + purchase.vat)), reference, purchase.description]);
+    rows.push([
+      'SPL', '', type, date, getProfileAccount('quickbooks', getExpenseAccountCode(purchase.category)), '', money(purchase.net), reference, purchase.description,
+    ]);
+    if (purchase.vat !== 0) rows.push(['SPL', '', type, date, QUICKBOOKS_ACCOUNTS.vat, '', money(purchase.vat), reference, 'VAT']);
+    rows.push(['ENDTRNS']);
+  }
+
+  return toIif(rows);
+}
+
+// ============================================
+// FreeAgent
+// ============================================
+
+export function toFreeAgentInvoicesCsv(sales: ProfileSalesDocument[]): string {
+  const rows: (string | number | undefined)[][] = [[
+    'Contact', 'Reference', 'Dated On', 'Due On', 'Comments',
+    'Item Type', 'Description', 'Quantity', 'Price', 'VAT Rate', 'Category',
+  ]];
+
+  for (const doc of sales) {
+    for (const line of doc.lines) {
+      rows.push([
+        doc.contactName,
+        doc.number,
+        ukDate(doc.date),
+        ukDate(doc.dueDate),
+        doc.reference,
+        'Services',
+        line.description,
+        1,
+        money(line.net),
+        getProfileTaxCode('freeagent', 'sales', line.vatRate, doc.reverseCharge),
+        getProfileAccount('freeagent', SALES_ACCOUNT_CODE),
+      ]);
+    }
+  }
+
+  return toCsv(rows);
+}
+
+export function toFreeAgentContactsCsv(contacts: ProfileContact[]): string {
+  return toCsv([
+    ['Organisation', 'Email', 'Telephone', 'Address 1'],
+    ...contacts.map(c => [c.name, c.email, c.phone, singleLine(c.address)]),
+  ]);
+}
+
+/**
+ * FreeAgent's three-column statement format: date, amount, description, no header row.
+ */
+export function toFreeAgentBankStatementCsv(transactions: ProfileBankTransaction[]): string {
+  return toCsv(transactions.map(t => [ukDate(t.date), money(t.amount), t.description]));
+}
+
+// ============================================
+// Profile Files
+// ============================================
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'account';
+
+/**
+ * Bank lines grouped into one statement per account, named
+ * "<prefix>.csv" when there's only one account and "<prefix>_<account>.csv"
+ * otherwise, since packages import a statement into a single bank account.
+ */
+function splitStatements(prefix: string, transactions: ProfileBankTransaction[]): { name: string; lines: ProfileBankTransaction[] }[] {
+  const groups = new Map<string, ProfileBankTransaction[]>();
+  transactions.forEach(tx => {
+    const key = tx.account || '';
+    groups.set(key, [...(groups.get(key) || []), tx]);
+  });
+
+  if (groups.size <= 1) return transactions.length > 0 ? [{ name: `${prefix}.csv`, lines: transactions }] : [];
+  return Array.from(groups.entries()).map(([account, lines]) => ({
+    name: `${prefix}_${slugify(account || 'unassigned')}.csv`,
+    lines,
+  }));
+}
+
+/**
+ * The import files for a package profile. Files with nothing in them are left out.
+ */
+export function buildProfileFiles(profile: PackageProfile, data: ProfileExportData): ProfileFile[] {
+  const files: ProfileFile[] = [];
+  const add = (name: string, hasRows: boolean, build: () => string) => {
+    if (hasRows) files.push({ name, content: build() });
+  };
+
+  switch (profile) {
+    case 'xero':
+      add('xero_sales_invoices.csv', data.sales.length > 0, () => toXeroSalesInvoicesCsv(data.sales));
+      add('xero_bills.csv', data.purchases.length > 0, () => toXeroBillsCsv(data.purchases));
+      add('xero_contacts.csv', data.contacts.length > 0, () => toXeroContactsCsv(data.contacts));
+      splitStatements('xero_bank_statement', data.bankTransactions)
+        .forEach(s => add(s.name, true, () => toXeroBankStatementCsv(s.lines)));
+      break;
+    case 'quickbooks':
+      add('quickbooks_invoices.csv', data.sales.length > 0, () => toQuickBooksInvoicesCsv(data.sales));
+      add('quickbooks.iif', data.sales.length + data.purchases.length + data.contacts.length > 0, () => toQuickBooksIif(data));
+      break;
+    case 'freeagent':
+      add('freeagent_invoices.csv', data.sales.length > 0, () => toFreeAgentInvoicesCsv(data.sales));
+      add('freeagent_contacts.csv', data.contacts.length > 0, () => toFreeAgentContactsCsv(data.contacts));
+      splitStatements('freeagent_bank_statement', data.bankTransactions)
+        .forEach(s => add(s.name, true, () => toFreeAgentBankStatementCsv(s.lines)));
+      break;
+  }
+
+  return files;
+}
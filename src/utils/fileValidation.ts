@@ -23,6 +23,19 @@ const ALLOWED_MIME_TYPES = {
     'text/csv',
   ],
   csv: ['text/csv', 'text/plain', 'application/csv'],
+  // Browsers often report no MIME type for OFX, QIF and MT940 files; statements are only ever read as text
+  statement: [
+    'text/csv',
+    'text/plain',
+    'application/csv',
+    'application/x-ofx',
+    'application/vnd.intu.qfx',
+    'application/qif',
+    'application/x-qif',
+    'text/xml',
+    'application/xml',
+    '',
+  ],
 } as const;
 
 // Map extensions to expected MIME types
@@ -40,6 +53,12 @@ const EXTENSION_MIME_MAP: Record<string, string[]> = {
   xlsx: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
   txt: ['text/plain'],
   csv: ['text/csv', 'text/plain', 'application/csv'],
+  ofx: ['application/x-ofx', 'text/plain', ''],
+  qfx: ['application/vnd.intu.qfx', 'application/x-ofx', 'text/plain', ''],
+  qif: ['application/qif', 'application/x-qif', 'text/plain', ''],
+  xml: ['text/xml', 'application/xml'],
+  sta: ['text/plain', ''],
+  mt940: ['text/plain', ''],
 };
 
 // Maximum file sizes (in bytes)
@@ -47,6 +66,7 @@ const MAX_FILE_SIZES = {
   image: 10 * 1024 * 1024, // 10MB
   document: 25 * 1024 * 1024, // 25MB
   csv: 50 * 1024 * 1024, // 50MB for bank imports
+  statement: 50 * 1024 * 1024,
 };
 
 export type FileCategory = keyof typeof ALLOWED_MIME_TYPES;
@@ -148,6 +168,13 @@ export function validateCsvFile(file: File): ValidationResult {
   return validateFile(file, 'csv');
 }
 
+/**
+ * Validate a bank statement file (CSV, OFX/QFX, QIF, CAMT.053 XML or MT940)
+ */
+export function validateStatementFile(file: File): ValidationResult {
+  return validateFile(file, 'statement');
+}
+
 /**
  * Get human-readable file size
  */
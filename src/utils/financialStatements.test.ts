@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  balanceSheetToCsv,
+  buildBalanceSheet,
+  buildCashFlowStatement,
+  cashFlowToCsv,
+  classifyCashFlow,
+  getStatementBalance,
+} from './financialStatements';
+import { toLedgerAccount, toLedgerAccountTotal } from './ledger';
+
+const accounts = [
+  { code: '1100', name: 'Trade debtors', type: 'asset', display_order: 10 },
+  { code: '1150', name: 'CIS tax suffered', type: 'asset', display_order: 20 },
+  { code: '1200', name: 'Bank', type: 'asset', display_order: 30 },
+  { code: '1210', name: 'Bank clearing', type: 'asset', display_order: 40 },
+  { code: '2100', name: 'Trade creditors', type: 'liability', display_order: 60 },
+  { code: '2200', name: 'VAT on sales', type: 'liability', display_order: 70 },
+  { code: '2201', name: 'VAT on purchases', type: 'liability', display_order: 80 },
+  { code: '4000', name: 'Sales', type: 'income', display_order: 110 },
+  { code: '5000', name: 'Materials', type: 'expense', display_order: 120 },
+].map(toLedgerAccount);
+
+// Invoice 1000 + 200 VAT (600 received), CIS 50 suffered on a second invoice,
+// bill of 300 + 60 VAT unpaid
+const totals = [
+  { account_code: '1100', debit: 1450, credit: 650 },
+  { account_code: '1150', debit: 50, credit: 0 },
+  { account_code: '1210', debit: 600, credit: 0 },
+  { account_code: '2100', debit: 0, credit: 360 },
+  { account_code: '2200', debit: 0, credit: 241.67 },
+  { account_code: '2201', debit: 60, credit: 0 },
+  { account_code: '4000', debit: 0, credit: 1208.33 },
+  { account_code: '5000', debit: 300, credit: 0 },
+].map(toLedgerAccountTotal);
+
+describe('buildBalanceSheet', () => {
+  it('splits retention out of debtors and balances through owner capital', () => {
+    const sheet = buildBalanceSheet({ asOf: '2026-03-31', accounts, totals, bankBalance: 2500, retentionsHeld: 100 });
+
+    expect(sheet.assets.map(l => [l.label, l.amount])).toEqual([
+      ['Bank', 2500],
+      ['Trade debtors', 700],
+      ['Retentions held by customers', 100],
+      ['CIS tax suffered', 50],
+    ]);
+    expect(sheet.liabilities.map(l => [l.label, l.amount])).toEqual([
+      ['VAT owed', 181.67],
+      ['Trade creditors', 360],
+    ]);
+    expect(sheet.netAssets).toBe(2808.33);
+    expect(sheet.capital[0]).toEqual({ label: 'Retained profit', amount: 908.33 });
+    expect(sheet.totalCapital).toBe(sheet.netAssets);
+  });
+
+  it('falls back to the ledger bank and clearing accounts without a statement balance', () => {
+    const sheet = buildBalanceSheet({ asOf: '2026-03-31', accounts, totals, bankBalance: null, retentionsHeld: 0 });
+
+    expect(sheet.assets[0]).toEqual({ label: 'Bank', amount: 600, accountCode: '1200' });
+    expect(sheet.capital[1].amount).toBe(0);
+  });
+
+  it('exports a CSV', () => {
+    const csv = balanceSheetToCsv(buildBalanceSheet({ asOf: '2026-03-31', accounts, totals, bankBalance: 2500, retentionsHeld: 100 }));
+    expect(csv.split('\n')).toContain('Net Assets,2808.33');
+  });
+});
+
+describe('getStatementBalance', () => {
+  it('takes the last balance on or before the date', () => {
+    const transactions = [
+      { transaction_date: '2026-03-01', description: 'A', amount: 10, balance: 110 },
+      { transaction_date: '2026-03-02', description: 'B', amount: -5, balance: 105 },
+      { transaction_date: '2026-03-02', description: 'C', amount: -5, balance: 100 },
+      { transaction_date: '2026-03-05', description: 'D', amount: 20, balance: 120 },
+    ];
+    expect(getStatementBalance(transactions, '2026-03-04')).toBe(100);
+    expect(getStatementBalance(transactions, '2026-02-28')).toBeNull();
+  });
+
+  it('adds up the latest balance of each account', () => {
+    const transactions = [
+      { transaction_date: '2026-03-01', description: 'A', amount: 10, balance: 110, bank_account_id: 'current' },
+      { transaction_date: '2026-03-03', description: 'B', amount: 500, balance: 2500, bank_account_id: 'savings' },
+      { transaction_date: '2026-03-02', description: 'C', amount: -20, balance: -120, bank_account_id: 'card' },
+    ];
+    expect(getStatementBalance(transactions, '2026-03-31')).toBe(2490);
+    expect(getStatementBalance(transactions, '2026-03-01')).toBe(110);
+  });
+});
+
+describe('buildCashFlowStatement', () => {
+  const transactions = [
+    { transaction_date: '2026-02-27', description: 'Opening', amount: 100, balance: 1000 },
+    { transaction_date: '2026-03-01', description: 'Smith Ltd', amount: 1200, balance: 2200, reconciled_invoice_id: 'inv-1' },
+    { transaction_date: '2026-03-03', description: 'Screwfix', amount: -240, balance: 1960, reconciled_expense_id: 'exp-1' },
+    { transaction_date: '2026-03-10', description: 'HMRC VAT', amount: -400, balance: 1560 },
+    { transaction_date: '2026-03-12', description: 'Van purchase deposit', amount: -2000, balance: -440 },
+    { transaction_date: '2026-03-12', description: 'Bank loan drawdown', amount: 3000, balance: 2560 },
+    { transaction_date: '2026-03-20', description: 'Transfer - drawings', amount: -500, balance: 2060 },
+    { transaction_date: '2026-04-01', description: 'Later', amount: 50, balance: 2110 },
+  ];
+
+  it('groups bank lines by activity and ties opening to closing balance', () => {
+    const statement = buildCashFlowStatement(transactions, '2026-03-01', '2026-03-31');
+    const [operating, investing, financing] = statement.sections;
+
+    expect(operating.lines.map(l => [l.label, l.amount])).toEqual([
+      ['Receipts from customers', 1200],
+      ['Payments to suppliers and expenses', -240],
+      ['Tax paid to HMRC', -400],
+    ]);
+    expect(investing.total).toBe(-2000);
+    expect(financing.lines.map(l => [l.label, l.amount])).toEqual([
+      ['Loans received', 3000],
+      ["Owner's drawings", -500],
+    ]);
+    expect(statement.netCashFlow).toBe(1060);
+    expect(statement.openingBalance).toBe(1000);
+    expect(statement.closingBalance).toBe(2060);
+  });
+
+  it('leaves balances blank when the statement has none', () => {
+    const statement = buildCashFlowStatement(
+      transactions.map(tx => ({ ...tx, balance: null })),
+      '2026-03-01',
+      '2026-03-31'
+    );
+    expect(statement.openingBalance).toBeNull();
+    expect(cashFlowToCsv(statement).split('\n').pop()).toBe('Closing Bank Balance,,');
+  });
+
+  it('leaves transfers between accounts out of the cash flows', () => {
+    const statement = buildCashFlowStatement([
+      { transaction_date: '2026-02-28', description: 'Opening', amount: 0, balance: 1000, bank_account_id: 'current' },
+      { transaction_date: '2026-03-02', description: 'Smith Ltd', amount: 300, balance: 1300, bank_account_id: 'current', reconciled_invoice_id: 'inv-1' },
+      { transaction_date: '2026-03-05', description: 'To savings', amount: -200, balance: 1100, bank_account_id: 'current', transfer_transaction_id: 'tx-in' },
+      { transaction_date: '2026-03-05', description: 'From current', amount: 200, balance: 700, bank_account_id: 'savings', transfer_transaction_id: 'tx-out' },
+    ], '2026-03-01', '2026-03-31');
+
+    expect(statement.sections[0].lines.map(l => [l.label, l.amount])).toEqual([['Receipts from customers', 300]]);
+    expect(statement.netCashFlow).toBe(300);
+    expect(statement.openingBalance).toBe(1500);
+    expect(statement.closingBalance).toBe(1800);
+  });
+
+  it('keeps matched lines in operating whatever the description', () => {
+    expect(classifyCashFlow({ transaction_date: '2026-03-01', description: 'Loan Co', amount: -50, reconciled_expense_id: 'e' }))
+      .toEqual({ activity: 'operating', label: 'Payments to suppliers and expenses' });
+  });
+});
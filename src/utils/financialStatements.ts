@@ -0,0 +1,319 @@
+import {
+  buildLedgerProfitAndLoss,
+  getNaturalBalance,
+  type LedgerAccount,
+  type LedgerAccountTotal,
+} from './ledger';
+
+/**
+ * Balance sheet and cash-flow statement.
+ *
+ * The balance sheet reads ledger balances at a date, but takes the bank line
+ * from the imported statement balance and splits retention out of debtors.
+ * Owner's capital is the balancing figure, covering opening balances,
+ * capital introduced and drawings that the ledger does not record.
+ *
+ * The cash-flow statement uses the direct method over imported bank lines.
+ * Statement balances are taken per bank account and added together, and
+ * transfers between the user's own accounts are left out of the cash flows.
+ */
+
+export interface BalanceSheetLine {
+  label: string;
+  amount: number;
+  accountCode?: string;
+}
+
+export interface BalanceSheet {
+  asOf: string;
+  assets: BalanceSheetLine[];
+  liabilities: BalanceSheetLine[];
+  capital: BalanceSheetLine[];
+  totalAssets: number;
+  totalLiabilities: number;
+  netAssets: number;
+  totalCapital: number;
+}
+
+export interface BalanceSheetInput {
+  asOf: string;
+  accounts: LedgerAccount[];
+  // Ledger totals for every entry dated on or before asOf
+  totals: LedgerAccountTotal[];
+  // Latest statement balance on or before asOf; null if no statement carries one
+  bankBalance: number | null;
+  // Retention still held by customers at asOf
+  retentionsHeld: number;
+}
+
+export type CashFlowActivity = 'operating' | 'investing' | 'financing';
+
+export interface CashFlowLine {
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export interface CashFlowSection {
+  activity: CashFlowActivity;
+  lines: CashFlowLine[];
+  total: number;
+}
+
+export interface CashFlowStatement {
+  from: string;
+  to: string;
+  sections: CashFlowSection[];
+  netCashFlow: number;
+  // Null when the statement lines carry no running balance
+  openingBalance: number | null;
+  closingBalance: number | null;
+}
+
+/**
+ * The columns of a bank_transactions row the statements read.
+ */
+export interface StatementTransaction {
+  transaction_date: string;
+  description: string;
+  amount: number;
+  balance?: number | null;
+  reconciled_invoice_id?: string | null;
+  reconciled_expense_id?: string | null;
+  bank_account_id?: string | null;
+  transfer_transaction_id?: string | null;
+}
+
+export const CASH_FLOW_ACTIVITY_LABELS: Record<CashFlowActivity, string> = {
+  operating: 'Operating activities',
+  investing: 'Investing activities',
+  financing: 'Financing activities',
+};
+
+// Ledger codes with their own balance sheet treatment (see 20260204_general_ledger.sql)
+const LEDGER_CODES = {
+  debtors: '1100',
+  bank: '1200',
+  bankClearing: '1210',
+  vatOnSales: '2200',
+  vatOnPurchases: '2201',
+};
+
+// Unmatched bank lines are classified by description
+const TAX_PATTERN = /\b(hmrc|vat|paye|self assessment|corporation tax)\b/i;
+const INVESTING_PATTERN = /\b(van|vehicle|equipment|plant|machinery|asset) (purchase|sale|deposit)\b/i;
+const LOAN_PATTERN = /\b(loan|finance|hire purchase|lease)\b/i;
+const OWNER_PATTERN = /\b(drawings|capital introduced|dividend|director)\b/i;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const sumLines = (lines: { amount: number }[]) => roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+const byAccount = (transactions: StatementTransaction[]): StatementTransaction[][] => {
+  const groups = new Map<string, StatementTransaction[]>();
+  for (const tx of transactions) {
+    const key = tx.bank_account_id || '';
+    groups.set(key, [...(groups.get(key) || []), tx]);
+  }
+  return [...groups.values()];
+};
+
+// Add up the accounts that have a figure; null when none do
+const sumKnown = (values: (number | null)[]): number | null => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? roundCurrency(known.reduce((sum, value) => sum + value, 0)) : null;
+};
+
+/**
+ * Closing balance on the latest statement line dated on or before asOf,
+ * added up across bank accounts. Lines on the same day keep their import
+ * order, so the last one wins.
+ */
+export function getStatementBalance(transactions: StatementTransaction[], asOf: string): number | null {
+  return sumKnown(byAccount(transactions).map(lines => {
+    let latest: StatementTransaction | null = null;
+    for (const tx of lines) {
+      if (tx.balance == null || tx.transaction_date > asOf) continue;
+      if (!latest || tx.transaction_date >= latest.transaction_date) latest = tx;
+    }
+    return latest ? Number(latest.balance) : null;
+  }));
+}
+
+/**
+ * What the business owns and owes at a date.
+ */
+export function buildBalanceSheet(input: BalanceSheetInput): BalanceSheet {
+  const byCode = new Map(input.totals.map(t => [t.accountCode, t]));
+  const balanceOf = (code: string, type: 'asset' | 'liability') => {
+    const total = byCode.get(code);
+    return total ? getNaturalBalance(type, total) : 0;
+  };
+
+  const debtors = balanceOf(LEDGER_CODES.debtors, 'asset');
+  const retentionsHeld = roundCurrency(Math.min(Math.max(input.retentionsHeld, 0), Math.max(debtors, 0)));
+  // The statement already includes cleared items, so clearing only counts without one
+  const bank = input.bankBalance ?? roundCurrency(
+    balanceOf(LEDGER_CODES.bank, 'asset') + balanceOf(LEDGER_CODES.bankClearing, 'asset')
+  );
+
+  const assets: BalanceSheetLine[] = [
+    { label: 'Bank', amount: roundCurrency(bank), accountCode: LEDGER_CODES.bank },
+    { label: 'Trade debtors', amount: roundCurrency(debtors - retentionsHeld), accountCode: LEDGER_CODES.debtors },
+    { label: 'Retentions held by customers', amount: retentionsHeld },
+  ];
+  const liabilities: BalanceSheetLine[] = [
+    {
+      label: 'VAT owed',
+      amount: roundCurrency(balanceOf(LEDGER_CODES.vatOnSales, 'liability') + balanceOf(LEDGER_CODES.vatOnPurchases, 'liability')),
+      accountCode: LEDGER_CODES.vatOnSales,
+    },
+  ];
+
+  const handled = new Set(Object.values(LEDGER_CODES));
+  for (const account of input.accounts) {
+    if (handled.has(account.code) || (account.type !== 'asset' && account.type !== 'liability')) continue;
+    const amount = balanceOf(account.code, account.type);
+    const line = { label: account.name, amount, accountCode: account.code };
+    if (account.type === 'asset') assets.push(line);
+    else liabilities.push(line);
+  }
+
+  const nonZero = (lines: BalanceSheetLine[]) => lines.filter(line => line.amount !== 0);
+  const totalAssets = sumLines(assets);
+  const totalLiabilities = sumLines(liabilities);
+  const netAssets = roundCurrency(totalAssets - totalLiabilities);
+  const retainedProfit = buildLedgerProfitAndLoss(input.accounts, input.totals).netProfit;
+
+  const capital: BalanceSheetLine[] = [
+    { label: 'Retained profit', amount: retainedProfit },
+    { label: "Owner's capital and drawings", amount: roundCurrency(netAssets - retainedProfit) },
+  ];
+
+  return {
+    asOf: input.asOf,
+    assets: nonZero(assets),
+    liabilities: nonZero(liabilities),
+    capital,
+    totalAssets,
+    totalLiabilities,
+    netAssets,
+    totalCapital: sumLines(capital),
+  };
+}
+
+/**
+ * Which activity a bank line belongs to, and the line it rolls up into.
+ * Lines matched to an invoice or expense are always trading.
+ */
+export function classifyCashFlow(tx: StatementTransaction): { activity: CashFlowActivity; label: string } {
+  const isReceipt = tx.amount > 0;
+  if (tx.reconciled_invoice_id) return { activity: 'operating', label: 'Receipts from customers' };
+  if (tx.reconciled_expense_id) return { activity: 'operating', label: 'Payments to suppliers and expenses' };
+
+  if (TAX_PATTERN.test(tx.description)) {
+    return { activity: 'operating', label: isReceipt ? 'Tax refunds from HMRC' : 'Tax paid to HMRC' };
+  }
+  if (INVESTING_PATTERN.test(tx.description)) {
+    return { activity: 'investing', label: isReceipt ? 'Sale of equipment and vehicles' : 'Purchase of equipment and vehicles' };
+  }
+  if (LOAN_PATTERN.test(tx.description)) {
+    return { activity: 'financing', label: isReceipt ? 'Loans received' : 'Loan and finance repayments' };
+  }
+  if (OWNER_PATTERN.test(tx.description)) {
+    return { activity: 'financing', label: isReceipt ? 'Capital introduced' : "Owner's drawings" };
+  }
+  return { activity: 'operating', label: isReceipt ? 'Receipts from customers' : 'Payments to suppliers and expenses' };
+}
+
+/**
+ * Cash in and out of the bank between two dates (inclusive), by activity.
+ */
+export function buildCashFlowStatement(transactions: StatementTransaction[], from: string, to: string): CashFlowStatement {
+  const inPeriod = transactions
+    .filter(tx => tx.transaction_date >= from && tx.transaction_date <= to)
+    .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date));
+
+  const sections: CashFlowSection[] = (['operating', 'investing', 'financing'] as CashFlowActivity[]).map(activity => {
+    const lines = new Map<string, CashFlowLine>();
+    for (const tx of inPeriod) {
+      if (tx.transfer_transaction_id) continue;
+      const classified = classifyCashFlow(tx);
+      if (classified.activity !== activity) continue;
+      const line = lines.get(classified.label) || { label: classified.label, amount: 0, count: 0 };
+      line.amount = roundCurrency(line.amount + Number(tx.amount));
+      line.count += 1;
+      lines.set(classified.label, line);
+    }
+    const sorted = [...lines.values()].sort((a, b) => b.amount - a.amount);
+    return { activity, lines: sorted, total: sumLines(sorted) };
+  });
+
+  const netCashFlow = sumLines(sections.map(s => ({ amount: s.total })));
+
+  // Opening balance is the balance before each account's first line of the period
+  const openingBalance = sumKnown(byAccount(transactions).map(accountLines => {
+    const members = new Set(accountLines);
+    const accountInPeriod = inPeriod.filter(tx => members.has(tx));
+    const firstWithBalance = accountInPeriod.find(tx => tx.balance != null);
+    return firstWithBalance
+      ? roundCurrency(Number(firstWithBalance.balance) - Number(firstWithBalance.amount)
+        - sumLines(accountInPeriod.slice(0, accountInPeriod.indexOf(firstWithBalance))))
+      : getStatementBalance(accountLines, dayBefore(from));
+  }));
+  // Transfers normally cancel out, but count any whose other side isn't imported
+  const closingMovement = sumLines(inPeriod);
+
+  return {
+    from,
+    to,
+    sections,
+    netCashFlow,
+    openingBalance,
+    closingBalance: openingBalance === null ? null : roundCurrency(openingBalance + closingMovement),
+  };
+}
+
+function dayBefore(iso: string): string {
+  const date = new Date(`${iso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Balance sheet as CSV for the accountant.
+ */
+export function balanceSheetToCsv(sheet: BalanceSheet): string {
+  const line = (l: BalanceSheetLine) => `"${l.label.replace(/"/g, '""')}",${l.amount.toFixed(2)}`;
+  return [
+    `Balance Sheet at ${sheet.asOf},Amount`,
+    'Assets,',
+    ...sheet.assets.map(line),
+    `Total Assets,${sheet.totalAssets.toFixed(2)}`,
+    'Liabilities,',
+    ...sheet.liabilities.map(line),
+    `Total Liabilities,${sheet.totalLiabilities.toFixed(2)}`,
+    `Net Assets,${sheet.netAssets.toFixed(2)}`,
+    'Capital,',
+    ...sheet.capital.map(line),
+    `Total Capital,${sheet.totalCapital.toFixed(2)}`,
+  ].join('\n');
+}
+
+/**
+ * Cash-flow statement as CSV for the accountant.
+ */
+export function cashFlowToCsv(statement: CashFlowStatement): string {
+  const balance = (value: number | null) => value === null ? '' : value.toFixed(2);
+  return [
+    `Cash Flow ${statement.from} to ${statement.to},Transactions,Amount`,
+    `Opening Bank Balance,,${balance(statement.openingBalance)}`,
+    ...statement.sections.flatMap(section => [
+      `${CASH_FLOW_ACTIVITY_LABELS[section.activity]},,`,
+      ...section.lines.map(l => `"${l.label.replace(/"/g, '""')}",${l.count},${l.amount.toFixed(2)}`),
+      `Net Cash from ${CASH_FLOW_ACTIVITY_LABELS[section.activity]},,${section.total.toFixed(2)}`,
+    ]),
+    `Net Cash Flow,,${statement.netCashFlow.toFixed(2)}`,
+    `Closing Bank Balance,,${balance(statement.closingBalance)}`,
+  ].join('\n');
+}
@@ -35,6 +35,14 @@ export function isValidUKPhone(phone: string): boolean {
   return digits.length >= 10 && digits.length <= 13;
 }
 
+/**
+ * Validate HMRC Unique Taxpayer Reference (10 digits, spaces allowed)
+ */
+export function isValidUtr(utr: string): boolean {
+  if (!utr) return true; // Allow empty UTRs
+  return /^\d{10}$/.test(utr.replace(/\s/g, ''));
+}
+
 /**
  * Validate that a number is positive and reasonable
  */
@@ -70,6 +78,7 @@ export interface CustomerValidation {
     phone: string;
     address: string;
     company?: string;
+    utr?: string;
   };
 }
 
@@ -79,6 +88,7 @@ export function validateCustomerData(data: {
   phone?: string;
   address?: string;
   company?: string;
+  utr?: string;
 }): CustomerValidation {
   const errors: Record<string, string> = {};
 
@@ -88,6 +98,7 @@ export function validateCustomerData(data: {
     phone: sanitizeString(data.phone),
     address: sanitizeString(data.address),
     company: data.company ? sanitizeString(data.company) : undefined,
+    utr: data.utr ? data.utr.replace(/\s/g, '') : undefined,
   };
 
   // Name is required
@@ -107,6 +118,11 @@ export function validateCustomerData(data: {
     errors.phone = 'Invalid phone number format';
   }
 
+  // UTR is 10 digits
+  if (sanitized.utr && !isValidUtr(sanitized.utr)) {
+    errors.utr = 'UTR must be 10 digits';
+  }
+
   // Address length check
   if (sanitized.address && sanitized.address.length > 500) {
     errors.address = 'Address is too long (maximum 500 characters)';
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPaymentsForInvoice,
+  sumPayments,
+  getBalanceDue,
+  deriveInvoiceStatus,
+  summariseInvoicePayments,
+} from './invoicePayments';
+import { createMockInvoicePayment } from '../test/factories';
+
+describe('invoicePayments utilities', () => {
+  describe('getPaymentsForInvoice', () => {
+    it('returns only the invoice payments, oldest first', () => {
+      const payments = [
+        createMockInvoicePayment({ id: 'b', invoiceId: 'inv-1', paymentDate: '2026-02-10' }),
+        createMockInvoicePayment({ id: 'x', invoiceId: 'inv-2', paymentDate: '2026-01-01' }),
+        createMockInvoicePayment({ id: 'a', invoiceId: 'inv-1', paymentDate: '2026-01-15' }),
+      ];
+
+      expect(getPaymentsForInvoice(payments, 'inv-1').map(p => p.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('sumPayments', () => {
+    it('adds payments without floating point drift', () => {
+      const payments = [
+        createMockInvoicePayment({ amount: 0.1 }),
+        createMockInvoicePayment({ amount: 0.2 }),
+      ];
+      expect(sumPayments(payments)).toBe(0.3);
+    });
+
+    it('returns 0 for no payments', () => {
+      expect(sumPayments([])).toBe(0);
+    });
+  });
+
+  describe('getBalanceDue', () => {
+    it('subtracts every instalment from the total', () => {
+      const payments = [
+        createMockInvoicePayment({ amount: 250 }),
+        createMockInvoicePayment({ amount: 300.5 }),
+      ];
+      expect(getBalanceDue(1000, payments)).toBe(449.5);
+    });
+
+    it('never goes negative on overpayment', () => {
+      expect(getBalanceDue(100, [createMockInvoicePayment({ amount: 120 })])).toBe(0);
+    });
+
+    it('deducts amounts credited by credit notes', () => {
+      expect(getBalanceDue(1000, [createMockInvoicePayment({ amount: 600 })], 150)).toBe(250);
+    });
+  });
+
+  describe('deriveInvoiceStatus', () => {
+    it('moves from invoiced to part_paid to paid', () => {
+      expect(deriveInvoiceStatus('invoiced', 1000, 0)).toBe('invoiced');
+      expect(deriveInvoiceStatus('invoiced', 1000, 400)).toBe('part_paid');
+      expect(deriveInvoiceStatus('part_paid', 1000, 1000)).toBe('paid');
+    });
+
+    it('treats sub-penny differences as settled', () => {
+      expect(deriveInvoiceStatus('sent', 100.004, 100)).toBe('paid');
+    });
+
+    it('reverts to invoiced when all payments are removed', () => {
+      expect(deriveInvoiceStatus('paid', 1000, 0)).toBe('invoiced');
+      expect(deriveInvoiceStatus('part_paid', 1000, 0)).toBe('invoiced');
+    });
+
+    it('keeps sent status until something is paid', () => {
+      expect(deriveInvoiceStatus('sent', 1000, 0)).toBe('sent');
+    });
+
+    it('leaves draft and declined invoices alone', () => {
+      expect(deriveInvoiceStatus('draft', 1000, 1000)).toBe('draft');
+      expect(deriveInvoiceStatus('declined', 1000, 500)).toBe('declined');
+      expect(deriveInvoiceStatus('void', 1000, 0, 1000)).toBe('void');
+    });
+
+    it('counts credit notes towards settlement', () => {
+      expect(deriveInvoiceStatus('part_paid', 1000, 800, 200)).toBe('paid');
+      expect(deriveInvoiceStatus('part_paid', 1000, 600, 200)).toBe('part_paid');
+    });
+
+    it('marks an unpaid invoice cleared by credit notes as paid', () => {
+      expect(deriveInvoiceStatus('invoiced', 1000, 0, 1000)).toBe('paid');
+      expect(deriveInvoiceStatus('sent', 1000, 0, 400)).toBe('sent');
+      expect(deriveInvoiceStatus('invoiced', 0, 0)).toBe('invoiced');
+    });
+  });
+
+  describe('summariseInvoicePayments', () => {
+    it('keeps each payment date and method rather than overwriting them', () => {
+      const payments = [
+        createMockInvoicePayment({ amount: 500, paymentDate: '2026-01-10', paymentMethod: 'cash' }),
+        createMockInvoicePayment({ amount: 300, paymentDate: '2026-02-01', paymentMethod: 'cheque' }),
+      ];
+
+      const summary = summariseInvoicePayments(1200, payments);
+
+      expect(summary.amountPaid).toBe(800);
+      expect(summary.balanceDue).toBe(400);
+      expect(summary.paymentCount).toBe(2);
+      expect(summary.lastPaymentDate).toBe('2026-02-01');
+      expect(summary.lastPaymentMethod).toBe('cheque');
+    });
+
+    it('handles an invoice with no payments', () => {
+      const summary = summariseInvoicePayments(500, []);
+      expect(summary).toEqual({
+        amountPaid: 0,
+        balanceDue: 500,
+        paymentCount: 0,
+        lastPaymentDate: undefined,
+        lastPaymentMethod: undefined,
+      });
+    });
+  });
+});
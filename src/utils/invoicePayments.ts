@@ -0,0 +1,98 @@
+import type { Quote, InvoicePayment } from '../../types';
+
+export interface InvoicePaymentSummary {
+  amountPaid: number;
+  balanceDue: number;
+  paymentCount: number;
+  lastPaymentDate?: string;
+  lastPaymentMethod?: InvoicePayment['paymentMethod'];
+}
+
+// Anything under half a penny is treated as settled
+const SETTLED_TOLERANCE = 0.005;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Payments recorded against one invoice, oldest first.
+ */
+export function getPaymentsForInvoice(
+  payments: InvoicePayment[],
+  invoiceId: string
+): InvoicePayment[] {
+  return payments
+    .filter(p => p.invoiceId === invoiceId)
+    .sort((a, b) =>
+      a.paymentDate.localeCompare(b.paymentDate) || a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+/**
+ * Total received across a set of payments.
+ */
+export function sumPayments(payments: InvoicePayment[]): number {
+  return roundCurrency(payments.reduce((sum, p) => sum + p.amount, 0));
+}
+
+/**
+ * Amount still owed on an invoice after payments and any credit notes.
+ * Never negative - overpayments show as zero.
+ */
+export function getBalanceDue(
+  invoiceTotal: number,
+  payments: InvoicePayment[],
+  amountCredited = 0
+): number {
+  return Math.max(0, roundCurrency(invoiceTotal - amountCredited - sumPayments(payments)));
+}
+
+/**
+ * Derive an invoice's status from what has been paid and credited.
+ * Mirrors derive_invoice_status() in the database: draft, declined and void
+ * invoices keep their status, otherwise paid plus credited covers the
+ * total -> paid (even with nothing paid, when credit notes clear it),
+ * nothing paid -> invoiced, some paid -> part_paid.
+ */
+export function deriveInvoiceStatus(
+  currentStatus: Quote['status'],
+  invoiceTotal: number,
+  amountPaid: number,
+  amountCredited = 0
+): Quote['status'] {
+  if (currentStatus === 'draft' || currentStatus === 'declined' || currentStatus === 'void') {
+    return currentStatus;
+  }
+
+  const settled = amountPaid + amountCredited >= invoiceTotal - SETTLED_TOLERANCE;
+  if (settled && (amountPaid > 0 || amountCredited > 0)) {
+    return 'paid';
+  }
+
+  if (amountPaid <= 0) {
+    return currentStatus === 'part_paid' || currentStatus === 'paid' ? 'invoiced' : currentStatus;
+  }
+
+  return 'part_paid';
+}
+
+/**
+ * Summarise the ledger for one invoice.
+ */
+export function summariseInvoicePayments(
+  invoiceTotal: number,
+  payments: InvoicePayment[],
+  amountCredited = 0
+): InvoicePaymentSummary {
+  const amountPaid = sumPayments(payments);
+  const last = [...payments].sort((a, b) =>
+    b.paymentDate.localeCompare(a.paymentDate) || b.createdAt.localeCompare(a.createdAt)
+  )[0];
+
+  return {
+    amountPaid,
+    balanceDue: getBalanceDue(invoiceTotal, payments, amountCredited),
+    paymentCount: payments.length,
+    lastPaymentDate: last?.paymentDate,
+    lastPaymentMethod: last?.paymentMethod,
+  };
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTrialBalance,
+  buildLedgerProfitAndLoss,
+  getNaturalBalance,
+  sumLedgerTotals,
+  toLedgerAccount,
+  toLedgerAccountTotal,
+  toLedgerMonthlyTotal,
+  trialBalanceToCsv,
+} from './ledger';
+
+const accounts = [
+  { code: '1100', name: 'Trade debtors', type: 'asset', display_order: 10 },
+  { code: '1210', name: 'Bank clearing', type: 'asset', display_order: 40 },
+  { code: '2200', name: 'VAT on sales', type: 'liability', display_order: 70 },
+  { code: '2201', name: 'VAT on purchases', type: 'liability', display_order: 80 },
+  { code: '4000', name: 'Sales', type: 'income', display_order: 110 },
+  { code: '4100', name: 'Flat rate VAT surplus', type: 'income', display_order: 115 },
+  { code: '5000', name: 'Materials', type: 'expense', display_order: 120 },
+].map(toLedgerAccount);
+
+// Invoice 1000 + 200 VAT, 600 of it paid; materials 300 + 60 VAT paid
+const totals = [
+  { account_code: '4000', debit: '0', credit: '1000.00' },
+  { account_code: '1100', debit: '1200.00', credit: '600.00' },
+  { account_code: '2200', debit: 0, credit: 200 },
+  { account_code: '1210', debit: 600, credit: 360 },
+  { account_code: '5000', debit: 300, credit: 0 },
+  { account_code: '2201', debit: 60, credit: 0 },
+].map(toLedgerAccountTotal);
+
+describe('buildTrialBalance', () => {
+  it('nets each account into one column in chart order', () => {
+    const trialBalance = buildTrialBalance(accounts, totals);
+
+    expect(trialBalance.rows.map(r => [r.account.code, r.debit, r.credit])).toEqual([
+      ['1100', 600, 0],
+      ['1210', 240, 0],
+      ['2200', 0, 200],
+      ['2201', 60, 0],
+      ['4000', 0, 1000],
+      ['5000', 300, 0],
+    ]);
+    expect(trialBalance.totalDebit).toBe(1200);
+    expect(trialBalance.totalCredit).toBe(1200);
+    expect(trialBalance.isBalanced).toBe(true);
+  });
+
+  it('drops accounts that net to nothing and keeps unknown codes', () => {
+    const trialBalance = buildTrialBalance(accounts, [
+      { accountCode: '1100', debit: 500, credit: 500 },
+      { accountCode: '9999', debit: 10, credit: 0 },
+    ]);
+
+    expect(trialBalance.rows).toEqual([
+      { account: expect.objectContaining({ code: '9999', name: '9999' }), debit: 10, credit: 0 },
+    ]);
+    expect(trialBalance.isBalanced).toBe(false);
+  });
+
+  it('exports a CSV with totals', () => {
+    const csv = trialBalanceToCsv(buildTrialBalance(accounts, totals));
+    expect(csv.split('\n')[1]).toBe('1100,"Trade debtors",asset,600.00,0.00');
+    expect(csv.split('\n').pop()).toBe(',Total,,1200.00,1200.00');
+  });
+});
+
+describe('buildLedgerProfitAndLoss', () => {
+  it('reports income and expense accounts only', () => {
+    const pnl = buildLedgerProfitAndLoss(accounts, totals);
+
+    expect(pnl.income.map(l => [l.account.code, l.amount])).toEqual([['4000', 1000]]);
+    expect(pnl.expenses.map(l => [l.account.code, l.amount])).toEqual([['5000', 300]]);
+    expect(pnl.netProfit).toBe(700);
+  });
+
+  it('reduces income by credit notes', () => {
+    const pnl = buildLedgerProfitAndLoss(accounts, [{ accountCode: '4000', debit: 250, credit: 1000 }]);
+    expect(pnl.totalIncome).toBe(750);
+  });
+
+  it('counts the VAT kept under the Flat Rate Scheme as income', () => {
+    // Invoice 1000 + 200 VAT at a 9.5% flat rate: 114 owed, 86 kept
+    const pnl = buildLedgerProfitAndLoss(accounts, [
+      { accountCode: '1100', debit: 1200, credit: 0 },
+      { accountCode: '2200', debit: 0, credit: 114 },
+      { accountCode: '4100', debit: 0, credit: 86 },
+      { accountCode: '4000', debit: 0, credit: 1000 },
+    ]);
+
+    expect(pnl.income.map(l => [l.account.code, l.amount])).toEqual([['4000', 1000], ['4100', 86]]);
+    expect(pnl.totalIncome).toBe(1086);
+  });
+
+  it('adds monthly totals back up to the period', () => {
+    const monthly = [
+      { month: '2026-04-01', account_code: '4000', debit: '0', credit: '600.10', entry_count: '2' },
+      { month: '2026-05-01', account_code: '4000', debit: '50', credit: '400.20', entry_count: 1 },
+      { month: '2026-05-01', account_code: '5000', debit: 300, credit: 0, entry_count: 1 },
+    ].map(toLedgerMonthlyTotal);
+
+    expect(monthly[0]).toEqual({ month: '2026-04', accountCode: '4000', debit: 0, credit: 600.1, entryCount: 2 });
+    expect(sumLedgerTotals(monthly)).toEqual([
+      { accountCode: '4000', debit: 50, credit: 1000.3 },
+      { accountCode: '5000', debit: 300, credit: 0 },
+    ]);
+    expect(buildLedgerProfitAndLoss(accounts, sumLedgerTotals(monthly)).netProfit).toBe(650.3);
+  });
+});
+
+describe('getNaturalBalance', () => {
+  it('reads debits as positive for assets and credits for liabilities', () => {
+    expect(getNaturalBalance('asset', { debit: 100, credit: 40 })).toBe(60);
+    expect(getNaturalBalance('liability', { debit: 100, credit: 40 })).toBe(-60);
+  });
+});
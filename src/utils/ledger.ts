@@ -0,0 +1,219 @@
+/**
+ * General ledger reports built from journal totals.
+ *
+ * Journals are posted by database triggers as invoices, payments, expenses,
+ * bills and reconciled bank lines change (see 20260204_general_ledger.sql).
+ * The app only reads per-account debit and credit totals and turns them into
+ * a trial balance and profit and loss.
+ */
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'income' | 'expense';
+
+export interface LedgerAccount {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  displayOrder: number;
+}
+
+export interface LedgerAccountTotal {
+  accountCode: string;
+  debit: number;
+  credit: number;
+}
+
+export interface LedgerMonthlyTotal extends LedgerAccountTotal {
+  month: string;
+  entryCount: number;
+}
+
+export interface TrialBalanceRow {
+  account: LedgerAccount;
+  debit: number;
+  credit: number;
+}
+
+export interface TrialBalance {
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+  isBalanced: boolean;
+}
+
+export interface ProfitAndLossLine {
+  account: LedgerAccount;
+  amount: number;
+}
+
+export interface LedgerProfitAndLoss {
+  income: ProfitAndLossLine[];
+  expenses: ProfitAndLossLine[];
+  totalIncome: number;
+  totalExpenses: number;
+  netProfit: number;
+}
+
+export const LEDGER_ACCOUNT_TYPE_LABELS: Record<LedgerAccountType, string> = {
+  asset: 'Assets',
+  liability: 'Liabilities',
+  equity: 'Equity',
+  income: 'Income',
+  expense: 'Expenses',
+};
+
+// Ledger codes used outside the chart-of-accounts table
+export const SALES_ACCOUNT_CODE = '4000';
+
+// Same order as ledger_expense_account() in 20260204_general_ledger.sql
+const EXPENSE_ACCOUNT_PATTERNS: [RegExp, string][] = [
+  [/material/i, '5000'],
+  [/subcontract|labour/i, '5100'],
+  [/tool|equipment/i, '5200'],
+  [/fuel|vehicle/i, '5300'],
+  [/insurance/i, '6000'],
+  [/subscription|software/i, '6100'],
+  [/phone|internet|broadband/i, '6200'],
+  [/office|stationery|postage/i, '6300'],
+];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Expense account an expense or bill category is posted to.
+ */
+export function getExpenseAccountCode(category: string | null | undefined): string {
+  const match = EXPENSE_ACCOUNT_PATTERNS.find(([pattern]) => category && pattern.test(category));
+  return match ? match[1] : '6900';
+}
+
+/**
+ * Map a ledger_accounts row to the app shape.
+ */
+export function toLedgerAccount(row: { code: string; name: string; type: string; display_order: number }): LedgerAccount {
+  return {
+    code: row.code,
+    name: row.name,
+    type: row.type as LedgerAccountType,
+    displayOrder: row.display_order,
+  };
+}
+
+/**
+ * Map a get_ledger_account_totals row; PostgREST returns numerics as strings.
+ */
+export function toLedgerAccountTotal(row: { account_code: string; debit: number | string; credit: number | string }): LedgerAccountTotal {
+  return {
+    accountCode: row.account_code,
+    debit: Number(row.debit) || 0,
+    credit: Number(row.credit) || 0,
+  };
+}
+
+/**
+ * Map a get_ledger_monthly_totals row; month is the first day of the month.
+ */
+export function toLedgerMonthlyTotal(row: {
+  month: string;
+  account_code: string;
+  debit: number | string;
+  credit: number | string;
+  entry_count: number | string;
+}): LedgerMonthlyTotal {
+  return {
+    ...toLedgerAccountTotal(row),
+    month: row.month.slice(0, 7),
+    entryCount: Number(row.entry_count) || 0,
+  };
+}
+
+/**
+ * Add monthly totals back up into one total per account.
+ */
+export function sumLedgerTotals(totals: LedgerAccountTotal[]): LedgerAccountTotal[] {
+  const byCode = new Map<string, LedgerAccountTotal>();
+  totals.forEach(total => {
+    const existing = byCode.get(total.accountCode) || { accountCode: total.accountCode, debit: 0, credit: 0 };
+    byCode.set(total.accountCode, {
+      accountCode: total.accountCode,
+      debit: roundCurrency(existing.debit + total.debit),
+      credit: roundCurrency(existing.credit + total.credit),
+    });
+  });
+  return Array.from(byCode.values());
+}
+
+/**
+ * Balance on the account's natural side: debits for assets and expenses,
+ * credits for liabilities, equity and income.
+ */
+export function getNaturalBalance(type: LedgerAccountType, total: Pick<LedgerAccountTotal, 'debit' | 'credit'>): number {
+  const debitBalance = total.debit - total.credit;
+  return roundCurrency(type === 'asset' || type === 'expense' ? debitBalance : -debitBalance);
+}
+
+// Accounts in chart order; codes missing from the chart are kept so nothing drops out of the totals
+function withAccounts(accounts: LedgerAccount[], totals: LedgerAccountTotal[]) {
+  const byCode = new Map(accounts.map(a => [a.code, a]));
+  return totals
+    .map(total => ({
+      total,
+      account: byCode.get(total.accountCode) || {
+        code: total.accountCode,
+        name: total.accountCode,
+        type: 'asset' as const,
+        displayOrder: Number.MAX_SAFE_INTEGER,
+      },
+    }))
+    .sort((a, b) => a.account.displayOrder - b.account.displayOrder || a.account.code.localeCompare(b.account.code));
+}
+
+/**
+ * Net each account's debits and credits into a single column.
+ */
+export function buildTrialBalance(accounts: LedgerAccount[], totals: LedgerAccountTotal[]): TrialBalance {
+  const rows = withAccounts(accounts, totals)
+    .map(({ account, total }) => {
+      const net = roundCurrency(total.debit - total.credit);
+      return { account, debit: Math.max(net, 0), credit: Math.max(-net, 0) };
+    })
+    .filter(row => row.debit !== 0 || row.credit !== 0);
+
+  const totalDebit = roundCurrency(rows.reduce((sum, row) => sum + row.debit, 0));
+  const totalCredit = roundCurrency(rows.reduce((sum, row) => sum + row.credit, 0));
+
+  return { rows, totalDebit, totalCredit, isBalanced: totalDebit === totalCredit };
+}
+
+/**
+ * Income and expense accounts for a period's totals.
+ */
+export function buildLedgerProfitAndLoss(accounts: LedgerAccount[], totals: LedgerAccountTotal[]): LedgerProfitAndLoss {
+  const lines = withAccounts(accounts, totals)
+    .map(({ account, total }) => ({ account, amount: getNaturalBalance(account.type, total) }))
+    .filter(line => line.amount !== 0);
+
+  const income = lines.filter(line => line.account.type === 'income');
+  const expenses = lines.filter(line => line.account.type === 'expense');
+  const totalIncome = roundCurrency(income.reduce((sum, line) => sum + line.amount, 0));
+  const totalExpenses = roundCurrency(expenses.reduce((sum, line) => sum + line.amount, 0));
+
+  return { income, expenses, totalIncome, totalExpenses, netProfit: roundCurrency(totalIncome - totalExpenses) };
+}
+
+/**
+ * Trial balance as CSV for the accountant.
+ */
+export function trialBalanceToCsv(trialBalance: TrialBalance): string {
+  const rows = [
+    'Account Code,Account,Type,Debit,Credit',
+    ...trialBalance.rows.map(row => [
+      row.account.code,
+      `"${row.account.name.replace(/"/g, '""')}"`,
+      row.account.type,
+      row.debit.toFixed(2),
+      row.credit.toFixed(2),
+    ].join(',')),
+    `,Total,,${trialBalance.totalDebit.toFixed(2)},${trialBalance.totalCredit.toFixed(2)}`,
+  ];
+  return rows.join('\n');
+}
@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildFuelVatEntries,
+  calculateMileageClaims,
+  getTaxYearStart,
+  getTripSuggestions,
+  isAdvisoryFuelExpense,
+  isCoveredByMileageAllowance,
+  mileageToCsv,
+  summariseMileage,
+  type MileageTrip,
+  type Vehicle,
+} from './mileage';
+import { totalVatEntries, type VatSettings } from './vatPeriods';
+
+const settings = { taxYearStartMonth: 4, taxYearStartDay: 6 };
+
+const vehicle = (overrides: Partial<Vehicle> = {}): Vehicle => ({
+  id: 'van',
+  name: 'Transit',
+  vehicleType: 'van',
+  claimMethod: 'simplified',
+  fuelVatMethod: 'none',
+  isActive: true,
+  ...overrides,
+});
+
+const trip = (id: string, date: string, miles: number, overrides: Partial<MileageTrip> = {}): MileageTrip => ({
+  id,
+  vehicleId: 'van',
+  date,
+  fromLocation: 'Yard',
+  toLocation: 'Site',
+  miles,
+  ...overrides,
+});
+
+const vatSettings: VatSettings = {
+  stagger: 1,
+  scheme: 'standard',
+  flatRateCategory: 'general_building',
+  flatRateFirstYear: false,
+};
+
+describe('getTaxYearStart', () => {
+  it('uses the tax year start setting', () => {
+    expect(getTaxYearStart('2026-04-05', settings)).toBe('2025-04-06');
+    expect(getTaxYearStart('2026-04-06', settings)).toBe('2026-04-06');
+    expect(getTaxYearStart('2026-03-31', { taxYearStartMonth: 1, taxYearStartDay: 1 })).toBe('2026-01-01');
+  });
+});
+
+describe('calculateMileageClaims', () => {
+  it('splits the trip that crosses 10,000 miles and starts again each tax year', () => {
+    const claims = calculateMileageClaims(
+      [
+        trip('b', '2026-03-01', 300),
+        trip('a', '2025-05-01', 9800),
+        trip('c', '2026-04-06', 100),
+      ],
+      [vehicle()],
+      settings
+    );
+
+    expect(claims.map(c => [c.trip.id, c.firstRateMiles, c.afterThresholdMiles, c.allowance])).toEqual([
+      ['a', 9800, 0, 4410],
+      ['b', 200, 100, 115],
+      ['c', 100, 0, 45],
+    ]);
+  });
+
+  it('shares the threshold between cars and vans but not motorcycles', () => {
+    const claims = calculateMileageClaims(
+      [
+        trip('van', '2025-05-01', 10000),
+        trip('car', '2025-06-01', 10, { vehicleId: 'car' }),
+        trip('bike', '2025-06-02', 10, { vehicleId: 'bike' }),
+        trip('gone', '2025-06-03', 10, { vehicleId: 'sold' }),
+      ],
+      [vehicle(), vehicle({ id: 'car', vehicleType: 'car' }), vehicle({ id: 'bike', vehicleType: 'motorcycle' })],
+      settings
+    );
+
+    expect(claims.map(c => [c.trip.id, c.allowance])).toEqual([
+      ['van', 4500],
+      ['car', 2.5],
+      ['bike', 2.4],
+    ]);
+    expect(summariseMileage(claims, '2025-06-01', '2025-06-30')).toEqual({ trips: 2, miles: 20, allowance: 4.9 });
+  });
+
+  it('logs trips in a vehicle claimed at actual costs without an allowance or using the threshold', () => {
+    const claims = calculateMileageClaims(
+      [
+        trip('actual', '2025-05-01', 10000, { vehicleId: 'car' }),
+        trip('van', '2025-06-01', 10),
+      ],
+      [vehicle(), vehicle({ id: 'car', vehicleType: 'car', claimMethod: 'actual' })],
+      settings
+    );
+
+    expect(claims.map(c => [c.trip.id, c.claimMethod, c.firstRateMiles, c.allowance])).toEqual([
+      ['actual', 'actual', 0, 0],
+      ['van', 'simplified', 10, 4.5],
+    ]);
+  });
+});
+
+describe('vehicle expenses', () => {
+  const vehicles = [
+    vehicle({ id: 'van', fuelVatMethod: 'advisory', advisoryFuelRate: 15 }),
+    vehicle({ id: 'car', vehicleType: 'car', claimMethod: 'actual', fuelVatMethod: 'scale_charge' }),
+  ];
+
+  it('leaves out fuel and running costs of a vehicle on simplified mileage', () => {
+    expect(isCoveredByMileageAllowance({ category: 'Fuel', vehicle_id: 'van' }, vehicles)).toBe(true);
+    expect(isCoveredByMileageAllowance({ category: 'Vehicle', vehicle_id: 'van' }, vehicles)).toBe(true);
+    expect(isCoveredByMileageAllowance({ category: 'Other', vehicle_id: 'van' }, vehicles)).toBe(false);
+    expect(isCoveredByMileageAllowance({ category: 'Fuel', vehicle_id: 'car' }, vehicles)).toBe(false);
+    expect(isCoveredByMileageAllowance({ category: 'Fuel', vehicle_id: null }, vehicles)).toBe(false);
+  });
+
+  it('finds fuel whose VAT is reclaimed at the advisory rate instead', () => {
+    expect(isAdvisoryFuelExpense({ category: 'Fuel', vehicle_id: 'van' }, vehicles)).toBe(true);
+    expect(isAdvisoryFuelExpense({ category: 'Vehicle', vehicle_id: 'van' }, vehicles)).toBe(false);
+    expect(isAdvisoryFuelExpense({ category: 'Fuel', vehicle_id: 'car' }, vehicles)).toBe(false);
+  });
+});
+
+describe('getTripSuggestions', () => {
+  const schedule = [
+    { id: 's1', title: 'Kitchen refit', start: '2026-03-02T08:00', end: '2026-03-02T12:00', location: '1 High St', projectId: 'job-1' },
+    { id: 's2', title: 'Quote visit', start: '2026-03-02T13:00', end: '2026-03-02T14:00', location: '9 Mill Lane' },
+    { id: 's3', title: 'Office day', start: '2026-03-03T09:00', end: '2026-03-03T17:00' },
+    { id: 's4', title: 'Kitchen refit', start: '2026-03-03T08:00', end: '2026-03-03T17:00', location: '1 High St', projectId: 'job-1' },
+  ];
+
+  it('chains each day from the business address and skips logged visits', () => {
+    const suggestions = getTripSuggestions(
+      schedule,
+      [trip('t1', '2026-03-03', 12, { scheduleEntryId: 's4' })],
+      'The Yard',
+      '2026-03-01',
+      '2026-03-31'
+    );
+
+    expect(suggestions.map(s => [s.scheduleEntryId, s.fromLocation, s.toLocation, s.jobPackId])).toEqual([
+      ['s1', 'The Yard', '1 High St', 'job-1'],
+      ['s2', '1 High St', '9 Mill Lane', undefined],
+    ]);
+  });
+});
+
+describe('buildFuelVatEntries', () => {
+  const trips = [
+    trip('t1', '2026-01-10', 100, { vehicleId: 'car' }),
+    trip('t2', '2026-02-10', 50, { vehicleId: 'van' }),
+    trip('t3', '2026-03-10', 20, { vehicleId: 'van' }),
+  ];
+  const vehicles = [
+    vehicle({ id: 'car', vehicleType: 'car', fuelVatMethod: 'advisory', advisoryFuelRate: 15 }),
+    vehicle({ id: 'van', fuelVatMethod: 'scale_charge', fuelScaleCharge: 300 }),
+  ];
+
+  it('reclaims advisory fuel VAT per trip and charges the scale charge once a quarter', () => {
+    const entries = buildFuelVatEntries(trips, vehicles, vatSettings);
+
+    expect(entries.map(e => [e.id, e.direction, e.date, e.vat])).toEqual([
+      ['t1', 'purchase', '2026-01-10', 2.5],
+      ['van:2026-03-31', 'sale', '2026-03-31', 50],
+    ]);
+
+    const totals = totalVatEntries(entries, vatSettings);
+    expect(totals.netVat).toBe(47.5);
+    expect(totals.salesCount).toBe(0);
+  });
+
+  it('adds nothing under the Flat Rate Scheme', () => {
+    expect(buildFuelVatEntries(trips, vehicles, { ...vatSettings, scheme: 'flat_rate' })).toEqual([]);
+  });
+});
+
+describe('mileageToCsv', () => {
+  it('exports one row per trip with a total', () => {
+    const claims = calculateMileageClaims(
+      [trip('a', '2026-05-01', 12, { toLocation: 'Smith, 1 High St', jobPackId: 'job-1' })],
+      [vehicle({ registration: 'AB12 CDE' })],
+      settings
+    );
+
+    const lines = mileageToCsv(claims, [vehicle({ registration: 'AB12 CDE' })], new Map([['job-1', 'Kitchen']])).split('\n');
+    expect(lines[1]).toBe('2026-05-01,Transit (AB12 CDE),Yard,"Smith, 1 High St",,Kitchen,12,12,0,5.40');
+    expect(lines[2]).toBe('Total,,,,,,12,,,5.40');
+  });
+});
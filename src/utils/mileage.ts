@@ -0,0 +1,443 @@
+import type { AppSettings, ScheduleEntry } from '../../types';
+import { getVatPeriod, type VatEntry, type VatSettings } from './vatPeriods';
+
+/**
+ * Business mileage.
+ *
+ * Trips are claimed at HMRC's approved mileage allowance payment (AMAP)
+ * rates. Cars and vans share one 10,000 mile threshold per tax year: miles
+ * up to it are claimed at 45p and the rest at 25p, so a trip that crosses
+ * the threshold is split. Motorcycles and bicycles have flat rates.
+ *
+ * Each vehicle is claimed one way. Under simplified mileage the allowance
+ * covers fuel and running costs, so fuel and vehicle expenses for it are
+ * left out of profit. A vehicle claimed at actual costs still logs its
+ * trips but earns no allowance.
+ *
+ * Fuel VAT is worked out per vehicle. Advisory fuel rates reclaim the VAT
+ * in the fuel used for each business trip (keep the fuel receipts that
+ * cover it), so the VAT on the receipts themselves is not reclaimed. The
+ * fuel scale charge instead adds output VAT for every VAT
+ * return the vehicle is used in, in return for reclaiming all its fuel VAT
+ * through expenses. Neither applies under the Flat Rate Scheme.
+ */
+
+export type VehicleType = 'car' | 'van' | 'motorcycle' | 'bicycle';
+
+export type FuelVatMethod = 'none' | 'advisory' | 'scale_charge';
+
+export type VehicleClaimMethod = 'simplified' | 'actual';
+
+// Pence per mile
+export const AMAP_RATES = {
+  carFirst: 45,
+  carAfter: 25,
+  motorcycle: 24,
+  bicycle: 20,
+};
+
+// Car and van miles per tax year claimed at the higher rate
+export const AMAP_THRESHOLD_MILES = 10000;
+
+export const VEHICLE_TYPE_LABELS: Record<VehicleType, string> = {
+  car: 'Car',
+  van: 'Van',
+  motorcycle: 'Motorcycle',
+  bicycle: 'Bicycle',
+};
+
+export const CLAIM_METHOD_LABELS: Record<VehicleClaimMethod, string> = {
+  simplified: 'Simplified mileage',
+  actual: 'Actual costs',
+};
+
+export const FUEL_VAT_METHOD_LABELS: Record<FuelVatMethod, string> = {
+  none: 'No fuel VAT',
+  advisory: 'Advisory fuel rate',
+  scale_charge: 'Fuel scale charge',
+};
+
+export interface Vehicle {
+  id: string;
+  name: string;
+  registration?: string;
+  vehicleType: VehicleType;
+  fuelType?: string;
+  engineCc?: number;
+  claimMethod: VehicleClaimMethod;
+  fuelVatMethod: FuelVatMethod;
+  // Pence per mile, VAT inclusive
+  advisoryFuelRate?: number;
+  // Per VAT quarter, VAT inclusive
+  fuelScaleCharge?: number;
+  isActive: boolean;
+}
+
+export interface MileageTrip {
+  id: string;
+  vehicleId: string;
+  date: string;
+  fromLocation: string;
+  toLocation: string;
+  purpose?: string;
+  miles: number;
+  jobPackId?: string;
+  scheduleEntryId?: string;
+}
+
+/**
+ * A trip priced at the allowance rates.
+ */
+export interface MileageClaim {
+  trip: MileageTrip;
+  vehicleType: VehicleType;
+  claimMethod: VehicleClaimMethod;
+  // First day of the tax year the trip falls in
+  taxYearStart: string;
+  // Miles at the first rate (45p for cars and vans, the flat rate otherwise)
+  firstRateMiles: number;
+  // Car and van miles over the threshold, at 25p
+  afterThresholdMiles: number;
+  allowance: number;
+}
+
+export interface MileageSummary {
+  trips: number;
+  miles: number;
+  allowance: number;
+}
+
+/**
+ * A trip that could be logged from a scheduled visit.
+ */
+export interface TripSuggestion {
+  scheduleEntryId: string;
+  date: string;
+  fromLocation: string;
+  toLocation: string;
+  purpose: string;
+  jobPackId?: string;
+}
+
+/**
+ * Map a vehicles row to the app shape.
+ */
+export function toVehicle(row: {
+  id: string;
+  name: string;
+  registration: string | null;
+  vehicle_type: string;
+  fuel_type: string | null;
+  engine_cc: number | null;
+  claim_method: string;
+  fuel_vat_method: string;
+  advisory_fuel_rate: number | null;
+  fuel_scale_charge: number | null;
+  is_active: boolean;
+}): Vehicle {
+  return {
+    id: row.id,
+    name: row.name,
+    registration: row.registration || undefined,
+    vehicleType: (row.vehicle_type as VehicleType) || 'van',
+    fuelType: row.fuel_type || undefined,
+    engineCc: row.engine_cc ?? undefined,
+    claimMethod: (row.claim_method as VehicleClaimMethod) || 'simplified',
+    fuelVatMethod: (row.fuel_vat_method as FuelVatMethod) || 'none',
+    advisoryFuelRate: row.advisory_fuel_rate ?? undefined,
+    fuelScaleCharge: row.fuel_scale_charge ?? undefined,
+    isActive: row.is_active,
+  };
+}
+
+/**
+ * Map a mileage_trips row to the app shape.
+ */
+export function toMileageTrip(row: {
+  id: string;
+  vehicle_id: string;
+  trip_date: string;
+  from_location: string;
+  to_location: string;
+  purpose: string | null;
+  miles: number;
+  job_pack_id: string | null;
+  schedule_entry_id: string | null;
+}): MileageTrip {
+  return {
+    id: row.id,
+    vehicleId: row.vehicle_id,
+    date: row.trip_date,
+    fromLocation: row.from_location,
+    toLocation: row.to_location,
+    purpose: row.purpose || undefined,
+    miles: Number(row.miles) || 0,
+    jobPackId: row.job_pack_id || undefined,
+    scheduleEntryId: row.schedule_entry_id || undefined,
+  };
+}
+
+type TaxYearSettings = Pick<AppSettings, 'taxYearStartMonth' | 'taxYearStartDay'>;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const roundMiles = (value: number): number => Math.round(value * 10) / 10;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * First day of the tax year an ISO date falls in.
+ */
+export function getTaxYearStart(date: string, settings: TaxYearSettings): string {
+  const month = settings.taxYearStartMonth || 4;
+  const day = settings.taxYearStartDay || 6;
+  const [year] = date.split('-').map(Number);
+  const start = `${year}-${pad(month)}-${pad(day)}`;
+  return date >= start ? start : `${year - 1}-${pad(month)}-${pad(day)}`;
+}
+
+const byDate = (a: MileageTrip, b: MileageTrip): number =>
+  a.date.localeCompare(b.date) || a.id.localeCompare(b.id);
+
+/**
+ * Price every trip, oldest first. Pass a whole tax year of trips (or more)
+ * so the threshold is reached on the right trip; trips for vehicles that
+ * are not in the list are left out. Trips in a vehicle claimed at actual
+ * costs are kept at no allowance and don't count towards the threshold.
+ */
+export function calculateMileageClaims(
+  trips: MileageTrip[],
+  vehicles: Vehicle[],
+  settings: TaxYearSettings
+): MileageClaim[] {
+  const vehiclesById = new Map(vehicles.map(v => [v.id, v]));
+  // Car and van miles claimed so far in each tax year
+  const milesByYear = new Map<string, number>();
+
+  return [...trips].sort(byDate).flatMap((trip): MileageClaim[] => {
+    const vehicle = vehiclesById.get(trip.vehicleId);
+    if (!vehicle) return [];
+    const { vehicleType, claimMethod } = vehicle;
+    const taxYearStart = getTaxYearStart(trip.date, settings);
+
+    if (claimMethod === 'actual') {
+      return [{ trip, vehicleType, claimMethod, taxYearStart, firstRateMiles: 0, afterThresholdMiles: 0, allowance: 0 }];
+    }
+
+    if (vehicleType === 'motorcycle' || vehicleType === 'bicycle') {
+      return [{
+        trip,
+        vehicleType,
+        claimMethod,
+        taxYearStart,
+        firstRateMiles: trip.miles,
+        afterThresholdMiles: 0,
+        allowance: roundCurrency(trip.miles * AMAP_RATES[vehicleType] / 100),
+      }];
+    }
+
+    const before = milesByYear.get(taxYearStart) || 0;
+    milesByYear.set(taxYearStart, before + trip.miles);
+    const firstRateMiles = roundMiles(Math.max(0, Math.min(trip.miles, AMAP_THRESHOLD_MILES - before)));
+    const afterThresholdMiles = roundMiles(trip.miles - firstRateMiles);
+
+    return [{
+      trip,
+      vehicleType,
+      claimMethod,
+      taxYearStart,
+      firstRateMiles,
+      afterThresholdMiles,
+      allowance: roundCurrency((firstRateMiles * AMAP_RATES.carFirst + afterThresholdMiles * AMAP_RATES.carAfter) / 100),
+    }];
+  });
+}
+
+interface VehicleExpense {
+  category?: string | null;
+  vehicle_id?: string | null;
+}
+
+const findVehicle = (expense: VehicleExpense, vehicles: Vehicle[]): Vehicle | undefined =>
+  expense.vehicle_id ? vehicles.find(v => v.id === expense.vehicle_id) : undefined;
+
+/**
+ * Whether an expense is fuel or a running cost of a vehicle claimed at the
+ * mileage rates. The allowance already covers it, so it is not a cost of
+ * the business; parking, tolls and other categories are still claimed.
+ * Matches the vehicle account in the ledger (see 20260205_mileage.sql).
+ */
+export function isCoveredByMileageAllowance(expense: VehicleExpense, vehicles: Vehicle[]): boolean {
+  return !!expense.category && /fuel|vehicle/i.test(expense.category)
+    && findVehicle(expense, vehicles)?.claimMethod === 'simplified';
+}
+
+/**
+ * Whether an expense is fuel for a vehicle on the advisory fuel rate, whose
+ * VAT is reclaimed per business mile by buildFuelVatEntries instead.
+ */
+export function isAdvisoryFuelExpense(expense: VehicleExpense, vehicles: Vehicle[]): boolean {
+  return !!expense.category && /fuel/i.test(expense.category)
+    && findVehicle(expense, vehicles)?.fuelVatMethod === 'advisory';
+}
+
+/**
+ * Total the claims dated within a range (inclusive ISO dates).
+ */
+export function summariseMileage(claims: MileageClaim[], from?: string, to?: string): MileageSummary {
+  const inRange = claims.filter(c => (!from || c.trip.date >= from) && (!to || c.trip.date <= to));
+  return {
+    trips: inRange.length,
+    miles: roundMiles(inRange.reduce((sum, c) => sum + c.trip.miles, 0)),
+    allowance: roundCurrency(inRange.reduce((sum, c) => sum + c.allowance, 0)),
+  };
+}
+
+/**
+ * Suggest trips from scheduled visits with a location that have not been
+ * logged yet. Each day's visits are chained in start order: the first leaves
+ * from the business address, later ones from the previous visit. Miles are
+ * left for the user to fill in.
+ */
+export function getTripSuggestions(
+  schedule: ScheduleEntry[],
+  trips: MileageTrip[],
+  homeAddress: string,
+  from: string,
+  to: string
+): TripSuggestion[] {
+  const logged = new Set(trips.map(t => t.scheduleEntryId).filter(Boolean));
+  const byDay = new Map<string, ScheduleEntry[]>();
+
+  schedule
+    .filter(entry => entry.location?.trim())
+    .filter(entry => {
+      const date = entry.start.split('T')[0];
+      return date >= from && date <= to;
+    })
+    .sort((a, b) => a.start.localeCompare(b.start))
+    .forEach(entry => {
+      const date = entry.start.split('T')[0];
+      byDay.set(date, [...(byDay.get(date) || []), entry]);
+    });
+
+  const suggestions: TripSuggestion[] = [];
+  byDay.forEach((entries, date) => {
+    let previous = homeAddress;
+    entries.forEach(entry => {
+      const location = entry.location!.trim();
+      if (location === previous) return;
+      if (!logged.has(entry.id)) {
+        suggestions.push({
+          scheduleEntryId: entry.id,
+          date,
+          fromLocation: previous,
+          toLocation: location,
+          purpose: entry.title,
+          jobPackId: entry.projectId,
+        });
+      }
+      previous = location;
+    });
+  });
+
+  return suggestions.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Fuel VAT for the VAT return. Advisory-rate vehicles reclaim one sixth of
+ * each trip's fuel cost; scale-charge vehicles add the quarterly charge
+ * (VAT inclusive) as a sale in each period they made a trip in.
+ */
+export function buildFuelVatEntries(
+  trips: MileageTrip[],
+  vehicles: Vehicle[],
+  vatSettings: VatSettings
+): VatEntry[] {
+  if (vatSettings.scheme === 'flat_rate') return [];
+
+  const vehiclesById = new Map(vehicles.map(v => [v.id, v]));
+  const entries: VatEntry[] = [];
+  const scaleCharged = new Set<string>();
+
+  [...trips].sort(byDate).forEach(trip => {
+    const vehicle = vehiclesById.get(trip.vehicleId);
+    if (!vehicle) return;
+
+    if (vehicle.fuelVatMethod === 'advisory' && vehicle.advisoryFuelRate) {
+      const gross = roundCurrency(trip.miles * vehicle.advisoryFuelRate / 100);
+      const vat = roundCurrency(gross / 6);
+      entries.push({
+        source: 'fuel',
+        id: trip.id,
+        documentId: trip.id,
+        date: trip.date,
+        description: `Fuel: ${trip.fromLocation} to ${trip.toLocation}`,
+        direction: 'purchase',
+        net: roundCurrency(gross - vat),
+        vat,
+        gross,
+        reverseChargeVat: 0,
+        category: 'fuel',
+      });
+    }
+
+    if (vehicle.fuelVatMethod === 'scale_charge' && vehicle.fuelScaleCharge) {
+      const period = getVatPeriod(trip.date, vatSettings.stagger);
+      const id = `${vehicle.id}:${period.key}`;
+      if (scaleCharged.has(id)) return;
+      scaleCharged.add(id);
+      const vat = roundCurrency(vehicle.fuelScaleCharge / 6);
+      entries.push({
+        source: 'fuel',
+        id,
+        documentId: vehicle.id,
+        date: period.end,
+        description: `Fuel scale charge: ${vehicle.name}`,
+        direction: 'sale',
+        net: roundCurrency(vehicle.fuelScaleCharge - vat),
+        vat,
+        gross: vehicle.fuelScaleCharge,
+        reverseChargeVat: 0,
+      });
+    }
+  });
+
+  return entries;
+}
+
+const escapeCsvField = (value: string | number | undefined): string => {
+  if (value === undefined) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(escapeCsvField).join(',')).join('\n');
+
+/**
+ * The mileage log as a CSV, one row per trip.
+ */
+export function mileageToCsv(claims: MileageClaim[], vehicles: Vehicle[], jobNames: Map<string, string> = new Map()): string {
+  const vehicleNames = new Map(vehicles.map(v => [v.id, v.registration ? `${v.name} (${v.registration})` : v.name]));
+  const total = summariseMileage(claims);
+  return toCsv([
+    ['Date', 'Vehicle', 'From', 'To', 'Purpose', 'Job', 'Miles', 'Miles at First Rate', 'Miles at 25p', 'Allowance'],
+    ...claims.map(c => [
+      c.trip.date,
+      vehicleNames.get(c.trip.vehicleId),
+      c.trip.fromLocation,
+      c.trip.toLocation,
+      c.trip.purpose,
+      c.trip.jobPackId ? jobNames.get(c.trip.jobPackId) : undefined,
+      c.trip.miles,
+      c.firstRateMiles,
+      c.afterThresholdMiles,
+      c.allowance.toFixed(2),
+    ]),
+    ['Total', '', '', '', '', '', total.miles, '', '', total.allowance.toFixed(2)],
+  ]);
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getMilestoneAmount,
+  describeMilestoneDue,
+  validatePaymentSchedule,
+  getStageInvoices,
+  summarisePaymentSchedule,
+  isScheduleFullyInvoiced,
+  buildStageInvoice,
+} from './paymentSchedule';
+import { calculateDocumentTotals } from './quoteCalculations';
+import {
+  createMockQuote,
+  createMockInvoice,
+  createMockCreditNote,
+  createMockQuoteSection,
+  createMockMaterialItem,
+  createMockSettings,
+} from '../test/factories';
+import type { PaymentMilestone } from '../../types';
+
+const settings = createMockSettings({ enableCis: true });
+
+const deposit: PaymentMilestone = { id: 'm1', label: 'Deposit', type: 'percentage', value: 25, dueTrigger: 'on_acceptance' };
+const firstFix: PaymentMilestone = { id: 'm2', label: 'First fix', type: 'fixed', value: 500 };
+const completion: PaymentMilestone = { id: 'm3', label: 'Completion', type: 'percentage', value: 20, dueTrigger: 'on_completion' };
+
+// 600 materials + 10h labour @ 40, 20% VAT, 20% CIS: 1000 + 200 - 80 = 1120
+const quote = createMockQuote({
+  id: 'quote-1',
+  type: 'quotation',
+  status: 'accepted',
+  referenceNumber: 7,
+  labourRate: 40,
+  sections: [
+    createMockQuoteSection({
+      items: [createMockMaterialItem({ unitPrice: 600, totalPrice: 600 })],
+      labourHours: 10,
+    }),
+  ],
+  paymentSchedule: [deposit, firstFix, completion],
+});
+
+describe('getMilestoneAmount', () => {
+  it('takes a percentage of the quote total or a fixed amount', () => {
+    expect(getMilestoneAmount(deposit, 1120)).toBe(280);
+    expect(getMilestoneAmount(firstFix, 1120)).toBe(500);
+    expect(getMilestoneAmount({ ...deposit, value: 33.333 }, 100)).toBe(33.33);
+  });
+});
+
+describe('describeMilestoneDue', () => {
+  it('describes the trigger', () => {
+    expect(describeMilestoneDue(deposit)).toBe('On acceptance');
+    expect(describeMilestoneDue(firstFix)).toBeUndefined();
+    expect(describeMilestoneDue({ ...firstFix, dueTrigger: 'on_date', dueDate: '2026-03-12' })).toBe('Due 12/03/2026');
+  });
+});
+
+describe('validatePaymentSchedule', () => {
+  it('accepts a schedule within the quote total', () => {
+    expect(validatePaymentSchedule([deposit, firstFix, completion], 1120)).toBeNull();
+  });
+
+  it('rejects unnamed, empty or undated milestones', () => {
+    expect(validatePaymentSchedule([{ ...deposit, label: ' ' }], 1120)).toBe('Every milestone needs a name');
+    expect(validatePaymentSchedule([{ ...deposit, value: 0 }], 1120)).toBe('Deposit needs an amount');
+    expect(validatePaymentSchedule([{ ...deposit, dueTrigger: 'on_date' }], 1120)).toBe('Deposit needs a due date');
+  });
+
+  it('rejects milestones that add up to more than the total', () => {
+    expect(validatePaymentSchedule([deposit, { ...completion, value: 80 }], 1120))
+      .toBe('Milestones add up to more than the quote total');
+  });
+});
+
+describe('buildStageInvoice', () => {
+  it('bills the milestone share with VAT and CIS scaled to match', () => {
+    const invoice = buildStageInvoice(quote, deposit, settings, '2026-02-01');
+    const totals = calculateDocumentTotals(invoice, settings);
+
+    expect(totals.afterDiscount).toBe(250);
+    expect(totals.labourTotal).toBe(100);
+    expect(totals.taxAmount).toBeCloseTo(50);
+    expect(totals.cisAmount).toBeCloseTo(20);
+    expect(totals.grandTotal).toBeCloseTo(280);
+  });
+
+  it('links the invoice to the quote and milestone', () => {
+    const invoice = buildStageInvoice(quote, deposit, settings, '2026-02-01');
+
+    expect(invoice).toMatchObject({
+      id: '',
+      type: 'invoice',
+      status: 'draft',
+      parentQuoteId: 'quote-1',
+      milestoneId: 'm1',
+      markupPercent: 0,
+      date: '2026-02-01',
+      dueDate: '2026-02-15',
+      notes: settings.defaultInvoiceNotes,
+    });
+    expect(invoice.paymentSchedule).toBeUndefined();
+    expect(invoice.sections[0].items[0].name).toBe('Deposit - 25% of Q-0007');
+  });
+
+  it('carries the quote markup and discount inside the stage amount', () => {
+    const discounted = { ...quote, markupPercent: 10, discountType: 'fixed' as const, discountValue: 100 };
+    const quoteTotal = calculateDocumentTotals(discounted, settings).grandTotal;
+    const invoice = buildStageInvoice(discounted, completion, settings);
+
+    expect(calculateDocumentTotals(invoice, settings).grandTotal).toBeCloseTo(quoteTotal * 0.2, 1);
+  });
+
+  it('bills only the chosen option', () => {
+    const withOptions = {
+      ...quote,
+      options: [{ id: 'a', name: 'Repair' }, { id: 'b', name: 'Replace' }],
+      selectedOptionId: 'a',
+      sections: [
+        ...quote.sections,
+        createMockQuoteSection({ optionId: 'b', items: [createMockMaterialItem({ totalPrice: 5000 })] }),
+      ],
+    };
+    const invoice = buildStageInvoice(withOptions, firstFix, settings);
+    expect(calculateDocumentTotals(invoice, settings).grandTotal).toBeCloseTo(500);
+    expect(invoice.options).toBeUndefined();
+  });
+
+  it('bills a zero-rated quote without VAT', () => {
+    const zeroRated = { ...quote, sections: quote.sections.map(s => ({ ...s, vatRate: 'zero' as const })) };
+    const invoice = buildStageInvoice(zeroRated, deposit, settings);
+    const totals = calculateDocumentTotals(invoice, settings);
+
+    expect(invoice.sections.map(s => s.vatRate)).toEqual(['zero']);
+    expect(totals.afterDiscount).toBe(250);
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.cisAmount).toBeCloseTo(20);
+    expect(totals.grandTotal).toBeCloseTo(230);
+  });
+
+  it('bills each VAT rate on a mixed-rate quote at its own rate', () => {
+    // 1000 at 20% (400 of it labour) and 500 at 5%: 1500 + 225 - 80 = 1645
+    const mixed = {
+      ...quote,
+      sections: [
+        ...quote.sections,
+        createMockQuoteSection({ id: 'insulation', vatRate: 'reduced', items: [createMockMaterialItem({ totalPrice: 500 })], labourHours: 0 }),
+      ],
+    };
+    const invoice = buildStageInvoice(mixed, deposit, settings);
+    const totals = calculateDocumentTotals(invoice, settings);
+
+    expect(invoice.sections.map(s => [s.vatRate, s.items[0].totalPrice, s.labourCost])).toEqual([
+      ['standard', 150, 100],
+      ['reduced', 125, 0],
+    ]);
+    expect(invoice.sections[1].items[0].name).toBe('Deposit - 25% of Q-0007 (Reduced 5%)');
+    expect(totals.vatBreakdown.map(b => [b.code, b.net, b.vat])).toEqual([['standard', 250, 50], ['reduced', 125, 6.25]]);
+    expect(totals.cisAmount).toBeCloseTo(20);
+    expect(totals.grandTotal).toBeCloseTo(calculateDocumentTotals(mixed, settings).grandTotal * 0.25);
+  });
+});
+
+describe('schedule progress', () => {
+  const depositInvoice = createMockInvoice({
+    ...buildStageInvoice(quote, deposit, settings),
+    id: 'inv-1',
+    status: 'paid',
+    amountPaid: 280,
+  });
+  const firstFixInvoice = createMockInvoice({
+    ...buildStageInvoice(quote, firstFix, settings),
+    id: 'inv-2',
+    status: 'part_paid',
+    amountPaid: 200,
+  });
+  const voided = createMockInvoice({ ...buildStageInvoice(quote, completion, settings), id: 'inv-3', status: 'void' });
+  const credit = createMockCreditNote({
+    id: 'cn-1',
+    parentQuoteId: 'inv-2',
+    sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 50 })] })],
+  });
+  const quotes = [quote, depositInvoice, firstFixInvoice, voided, credit];
+
+  it('finds live stage invoices only', () => {
+    expect(getStageInvoices(quotes, 'quote-1').map(q => q.id)).toEqual(['inv-1', 'inv-2']);
+  });
+
+  it('reports quoted, invoiced and paid per milestone', () => {
+    const progress = summarisePaymentSchedule(quote, quotes, settings);
+
+    expect(progress.rows.map(r => [r.milestone.id, r.quoted, r.invoiced, r.paid])).toEqual([
+      ['m1', 280, 280, 280],
+      ['m2', 500, 440, 200], // 500 less a 60 credit (50 + VAT)
+      ['m3', 224, 0, 0],
+    ]);
+    expect(progress.rows[2].invoice).toBeUndefined();
+    expect(progress.quoted).toBe(1004);
+    expect(progress.invoiced).toBe(720);
+    expect(progress.paid).toBe(480);
+    expect(progress.unscheduled).toBe(116);
+  });
+
+  it('knows when every milestone has been invoiced', () => {
+    expect(isScheduleFullyInvoiced(quote, quotes)).toBe(false);
+    const completionInvoice = createMockInvoice({ ...buildStageInvoice(quote, completion, settings), id: 'inv-4' });
+    expect(isScheduleFullyInvoiced(quote, [...quotes, completionInvoice])).toBe(true);
+    expect(isScheduleFullyInvoiced(createMockQuote(), quotes)).toBe(false);
+  });
+});
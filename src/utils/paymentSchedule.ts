@@ -0,0 +1,229 @@
+import type { Quote, QuoteSection, PaymentMilestone, PaymentMilestoneTrigger, AppSettings, VatRateCode } from '../../types';
+import { calculateDocumentTotals, calculateSectionLabour, getDocumentHeadlineTotals } from './quoteCalculations';
+import { getCreditNotesForInvoice, getDocumentPrefix, sumCredited } from './creditNotes';
+import { applyAcceptedScope } from './quoteOptions';
+import { formatVatBand } from './vatRates';
+
+type ScheduleSettings = Parameters<typeof calculateDocumentTotals>[1]
+  & Pick<AppSettings, 'quotePrefix' | 'invoicePrefix' | 'creditNotePrefix' | 'defaultInvoiceNotes'>;
+
+/**
+ * One milestone of a schedule with what has been quoted, invoiced and paid against it.
+ */
+export interface MilestoneProgress {
+  milestone: PaymentMilestone;
+  quoted: number;
+  // Net of any credit notes against the stage invoice
+  invoiced: number;
+  paid: number;
+  invoice?: Quote;
+}
+
+export interface PaymentScheduleProgress {
+  rows: MilestoneProgress[];
+  quoted: number;
+  invoiced: number;
+  paid: number;
+  // Part of the quote total not covered by any milestone
+  unscheduled: number;
+}
+
+export const MILESTONE_TRIGGER_LABELS: Record<PaymentMilestoneTrigger, string> = {
+  on_acceptance: 'On acceptance',
+  on_start: 'On start of works',
+  on_completion: 'On completion',
+  on_date: 'On date',
+};
+
+// Typical stages offered when building a schedule
+export const MILESTONE_PRESETS = ['Deposit', 'First fix', 'Second fix', 'Completion', 'Retention'];
+
+// Anything under half a penny is treated as settled
+const TOLERANCE = 0.005;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Amount due for a milestone against the quote total.
+ */
+export function getMilestoneAmount(milestone: PaymentMilestone, quoteTotal: number): number {
+  if (milestone.type === 'percentage') {
+    return roundCurrency(quoteTotal * ((milestone.value || 0) / 100));
+  }
+  return roundCurrency(milestone.value || 0);
+}
+
+/**
+ * When a milestone falls due, for display.
+ */
+export function describeMilestoneDue(milestone: PaymentMilestone): string | undefined {
+  if (!milestone.dueTrigger) return undefined;
+  if (milestone.dueTrigger === 'on_date' && milestone.dueDate) {
+    return `Due ${new Date(milestone.dueDate).toLocaleDateString('en-GB')}`;
+  }
+  return MILESTONE_TRIGGER_LABELS[milestone.dueTrigger];
+}
+
+/**
+ * Check a schedule before saving. Returns an error message, or null if valid.
+ */
+export function validatePaymentSchedule(milestones: PaymentMilestone[], quoteTotal: number): string | null {
+  for (const milestone of milestones) {
+    if (!milestone.label.trim()) return 'Every milestone needs a name';
+    if (!(milestone.value > 0)) return `${milestone.label} needs an amount`;
+    if (milestone.dueTrigger === 'on_date' && !milestone.dueDate) return `${milestone.label} needs a due date`;
+  }
+  const scheduled = milestones.reduce((sum, m) => sum + getMilestoneAmount(m, quoteTotal), 0);
+  if (scheduled > quoteTotal + TOLERANCE) return 'Milestones add up to more than the quote total';
+  return null;
+}
+
+/**
+ * Live (non-void) stage invoices raised from a quote's payment schedule.
+ */
+export function getStageInvoices(quotes: Quote[], quoteId: string): Quote[] {
+  return quotes.filter(q =>
+    q.type === 'invoice' && q.parentQuoteId === quoteId && !!q.milestoneId && q.status !== 'void'
+  );
+}
+
+/**
+ * Quoted vs invoiced vs paid for each milestone of a quote's schedule.
+ */
+export function summarisePaymentSchedule(
+  quote: Quote,
+  quotes: Quote[],
+  settings: Parameters<typeof calculateDocumentTotals>[1]
+): PaymentScheduleProgress {
+  const quoteTotal = getDocumentHeadlineTotals(quote, settings).grandTotal;
+  const stageInvoices = getStageInvoices(quotes, quote.id);
+
+  const rows = (quote.paymentSchedule || []).map(milestone => {
+    const invoice = stageInvoices.find(inv => inv.milestoneId === milestone.id);
+    const credited = invoice ? sumCredited(getCreditNotesForInvoice(quotes, invoice.id), settings) : 0;
+    return {
+      milestone,
+      quoted: getMilestoneAmount(milestone, quoteTotal),
+      invoiced: invoice ? roundCurrency(getDocumentHeadlineTotals(invoice, settings).grandTotal - credited) : 0,
+      paid: roundCurrency(invoice?.amountPaid || 0),
+      invoice,
+    };
+  });
+
+  const quoted = roundCurrency(rows.reduce((sum, r) => sum + r.quoted, 0));
+  return {
+    rows,
+    quoted,
+    invoiced: roundCurrency(rows.reduce((sum, r) => sum + r.invoiced, 0)),
+    paid: roundCurrency(rows.reduce((sum, r) => sum + r.paid, 0)),
+    unscheduled: Math.max(0, roundCurrency(quoteTotal - quoted)),
+  };
+}
+
+/**
+ * Whether every milestone in the schedule has a live stage invoice.
+ */
+export function isScheduleFullyInvoiced(quote: Quote, quotes: Quote[]): boolean {
+  const invoicedIds = new Set(getStageInvoices(quotes, quote.id).map(inv => inv.milestoneId));
+  return (quote.paymentSchedule || []).length > 0
+    && quote.paymentSchedule!.every(m => invoicedIds.has(m.id));
+}
+
+// Labour before markup at each VAT rate, as the totals engine charges it
+const getLabourByRate = (quote: Quote, defaultLabourRate: number): Map<VatRateCode, number> => {
+  const byRate = new Map<VatRateCode, number>();
+  const add = (code: VatRateCode, amount: number) => byRate.set(code, (byRate.get(code) || 0) + amount);
+
+  quote.sections.forEach(section => {
+    const sectionRate = section.vatRate || 'standard';
+    if (section.labourItems && section.labourItems.length > 0) {
+      const effectiveRate = section.labourRate ?? quote.labourRate ?? defaultLabourRate;
+      section.labourItems.forEach(item => add(item.vatRate || sectionRate, item.hours * (item.rate ?? effectiveRate)));
+    } else {
+      add(sectionRate, calculateSectionLabour(section, quote.labourRate, defaultLabourRate));
+    }
+  });
+  return byRate;
+};
+
+/**
+ * The invoice for one milestone of an accepted quote.
+ * It bills the milestone's share of the quote: the net, VAT and CIS all scale
+ * by the same fraction. There is one line per VAT rate on the quote, each
+ * with its share of the net at that rate, and the labour share kept separate
+ * so CIS is only withheld on labour.
+ */
+export function buildStageInvoice(
+  quote: Quote,
+  milestone: PaymentMilestone,
+  settings: ScheduleSettings,
+  date: string = new Date().toISOString().split('T')[0]
+): Quote {
+  const accepted = applyAcceptedScope(quote);
+  const totals = calculateDocumentTotals(accepted, settings);
+  const amount = getMilestoneAmount(milestone, totals.grandTotal);
+  const share = totals.grandTotal > 0 ? amount / totals.grandTotal : 0;
+
+  const reference = `${getDocumentPrefix(quote.type, settings)}${(quote.referenceNumber || 1).toString().padStart(4, '0')}`;
+  const shareLabel = milestone.type === 'percentage' ? `${milestone.value}% of ` : '';
+
+  const labourByRate = getLabourByRate(accepted, settings.defaultLabourRate);
+  const bands = totals.vatBreakdown.length > 0
+    ? totals.vatBreakdown
+    : [{ code: 'standard' as VatRateCode, ratePercent: accepted.taxPercent, net: totals.afterDiscount, vat: 0 }];
+
+  const sections: QuoteSection[] = bands.map(band => {
+    const labour = roundCurrency((labourByRate.get(band.code) || 0) * share);
+    const net = roundCurrency(band.net * share);
+    const single = bands.length === 1;
+    return {
+      id: single ? milestone.id : `${milestone.id}-${band.code}`,
+      title: milestone.label,
+      items: [{
+        id: single ? `${milestone.id}-stage` : `${milestone.id}-stage-${band.code}`,
+        name: `${milestone.label} - ${shareLabel}${reference}${single ? '' : ` (${formatVatBand(band)})`}`,
+        description: quote.title,
+        quantity: 1,
+        unit: 'stage',
+        unitPrice: roundCurrency(net - labour),
+        totalPrice: roundCurrency(net - labour),
+      }],
+      labourHours: 0,
+      labourCost: labour,
+      vatRate: band.code,
+    };
+  });
+
+  const due = new Date(date);
+  due.setDate(due.getDate() + 14);
+  const now = new Date().toISOString();
+
+  return {
+    ...accepted,
+    id: '',
+    type: 'invoice',
+    savedTotals: undefined,
+    status: 'draft',
+    referenceNumber: undefined,
+    title: `${quote.title} - ${milestone.label}`,
+    date,
+    dueDate: due.toISOString().split('T')[0],
+    sections,
+    // The quote's markup and discount are already inside the stage amount
+    markupPercent: 0,
+    discountType: undefined,
+    discountValue: undefined,
+    discountDescription: undefined,
+    partPaymentEnabled: false,
+    partPaymentType: undefined,
+    partPaymentValue: undefined,
+    partPaymentLabel: undefined,
+    notes: settings.defaultInvoiceNotes || quote.notes,
+    parentQuoteId: quote.id,
+    milestoneId: milestone.id,
+    paymentSchedule: undefined,
+    shareToken: undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
@@ -7,7 +7,16 @@ import {
   calculateVat,
   calculateCis,
   calculatePartPayment,
+  calculateRetention,
   calculateQuoteTotals,
+  calculateDocumentTotals,
+  calculateDocumentTotal,
+  calculateDocumentRevenue,
+  toStoredTotals,
+  getDocumentHeadlineTotals,
+  getRowTotals,
+  toRowTotalsSettings,
+  getDocumentSign,
 } from './quoteCalculations';
 import type { Quote, QuoteSection, QuoteDisplayOptions } from '../../types';
 
@@ -252,6 +261,18 @@ describe('calculatePartPayment', () => {
   });
 });
 
+describe('calculateRetention', () => {
+  it('returns 0 when no retention is held', () => {
+    expect(calculateRetention(1000, undefined)).toBe(0);
+    expect(calculateRetention(1000, 0)).toBe(0);
+  });
+
+  it('takes the percentage of the net value', () => {
+    expect(calculateRetention(1000, 5)).toBe(50);
+    expect(calculateRetention(1000, 2.5)).toBe(25);
+  });
+});
+
 describe('calculateQuoteTotals', () => {
   const defaultOptions = {
     enableVat: true,
@@ -483,4 +504,385 @@ describe('calculateQuoteTotals', () => {
     expect(totals.cisAmount).toBe(100); // 20% CIS on labour
     expect(totals.grandTotal).toBe(1100); // 1000 + 200 VAT - 100 CIS
   });
+
+  it('splits the total into the amount due now and the amount retained', () => {
+    const quote = createQuote({
+      type: 'invoice',
+      sections: [
+        createSection({
+          items: [
+            { id: '1', name: 'Material', description: '', quantity: 1, unit: 'ea', unitPrice: 500, totalPrice: 500 },
+          ],
+          labourHours: 10,
+        }),
+      ],
+      labourRate: 50,
+      taxPercent: 20,
+      cisPercent: 20,
+      retentionPercent: 5,
+    });
+
+    const totals = calculateQuoteTotals(
+      quote,
+      { ...defaultOptions, enableCis: true },
+      { ...defaultDisplayOptions, showCis: true }
+    );
+
+    expect(totals.grandTotal).toBe(1100);
+    expect(totals.retentionAmount).toBe(50); // 5% of the 1000 net
+    expect(totals.amountDueNow).toBe(1050);
+  });
+
+  it('has nothing retained by default', () => {
+    const quote = createQuote({
+      sections: [createSection({ labourHours: 2 })],
+    });
+
+    const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+    expect(totals.retentionAmount).toBe(0);
+    expect(totals.amountDueNow).toBe(totals.grandTotal);
+  });
+
+  it('charges no VAT under the domestic reverse charge but reports the notional amount', () => {
+    const quote = createQuote({
+      type: 'invoice',
+      sections: [createSection({ labourHours: 20 })],
+      reverseCharge: true,
+    });
+
+    const totals = calculateQuoteTotals(
+      quote,
+      { ...defaultOptions, enableCis: true },
+      { ...defaultDisplayOptions, showCis: true }
+    );
+
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.reverseChargeVat).toBe(200);
+    expect(totals.cisAmount).toBe(200);
+    expect(totals.grandTotal).toBe(800); // 1000 net - 200 CIS
+  });
+
+  it('takes CIS from labour before markup when prices already include it', () => {
+    // 10h at £50 with 20% markup, as the quote portal sends it: £60/h with £500 behind it
+    const appQuote = createQuote({ sections: [createSection({ labourHours: 10 })], markupPercent: 20 });
+    const portalQuote = createQuote({
+      sections: [createSection({ labourHours: 10, cisLabour: 500 })],
+      labourRate: 60,
+      markupPercent: 0,
+    });
+    const options = { ...defaultOptions, enableVat: false, enableCis: true };
+    const display = { ...defaultDisplayOptions, showVat: false };
+
+    const app = calculateQuoteTotals(appQuote, options, display);
+    const portal = calculateQuoteTotals(portalQuote, options, display);
+
+    expect(portal.cisAmount).toBe(100);
+    expect(portal.cisAmount).toBe(app.cisAmount);
+    expect(portal.grandTotal).toBe(app.grandTotal);
+  });
+
+  it('has no notional VAT without the reverse charge', () => {
+    const quote = createQuote({ sections: [createSection({ labourHours: 2 })] });
+
+    expect(calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions).reverseChargeVat).toBe(0);
+  });
+
+  describe('multi-rate VAT', () => {
+    const material = (id: string, price: number, vatRate?: 'standard' | 'reduced' | 'zero' | 'exempt') => ({
+      id, name: id, description: '', quantity: 1, unit: 'ea', unitPrice: price, totalPrice: price, vatRate,
+    });
+
+    it('keeps a single standard band for unrated documents', () => {
+      const quote = createQuote({ sections: [createSection({ items: [material('a', 100)], labourHours: 2 })] });
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.vatBreakdown).toEqual([{ code: 'standard', ratePercent: 20, net: 200, vat: 40 }]);
+      expect(totals.taxAmount).toBe(40);
+    });
+
+    it('charges each line at its own rate, falling back to the section rate', () => {
+      const quote = createQuote({
+        sections: [
+          createSection({ vatRate: 'reduced', items: [material('insulation', 1000), material('boiler', 500, 'standard')] }),
+          createSection({ items: [material('new build', 300, 'zero'), material('exempt', 100, 'exempt')] }),
+        ],
+      });
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.vatBreakdown.map(b => [b.code, b.net, b.vat])).toEqual([
+        ['standard', 500, 100],
+        ['reduced', 1000, 50],
+        ['zero', 300, 0],
+        ['exempt', 100, 0],
+      ]);
+      expect(totals.taxAmount).toBe(150);
+      expect(totals.grandTotal).toBe(2050);
+    });
+
+    it('charges hours at the section rate and itemised labour at its own', () => {
+      const quote = createQuote({
+        sections: [
+          createSection({ vatRate: 'reduced', labourHours: 2 }),
+          createSection({ labourItems: [{ id: 'l', description: 'Fit', hours: 2, vatRate: 'zero' }] }),
+        ],
+      });
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.vatBreakdown.map(b => [b.code, b.net, b.vat])).toEqual([
+        ['reduced', 100, 5],
+        ['zero', 100, 0],
+      ]);
+    });
+
+    it('spreads markup, discount and price overrides across the rates', () => {
+      const quote = createQuote({
+        markupPercent: 10,
+        discountType: 'percentage',
+        discountValue: 50,
+        sections: [
+          createSection({ subsectionPrice: 400, items: [material('a', 100), material('b', 100, 'reduced')] }),
+        ],
+      });
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.vatBreakdown[0].net).toBeCloseTo(110);
+      expect(totals.vatBreakdown[1].net).toBeCloseTo(110);
+      expect(totals.vatBreakdown.reduce((sum, b) => sum + b.net, 0)).toBeCloseTo(totals.afterDiscount);
+      expect(totals.taxAmount).toBeCloseTo(22 + 5.5);
+    });
+
+    it('reports the VAT a reverse-charge customer accounts for at each rate', () => {
+      const quote = createQuote({
+        reverseCharge: true,
+        sections: [createSection({ items: [material('a', 100), material('b', 100, 'reduced')] })],
+      });
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.taxAmount).toBe(0);
+      expect(totals.reverseChargeVat).toBe(25);
+    });
+  });
+
+  describe('option tiers', () => {
+    // Shared strip-out (100), repair (200) vs replacement (1000), optional extra (50)
+    const quote = createQuote({
+      options: [
+        { id: 'repair', name: 'Repair' },
+        { id: 'replace', name: 'Full replacement' },
+      ],
+      sections: [
+        createSection({ id: 'shared', items: [{ id: 'a', name: 'Strip out', description: '', quantity: 1, unit: 'job', unitPrice: 100, totalPrice: 100 }] }),
+        createSection({ id: 'repair', optionId: 'repair', items: [{ id: 'b', name: 'Repair', description: '', quantity: 1, unit: 'job', unitPrice: 200, totalPrice: 200 }] }),
+        createSection({ id: 'replace', optionId: 'replace', items: [{ id: 'c', name: 'Replace', description: '', quantity: 1, unit: 'job', unitPrice: 1000, totalPrice: 1000 }] }),
+        createSection({ id: 'extra', isOptional: true, items: [{ id: 'd', name: 'Extra', description: '', quantity: 1, unit: 'job', unitPrice: 50, totalPrice: 50 }] }),
+      ],
+    });
+
+    it('reports a total per option', () => {
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.optionTotals.map(o => [o.optionId, o.name])).toEqual([
+        ['repair', 'Repair'],
+        ['replace', 'Full replacement'],
+      ]);
+      expect(totals.optionTotals[0].grandTotal).toBeCloseTo(360);
+      expect(totals.optionTotals[1].grandTotal).toBeCloseTo(1320);
+    });
+
+    it('prices the first option until the customer chooses', () => {
+      const totals = calculateQuoteTotals(quote, defaultOptions, defaultDisplayOptions);
+      expect(totals.sectionsTotal).toBe(300);
+      expect(totals.grandTotal).toBeCloseTo(360);
+    });
+
+    it('prices the chosen option with ticked add-ons', () => {
+      const chosen = {
+        ...quote,
+        selectedOptionId: 'replace',
+        sections: quote.sections.map(s => s.id === 'extra' ? { ...s, isIncluded: true } : s),
+      };
+      const totals = calculateQuoteTotals(chosen, defaultOptions, defaultDisplayOptions);
+
+      expect(totals.sectionsTotal).toBe(1150);
+      expect(totals.optionTotals.find(o => o.optionId === 'repair')?.sectionsTotal).toBe(350);
+    });
+
+    it('applies the discount to each option', () => {
+      const totals = calculateQuoteTotals(
+        { ...quote, discountType: 'percentage', discountValue: 10 },
+        defaultOptions,
+        defaultDisplayOptions
+      );
+      expect(totals.optionTotals.map(o => o.discountAmount)).toEqual([30, 110]);
+    });
+
+    it('reports no option totals for a single-scope quote', () => {
+      const totals = calculateQuoteTotals(createQuote(), defaultOptions, defaultDisplayOptions);
+      expect(totals.optionTotals).toEqual([]);
+    });
+  });
+});
+
+describe('document totals', () => {
+  const settings = {
+    enableVat: true,
+    enableCis: true,
+    defaultLabourRate: 65,
+    defaultDisplayOptions,
+  };
+
+  // Mixes every labour mode, a price override, markup, discount and CIS
+  const complexInvoice = createQuote({
+    type: 'invoice',
+    sections: [
+      createSection({
+        id: 's1',
+        items: [
+          { id: 'h', name: 'Heading', description: '', quantity: 0, unit: '', unitPrice: 0, totalPrice: 999, isHeading: true },
+          { id: 'm1', name: 'Copper pipe', description: '', quantity: 3, unit: 'm', unitPrice: 12.33, totalPrice: 36.99 },
+        ],
+        labourItems: [
+          { id: 'l1', description: 'First fix', hours: 3.5 },
+          { id: 'l2', description: 'Commissioning', hours: 1, rate: 80 },
+        ],
+      }),
+      createSection({ id: 's2', labourCost: 120 }),
+      createSection({ id: 's3', labourHours: 4, subsectionPrice: 250 }),
+    ],
+    labourRate: 45,
+    markupPercent: 12.5,
+    discountType: 'percentage',
+    discountValue: 7,
+    taxPercent: 20,
+    cisPercent: 20,
+    displayOptions: defaultDisplayOptions,
+  });
+
+  const complexRow = {
+    sections: complexInvoice.sections,
+    labour_rate: complexInvoice.labourRate,
+    markup_percent: complexInvoice.markupPercent,
+    tax_percent: complexInvoice.taxPercent,
+    cis_percent: complexInvoice.cisPercent,
+    discount_type: complexInvoice.discountType,
+    discount_value: complexInvoice.discountValue,
+    display_options: complexInvoice.displayOptions,
+  };
+
+  it('matches calculateQuoteTotals with the same options QuoteView uses', () => {
+    const expected = calculateQuoteTotals(
+      complexInvoice,
+      { enableVat: true, enableCis: true, showVat: true, showCis: true, defaultLabourRate: 65 },
+      defaultDisplayOptions
+    );
+    expect(calculateDocumentTotals(complexInvoice, settings)).toEqual(expected);
+  });
+
+  it('falls back to default display options when the document has none', () => {
+    const quote = { ...complexInvoice, displayOptions: undefined };
+    const totals = calculateDocumentTotals(quote, {
+      ...settings,
+      defaultDisplayOptions: { ...defaultDisplayOptions, showVat: false, showCis: false },
+    });
+    expect(totals.taxAmount).toBe(0);
+    expect(totals.cisAmount).toBe(0);
+  });
+
+  it('gives dashboard total and P&L revenue consistent with the document', () => {
+    const totals = calculateDocumentTotals(complexInvoice, settings);
+    expect(calculateDocumentTotal(complexInvoice, settings)).toBe(totals.grandTotal);
+    expect(calculateDocumentRevenue(complexInvoice, settings)).toBeCloseTo(totals.afterDiscount + totals.taxAmount, 10);
+  });
+
+  it('rounds stored totals to pence', () => {
+    const stored = toStoredTotals(calculateDocumentTotals(complexInvoice, settings));
+    Object.values(stored).forEach(value => {
+      expect(Math.round(value * 100) / 100).toBe(value);
+    });
+    expect(stored.total).toBeCloseTo(stored.subtotal + stored.vat - stored.cis_amount, 2);
+  });
+
+  it('derives the same totals from a raw row as the in-app engine', () => {
+    const stored = toStoredTotals(calculateDocumentTotals(complexInvoice, settings));
+    expect(getRowTotals(complexRow, settings)).toEqual(stored);
+  });
+
+  it('prefers persisted totals over recalculating', () => {
+    const persisted = { subtotal: 100, discount_amount: 5, vat: 20, cis_amount: 10, total: 110 };
+    expect(getRowTotals({ ...complexRow, ...persisted }, settings)).toEqual(persisted);
+  });
+
+  it('derives reverse-charge rows without VAT', () => {
+    const stored = getRowTotals({ ...complexRow, reverse_charge: true }, settings);
+    expect(stored.vat).toBe(0);
+    expect(stored.total).toBeCloseTo(stored.subtotal - stored.cis_amount, 2);
+  });
+
+  it('parses persisted totals returned as strings', () => {
+    const row = { subtotal: '100.50', discount_amount: null, vat: '20.10', cis_amount: '0', total: '120.60' } as any;
+    expect(getRowTotals(row, settings)).toEqual({ subtotal: 100.5, discount_amount: 0, vat: 20.1, cis_amount: 0, total: 120.6 });
+  });
+
+  it("derives an unsaved row's totals under the user's settings", () => {
+    const { display_options: _displayOptions, ...row } = complexRow;
+    const stored = getRowTotals(row, toRowTotalsSettings({ enable_vat: false, enable_cis: true, default_labour_rate: 65 }));
+
+    expect(stored.vat).toBe(0);
+    expect(stored.cis_amount).toBeGreaterThan(0);
+    expect(getRowTotals(row, { ...settings, defaultDisplayOptions: { showVat: true, showCis: false } }).cis_amount).toBe(0);
+  });
+
+  it('reads the saved totals once a document has them', () => {
+    const savedTotals = { subtotal: 500, discountAmount: 0, vat: 100, cisAmount: 40, total: 560 };
+    const saved = { ...complexInvoice, savedTotals };
+
+    // Worked out under other settings, so they differ from what the engine gives now
+    expect(calculateDocumentTotal(saved, settings)).toBe(560);
+    expect(calculateDocumentRevenue(saved, settings)).toBe(600);
+    // Credit notes are saved negative but read back positive, like the engine's figures
+    const creditNote = {
+      ...saved,
+      type: 'credit_note' as const,
+      savedTotals: { subtotal: -500, discountAmount: 0, vat: -100, cisAmount: -40, total: -560 },
+    };
+    expect(getDocumentHeadlineTotals(creditNote, settings)).toEqual({
+      afterDiscount: 500,
+      discountAmount: 0,
+      taxAmount: 100,
+      cisAmount: 40,
+      grandTotal: 560,
+    });
+    expect(calculateDocumentTotal(creditNote, settings)).toBe(-560);
+  });
+
+  describe('credit notes', () => {
+    const creditNote = { ...complexInvoice, type: 'credit_note' as const };
+
+    it('only negates credit notes', () => {
+      expect(getDocumentSign('credit_note')).toBe(-1);
+      expect(getDocumentSign('invoice')).toBe(1);
+      expect(getDocumentSign(undefined)).toBe(1);
+    });
+
+    it('renders the same positive figures but counts negatively', () => {
+      const totals = calculateDocumentTotals(creditNote, settings);
+      expect(totals).toEqual(calculateDocumentTotals(complexInvoice, settings));
+      expect(calculateDocumentTotal(creditNote, settings)).toBe(-totals.grandTotal);
+      expect(calculateDocumentRevenue(creditNote, settings)).toBe(-calculateDocumentRevenue(complexInvoice, settings));
+    });
+
+    it('stores negative totals including VAT', () => {
+      const invoiceStored = toStoredTotals(calculateDocumentTotals(complexInvoice, settings));
+      const creditStored = toStoredTotals(calculateDocumentTotals(creditNote, settings), -1);
+      expect(creditStored.vat).toBe(-invoiceStored.vat);
+      expect(creditStored.total).toBe(-invoiceStored.total);
+      expect(getRowTotals({ ...complexRow, type: 'credit_note' }, settings)).toEqual(creditStored);
+    });
+
+    it('does not produce negative zero for an empty credit note', () => {
+      const empty = { ...creditNote, sections: [], discountType: undefined, discountValue: undefined };
+      expect(Object.is(calculateDocumentTotal(empty, settings), 0)).toBe(true);
+    });
+  });
 });
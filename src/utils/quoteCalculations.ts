@@ -1,6 +1,11 @@
-import type { Quote, QuoteSection, QuoteDisplayOptions, AppSettings } from '../../types';
+import type { Quote, QuoteSection, QuoteDisplayOptions, AppSettings, VatRateCode } from '../../types';
+import { getActiveOptionId, getSectionsInScope } from './quoteOptions';
+import { VAT_RATE_CODES, getVatRatePercent, type VatRateBand } from './vatRates';
 
-export interface QuoteTotals {
+/**
+ * Totals for one priced scope of work.
+ */
+export interface ScopeTotals {
   materialsTotal: number;
   labourTotal: number;
   sectionsTotal: number;
@@ -8,8 +13,32 @@ export interface QuoteTotals {
   discountAmount: number;
   afterDiscount: number;
   taxAmount: number;
+  // Net and VAT per rate, after markup and discount; sums to afterDiscount and taxAmount
+  vatBreakdown: VatRateBand[];
+  // VAT the customer accounts for under the domestic reverse charge; not in grandTotal
+  reverseChargeVat: number;
   cisAmount: number;
   grandTotal: number;
+  // Held back by the main contractor until release; grandTotal still includes it
+  retentionAmount: number;
+  amountDueNow: number;
+}
+
+/**
+ * What one option in a good / better / best quote would cost,
+ * with the add-ons currently ticked in.
+ */
+export interface QuoteOptionTotals extends ScopeTotals {
+  optionId: string;
+  name: string;
+}
+
+/**
+ * Totals for the quote's active scope (the chosen option, or the first one
+ * until the customer chooses), plus a total per option when options are offered.
+ */
+export interface QuoteTotals extends ScopeTotals {
+  optionTotals: QuoteOptionTotals[];
 }
 
 export interface CalculationOptions {
@@ -74,6 +103,65 @@ export function calculateSectionPrice(
   return materialsTotal + labourTotal;
 }
 
+/**
+ * Split a section's price between VAT rates.
+ * Lines without a rate take the section's rate; hours or a direct labour
+ * cost are charged at the section's rate. A subsection price override is
+ * shared between the rates in proportion to the lines.
+ */
+export function calculateSectionNetByRate(
+  section: QuoteSection,
+  quoteLabourRate: number,
+  defaultLabourRate: number
+): Map<VatRateCode, number> {
+  const sectionRate = section.vatRate || 'standard';
+  const byRate = new Map<VatRateCode, number>();
+  const add = (code: VatRateCode | undefined, amount: number) => {
+    if (!amount) return;
+    const key = code || sectionRate;
+    byRate.set(key, (byRate.get(key) || 0) + amount);
+  };
+
+  (section.items || []).filter(item => !item.isHeading).forEach(item => add(item.vatRate, item.totalPrice || 0));
+
+  if (section.labourItems && section.labourItems.length > 0) {
+    const effectiveRate = section.labourRate ?? quoteLabourRate ?? defaultLabourRate;
+    section.labourItems.forEach(item => add(item.vatRate, item.hours * (item.rate ?? effectiveRate)));
+  } else {
+    add(sectionRate, calculateSectionLabour(section, quoteLabourRate, defaultLabourRate));
+  }
+
+  if (section.subsectionPrice !== undefined) {
+    const calculated = Array.from(byRate.values()).reduce((sum, value) => sum + value, 0);
+    if (!calculated) return new Map(section.subsectionPrice ? [[sectionRate, section.subsectionPrice]] : []);
+    byRate.forEach((value, code) => byRate.set(code, value * (section.subsectionPrice! / calculated)));
+  }
+
+  return byRate;
+}
+
+/**
+ * Apportion the document's net value (after markup and discount) between
+ * rates and charge VAT on each.
+ */
+export function calculateVatBreakdown(
+  netByRate: Map<VatRateCode, number>,
+  afterDiscount: number,
+  taxPercent: number,
+  options: { enableVat: boolean; showVat: boolean }
+): VatRateBand[] {
+  const codes = VAT_RATE_CODES.filter(code => netByRate.get(code));
+  const sectionsTotal = codes.reduce((sum, code) => sum + netByRate.get(code)!, 0);
+  if (!sectionsTotal) return [];
+
+  return codes.map(code => {
+    // A single rate takes the whole figure, so single-rate totals are unchanged
+    const net = codes.length === 1 ? afterDiscount : afterDiscount * (netByRate.get(code)! / sectionsTotal);
+    const ratePercent = getVatRatePercent(code, taxPercent);
+    return { code, ratePercent, net, vat: calculateVat(net, ratePercent, options) };
+  });
+}
+
 /**
  * Calculate discount amount based on type and value.
  */
@@ -123,6 +211,20 @@ export function calculateCis(
   return labourTotal * ((cisPercent || 0) / 100);
 }
 
+/**
+ * Calculate retention held back by a main contractor.
+ * Retention is taken on the net value of the work, before VAT and CIS.
+ */
+export function calculateRetention(
+  afterDiscount: number,
+  retentionPercent: number | undefined
+): number {
+  if (!retentionPercent || retentionPercent <= 0) {
+    return 0;
+  }
+  return afterDiscount * (retentionPercent / 100);
+}
+
 /**
  * Calculate part payment amount.
  */
@@ -144,20 +246,22 @@ export function calculatePartPayment(
 }
 
 /**
- * Calculate all quote totals.
- * This is the main calculation function that combines all the individual calculations.
+ * Calculate the totals for one set of sections priced under the quote's terms.
  */
-export function calculateQuoteTotals(
+function calculateScopeTotals(
+  sections: QuoteSection[],
   quote: Quote,
   options: CalculationOptions,
   displayOptions: QuoteDisplayOptions
-): QuoteTotals {
-  const sections = quote.sections || [];
+): ScopeTotals {
   const markupMultiplier = 1 + ((quote.markupPercent || 0) / 100);
 
   let materialsTotal = 0;
   let labourTotal = 0;
+  // CIS is taken from labour before markup
+  let cisLabourTotal = 0;
   let sectionsTotal = 0;
+  const netByRate = new Map<VatRateCode, number>();
 
   sections.forEach(section => {
     const sectionMaterials = calculateSectionMaterials(section);
@@ -170,7 +274,12 @@ export function calculateQuoteTotals(
 
     materialsTotal += sectionMaterials;
     labourTotal += sectionLabour;
+    cisLabourTotal += section.cisLabour ?? sectionLabour;
     sectionsTotal += sectionPrice;
+
+    calculateSectionNetByRate(section, quote.labourRate, options.defaultLabourRate).forEach((value, code) => {
+      netByRate.set(code, (netByRate.get(code) || 0) + value);
+    });
   });
 
   const clientSubtotal = sectionsTotal * markupMultiplier;
@@ -183,18 +292,23 @@ export function calculateQuoteTotals(
 
   const afterDiscount = clientSubtotal - discountAmount;
 
-  const taxAmount = calculateVat(afterDiscount, quote.taxPercent, {
+  const vatBreakdown = calculateVatBreakdown(netByRate, afterDiscount, quote.taxPercent, {
     enableVat: options.enableVat,
     showVat: displayOptions.showVat,
   });
+  const vatAtRate = vatBreakdown.reduce((sum, band) => sum + band.vat, 0);
+  const reverseChargeVat = quote.reverseCharge ? vatAtRate : 0;
+  const taxAmount = quote.reverseCharge ? 0 : vatAtRate;
 
-  const cisAmount = calculateCis(labourTotal, quote.cisPercent, {
+  const cisAmount = calculateCis(cisLabourTotal, quote.cisPercent, {
     enableCis: options.enableCis,
     showCis: displayOptions.showCis,
   });
 
   const grandTotal = (afterDiscount + taxAmount) - cisAmount;
 
+  const retentionAmount = calculateRetention(afterDiscount, quote.retentionPercent);
+
   return {
     materialsTotal,
     labourTotal,
@@ -203,7 +317,253 @@ export function calculateQuoteTotals(
     discountAmount,
     afterDiscount,
     taxAmount,
+    vatBreakdown,
+    reverseChargeVat,
     cisAmount,
     grandTotal,
+    retentionAmount,
+    amountDueNow: grandTotal - retentionAmount,
+  };
+}
+
+/**
+ * Calculate all quote totals.
+ * This is the main calculation function that combines all the individual calculations.
+ * Only sections in the active option's scope count towards the headline figures.
+ */
+export function calculateQuoteTotals(
+  quote: Quote,
+  options: CalculationOptions,
+  displayOptions: QuoteDisplayOptions
+): QuoteTotals {
+  const activeTotals = calculateScopeTotals(
+    getSectionsInScope(quote, getActiveOptionId(quote)),
+    quote,
+    options,
+    displayOptions
+  );
+
+  const optionTotals = (quote.options || []).map(option => ({
+    optionId: option.id,
+    name: option.name,
+    ...calculateScopeTotals(getSectionsInScope(quote, option.id), quote, options, displayOptions),
+  }));
+
+  return { ...activeTotals, optionTotals };
+}
+
+// ============================================
+// DOCUMENT TOTALS
+// Shared by every page and report so the dashboard, P&L, aged debt and
+// exports all agree with the PDF the customer received.
+// ============================================
+
+/**
+ * Denormalised totals persisted on the quotes row (snake_case to match the DB).
+ * subtotal is the net figure after discount, total is the amount payable.
+ */
+export interface StoredQuoteTotals {
+  subtotal: number;
+  discount_amount: number;
+  vat: number;
+  cis_amount: number;
+  total: number;
+}
+
+/**
+ * Minimal shape of a raw quotes row needed to read or derive its totals.
+ */
+export interface QuoteTotalsRow {
+  type?: string | null;
+  sections?: unknown;
+  labour_rate?: number | null;
+  markup_percent?: number | null;
+  tax_percent?: number | null;
+  cis_percent?: number | null;
+  discount_type?: string | null;
+  discount_value?: number | null;
+  display_options?: unknown;
+  options?: unknown;
+  selected_option_id?: string | null;
+  reverse_charge?: boolean | null;
+  subtotal?: number | null;
+  discount_amount?: number | null;
+  vat?: number | null;
+  cis_amount?: number | null;
+  total?: number | null;
+}
+
+type TotalsSettings = Pick<AppSettings, 'enableVat' | 'enableCis' | 'defaultLabourRate' | 'defaultDisplayOptions'>;
+
+/**
+ * The user's settings the engine needs to work out a raw row's totals.
+ */
+export type RowTotalsSettings = Pick<AppSettings, 'enableVat' | 'enableCis' | 'defaultLabourRate'> & {
+  defaultDisplayOptions?: Pick<QuoteDisplayOptions, 'showVat' | 'showCis'>;
+};
+
+/**
+ * Headline figures of a document, as persisted or as calculated.
+ */
+export type HeadlineTotals = Pick<QuoteTotals, 'afterDiscount' | 'discountAmount' | 'taxAmount' | 'cisAmount' | 'grandTotal'>;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// `|| 0` keeps a zero total from turning into -0 (which formats as "-0.00")
+const applySign = (value: number, sign: 1 | -1): number => value * sign || 0;
+
+/**
+ * Direction a document moves money in: credit notes reverse the invoice
+ * they are raised against, so their figures count negatively.
+ */
+export function getDocumentSign(type?: string | null): 1 | -1 {
+  return type === 'credit_note' ? -1 : 1;
+}
+
+/**
+ * Build calculation options from app settings and the document's display options.
+ */
+export function getCalculationOptions(
+  settings: Pick<AppSettings, 'enableVat' | 'enableCis' | 'defaultLabourRate'>,
+  displayOptions: Pick<QuoteDisplayOptions, 'showVat' | 'showCis'>
+): CalculationOptions {
+  return {
+    enableVat: settings.enableVat,
+    enableCis: settings.enableCis,
+    showVat: displayOptions.showVat,
+    showCis: displayOptions.showCis,
+    defaultLabourRate: settings.defaultLabourRate,
+  };
+}
+
+/**
+ * Calculate a document's totals exactly as QuoteView renders them.
+ * Figures are always positive; use getDocumentSign() to net credit notes.
+ */
+export function calculateDocumentTotals(quote: Quote, settings: TotalsSettings): QuoteTotals {
+  const displayOptions = quote.displayOptions || settings.defaultDisplayOptions;
+  return calculateQuoteTotals(quote, getCalculationOptions(settings, displayOptions), displayOptions);
+}
+
+/**
+ * A document's headline figures as last saved, so every page agrees with the
+ * reports that read the stored columns. Documents not saved with totals yet
+ * are worked out now. Figures are always positive, like calculateDocumentTotals.
+ */
+export function getDocumentHeadlineTotals(quote: Quote, settings: TotalsSettings): HeadlineTotals {
+  const saved = quote.savedTotals;
+  if (!saved) return calculateDocumentTotals(quote, settings);
+
+  const sign = getDocumentSign(quote.type);
+  return {
+    afterDiscount: applySign(saved.subtotal, sign),
+    discountAmount: applySign(saved.discountAmount, sign),
+    taxAmount: applySign(saved.vat, sign),
+    cisAmount: applySign(saved.cisAmount, sign),
+    grandTotal: applySign(saved.total, sign),
   };
 }
+
+/**
+ * Amount payable by the customer (after discount, VAT and CIS).
+ * Negative for credit notes.
+ */
+export function calculateDocumentTotal(quote: Quote, settings: TotalsSettings): number {
+  return applySign(getDocumentHeadlineTotals(quote, settings).grandTotal, getDocumentSign(quote.type));
+}
+
+/**
+ * Turnover figure for a document: VAT-inclusive total before CIS is withheld.
+ * CIS deducted by a contractor is a tax credit, not a reduction in sales.
+ */
+export function calculateDocumentRevenue(quote: Quote, settings: TotalsSettings): number {
+  const totals = getDocumentHeadlineTotals(quote, settings);
+  return applySign(totals.grandTotal + totals.cisAmount, getDocumentSign(quote.type));
+}
+
+/**
+ * Convert calculated totals into the columns persisted on the quotes row.
+ * Pass the document's sign so credit notes are stored as negative figures.
+ */
+export function toStoredTotals(totals: HeadlineTotals, sign: 1 | -1 = 1): StoredQuoteTotals {
+  return {
+    subtotal: applySign(roundCurrency(totals.afterDiscount), sign),
+    discount_amount: applySign(roundCurrency(totals.discountAmount), sign),
+    vat: applySign(roundCurrency(totals.taxAmount), sign),
+    cis_amount: applySign(roundCurrency(totals.cisAmount), sign),
+    total: applySign(roundCurrency(totals.grandTotal), sign),
+  };
+}
+
+/**
+ * Row totals settings from a raw user_settings row, with the app's defaults.
+ */
+export function toRowTotalsSettings(row: {
+  enable_vat?: boolean | null;
+  enable_cis?: boolean | null;
+  default_labour_rate?: number | null;
+  default_display_options?: unknown;
+} | null): RowTotalsSettings {
+  return {
+    enableVat: row?.enable_vat ?? true,
+    enableCis: row?.enable_cis ?? true,
+    defaultLabourRate: Number(row?.default_labour_rate) || 65,
+    defaultDisplayOptions: (row?.default_display_options as QuoteDisplayOptions | null) || undefined,
+  };
+}
+
+// Run the totals engine over a raw quotes row
+function calculateRowTotals(row: QuoteTotalsRow, settings: RowTotalsSettings): QuoteTotals {
+  const displayOptions = (row.display_options as QuoteDisplayOptions | null)
+    || settings.defaultDisplayOptions
+    || { showVat: true, showCis: true };
+  const quote = {
+    sections: (row.sections as QuoteSection[] | null) || [],
+    labourRate: Number(row.labour_rate) || settings.defaultLabourRate,
+    markupPercent: Number(row.markup_percent) || 0,
+    taxPercent: row.tax_percent != null ? Number(row.tax_percent) : 20,
+    cisPercent: row.cis_percent != null ? Number(row.cis_percent) : 20,
+    discountType: (row.discount_type as Quote['discountType']) || undefined,
+    discountValue: row.discount_value != null ? Number(row.discount_value) : undefined,
+    options: (row.options as Quote['options'] | null) || undefined,
+    selectedOptionId: row.selected_option_id || undefined,
+    reverseCharge: row.reverse_charge || undefined,
+  } as Quote;
+
+  return calculateQuoteTotals(
+    quote,
+    getCalculationOptions(settings, displayOptions),
+    displayOptions as QuoteDisplayOptions
+  );
+}
+
+/**
+ * Read totals from a raw quotes row.
+ * Uses the persisted columns when present, otherwise derives them with the
+ * same engine so rows saved before totals were stored still agree.
+ */
+export function getRowTotals(row: QuoteTotalsRow, settings: RowTotalsSettings): StoredQuoteTotals {
+  if (row.total != null) {
+    return {
+      subtotal: Number(row.subtotal) || 0,
+      discount_amount: Number(row.discount_amount) || 0,
+      vat: Number(row.vat) || 0,
+      cis_amount: Number(row.cis_amount) || 0,
+      total: Number(row.total),
+    };
+  }
+
+  return toStoredTotals(calculateRowTotals(row, settings), getDocumentSign(row.type));
+}
+
+/**
+ * Net and VAT at each rate on a raw quotes row, signed like the stored totals.
+ */
+export function getRowVatBreakdown(row: QuoteTotalsRow, settings: RowTotalsSettings): VatRateBand[] {
+  const sign = getDocumentSign(row.type);
+  return calculateRowTotals(row, settings).vatBreakdown.map(band => ({
+    ...band,
+    net: applySign(roundCurrency(band.net), sign),
+    vat: applySign(roundCurrency(band.vat), sign),
+  }));
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasQuoteOptions,
+  hasQuoteChoices,
+  getActiveOptionId,
+  getSectionsInScope,
+  getSectionScopeLabel,
+  needsCustomerChoice,
+  applyCustomerChoice,
+  applyAcceptedScope,
+} from './quoteOptions';
+import { createMockQuote, createMockQuoteSection } from '../test/factories';
+
+const options = [
+  { id: 'good', name: 'Good' },
+  { id: 'better', name: 'Better' },
+  { id: 'best', name: 'Best' },
+];
+
+const quote = createMockQuote({
+  options,
+  sections: [
+    createMockQuoteSection({ id: 'prep', title: 'Preparation' }),
+    createMockQuoteSection({ id: 'good', optionId: 'good' }),
+    createMockQuoteSection({ id: 'better', optionId: 'better' }),
+    createMockQuoteSection({ id: 'best', optionId: 'best' }),
+    createMockQuoteSection({ id: 'extra-1', isOptional: true }),
+    createMockQuoteSection({ id: 'extra-2', isOptional: true, isIncluded: true }),
+    createMockQuoteSection({ id: 'best-extra', optionId: 'best', isOptional: true, isIncluded: true }),
+  ],
+});
+
+const ids = (sections: { id: string }[]) => sections.map(s => s.id);
+
+describe('hasQuoteOptions / hasQuoteChoices', () => {
+  it('detects options and add-ons', () => {
+    const plain = createMockQuote({ sections: [createMockQuoteSection()] });
+    expect(hasQuoteOptions(quote)).toBe(true);
+    expect(hasQuoteOptions(plain)).toBe(false);
+    expect(hasQuoteChoices(plain)).toBe(false);
+    expect(hasQuoteChoices({ ...plain, sections: [createMockQuoteSection({ isOptional: true })] })).toBe(true);
+  });
+});
+
+describe('getActiveOptionId', () => {
+  it('uses the chosen option, falling back to the first', () => {
+    expect(getActiveOptionId(quote)).toBe('good');
+    expect(getActiveOptionId({ ...quote, selectedOptionId: 'best' })).toBe('best');
+    expect(getActiveOptionId({ ...quote, selectedOptionId: 'removed' })).toBe('good');
+    expect(getActiveOptionId(createMockQuote())).toBeUndefined();
+  });
+});
+
+describe('getSectionsInScope', () => {
+  it('includes shared sections, the option and ticked add-ons', () => {
+    expect(ids(getSectionsInScope(quote, 'good'))).toEqual(['prep', 'good', 'extra-2']);
+    expect(ids(getSectionsInScope(quote, 'best'))).toEqual(['prep', 'best', 'extra-2', 'best-extra']);
+  });
+
+  it('defaults to the active option', () => {
+    expect(ids(getSectionsInScope({ ...quote, selectedOptionId: 'better' }))).toEqual(['prep', 'better', 'extra-2']);
+  });
+
+  it('treats sections of a removed option as shared', () => {
+    const trimmed = { ...quote, options: options.slice(0, 1) };
+    expect(ids(getSectionsInScope(trimmed))).toEqual(['prep', 'good', 'better', 'best', 'extra-2', 'best-extra']);
+  });
+});
+
+describe('getSectionScopeLabel', () => {
+  it('names the option and marks optional extras', () => {
+    const label = (id: string) => getSectionScopeLabel(quote.sections.find(s => s.id === id)!, quote);
+    expect(label('prep')).toBeUndefined();
+    expect(label('better')).toBe('Better');
+    expect(label('extra-1')).toBe('Optional extra');
+    expect(label('best-extra')).toBe('Best · Optional extra');
+  });
+});
+
+describe('needsCustomerChoice', () => {
+  it('requires a valid choice only when options are offered', () => {
+    expect(needsCustomerChoice(quote)).toBe(true);
+    expect(needsCustomerChoice({ ...quote, selectedOptionId: 'removed' })).toBe(true);
+    expect(needsCustomerChoice({ ...quote, selectedOptionId: 'better' })).toBe(false);
+    expect(needsCustomerChoice(createMockQuote())).toBe(false);
+  });
+});
+
+describe('applyCustomerChoice', () => {
+  it('records the option and ticks exactly the chosen add-ons', () => {
+    const chosen = applyCustomerChoice(quote, 'best', ['extra-1']);
+    expect(chosen.selectedOptionId).toBe('best');
+    expect(chosen.sections.filter(s => s.isOptional).map(s => [s.id, s.isIncluded])).toEqual([
+      ['extra-1', true],
+      ['extra-2', false],
+      ['best-extra', false],
+    ]);
+    expect(chosen.sections.find(s => s.id === 'prep')).toBe(quote.sections[0]);
+  });
+});
+
+describe('applyAcceptedScope', () => {
+  it('keeps only the accepted work and drops the alternatives', () => {
+    const accepted = applyAcceptedScope(applyCustomerChoice(quote, 'best', ['extra-1', 'best-extra']));
+    expect(ids(accepted.sections)).toEqual(['prep', 'best', 'extra-1', 'best-extra']);
+    expect(accepted.options).toBeUndefined();
+    expect(accepted.selectedOptionId).toBeUndefined();
+    accepted.sections.forEach(section => {
+      expect(section.optionId).toBeUndefined();
+      expect(section.isOptional).toBeUndefined();
+      expect(section.isIncluded).toBeUndefined();
+    });
+  });
+
+  it('leaves a single-scope quote unchanged', () => {
+    const plain = createMockQuote({ sections: [createMockQuoteSection({ id: 'a' })] });
+    expect(applyAcceptedScope(plain).sections).toEqual(plain.sections);
+  });
+});
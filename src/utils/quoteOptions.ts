@@ -0,0 +1,99 @@
+import type { Quote, QuoteSection } from '../../types';
+
+/**
+ * Whether a quote offers alternative options (good / better / best).
+ */
+export function hasQuoteOptions(quote: Pick<Quote, 'options'>): boolean {
+  return (quote.options?.length || 0) > 0;
+}
+
+/**
+ * Whether a quote leaves anything for the customer to choose:
+ * alternative options or optional add-ons.
+ */
+export function hasQuoteChoices(quote: Pick<Quote, 'options' | 'sections'>): boolean {
+  return hasQuoteOptions(quote) || (quote.sections || []).some(s => s.isOptional);
+}
+
+/**
+ * The option whose scope the quote's headline total reflects: the customer's
+ * choice once recorded, otherwise the first option offered.
+ */
+export function getActiveOptionId(quote: Pick<Quote, 'options' | 'selectedOptionId'>): string | undefined {
+  const options = quote.options || [];
+  if (quote.selectedOptionId && options.some(o => o.id === quote.selectedOptionId)) {
+    return quote.selectedOptionId;
+  }
+  return options[0]?.id;
+}
+
+/**
+ * Sections priced for one option: those shared by every option, the option's
+ * own sections, and any add-ons currently ticked in. Sections pointing at an
+ * option that no longer exists are treated as shared.
+ */
+export function getSectionsInScope(
+  quote: Pick<Quote, 'options' | 'selectedOptionId' | 'sections'>,
+  optionId: string | undefined = getActiveOptionId(quote)
+): QuoteSection[] {
+  const optionIds = new Set((quote.options || []).map(o => o.id));
+  return (quote.sections || []).filter(section => {
+    const inOption = !section.optionId || !optionIds.has(section.optionId) || section.optionId === optionId;
+    return inOption && (!section.isOptional || !!section.isIncluded);
+  });
+}
+
+/**
+ * How a section is labelled on the document: the option it belongs to,
+ * "Optional extra" for an add-on, or undefined for work common to every option.
+ */
+export function getSectionScopeLabel(section: QuoteSection, quote: Pick<Quote, 'options'>): string | undefined {
+  const option = section.optionId ? quote.options?.find(o => o.id === section.optionId) : undefined;
+  const labels = [option?.name, section.isOptional ? 'Optional extra' : undefined].filter(Boolean);
+  return labels.length ? labels.join(' · ') : undefined;
+}
+
+/**
+ * True when the quote offers options and the customer's choice has not yet
+ * been recorded, so it can't be converted to an invoice.
+ */
+export function needsCustomerChoice(quote: Pick<Quote, 'options' | 'selectedOptionId'>): boolean {
+  return hasQuoteOptions(quote) && !quote.options!.some(o => o.id === quote.selectedOptionId);
+}
+
+/**
+ * Record the customer's choice: the option they picked and which add-ons
+ * they ticked in.
+ */
+export function applyCustomerChoice(
+  quote: Quote,
+  optionId: string | undefined,
+  includedAddOnIds: string[]
+): Quote {
+  return {
+    ...quote,
+    selectedOptionId: optionId,
+    savedTotals: undefined,
+    sections: quote.sections.map(section =>
+      section.isOptional ? { ...section, isIncluded: includedAddOnIds.includes(section.id) } : section
+    ),
+  };
+}
+
+/**
+ * The quote reduced to the scope the customer accepted - the chosen option
+ * and ticked add-ons, with the alternatives dropped. Used when converting
+ * to an invoice so only the agreed work is billed.
+ */
+export function applyAcceptedScope(quote: Quote): Quote {
+  const sections = getSectionsInScope(quote).map(
+    ({ optionId: _optionId, isOptional: _isOptional, isIncluded: _isIncluded, ...section }) => section
+  );
+  return {
+    ...quote,
+    sections,
+    options: undefined,
+    selectedOptionId: undefined,
+    savedTotals: undefined,
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateShareToken,
+  getQuotePortalUrl,
+  parseQuotePortalToken,
+  canShareQuote,
+  canRespondToQuote,
+  validateQuoteResponse,
+  getLatestQuoteResponse,
+  getUnseenQuoteResponses,
+  MAX_RESPONSE_COMMENT_LENGTH,
+  type QuoteResponseInput,
+} from './quotePortal';
+import { createMockQuote, createMockInvoice, createMockQuoteResponse } from '../test/factories';
+
+const typedResponse: QuoteResponseInput = {
+  decision: 'accepted',
+  signerName: 'Jane Customer',
+  signatureType: 'typed',
+  signatureData: 'Jane Customer',
+};
+
+describe('quotePortal', () => {
+  describe('share links', () => {
+    it('generates distinct 32 character hex tokens', () => {
+      const token = generateShareToken();
+      expect(token).toMatch(/^[0-9a-f]{32}$/);
+      expect(generateShareToken()).not.toBe(token);
+    });
+
+    it('builds a portal link that parses back to its token', () => {
+      const token = generateShareToken();
+      const url = getQuotePortalUrl(token, 'https://app.tradesync.co.uk/');
+      expect(url).toBe(`https://app.tradesync.co.uk/q/${token}`);
+      expect(parseQuotePortalToken(new URL(url).pathname)).toBe(token);
+    });
+
+    it('ignores paths that are not portal links', () => {
+      expect(parseQuotePortalToken('/privacy')).toBeNull();
+      expect(parseQuotePortalToken('/q/')).toBeNull();
+      expect(parseQuotePortalToken('/q/short')).toBeNull();
+      expect(parseQuotePortalToken('/q/0123456789abcdef/extra')).toBeNull();
+    });
+  });
+
+  describe('canRespondToQuote', () => {
+    it('only accepts responses to sent estimates and quotations', () => {
+      expect(canRespondToQuote(createMockQuote({ status: 'sent' }))).toBe(true);
+      expect(canRespondToQuote(createMockQuote({ type: 'quotation', status: 'sent' }))).toBe(true);
+      expect(canRespondToQuote(createMockQuote({ status: 'draft' }))).toBe(false);
+      expect(canRespondToQuote(createMockQuote({ status: 'accepted' }))).toBe(false);
+      expect(canRespondToQuote(createMockInvoice({ status: 'sent' }))).toBe(false);
+    });
+
+    it('does not share invoices', () => {
+      expect(canShareQuote(createMockInvoice())).toBe(false);
+    });
+  });
+
+  describe('validateQuoteResponse', () => {
+    it('accepts a typed signature', () => {
+      expect(validateQuoteResponse(typedResponse)).toBeNull();
+    });
+
+    it('requires a name and a signature', () => {
+      expect(validateQuoteResponse({ ...typedResponse, signerName: '  ' })).toBe('Enter your full name');
+      expect(validateQuoteResponse({ ...typedResponse, signatureData: '' })).toBe('Type your name to sign');
+      expect(validateQuoteResponse({ ...typedResponse, signatureType: 'drawn', signatureData: '' })).toBe('Draw your signature');
+    });
+
+    it('accepts a drawn signature as a PNG data URL', () => {
+      expect(validateQuoteResponse({
+        ...typedResponse,
+        signatureType: 'drawn',
+        signatureData: 'data:image/png;base64,iVBORw0KGgo=',
+      })).toBeNull();
+    });
+
+    it('limits the comment length', () => {
+      expect(validateQuoteResponse({ ...typedResponse, comment: 'x'.repeat(MAX_RESPONSE_COMMENT_LENGTH) })).toBeNull();
+      expect(validateQuoteResponse({ ...typedResponse, comment: 'x'.repeat(MAX_RESPONSE_COMMENT_LENGTH + 1) })).not.toBeNull();
+    });
+  });
+
+  describe('responses', () => {
+    it('finds the latest response for a quote', () => {
+      const responses = [
+        createMockQuoteResponse({ id: 'old', respondedAt: '2026-01-01T10:00:00Z' }),
+        createMockQuoteResponse({ id: 'new', respondedAt: '2026-01-02T10:00:00Z' }),
+        createMockQuoteResponse({ id: 'other', quoteId: 'quote-2', respondedAt: '2026-01-03T10:00:00Z' }),
+      ];
+      expect(getLatestQuoteResponse(responses, 'quote-1')?.id).toBe('new');
+      expect(getLatestQuoteResponse(responses, 'quote-3')).toBeUndefined();
+    });
+
+    it('lists unseen responses newest first', () => {
+      const responses = [
+        createMockQuoteResponse({ id: 'a', respondedAt: '2026-01-01T10:00:00Z' }),
+        createMockQuoteResponse({ id: 'seen', seenAt: '2026-01-02T09:00:00Z' }),
+        createMockQuoteResponse({ id: 'b', respondedAt: '2026-01-02T10:00:00Z' }),
+      ];
+      expect(getUnseenQuoteResponses(responses).map(r => r.id)).toEqual(['b', 'a']);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import type { Quote, QuoteDecision, QuoteResponse } from '../../types';
+
+// Public route the customer opens, e.g. https://app.example.com/q/<token>
+export const QUOTE_PORTAL_PATH = '/q/';
+
+export const MAX_RESPONSE_COMMENT_LENGTH = 2000;
+
+// Drawn signatures are stored inline, so cap their size (~200KB of base64)
+export const MAX_DRAWN_SIGNATURE_LENGTH = 200_000;
+
+export interface QuoteResponseInput {
+  decision: QuoteDecision;
+  signerName: string;
+  signatureType: QuoteResponse['signatureType'];
+  signatureData: string;
+  comment?: string;
+}
+
+/**
+ * Unguessable token for a quote's portal link (32 hex characters).
+ */
+export function generateShareToken(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function getQuotePortalUrl(shareToken: string, origin: string): string {
+  return `${origin.replace(/\/$/, '')}${QUOTE_PORTAL_PATH}${shareToken}`;
+}
+
+/**
+ * Share token from a portal path, or null when the path is not a portal link.
+ */
+export function parseQuotePortalToken(pathname: string): string | null {
+  const match = pathname.match(/^\/q\/([A-Za-z0-9_-]{16,})\/?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Only estimates and quotations can be shared for acceptance.
+ */
+export function canShareQuote(quote: Pick<Quote, 'type'>): boolean {
+  return quote.type === 'estimate' || quote.type === 'quotation';
+}
+
+/**
+ * The customer can respond while the quote is out with them. Once accepted,
+ * declined or invoiced the decision stands.
+ */
+export function canRespondToQuote(quote: Pick<Quote, 'type' | 'status'>): boolean {
+  return canShareQuote(quote) && quote.status === 'sent';
+}
+
+/**
+ * First problem with a portal response, or null when it can be submitted.
+ */
+export function validateQuoteResponse(input: QuoteResponseInput): string | null {
+  if (input.decision !== 'accepted' && input.decision !== 'declined') {
+    return 'Choose whether to accept or decline';
+  }
+  if (!input.signerName.trim()) {
+    return 'Enter your full name';
+  }
+  if (input.signatureType === 'typed') {
+    if (!input.signatureData.trim()) return 'Type your name to sign';
+  } else if (input.signatureType === 'drawn') {
+    if (!input.signatureData.startsWith('data:image/png;base64,')) return 'Draw your signature';
+    if (input.signatureData.length > MAX_DRAWN_SIGNATURE_LENGTH) return 'Signature is too large - clear it and sign again';
+  } else {
+    return 'Choose how to sign';
+  }
+  if ((input.comment || '').length > MAX_RESPONSE_COMMENT_LENGTH) {
+    return `Comments are limited to ${MAX_RESPONSE_COMMENT_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Most recent response for a quote, if the customer has responded.
+ */
+export function getLatestQuoteResponse(responses: QuoteResponse[], quoteId: string): QuoteResponse | undefined {
+  return responses
+    .filter(r => r.quoteId === quoteId)
+    .sort((a, b) => b.respondedAt.localeCompare(a.respondedAt))[0];
+}
+
+/**
+ * Responses the tradesperson has not been notified about yet, newest first.
+ */
+export function getUnseenQuoteResponses(responses: QuoteResponse[]): QuoteResponse[] {
+  return responses
+    .filter(r => !r.seenAt)
+    .sort((a, b) => b.respondedAt.localeCompare(a.respondedAt));
+}
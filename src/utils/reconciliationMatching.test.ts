@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCombinedInvoiceMatches,
+  findInvoiceReferences,
+  getDescriptionKey,
+  nameSimilarity,
+  rankCandidates,
+  scoreExpenseMatch,
+  scoreInvoiceMatch,
+  suggestMatches,
+  type MatchExpense,
+  type MatchInvoice,
+  type MatchTransaction,
+} from './reconciliationMatching';
+
+const tx = (overrides: Partial<MatchTransaction> = {}): MatchTransaction => ({
+  id: 'tx-1',
+  date: '2026-04-03',
+  description: 'CARD PAYMENT TO SCREWFIX DIRECT',
+  amount: -84.5,
+  ...overrides,
+});
+
+const expense = (overrides: Partial<MatchExpense> = {}): MatchExpense => ({
+  id: 'exp-1',
+  vendor: 'Screwfix',
+  amount: 84.5,
+  vatAmount: 0,
+  date: '2026-04-02',
+  ...overrides,
+});
+
+const invoice = (overrides: Partial<MatchInvoice> = {}): MatchInvoice => ({
+  id: 'inv-1',
+  referenceNumber: 12,
+  customerId: 'cust-1',
+  customerName: 'Big Build Ltd',
+  total: 2500,
+  balanceDue: 2500,
+  date: '2026-03-20',
+  ...overrides,
+});
+
+describe('text helpers', () => {
+  it('ignores bank noise words when comparing names', () => {
+    expect(nameSimilarity('CARD PAYMENT TO SCREWFIX DIRECT', 'Screwfix Ltd')).toBe(1);
+    expect(nameSimilarity('FPS BIG BUILD', 'Big Build Limited')).toBe(1);
+    expect(nameSimilarity('JEWSON LEEDS', 'Travis Perkins')).toBe(0);
+    expect(getDescriptionKey('CARD PAYMENT TO SHELL A1 NORTH 1234')).toBe('SHELL A1');
+  });
+
+  it('finds prefixed and bare invoice numbers', () => {
+    expect(findInvoiceReferences('BIG BUILD INV-0012 INV 14')).toEqual({ prefixed: [12, 14], bare: [] });
+    expect(findInvoiceReferences('SMITH J 0015 ACC 55123')).toEqual({ prefixed: [], bare: [15, 55123] });
+  });
+});
+
+describe('scoreExpenseMatch', () => {
+  it('scores an exact amount from the named vendor as high confidence', () => {
+    const match = scoreExpenseMatch(tx(), expense());
+    expect(match).toMatchObject({ kind: 'expense', expenseIds: ['exp-1'], confidence: 'high' });
+    expect(match!.reasons).toContain('Exact amount £84.50');
+  });
+
+  it('matches the net amount plus VAT', () => {
+    const match = scoreExpenseMatch(tx({ amount: -101.4 }), expense({ vatAmount: 16.9 }));
+    expect(match!.reasons).toContain('Amount including VAT');
+  });
+
+  it('rejects different amounts, money in and dates out of range', () => {
+    expect(scoreExpenseMatch(tx({ amount: -90 }), expense())).toBeNull();
+    expect(scoreExpenseMatch(tx({ amount: 84.5 }), expense())).toBeNull();
+    expect(scoreExpenseMatch(tx({ date: '2026-05-01' }), expense())).toBeNull();
+  });
+
+  it('adds the score of a matching rule', () => {
+    const description = 'CARD PAYMENT TO SFX 4471 LEEDS';
+    const without = scoreExpenseMatch(tx({ description }), expense())!;
+    const withRule = scoreExpenseMatch(tx({ description }), expense(), [
+      { id: 'r1', pattern: 'SFX', matchType: 'expense', vendorName: 'screwfix' },
+    ])!;
+    expect(withRule.score - without.score).toBe(30);
+    expect(withRule.reasons).toContain('Rule: SFX is Screwfix');
+  });
+});
+
+describe('scoreInvoiceMatch', () => {
+  const received = tx({ description: 'BIG BUILD LTD INV-0012', amount: 2500, date: '2026-04-08' });
+
+  it('matches the balance due and records a new payment for it', () => {
+    const match = scoreInvoiceMatch(received, invoice());
+    expect(match).toMatchObject({ invoiceIds: ['inv-1'], paymentIds: [], newPayments: [{ invoiceId: 'inv-1', amount: 2500 }], confidence: 'high' });
+  });
+
+  it('prefers a payment already recorded on the invoice', () => {
+    const match = scoreInvoiceMatch(received, invoice({ balanceDue: 0 }), [
+      { id: 'pay-1', invoiceId: 'inv-1', amount: 2500, date: '2026-04-07' },
+    ]);
+    expect(match).toMatchObject({ paymentIds: ['pay-1'], newPayments: [] });
+  });
+
+  it('takes a part payment only when something else points to the invoice', () => {
+    const part = tx({ description: 'BIG BUILD INV-0012', amount: 1000, date: '2026-04-08' });
+    expect(scoreInvoiceMatch(part, invoice())).toMatchObject({ newPayments: [{ invoiceId: 'inv-1', amount: 1000 }] });
+    expect(scoreInvoiceMatch(tx({ description: 'FPS 88213', amount: 1000 }), invoice())).toBeNull();
+  });
+});
+
+describe('findCombinedInvoiceMatches', () => {
+  it('pays several invoices from one customer with one transfer', () => {
+    const matches = findCombinedInvoiceMatches(
+      tx({ description: 'BIG BUILD LTD', amount: 1500, date: '2026-04-10' }),
+      [
+        invoice({ id: 'a', referenceNumber: 12, balanceDue: 1000 }),
+        invoice({ id: 'b', referenceNumber: 13, balanceDue: 700 }),
+        invoice({ id: 'c', referenceNumber: 14, balanceDue: 500, date: '2026-04-01' }),
+        invoice({ id: 'd', referenceNumber: 15, balanceDue: 500, customerId: 'cust-2', customerName: 'Green Homes' }),
+      ]
+    );
+
+    expect(matches).toHaveLength(1);
+    expect(matches[0].invoiceIds).toEqual(['a', 'c']);
+    expect(matches[0].reasons[0]).toBe('Pays INV-0012 + INV-0014');
+  });
+
+  it('needs a name, reference or rule as well as the total', () => {
+    const matches = findCombinedInvoiceMatches(
+      tx({ description: 'FPS 88213', amount: 1500 }),
+      [invoice({ id: 'a', balanceDue: 1000 }), invoice({ id: 'b', balanceDue: 500 })]
+    );
+    expect(matches).toEqual([]);
+  });
+});
+
+describe('suggestMatches', () => {
+  it('gives each expense to the bank line it fits best', () => {
+    const data = {
+      expenses: [expense({ id: 'exp-1', date: '2026-04-03' }), expense({ id: 'exp-2', date: '2026-04-10' })],
+      invoices: [],
+      payments: [],
+      rules: [],
+    };
+    const suggestions = suggestMatches(
+      [tx({ id: 'tx-early', date: '2026-04-03' }), tx({ id: 'tx-late', date: '2026-04-10' })],
+      data
+    );
+
+    expect(suggestions.map(s => [s.transactionId, s.expenseIds[0]])).toEqual([
+      ['tx-early', 'exp-1'],
+      ['tx-late', 'exp-2'],
+    ]);
+  });
+
+  it('drops weak candidates', () => {
+    const candidates = rankCandidates(
+      tx({ description: 'JEWSON', amount: -100.8, date: '2026-04-16' }),
+      { expenses: [expense({ amount: 84, vendor: 'Travis Perkins' })], invoices: [], payments: [], rules: [] }
+    );
+    expect(candidates).toEqual([]);
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Reconciliation matching.
+ *
+ * Scores every expense and invoice that could explain a bank line and
+ * suggests the best one. A score out of 100 is built from:
+ * - amount (exact, VAT-inclusive, a recorded payment, the balance due, a
+ *   part payment, or several invoices from one customer paid together)
+ * - how close the dates are
+ * - invoice numbers written in the bank description
+ * - how much of the vendor or customer name appears in the description
+ * - the user's "always match X to Y" rules, added by hand or learned from
+ *   accepted matches
+ * A candidate always needs some amount match; part and combined payments
+ * also need a reference, name or rule to back them up.
+ */
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+export type MatchRuleType = 'expense' | 'invoice';
+
+export interface MatchTransaction {
+  id: string;
+  date: string;
+  description: string;
+  // Bank sign: money out negative
+  amount: number;
+}
+
+export interface MatchExpense {
+  id: string;
+  vendor: string;
+  amount: number;
+  vatAmount: number;
+  date: string;
+}
+
+export interface MatchInvoice {
+  id: string;
+  referenceNumber: number | null;
+  customerId: string | null;
+  customerName: string;
+  total: number;
+  balanceDue: number;
+  date: string;
+}
+
+/**
+ * A payment recorded against an invoice that isn't linked to a bank line yet.
+ */
+export interface MatchPayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  date: string;
+}
+
+export interface MatchRule {
+  id: string;
+  pattern: string;
+  matchType: MatchRuleType;
+  vendorName?: string | null;
+  customerId?: string | null;
+}
+
+export interface MatchData {
+  expenses: MatchExpense[];
+  invoices: MatchInvoice[];
+  payments: MatchPayment[];
+  rules: MatchRule[];
+}
+
+export interface MatchCandidate {
+  kind: MatchRuleType;
+  expenseIds: string[];
+  invoiceIds: string[];
+  // Recorded payments to link to the bank line
+  paymentIds: string[];
+  // Payments to record first, for invoices paid without one on file
+  newPayments: { invoiceId: string; amount: number }[];
+  score: number;
+  confidence: MatchConfidence;
+  reasons: string[];
+}
+
+export interface MatchSuggestion extends MatchCandidate {
+  transactionId: string;
+}
+
+// Suggestions below this score aren't shown
+export const MIN_MATCH_SCORE = 40;
+
+const HIGH_CONFIDENCE_SCORE = 70;
+const MEDIUM_CONFIDENCE_SCORE = 50;
+
+// Days either side of the bank date an expense can be
+const EXPENSE_DATE_WINDOW = 14;
+// Days after its payment date a recorded payment can clear
+const PAYMENT_DATE_WINDOW = 30;
+// Largest set of invoices tried for a combined payment
+const MAX_COMBINED_INVOICES = 10;
+
+const RULE_SCORE = 30;
+
+// Words banks add to descriptions that say nothing about who was paid
+const NOISE_WORDS = new Set([
+  'AND', 'AT', 'BACS', 'BGC', 'BP', 'CARD', 'CO', 'CONTACTLESS', 'CR', 'CREDIT', 'DD', 'DEB', 'DEBIT',
+  'DIRECT', 'FASTER', 'FP', 'FPI', 'FPO', 'FPS', 'FROM', 'GB', 'INV', 'INVOICE', 'LIMITED', 'LTD',
+  'ON', 'PAYMENT', 'PAYMENTS', 'PLC', 'POS', 'PURCHASE', 'REF', 'REFERENCE', 'SO', 'STO', 'THE',
+  'TO', 'TRANSFER', 'UK', 'VIS', 'VISA',
+]);
+
+function roundCurrency(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const sameAmount = (a: number, b: number): boolean => Math.abs(a - b) < 0.01;
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+const formatAmount = (amount: number): string =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatInvoiceNumber = (referenceNumber: number | null): string =>
+  referenceNumber ? `INV-${String(referenceNumber).padStart(4, '0')}` : 'invoice';
+
+const describeDays = (days: number): string =>
+  days === 0 ? 'same day' : `${Math.abs(days)} day${Math.abs(days) === 1 ? '' : 's'} apart`;
+
+const getConfidence = (score: number): MatchConfidence =>
+  score >= HIGH_CONFIDENCE_SCORE ? 'high' : score >= MEDIUM_CONFIDENCE_SCORE ? 'medium' : 'low';
+
+/**
+ * The words in a description or name that identify who was paid.
+ */
+export function getSignificantWords(text: string): string[] {
+  return text
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(word => word.length >= 2 && !NOISE_WORDS.has(word) && !/^\d+$/.test(word));
+}
+
+/**
+ * Turn a user's "description contains" text into a rule pattern.
+ */
+export function normaliseRulePattern(text: string): string {
+  return getSignificantWords(text).join(' ');
+}
+
+/**
+ * Pattern to learn from an accepted match: the first two significant words,
+ * which is usually the merchant or payer.
+ */
+export function getDescriptionKey(description: string): string {
+  return getSignificantWords(description).slice(0, 2).join(' ');
+}
+
+export function ruleMatchesDescription(rule: MatchRule, description: string): boolean {
+  if (!rule.pattern) return false;
+  return ` ${getSignificantWords(description).join(' ')} `.includes(` ${rule.pattern} `);
+}
+
+/**
+ * Share of a vendor or customer name's words found in the description,
+ * 0 to 1. Longer words also count when one is the start of the other, so
+ * SCREWFIX matches SCREWFIXDIRECT.
+ */
+export function nameSimilarity(description: string, name: string): number {
+  const nameWords = getSignificantWords(name);
+  if (nameWords.length === 0) return 0;
+  const descriptionWords = getSignificantWords(description);
+
+  const found = nameWords.filter(word =>
+    descriptionWords.some(d =>
+      d === word || (word.length >= 4 && d.length >= 4 && (d.startsWith(word) || word.startsWith(d)))
+    )
+  );
+  return found.length / nameWords.length;
+}
+
+/**
+ * Invoice numbers written in a description. Prefixed ones (INV-0012,
+ * Invoice 12) are firm; bare numbers of three or more digits might be one.
+ */
+export function findInvoiceReferences(description: string): { prefixed: number[]; bare: number[] } {
+  const prefixed = Array.from(description.matchAll(/\bINV(?:OICE)?[\s\-#:.]*0*(\d{1,8})\b/gi), m => parseInt(m[1], 10));
+  const bare = Array.from(description.matchAll(/(?:^|[^A-Z0-9\-])0*(\d{3,8})\b/gi), m => parseInt(m[1], 10))
+    .filter(n => !prefixed.includes(n));
+  return { prefixed, bare };
+}
+
+const referenceScore = (description: string, invoice: MatchInvoice): { score: number; reason?: string } => {
+  if (!invoice.referenceNumber) return { score: 0 };
+  const { prefixed, bare } = findInvoiceReferences(description);
+  if (prefixed.includes(invoice.referenceNumber)) {
+    return { score: 25, reason: `${formatInvoiceNumber(invoice.referenceNumber)} in the reference` };
+  }
+  if (bare.includes(invoice.referenceNumber)) {
+    return { score: 10, reason: `${invoice.referenceNumber} in the reference` };
+  }
+  return { score: 0 };
+};
+
+const nameScore = (description: string, name: string): { score: number; reason?: string } => {
+  const similarity = nameSimilarity(description, name);
+  return similarity > 0
+    ? { score: Math.round(similarity * 20), reason: `Name matches ${name}` }
+    : { score: 0 };
+};
+
+const findRule = (rules: MatchRule[], description: string, matches: (rule: MatchRule) => boolean) =>
+  rules.find(rule => matches(rule) && ruleMatchesDescription(rule, description));
+
+const buildCandidate = (
+  kind: MatchRuleType,
+  parts: { score: number; reason?: string }[],
+  ids: Pick<MatchCandidate, 'expenseIds' | 'invoiceIds' | 'paymentIds' | 'newPayments'>
+): MatchCandidate => {
+  const score = Math.min(100, Math.round(parts.reduce((sum, part) => sum + part.score, 0)));
+  return {
+    kind,
+    ...ids,
+    score,
+    confidence: getConfidence(score),
+    reasons: parts.filter(part => part.reason).map(part => part.reason!),
+  };
+};
+
+/**
+ * Score an expense against money going out.
+ */
+export function scoreExpenseMatch(
+  transaction: MatchTransaction,
+  expense: MatchExpense,
+  rules: MatchRule[] = []
+): MatchCandidate | null {
+  if (transaction.amount >= 0) return null;
+  const paid = Math.abs(transaction.amount);
+
+  let amount: { score: number; reason: string } | null = null;
+  if (sameAmount(paid, expense.amount)) {
+    amount = { score: 50, reason: `Exact amount ${formatAmount(paid)}` };
+  } else if (expense.vatAmount > 0 && sameAmount(paid, expense.amount + expense.vatAmount)) {
+    amount = { score: 45, reason: 'Amount including VAT' };
+  } else if (sameAmount(paid, roundCurrency(expense.amount * 1.2))) {
+    amount = { score: 35, reason: 'Amount plus 20% VAT' };
+  }
+  if (!amount) return null;
+
+  const days = daysBetween(expense.date, transaction.date);
+  if (Math.abs(days) > EXPENSE_DATE_WINDOW) return null;
+  const date = { score: 20 * (1 - Math.abs(days) / EXPENSE_DATE_WINDOW), reason: describeDays(days) };
+
+  const rule = findRule(rules, transaction.description, r =>
+    r.matchType === 'expense' && !!r.vendorName && r.vendorName.toLowerCase() === expense.vendor.toLowerCase()
+  );
+
+  return buildCandidate('expense', [
+    amount,
+    date,
+    nameScore(transaction.description, expense.vendor),
+    rule ? { score: RULE_SCORE, reason: `Rule: ${rule.pattern} is ${expense.vendor}` } : { score: 0 },
+  ], { expenseIds: [expense.id], invoiceIds: [], paymentIds: [], newPayments: [] });
+}
+
+/**
+ * Score one invoice against money coming in: a payment already recorded on
+ * it, the balance due, or a part payment.
+ */
+export function scoreInvoiceMatch(
+  transaction: MatchTransaction,
+  invoice: MatchInvoice,
+  payments: MatchPayment[] = [],
+  rules: MatchRule[] = []
+): MatchCandidate | null {
+  if (transaction.amount <= 0) return null;
+  const received = transaction.amount;
+
+  const reference = referenceScore(transaction.description, invoice);
+  const name = nameScore(transaction.description, invoice.customerName);
+  const rule = findRule(rules, transaction.description, r =>
+    r.matchType === 'invoice' && !!r.customerId && r.customerId === invoice.customerId
+  );
+  const ruleScore = rule ? { score: RULE_SCORE, reason: `Rule: ${rule.pattern} is ${invoice.customerName}` } : { score: 0 };
+  const evidence = reference.score + name.score + ruleScore.score;
+
+  // A payment recorded in the app, closest date first
+  const payment = payments
+    .filter(p => p.invoiceId === invoice.id && sameAmount(p.amount, received))
+    .map(p => ({ p, days: daysBetween(p.date, transaction.date) }))
+    .filter(({ days }) => Math.abs(days) <= PAYMENT_DATE_WINDOW)
+    .sort((a, b) => Math.abs(a.days) - Math.abs(b.days))[0];
+
+  if (payment) {
+    return buildCandidate('invoice', [
+      { score: 50, reason: `Payment of ${formatAmount(received)} on ${formatInvoiceNumber(invoice.referenceNumber)}` },
+      { score: 20 * (1 - Math.abs(payment.days) / PAYMENT_DATE_WINDOW), reason: describeDays(payment.days) },
+      reference,
+      name,
+      ruleScore,
+    ], { expenseIds: [], invoiceIds: [invoice.id], paymentIds: [payment.p.id], newPayments: [] });
+  }
+
+  if (invoice.balanceDue <= 0) return null;
+
+  let amount: { score: number; reason: string };
+  if (sameAmount(received, invoice.balanceDue)) {
+    amount = { score: 45, reason: `Clears ${formatInvoiceNumber(invoice.referenceNumber)} (${formatAmount(invoice.balanceDue)} due)` };
+  } else if (received < invoice.balanceDue && evidence > 0) {
+    amount = { score: 20, reason: `Part payment of ${formatAmount(received)} (${formatAmount(invoice.balanceDue)} due)` };
+  } else {
+    return null;
+  }
+
+  // Paid after the invoice date, sooner scoring higher
+  const days = daysBetween(invoice.date, transaction.date);
+  const date = days >= 0 ? { score: Math.max(0, 20 - days / 5) } : { score: 0 };
+
+  return buildCandidate('invoice', [amount, date, reference, name, ruleScore], {
+    expenseIds: [],
+    invoiceIds: [invoice.id],
+    paymentIds: [],
+    newPayments: [{ invoiceId: invoice.id, amount: received }],
+  });
+}
+
+/**
+ * One payment covering several invoices from the same customer. Tries the
+ * customer's oldest outstanding invoices for a set whose balances add up to
+ * the amount received, fewest invoices first.
+ */
+export function findCombinedInvoiceMatches(
+  transaction: MatchTransaction,
+  invoices: MatchInvoice[],
+  rules: MatchRule[] = []
+): MatchCandidate[] {
+  if (transaction.amount <= 0) return [];
+
+  const byCustomer = new Map<string, MatchInvoice[]>();
+  invoices
+    .filter(inv => inv.balanceDue > 0 && inv.customerId)
+    .forEach(inv => byCustomer.set(inv.customerId!, [...(byCustomer.get(inv.customerId!) || []), inv]));
+
+  const candidates: MatchCandidate[] = [];
+
+  byCustomer.forEach(customerInvoices => {
+    const open = [...customerInvoices].sort((a, b) => a.date.localeCompare(b.date)).slice(0, MAX_COMBINED_INVOICES);
+    if (open.length < 2) return;
+
+    let best: MatchInvoice[] | null = null;
+    for (let mask = 1; mask < 1 << open.length; mask++) {
+      const set = open.filter((_, i) => mask & (1 << i));
+      if (set.length < 2 || (best && set.length >= best.length)) continue;
+      const sum = roundCurrency(set.reduce((total, inv) => total + inv.balanceDue, 0));
+      if (sameAmount(sum, transaction.amount)) best = set;
+    }
+    if (!best) return;
+
+    const customer = best[0];
+    const references = best.map(inv => referenceScore(transaction.description, inv));
+    const name = nameScore(transaction.description, customer.customerName);
+    const rule = findRule(rules, transaction.description, r =>
+      r.matchType === 'invoice' && r.customerId === customer.customerId
+    );
+    const referenceTotal = references.reduce((sum, r) => sum + r.score, 0) / best.length;
+    if (referenceTotal + name.score === 0 && !rule) return;
+
+    const latest = best.reduce((a, b) => (a.date > b.date ? a : b));
+    const days = daysBetween(latest.date, transaction.date);
+
+    candidates.push(buildCandidate('invoice', [
+      { score: 40, reason: `Pays ${best.map(inv => formatInvoiceNumber(inv.referenceNumber)).join(' + ')}` },
+      { score: days >= 0 ? Math.max(0, 20 - days / 5) : 0 },
+      { score: referenceTotal, reason: referenceTotal > 0 ? 'Invoice numbers in the reference' : undefined },
+      name,
+      rule ? { score: RULE_SCORE, reason: `Rule: ${rule.pattern} is ${customer.customerName}` } : { score: 0 },
+    ], {
+      expenseIds: [],
+      invoiceIds: best.map(inv => inv.id),
+      paymentIds: [],
+      newPayments: best.map(inv => ({ invoiceId: inv.id, amount: inv.balanceDue })),
+    }));
+  });
+
+  return candidates;
+}
+
+/**
+ * Every candidate for one bank line worth showing, best first.
+ */
+export function rankCandidates(transaction: MatchTransaction, data: MatchData): MatchCandidate[] {
+  const candidates = transaction.amount < 0
+    ? data.expenses.map(expense => scoreExpenseMatch(transaction, expense, data.rules))
+    : [
+        ...data.invoices.map(invoice => scoreInvoiceMatch(transaction, invoice, data.payments, data.rules)),
+        ...findCombinedInvoiceMatches(transaction, data.invoices, data.rules),
+      ];
+
+  return candidates
+    .filter((c): c is MatchCandidate => !!c && c.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Best match for each bank line. Strongest matches are taken first and an
+ * expense, invoice or payment is only suggested once.
+ */
+export function suggestMatches(transactions: MatchTransaction[], data: MatchData): MatchSuggestion[] {
+  const all = transactions
+    .flatMap(tx => rankCandidates(tx, data).map(candidate => ({ ...candidate, transactionId: tx.id })))
+    .sort((a, b) => b.score - a.score);
+
+  const usedTransactions = new Set<string>();
+  const usedItems = new Set<string>();
+  const suggestions: MatchSuggestion[] = [];
+
+  all.forEach(suggestion => {
+    const items = [...suggestion.expenseIds, ...suggestion.invoiceIds, ...suggestion.paymentIds];
+    if (usedTransactions.has(suggestion.transactionId) || items.some(id => usedItems.has(id))) return;
+    usedTransactions.add(suggestion.transactionId);
+    items.forEach(id => usedItems.add(id));
+    suggestions.push(suggestion);
+  });
+
+  return suggestions;
+}
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getOccurrenceDate,
+  isWithinSchedule,
+  getNextRunDate,
+  getDueOccurrences,
+  getUpcomingGenerations,
+  advanceSchedule,
+  getResumeIndex,
+  describeSchedule,
+  formatRecurringReference,
+  createRecurringTemplate,
+  buildRecurringInvoice,
+  buildRecurringVisit,
+  MAX_CATCH_UP_OCCURRENCES,
+} from './recurringInvoices';
+import { createMockRecurringInvoice, createMockInvoice } from '../test/factories';
+
+describe('recurringInvoices', () => {
+  describe('getOccurrenceDate', () => {
+    it('steps weekly schedules by whole weeks', () => {
+      const schedule = { frequency: 'weekly' as const, interval: 2, startDate: '2026-01-05' };
+      expect(getOccurrenceDate(schedule, 0)).toBe('2026-01-05');
+      expect(getOccurrenceDate(schedule, 1)).toBe('2026-01-19');
+      expect(getOccurrenceDate(schedule, 3)).toBe('2026-02-16');
+    });
+
+    it('keeps the start day of month and clamps short months without drifting', () => {
+      const schedule = { frequency: 'monthly' as const, interval: 1, startDate: '2026-01-31' };
+      expect(getOccurrenceDate(schedule, 1)).toBe('2026-02-28');
+      expect(getOccurrenceDate(schedule, 2)).toBe('2026-03-31');
+      expect(getOccurrenceDate(schedule, 3)).toBe('2026-04-30');
+    });
+
+    it('supports quarterly schedules as every 3 months across a year end', () => {
+      const schedule = { frequency: 'monthly' as const, interval: 3, startDate: '2026-11-15' };
+      expect(getOccurrenceDate(schedule, 1)).toBe('2027-02-15');
+      expect(getOccurrenceDate(schedule, 2)).toBe('2027-05-15');
+    });
+
+    it('moves a 29 February annual date to 28 February in other years', () => {
+      const schedule = { frequency: 'annual' as const, interval: 1, startDate: '2028-02-29' };
+      expect(getOccurrenceDate(schedule, 1)).toBe('2029-02-28');
+      expect(getOccurrenceDate(schedule, 4)).toBe('2032-02-29');
+    });
+  });
+
+  describe('schedule limits', () => {
+    it('stops after the occurrence count', () => {
+      const recurring = createMockRecurringInvoice({ maxOccurrences: 3 });
+      expect(isWithinSchedule(recurring, 2)).toBe(true);
+      expect(isWithinSchedule(recurring, 3)).toBe(false);
+      expect(getNextRunDate(recurring, 3)).toBeUndefined();
+    });
+
+    it('includes an occurrence on the end date but not after it', () => {
+      const recurring = createMockRecurringInvoice({ endDate: '2026-03-01' });
+      expect(getNextRunDate(recurring, 2)).toBe('2026-03-01');
+      expect(getNextRunDate(recurring, 3)).toBeUndefined();
+    });
+  });
+
+  describe('getDueOccurrences', () => {
+    it('returns every ungenerated occurrence up to today', () => {
+      const recurring = createMockRecurringInvoice({ occurrencesGenerated: 1 });
+      expect(getDueOccurrences(recurring, '2026-03-10')).toEqual([
+        { index: 1, date: '2026-02-01' },
+        { index: 2, date: '2026-03-01' },
+      ]);
+    });
+
+    it('returns nothing for paused or finished schedules', () => {
+      expect(getDueOccurrences(createMockRecurringInvoice({ isActive: false }), '2026-06-01')).toEqual([]);
+      expect(getDueOccurrences(createMockRecurringInvoice({ maxOccurrences: 2, occurrencesGenerated: 2 }), '2026-06-01')).toEqual([]);
+    });
+
+    it('caps how many occurrences are caught up in one run', () => {
+      const recurring = createMockRecurringInvoice({ frequency: 'weekly', startDate: '2020-01-01' });
+      const due = getDueOccurrences(recurring, '2026-01-01');
+      expect(due).toHaveLength(MAX_CATCH_UP_OCCURRENCES);
+      expect(due[0]).toEqual({ index: 0, date: '2020-01-01' });
+    });
+  });
+
+  describe('advanceSchedule', () => {
+    it('moves the next run date on and deactivates a finished schedule', () => {
+      const recurring = createMockRecurringInvoice({ maxOccurrences: 2, occurrencesGenerated: 1 });
+      expect(advanceSchedule(recurring, { index: 0, date: '2026-01-01' })).toEqual({
+        occurrencesGenerated: 1,
+        nextRunDate: '2026-02-01',
+        isActive: true,
+      });
+      expect(advanceSchedule(recurring, { index: 1, date: '2026-02-01' })).toEqual({
+        occurrencesGenerated: 2,
+        nextRunDate: undefined,
+        isActive: false,
+      });
+    });
+  });
+
+  describe('getResumeIndex', () => {
+    it('skips occurrences that fell due while paused', () => {
+      const recurring = createMockRecurringInvoice({ isActive: false, occurrencesGenerated: 1 });
+      expect(getResumeIndex(recurring, '2026-04-15')).toBe(4);
+      expect(getResumeIndex(recurring, '2026-04-01')).toBe(3);
+    });
+
+    it('stops at the end of the schedule', () => {
+      const recurring = createMockRecurringInvoice({ isActive: false, occurrencesGenerated: 1, maxOccurrences: 2 });
+      expect(getResumeIndex(recurring, '2027-01-01')).toBe(2);
+    });
+  });
+
+  describe('getUpcomingGenerations', () => {
+    it('lists the next occurrences of active schedules soonest first', () => {
+      const monthly = createMockRecurringInvoice({ id: 'monthly', occurrencesGenerated: 2 });
+      const annual = createMockRecurringInvoice({ id: 'annual', frequency: 'annual', startDate: '2026-03-15' });
+      const paused = createMockRecurringInvoice({ id: 'paused', isActive: false });
+
+      const upcoming = getUpcomingGenerations([monthly, annual, paused], 2);
+      expect(upcoming.map(u => [u.recurringInvoice.id, u.date])).toEqual([
+        ['monthly', '2026-03-01'],
+        ['annual', '2026-03-15'],
+        ['monthly', '2026-04-01'],
+        ['annual', '2027-03-15'],
+      ]);
+    });
+  });
+
+  describe('describeSchedule', () => {
+    it('describes single and multiple intervals', () => {
+      expect(describeSchedule({ frequency: 'annual', interval: 1 })).toBe('Annually');
+      expect(describeSchedule({ frequency: 'monthly', interval: 3 })).toBe('Every 3 months');
+      expect(describeSchedule({ frequency: 'weekly', interval: 2 })).toBe('Every 2 weeks');
+    });
+  });
+
+  describe('building documents', () => {
+    it('formats the recurring reference in its own series', () => {
+      expect(formatRecurringReference(12)).toBe('REC-0012');
+    });
+
+    it('copies billable content from an invoice into a template', () => {
+      const invoice = createMockInvoice({ discountType: 'percentage', discountValue: 10, jobAddress: '1 High St' });
+      const template = createRecurringTemplate(invoice);
+      expect(template.sections).toBe(invoice.sections);
+      expect(template.discountValue).toBe(10);
+      expect(template.jobAddress).toBe('1 High St');
+      expect(template).not.toHaveProperty('id');
+    });
+
+    it('builds an invoice for an occurrence with its own due date and link back', () => {
+      const recurring = createMockRecurringInvoice({ id: 'rec-1', generateStatus: 'sent', paymentTermsDays: 30 });
+      const invoice = buildRecurringInvoice(recurring, '2026-01-15');
+
+      expect(invoice.id).toBe('');
+      expect(invoice.type).toBe('invoice');
+      expect(invoice.status).toBe('sent');
+      expect(invoice.referenceNumber).toBeUndefined();
+      expect(invoice.date).toBe('2026-01-15');
+      expect(invoice.dueDate).toBe('2026-02-14');
+      expect(invoice.recurringInvoiceId).toBe('rec-1');
+      expect(invoice.recurrenceDate).toBe('2026-01-15');
+      expect(invoice.sections).toBe(recurring.template.sections);
+    });
+
+    it('builds a visit at the configured time and duration', () => {
+      const recurring = createMockRecurringInvoice({
+        createVisits: true,
+        visitStartTime: '10:30',
+        visitDurationMinutes: 90,
+        template: { ...createMockRecurringInvoice().template, jobAddress: undefined },
+      });
+      const visit = buildRecurringVisit(recurring, '2026-05-04', '5 Mill Lane');
+
+      expect(new Date(visit.start).getTime()).toBe(new Date('2026-05-04T10:30:00').getTime());
+      expect(new Date(visit.end).getTime() - new Date(visit.start).getTime()).toBe(90 * 60 * 1000);
+      expect(visit.location).toBe('5 Mill Lane');
+      expect(visit.customerId).toBe('cust-1');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import type { Quote, RecurringInvoice, RecurringInvoiceTemplate, ScheduleEntry } from '../../types';
+
+export const RECURRING_PREFIX = 'REC-';
+
+// Most occurrences generated for one recurring invoice in a single run, so a
+// start date far in the past cannot flood the invoice list. The rest are
+// picked up on the next run.
+export const MAX_CATCH_UP_OCCURRENCES = 12;
+
+// Fields set when creating or editing a recurring invoice; the schedule
+// progress fields are maintained by generation
+export type RecurringInvoiceInput = Omit<
+  RecurringInvoice,
+  'id' | 'referenceNumber' | 'occurrencesGenerated' | 'nextRunDate' | 'lastGeneratedAt' | 'createdAt' | 'updatedAt'
+>;
+
+export interface RecurringOccurrence {
+  // Zero-based position in the schedule (0 = start date)
+  index: number;
+  date: string;
+}
+
+export interface UpcomingGeneration extends RecurringOccurrence {
+  recurringInvoice: RecurringInvoice;
+}
+
+type Schedule = Pick<RecurringInvoice, 'frequency' | 'interval' | 'startDate' | 'endDate' | 'maxOccurrences'>;
+
+const parseDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00Z`);
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+/**
+ * Add whole months, keeping the start date's day of month where it exists.
+ * 31 Jan + 1 month is 28/29 Feb; + 2 months is 31 Mar.
+ */
+function addMonths(date: string, months: number): string {
+  const d = parseDate(date);
+  const anchorDay = d.getUTCDate();
+  const target = d.getUTCMonth() + months;
+  const year = d.getUTCFullYear() + Math.floor(target / 12);
+  const month = ((target % 12) + 12) % 12;
+  return formatDate(new Date(Date.UTC(year, month, Math.min(anchorDay, daysInMonth(year, month)))));
+}
+
+/**
+ * Date of the nth occurrence. Always counted from the start date so
+ * month-end schedules don't drift.
+ */
+export function getOccurrenceDate(schedule: Pick<Schedule, 'frequency' | 'interval' | 'startDate'>, index: number): string {
+  const step = Math.max(1, schedule.interval || 1) * index;
+  switch (schedule.frequency) {
+    case 'weekly':
+      return addDays(schedule.startDate, step * 7);
+    case 'monthly':
+      return addMonths(schedule.startDate, step);
+    case 'annual':
+      return addMonths(schedule.startDate, step * 12);
+  }
+}
+
+/**
+ * Whether the nth occurrence falls within the end date and occurrence count.
+ */
+export function isWithinSchedule(schedule: Schedule, index: number): boolean {
+  if (schedule.maxOccurrences != null && index >= schedule.maxOccurrences) return false;
+  if (schedule.endDate && getOccurrenceDate(schedule, index) > schedule.endDate) return false;
+  return true;
+}
+
+/**
+ * Next date an invoice will be generated, or undefined once the schedule has run out.
+ */
+export function getNextRunDate(schedule: Schedule, occurrencesGenerated: number): string | undefined {
+  return isWithinSchedule(schedule, occurrencesGenerated)
+    ? getOccurrenceDate(schedule, occurrencesGenerated)
+    : undefined;
+}
+
+/**
+ * Occurrences on or before `today` that have not been generated yet.
+ */
+export function getDueOccurrences(recurring: RecurringInvoice, today: string): RecurringOccurrence[] {
+  if (!recurring.isActive) return [];
+
+  const due: RecurringOccurrence[] = [];
+  let index = recurring.occurrencesGenerated;
+  while (due.length < MAX_CATCH_UP_OCCURRENCES && isWithinSchedule(recurring, index)) {
+    const date = getOccurrenceDate(recurring, index);
+    if (date > today) break;
+    due.push({ index, date });
+    index++;
+  }
+  return due;
+}
+
+/**
+ * Where a paused schedule picks up when resumed: occurrences that fell due
+ * while it was paused are skipped rather than invoiced late.
+ */
+export function getResumeIndex(recurring: RecurringInvoice, today: string): number {
+  let index = recurring.occurrencesGenerated;
+  while (isWithinSchedule(recurring, index) && getOccurrenceDate(recurring, index) < today) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * The next few generations across all active recurring invoices, soonest first.
+ */
+export function getUpcomingGenerations(
+  recurringInvoices: RecurringInvoice[],
+  perInvoice = 3
+): UpcomingGeneration[] {
+  return recurringInvoices
+    .filter(r => r.isActive)
+    .flatMap(recurringInvoice => {
+      const upcoming: UpcomingGeneration[] = [];
+      for (let index = recurringInvoice.occurrencesGenerated; upcoming.length < perInvoice; index++) {
+        if (!isWithinSchedule(recurringInvoice, index)) break;
+        upcoming.push({ recurringInvoice, index, date: getOccurrenceDate(recurringInvoice, index) });
+      }
+      return upcoming;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Schedule state after an occurrence has been generated.
+ */
+export function advanceSchedule(
+  recurring: RecurringInvoice,
+  occurrence: RecurringOccurrence
+): Pick<RecurringInvoice, 'occurrencesGenerated' | 'nextRunDate' | 'isActive'> {
+  const occurrencesGenerated = Math.max(recurring.occurrencesGenerated, occurrence.index + 1);
+  const nextRunDate = getNextRunDate(recurring, occurrencesGenerated);
+  return { occurrencesGenerated, nextRunDate, isActive: nextRunDate != null };
+}
+
+/**
+ * Human readable schedule, e.g. "Every 3 months".
+ */
+export function describeSchedule(schedule: Pick<RecurringInvoice, 'frequency' | 'interval'>): string {
+  const interval = Math.max(1, schedule.interval || 1);
+  const unit = { weekly: 'week', monthly: 'month', annual: 'year' }[schedule.frequency];
+  if (interval === 1) {
+    return { weekly: 'Weekly', monthly: 'Monthly', annual: 'Annually' }[schedule.frequency];
+  }
+  return `Every ${interval} ${unit}s`;
+}
+
+export function formatRecurringReference(referenceNumber?: number): string {
+  return `${RECURRING_PREFIX}${(referenceNumber || 1).toString().padStart(4, '0')}`;
+}
+
+/**
+ * Copy the billable content of a quote or invoice into a recurring template.
+ */
+export function createRecurringTemplate(quote: Quote): RecurringInvoiceTemplate {
+  return {
+    sections: quote.sections,
+    labourRate: quote.labourRate,
+    markupPercent: quote.markupPercent,
+    taxPercent: quote.taxPercent,
+    cisPercent: quote.cisPercent,
+    notes: quote.notes,
+    displayOptions: quote.displayOptions,
+    discountType: quote.discountType,
+    discountValue: quote.discountValue,
+    discountDescription: quote.discountDescription,
+    jobAddress: quote.jobAddress,
+    reverseCharge: quote.reverseCharge,
+  };
+}
+
+/**
+ * The invoice generated for one occurrence. It gets its own invoice
+ * reference number when saved.
+ */
+export function buildRecurringInvoice(recurring: RecurringInvoice, date: string): Quote {
+  const now = new Date().toISOString();
+  return {
+    ...recurring.template,
+    id: '',
+    customerId: recurring.customerId,
+    projectId: recurring.projectId,
+    title: recurring.title,
+    type: 'invoice',
+    status: recurring.generateStatus,
+    date,
+    dueDate: addDays(date, recurring.paymentTermsDays),
+    recurringInvoiceId: recurring.id,
+    recurrenceDate: date,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * The schedule visit matching one occurrence, at the template's visit time
+ * (local time, default 09:00 for an hour).
+ */
+export function buildRecurringVisit(
+  recurring: RecurringInvoice,
+  date: string,
+  location?: string
+): Omit<ScheduleEntry, 'id'> {
+  const start = new Date(`${date}T${recurring.visitStartTime || '09:00'}:00`);
+  const end = new Date(start.getTime() + (recurring.visitDurationMinutes || 60) * 60 * 1000);
+  return {
+    title: recurring.title,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    description: `Recurring visit (${formatRecurringReference(recurring.referenceNumber)})`,
+    projectId: recurring.projectId,
+    customerId: recurring.customerId || undefined,
+    location: recurring.template.jobAddress || location,
+  };
+}
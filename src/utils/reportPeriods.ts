@@ -0,0 +1,108 @@
+import type { AppSettings } from '../../types';
+
+/**
+ * Reporting periods shared by the profit and loss, balance sheet and
+ * cash-flow reports. Tax years follow the user's tax year start setting.
+ */
+
+export type ReportPeriod = 'current_month' | 'last_month' | 'current_quarter' | 'last_quarter' | 'current_tax_year' | 'last_tax_year' | 'custom';
+
+export interface PeriodBoundaries {
+  start: Date;
+  end: Date;
+  label: string;
+}
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  current_month: 'Current Month',
+  last_month: 'Last Month',
+  current_quarter: 'Current Quarter',
+  last_quarter: 'Last Quarter',
+  current_tax_year: 'Current Tax Year',
+  last_tax_year: 'Last Tax Year',
+  custom: 'Custom Range',
+};
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Start and end of a reporting period; the end is the last second of its final day.
+ * Custom ranges take ISO dates and default to the calendar year to date.
+ */
+export function getPeriodBoundaries(
+  period: ReportPeriod,
+  settings: Pick<AppSettings, 'taxYearStartMonth' | 'taxYearStartDay'>,
+  custom: { start?: string; end?: string } = {},
+  now: Date = new Date()
+): PeriodBoundaries {
+  const taxMonth = (settings.taxYearStartMonth || 4) - 1;
+  const taxDay = settings.taxYearStartDay || 6;
+
+  // Calculate current tax year start
+  let currentTaxYearStart = new Date(now.getFullYear(), taxMonth, taxDay);
+  if (now < currentTaxYearStart) {
+    currentTaxYearStart = new Date(now.getFullYear() - 1, taxMonth, taxDay);
+  }
+
+  switch (period) {
+    case 'current_month': {
+      const start = new Date(now.getFullYear(), now.getMonth(), 1);
+      const end = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
+      return { start, end, label: `${MONTH_NAMES[now.getMonth()]} ${now.getFullYear()}` };
+    }
+    case 'last_month': {
+      const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      const end = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59);
+      return { start, end, label: `${MONTH_NAMES[start.getMonth()]} ${start.getFullYear()}` };
+    }
+    case 'current_quarter': {
+      const quarter = Math.floor(now.getMonth() / 3);
+      const start = new Date(now.getFullYear(), quarter * 3, 1);
+      const end = new Date(now.getFullYear(), quarter * 3 + 3, 0, 23, 59, 59);
+      return { start, end, label: `Q${quarter + 1} ${now.getFullYear()}` };
+    }
+    case 'last_quarter': {
+      const quarter = Math.floor(now.getMonth() / 3) - 1;
+      const year = quarter < 0 ? now.getFullYear() - 1 : now.getFullYear();
+      const adjustedQuarter = quarter < 0 ? 3 : quarter;
+      const start = new Date(year, adjustedQuarter * 3, 1);
+      const end = new Date(year, adjustedQuarter * 3 + 3, 0, 23, 59, 59);
+      return { start, end, label: `Q${adjustedQuarter + 1} ${year}` };
+    }
+    case 'current_tax_year': {
+      const end = new Date(currentTaxYearStart.getFullYear() + 1, taxMonth, taxDay - 1, 23, 59, 59);
+      return {
+        start: currentTaxYearStart,
+        end,
+        label: `${MONTH_NAMES[taxMonth]} ${currentTaxYearStart.getFullYear()} - ${MONTH_NAMES[taxMonth]} ${currentTaxYearStart.getFullYear() + 1}`
+      };
+    }
+    case 'last_tax_year': {
+      const start = new Date(currentTaxYearStart.getFullYear() - 1, taxMonth, taxDay);
+      const end = new Date(currentTaxYearStart.getFullYear(), taxMonth, taxDay - 1, 23, 59, 59);
+      return {
+        start,
+        end,
+        label: `${MONTH_NAMES[taxMonth]} ${start.getFullYear()} - ${MONTH_NAMES[taxMonth]} ${start.getFullYear() + 1}`
+      };
+    }
+    case 'custom': {
+      const start = custom.start ? new Date(custom.start) : new Date(now.getFullYear(), 0, 1);
+      const end = custom.end ? new Date(custom.end + 'T23:59:59') : now;
+      return {
+        start,
+        end,
+        label: `${start.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })} - ${end.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })}`
+      };
+    }
+    default:
+      return { start: new Date(now.getFullYear(), 0, 1), end: now, label: 'All Time' };
+  }
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of a period boundary, for date-column filters.
+ */
+export function toISODate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
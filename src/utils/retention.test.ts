@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  validateRetention,
+  getRetentionReceived,
+  getRetentionTranches,
+  getRetentionEntry,
+  buildRetentionLedger,
+  getRetentionReleasesDue,
+} from './retention';
+import {
+  createMockInvoice,
+  createMockCreditNote,
+  createMockInvoicePayment,
+  createMockQuoteSection,
+  createMockMaterialItem,
+  createMockSettings,
+} from '../test/factories';
+
+const settings = createMockSettings();
+
+// 1000 net + 20% VAT = 1200, with 5% retention (50) held back
+const invoice = createMockInvoice({
+  id: 'invoice-1',
+  status: 'part_paid',
+  sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 1000 })], labourHours: 0 })],
+  retentionPercent: 5,
+  practicalCompletionDate: '2026-03-01',
+  defectsPeriodEndDate: '2027-03-01',
+});
+
+describe('validateRetention', () => {
+  it('accepts valid terms or no retention', () => {
+    expect(validateRetention(invoice)).toBeNull();
+    expect(validateRetention({})).toBeNull();
+  });
+
+  it('rejects an out of range percentage', () => {
+    expect(validateRetention({ retentionPercent: 0 })).toBe('Retention must be between 0% and 100%');
+    expect(validateRetention({ retentionPercent: 100 })).toBe('Retention must be between 0% and 100%');
+  });
+
+  it('rejects a defects period ending before practical completion', () => {
+    expect(validateRetention({ ...invoice, defectsPeriodEndDate: '2026-02-01' }))
+      .toBe('The defects period cannot end before practical completion');
+  });
+});
+
+describe('getRetentionReceived', () => {
+  it('counts nothing until the amount due now is paid', () => {
+    expect(getRetentionReceived(1200, 50, 0)).toBe(0);
+    expect(getRetentionReceived(1200, 50, 1150)).toBe(0);
+  });
+
+  it('counts payments beyond the amount due now', () => {
+    expect(getRetentionReceived(1200, 50, 1175)).toBe(25);
+    expect(getRetentionReceived(1200, 50, 1200)).toBe(50);
+    expect(getRetentionReceived(1200, 50, 1300)).toBe(50);
+  });
+
+  it('lets credit notes settle the amount due now first', () => {
+    expect(getRetentionReceived(1200, 50, 1100, 60)).toBe(10);
+  });
+});
+
+describe('getRetentionTranches', () => {
+  it('splits retention between practical completion and the defects period', () => {
+    const tranches = getRetentionTranches(invoice, 50.01, 0, '2026-01-01');
+
+    expect(tranches.map(t => [t.stage, t.amount, t.releaseDate, t.status])).toEqual([
+      ['practical_completion', 25.01, '2026-03-01', 'held'],
+      ['defects_period', 25, '2027-03-01', 'held'],
+    ]);
+  });
+
+  it('becomes due once the release date passes', () => {
+    const [completion, defects] = getRetentionTranches(invoice, 50, 0, '2026-03-11');
+
+    expect(completion).toMatchObject({ status: 'due', outstanding: 25, daysOverdue: 10 });
+    expect(defects).toMatchObject({ status: 'held', daysOverdue: 0 });
+  });
+
+  it('applies receipts to the earliest release first', () => {
+    const [completion, defects] = getRetentionTranches(invoice, 50, 30, '2027-04-01');
+
+    expect(completion).toMatchObject({ received: 25, outstanding: 0, status: 'received' });
+    expect(defects).toMatchObject({ received: 5, outstanding: 20, status: 'due' });
+  });
+
+  it('holds retention with no release date', () => {
+    const tranches = getRetentionTranches({}, 50, 0, '2030-01-01');
+    expect(tranches.every(t => t.status === 'held')).toBe(true);
+  });
+});
+
+describe('getRetentionEntry', () => {
+  it('reports retention held, received and outstanding', () => {
+    const payments = [createMockInvoicePayment({ invoiceId: 'invoice-1', amount: 1175 })];
+    const entry = getRetentionEntry(invoice, [invoice], payments, settings, '2026-04-01');
+
+    expect(entry).toMatchObject({ retentionAmount: 50, received: 25, outstanding: 25 });
+    expect(entry!.tranches.map(t => t.status)).toEqual(['received', 'held']);
+  });
+
+  it('includes credit notes against the invoice', () => {
+    const credit = createMockCreditNote({
+      parentQuoteId: 'invoice-1',
+      sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 50 })], labourHours: 0 })],
+    });
+    const payments = [createMockInvoicePayment({ invoiceId: 'invoice-1', amount: 1100 })];
+
+    // 1100 paid + 60 credited leaves 10 paid out of retention
+    expect(getRetentionEntry(invoice, [invoice, credit], payments, settings)!.received).toBe(10);
+  });
+
+  it('is null for invoices without retention', () => {
+    expect(getRetentionEntry({ ...invoice, retentionPercent: undefined }, [], [], settings)).toBeNull();
+  });
+});
+
+describe('buildRetentionLedger', () => {
+  const later = { ...invoice, id: 'invoice-2', practicalCompletionDate: '2026-06-01', defectsPeriodEndDate: undefined };
+  const draft = { ...invoice, id: 'invoice-3', status: 'draft' as const };
+  const voided = { ...invoice, id: 'invoice-4', status: 'void' as const };
+  const noRetention = { ...invoice, id: 'invoice-5', retentionPercent: 0 };
+
+  it('lists issued invoices holding retention, soonest release first', () => {
+    const ledger = buildRetentionLedger([later, draft, voided, noRetention, invoice], [], settings, '2026-01-01');
+    expect(ledger.map(e => e.invoice.id)).toEqual(['invoice-1', 'invoice-2']);
+  });
+
+  it('finds releases that have passed unpaid', () => {
+    const ledger = buildRetentionLedger([invoice, later], [], settings, '2026-04-01');
+    const due = getRetentionReleasesDue(ledger);
+
+    expect(due.map(d => [d.entry.invoice.id, d.tranche.stage])).toEqual([['invoice-1', 'practical_completion']]);
+  });
+});
@@ -0,0 +1,184 @@
+import type { Quote, InvoicePayment } from '../../types';
+import { calculateDocumentTotals, calculateRetention, getDocumentHeadlineTotals } from './quoteCalculations';
+import { getPaymentsForInvoice, sumPayments } from './invoicePayments';
+import { getCreditNotesForInvoice, sumCredited } from './creditNotes';
+
+export type RetentionStage = 'practical_completion' | 'defects_period';
+
+// held: release date not reached (or not set), due: released but unpaid, received: paid in full
+export type RetentionTrancheStatus = 'held' | 'due' | 'received';
+
+/**
+ * One release of retention: half at practical completion, the rest at the
+ * end of the defects period.
+ */
+export interface RetentionTranche {
+  stage: RetentionStage;
+  amount: number;
+  releaseDate?: string;
+  received: number;
+  outstanding: number;
+  status: RetentionTrancheStatus;
+  // Days since the release date, for ageing; 0 until released
+  daysOverdue: number;
+}
+
+export interface RetentionLedgerEntry {
+  invoice: Quote;
+  retentionAmount: number;
+  received: number;
+  outstanding: number;
+  tranches: RetentionTranche[];
+}
+
+export const RETENTION_STAGE_LABELS: Record<RetentionStage, string> = {
+  practical_completion: 'Practical completion',
+  defects_period: 'End of defects period',
+};
+
+// Anything under half a penny is treated as settled
+const TOLERANCE = 0.005;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const todayISO = (): string => new Date().toISOString().split('T')[0];
+
+/**
+ * Whole days from one ISO date to another (negative if `to` is earlier).
+ */
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+/**
+ * Check an invoice's retention terms before saving. Returns an error message, or null if valid.
+ */
+export function validateRetention(
+  invoice: Pick<Quote, 'retentionPercent' | 'practicalCompletionDate' | 'defectsPeriodEndDate'>
+): string | null {
+  if (invoice.retentionPercent === undefined) return null;
+  if (!(invoice.retentionPercent > 0) || invoice.retentionPercent >= 100) {
+    return 'Retention must be between 0% and 100%';
+  }
+  if (invoice.practicalCompletionDate && invoice.defectsPeriodEndDate
+    && invoice.defectsPeriodEndDate < invoice.practicalCompletionDate) {
+    return 'The defects period cannot end before practical completion';
+  }
+  return null;
+}
+
+/**
+ * Retention received so far. Payments and credits settle the amount due now
+ * first; anything beyond that has been paid out of retention.
+ */
+export function getRetentionReceived(
+  invoiceTotal: number,
+  retentionAmount: number,
+  amountPaid: number,
+  amountCredited = 0
+): number {
+  const beyondDueNow = amountPaid + amountCredited - (invoiceTotal - retentionAmount);
+  return roundCurrency(Math.min(retentionAmount, Math.max(0, beyondDueNow)));
+}
+
+/**
+ * Split retention into its two releases and apply what has been received,
+ * oldest release first.
+ */
+export function getRetentionTranches(
+  invoice: Pick<Quote, 'practicalCompletionDate' | 'defectsPeriodEndDate'>,
+  retentionAmount: number,
+  received: number,
+  today: string = todayISO()
+): RetentionTranche[] {
+  const firstHalf = roundCurrency(retentionAmount / 2);
+  const releases: { stage: RetentionStage; amount: number; releaseDate?: string }[] = [
+    { stage: 'practical_completion', amount: firstHalf, releaseDate: invoice.practicalCompletionDate },
+    { stage: 'defects_period', amount: roundCurrency(retentionAmount - firstHalf), releaseDate: invoice.defectsPeriodEndDate },
+  ];
+
+  let remaining = received;
+  return releases.map(release => {
+    const trancheReceived = roundCurrency(Math.min(release.amount, Math.max(0, remaining)));
+    remaining -= trancheReceived;
+    const outstanding = roundCurrency(release.amount - trancheReceived);
+    const released = !!release.releaseDate && release.releaseDate <= today;
+
+    return {
+      ...release,
+      received: trancheReceived,
+      outstanding,
+      status: outstanding <= TOLERANCE ? 'received' : released ? 'due' : 'held',
+      daysOverdue: released ? daysBetween(release.releaseDate!, today) : 0,
+    };
+  });
+}
+
+/**
+ * Retention position for one invoice, or null if it holds no retention.
+ */
+export function getRetentionEntry(
+  invoice: Quote,
+  quotes: Quote[],
+  payments: InvoicePayment[],
+  settings: Parameters<typeof calculateDocumentTotals>[1],
+  today: string = todayISO()
+): RetentionLedgerEntry | null {
+  const totals = getDocumentHeadlineTotals(invoice, settings);
+  const retentionAmount = roundCurrency(calculateRetention(totals.afterDiscount, invoice.retentionPercent));
+  if (retentionAmount <= 0) return null;
+
+  const received = getRetentionReceived(
+    totals.grandTotal,
+    retentionAmount,
+    sumPayments(getPaymentsForInvoice(payments, invoice.id)),
+    sumCredited(getCreditNotesForInvoice(quotes, invoice.id), settings)
+  );
+
+  return {
+    invoice,
+    retentionAmount,
+    received,
+    outstanding: roundCurrency(retentionAmount - received),
+    tranches: getRetentionTranches(invoice, retentionAmount, received, today),
+  };
+}
+
+/**
+ * Every issued invoice holding retention, soonest release first.
+ */
+export function buildRetentionLedger(
+  quotes: Quote[],
+  payments: InvoicePayment[],
+  settings: Parameters<typeof calculateDocumentTotals>[1],
+  today: string = todayISO()
+): RetentionLedgerEntry[] {
+  const nextRelease = (entry: RetentionLedgerEntry): string =>
+    entry.tranches.find(t => t.status !== 'received')?.releaseDate || '9999-12-31';
+
+  return quotes
+    .filter(q =>
+      q.type === 'invoice' &&
+      (q.retentionPercent || 0) > 0 &&
+      q.status !== 'draft' &&
+      q.status !== 'declined' &&
+      q.status !== 'void'
+    )
+    .map(invoice => getRetentionEntry(invoice, quotes, payments, settings, today))
+    .filter((entry): entry is RetentionLedgerEntry => entry !== null)
+    .sort((a, b) => nextRelease(a).localeCompare(nextRelease(b)));
+}
+
+/**
+ * Releases whose date has passed but are still unpaid - the ones to chase.
+ */
+export function getRetentionReleasesDue(
+  ledger: RetentionLedgerEntry[]
+): { entry: RetentionLedgerEntry; tranche: RetentionTranche }[] {
+  return ledger.flatMap(entry =>
+    entry.tranches
+      .filter(tranche => tranche.status === 'due')
+      .map(tranche => ({ entry, tranche }))
+  );
+}
@@ -0,0 +1,15 @@
+import { describe, it, expect } from 'vitest';
+import { calculateReverseChargeVat } from './reverseCharge';
+
+describe('calculateReverseChargeVat', () => {
+  it('applies the rate to the net purchase', () => {
+    expect(calculateReverseChargeVat(1000, 20)).toBe(200);
+    expect(calculateReverseChargeVat(333.33, 20)).toBe(66.67);
+    expect(calculateReverseChargeVat(400, 5)).toBe(20);
+  });
+
+  it('is zero without a positive amount or rate', () => {
+    expect(calculateReverseChargeVat(0, 20)).toBe(0);
+    expect(calculateReverseChargeVat(100, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * VAT domestic reverse charge for construction services.
+ *
+ * Between VAT-registered businesses in CIS the supplier charges no VAT;
+ * the customer accounts for it on their own return instead, declaring it
+ * as output VAT (box 1) and reclaiming it as input VAT (box 4).
+ */
+
+// Wording HMRC expects on a reverse-charge invoice
+export const REVERSE_CHARGE_NOTICE =
+  'Reverse charge: Customer to account to HMRC for the VAT. Section 55A VAT Act 1994 applies.';
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * VAT a reverse-charge purchase would have carried, at the given rate.
+ */
+export function calculateReverseChargeVat(net: number, ratePercent: number): number {
+  if (!(net > 0) || !(ratePercent > 0)) return 0;
+  return roundCurrency(net * (ratePercent / 100));
+}
+
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPaymentSchedule,
+  calculatePaymentOnAccount,
+  estimateSelfAssessment,
+  getNextPayments,
+  getTaxYearLabel,
+  getTaxYearRates,
+  projectAnnualProfit,
+} from './selfAssessment';
+import { calculateTradingProfit, reconcileToLedgerProfit } from './tradingProfit';
+import {
+  createMockInvoice,
+  createMockInvoicePayment,
+  createMockMaterialItem,
+  createMockQuote,
+  createMockQuoteSection,
+  createMockSettings,
+} from '../test/factories';
+
+describe('getTaxYearRates', () => {
+  it('uses the table for the year, or the nearest one on file', () => {
+    expect(getTaxYearLabel(2025)).toBe('2025/26');
+    expect(getTaxYearLabel(2099)).toBe('2099/00');
+    expect(getTaxYearRates('2024/25').class4MainRate).toBe(6);
+    expect(getTaxYearRates('2030/31').taxYear).toBe('2026/27');
+    expect(getTaxYearRates('2020/21').taxYear).toBe('2023/24');
+  });
+});
+
+describe('estimateSelfAssessment', () => {
+  it('taxes profit over the personal allowance and credits CIS suffered', () => {
+    const estimate = estimateSelfAssessment('2025/26', 30000, 3000);
+
+    expect(estimate.personalAllowance).toBe(12570);
+    expect(estimate.incomeTax).toBe(3486);
+    expect(estimate.class4).toBe(1045.8);
+    expect(estimate.class2).toBe(0);
+    expect(estimate.liability).toBe(1531.8);
+  });
+
+  it('charges higher rate tax and the Class 4 additional rate above the upper limit', () => {
+    const estimate = estimateSelfAssessment('2025/26', 60000);
+
+    expect(estimate.bands.map(b => [b.name, b.taxable, b.tax])).toEqual([
+      ['Basic rate', 37700, 7540],
+      ['Higher rate', 9730, 3892],
+      ['Additional rate', 0, 0],
+    ]);
+    expect(estimate.class4).toBe(2456.6);
+    expect(estimate.totalTax).toBe(13888.6);
+  });
+
+  it('tapers the personal allowance above £100,000', () => {
+    expect(estimateSelfAssessment('2025/26', 110000)).toMatchObject({ personalAllowance: 7570, incomeTax: 33432 });
+    expect(estimateSelfAssessment('2025/26', 130000)).toMatchObject({ personalAllowance: 0, incomeTax: 44703 });
+  });
+
+  it('applies the rates of the year', () => {
+    const estimate = estimateSelfAssessment('2023/24', 30000);
+
+    expect(estimate.class4).toBe(1568.7);
+    expect(estimate.class2).toBe(179.4);
+  });
+
+  it('charges nothing on a loss', () => {
+    expect(estimateSelfAssessment('2025/26', -5000, 200)).toMatchObject({ totalTax: 0, liability: -200 });
+  });
+});
+
+describe('calculatePaymentOnAccount', () => {
+  it('is half the bill less CIS', () => {
+    expect(calculatePaymentOnAccount(estimateSelfAssessment('2025/26', 30000, 3000))).toBe(765.9);
+  });
+
+  it('is not needed for a bill under £1,000 or mostly deducted at source', () => {
+    expect(calculatePaymentOnAccount(estimateSelfAssessment('2025/26', 16000))).toBe(0);
+    expect(calculatePaymentOnAccount(estimateSelfAssessment('2025/26', 60000, 11500))).toBe(0);
+  });
+
+  it('leaves Class 2 out', () => {
+    const estimate = estimateSelfAssessment('2023/24', 30000);
+    expect(calculatePaymentOnAccount(estimate)).toBe(2527.35);
+  });
+});
+
+describe('buildPaymentSchedule', () => {
+  const schedule = buildPaymentSchedule([
+    estimateSelfAssessment('2024/25', 30000),
+    estimateSelfAssessment('2025/26', 40000),
+  ]);
+
+  it('sets payments on account from the previous year and balances the rest', () => {
+    expect(schedule.map(p => [p.dueDate, p.taxYear, p.kind, p.amount])).toEqual([
+      ['2026-01-31', '2025/26', 'first_payment_on_account', 2265.9],
+      ['2026-07-31', '2025/26', 'second_payment_on_account', 2265.9],
+      ['2027-01-31', '2025/26', 'balancing', 2600],
+      ['2027-01-31', '2026/27', 'first_payment_on_account', 3565.9],
+      ['2027-07-31', '2026/27', 'second_payment_on_account', 3565.9],
+    ]);
+  });
+
+  it('finds everything due on the next payment date', () => {
+    expect(getNextPayments(schedule, '2026-10-19').map(p => p.amount)).toEqual([2600, 3565.9]);
+    expect(getNextPayments(schedule, '2027-08-01')).toEqual([]);
+  });
+
+  it('shows a repayment when CIS suffered is more than the bill', () => {
+    const repayment = buildPaymentSchedule([
+      estimateSelfAssessment('2024/25', 10000),
+      estimateSelfAssessment('2025/26', 14000, 1000),
+    ]);
+
+    expect(repayment.map(p => [p.kind, p.amount])).toEqual([['balancing', -628.2]]);
+  });
+});
+
+describe('projectAnnualProfit', () => {
+  it('scales profit to date up to the whole year', () => {
+    const start = new Date(2026, 0, 1);
+    const end = new Date(2026, 11, 31, 23, 59, 59);
+
+    expect(projectAnnualProfit(10000, start, end, new Date(2026, 6, 2))).toBe(20054.95);
+    expect(projectAnnualProfit(10000, start, end, new Date(2027, 0, 10))).toBe(10000);
+  });
+});
+
+describe('calculateTradingProfit', () => {
+  // 600 materials + 8h at £50 = 1000 net, 200 VAT, paid in the 2026/27 tax year
+  const invoice = createMockInvoice({
+    status: 'paid',
+    date: '2026-03-20',
+    sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 600 })], labourHours: 8 })],
+  });
+  const payment = createMockInvoicePayment({ invoiceId: invoice.id, amount: 1200, paymentDate: '2026-05-01' });
+  const start = new Date(2026, 3, 6);
+  const end = new Date(2027, 3, 5, 23, 59, 59);
+  const profitFor = (overrides: Parameters<typeof createMockSettings>[0]) =>
+    calculateTradingProfit([invoice], [payment], [], [], [], createMockSettings(overrides), start, end).income;
+
+  it('counts sales net of VAT once registered', () => {
+    expect(profitFor({ enableVat: false })).toBe(1000);
+    expect(profitFor({ enableVat: true, vatScheme: 'standard' })).toBe(1000);
+    expect(profitFor({ enableVat: true, vatScheme: 'cash' })).toBe(1000);
+  });
+
+  it('counts gross turnover less the flat rate VAT under the Flat Rate Scheme', () => {
+    expect(profitFor({ enableVat: true, vatScheme: 'flat_rate', vatFlatRateCategory: 'general_building' })).toBe(1086);
+    expect(profitFor({
+      enableVat: true,
+      vatScheme: 'flat_rate',
+      vatFlatRateCategory: 'general_building',
+      vatFlatRateFirstYear: true,
+    })).toBe(1098);
+  });
+
+  it('counts part payments in the tax year they are received', () => {
+    const partPaid = { ...invoice, status: 'part_paid' as const };
+    const payments = [
+      createMockInvoicePayment({ invoiceId: invoice.id, amount: 300, paymentDate: '2026-03-25' }),
+      createMockInvoicePayment({ invoiceId: invoice.id, amount: 600, paymentDate: '2026-04-10' }),
+    ];
+    const settings = createMockSettings({ enableVat: true, vatScheme: 'standard' });
+    const previousYear = calculateTradingProfit(
+      [partPaid], payments, [], [], [], settings, new Date(2025, 3, 6), new Date(2026, 3, 5, 23, 59, 59)
+    );
+    const thisYear = calculateTradingProfit([partPaid], payments, [], [], [], settings, start, end);
+
+    expect(previousYear.income).toBe(250);
+    expect(thisYear.income).toBe(500);
+    expect(thisYear.incomeCount).toBe(1);
+  });
+
+  it('counts what is due after credit notes, and a later credit note as a refund', () => {
+    const settings = createMockSettings({ enableVat: true, vatScheme: 'standard' });
+    // 200 net + 40 VAT credited
+    const creditNote = createMockQuote({
+      type: 'credit_note',
+      status: 'sent',
+      date: '2026-04-20',
+      parentQuoteId: invoice.id,
+      sections: [createMockQuoteSection({ items: [createMockMaterialItem({ totalPrice: 200 })], labourHours: 0 })],
+    });
+    const settled = createMockInvoicePayment({ invoiceId: invoice.id, amount: 960, paymentDate: '2026-05-01' });
+
+    expect(calculateTradingProfit([invoice, creditNote], [settled], [], [], [], settings, start, end).income).toBe(800);
+
+    const refunded = { ...creditNote, date: '2027-05-01' };
+    const nextYear = calculateTradingProfit(
+      [invoice, refunded], [payment], [], [], [], settings, new Date(2027, 3, 6), new Date(2028, 3, 5, 23, 59, 59)
+    );
+    expect(calculateTradingProfit([invoice, refunded], [payment], [], [], [], settings, start, end).income).toBe(1000);
+    expect(nextYear.income).toBe(-200);
+  });
+});
+
+describe('reconcileToLedgerProfit', () => {
+  it('gets from the Profit & Loss profit to the cash-basis profit', () => {
+    const trading = { income: 800, incomeCount: 2, expenses: 300, mileageAllowance: 45, profit: 455 };
+    const ledgerPnl = { income: [], expenses: [], totalIncome: 1000, totalExpenses: 420, netProfit: 580 };
+
+    expect(reconcileToLedgerProfit(trading, ledgerPnl)).toEqual({
+      ledgerProfit: 535,
+      incomeTiming: -200,
+      costDifference: 120,
+      cashProfit: 455,
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Self Assessment estimate for a sole trader.
+ *
+ * Trading profit is taxed at the income tax bands for the year after the
+ * personal allowance, which is withdrawn by £1 for every £2 of income over
+ * £100,000. Class 4 National Insurance is charged on the same profit, and
+ * CIS deducted by contractors is credited against the bill.
+ *
+ * Payments on account are each half of the previous year's bill, due on
+ * 31 January in the tax year and 31 July after it, with the balance due
+ * the following 31 January. They are not needed when that bill was under
+ * £1,000 or more than 80% of the tax was deducted at source. Class 2 NI is
+ * paid with the balancing payment, never on account.
+ *
+ * Rates are for England, Wales and Northern Ireland, with one table per
+ * tax year so a new year is added alongside the old ones.
+ */
+
+export interface TaxBand {
+  name: string;
+  // Percent
+  rate: number;
+  // Top of the band in taxable income (after the personal allowance); null for the last band
+  upTo: number | null;
+}
+
+export interface TaxYearRates {
+  taxYear: string;
+  personalAllowance: number;
+  allowanceTaperThreshold: number;
+  bands: TaxBand[];
+  class4LowerLimit: number;
+  class4UpperLimit: number;
+  // Percent
+  class4MainRate: number;
+  class4AdditionalRate: number;
+  // Per week, charged when profit reaches the Class 4 lower limit; 0 once abolished
+  class2WeeklyRate: number;
+}
+
+const STANDARD_BANDS: TaxBand[] = [
+  { name: 'Basic rate', rate: 20, upTo: 37700 },
+  { name: 'Higher rate', rate: 40, upTo: 125140 },
+  { name: 'Additional rate', rate: 45, upTo: null },
+];
+
+export const TAX_YEAR_RATES: Record<string, TaxYearRates> = {
+  '2023/24': {
+    taxYear: '2023/24',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    class4LowerLimit: 12570,
+    class4UpperLimit: 50270,
+    class4MainRate: 9,
+    class4AdditionalRate: 2,
+    class2WeeklyRate: 3.45,
+  },
+  '2024/25': {
+    taxYear: '2024/25',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    class4LowerLimit: 12570,
+    class4UpperLimit: 50270,
+    class4MainRate: 6,
+    class4AdditionalRate: 2,
+    class2WeeklyRate: 0,
+  },
+  '2025/26': {
+    taxYear: '2025/26',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    class4LowerLimit: 12570,
+    class4UpperLimit: 50270,
+    class4MainRate: 6,
+    class4AdditionalRate: 2,
+    class2WeeklyRate: 0,
+  },
+  '2026/27': {
+    taxYear: '2026/27',
+    personalAllowance: 12570,
+    allowanceTaperThreshold: 100000,
+    bands: STANDARD_BANDS,
+    class4LowerLimit: 12570,
+    class4UpperLimit: 50270,
+    class4MainRate: 6,
+    class4AdditionalRate: 2,
+    class2WeeklyRate: 0,
+  },
+};
+
+// Bills below this need no payments on account the following year
+export const PAYMENT_ON_ACCOUNT_THRESHOLD = 1000;
+
+export interface IncomeTaxBand {
+  name: string;
+  rate: number;
+  taxable: number;
+  tax: number;
+}
+
+export interface TaxEstimate {
+  taxYear: string;
+  // The table used, which differs from taxYear when no rates exist for it yet
+  ratesTaxYear: string;
+  profit: number;
+  personalAllowance: number;
+  bands: IncomeTaxBand[];
+  incomeTax: number;
+  class4: number;
+  class2: number;
+  totalTax: number;
+  cisSuffered: number;
+  // Negative when CIS suffered exceeds the tax, i.e. a repayment
+  liability: number;
+}
+
+export type SelfAssessmentPaymentKind = 'first_payment_on_account' | 'second_payment_on_account' | 'balancing';
+
+export interface SelfAssessmentPayment {
+  dueDate: string;
+  taxYear: string;
+  kind: SelfAssessmentPaymentKind;
+  // Negative for a repayment
+  amount: number;
+}
+
+export const PAYMENT_KIND_LABELS: Record<SelfAssessmentPaymentKind, string> = {
+  first_payment_on_account: '1st payment on account',
+  second_payment_on_account: '2nd payment on account',
+  balancing: 'Balancing payment',
+};
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * '2025/26' for the tax year starting in 2025.
+ */
+export function getTaxYearLabel(startYear: number): string {
+  return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+const getStartYear = (taxYear: string): number => parseInt(taxYear.slice(0, 4), 10);
+
+/**
+ * Rates for a tax year, falling back to the nearest year on file so an
+ * estimate is still possible before a new table has been added.
+ */
+export function getTaxYearRates(taxYear: string): TaxYearRates {
+  if (TAX_YEAR_RATES[taxYear]) return TAX_YEAR_RATES[taxYear];
+
+  const years = Object.keys(TAX_YEAR_RATES).sort();
+  const earlier = years.filter(y => y < taxYear);
+  return TAX_YEAR_RATES[earlier.length > 0 ? earlier[earlier.length - 1] : years[0]];
+}
+
+export function calculatePersonalAllowance(income: number, rates: TaxYearRates): number {
+  const excess = Math.max(0, income - rates.allowanceTaperThreshold);
+  return Math.max(0, rates.personalAllowance - Math.floor(excess / 2));
+}
+
+export function calculateIncomeTaxBands(income: number, rates: TaxYearRates): IncomeTaxBand[] {
+  const taxableIncome = Math.max(0, income - calculatePersonalAllowance(income, rates));
+  let bandStart = 0;
+
+  return rates.bands.map(band => {
+    const bandTop = band.upTo ?? Infinity;
+    const taxable = Math.max(0, Math.min(taxableIncome, bandTop) - bandStart);
+    bandStart = bandTop;
+    return {
+      name: band.name,
+      rate: band.rate,
+      taxable: roundCurrency(taxable),
+      tax: roundCurrency(taxable * band.rate / 100),
+    };
+  });
+}
+
+export function calculateClass4(profit: number, rates: TaxYearRates): number {
+  const main = Math.max(0, Math.min(profit, rates.class4UpperLimit) - rates.class4LowerLimit);
+  const additional = Math.max(0, profit - rates.class4UpperLimit);
+  return roundCurrency(main * rates.class4MainRate / 100 + additional * rates.class4AdditionalRate / 100);
+}
+
+export function calculateClass2(profit: number, rates: TaxYearRates): number {
+  return profit >= rates.class4LowerLimit ? roundCurrency(rates.class2WeeklyRate * 52) : 0;
+}
+
+/**
+ * Tax and NI on a year's trading profit, less CIS already suffered.
+ */
+export function estimateSelfAssessment(taxYear: string, profit: number, cisSuffered = 0): TaxEstimate {
+  const rates = getTaxYearRates(taxYear);
+  const taxableProfit = Math.max(0, profit);
+  const bands = calculateIncomeTaxBands(taxableProfit, rates);
+  const incomeTax = roundCurrency(bands.reduce((sum, b) => sum + b.tax, 0));
+  const class4 = calculateClass4(taxableProfit, rates);
+  const class2 = calculateClass2(taxableProfit, rates);
+  const totalTax = roundCurrency(incomeTax + class4 + class2);
+
+  return {
+    taxYear,
+    ratesTaxYear: rates.taxYear,
+    profit: roundCurrency(profit),
+    personalAllowance: Math.min(calculatePersonalAllowance(taxableProfit, rates), taxableProfit),
+    bands,
+    incomeTax,
+    class4,
+    class2,
+    totalTax,
+    cisSuffered: roundCurrency(cisSuffered),
+    liability: roundCurrency(totalTax - cisSuffered),
+  };
+}
+
+/**
+ * Each of the two payments on account that a year's bill sets for the next year.
+ */
+export function calculatePaymentOnAccount(estimate: TaxEstimate): number {
+  const taxOnAccount = estimate.incomeTax + estimate.class4;
+  const due = taxOnAccount - estimate.cisSuffered;
+  if (due < PAYMENT_ON_ACCOUNT_THRESHOLD) return 0;
+  if (estimate.cisSuffered > taxOnAccount * 0.8) return 0;
+  return roundCurrency(due / 2);
+}
+
+/**
+ * Payments for consecutive tax years, oldest first. The first estimate only
+ * sets the payments on account for the second; after that each year has its
+ * payments on account, its balancing payment and the next year's payments
+ * on account. Payments of nothing are left out.
+ */
+export function buildPaymentSchedule(estimates: TaxEstimate[]): SelfAssessmentPayment[] {
+  const payments: SelfAssessmentPayment[] = [];
+  const add = (dueDate: string, taxYear: string, kind: SelfAssessmentPaymentKind, amount: number) => {
+    if (Math.abs(amount) >= 0.01) payments.push({ dueDate, taxYear, kind, amount: roundCurrency(amount) });
+  };
+
+  estimates.forEach((estimate, index) => {
+    if (index === 0) return;
+    const startYear = getStartYear(estimate.taxYear);
+    const onAccount = calculatePaymentOnAccount(estimates[index - 1]);
+
+    add(`${startYear + 1}-01-31`, estimate.taxYear, 'first_payment_on_account', onAccount);
+    add(`${startYear + 1}-07-31`, estimate.taxYear, 'second_payment_on_account', onAccount);
+    add(`${startYear + 2}-01-31`, estimate.taxYear, 'balancing', estimate.liability - onAccount * 2);
+
+    if (index === estimates.length - 1) {
+      const nextYear = getTaxYearLabel(startYear + 1);
+      const nextOnAccount = calculatePaymentOnAccount(estimate);
+      add(`${startYear + 2}-01-31`, nextYear, 'first_payment_on_account', nextOnAccount);
+      add(`${startYear + 2}-07-31`, nextYear, 'second_payment_on_account', nextOnAccount);
+    }
+  });
+
+  return payments.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+/**
+ * Payments due on the next payment date on or after today.
+ */
+export function getNextPayments(schedule: SelfAssessmentPayment[], today: string): SelfAssessmentPayment[] {
+  const next = schedule.find(p => p.dueDate >= today);
+  return next ? schedule.filter(p => p.dueDate === next.dueDate) : [];
+}
+
+/**
+ * Profit to date scaled up to the whole tax year.
+ */
+export function projectAnnualProfit(profitToDate: number, start: Date, end: Date, today: Date): number {
+  if (today >= end) return roundCurrency(profitToDate);
+  const elapsedDays = Math.max(1, Math.ceil((today.getTime() - start.getTime()) / DAY_MS));
+  const yearDays = Math.ceil((end.getTime() - start.getTime()) / DAY_MS);
+  return roundCurrency(profitToDate * yearDays / elapsedDays);
+}
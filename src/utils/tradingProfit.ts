@@ -0,0 +1,143 @@
+import type { AppSettings, InvoicePayment, Quote } from '../../types';
+import { calculateDocumentRevenue, getDocumentHeadlineTotals, getDocumentSign } from './quoteCalculations';
+import type { LedgerProfitAndLoss } from './ledger';
+import { isCoveredByMileageAllowance, type MileageClaim, type Vehicle } from './mileage';
+import { getFlatRatePercent, getVatSettings } from './vatPeriods';
+
+/**
+ * Trading profit on the cash basis for the tax estimate: income received on
+ * invoices in the period, less expenses and the mileage allowance for trips
+ * in the period. Fuel and running costs of a vehicle claimed at the mileage
+ * rates are left out, as the allowance covers them.
+ */
+
+export interface ProfitExpense {
+  amount: number;
+  expense_date: string;
+  category?: string | null;
+  vehicle_id?: string | null;
+}
+
+export interface TradingProfit {
+  income: number;
+  // Invoices with income received in the period
+  incomeCount: number;
+  expenses: number;
+  mileageAllowance: number;
+  profit: number;
+}
+
+/**
+ * How the cash-basis profit gets from the Profit & Loss profit, which the
+ * ledger counts when invoices are issued and bills are received.
+ */
+export interface ProfitReconciliation {
+  ledgerProfit: number;
+  // Income received less income invoiced in the period
+  incomeTiming: number;
+  // Costs on the P&L less the expenses the estimate takes off (bills, and VAT kept in a cost)
+  costDifference: number;
+  cashProfit: number;
+}
+
+type TotalsSettings = Pick<
+  AppSettings,
+  'enableVat' | 'enableCis' | 'defaultLabourRate' | 'defaultDisplayOptions'
+  | 'vatStagger' | 'vatScheme' | 'vatFlatRateCategory' | 'vatFlatRateFirstYear'
+>;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Income a document adds to taxable profit. VAT charged under the standard
+ * or cash scheme is owed to HMRC, so only the net counts. Under the Flat Rate
+ * Scheme the business keeps the VAT it charges and pays the flat rate on its
+ * VAT-inclusive turnover instead; reverse-charge sales carry no VAT either way.
+ */
+export function getTaxableIncome(quote: Quote, settings: TotalsSettings): number {
+  const revenue = calculateDocumentRevenue(quote, settings);
+  if (!settings.enableVat) return revenue;
+
+  const vatSettings = getVatSettings(settings);
+  if (vatSettings.scheme === 'flat_rate') {
+    return quote.reverseCharge ? revenue : revenue * (1 - getFlatRatePercent(vatSettings) / 100);
+  }
+  return revenue - getDocumentHeadlineTotals(quote, settings).taxAmount * getDocumentSign(quote.type);
+}
+
+/**
+ * Taxable income received on an invoice by a date. Payments, with any CIS
+ * withheld from them, settle a share of what is due after the credit notes
+ * issued by then, and that share of the taxable income counts. A credit note
+ * raised once the invoice is settled is a refund, taking income back on its date.
+ */
+export function getIncomeReceivedBy(
+  invoice: Quote,
+  creditNotes: Quote[],
+  payments: InvoicePayment[],
+  settings: TotalsSettings,
+  date: Date
+): number {
+  const documents = [invoice, ...creditNotes.filter(c => new Date(c.date) <= date)];
+  const due = documents.reduce((sum, q) => sum + calculateDocumentRevenue(q, settings), 0);
+  if (due <= 0) return 0;
+
+  const received = payments
+    .filter(p => new Date(p.paymentDate) <= date)
+    .reduce((sum, p) => sum + p.amount + (p.cisDeducted || 0), 0);
+  const taxableIncome = documents.reduce((sum, q) => sum + getTaxableIncome(q, settings), 0);
+  return taxableIncome * Math.min(1, received / due);
+}
+
+export function calculateTradingProfit(
+  quotes: Quote[],
+  payments: InvoicePayment[],
+  expenses: ProfitExpense[],
+  mileageClaims: MileageClaim[],
+  vehicles: Vehicle[],
+  settings: TotalsSettings,
+  start: Date,
+  end: Date
+): TradingProfit {
+  const inPeriod = (date: string) => {
+    const d = new Date(date);
+    return d >= start && d <= end;
+  };
+
+  const dayBeforeStart = new Date(start.getTime() - 1);
+  const invoiceIncome = quotes
+    .filter(q => q.type === 'invoice' && q.status !== 'draft')
+    .map(invoice => {
+      const creditNotes = quotes.filter(q => q.type === 'credit_note' && q.status !== 'draft' && q.parentQuoteId === invoice.id);
+      const invoicePayments = payments.filter(p => p.invoiceId === invoice.id);
+      return getIncomeReceivedBy(invoice, creditNotes, invoicePayments, settings, end)
+        - getIncomeReceivedBy(invoice, creditNotes, invoicePayments, settings, dayBeforeStart);
+    })
+    .filter(amount => roundCurrency(amount) !== 0);
+  const income = invoiceIncome.reduce((sum, amount) => sum + amount, 0);
+  const expenseTotal = expenses
+    .filter(e => inPeriod(e.expense_date) && !isCoveredByMileageAllowance(e, vehicles))
+    .reduce((sum, e) => sum + e.amount, 0);
+  const mileageAllowance = mileageClaims.filter(c => inPeriod(c.trip.date)).reduce((sum, c) => sum + c.allowance, 0);
+
+  return {
+    income: roundCurrency(income),
+    incomeCount: invoiceIncome.length,
+    expenses: roundCurrency(expenseTotal),
+    mileageAllowance: roundCurrency(mileageAllowance),
+    profit: roundCurrency(income - expenseTotal - mileageAllowance),
+  };
+}
+
+/**
+ * Reconcile a cash-basis profit to the ledger Profit & Loss for the same
+ * period. The P&L takes the same mileage allowance off.
+ */
+export function reconcileToLedgerProfit(trading: TradingProfit, ledgerPnl: LedgerProfitAndLoss): ProfitReconciliation {
+  return {
+    ledgerProfit: roundCurrency(ledgerPnl.netProfit - trading.mileageAllowance),
+    incomeTiming: roundCurrency(trading.income - ledgerPnl.totalIncome),
+    costDifference: roundCurrency(ledgerPnl.totalExpenses - trading.expenses),
+    cashProfit: trading.profit,
+  };
+}
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getVatSettings,
+  getFlatRatePercent,
+  getVatPeriod,
+  buildVatEntries,
+  totalVatEntries,
+  summariseVatPeriods,
+  type VatInvoiceRow,
+  type VatSettings,
+} from './vatPeriods';
+
+const standard: VatSettings = { stagger: 2, scheme: 'standard', flatRateCategory: 'general_building', flatRateFirstYear: false };
+const cash: VatSettings = { ...standard, scheme: 'cash' };
+const flatRate: VatSettings = { ...standard, scheme: 'flat_rate' };
+
+// Invoiced in January, paid half in January and half in March; credited £100 net in February
+const invoices: VatInvoiceRow[] = [
+  { id: 'inv-1', type: 'invoice', status: 'part_paid', date: '2026-01-20', subtotal: 1000, vat: 200, total: 1200 },
+  { id: 'cn-1', type: 'credit_note', status: 'sent', date: '2026-02-10', subtotal: -100, vat: -20, total: -120 },
+  { id: 'draft-1', type: 'invoice', status: 'draft', date: '2026-02-15', subtotal: 500, vat: 100, total: 600 },
+  { id: 'quote-1', type: 'quotation', status: 'accepted', date: '2026-02-15', subtotal: 900, vat: 180, total: 1080 },
+];
+const payments = [
+  { id: 'pay-1', invoice_id: 'inv-1', amount: 600, payment_date: '2026-01-31' },
+  { id: 'pay-2', invoice_id: 'inv-1', amount: 480, payment_date: '2026-03-02' },
+];
+const expenses = [
+  { id: 'exp-1', vendor: 'Builders Merchant', amount: 250, vat_amount: 50, expense_date: '2026-02-01', category: 'Materials' },
+];
+const bills = [
+  { id: 'bill-1', vendor_name: 'Sparks Ltd', invoice_date: '2026-04-30', is_reverse_charge: true, reverse_charge_vat: 160 },
+  { id: 'bill-2', vendor_name: 'Hire Co', invoice_date: '2026-04-30', is_reverse_charge: false, reverse_charge_vat: null },
+];
+
+describe('getVatSettings', () => {
+  it('defaults to calendar quarters on the standard scheme', () => {
+    expect(getVatSettings({})).toEqual({ stagger: 1, scheme: 'standard', flatRateCategory: 'general_building', flatRateFirstYear: false });
+  });
+
+  it('reads the configured stagger and scheme', () => {
+    expect(getVatSettings({ vatStagger: 2, vatScheme: 'cash' })).toMatchObject({ stagger: 2, scheme: 'cash' });
+  });
+});
+
+describe('getFlatRatePercent', () => {
+  it('takes one point off in the first year of registration', () => {
+    expect(getFlatRatePercent(flatRate)).toBe(9.5);
+    expect(getFlatRatePercent({ ...flatRate, flatRateFirstYear: true })).toBe(8.5);
+  });
+});
+
+describe('getVatPeriod', () => {
+  it('uses calendar quarters for stagger 1', () => {
+    expect(getVatPeriod('2026-01-01', 1)).toEqual({
+      key: '2026-03-31', start: '2026-01-01', end: '2026-03-31', label: 'Jan - Mar 2026', deadline: '2026-05-07',
+    });
+    expect(getVatPeriod('2026-04-01', 1).key).toBe('2026-06-30');
+  });
+
+  it('runs Feb to Apr for stagger 2', () => {
+    expect(getVatPeriod('2026-02-01', 2)).toMatchObject({ start: '2026-02-01', end: '2026-04-30', label: 'Feb - Apr 2026', deadline: '2026-06-07' });
+    expect(getVatPeriod('2026-04-30', 2).key).toBe('2026-04-30');
+    expect(getVatPeriod('2026-05-01', 2).key).toBe('2026-07-31');
+  });
+
+  it('spans the year end', () => {
+    expect(getVatPeriod('2025-12-15', 2)).toMatchObject({ start: '2025-11-01', end: '2026-01-31', label: 'Nov - Jan 2026' });
+    expect(getVatPeriod('2026-01-10', 3)).toMatchObject({ start: '2025-12-01', end: '2026-02-28' });
+    expect(getVatPeriod('2028-02-29', 3).end).toBe('2028-02-29');
+  });
+});
+
+describe('buildVatEntries', () => {
+  it('dates issued invoices and credit notes by their tax point on the invoice basis', () => {
+    const entries = buildVatEntries({ invoices, payments, expenses: [], bills: [] }, 'standard');
+
+    expect(entries.map(e => [e.source, e.date, e.net, e.vat])).toEqual([
+      ['invoice', '2026-01-20', 1000, 200],
+      ['credit_note', '2026-02-10', -100, -20],
+    ]);
+  });
+
+  it('follows the payment date under cash accounting', () => {
+    const entries = buildVatEntries({ invoices, payments, expenses: [], bills: [] }, 'cash');
+
+    expect(entries.map(e => [e.source, e.documentId, e.date, e.net, e.vat])).toEqual([
+      ['payment', 'inv-1', '2026-01-31', 500, 100],
+      ['payment', 'inv-1', '2026-03-02', 400, 80],
+    ]);
+  });
+
+  it('includes expenses and only reverse-charge bills', () => {
+    const entries = buildVatEntries({ invoices: [], payments: [], expenses, bills }, 'standard');
+
+    expect(entries.map(e => [e.source, e.net, e.vat, e.reverseChargeVat])).toEqual([
+      ['expense', 250, 50, 0],
+      ['bill', 0, 0, 160],
+    ]);
+  });
+});
+
+describe('summariseVatPeriods', () => {
+  it('assigns entries to the stagger periods, latest first', () => {
+    const entries = buildVatEntries({ invoices, payments, expenses, bills }, 'standard');
+    const summaries = summariseVatPeriods(entries, standard);
+
+    expect(summaries.map(s => [s.period.key, s.outputVat, s.inputVat, s.netVat])).toEqual([
+      ['2026-04-30', -20 + 160, 50 + 160, -70],
+      ['2026-01-31', 200, 0, 200],
+    ]);
+  });
+
+  it('moves sales VAT into the period the cash arrived', () => {
+    const entries = buildVatEntries({ invoices, payments, expenses: [], bills: [] }, 'cash');
+    const summaries = summariseVatPeriods(entries, cash);
+
+    expect(summaries.map(s => [s.period.key, s.salesVat])).toEqual([
+      ['2026-04-30', 80],
+      ['2026-01-31', 100],
+    ]);
+  });
+});
+
+describe('totalVatEntries', () => {
+  it('applies the flat rate to VAT-inclusive turnover', () => {
+    const entries = buildVatEntries({ invoices, payments, expenses, bills: [] }, 'flat_rate');
+    const totals = totalVatEntries(entries, flatRate);
+
+    expect(totals.grossSales).toBe(1080);
+    expect(totals.flatRateVat).toBe(102.6);
+    expect(totals.outputVat).toBe(102.6);
+    expect(totals.inputVat).toBe(0);
+  });
+
+  it('leaves reverse-charge sales out of flat rate turnover', () => {
+    const rows: VatInvoiceRow[] = [
+      { id: 'rc-1', type: 'invoice', status: 'sent', date: '2026-02-01', subtotal: 1000, vat: 0, total: 1000, tax_percent: 20, reverse_charge: true },
+    ];
+    const entries = buildVatEntries({ invoices: rows, payments: [], expenses: [], bills: [] }, 'flat_rate');
+
+    expect(entries[0].reverseChargeVat).toBe(200);
+    expect(totalVatEntries(entries, flatRate)).toMatchObject({ grossSales: 0, flatRateVat: 0, netSales: 1000 });
+  });
+
+  it('declares but cannot reclaim reverse-charge VAT on the flat rate scheme', () => {
+    const entries = buildVatEntries({ invoices: [], payments: [], expenses: [], bills }, 'flat_rate');
+
+    expect(totalVatEntries(entries, flatRate)).toMatchObject({ outputVat: 160, inputVat: 0, netVat: 160 });
+    expect(totalVatEntries(entries, standard)).toMatchObject({ outputVat: 160, inputVat: 160, netVat: 0 });
+  });
+});
@@ -0,0 +1,390 @@
+import type { AppSettings } from '../../types';
+
+/**
+ * HMRC stagger group: which months the VAT quarters end in.
+ * 1 = Mar/Jun/Sep/Dec, 2 = Apr/Jul/Oct/Jan, 3 = May/Aug/Nov/Feb.
+ */
+export type VatStagger = 1 | 2 | 3;
+
+/**
+ * standard - VAT follows the invoice date (tax point)
+ * cash - VAT follows the date payment is received
+ * flat_rate - a fixed percentage of VAT-inclusive turnover
+ */
+export type VatScheme = 'standard' | 'cash' | 'flat_rate';
+
+export const VAT_STAGGER_LABELS: Record<VatStagger, string> = {
+  1: 'Quarters ending Mar, Jun, Sep, Dec',
+  2: 'Quarters ending Apr, Jul, Oct, Jan',
+  3: 'Quarters ending May, Aug, Nov, Feb',
+};
+
+export const VAT_SCHEME_LABELS: Record<VatScheme, string> = {
+  standard: 'Standard (invoice basis)',
+  cash: 'Cash Accounting',
+  flat_rate: 'Flat Rate Scheme',
+};
+
+// Flat Rate Scheme percentages by business type
+export const FRS_RATES: Record<string, { rate: number; label: string }> = {
+  'general_building': { rate: 9.5, label: 'General building/construction' },
+  'labour_only': { rate: 14.5, label: 'Labour-only building services' },
+  'electrical': { rate: 10.5, label: 'Electrical/plumbing services' },
+  'architect': { rate: 14.5, label: 'Architect/surveying' },
+  'limited_cost': { rate: 16.5, label: 'Limited cost trader' },
+  'other': { rate: 12.0, label: 'Other services' },
+};
+
+// Percentage points off the flat rate in the first year of VAT registration
+export const FRS_FIRST_YEAR_DISCOUNT = 1;
+
+export interface VatSettings {
+  stagger: VatStagger;
+  scheme: VatScheme;
+  flatRateCategory: string;
+  flatRateFirstYear: boolean;
+}
+
+/**
+ * A VAT return period, identified by the date it ends on.
+ */
+export interface VatPeriod {
+  key: string;
+  start: string;
+  end: string;
+  // e.g. 'Feb - Apr 2026'
+  label: string;
+  // One calendar month and seven days after the period ends
+  deadline: string;
+}
+
+// Minimal raw rows the engine reads (snake_case to match the DB)
+
+/**
+ * An invoice or credit note with its stored totals (see getRowTotals).
+ * Credit notes carry negative figures.
+ */
+export interface VatInvoiceRow {
+  id: string;
+  type: string;
+  status: string;
+  date: string;
+  reference_number?: number | null;
+  title?: string | null;
+  subtotal: number;
+  vat: number;
+  total: number;
+  tax_percent?: number | null;
+  reverse_charge?: boolean | null;
+}
+
+export interface VatPaymentRow {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  payment_date: string;
+}
+
+export interface VatExpenseRow {
+  id: string;
+  vendor: string;
+  amount: number;
+  vat_amount: number | null;
+  expense_date: string;
+  category?: string | null;
+  vehicle_id?: string | null;
+  is_reverse_charge?: boolean | null;
+  reverse_charge_vat?: number | null;
+}
+
+export interface VatBillRow {
+  id: string;
+  vendor_name: string;
+  invoice_date: string | null;
+  // Net: the supplier charges no VAT under the reverse charge
+  amount?: number | null;
+  is_reverse_charge?: boolean | null;
+  reverse_charge_vat?: number | null;
+}
+
+// 'fuel' is advisory-rate fuel VAT or the fuel scale charge (see mileage)
+export type VatEntrySource = 'invoice' | 'credit_note' | 'payment' | 'expense' | 'bill' | 'fuel';
+
+/**
+ * One line of the VAT account, dated by the tax point that decides its return.
+ */
+export interface VatEntry {
+  source: VatEntrySource;
+  id: string;
+  // The invoice a payment settles, or the entry's own id
+  documentId: string;
+  date: string;
+  description: string;
+  direction: 'sale' | 'purchase';
+  net: number;
+  vat: number;
+  // VAT-inclusive value - the turnover the Flat Rate Scheme is applied to
+  gross: number;
+  // Sales: VAT the customer accounts for. Purchases: VAT we declare and reclaim.
+  reverseChargeVat: number;
+  category?: string;
+  // Set on a late change to a filed period, carried into a later return (see vatReturn)
+  adjustmentFor?: string;
+}
+
+export interface VatTotals {
+  // Box 1 - sales VAT plus VAT on reverse-charge purchases (flat rate VAT under FRS)
+  outputVat: number;
+  // Box 4 - purchase VAT plus VAT on reverse-charge purchases (nothing under FRS)
+  inputVat: number;
+  // Box 5
+  netVat: number;
+  salesVat: number;
+  purchaseVat: number;
+  reverseChargeVat: number;
+  // Sales invoiced without VAT under the reverse charge, and the VAT their customers account for
+  reverseChargeSales: number;
+  reverseChargeSalesVat: number;
+  netSales: number;
+  netPurchases: number;
+  // Flat rate turnover; reverse-charge sales are outside it
+  grossSales: number;
+  flatRatePercent: number;
+  flatRateVat: number;
+  salesCount: number;
+  purchaseCount: number;
+}
+
+export interface VatPeriodSummary extends VatTotals {
+  period: VatPeriod;
+  entries: VatEntry[];
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const toISO = (year: number, month: number, day: number): string => `${year}-${pad(month)}-${pad(day)}`;
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Add months to a 1-based year/month pair
+const addMonths = (year: number, month: number, count: number): [number, number] => {
+  const index = year * 12 + (month - 1) + count;
+  return [Math.floor(index / 12), (index % 12) + 1];
+};
+
+/**
+ * Read the VAT settings, defaulting to calendar quarters on the standard scheme.
+ */
+export function getVatSettings(
+  settings: Pick<AppSettings, 'vatStagger' | 'vatScheme' | 'vatFlatRateCategory' | 'vatFlatRateFirstYear'>
+): VatSettings {
+  return {
+    stagger: settings.vatStagger || 1,
+    scheme: settings.vatScheme || 'standard',
+    flatRateCategory: settings.vatFlatRateCategory && FRS_RATES[settings.vatFlatRateCategory]
+      ? settings.vatFlatRateCategory
+      : 'general_building',
+    flatRateFirstYear: settings.vatFlatRateFirstYear || false,
+  };
+}
+
+/**
+ * The flat rate percentage that applies, after any first-year discount.
+ */
+export function getFlatRatePercent(vatSettings: VatSettings): number {
+  const rate = FRS_RATES[vatSettings.flatRateCategory]?.rate ?? FRS_RATES.other.rate;
+  return vatSettings.flatRateFirstYear ? rate - FRS_FIRST_YEAR_DISCOUNT : rate;
+}
+
+/**
+ * The VAT period an ISO date falls in for a stagger group.
+ */
+export function getVatPeriod(date: string, stagger: VatStagger): VatPeriod {
+  const [year, month] = date.split('-').map(Number);
+
+  // Quarters end in month stagger + 2, then every three months
+  const monthsToEnd = (((stagger + 2 - month) % 3) + 3) % 3;
+  const [endYear, endMonth] = addMonths(year, month, monthsToEnd);
+  const [startYear, startMonth] = addMonths(endYear, endMonth, -2);
+  const [deadlineYear, deadlineMonth] = addMonths(endYear, endMonth, 2);
+
+  const end = toISO(endYear, endMonth, daysInMonth(endYear, endMonth));
+  return {
+    key: end,
+    start: toISO(startYear, startMonth, 1),
+    end,
+    label: `${MONTHS[startMonth - 1]} - ${MONTHS[endMonth - 1]} ${endYear}`,
+    deadline: toISO(deadlineYear, deadlineMonth, 7),
+  };
+}
+
+/**
+ * Turn invoices, payments, expenses and bills into VAT entries dated by the
+ * tax point the scheme uses.
+ *
+ * Invoice basis: each issued invoice and credit note on its own date.
+ * Cash accounting: each payment received, carrying the share of the invoice's
+ * VAT it settles. Credit notes add no entry of their own there - they reduce
+ * what the customer pays.
+ * Bills only add reverse-charge purchases (their net value and the VAT the
+ * business accounts for); other purchases are reported from expenses.
+ */
+export function buildVatEntries(
+  data: {
+    invoices: VatInvoiceRow[];
+    payments: VatPaymentRow[];
+    expenses: VatExpenseRow[];
+    bills: VatBillRow[];
+  },
+  scheme: VatScheme
+): VatEntry[] {
+  const entries: VatEntry[] = [];
+  const issued = data.invoices.filter(inv =>
+    (inv.type === 'invoice' || inv.type === 'credit_note') && inv.status !== 'draft'
+  );
+
+  const notionalVat = (inv: VatInvoiceRow, net: number): number =>
+    inv.reverse_charge ? net * ((inv.tax_percent ?? 20) / 100) : 0;
+
+  if (scheme === 'cash') {
+    const invoicesById = new Map(issued.filter(inv => inv.type === 'invoice').map(inv => [inv.id, inv]));
+    data.payments.forEach(payment => {
+      const invoice = invoicesById.get(payment.invoice_id);
+      if (!invoice || !(invoice.total > 0)) return;
+      const share = payment.amount / invoice.total;
+      const net = roundCurrency(invoice.subtotal * share);
+      const vat = roundCurrency(invoice.vat * share);
+      entries.push({
+        source: 'payment',
+        id: payment.id,
+        documentId: invoice.id,
+        date: payment.payment_date,
+        description: invoice.title || `Invoice ${invoice.reference_number ?? ''}`.trim(),
+        direction: 'sale',
+        net,
+        vat,
+        gross: roundCurrency(net + vat),
+        reverseChargeVat: roundCurrency(notionalVat(invoice, net)),
+      });
+    });
+  } else {
+    issued.forEach(inv => {
+      entries.push({
+        source: inv.type === 'credit_note' ? 'credit_note' : 'invoice',
+        id: inv.id,
+        documentId: inv.id,
+        date: inv.date,
+        description: inv.title || `Invoice ${inv.reference_number ?? ''}`.trim(),
+        direction: 'sale',
+        net: inv.subtotal,
+        vat: inv.vat,
+        gross: roundCurrency(inv.subtotal + inv.vat),
+        reverseChargeVat: roundCurrency(notionalVat(inv, inv.subtotal)),
+      });
+    });
+  }
+
+  data.expenses.forEach(exp => {
+    const vat = Number(exp.vat_amount) || 0;
+    entries.push({
+      source: 'expense',
+      id: exp.id,
+      documentId: exp.id,
+      date: exp.expense_date,
+      description: exp.vendor,
+      direction: 'purchase',
+      net: exp.amount,
+      vat,
+      gross: roundCurrency(exp.amount + vat),
+      reverseChargeVat: exp.is_reverse_charge ? Number(exp.reverse_charge_vat) || 0 : 0,
+      category: exp.category || undefined,
+    });
+  });
+
+  data.bills.forEach(bill => {
+    if (!bill.is_reverse_charge || !bill.invoice_date) return;
+    entries.push({
+      source: 'bill',
+      id: bill.id,
+      documentId: bill.id,
+      date: bill.invoice_date,
+      description: bill.vendor_name,
+      direction: 'purchase',
+      net: Number(bill.amount) || 0,
+      vat: 0,
+      gross: Number(bill.amount) || 0,
+      reverseChargeVat: Number(bill.reverse_charge_vat) || 0,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Total a set of VAT entries under the configured scheme.
+ */
+export function totalVatEntries(entries: VatEntry[], vatSettings: VatSettings): VatTotals {
+  const sales = entries.filter(e => e.direction === 'sale');
+  // Late changes to a filed return are not new documents
+  const documents = entries.filter(e => !e.adjustmentFor);
+  const purchases = entries.filter(e => e.direction === 'purchase');
+  const sum = (list: VatEntry[], pick: (e: VatEntry) => number) => roundCurrency(list.reduce((total, e) => total + pick(e), 0));
+
+  const salesVat = sum(sales, e => e.vat);
+  const purchaseVat = sum(purchases, e => e.vat);
+  const reverseChargeVat = sum(purchases, e => e.reverseChargeVat);
+  const reverseChargeSales = sales.filter(e => e.reverseChargeVat !== 0);
+  const grossSales = sum(sales.filter(e => e.reverseChargeVat === 0), e => e.gross);
+  const flatRatePercent = getFlatRatePercent(vatSettings);
+  const flatRateVat = roundCurrency(grossSales * (flatRatePercent / 100));
+
+  // Flat rate users declare reverse-charge VAT outside the scheme and cannot reclaim it
+  const outputVat = vatSettings.scheme === 'flat_rate'
+    ? roundCurrency(flatRateVat + reverseChargeVat)
+    : roundCurrency(salesVat + reverseChargeVat);
+  const inputVat = vatSettings.scheme === 'flat_rate' ? 0 : roundCurrency(purchaseVat + reverseChargeVat);
+
+  return {
+    outputVat,
+    inputVat,
+    netVat: roundCurrency(outputVat - inputVat),
+    salesVat,
+    purchaseVat,
+    reverseChargeVat,
+    reverseChargeSales: sum(reverseChargeSales, e => e.net),
+    reverseChargeSalesVat: sum(reverseChargeSales, e => e.reverseChargeVat),
+    netSales: sum(sales, e => e.net),
+    netPurchases: sum(purchases, e => e.net),
+    grossSales,
+    flatRatePercent,
+    flatRateVat,
+    salesCount: documents.filter(e => e.direction === 'sale' && e.source !== 'credit_note' && e.source !== 'fuel').length,
+    purchaseCount: documents.filter(e => e.source === 'expense').length,
+  };
+}
+
+/**
+ * Assign every entry to its VAT return and total each one, latest period first.
+ */
+export function summariseVatPeriods(entries: VatEntry[], vatSettings: VatSettings): VatPeriodSummary[] {
+  const byPeriod = new Map<string, { period: VatPeriod; entries: VatEntry[] }>();
+
+  entries.forEach(entry => {
+    const period = getVatPeriod(entry.date, vatSettings.stagger);
+    const existing = byPeriod.get(period.key) || { period, entries: [] };
+    existing.entries.push(entry);
+    byPeriod.set(period.key, existing);
+  });
+
+  return Array.from(byPeriod.values())
+    .sort((a, b) => b.period.key.localeCompare(a.period.key))
+    .map(({ period, entries: periodEntries }) => ({
+      period,
+      entries: periodEntries,
+      ...totalVatEntries(periodEntries, vatSettings),
+    }));
+}
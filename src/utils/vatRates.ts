@@ -0,0 +1,72 @@
+import type { Quote, VatRateCode } from '../../types';
+
+/**
+ * UK VAT rate codes for document lines and purchases.
+ *
+ * The standard rate is the document's own taxPercent (20% unless changed),
+ * so existing single-rate documents keep their figures.
+ */
+
+export const VAT_RATE_CODES: VatRateCode[] = ['standard', 'reduced', 'zero', 'exempt'];
+
+export const REDUCED_VAT_RATE = 5;
+
+export const VAT_RATE_LABELS: Record<VatRateCode, string> = {
+  standard: 'Standard',
+  reduced: 'Reduced 5%',
+  zero: 'Zero-rated',
+  exempt: 'Exempt',
+};
+
+/**
+ * Net value and VAT charged at one rate on a document.
+ */
+export interface VatRateBand {
+  code: VatRateCode;
+  ratePercent: number;
+  net: number;
+  vat: number;
+}
+
+/**
+ * The percentage a rate code charges, given the document's standard rate.
+ */
+export function getVatRatePercent(code: VatRateCode | undefined, standardRate: number): number {
+  switch (code) {
+    case 'reduced':
+      return REDUCED_VAT_RATE;
+    case 'zero':
+    case 'exempt':
+      return 0;
+    default:
+      return standardRate || 0;
+  }
+}
+
+/**
+ * Whether a document needs a VAT analysis table: more than one rate, or a
+ * single rate other than standard.
+ */
+export function hasMixedVatRates(bands: VatRateBand[]): boolean {
+  return bands.length > 1 || (bands.length === 1 && bands[0].code !== 'standard');
+}
+
+/**
+ * Label for the VAT line in a document's totals.
+ */
+export function getVatLabel(quote: Pick<Quote, 'reverseCharge' | 'taxPercent'>, bands: VatRateBand[]): string {
+  if (quote.reverseCharge) return 'VAT (reverse charge)';
+  if (hasMixedVatRates(bands)) {
+    return bands.length === 1 ? `VAT (${bands[0].ratePercent}%)` : 'VAT';
+  }
+  return `VAT (${quote.taxPercent}%)`;
+}
+
+/**
+ * Display name for a band, e.g. "Standard 20%" or "Exempt".
+ */
+export function formatVatBand(band: Pick<VatRateBand, 'code' | 'ratePercent'>): string {
+  if (band.code === 'standard') return `Standard ${band.ratePercent}%`;
+  if (band.code === 'zero') return 'Zero-rated 0%';
+  return VAT_RATE_LABELS[band.code];
+}
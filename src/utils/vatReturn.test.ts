@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildVatReturnBoxes,
+  isDateInFiledPeriod,
+  applyFiledReturns,
+  prepareVatReturn,
+  toFiledVatReturn,
+  toVatReturnRow,
+  type FiledVatReturn,
+} from './vatReturn';
+import {
+  buildVatEntries,
+  totalVatEntries,
+  summariseVatPeriods,
+  getVatPeriod,
+  type VatEntry,
+  type VatSettings,
+} from './vatPeriods';
+
+const standard: VatSettings = { stagger: 1, scheme: 'standard', flatRateCategory: 'general_building', flatRateFirstYear: false };
+
+const expense = (id: string, date: string, amount: number, vat: number) => ({
+  id, vendor: `Vendor ${id}`, amount, vat_amount: vat, expense_date: date, category: 'materials',
+});
+
+const invoices = [
+  { id: 'inv-1', type: 'invoice', status: 'sent', date: '2026-02-10', subtotal: 1000.6, vat: 200.12, total: 1200.72 },
+];
+const expenses = [expense('exp-1', '2026-03-01', 250, 50)];
+
+const entriesFor = (expenseRows: ReturnType<typeof expense>[]): VatEntry[] =>
+  buildVatEntries({ invoices, payments: [], expenses: expenseRows, bills: [] }, 'standard');
+
+// File Jan - Mar 2026 as it stood with the original data
+const fileFirstQuarter = (): FiledVatReturn => ({
+  id: 'return-1',
+  submittedAt: '2026-04-20T09:00:00Z',
+  ...prepareVatReturn(getVatPeriod('2026-03-31', 1), entriesFor(expenses), standard),
+});
+
+describe('buildVatReturnBoxes', () => {
+  it('fills all nine boxes, with whole pounds in boxes 6 to 9', () => {
+    const boxes = buildVatReturnBoxes(totalVatEntries(entriesFor(expenses), standard), 'standard');
+
+    expect(boxes).toEqual({
+      vatDueSales: 200.12,
+      vatDueAcquisitions: 0,
+      totalVatDue: 200.12,
+      vatReclaimedCurrPeriod: 50,
+      netVatDue: 150.12,
+      totalValueSalesExVAT: 1000,
+      totalValuePurchasesExVAT: 250,
+      totalValueGoodsSuppliedExVAT: 0,
+      totalAcquisitionsExVAT: 0,
+    });
+  });
+
+  it('reports a repayment as a positive box 5', () => {
+    const entries = buildVatEntries({ invoices: [], payments: [], expenses, bills: [] }, 'standard');
+    expect(buildVatReturnBoxes(totalVatEntries(entries, standard), 'standard').netVatDue).toBe(50);
+  });
+
+  it('reports VAT-inclusive turnover in box 6 under the Flat Rate Scheme', () => {
+    const flatRate: VatSettings = { ...standard, scheme: 'flat_rate' };
+    const entries = buildVatEntries({
+      invoices: [
+        ...invoices,
+        { id: 'inv-2', type: 'invoice', status: 'sent', date: '2026-02-12', subtotal: 500, vat: 0, total: 500, reverse_charge: true, tax_percent: 20 },
+      ],
+      payments: [],
+      expenses,
+      bills: [],
+    }, 'flat_rate');
+    const boxes = buildVatReturnBoxes(totalVatEntries(entries, flatRate), 'flat_rate');
+
+    // £1,200.72 flat rate turnover plus the £500 reverse-charge sale
+    expect(boxes.totalValueSalesExVAT).toBe(1700);
+    expect(boxes.vatReclaimedCurrPeriod).toBe(0);
+  });
+
+  it('includes reverse-charge bills in box 7', () => {
+    const entries = buildVatEntries({
+      invoices: [],
+      payments: [],
+      expenses,
+      bills: [{ id: 'bill-1', vendor_name: 'Sub Ltd', invoice_date: '2026-03-05', amount: 1000, is_reverse_charge: true, reverse_charge_vat: 200 }],
+    }, 'standard');
+    const boxes = buildVatReturnBoxes(totalVatEntries(entries, standard), 'standard');
+
+    expect(boxes.totalValuePurchasesExVAT).toBe(1250);
+    expect(boxes.vatDueSales).toBe(200);
+    expect(boxes.vatReclaimedCurrPeriod).toBe(250);
+  });
+});
+
+describe('prepareVatReturn', () => {
+  it('only takes entries from its own period', () => {
+    const prepared = prepareVatReturn(
+      getVatPeriod('2026-03-31', 1),
+      entriesFor([...expenses, expense('exp-2', '2026-04-02', 100, 20)]),
+      standard
+    );
+
+    expect(prepared).toMatchObject({ periodKey: '2026-03-31', periodStart: '2026-01-01', periodEnd: '2026-03-31' });
+    expect(prepared.entries.map(e => e.id)).toEqual(['inv-1', 'exp-1']);
+  });
+
+  it('round-trips through a vat_returns row', () => {
+    const filed = fileFirstQuarter();
+    const row = { ...toVatReturnRow(filed), id: filed.id, submitted_at: filed.submittedAt };
+
+    expect(toFiledVatReturn(row)).toEqual(filed);
+  });
+});
+
+describe('isDateInFiledPeriod', () => {
+  it('checks the filed period range', () => {
+    const filed = [fileFirstQuarter()];
+    expect(isDateInFiledPeriod('2026-03-31', filed)).toBe(true);
+    expect(isDateInFiledPeriod('2026-04-01', filed)).toBe(false);
+  });
+});
+
+describe('applyFiledReturns', () => {
+  const quarters = (entries: VatEntry[]) =>
+    summariseVatPeriods(entries, standard).map(s => [s.period.key, s.outputVat, s.inputVat]);
+
+  it('leaves entries alone when nothing has changed', () => {
+    const entries = applyFiledReturns(entriesFor(expenses), [fileFirstQuarter()], 1);
+    expect(quarters(entries)).toEqual([['2026-03-31', 200.12, 50]]);
+  });
+
+  it('carries an expense added to a filed period into the next return', () => {
+    const late = expense('exp-2', '2026-03-15', 100, 20);
+    const entries = applyFiledReturns(entriesFor([...expenses, late]), [fileFirstQuarter()], 1);
+    const adjustment = entries.find(e => e.adjustmentFor);
+
+    expect(quarters(entries)).toEqual([
+      ['2026-06-30', 0, 20],
+      ['2026-03-31', 200.12, 50],
+    ]);
+    expect(adjustment).toMatchObject({ id: 'exp-2', date: '2026-04-01', adjustmentFor: '2026-03-31', description: 'Adjustment to Jan - Mar 2026: Vendor exp-2' });
+  });
+
+  it('adjusts by the difference when a filed document is edited', () => {
+    const entries = applyFiledReturns(entriesFor([expense('exp-1', '2026-03-01', 300, 60)]), [fileFirstQuarter()], 1);
+    expect(entries.find(e => e.adjustmentFor)).toMatchObject({ net: 50, vat: 10 });
+  });
+
+  it('reverses a filed document that has since been deleted', () => {
+    const entries = applyFiledReturns(entriesFor([]), [fileFirstQuarter()], 1);
+    expect(entries.find(e => e.adjustmentFor)).toMatchObject({ id: 'exp-1', net: -250, vat: -50 });
+  });
+
+  it('skips filed periods and counts adjustments already filed', () => {
+    const late = expense('exp-2', '2026-03-15', 100, 20);
+    const first = fileFirstQuarter();
+    const withLate = applyFiledReturns(entriesFor([...expenses, late]), [first], 1);
+    const second: FiledVatReturn = {
+      id: 'return-2',
+      submittedAt: '2026-07-20T09:00:00Z',
+      ...prepareVatReturn(getVatPeriod('2026-06-30', 1), withLate, standard),
+    };
+
+    // Already reported in Apr - Jun: nothing more to carry
+    expect(applyFiledReturns(entriesFor([...expenses, late]), [second, first], 1).filter(e => e.adjustmentFor)).toHaveLength(1);
+
+    // A later edit lands in Jul - Sep, the next open period
+    const edited = applyFiledReturns(entriesFor([...expenses, { ...late, amount: 150, vat_amount: 30 }]), [second, first], 1);
+    expect(edited.filter(e => e.adjustmentFor).map(e => [e.date, e.vat])).toEqual([
+      ['2026-04-01', 20],
+      ['2026-07-01', 10],
+    ]);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Nine-box VAT returns and the periods they lock once filed.
+ *
+ * A filed return keeps a snapshot of the entries it was built from. Anything
+ * dated inside a filed period that has changed since - a new expense, an
+ * edited invoice, a deleted credit note - is carried into the next open
+ * period as an adjustment, so filed figures never move.
+ */
+
+import {
+  getVatPeriod,
+  totalVatEntries,
+  type VatEntry,
+  type VatPeriod,
+  type VatSettings,
+  type VatScheme,
+  type VatStagger,
+  type VatTotals,
+} from './vatPeriods';
+
+/**
+ * The nine boxes of an HMRC VAT return. Boxes 6 to 9 are whole pounds.
+ */
+export interface VatReturnBoxes {
+  // Box 1 - VAT due on sales and other outputs
+  vatDueSales: number;
+  // Box 2 - VAT due on acquisitions of goods from the EU (Northern Ireland only)
+  vatDueAcquisitions: number;
+  // Box 3 - boxes 1 and 2
+  totalVatDue: number;
+  // Box 4 - VAT reclaimed on purchases and other inputs
+  vatReclaimedCurrPeriod: number;
+  // Box 5 - difference between boxes 3 and 4, always positive
+  netVatDue: number;
+  // Box 6 - sales and other outputs excluding VAT
+  totalValueSalesExVAT: number;
+  // Box 7 - purchases and other inputs excluding VAT
+  totalValuePurchasesExVAT: number;
+  // Box 8 - goods supplied to the EU excluding VAT
+  totalValueGoodsSuppliedExVAT: number;
+  // Box 9 - goods acquired from the EU excluding VAT
+  totalAcquisitionsExVAT: number;
+}
+
+export const VAT_RETURN_BOX_LABELS: Record<keyof VatReturnBoxes, string> = {
+  vatDueSales: 'Box 1 - VAT due on sales',
+  vatDueAcquisitions: 'Box 2 - VAT due on EU acquisitions',
+  totalVatDue: 'Box 3 - Total VAT due',
+  vatReclaimedCurrPeriod: 'Box 4 - VAT reclaimed on purchases',
+  netVatDue: 'Box 5 - Net VAT to pay or reclaim',
+  totalValueSalesExVAT: 'Box 6 - Total sales excluding VAT',
+  totalValuePurchasesExVAT: 'Box 7 - Total purchases excluding VAT',
+  totalValueGoodsSuppliedExVAT: 'Box 8 - Goods supplied to the EU',
+  totalAcquisitionsExVAT: 'Box 9 - Goods acquired from the EU',
+};
+
+/**
+ * A return that has been filed for a period. Its entries are the snapshot
+ * the boxes were calculated from.
+ */
+export interface FiledVatReturn {
+  id: string;
+  periodKey: string;
+  periodStart: string;
+  periodEnd: string;
+  boxes: VatReturnBoxes;
+  entries: VatEntry[];
+  submittedAt: string;
+  // HMRC receipt when submitted through Making Tax Digital
+  hmrcFormBundleNumber?: string;
+  hmrcChargeRefNumber?: string;
+}
+
+// A vat_returns row: one column per box, entries as JSON
+export interface VatReturnRow {
+  id: string;
+  period_key: string;
+  period_start: string;
+  period_end: string;
+  vat_due_sales: number;
+  vat_due_acquisitions: number;
+  total_vat_due: number;
+  vat_reclaimed_curr_period: number;
+  net_vat_due: number;
+  total_value_sales_ex_vat: number;
+  total_value_purchases_ex_vat: number;
+  total_value_goods_supplied_ex_vat: number;
+  total_acquisitions_ex_vat: number;
+  entries: unknown;
+  submitted_at: string | null;
+  hmrc_form_bundle_number?: string | null;
+  hmrc_charge_ref_number?: string | null;
+}
+
+/**
+ * Map a vat_returns row to the app shape.
+ */
+export function toFiledVatReturn(row: VatReturnRow): FiledVatReturn {
+  return {
+    id: row.id,
+    periodKey: row.period_key,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    boxes: {
+      vatDueSales: Number(row.vat_due_sales),
+      vatDueAcquisitions: Number(row.vat_due_acquisitions),
+      totalVatDue: Number(row.total_vat_due),
+      vatReclaimedCurrPeriod: Number(row.vat_reclaimed_curr_period),
+      netVatDue: Number(row.net_vat_due),
+      totalValueSalesExVAT: Number(row.total_value_sales_ex_vat),
+      totalValuePurchasesExVAT: Number(row.total_value_purchases_ex_vat),
+      totalValueGoodsSuppliedExVAT: Number(row.total_value_goods_supplied_ex_vat),
+      totalAcquisitionsExVAT: Number(row.total_acquisitions_ex_vat),
+    },
+    entries: Array.isArray(row.entries) ? (row.entries as VatEntry[]) : [],
+    submittedAt: row.submitted_at || '',
+    hmrcFormBundleNumber: row.hmrc_form_bundle_number || undefined,
+    hmrcChargeRefNumber: row.hmrc_charge_ref_number || undefined,
+  };
+}
+
+/**
+ * The vat_returns columns for a prepared return.
+ */
+export function toVatReturnRow(
+  prepared: Omit<FiledVatReturn, 'id' | 'submittedAt'>
+): Omit<VatReturnRow, 'id' | 'submitted_at' | 'hmrc_form_bundle_number' | 'hmrc_charge_ref_number'> {
+  const { boxes } = prepared;
+  return {
+    period_key: prepared.periodKey,
+    period_start: prepared.periodStart,
+    period_end: prepared.periodEnd,
+    vat_due_sales: boxes.vatDueSales,
+    vat_due_acquisitions: boxes.vatDueAcquisitions,
+    total_vat_due: boxes.totalVatDue,
+    vat_reclaimed_curr_period: boxes.vatReclaimedCurrPeriod,
+    net_vat_due: boxes.netVatDue,
+    total_value_sales_ex_vat: boxes.totalValueSalesExVAT,
+    total_value_purchases_ex_vat: boxes.totalValuePurchasesExVAT,
+    total_value_goods_supplied_ex_vat: boxes.totalValueGoodsSuppliedExVAT,
+    total_acquisitions_ex_vat: boxes.totalAcquisitionsExVAT,
+    entries: prepared.entries,
+  };
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// HMRC drops the pence from boxes 6 to 9
+const wholePounds = (value: number): number => Math.trunc(value);
+
+/**
+ * Fill the nine boxes from a period's totals.
+ *
+ * Box 6 under the Flat Rate Scheme is the VAT-inclusive flat rate turnover
+ * plus reverse-charge sales, which sit outside the scheme. Goods trade with
+ * the EU (boxes 2, 8 and 9) only applies to Northern Ireland businesses and
+ * is not recorded, so those boxes are always zero.
+ */
+export function buildVatReturnBoxes(totals: VatTotals, scheme: VatScheme): VatReturnBoxes {
+  const vatDueSales = roundCurrency(totals.outputVat);
+  const vatDueAcquisitions = 0;
+  const totalVatDue = roundCurrency(vatDueSales + vatDueAcquisitions);
+  const vatReclaimedCurrPeriod = roundCurrency(totals.inputVat);
+
+  return {
+    vatDueSales,
+    vatDueAcquisitions,
+    totalVatDue,
+    vatReclaimedCurrPeriod,
+    netVatDue: roundCurrency(Math.abs(totalVatDue - vatReclaimedCurrPeriod)),
+    totalValueSalesExVAT: wholePounds(scheme === 'flat_rate' ? totals.grossSales + totals.reverseChargeSales : totals.netSales),
+    totalValuePurchasesExVAT: wholePounds(totals.netPurchases),
+    totalValueGoodsSuppliedExVAT: 0,
+    totalAcquisitionsExVAT: 0,
+  };
+}
+
+/**
+ * Whether a date falls inside a period that has already been filed.
+ */
+export function isDateInFiledPeriod(date: string, filedReturns: Pick<FiledVatReturn, 'periodStart' | 'periodEnd'>[]): boolean {
+  return filedReturns.some(r => date >= r.periodStart && date <= r.periodEnd);
+}
+
+// The first period after `period` that has not been filed
+const nextOpenPeriod = (period: VatPeriod, filedKeys: Set<string>, stagger: VatStagger): VatPeriod => {
+  let next = period;
+  do {
+    const [year, month] = next.end.split('-').map(Number);
+    const nextMonth = month === 12 ? `${year + 1}-01-01` : `${year}-${String(month + 1).padStart(2, '0')}-01`;
+    next = getVatPeriod(nextMonth, stagger);
+  } while (filedKeys.has(next.key));
+  return next;
+};
+
+const entryKey = (entry: Pick<VatEntry, 'source' | 'id'>): string => `${entry.source}:${entry.id}`;
+
+type Amounts = Pick<VatEntry, 'net' | 'vat' | 'gross' | 'reverseChargeVat'>;
+
+const AMOUNT_FIELDS: (keyof Amounts)[] = ['net', 'vat', 'gross', 'reverseChargeVat'];
+
+/**
+ * Freeze filed periods.
+ *
+ * Entries in a filed period are swapped for the filed snapshot. Any
+ * difference between the live entry and what has been reported for it so
+ * far (the snapshot plus adjustments already filed) is moved into the next
+ * open period as an adjustment dated on its first day.
+ */
+export function applyFiledReturns(
+  entries: VatEntry[],
+  filedReturns: FiledVatReturn[],
+  stagger: VatStagger
+): VatEntry[] {
+  if (filedReturns.length === 0) return entries;
+
+  const filedKeys = new Set(filedReturns.map(r => r.periodKey));
+  const result: VatEntry[] = [];
+  // Per filed period and entry: the live entry and the amounts reported so far
+  const tracked = new Map<string, { period: VatPeriod; entry: VatEntry; live: boolean; reported: Amounts }>();
+
+  const track = (periodKey: string, entry: VatEntry) => {
+    const key = `${periodKey}|${entryKey(entry)}`;
+    const existing = tracked.get(key);
+    if (existing) return existing;
+    const created = {
+      period: getVatPeriod(periodKey, stagger),
+      entry,
+      live: false,
+      reported: { net: 0, vat: 0, gross: 0, reverseChargeVat: 0 },
+    };
+    tracked.set(key, created);
+    return created;
+  };
+
+  filedReturns.forEach(filed => {
+    filed.entries.forEach(snapshot => {
+      result.push(snapshot);
+      const item = track(snapshot.adjustmentFor || filed.periodKey, snapshot);
+      AMOUNT_FIELDS.forEach(field => {
+        item.reported[field] = roundCurrency(item.reported[field] + snapshot[field]);
+      });
+    });
+  });
+
+  entries.forEach(entry => {
+    const period = getVatPeriod(entry.date, stagger);
+    if (!filedKeys.has(period.key)) {
+      result.push(entry);
+      return;
+    }
+    const item = track(period.key, entry);
+    item.entry = entry;
+    item.live = true;
+  });
+
+  tracked.forEach(({ period, entry, live, reported }) => {
+    // Deleted since filing: everything reported is reversed
+    const delta = (field: keyof Amounts) => roundCurrency((live ? entry[field] : 0) - reported[field]);
+    if (AMOUNT_FIELDS.every(field => delta(field) === 0)) return;
+
+    result.push({
+      ...entry,
+      date: nextOpenPeriod(period, filedKeys, stagger).start,
+      description: `Adjustment to ${period.label}: ${entry.description.replace(/^Adjustment to [^:]+: /, '')}`,
+      net: delta('net'),
+      vat: delta('vat'),
+      gross: delta('gross'),
+      reverseChargeVat: delta('reverseChargeVat'),
+      adjustmentFor: period.key,
+    });
+  });
+
+  return result;
+}
+
+/**
+ * Build the return for one period from its entries, ready to file.
+ */
+export function prepareVatReturn(
+  period: VatPeriod,
+  entries: VatEntry[],
+  vatSettings: VatSettings
+): Omit<FiledVatReturn, 'id' | 'submittedAt'> {
+  const periodEntries = entries.filter(e => getVatPeriod(e.date, vatSettings.stagger).key === period.key);
+  return {
+    periodKey: period.key,
+    periodStart: period.start,
+    periodEnd: period.end,
+    boxes: buildVatReturnBoxes(totalVatEntries(periodEntries, vatSettings), vatSettings.scheme),
+    entries: periodEntries,
+  };
+}
@@ -0,0 +1,208 @@
+// HMRC Making Tax Digital VAT API (v1.0).
+// Plain fetch only, so the same client runs in the mtd-vat edge function
+// (Deno) and against the fake HMRC server in the integration tests (Node).
+
+export const HMRC_BASE_URLS = {
+  sandbox: 'https://test-api.service.hmrc.gov.uk',
+  live: 'https://api.service.hmrc.gov.uk',
+} as const;
+
+export const MTD_VAT_SCOPES = 'read:vat write:vat';
+
+export interface HmrcOAuthConfig {
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+}
+
+export interface HmrcTokens {
+  accessToken: string;
+  refreshToken: string;
+  // ISO timestamp
+  expiresAt: string;
+  scope: string;
+}
+
+// O = open, F = fulfilled
+export interface VatObligation {
+  periodKey: string;
+  start: string;
+  end: string;
+  due: string;
+  status: 'O' | 'F';
+  received?: string;
+}
+
+// The nine boxes as HMRC names them, plus the declaration
+export interface MtdVatReturnBody {
+  periodKey: string;
+  vatDueSales: number;
+  vatDueAcquisitions: number;
+  totalVatDue: number;
+  vatReclaimedCurrPeriod: number;
+  netVatDue: number;
+  totalValueSalesExVAT: number;
+  totalValuePurchasesExVAT: number;
+  totalValueGoodsSuppliedExVAT: number;
+  totalAcquisitionsExVAT: number;
+  finalised: boolean;
+}
+
+export interface VatSubmissionReceipt {
+  processingDate: string;
+  formBundleNumber: string;
+  paymentIndicator?: 'DD' | 'BANK';
+  chargeRefNumber?: string;
+}
+
+export interface VatLiability {
+  taxPeriod?: { from: string; to: string };
+  type: string;
+  originalAmount: number;
+  outstandingAmount?: number;
+  due?: string;
+}
+
+/**
+ * The VAT endpoints the app uses. HmrcMtdVatClient talks to HMRC (or the
+ * fake server in tests); anything else implementing this can stand in.
+ */
+export interface MtdVatClient {
+  getObligations(vrn: string, query: { from: string; to: string; status?: 'O' | 'F' }): Promise<VatObligation[]>;
+  submitReturn(vrn: string, body: MtdVatReturnBody): Promise<VatSubmissionReceipt>;
+  getLiabilities(vrn: string, query: { from: string; to: string }): Promise<VatLiability[]>;
+}
+
+export class HmrcApiError extends Error {
+  constructor(message: string, public status: number, public code?: string) {
+    super(message);
+    this.name = 'HmrcApiError';
+  }
+}
+
+const ACCEPT = 'application/vnd.hmrc.1.0+json';
+
+async function readError(response: Response): Promise<HmrcApiError> {
+  let code: string | undefined;
+  let message = `HMRC request failed (${response.status})`;
+  try {
+    const body = await response.json();
+    code = body.code || body.error;
+    message = body.message || body.error_description || message;
+  } catch {
+    // Not JSON - keep the generic message
+  }
+  return new HmrcApiError(message, response.status, code);
+}
+
+/**
+ * The HMRC sign-in page the user grants access on.
+ */
+export function buildAuthorizeUrl(config: HmrcOAuthConfig, state: string): string {
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    scope: MTD_VAT_SCOPES,
+    state,
+    redirect_uri: config.redirectUri,
+  });
+  return `${config.baseUrl}/oauth/authorize?${params.toString()}`;
+}
+
+async function requestTokens(config: HmrcOAuthConfig, grant: Record<string, string>): Promise<HmrcTokens> {
+  const response = await fetch(`${config.baseUrl}/oauth/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      client_secret: config.clientSecret,
+      ...grant,
+    }).toString(),
+  });
+  if (!response.ok) throw await readError(response);
+
+  const body = await response.json();
+  return {
+    accessToken: body.access_token,
+    refreshToken: body.refresh_token,
+    expiresAt: new Date(Date.now() + Number(body.expires_in) * 1000).toISOString(),
+    scope: body.scope || MTD_VAT_SCOPES,
+  };
+}
+
+/**
+ * Swap the code HMRC redirected back with for tokens.
+ */
+export function exchangeAuthorizationCode(config: HmrcOAuthConfig, code: string): Promise<HmrcTokens> {
+  return requestTokens(config, { grant_type: 'authorization_code', code, redirect_uri: config.redirectUri });
+}
+
+export function refreshAccessToken(config: HmrcOAuthConfig, refreshToken: string): Promise<HmrcTokens> {
+  return requestTokens(config, { grant_type: 'refresh_token', refresh_token: refreshToken });
+}
+
+/**
+ * Whether tokens are expired, or will be within a minute.
+ */
+export function isTokenExpired(tokens: Pick<HmrcTokens, 'expiresAt'>, now: Date = new Date()): boolean {
+  return new Date(tokens.expiresAt).getTime() - now.getTime() < 60_000;
+}
+
+export class HmrcMtdVatClient implements MtdVatClient {
+  /**
+   * @param baseUrl - HMRC API host (see HMRC_BASE_URLS)
+   * @param getAccessToken - returns a valid access token, refreshing it if needed
+   * @param fraudPreventionHeaders - Gov-Client-* and Gov-Vendor-* headers HMRC requires on every call
+   */
+  constructor(
+    private baseUrl: string,
+    private getAccessToken: () => Promise<string>,
+    private fraudPreventionHeaders: Record<string, string> = {}
+  ) {}
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: ACCEPT,
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...this.fraudPreventionHeaders,
+      },
+    });
+    if (!response.ok) throw await readError(response);
+    return response.json() as Promise<T>;
+  }
+
+  async getObligations(vrn: string, query: { from: string; to: string; status?: 'O' | 'F' }): Promise<VatObligation[]> {
+    const params = new URLSearchParams({ from: query.from, to: query.to });
+    if (query.status) params.set('status', query.status);
+    const body = await this.request<{ obligations: VatObligation[] }>(
+      `/organisations/vat/${encodeURIComponent(vrn)}/obligations?${params.toString()}`
+    );
+    return body.obligations || [];
+  }
+
+  submitReturn(vrn: string, body: MtdVatReturnBody): Promise<VatSubmissionReceipt> {
+    return this.request<VatSubmissionReceipt>(`/organisations/vat/${encodeURIComponent(vrn)}/returns`, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+  }
+
+  async getLiabilities(vrn: string, query: { from: string; to: string }): Promise<VatLiability[]> {
+    const params = new URLSearchParams({ from: query.from, to: query.to });
+    const body = await this.request<{ liabilities: VatLiability[] }>(
+      `/organisations/vat/${encodeURIComponent(vrn)}/liabilities?${params.toString()}`
+    );
+    return body.liabilities || [];
+  }
+}
+
+/**
+ * HMRC expects a bare nine-digit VRN, without the GB prefix or spaces.
+ */
+export function normaliseVrn(vatNumber: string): string {
+  return vatNumber.replace(/\s/g, '').replace(/^GB/i, '');
+}
@@ -0,0 +1,336 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+import {
+  HMRC_BASE_URLS,
+  HmrcApiError,
+  HmrcMtdVatClient,
+  buildAuthorizeUrl,
+  exchangeAuthorizationCode,
+  isTokenExpired,
+  normaliseVrn,
+  refreshAccessToken,
+  type HmrcOAuthConfig,
+  type MtdVatReturnBody,
+} from "../_shared/mtdVatClient.ts";
+
+// Making Tax Digital for VAT on behalf of the signed-in user.
+// POST { action, ... } with the user's Supabase JWT. HMRC redirects the
+// browser back to GET ?code=&state= after sign-in, without a JWT - the
+// pending oauth_state identifies the user - so deploy with --no-verify-jwt.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const VENDOR_PRODUCT_NAME = 'TradeSync';
+const VENDOR_VERSION = 'TradeSync=1.0.0';
+
+class MtdError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// HMRC_BASE_URL overrides the environment, e.g. to point at a local stand-in
+const hmrcConfig: HmrcOAuthConfig = {
+  baseUrl: Deno.env.get('HMRC_BASE_URL')
+    || (Deno.env.get('HMRC_ENVIRONMENT') === 'live' ? HMRC_BASE_URLS.live : HMRC_BASE_URLS.sandbox),
+  clientId: Deno.env.get('HMRC_CLIENT_ID') || '',
+  clientSecret: Deno.env.get('HMRC_CLIENT_SECRET') || '',
+  redirectUri: Deno.env.get('HMRC_REDIRECT_URI') || '',
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+async function getUser(req: Request) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new MtdError('Missing authorization header', 401);
+
+  const { data: { user }, error } = await supabaseAdmin.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (error || !user) throw new MtdError('Invalid token', 401);
+  return user;
+}
+
+// A valid access token for the user, refreshed and saved if it has expired
+async function getAccessToken(userId: string): Promise<string> {
+  const { data: row, error } = await supabaseAdmin
+    .from('hmrc_tokens')
+    .select('access_token, refresh_token, expires_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!row?.access_token || !row.refresh_token || !row.expires_at) {
+    throw new MtdError('Not connected to HMRC', 403);
+  }
+
+  if (!isTokenExpired({ expiresAt: row.expires_at })) return row.access_token;
+
+  const tokens = await refreshAccessToken(hmrcConfig, row.refresh_token);
+  const { error: updateError } = await supabaseAdmin
+    .from('hmrc_tokens')
+    .update({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      expires_at: tokens.expiresAt,
+      scope: tokens.scope,
+    })
+    .eq('user_id', userId);
+  if (updateError) throw updateError;
+  return tokens.accessToken;
+}
+
+// Fraud prevention headers: Gov-Client-* collected in the browser, the rest added here.
+// HMRC_VENDOR_PUBLIC_IP is the public IP our servers call HMRC from; without it
+// Gov-Vendor-Public-IP and Gov-Vendor-Forwarded are unavailable and left out.
+// TradeSync has no multi-factor sign-in or licence keys, so those headers are
+// sent empty as HMRC asks.
+function buildFraudPreventionHeaders(req: Request, userId: string, clientHeaders: unknown): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (clientHeaders && typeof clientHeaders === 'object') {
+    Object.entries(clientHeaders as Record<string, unknown>).forEach(([key, value]) => {
+      if (key.startsWith('Gov-Client-') && typeof value === 'string') headers[key] = value;
+    });
+  }
+
+  const publicIp = req.headers.get('x-forwarded-for')?.split(',')[0].trim();
+  const vendorIp = Deno.env.get('HMRC_VENDOR_PUBLIC_IP');
+  return {
+    ...headers,
+    'Gov-Client-Connection-Method': 'WEB_APP_VIA_SERVER',
+    ...(publicIp ? {
+      'Gov-Client-Public-IP': publicIp,
+      'Gov-Client-Public-IP-Timestamp': new Date().toISOString(),
+    } : {}),
+    'Gov-Client-User-IDs': `tradesync=${encodeURIComponent(userId)}`,
+    'Gov-Client-Multi-Factor': '',
+    ...(vendorIp ? { 'Gov-Vendor-Public-IP': vendorIp } : {}),
+    ...(vendorIp && publicIp ? {
+      'Gov-Vendor-Forwarded': `by=${encodeURIComponent(vendorIp)}&for=${encodeURIComponent(publicIp)}`,
+    } : {}),
+    'Gov-Vendor-License-IDs': '',
+    'Gov-Vendor-Product-Name': VENDOR_PRODUCT_NAME,
+    'Gov-Vendor-Version': VENDOR_VERSION,
+  };
+}
+
+function requireVrn(vrn: unknown): string {
+  const normalised = typeof vrn === 'string' ? normaliseVrn(vrn) : '';
+  if (!/^\d{9}$/.test(normalised)) throw new MtdError('A nine-digit VAT registration number is required', 400);
+  return normalised;
+}
+
+function requireDate(value: unknown, name: string): string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new MtdError(`Invalid ${name} date`, 400);
+  return value;
+}
+
+// The vat_returns row the app prepared, as HMRC's submission body
+function toReturnBody(periodKey: string, row: any): MtdVatReturnBody {
+  return {
+    periodKey,
+    vatDueSales: Number(row.vat_due_sales),
+    vatDueAcquisitions: Number(row.vat_due_acquisitions),
+    totalVatDue: Number(row.total_vat_due),
+    vatReclaimedCurrPeriod: Number(row.vat_reclaimed_curr_period),
+    netVatDue: Number(row.net_vat_due),
+    totalValueSalesExVAT: Math.trunc(Number(row.total_value_sales_ex_vat)),
+    totalValuePurchasesExVAT: Math.trunc(Number(row.total_value_purchases_ex_vat)),
+    totalValueGoodsSuppliedExVAT: Math.trunc(Number(row.total_value_goods_supplied_ex_vat)),
+    totalAcquisitionsExVAT: Math.trunc(Number(row.total_acquisitions_ex_vat)),
+    finalised: true,
+  };
+}
+
+type Action = (data: any, req: Request, userId: string) => Promise<unknown>;
+
+// Where the browser may go back to after HMRC: a path on the app, or a full
+// URL on SITE_URL's origin. Anything else is dropped so the callback can't
+// be used as an open redirect.
+function safeReturnUrl(returnUrl: unknown): string | null {
+  if (typeof returnUrl !== 'string' || !returnUrl) return null;
+  if (/^\/(?![\/\\])/.test(returnUrl)) return returnUrl;
+
+  const siteUrl = Deno.env.get('SITE_URL');
+  if (!siteUrl) return null;
+  try {
+    return new URL(returnUrl).origin === new URL(siteUrl).origin ? returnUrl : null;
+  } catch {
+    return null;
+  }
+}
+
+const actions: Record<string, Action> = {
+  async status(_data, _req, userId) {
+    const { data: row, error } = await supabaseAdmin
+      .from('hmrc_tokens')
+      .select('refresh_token, connected_at')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return { connected: Boolean(row?.refresh_token), connectedAt: row?.connected_at || null };
+  },
+
+  // Start the OAuth journey; the browser is sent to the returned URL
+  async authorize({ returnUrl }, _req, userId) {
+    const state = crypto.randomUUID();
+    const { error } = await supabaseAdmin
+      .from('hmrc_tokens')
+      .upsert({ user_id: userId, oauth_state: state, return_url: safeReturnUrl(returnUrl) }, { onConflict: 'user_id' });
+    if (error) throw error;
+    return { url: buildAuthorizeUrl(hmrcConfig, state) };
+  },
+
+  async disconnect(_data, _req, userId) {
+    const { error } = await supabaseAdmin.from('hmrc_tokens').delete().eq('user_id', userId);
+    if (error) throw error;
+    return { connected: false };
+  },
+
+  async obligations({ vrn, from, to, status }, req, userId) {
+    const client = new HmrcMtdVatClient(hmrcConfig.baseUrl, () => getAccessToken(userId), buildFraudPreventionHeaders(req, userId, null));
+    const obligations = await client.getObligations(requireVrn(vrn), {
+      from: requireDate(from, 'from'),
+      to: requireDate(to, 'to'),
+      status: status === 'O' || status === 'F' ? status : undefined,
+    });
+    return { obligations };
+  },
+
+  async liabilities({ vrn, from, to }, req, userId) {
+    const client = new HmrcMtdVatClient(hmrcConfig.baseUrl, () => getAccessToken(userId), buildFraudPreventionHeaders(req, userId, null));
+    const liabilities = await client.getLiabilities(requireVrn(vrn), {
+      from: requireDate(from, 'from'),
+      to: requireDate(to, 'to'),
+    });
+    return { liabilities };
+  },
+
+  // Submit the prepared return, then lock the period with HMRC's receipt
+  async submit({ vrn, periodKey, vatReturn, fraudHeaders }, req, userId) {
+    if (typeof periodKey !== 'string' || !periodKey) throw new MtdError('HMRC period key is required', 400);
+    if (!vatReturn || typeof vatReturn !== 'object') throw new MtdError('VAT return is required', 400);
+
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('vat_returns')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('period_key', vatReturn.period_key)
+      .maybeSingle();
+    if (existingError) throw existingError;
+    if (existing) throw new MtdError('This period has already been filed', 409);
+
+    const client = new HmrcMtdVatClient(hmrcConfig.baseUrl, () => getAccessToken(userId), buildFraudPreventionHeaders(req, userId, fraudHeaders));
+    const receipt = await client.submitReturn(requireVrn(vrn), toReturnBody(periodKey, vatReturn));
+
+    const { data: saved, error } = await supabaseAdmin
+      .from('vat_returns')
+      .insert({
+        user_id: userId,
+        period_key: vatReturn.period_key,
+        period_start: vatReturn.period_start,
+        period_end: vatReturn.period_end,
+        vat_due_sales: vatReturn.vat_due_sales,
+        vat_due_acquisitions: vatReturn.vat_due_acquisitions,
+        total_vat_due: vatReturn.total_vat_due,
+        vat_reclaimed_curr_period: vatReturn.vat_reclaimed_curr_period,
+        net_vat_due: vatReturn.net_vat_due,
+        total_value_sales_ex_vat: vatReturn.total_value_sales_ex_vat,
+        total_value_purchases_ex_vat: vatReturn.total_value_purchases_ex_vat,
+        total_value_goods_supplied_ex_vat: vatReturn.total_value_goods_supplied_ex_vat,
+        total_acquisitions_ex_vat: vatReturn.total_acquisitions_ex_vat,
+        entries: vatReturn.entries || [],
+        hmrc_period_key: periodKey,
+        hmrc_processing_date: receipt.processingDate,
+        hmrc_form_bundle_number: receipt.formBundleNumber,
+        hmrc_charge_ref_number: receipt.chargeRefNumber || null,
+        hmrc_payment_indicator: receipt.paymentIndicator || null,
+      })
+      .select()
+      .single();
+    if (error) {
+      // HMRC has the return - report it rather than failing silently
+      console.error('Submitted to HMRC but failed to save the return:', error, receipt);
+      throw new MtdError(`Submitted to HMRC (receipt ${receipt.formBundleNumber}) but the return could not be saved`, 500);
+    }
+    return { receipt, vatReturn: saved };
+  },
+};
+
+// HMRC redirects here after the user grants access
+async function handleCallback(url: URL): Promise<Response> {
+  const state = url.searchParams.get('state');
+  const code = url.searchParams.get('code');
+
+  const { data: row, error } = state
+    ? await supabaseAdmin.from('hmrc_tokens').select('user_id, return_url').eq('oauth_state', state).maybeSingle()
+    : { data: null, error: null };
+  if (error) throw error;
+  if (!row) return json({ error: 'Unknown or expired authorisation request' }, 400);
+
+  const back = (result: string) => {
+    const target = new URL(safeReturnUrl(row.return_url) || '/', Deno.env.get('SITE_URL') || url.origin);
+    target.searchParams.set('hmrc', result);
+    return new Response(null, { status: 302, headers: { Location: target.toString() } });
+  };
+
+  // Denied on HMRC's side, or no code
+  if (!code) {
+    await supabaseAdmin.from('hmrc_tokens').update({ oauth_state: null }).eq('user_id', row.user_id);
+    return back(url.searchParams.get('error') || 'denied');
+  }
+
+  const tokens = await exchangeAuthorizationCode(hmrcConfig, code);
+  const { error: updateError } = await supabaseAdmin
+    .from('hmrc_tokens')
+    .update({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken,
+      expires_at: tokens.expiresAt,
+      scope: tokens.scope,
+      oauth_state: null,
+      connected_at: new Date().toISOString(),
+    })
+    .eq('user_id', row.user_id);
+  if (updateError) throw updateError;
+  return back('connected');
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return await handleCallback(new URL(req.url));
+    }
+
+    const user = await getUser(req);
+    const { action, ...data } = await req.json();
+    const handler = actions[action];
+    if (!handler) throw new MtdError('Unknown action', 400);
+
+    return json(await handler(data, req, user.id));
+  } catch (error) {
+    if (error instanceof MtdError) {
+      return json({ error: error.message }, error.status);
+    }
+    if (error instanceof HmrcApiError) {
+      return json({ error: error.message, code: error.code }, error.status >= 500 ? 502 : error.status);
+    }
+    console.error('MTD VAT error:', error);
+    return json({ error: error.message || 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,246 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0";
+
+// Public endpoint behind the customer quote portal (/q/<token>).
+// Customers are not logged in, so the share token is the only credential:
+// every query is scoped to the quote it identifies.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_DRAWN_SIGNATURE_LENGTH = 200_000;
+
+// Columns read for the document. Sections, labour_rate and markup_percent are
+// cost inputs: they go through toCustomerQuote before leaving the server.
+const QUOTE_COLUMNS = 'id, user_id, customer_id, type, status, title, date, sections, labour_rate, markup_percent, tax_percent, cis_percent, notes, display_options, reference_number, discount_type, discount_value, discount_description, part_payment_enabled, part_payment_type, part_payment_value, part_payment_label, job_address, options, selected_option_id, payment_schedule, reverse_charge, total, updated_at, created_at';
+const SETTINGS_COLUMNS = 'company_name, company_address, company_logo_path, vat_number, is_vat_registered, enable_vat, enable_cis, quote_prefix, cost_box_color, default_display_options, document_template, invoice_color_scheme';
+const RESPONSE_COLUMNS = 'id, quote_id, decision, signer_name, signature_type, signature_data, comment, quote_total, quote_reference, responded_at';
+
+class PortalError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Same fallback the app applies when a quote has no labour rate
+const DEFAULT_LABOUR_RATE = 65;
+
+// Labour in a section before markup, worked out as calculateSectionLabour does
+function getSectionLabour(section: Record<string, any>, quoteLabourRate: number): number {
+  const rate = Number(section.labourRate ?? quoteLabourRate);
+  if (Array.isArray(section.labourItems) && section.labourItems.length > 0) {
+    return section.labourItems.reduce(
+      (sum: number, item: Record<string, any>) => sum + Number(item.hours) * Number(item.rate ?? rate),
+      0
+    );
+  }
+  if (section.labourCost !== undefined) return Number(section.labourCost);
+  return (Number(section.labourHours) || 0) * rate;
+}
+
+// The quote as the customer is charged it: markup folded into every line,
+// labour rate and price override, so neither the trade's costs nor their
+// margin leave the server. CIS is taken from labour before markup, so each
+// section carries that as cisLabour and the portal deducts what the app does.
+function toCustomerQuote(quote: Record<string, any>) {
+  const { markup_percent: markupPercent, labour_rate: labourRate, sections, ...rest } = quote;
+  const multiplier = 1 + (Number(markupPercent) || 0) / 100;
+  const price = (value: unknown) => value == null ? value : Number(value) * multiplier;
+  const quoteLabourRate = Number(labourRate) || DEFAULT_LABOUR_RATE;
+
+  return {
+    ...rest,
+    markup_percent: 0,
+    labour_rate: quoteLabourRate * multiplier,
+    sections: (Array.isArray(sections) ? sections : []).map((section: Record<string, any>) => ({
+      ...section,
+      cisLabour: getSectionLabour(section, quoteLabourRate),
+      items: (section.items || []).map((item: Record<string, any>) => ({
+        ...item,
+        unitPrice: price(item.unitPrice),
+        totalPrice: price(item.totalPrice),
+      })),
+      labourRate: price(section.labourRate),
+      labourCost: price(section.labourCost),
+      labourItems: section.labourItems?.map((labour: Record<string, any>) => ({ ...labour, rate: price(labour.rate) })),
+      subsectionPrice: price(section.subsectionPrice),
+    })),
+  };
+}
+
+async function getSharedQuote(token: unknown) {
+  if (typeof token !== 'string' || !/^[A-Za-z0-9_-]{16,}$/.test(token)) {
+    throw new PortalError('Quote not found', 404);
+  }
+
+  const { data: quote, error } = await supabaseAdmin
+    .from('quotes')
+    .select(QUOTE_COLUMNS)
+    .eq('share_token', token)
+    .in('type', ['estimate', 'quotation'])
+    .maybeSingle();
+  if (error) throw error;
+  if (!quote) throw new PortalError('Quote not found', 404);
+  return quote;
+}
+
+function getClientIp(req: Request): string | null {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get('cf-connecting-ip') || req.headers.get('x-real-ip');
+}
+
+function validateResponse(input: any): string | null {
+  if (input.decision !== 'accepted' && input.decision !== 'declined') return 'Invalid decision';
+  if (typeof input.signerName !== 'string' || !input.signerName.trim()) return 'Signer name is required';
+  if (typeof input.signatureData !== 'string') return 'Signature is required';
+  if (input.signatureType === 'typed') {
+    if (!input.signatureData.trim()) return 'Signature is required';
+  } else if (input.signatureType === 'drawn') {
+    if (!input.signatureData.startsWith('data:image/png;base64,')) return 'Signature is required';
+    if (input.signatureData.length > MAX_DRAWN_SIGNATURE_LENGTH) return 'Signature is too large';
+  } else {
+    return 'Invalid signature type';
+  }
+  if (input.comment != null && (typeof input.comment !== 'string' || input.comment.length > MAX_COMMENT_LENGTH)) {
+    return 'Comment is too long';
+  }
+  return null;
+}
+
+const actions: Record<string, (data: any, req: Request) => Promise<any>> = {
+  // Quote, customer and branding needed to render the document
+  async get({ token }) {
+    const quote = await getSharedQuote(token);
+
+    const [customerResult, settingsResult, responseResult] = await Promise.all([
+      quote.customer_id
+        ? supabaseAdmin.from('customers').select('id, name, company, address').eq('id', quote.customer_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      supabaseAdmin.from('user_settings').select(SETTINGS_COLUMNS).eq('user_id', quote.user_id).maybeSingle(),
+      supabaseAdmin.from('quote_responses').select(RESPONSE_COLUMNS)
+        .eq('quote_id', quote.id)
+        .order('responded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+    if (customerResult.error) throw customerResult.error;
+    if (settingsResult.error) throw settingsResult.error;
+    if (responseResult.error) throw responseResult.error;
+
+    let logoUrl: string | null = null;
+    if (settingsResult.data?.company_logo_path) {
+      const { data } = await supabaseAdmin.storage
+        .from('logos')
+        .createSignedUrl(settingsResult.data.company_logo_path, 3600);
+      logoUrl = data?.signedUrl || null;
+    }
+
+    const { user_id: _userId, ...publicQuote } = quote;
+    return {
+      quote: toCustomerQuote(publicQuote),
+      customer: customerResult.data,
+      settings: settingsResult.data,
+      logoUrl,
+      response: responseResult.data,
+    };
+  },
+
+  // Record the customer's signed decision and move the quote on
+  async respond({ token, ...input }, req) {
+    const validationError = validateResponse(input);
+    if (validationError) throw new PortalError(validationError, 400);
+
+    const quote = await getSharedQuote(token);
+
+    // Claim the quote first so two submissions can't both be recorded
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('quotes')
+      .update({ status: input.decision })
+      .eq('id', quote.id)
+      .eq('status', 'sent')
+      .select('id');
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      throw new PortalError('This quote is no longer open for a response', 409);
+    }
+
+    const { data: settings } = await supabaseAdmin
+      .from('user_settings')
+      .select('quote_prefix')
+      .eq('user_id', quote.user_id)
+      .maybeSingle();
+    const reference = `${settings?.quote_prefix || 'EST-'}${(quote.reference_number || 1).toString().padStart(4, '0')}`;
+
+    const { data: response, error: insertError } = await supabaseAdmin
+      .from('quote_responses')
+      .insert({
+        user_id: quote.user_id,
+        quote_id: quote.id,
+        decision: input.decision,
+        signer_name: input.signerName.trim(),
+        signature_type: input.signatureType,
+        signature_data: input.signatureData,
+        comment: input.comment?.trim() || null,
+        ip_address: getClientIp(req),
+        user_agent: req.headers.get('user-agent'),
+        quote_total: quote.total,
+        quote_reference: reference,
+      })
+      .select(RESPONSE_COLUMNS)
+      .single();
+
+    if (insertError) {
+      // Without evidence the decision doesn't stand - reopen the quote
+      await supabaseAdmin.from('quotes').update({ status: 'sent' }).eq('id', quote.id);
+      throw insertError;
+    }
+
+    return { response };
+  },
+};
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const { action, data } = await req.json();
+
+    if (!action || !actions[action]) {
+      return new Response(
+        JSON.stringify({ error: `Invalid action: ${action}` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const result = await actions[action](data || {}, req);
+
+    return new Response(
+      JSON.stringify(result),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    if (error instanceof PortalError) {
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    console.error('Quote portal error:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
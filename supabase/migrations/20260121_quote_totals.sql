@@ -0,0 +1,22 @@
+-- ============================================
+-- PERSISTED DOCUMENT TOTALS
+-- Denormalised totals written by the app on every save, using the same
+-- calculation engine as the PDF. Reports, VAT and reconciliation read these
+-- instead of recomputing from sections.
+-- ============================================
+
+ALTER TABLE quotes
+ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS vat DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS cis_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS total DECIMAL(10,2);
+
+COMMENT ON COLUMN quotes.subtotal IS 'Net amount after markup and discount, before VAT';
+COMMENT ON COLUMN quotes.discount_amount IS 'Discount applied to the client subtotal';
+COMMENT ON COLUMN quotes.vat IS 'Output VAT charged on the document';
+COMMENT ON COLUMN quotes.cis_amount IS 'CIS deduction withheld on labour';
+COMMENT ON COLUMN quotes.total IS 'Amount payable: subtotal + VAT - CIS. NULL until the document is next saved';
+
+-- Reports filter invoices by type/status and sum totals
+CREATE INDEX IF NOT EXISTS idx_quotes_type_status ON quotes(user_id, type, status);
@@ -0,0 +1,257 @@
+-- ============================================
+-- INVOICE PAYMENTS LEDGER
+-- Every payment received against an invoice is kept as its own row, so
+-- instalments no longer overwrite each other. amount_paid, payment_date,
+-- payment_method and status on quotes are derived from this ledger.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  payment_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  payment_method TEXT NOT NULL DEFAULT 'bank_transfer' CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'cheque')),
+  reference TEXT,
+  notes TEXT,
+
+  -- Reconciliation
+  bank_transaction_id UUID REFERENCES bank_transactions(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE invoice_payments ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own invoice payments" ON invoice_payments;
+DROP POLICY IF EXISTS "Users can insert own invoice payments" ON invoice_payments;
+DROP POLICY IF EXISTS "Users can update own invoice payments" ON invoice_payments;
+DROP POLICY IF EXISTS "Users can delete own invoice payments" ON invoice_payments;
+
+-- RLS Policies
+CREATE POLICY "Users can view own invoice payments"
+  ON invoice_payments FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own invoice payments"
+  ON invoice_payments FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own invoice payments"
+  ON invoice_payments FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own invoice payments"
+  ON invoice_payments FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_user ON invoice_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id, payment_date);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_transaction ON invoice_payments(bank_transaction_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_invoice_payments_updated_at ON invoice_payments;
+CREATE TRIGGER update_invoice_payments_updated_at
+  BEFORE UPDATE ON invoice_payments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Allow part-paid invoices
+-- ============================================
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_status_check CHECK (
+  status IN ('draft', 'sent', 'accepted', 'declined', 'invoiced', 'part_paid', 'paid')
+);
+
+-- ============================================
+-- Backfill: existing single payments become the first ledger entry
+-- ============================================
+
+INSERT INTO invoice_payments (user_id, invoice_id, amount, payment_date, payment_method)
+SELECT
+  q.user_id,
+  q.id,
+  q.amount_paid,
+  COALESCE(q.payment_date, q.updated_at::date, CURRENT_DATE),
+  CASE WHEN q.payment_method IN ('cash', 'card', 'bank_transfer', 'cheque') THEN q.payment_method ELSE 'bank_transfer' END
+FROM quotes q
+WHERE q.type = 'invoice'
+  AND q.amount_paid > 0
+  AND NOT EXISTS (SELECT 1 FROM invoice_payments ip WHERE ip.invoice_id = q.id);
+
+-- ============================================
+-- FUNCTION: Derive invoice status from amount paid
+-- Draft/declined invoices keep their status; otherwise
+-- nothing paid -> invoiced, some paid -> part_paid, all paid -> paid
+-- ============================================
+
+CREATE OR REPLACE FUNCTION derive_invoice_status(
+  p_status TEXT,
+  p_total DECIMAL,
+  p_amount_paid DECIMAL
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_status IN ('draft', 'declined') THEN
+    RETURN p_status;
+  END IF;
+
+  IF COALESCE(p_amount_paid, 0) <= 0 THEN
+    RETURN CASE WHEN p_status IN ('part_paid', 'paid') THEN 'invoiced' ELSE p_status END;
+  END IF;
+
+  IF p_total IS NOT NULL AND p_amount_paid >= p_total - 0.005 THEN
+    RETURN 'paid';
+  END IF;
+
+  RETURN 'part_paid';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- FUNCTION: Roll the ledger up onto the invoice row
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_invoice_payment_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_amount_paid DECIMAL(10,2);
+  v_last_date DATE;
+  v_last_method TEXT;
+BEGIN
+  v_invoice_id := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_amount_paid
+  FROM invoice_payments WHERE invoice_id = v_invoice_id;
+
+  SELECT payment_date, payment_method INTO v_last_date, v_last_method
+  FROM invoice_payments WHERE invoice_id = v_invoice_id
+  ORDER BY payment_date DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE quotes
+  SET amount_paid = v_amount_paid,
+      payment_date = v_last_date,
+      payment_method = v_last_method,
+      status = derive_invoice_status(status, total, v_amount_paid)
+  WHERE id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_invoice_payment_change ON invoice_payments;
+CREATE TRIGGER on_invoice_payment_change
+  AFTER INSERT OR UPDATE OR DELETE ON invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_invoice_payment_totals();
+
+-- Keep status consistent when an invoice with payments is edited
+CREATE OR REPLACE FUNCTION update_invoice_status_on_save()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'invoice' AND COALESCE(NEW.amount_paid, 0) > 0 THEN
+    NEW.status := derive_invoice_status(NEW.status, NEW.total, NEW.amount_paid);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_invoice_update_status ON quotes;
+CREATE TRIGGER on_invoice_update_status
+  BEFORE UPDATE ON quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_invoice_status_on_save();
+
+-- ============================================
+-- Reconciliation: invoice links record the payments matched to the
+-- transaction rather than the full invoice total
+-- ============================================
+
+CREATE OR REPLACE FUNCTION reconcile_transaction_multi(
+  p_transaction_id UUID,
+  p_expense_ids UUID[],
+  p_invoice_ids UUID[]
+)
+RETURNS void AS $$
+DECLARE
+  v_user_id UUID;
+  v_expense_id UUID;
+  v_invoice_id UUID;
+  v_expense_amount DECIMAL(10,2);
+  v_invoice_amount DECIMAL(10,2);
+BEGIN
+  -- Get user_id from transaction
+  SELECT user_id INTO v_user_id FROM bank_transactions WHERE id = p_transaction_id;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  -- Clear existing links for this transaction
+  DELETE FROM reconciliation_links WHERE bank_transaction_id = p_transaction_id;
+
+  -- Add expense links
+  IF p_expense_ids IS NOT NULL THEN
+    FOREACH v_expense_id IN ARRAY p_expense_ids
+    LOOP
+      SELECT amount INTO v_expense_amount FROM expenses WHERE id = v_expense_id;
+
+      INSERT INTO reconciliation_links (user_id, bank_transaction_id, expense_id, amount_matched)
+      VALUES (v_user_id, p_transaction_id, v_expense_id, v_expense_amount);
+
+      -- Mark expense as reconciled
+      UPDATE expenses SET is_reconciled = true, reconciled_transaction_id = p_transaction_id
+      WHERE id = v_expense_id;
+    END LOOP;
+  END IF;
+
+  -- Add invoice links
+  IF p_invoice_ids IS NOT NULL THEN
+    FOREACH v_invoice_id IN ARRAY p_invoice_ids
+    LOOP
+      SELECT SUM(amount) INTO v_invoice_amount
+      FROM invoice_payments
+      WHERE invoice_id = v_invoice_id AND bank_transaction_id = p_transaction_id;
+
+      IF v_invoice_amount IS NULL THEN
+        SELECT amount_paid INTO v_invoice_amount FROM quotes WHERE id = v_invoice_id;
+      END IF;
+
+      INSERT INTO reconciliation_links (user_id, bank_transaction_id, invoice_id, amount_matched)
+      VALUES (v_user_id, p_transaction_id, v_invoice_id, v_invoice_amount);
+    END LOOP;
+  END IF;
+
+  -- Mark transaction as reconciled
+  UPDATE bank_transactions SET is_reconciled = true WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION unreconcile_transaction(p_transaction_id UUID)
+RETURNS void AS $$
+BEGIN
+  -- Unmark linked expenses
+  UPDATE expenses SET is_reconciled = false, reconciled_transaction_id = NULL
+  WHERE reconciled_transaction_id = p_transaction_id;
+
+  -- Detach matched invoice payments
+  UPDATE invoice_payments SET bank_transaction_id = NULL
+  WHERE bank_transaction_id = p_transaction_id;
+
+  -- Remove links
+  DELETE FROM reconciliation_links WHERE bank_transaction_id = p_transaction_id;
+
+  -- Mark transaction as unreconciled
+  UPDATE bank_transactions
+  SET is_reconciled = false, reconciled_expense_id = NULL, reconciled_invoice_id = NULL
+  WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
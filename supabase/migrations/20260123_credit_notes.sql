@@ -0,0 +1,171 @@
+-- ============================================
+-- CREDIT NOTES AND INVOICE VOIDING
+-- A credit note is a quotes row of type 'credit_note' that points at the
+-- invoice it reverses through parent_quote_id. Its totals are stored
+-- negative so VAT and sales reports net off automatically.
+-- ============================================
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_type_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_type_check CHECK (
+  type IN ('estimate', 'quotation', 'invoice', 'credit_note')
+);
+
+ALTER TABLE quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+ALTER TABLE quotes ADD CONSTRAINT quotes_status_check CHECK (
+  status IN ('draft', 'sent', 'accepted', 'declined', 'invoiced', 'part_paid', 'paid', 'void')
+);
+
+-- Already present on most installs; ensure it exists before indexing
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS parent_quote_id UUID REFERENCES quotes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_parent ON quotes(parent_quote_id) WHERE parent_quote_id IS NOT NULL;
+
+-- Credit notes get their own numbering prefix
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS credit_note_prefix TEXT DEFAULT 'CN-';
+
+COMMENT ON COLUMN quotes.parent_quote_id IS 'Quote an invoice was converted from, or the invoice a credit note reverses';
+
+-- ============================================
+-- FUNCTION: Reference numbers - credit notes are their own series
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_next_reference_number(p_user_id UUID, p_type TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  next_num INTEGER;
+BEGIN
+  SELECT COALESCE(MAX(reference_number), 0) + 1 INTO next_num
+  FROM quotes
+  WHERE user_id = p_user_id
+    AND (
+      (p_type = 'invoice' AND type = 'invoice') OR
+      (p_type = 'credit_note' AND type = 'credit_note') OR
+      (p_type NOT IN ('invoice', 'credit_note') AND type IN ('estimate', 'quotation'))
+    );
+  RETURN next_num;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- FUNCTION: Amount credited against an invoice by issued credit notes
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_invoice_credited_amount(p_invoice_id UUID)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(ABS(COALESCE(total, 0))), 0)
+  FROM quotes
+  WHERE parent_quote_id = p_invoice_id
+    AND type = 'credit_note'
+    AND status <> 'draft';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- FUNCTION: Derive invoice status from payments and credits
+-- Credits count towards settlement alongside payments. Void invoices keep
+-- their status; voiding is an explicit action, not derived.
+-- ============================================
+
+DROP FUNCTION IF EXISTS derive_invoice_status(TEXT, DECIMAL, DECIMAL);
+
+CREATE OR REPLACE FUNCTION derive_invoice_status(
+  p_status TEXT,
+  p_total DECIMAL,
+  p_amount_paid DECIMAL,
+  p_amount_credited DECIMAL DEFAULT 0
+)
+RETURNS TEXT AS $$
+BEGIN
+  IF p_status IN ('draft', 'declined', 'void') THEN
+    RETURN p_status;
+  END IF;
+
+  -- Checked first so an invoice cleared entirely by credit notes counts as paid
+  IF p_total IS NOT NULL
+     AND (COALESCE(p_amount_paid, 0) > 0 OR COALESCE(p_amount_credited, 0) > 0)
+     AND COALESCE(p_amount_paid, 0) + COALESCE(p_amount_credited, 0) >= p_total - 0.005 THEN
+    RETURN 'paid';
+  END IF;
+
+  IF COALESCE(p_amount_paid, 0) <= 0 THEN
+    RETURN CASE WHEN p_status IN ('part_paid', 'paid') THEN 'invoiced' ELSE p_status END;
+  END IF;
+
+  RETURN 'part_paid';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sync_invoice_payment_totals()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+  v_amount_paid DECIMAL(10,2);
+  v_last_date DATE;
+  v_last_method TEXT;
+BEGIN
+  v_invoice_id := COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_amount_paid
+  FROM invoice_payments WHERE invoice_id = v_invoice_id;
+
+  SELECT payment_date, payment_method INTO v_last_date, v_last_method
+  FROM invoice_payments WHERE invoice_id = v_invoice_id
+  ORDER BY payment_date DESC, created_at DESC
+  LIMIT 1;
+
+  UPDATE quotes
+  SET amount_paid = v_amount_paid,
+      payment_date = v_last_date,
+      payment_method = v_last_method,
+      status = derive_invoice_status(status, total, v_amount_paid, get_invoice_credited_amount(v_invoice_id))
+  WHERE id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_invoice_status_on_save()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'invoice' AND COALESCE(NEW.amount_paid, 0) > 0 THEN
+    NEW.status := derive_invoice_status(
+      NEW.status, NEW.total, NEW.amount_paid, get_invoice_credited_amount(NEW.id)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- TRIGGER: Re-derive the parent invoice's status when a credit note changes
+-- ============================================
+
+CREATE OR REPLACE FUNCTION sync_credit_note_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invoice_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.type <> 'credit_note' THEN RETURN NULL; END IF;
+    v_invoice_id := OLD.parent_quote_id;
+  ELSE
+    IF NEW.type <> 'credit_note' THEN RETURN NULL; END IF;
+    v_invoice_id := NEW.parent_quote_id;
+  END IF;
+
+  IF v_invoice_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE quotes
+  SET status = derive_invoice_status(status, total, amount_paid, get_invoice_credited_amount(v_invoice_id))
+  WHERE id = v_invoice_id AND type = 'invoice';
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_credit_note_change ON quotes;
+CREATE TRIGGER on_credit_note_change
+  AFTER INSERT OR UPDATE OR DELETE ON quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_credit_note_parent();
@@ -0,0 +1,111 @@
+-- ============================================
+-- RECURRING INVOICES
+-- A recurring invoice holds a Quote-shaped template (sections, rates,
+-- discount) and a schedule. Each occurrence generates an ordinary invoice
+-- with its own invoice number, linked back via quotes.recurring_invoice_id.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS recurring_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+  job_pack_id UUID REFERENCES job_packs(id) ON DELETE SET NULL,
+  reference_number INTEGER,
+
+  title TEXT NOT NULL,
+  template JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Schedule: every interval_count weeks/months/years from start_date
+  frequency TEXT NOT NULL DEFAULT 'monthly' CHECK (frequency IN ('weekly', 'monthly', 'annual')),
+  interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  max_occurrences INTEGER CHECK (max_occurrences IS NULL OR max_occurrences > 0),
+  occurrences_generated INTEGER NOT NULL DEFAULT 0,
+  next_run_date DATE,
+
+  -- What each occurrence generates
+  generate_status TEXT NOT NULL DEFAULT 'draft' CHECK (generate_status IN ('draft', 'sent')),
+  payment_terms_days INTEGER NOT NULL DEFAULT 14 CHECK (payment_terms_days >= 0),
+  create_visits BOOLEAN NOT NULL DEFAULT false,
+  visit_start_time TIME,
+  visit_duration_minutes INTEGER DEFAULT 60,
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_generated_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE recurring_invoices ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own recurring invoices" ON recurring_invoices;
+DROP POLICY IF EXISTS "Users can insert own recurring invoices" ON recurring_invoices;
+DROP POLICY IF EXISTS "Users can update own recurring invoices" ON recurring_invoices;
+DROP POLICY IF EXISTS "Users can delete own recurring invoices" ON recurring_invoices;
+
+-- RLS Policies
+CREATE POLICY "Users can view own recurring invoices"
+  ON recurring_invoices FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring invoices"
+  ON recurring_invoices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring invoices"
+  ON recurring_invoices FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring invoices"
+  ON recurring_invoices FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_user ON recurring_invoices(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_invoices_next_run ON recurring_invoices(user_id, next_run_date) WHERE is_active;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_recurring_invoices_updated_at ON recurring_invoices;
+CREATE TRIGGER update_recurring_invoices_updated_at
+  BEFORE UPDATE ON recurring_invoices
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- TRIGGER: Recurring invoices are numbered in their own series (REC-0001)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION assign_recurring_invoice_reference()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.reference_number IS NULL THEN
+    SELECT COALESCE(MAX(reference_number), 0) + 1 INTO NEW.reference_number
+    FROM recurring_invoices
+    WHERE user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS on_recurring_invoice_insert ON recurring_invoices;
+CREATE TRIGGER on_recurring_invoice_insert
+  BEFORE INSERT ON recurring_invoices
+  FOR EACH ROW EXECUTE FUNCTION assign_recurring_invoice_reference();
+
+-- ============================================
+-- Link generated invoices back to their recurring invoice
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS recurring_invoice_id UUID REFERENCES recurring_invoices(id) ON DELETE SET NULL;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS recurrence_date DATE;
+
+-- One invoice per occurrence, even if two devices generate at the same time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_recurring_occurrence
+  ON quotes(recurring_invoice_id, recurrence_date)
+  WHERE recurring_invoice_id IS NOT NULL;
+
+COMMENT ON COLUMN quotes.recurring_invoice_id IS 'Recurring invoice this invoice was generated from';
+COMMENT ON COLUMN quotes.recurrence_date IS 'Schedule date of the occurrence this invoice was generated for';
@@ -0,0 +1,84 @@
+-- ============================================
+-- QUOTE PORTAL
+-- A quote can be shared with the customer through an unguessable link
+-- (/q/<share_token>). The customer accepts or declines it with a typed or
+-- drawn signature; each response is kept as acceptance evidence.
+-- The public page never talks to these tables directly - reads and writes
+-- go through the quote-portal edge function using the service role.
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS share_token TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_share_token
+  ON quotes(share_token)
+  WHERE share_token IS NOT NULL;
+
+COMMENT ON COLUMN quotes.share_token IS 'Token for the public customer portal link; NULL when the quote has not been shared';
+
+CREATE TABLE IF NOT EXISTS quote_responses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+
+  decision TEXT NOT NULL CHECK (decision IN ('accepted', 'declined')),
+  signer_name TEXT NOT NULL,
+  signature_type TEXT NOT NULL CHECK (signature_type IN ('typed', 'drawn')),
+  -- Typed name, or a PNG data URL of the drawn signature
+  signature_data TEXT NOT NULL,
+  comment TEXT,
+
+  -- Evidence captured by the edge function
+  ip_address TEXT,
+  user_agent TEXT,
+  quote_total DECIMAL(12,2),
+  quote_reference TEXT,
+  responded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- Set when the tradesperson has seen the notification
+  seen_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE quote_responses ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own quote responses" ON quote_responses;
+DROP POLICY IF EXISTS "Users can update own quote responses" ON quote_responses;
+
+-- RLS Policies
+-- No insert or delete policies: responses are only written by the edge
+-- function, and evidence is never removed except with its quote.
+CREATE POLICY "Users can view own quote responses"
+  ON quote_responses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own quote responses"
+  ON quote_responses FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_quote_responses_user ON quote_responses(user_id);
+CREATE INDEX IF NOT EXISTS idx_quote_responses_quote ON quote_responses(quote_id);
+CREATE INDEX IF NOT EXISTS idx_quote_responses_unseen ON quote_responses(user_id) WHERE seen_at IS NULL;
+
+-- ============================================
+-- TRIGGER: Only the seen flag may change once a response is recorded
+-- ============================================
+
+CREATE OR REPLACE FUNCTION protect_quote_response_evidence()
+RETURNS TRIGGER AS $$
+DECLARE
+  new_seen_at TIMESTAMPTZ := NEW.seen_at;
+BEGIN
+  NEW := OLD;
+  NEW.seen_at := new_seen_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS on_quote_response_update ON quote_responses;
+CREATE TRIGGER on_quote_response_update
+  BEFORE UPDATE ON quote_responses
+  FOR EACH ROW EXECUTE FUNCTION protect_quote_response_evidence();
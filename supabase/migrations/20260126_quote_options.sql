@@ -0,0 +1,14 @@
+-- ============================================
+-- QUOTE OPTIONS
+-- A quote can offer mutually exclusive options (good / better / best, or
+-- repair vs full replacement) under one reference number. The options
+-- themselves are stored on the quote; each section in the sections JSONB
+-- records which option it belongs to (optionId) and whether it is an
+-- optional add-on (isOptional / isIncluded).
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS options JSONB;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS selected_option_id TEXT;
+
+COMMENT ON COLUMN quotes.options IS 'Alternative options offered in the quote: [{ id, name, description }]; NULL for a single-scope quote';
+COMMENT ON COLUMN quotes.selected_option_id IS 'Option the customer chose; fixes the scope carried onto the invoice';
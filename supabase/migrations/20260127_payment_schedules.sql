@@ -0,0 +1,18 @@
+-- ============================================
+-- PAYMENT SCHEDULES
+-- A quote can be billed in stages (deposit, first fix, second fix,
+-- completion, retention). The schedule is a list of named milestones kept
+-- on the quote; each milestone is raised as its own stage invoice, linked
+-- back by parent_quote_id + milestone_id.
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS payment_schedule JSONB;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS milestone_id TEXT;
+
+COMMENT ON COLUMN quotes.payment_schedule IS 'Payment milestones: [{ id, label, type, value, dueTrigger, dueDate }]; NULL when billed in one go';
+COMMENT ON COLUMN quotes.milestone_id IS 'On a stage invoice, the milestone of the parent quote it bills';
+
+-- A milestone is billed once; voiding the stage invoice frees it to be raised again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_stage_invoice
+  ON quotes(parent_quote_id, milestone_id)
+  WHERE milestone_id IS NOT NULL AND type = 'invoice' AND status <> 'void';
@@ -0,0 +1,20 @@
+-- ============================================
+-- RETENTION
+-- Main contractors hold back a percentage (typically 2.5-5%) of a
+-- subcontractor's invoice. Half is released at practical completion and
+-- the rest at the end of the defects period. The invoice total still
+-- includes the retention; it is settled by payments beyond the amount due now.
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS retention_percent NUMERIC;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS practical_completion_date DATE;
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS defects_period_end_date DATE;
+
+COMMENT ON COLUMN quotes.retention_percent IS 'Retention held back, as a % of the net value of the work; NULL when none is held';
+COMMENT ON COLUMN quotes.practical_completion_date IS 'Release date for the first half of the retention';
+COMMENT ON COLUMN quotes.defects_period_end_date IS 'Release date for the second half of the retention';
+
+-- Retention ledger: invoices still holding retention
+CREATE INDEX IF NOT EXISTS idx_quotes_retention
+  ON quotes(user_id)
+  WHERE retention_percent > 0 AND type = 'invoice';
@@ -0,0 +1,89 @@
+-- ============================================
+-- CONSTRUCTION INDUSTRY SCHEME
+-- As a subcontractor: each payment received records the CIS the
+-- contractor withheld, and customers carry their UTR for statements.
+-- As a contractor: subcontractors are verified with HMRC and paid through
+-- payables, with the labour/materials split and deduction stored per bill
+-- for the monthly CIS300 return. A paid bill is settled in full - the
+-- subcontractor receives amount less cis_deduction and the deduction is
+-- paid to HMRC on their behalf.
+-- ============================================
+
+ALTER TABLE invoice_payments ADD COLUMN IF NOT EXISTS cis_deducted NUMERIC(12,2);
+COMMENT ON COLUMN invoice_payments.cis_deducted IS 'CIS withheld by the contractor from this payment';
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS utr TEXT;
+COMMENT ON COLUMN customers.utr IS 'Unique Taxpayer Reference of a contractor who deducts CIS';
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS is_cis_contractor BOOLEAN DEFAULT false;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS cis_utr TEXT;
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS cis_accounts_office_reference TEXT;
+
+-- ============================================
+-- TABLE: CIS subcontractors
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS cis_subcontractors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  utr TEXT,
+  verification_number TEXT,
+  tax_treatment TEXT NOT NULL DEFAULT 'standard' CHECK (tax_treatment IN ('gross', 'standard', 'higher')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS
+ALTER TABLE cis_subcontractors ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own cis subcontractors" ON cis_subcontractors;
+DROP POLICY IF EXISTS "Users can insert own cis subcontractors" ON cis_subcontractors;
+DROP POLICY IF EXISTS "Users can update own cis subcontractors" ON cis_subcontractors;
+DROP POLICY IF EXISTS "Users can delete own cis subcontractors" ON cis_subcontractors;
+
+-- RLS Policies
+CREATE POLICY "Users can view own cis subcontractors"
+  ON cis_subcontractors FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own cis subcontractors"
+  ON cis_subcontractors FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own cis subcontractors"
+  ON cis_subcontractors FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own cis subcontractors"
+  ON cis_subcontractors FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_cis_subcontractors_user ON cis_subcontractors(user_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_cis_subcontractors_updated_at ON cis_subcontractors;
+CREATE TRIGGER update_cis_subcontractors_updated_at
+  BEFORE UPDATE ON cis_subcontractors
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Payables paid to subcontractors under CIS
+-- ============================================
+
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS subcontractor_id UUID REFERENCES cis_subcontractors(id) ON DELETE SET NULL;
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS cis_labour_amount NUMERIC(12,2);
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS cis_materials_amount NUMERIC(12,2);
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS cis_deduction NUMERIC(12,2);
+
+COMMENT ON COLUMN payables.cis_labour_amount IS 'Labour element excluding VAT, liable to deduction';
+COMMENT ON COLUMN payables.cis_materials_amount IS 'Cost of materials excluding VAT, not liable to deduction';
+COMMENT ON COLUMN payables.cis_deduction IS 'CIS withheld from the subcontractor and paid to HMRC';
+
+-- Monthly return: subcontractor bills paid in a tax month
+CREATE INDEX IF NOT EXISTS idx_payables_subcontractor_paid
+  ON payables(user_id, paid_date)
+  WHERE subcontractor_id IS NOT NULL;
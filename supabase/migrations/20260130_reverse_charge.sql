@@ -0,0 +1,23 @@
+-- ============================================
+-- VAT DOMESTIC REVERSE CHARGE
+-- Construction services between VAT-registered businesses in CIS are
+-- invoiced without VAT; the customer accounts for it to HMRC instead.
+-- Sales: invoices (and customers, as the default for new invoices) carry a
+-- reverse_charge flag - vat stays 0 and the document prints the notional VAT.
+-- Purchases: expenses and bills keep vat_amount at 0 (nothing is paid to the
+-- supplier) and record the VAT we declare in box 1 and reclaim in box 4.
+-- ============================================
+
+ALTER TABLE quotes ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN DEFAULT false;
+COMMENT ON COLUMN quotes.reverse_charge IS 'Domestic reverse charge: no VAT charged, customer accounts for it';
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS reverse_charge BOOLEAN DEFAULT false;
+COMMENT ON COLUMN customers.reverse_charge IS 'New invoices to this customer default to the domestic reverse charge';
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS is_reverse_charge BOOLEAN DEFAULT false;
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS reverse_charge_vat NUMERIC(12,2);
+COMMENT ON COLUMN expenses.reverse_charge_vat IS 'VAT accounted for under the reverse charge (box 1 and box 4)';
+
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS is_reverse_charge BOOLEAN DEFAULT false;
+ALTER TABLE payables ADD COLUMN IF NOT EXISTS reverse_charge_vat NUMERIC(12,2);
+COMMENT ON COLUMN payables.reverse_charge_vat IS 'VAT accounted for under the reverse charge (box 1 and box 4)';
@@ -0,0 +1,22 @@
+-- ============================================
+-- VAT SETTINGS
+-- Stagger group decides which months each VAT return covers:
+--   1 = Mar/Jun/Sep/Dec, 2 = Jan/Apr/Jul/Oct, 3 = Feb/May/Aug/Nov.
+-- Scheme decides the tax point: standard (invoice date), cash (payment
+-- date) or flat rate (a fixed percentage of gross turnover, with 1% off
+-- in the first year of registration).
+-- ============================================
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS vat_stagger SMALLINT DEFAULT 1
+  CHECK (vat_stagger IN (1, 2, 3));
+COMMENT ON COLUMN user_settings.vat_stagger IS 'HMRC VAT stagger group (1, 2 or 3)';
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS vat_scheme TEXT DEFAULT 'standard'
+  CHECK (vat_scheme IN ('standard', 'cash', 'flat_rate'));
+COMMENT ON COLUMN user_settings.vat_scheme IS 'VAT accounting scheme: standard, cash or flat_rate';
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS vat_flat_rate_category TEXT;
+COMMENT ON COLUMN user_settings.vat_flat_rate_category IS 'Flat Rate Scheme business category';
+
+ALTER TABLE user_settings ADD COLUMN IF NOT EXISTS vat_flat_rate_first_year BOOLEAN DEFAULT false;
+COMMENT ON COLUMN user_settings.vat_flat_rate_first_year IS 'In the first year of VAT registration (1% Flat Rate discount)';
@@ -0,0 +1,50 @@
+-- ============================================
+-- VAT RETURNS
+-- One row per filed VAT period with the nine boxes as submitted and a
+-- snapshot of the entries they were built from. Filed returns are never
+-- edited: later changes to documents dated inside a filed period are
+-- carried into the next open return as adjustments.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vat_returns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_key DATE NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  vat_due_sales NUMERIC(12,2) NOT NULL DEFAULT 0,
+  vat_due_acquisitions NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total_vat_due NUMERIC(12,2) NOT NULL DEFAULT 0,
+  vat_reclaimed_curr_period NUMERIC(12,2) NOT NULL DEFAULT 0,
+  net_vat_due NUMERIC(12,2) NOT NULL DEFAULT 0,
+  total_value_sales_ex_vat NUMERIC(12,0) NOT NULL DEFAULT 0,
+  total_value_purchases_ex_vat NUMERIC(12,0) NOT NULL DEFAULT 0,
+  total_value_goods_supplied_ex_vat NUMERIC(12,0) NOT NULL DEFAULT 0,
+  total_acquisitions_ex_vat NUMERIC(12,0) NOT NULL DEFAULT 0,
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  submitted_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, period_key)
+);
+
+COMMENT ON COLUMN vat_returns.period_key IS 'Last day of the VAT period';
+COMMENT ON COLUMN vat_returns.entries IS 'Snapshot of the VAT entries the boxes were calculated from';
+
+-- Enable RLS
+ALTER TABLE vat_returns ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own vat returns" ON vat_returns;
+DROP POLICY IF EXISTS "Users can insert own vat returns" ON vat_returns;
+
+-- RLS Policies (no update or delete: a filed return is final)
+CREATE POLICY "Users can view own vat returns"
+  ON vat_returns FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own vat returns"
+  ON vat_returns FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_vat_returns_user ON vat_returns(user_id, period_key DESC);
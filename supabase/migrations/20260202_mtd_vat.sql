@@ -0,0 +1,41 @@
+-- ============================================
+-- MAKING TAX DIGITAL FOR VAT
+-- HMRC OAuth tokens are held per user and only read by the mtd-vat edge
+-- function (service role); no client policies are created, so the browser
+-- never sees them. Returns submitted through MTD keep HMRC's receipt.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS hmrc_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  access_token TEXT,
+  refresh_token TEXT,
+  expires_at TIMESTAMPTZ,
+  scope TEXT,
+  -- Pending authorisation: matches the state HMRC sends back to the callback
+  oauth_state TEXT UNIQUE,
+  return_url TEXT,
+  connected_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable RLS (service role only)
+ALTER TABLE hmrc_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_hmrc_tokens_updated_at ON hmrc_tokens;
+CREATE TRIGGER update_hmrc_tokens_updated_at
+  BEFORE UPDATE ON hmrc_tokens
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- HMRC receipt on filed VAT returns
+-- ============================================
+
+ALTER TABLE vat_returns ADD COLUMN IF NOT EXISTS hmrc_period_key TEXT;
+ALTER TABLE vat_returns ADD COLUMN IF NOT EXISTS hmrc_processing_date TIMESTAMPTZ;
+ALTER TABLE vat_returns ADD COLUMN IF NOT EXISTS hmrc_form_bundle_number TEXT;
+ALTER TABLE vat_returns ADD COLUMN IF NOT EXISTS hmrc_charge_ref_number TEXT;
+ALTER TABLE vat_returns ADD COLUMN IF NOT EXISTS hmrc_payment_indicator TEXT;
+
+COMMENT ON COLUMN vat_returns.hmrc_period_key IS 'HMRC obligation period key the return was submitted against';
+COMMENT ON COLUMN vat_returns.hmrc_form_bundle_number IS 'HMRC submission receipt; null when filed outside MTD';
@@ -0,0 +1,11 @@
+-- ============================================
+-- VAT RATE CODES
+-- Quote and invoice lines carry their VAT rate code inside the sections
+-- JSON (standard, reduced 5%, zero-rated or exempt). Expenses record the
+-- rate their VAT was worked out at; NULL means the VAT amount was entered
+-- by hand.
+-- ============================================
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS vat_rate TEXT
+  CHECK (vat_rate IN ('standard', 'reduced', 'zero', 'exempt'));
+COMMENT ON COLUMN expenses.vat_rate IS 'VAT rate code: standard, reduced, zero or exempt';
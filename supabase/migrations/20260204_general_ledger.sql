@@ -0,0 +1,479 @@
+-- ============================================
+-- GENERAL LEDGER
+-- A fixed chart of accounts and balanced journal entries posted by
+-- triggers whenever an invoice is issued, a payment is received, an
+-- expense is logged, a bill is recorded or paid, or a bank line is
+-- reconciled. Each source row owns at most one journal entry, which is
+-- replaced whenever the row changes and removed when it is deleted, so
+-- the ledger always mirrors the records underneath it.
+--
+-- Money received or paid is held in Bank clearing until the matching bank
+-- line is reconciled, which moves it into Bank. Cash goes straight to
+-- Cash in hand.
+-- ============================================
+
+-- ============================================
+-- TABLE: Chart of accounts (shared by every user)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  code TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('asset', 'liability', 'equity', 'income', 'expense')),
+  display_order INTEGER NOT NULL DEFAULT 0
+);
+
+INSERT INTO ledger_accounts (code, name, type, display_order) VALUES
+  ('1100', 'Trade debtors', 'asset', 10),
+  ('1150', 'CIS tax suffered', 'asset', 20),
+  ('1200', 'Bank', 'asset', 30),
+  ('1210', 'Bank clearing', 'asset', 40),
+  ('1230', 'Cash in hand', 'asset', 50),
+  ('2100', 'Trade creditors', 'liability', 60),
+  ('2200', 'VAT on sales', 'liability', 70),
+  ('2201', 'VAT on purchases', 'liability', 80),
+  ('2300', 'CIS deductions payable', 'liability', 90),
+  ('3000', 'Owner''s capital', 'equity', 100),
+  ('4000', 'Sales', 'income', 110),
+  ('4100', 'Flat rate VAT surplus', 'income', 115),
+  ('5000', 'Materials', 'expense', 120),
+  ('5100', 'Subcontractors', 'expense', 130),
+  ('5200', 'Tools and equipment', 'expense', 140),
+  ('5300', 'Vehicle and fuel', 'expense', 150),
+  ('6000', 'Insurance', 'expense', 160),
+  ('6100', 'Subscriptions', 'expense', 170),
+  ('6200', 'Telephone and internet', 'expense', 180),
+  ('6300', 'Office costs', 'expense', 185),
+  ('6900', 'Other expenses', 'expense', 190)
+ON CONFLICT (code) DO UPDATE SET name = EXCLUDED.name, type = EXCLUDED.type, display_order = EXCLUDED.display_order;
+
+ALTER TABLE ledger_accounts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone signed in can view ledger accounts" ON ledger_accounts;
+
+CREATE POLICY "Anyone signed in can view ledger accounts"
+  ON ledger_accounts FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- ============================================
+-- TABLES: Journal entries and lines
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_date DATE NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN (
+    'invoice', 'invoice_payment', 'expense', 'payable', 'payable_payment', 'bank_transaction'
+  )),
+  source_id UUID NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, source_type, source_id)
+);
+
+COMMENT ON COLUMN journal_entries.source_type IS 'Kind of record that posted the entry; credit notes post as invoice';
+COMMENT ON COLUMN journal_entries.source_id IS 'Id of the quotes, invoice_payments, expenses, payables or bank_transactions row';
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  journal_entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  account_code TEXT NOT NULL REFERENCES ledger_accounts(code),
+  debit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (debit >= 0),
+  credit NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (credit >= 0),
+  CONSTRAINT one_sided_line CHECK (debit = 0 OR credit = 0)
+);
+
+-- Enable RLS
+ALTER TABLE journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE journal_lines ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own journal entries" ON journal_entries;
+DROP POLICY IF EXISTS "Users can view own journal lines" ON journal_lines;
+
+-- RLS Policies (read only: entries are posted by the triggers below)
+CREATE POLICY "Users can view own journal entries"
+  ON journal_entries FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own journal lines"
+  ON journal_lines FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_journal_entries_user_date ON journal_entries(user_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_user_account ON journal_lines(user_id, account_code);
+
+-- ============================================
+-- FUNCTION: Post (or replace) the journal for a source row
+-- p_lines is a JSON array of {"account": code, "amount": n}; positive
+-- amounts are debits, negative amounts credits, zeros are skipped. An
+-- empty array removes the entry.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_journal(
+  p_user_id UUID,
+  p_source_type TEXT,
+  p_source_id UUID,
+  p_entry_date DATE,
+  p_description TEXT,
+  p_lines JSONB
+)
+RETURNS void AS $$
+DECLARE
+  v_entry_id UUID;
+  v_line JSONB;
+  v_amount NUMERIC(12,2);
+  v_total NUMERIC(12,2) := 0;
+BEGIN
+  DELETE FROM journal_entries
+  WHERE user_id = p_user_id AND source_type = p_source_type AND source_id = p_source_id;
+
+  IF p_lines IS NULL OR NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_lines) l WHERE ROUND((l->>'amount')::NUMERIC, 2) <> 0
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO journal_entries (user_id, entry_date, source_type, source_id, description)
+  VALUES (p_user_id, p_entry_date, p_source_type, p_source_id, p_description)
+  RETURNING id INTO v_entry_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_amount := ROUND((v_line->>'amount')::NUMERIC, 2);
+    CONTINUE WHEN v_amount = 0;
+
+    INSERT INTO journal_lines (journal_entry_id, user_id, account_code, debit, credit)
+    VALUES (v_entry_id, p_user_id, v_line->>'account', GREATEST(v_amount, 0), GREATEST(-v_amount, 0));
+
+    v_total := v_total + v_amount;
+  END LOOP;
+
+  IF v_total <> 0 THEN
+    RAISE EXCEPTION 'Unbalanced journal for % %: debits and credits differ by %', p_source_type, p_source_id, v_total;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expense account for an expense or bill category
+CREATE OR REPLACE FUNCTION ledger_expense_account(p_category TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN CASE
+    WHEN p_category ILIKE '%material%' THEN '5000'
+    WHEN p_category ILIKE '%subcontract%' OR p_category ILIKE '%labour%' THEN '5100'
+    WHEN p_category ILIKE '%tool%' OR p_category ILIKE '%equipment%' THEN '5200'
+    WHEN p_category ILIKE '%fuel%' OR p_category ILIKE '%vehicle%' THEN '5300'
+    WHEN p_category ILIKE '%insurance%' THEN '6000'
+    WHEN p_category ILIKE '%subscription%' OR p_category ILIKE '%software%' THEN '6100'
+    WHEN p_category ILIKE '%phone%' OR p_category ILIKE '%internet%' OR p_category ILIKE '%broadband%' THEN '6200'
+    WHEN p_category ILIKE '%office%' OR p_category ILIKE '%stationery%' OR p_category ILIKE '%postage%' THEN '6300'
+    ELSE '6900'
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Flat rate percentage a user pays on VAT-inclusive turnover, after the
+-- first-year discount, or NULL when they are not on the Flat Rate Scheme.
+-- Same rates as FRS_RATES in src/utils/vatPeriods.ts.
+CREATE OR REPLACE FUNCTION ledger_flat_rate_percent(p_user_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_settings user_settings;
+BEGIN
+  SELECT * INTO v_settings FROM user_settings WHERE user_id = p_user_id;
+  IF NOT FOUND OR v_settings.enable_vat IS FALSE OR v_settings.vat_scheme IS DISTINCT FROM 'flat_rate' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN CASE v_settings.vat_flat_rate_category
+    WHEN 'labour_only' THEN 14.5
+    WHEN 'electrical' THEN 10.5
+    WHEN 'architect' THEN 14.5
+    WHEN 'limited_cost' THEN 16.5
+    WHEN 'other' THEN 12.0
+    ELSE 9.5
+  END - CASE WHEN v_settings.vat_flat_rate_first_year THEN 1 ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Where money received or paid sits until it shows on the bank statement
+CREATE OR REPLACE FUNCTION ledger_payment_account(p_payment_method TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN CASE WHEN p_payment_method = 'cash' THEN '1230' ELSE '1210' END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- POSTING RULES
+-- ============================================
+
+-- Issued invoice or credit note (credit notes store negative totals, so
+-- the same lines reverse the sale). Debtors carry the gross before CIS;
+-- the CIS the customer withholds is cleared when the payment records it.
+-- Under the Flat Rate Scheme only the flat rate on the VAT-inclusive
+-- turnover is owed; the rest of the VAT charged is kept as income.
+CREATE OR REPLACE FUNCTION post_invoice_journal(p_quote quotes)
+RETURNS void AS $$
+DECLARE
+  v_vat NUMERIC := COALESCE(p_quote.vat, 0);
+  v_gross NUMERIC := COALESCE(p_quote.total, 0) + COALESCE(p_quote.cis_amount, 0);
+  v_flat_rate NUMERIC := ledger_flat_rate_percent(p_quote.user_id);
+  v_vat_owed NUMERIC := v_vat;
+BEGIN
+  IF p_quote.type NOT IN ('invoice', 'credit_note')
+    OR p_quote.status IN ('draft', 'declined')
+    OR p_quote.total IS NULL THEN
+    PERFORM post_journal(p_quote.user_id, 'invoice', p_quote.id, NULL, NULL, '[]'::jsonb);
+    RETURN;
+  END IF;
+
+  IF v_flat_rate IS NOT NULL AND NOT COALESCE(p_quote.reverse_charge, false) THEN
+    v_vat_owed := ROUND(v_gross * v_flat_rate / 100, 2);
+  END IF;
+
+  PERFORM post_journal(
+    p_quote.user_id, 'invoice', p_quote.id,
+    COALESCE(p_quote.date, p_quote.created_at::date),
+    CASE WHEN p_quote.type = 'credit_note' THEN 'Credit note ' ELSE 'Invoice ' END
+      || COALESCE(p_quote.reference_number::text, '') || ' ' || COALESCE(p_quote.title, ''),
+    jsonb_build_array(
+      jsonb_build_object('account', '1100', 'amount', v_gross),
+      jsonb_build_object('account', '2200', 'amount', -v_vat_owed),
+      jsonb_build_object('account', '4100', 'amount', -(v_vat - v_vat_owed)),
+      -- Sales take the balance so rounding in the stored totals never unbalances the entry
+      jsonb_build_object('account', '4000', 'amount', -(v_gross - v_vat))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Payment received against an invoice, plus any CIS the customer withheld
+CREATE OR REPLACE FUNCTION post_invoice_payment_journal(p_payment invoice_payments)
+RETURNS void AS $$
+DECLARE
+  v_cis NUMERIC := COALESCE(p_payment.cis_deducted, 0);
+BEGIN
+  PERFORM post_journal(
+    p_payment.user_id, 'invoice_payment', p_payment.id, p_payment.payment_date,
+    'Payment received' || COALESCE(' ' || p_payment.reference, ''),
+    jsonb_build_array(
+      jsonb_build_object('account', ledger_payment_account(p_payment.payment_method), 'amount', p_payment.amount),
+      jsonb_build_object('account', '1150', 'amount', v_cis),
+      jsonb_build_object('account', '1100', 'amount', -(p_payment.amount + v_cis))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Expense paid at the time (amount is net of VAT). Reverse-charged VAT is
+-- both charged and reclaimed, so it nets to nothing but shows on both VAT accounts.
+CREATE OR REPLACE FUNCTION post_expense_journal(p_expense expenses)
+RETURNS void AS $$
+DECLARE
+  v_vat NUMERIC := COALESCE(p_expense.vat_amount, 0);
+  v_reverse_charge NUMERIC := CASE WHEN p_expense.is_reverse_charge THEN COALESCE(p_expense.reverse_charge_vat, 0) ELSE 0 END;
+BEGIN
+  PERFORM post_journal(
+    p_expense.user_id, 'expense', p_expense.id, p_expense.expense_date, p_expense.vendor,
+    jsonb_build_array(
+      jsonb_build_object('account', ledger_expense_account(p_expense.category), 'amount', p_expense.amount),
+      jsonb_build_object('account', '2201', 'amount', v_vat + v_reverse_charge),
+      jsonb_build_object('account', '2200', 'amount', -v_reverse_charge),
+      jsonb_build_object('account', ledger_payment_account(p_expense.payment_method), 'amount', -(p_expense.amount + v_vat))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A bill (amount includes VAT) and what has been paid on it. CIS withheld
+-- from a subcontractor is owed to HMRC rather than the subcontractor, so
+-- a bill marked paid settles the amount less the deduction. Part payments
+-- are cumulative on the row and post as one payment on the latest date.
+CREATE OR REPLACE FUNCTION post_payable_journal(p_payable payables)
+RETURNS void AS $$
+DECLARE
+  v_vat NUMERIC := COALESCE(p_payable.vat_amount, 0);
+  v_cis NUMERIC := COALESCE(p_payable.cis_deduction, 0);
+  v_reverse_charge NUMERIC := CASE WHEN p_payable.is_reverse_charge THEN COALESCE(p_payable.reverse_charge_vat, 0) ELSE 0 END;
+  v_paid NUMERIC;
+BEGIN
+  PERFORM post_journal(
+    p_payable.user_id, 'payable', p_payable.id, p_payable.invoice_date,
+    p_payable.vendor_name || COALESCE(' ' || p_payable.invoice_number, ''),
+    jsonb_build_array(
+      jsonb_build_object('account', ledger_expense_account(p_payable.category), 'amount', p_payable.amount - v_vat),
+      jsonb_build_object('account', '2201', 'amount', v_vat + v_reverse_charge),
+      jsonb_build_object('account', '2200', 'amount', -v_reverse_charge),
+      jsonb_build_object('account', '2300', 'amount', -v_cis),
+      jsonb_build_object('account', '2100', 'amount', -(p_payable.amount - v_cis))
+    )
+  );
+
+  v_paid := CASE
+    WHEN p_payable.status = 'paid' THEN p_payable.amount - v_cis
+    ELSE LEAST(COALESCE(p_payable.amount_paid, 0), p_payable.amount - v_cis)
+  END;
+
+  PERFORM post_journal(
+    p_payable.user_id, 'payable_payment', p_payable.id,
+    COALESCE(p_payable.paid_date, p_payable.updated_at::date, CURRENT_DATE),
+    'Paid ' || p_payable.vendor_name,
+    jsonb_build_array(
+      jsonb_build_object('account', '2100', 'amount', v_paid),
+      jsonb_build_object('account', '1210', 'amount', -v_paid)
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A reconciled bank line moves the money from clearing into the bank
+CREATE OR REPLACE FUNCTION post_bank_transaction_journal(p_transaction bank_transactions)
+RETURNS void AS $$
+BEGIN
+  PERFORM post_journal(
+    p_transaction.user_id, 'bank_transaction', p_transaction.id, p_transaction.transaction_date,
+    p_transaction.description,
+    CASE WHEN p_transaction.is_reconciled THEN jsonb_build_array(
+      jsonb_build_object('account', '1200', 'amount', p_transaction.amount),
+      jsonb_build_object('account', '1210', 'amount', -p_transaction.amount)
+    ) ELSE '[]'::jsonb END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The posting functions run as their owner and take the user to post for,
+-- so only the triggers below may call them; journals are never written
+-- from the client.
+REVOKE EXECUTE ON FUNCTION post_journal(UUID, TEXT, UUID, DATE, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_invoice_journal(quotes) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_invoice_payment_journal(invoice_payments) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_expense_journal(expenses) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_payable_journal(payables) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION post_bank_transaction_journal(bank_transactions) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- TRIGGERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION ledger_post_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM post_journal(OLD.user_id, TG_ARGV[0], OLD.id, NULL, NULL, '[]'::jsonb);
+    IF TG_ARGV[0] = 'payable' THEN
+      PERFORM post_journal(OLD.user_id, 'payable_payment', OLD.id, NULL, NULL, '[]'::jsonb);
+    END IF;
+    RETURN NULL;
+  END IF;
+
+  CASE TG_TABLE_NAME
+    WHEN 'quotes' THEN PERFORM post_invoice_journal(NEW);
+    WHEN 'invoice_payments' THEN PERFORM post_invoice_payment_journal(NEW);
+    WHEN 'expenses' THEN PERFORM post_expense_journal(NEW);
+    WHEN 'payables' THEN PERFORM post_payable_journal(NEW);
+    WHEN 'bank_transactions' THEN PERFORM post_bank_transaction_journal(NEW);
+  END CASE;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-post a user's invoices when a setting that decides their VAT changes
+CREATE OR REPLACE FUNCTION repost_invoice_journals()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_invoice_journal(q) FROM quotes q
+  WHERE q.user_id = NEW.user_id AND q.type IN ('invoice', 'credit_note');
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS repost_invoice_journals ON user_settings;
+CREATE TRIGGER repost_invoice_journals
+  AFTER UPDATE OF enable_vat, vat_scheme, vat_flat_rate_category, vat_flat_rate_first_year ON user_settings
+  FOR EACH ROW EXECUTE FUNCTION repost_invoice_journals();
+
+DROP TRIGGER IF EXISTS ledger_post_invoice ON quotes;
+CREATE TRIGGER ledger_post_invoice
+  AFTER INSERT OR UPDATE OR DELETE ON quotes
+  FOR EACH ROW EXECUTE FUNCTION ledger_post_on_change('invoice');
+
+DROP TRIGGER IF EXISTS ledger_post_invoice_payment ON invoice_payments;
+CREATE TRIGGER ledger_post_invoice_payment
+  AFTER INSERT OR UPDATE OR DELETE ON invoice_payments
+  FOR EACH ROW EXECUTE FUNCTION ledger_post_on_change('invoice_payment');
+
+DROP TRIGGER IF EXISTS ledger_post_expense ON expenses;
+CREATE TRIGGER ledger_post_expense
+  AFTER INSERT OR UPDATE OR DELETE ON expenses
+  FOR EACH ROW EXECUTE FUNCTION ledger_post_on_change('expense');
+
+DROP TRIGGER IF EXISTS ledger_post_payable ON payables;
+CREATE TRIGGER ledger_post_payable
+  AFTER INSERT OR UPDATE OR DELETE ON payables
+  FOR EACH ROW EXECUTE FUNCTION ledger_post_on_change('payable');
+
+DROP TRIGGER IF EXISTS ledger_post_bank_transaction ON bank_transactions;
+CREATE TRIGGER ledger_post_bank_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON bank_transactions
+  FOR EACH ROW EXECUTE FUNCTION ledger_post_on_change('bank_transaction');
+
+-- ============================================
+-- FUNCTION: Debit and credit totals per account
+-- Entries dated from p_from to p_to inclusive; NULL leaves that end open.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_ledger_account_totals(
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (account_code TEXT, debit NUMERIC, credit NUMERIC) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT jl.account_code, SUM(jl.debit), SUM(jl.credit)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.journal_entry_id
+  WHERE jl.user_id = auth.uid()
+    AND (p_from IS NULL OR je.entry_date >= p_from)
+    AND (p_to IS NULL OR je.entry_date <= p_to)
+  GROUP BY jl.account_code;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- FUNCTION: Debit and credit totals per account and month
+-- Same range rules as get_ledger_account_totals; entry_count is the number
+-- of journal entries touching the account that month.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_ledger_monthly_totals(
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (month DATE, account_code TEXT, debit NUMERIC, credit NUMERIC, entry_count BIGINT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT date_trunc('month', je.entry_date)::DATE, jl.account_code, SUM(jl.debit), SUM(jl.credit), COUNT(DISTINCT je.id)
+  FROM journal_lines jl
+  JOIN journal_entries je ON je.id = jl.journal_entry_id
+  WHERE jl.user_id = auth.uid()
+    AND (p_from IS NULL OR je.entry_date >= p_from)
+    AND (p_to IS NULL OR je.entry_date <= p_to)
+  GROUP BY 1, jl.account_code;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- Backfill: post journals for existing records
+-- ============================================
+
+SELECT post_invoice_journal(q) FROM quotes q WHERE q.type IN ('invoice', 'credit_note');
+SELECT post_invoice_payment_journal(p) FROM invoice_payments p;
+SELECT post_expense_journal(e) FROM expenses e;
+SELECT post_payable_journal(p) FROM payables p;
+SELECT post_bank_transaction_journal(t) FROM bank_transactions t WHERE t.is_reconciled;
@@ -0,0 +1,196 @@
+-- ============================================
+-- MILEAGE LOG
+-- Vehicles used for the business and the trips made in them. Business
+-- mileage is claimed at HMRC's approved mileage allowance rates, worked out
+-- across the tax year in the app so the 10,000 mile threshold is applied
+-- to cars and vans together. A vehicle claimed at actual costs logs its
+-- trips but claims its fuel and running costs as expenses instead. A
+-- vehicle can also reclaim VAT on the fuel used for business trips
+-- (advisory fuel rate) or account for private fuel through the fuel scale
+-- charge.
+-- ============================================
+
+-- ============================================
+-- TABLE: Vehicles
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS vehicles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  registration TEXT,
+  vehicle_type TEXT NOT NULL DEFAULT 'van' CHECK (vehicle_type IN ('car', 'van', 'motorcycle', 'bicycle')),
+  claim_method TEXT NOT NULL DEFAULT 'simplified' CHECK (claim_method IN ('simplified', 'actual')),
+  fuel_type TEXT CHECK (fuel_type IN ('petrol', 'diesel', 'lpg', 'electric', 'hybrid')),
+  engine_cc INTEGER,
+  fuel_vat_method TEXT NOT NULL DEFAULT 'none' CHECK (fuel_vat_method IN ('none', 'advisory', 'scale_charge')),
+  advisory_fuel_rate NUMERIC(6,2),
+  fuel_scale_charge NUMERIC(12,2),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN vehicles.claim_method IS 'simplified: trips claimed at the approved mileage rates; actual: fuel and running costs claimed as expenses';
+COMMENT ON COLUMN vehicles.advisory_fuel_rate IS 'HMRC advisory fuel rate in pence per mile, VAT inclusive';
+COMMENT ON COLUMN vehicles.fuel_scale_charge IS 'Quarterly fuel scale charge for the CO2 band, VAT inclusive';
+
+-- Enable RLS
+ALTER TABLE vehicles ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can insert own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can update own vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Users can delete own vehicles" ON vehicles;
+
+-- RLS Policies
+CREATE POLICY "Users can view own vehicles"
+  ON vehicles FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own vehicles"
+  ON vehicles FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own vehicles"
+  ON vehicles FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own vehicles"
+  ON vehicles FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_vehicles_user ON vehicles(user_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_vehicles_updated_at ON vehicles;
+CREATE TRIGGER update_vehicles_updated_at
+  BEFORE UPDATE ON vehicles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- TABLE: Mileage trips
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS mileage_trips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  vehicle_id UUID NOT NULL REFERENCES vehicles(id) ON DELETE CASCADE,
+  trip_date DATE NOT NULL,
+  from_location TEXT NOT NULL,
+  to_location TEXT NOT NULL,
+  purpose TEXT,
+  miles NUMERIC(8,1) NOT NULL CHECK (miles > 0),
+  job_pack_id UUID REFERENCES job_packs(id) ON DELETE SET NULL,
+  schedule_entry_id UUID REFERENCES schedule_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN mileage_trips.schedule_entry_id IS 'Schedule entry the trip was suggested from';
+
+-- Enable RLS
+ALTER TABLE mileage_trips ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own mileage trips" ON mileage_trips;
+DROP POLICY IF EXISTS "Users can insert own mileage trips" ON mileage_trips;
+DROP POLICY IF EXISTS "Users can update own mileage trips" ON mileage_trips;
+DROP POLICY IF EXISTS "Users can delete own mileage trips" ON mileage_trips;
+
+-- RLS Policies
+CREATE POLICY "Users can view own mileage trips"
+  ON mileage_trips FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own mileage trips"
+  ON mileage_trips FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own mileage trips"
+  ON mileage_trips FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own mileage trips"
+  ON mileage_trips FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_mileage_trips_user_date ON mileage_trips(user_id, trip_date);
+CREATE INDEX IF NOT EXISTS idx_mileage_trips_job_pack ON mileage_trips(job_pack_id) WHERE job_pack_id IS NOT NULL;
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_mileage_trips_updated_at ON mileage_trips;
+CREATE TRIGGER update_mileage_trips_updated_at
+  BEFORE UPDATE ON mileage_trips
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Expenses for a vehicle
+-- ============================================
+
+ALTER TABLE expenses ADD COLUMN IF NOT EXISTS vehicle_id UUID REFERENCES vehicles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN expenses.vehicle_id IS 'Vehicle a fuel or vehicle expense was for';
+
+CREATE INDEX IF NOT EXISTS idx_expenses_vehicle ON expenses(vehicle_id) WHERE vehicle_id IS NOT NULL;
+
+-- ============================================
+-- FUNCTION: Post an expense, allowing for the vehicle it was for
+-- Fuel and running costs of a vehicle claimed at the mileage rates are
+-- covered by the allowance, so they post to the owner as drawings. Fuel
+-- for an advisory fuel rate vehicle keeps its VAT in the cost: the VAT is
+-- reclaimed per business mile instead.
+-- ============================================
+
+CREATE OR REPLACE FUNCTION post_expense_journal(p_expense expenses)
+RETURNS void AS $$
+DECLARE
+  v_vehicle vehicles;
+  v_is_vehicle_cost BOOLEAN := p_expense.category ILIKE '%fuel%' OR p_expense.category ILIKE '%vehicle%';
+  v_account TEXT := ledger_expense_account(p_expense.category);
+  v_vat NUMERIC := COALESCE(p_expense.vat_amount, 0);
+  v_cost NUMERIC := p_expense.amount;
+  v_reverse_charge NUMERIC := CASE WHEN p_expense.is_reverse_charge THEN COALESCE(p_expense.reverse_charge_vat, 0) ELSE 0 END;
+BEGIN
+  IF p_expense.vehicle_id IS NOT NULL AND v_is_vehicle_cost THEN
+    SELECT * INTO v_vehicle FROM vehicles WHERE id = p_expense.vehicle_id;
+    IF v_vehicle.claim_method = 'simplified' THEN
+      v_account := '3000';
+    END IF;
+    IF v_vehicle.fuel_vat_method = 'advisory' AND p_expense.category ILIKE '%fuel%' THEN
+      v_cost := v_cost + v_vat;
+      v_vat := 0;
+    END IF;
+  END IF;
+
+  PERFORM post_journal(
+    p_expense.user_id, 'expense', p_expense.id, p_expense.expense_date, p_expense.vendor,
+    jsonb_build_array(
+      jsonb_build_object('account', v_account, 'amount', v_cost),
+      jsonb_build_object('account', '2201', 'amount', v_vat + v_reverse_charge),
+      jsonb_build_object('account', '2200', 'amount', -v_reverse_charge),
+      jsonb_build_object('account', ledger_payment_account(p_expense.payment_method), 'amount', -(v_cost + v_vat))
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Re-post a vehicle's expenses when how it is claimed changes
+CREATE OR REPLACE FUNCTION repost_vehicle_expenses()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM post_expense_journal(e) FROM expenses e WHERE e.vehicle_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the ledger triggers post journals
+REVOKE EXECUTE ON FUNCTION post_expense_journal(expenses) FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS repost_vehicle_expenses ON vehicles;
+CREATE TRIGGER repost_vehicle_expenses
+  AFTER UPDATE OF claim_method, fuel_vat_method ON vehicles
+  FOR EACH ROW EXECUTE FUNCTION repost_vehicle_expenses();
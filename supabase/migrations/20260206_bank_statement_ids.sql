@@ -0,0 +1,18 @@
+-- ============================================
+-- BANK STATEMENT IDS
+-- Statement imports now read OFX/QFX, QIF, CAMT.053 and MT940 as well as
+-- CSV. Where the bank gives each line its own ID (OFX FITID, CAMT account
+-- servicer reference, MT940 bank reference) it is kept so the same line can
+-- be recognised in a later, overlapping statement.
+-- ============================================
+
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE bank_transactions ADD COLUMN IF NOT EXISTS statement_format TEXT
+  CHECK (statement_format IN ('csv', 'ofx', 'qif', 'camt053', 'mt940'));
+
+COMMENT ON COLUMN bank_transactions.external_id IS 'The bank''s own ID for the line (FITID or equivalent), when the statement format has one';
+COMMENT ON COLUMN bank_transactions.statement_format IS 'Format of the statement the line was imported from';
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_external_id
+  ON bank_transactions(user_id, external_id)
+  WHERE external_id IS NOT NULL;
@@ -0,0 +1,32 @@
+-- ============================================
+-- BANK IMPORT ROLLBACK
+-- Every statement import shares an import_batch_id. A whole batch can be
+-- undone in one go: each line is unreconciled first (expenses unmarked,
+-- invoice payments detached, links removed) and then the lines are
+-- deleted, which also reverses their ledger journals.
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_import_batch
+  ON bank_transactions(user_id, import_batch_id)
+  WHERE import_batch_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION rollback_bank_import(p_batch_id TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  v_transaction_id UUID;
+  v_count INTEGER;
+BEGIN
+  FOR v_transaction_id IN
+    SELECT id FROM bank_transactions
+    WHERE import_batch_id = p_batch_id AND user_id = auth.uid() AND is_reconciled
+  LOOP
+    PERFORM unreconcile_transaction(v_transaction_id);
+  END LOOP;
+
+  DELETE FROM bank_transactions
+  WHERE import_batch_id = p_batch_id AND user_id = auth.uid();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,64 @@
+-- ============================================
+-- RECONCILIATION RULES
+-- "Always match X to Y" rules for the reconciliation matcher. A rule says
+-- that bank lines whose description contains the pattern belong to a
+-- vendor (matched against expenses) or a customer (matched against
+-- invoices). Rules are added by hand or learned when a suggested match is
+-- accepted; learned rules follow the latest accepted match.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS reconciliation_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL,
+  match_type TEXT NOT NULL CHECK (match_type IN ('expense', 'invoice')),
+  vendor_name TEXT,
+  customer_id UUID REFERENCES customers(id) ON DELETE CASCADE,
+  is_learned BOOLEAN NOT NULL DEFAULT false,
+  times_used INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, pattern, match_type),
+  CHECK (
+    (match_type = 'expense' AND vendor_name IS NOT NULL)
+    OR (match_type = 'invoice' AND customer_id IS NOT NULL)
+  )
+);
+
+COMMENT ON COLUMN reconciliation_rules.pattern IS 'Upper-case words the bank description must contain, noise words such as CARD PAYMENT removed';
+
+-- Enable RLS
+ALTER TABLE reconciliation_rules ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own reconciliation rules" ON reconciliation_rules;
+DROP POLICY IF EXISTS "Users can insert own reconciliation rules" ON reconciliation_rules;
+DROP POLICY IF EXISTS "Users can update own reconciliation rules" ON reconciliation_rules;
+DROP POLICY IF EXISTS "Users can delete own reconciliation rules" ON reconciliation_rules;
+
+-- RLS Policies
+CREATE POLICY "Users can view own reconciliation rules"
+  ON reconciliation_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reconciliation rules"
+  ON reconciliation_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own reconciliation rules"
+  ON reconciliation_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reconciliation rules"
+  ON reconciliation_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_reconciliation_rules_user ON reconciliation_rules(user_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_reconciliation_rules_updated_at ON reconciliation_rules;
+CREATE TRIGGER update_reconciliation_rules_updated_at
+  BEFORE UPDATE ON reconciliation_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,62 @@
+-- ============================================
+-- BANK RULES
+-- "Description contains SHELL → Shell, Fuel, VAT 20%". Outgoing bank lines
+-- that match a rule are drafted as expenses for review; approved drafts are
+-- saved as expenses already reconciled to the bank line, so vendor stats
+-- update through the usual expense triggers.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS bank_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pattern TEXT NOT NULL,
+  vendor_name TEXT NOT NULL,
+  category TEXT,
+  vat_rate TEXT CHECK (vat_rate IN ('standard', 'reduced', 'zero', 'exempt')),
+  payment_method TEXT DEFAULT 'card' CHECK (payment_method IN ('card', 'cash', 'bank_transfer', 'cheque')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  times_applied INTEGER NOT NULL DEFAULT 0,
+  last_applied_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (user_id, pattern)
+);
+
+COMMENT ON COLUMN bank_rules.pattern IS 'Upper-case words the bank description must contain';
+COMMENT ON COLUMN bank_rules.category IS 'Expense category name; NULL uses the vendor''s usual category';
+COMMENT ON COLUMN bank_rules.vat_rate IS 'VAT rate included in the bank amount; NULL records no VAT';
+
+-- Enable RLS
+ALTER TABLE bank_rules ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own bank rules" ON bank_rules;
+DROP POLICY IF EXISTS "Users can insert own bank rules" ON bank_rules;
+DROP POLICY IF EXISTS "Users can update own bank rules" ON bank_rules;
+DROP POLICY IF EXISTS "Users can delete own bank rules" ON bank_rules;
+
+-- RLS Policies
+CREATE POLICY "Users can view own bank rules"
+  ON bank_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own bank rules"
+  ON bank_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own bank rules"
+  ON bank_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own bank rules"
+  ON bank_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_bank_rules_user ON bank_rules(user_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_bank_rules_updated_at ON bank_rules;
+CREATE TRIGGER update_bank_rules_updated_at
+  BEFORE UPDATE ON bank_rules
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
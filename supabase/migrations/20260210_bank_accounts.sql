@@ -0,0 +1,154 @@
+-- ============================================
+-- BANK ACCOUNTS
+-- Current accounts, savings pots and credit cards each get their own row,
+-- and every bank line belongs to one account. Lines already imported are
+-- grouped into accounts by their bank name and card/account number.
+--
+-- Transfers between the user's own accounts are linked in pairs through
+-- transfer_transaction_id. Both sides are marked reconciled, so they leave
+-- the reconciliation list and their ledger postings cancel out rather than
+-- showing as income or expense.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  account_type TEXT NOT NULL DEFAULT 'current' CHECK (account_type IN ('current', 'savings', 'credit_card', 'other')),
+  bank_name TEXT,
+  sort_code TEXT,
+  account_last_four TEXT,
+  opening_balance DECIMAL(12,2) NOT NULL DEFAULT 0,
+  opening_balance_date DATE,
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN bank_accounts.opening_balance IS 'Balance before the first imported line; negative on a credit card means money owed';
+
+-- Enable RLS
+ALTER TABLE bank_accounts ENABLE ROW LEVEL SECURITY;
+
+-- Drop existing policies if re-running
+DROP POLICY IF EXISTS "Users can view own bank accounts" ON bank_accounts;
+DROP POLICY IF EXISTS "Users can insert own bank accounts" ON bank_accounts;
+DROP POLICY IF EXISTS "Users can update own bank accounts" ON bank_accounts;
+DROP POLICY IF EXISTS "Users can delete own bank accounts" ON bank_accounts;
+
+-- RLS Policies
+CREATE POLICY "Users can view own bank accounts"
+  ON bank_accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own bank accounts"
+  ON bank_accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own bank accounts"
+  ON bank_accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own bank accounts"
+  ON bank_accounts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_bank_accounts_user ON bank_accounts(user_id);
+
+-- Trigger for updated_at
+DROP TRIGGER IF EXISTS update_bank_accounts_updated_at ON bank_accounts;
+CREATE TRIGGER update_bank_accounts_updated_at
+  BEFORE UPDATE ON bank_accounts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- BANK TRANSACTIONS: account and transfer partner
+-- ============================================
+
+ALTER TABLE bank_transactions
+  ADD COLUMN IF NOT EXISTS bank_account_id UUID REFERENCES bank_accounts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS transfer_transaction_id UUID REFERENCES bank_transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bank_transactions_account
+  ON bank_transactions(user_id, bank_account_id, transaction_date);
+
+-- One account per bank name and account number already imported
+INSERT INTO bank_accounts (user_id, name, bank_name, account_last_four)
+SELECT DISTINCT
+  t.user_id,
+  COALESCE(t.bank_name, 'Bank account') || COALESCE(' ending ' || t.account_last_four, ''),
+  t.bank_name,
+  t.account_last_four
+FROM bank_transactions t
+WHERE t.bank_account_id IS NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM bank_accounts a
+    WHERE a.user_id = t.user_id
+      AND a.bank_name IS NOT DISTINCT FROM t.bank_name
+      AND a.account_last_four IS NOT DISTINCT FROM t.account_last_four
+  );
+
+UPDATE bank_transactions t
+SET bank_account_id = a.id
+FROM bank_accounts a
+WHERE t.bank_account_id IS NULL
+  AND a.user_id = t.user_id
+  AND a.bank_name IS NOT DISTINCT FROM t.bank_name
+  AND a.account_last_four IS NOT DISTINCT FROM t.account_last_four;
+
+-- ============================================
+-- FUNCTIONS: link and unlink transfers
+-- ============================================
+
+-- Pair money out of one account with the same amount into another
+CREATE OR REPLACE FUNCTION link_bank_transfer(p_out_id UUID, p_in_id UUID)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM bank_transactions o
+    JOIN bank_transactions i ON i.id = p_in_id
+    WHERE o.id = p_out_id
+      AND o.user_id = auth.uid() AND i.user_id = auth.uid()
+      AND o.amount < 0 AND i.amount = -o.amount
+      AND o.bank_account_id IS DISTINCT FROM i.bank_account_id
+      AND NOT COALESCE(o.is_reconciled, false) AND NOT COALESCE(i.is_reconciled, false)
+  ) THEN
+    RAISE EXCEPTION 'These bank lines cannot be linked as a transfer';
+  END IF;
+
+  UPDATE bank_transactions SET transfer_transaction_id = p_in_id, is_reconciled = true WHERE id = p_out_id;
+  UPDATE bank_transactions SET transfer_transaction_id = p_out_id, is_reconciled = true WHERE id = p_in_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Unlink a transfer from either side
+CREATE OR REPLACE FUNCTION unlink_bank_transfer(p_transaction_id UUID)
+RETURNS void AS $$
+BEGIN
+  UPDATE bank_transactions
+  SET transfer_transaction_id = NULL, is_reconciled = false
+  WHERE user_id = auth.uid()
+    AND (id = p_transaction_id OR transfer_transaction_id = p_transaction_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting one side (e.g. undoing an import) puts the other back to unreconciled
+CREATE OR REPLACE FUNCTION release_bank_transfer_partner()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bank_transactions
+  SET transfer_transaction_id = NULL, is_reconciled = false
+  WHERE transfer_transaction_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS release_bank_transfer_partner ON bank_transactions;
+CREATE TRIGGER release_bank_transfer_partner
+  BEFORE DELETE ON bank_transactions
+  FOR EACH ROW
+  WHEN (OLD.transfer_transaction_id IS NOT NULL)
+  EXECUTE FUNCTION release_bank_transfer_partner();
@@ -6,8 +6,17 @@ export interface Customer {
   phone: string;
   address: string;
   company?: string;
+  // Unique Taxpayer Reference, for main contractors who deduct CIS from us
+  utr?: string;
+  // VAT-registered contractor receiving construction services under the
+  // domestic reverse charge - new invoices to them default to reverse charge
+  reverseCharge?: boolean;
 }
 
+// VAT liability of a line: standard uses the document's taxPercent,
+// reduced is 5% (e.g. energy-saving materials), zero-rated and exempt carry no VAT
+export type VatRateCode = 'standard' | 'reduced' | 'zero' | 'exempt';
+
 export interface MaterialItem {
   id: string;
   name: string;
@@ -18,6 +27,7 @@ export interface MaterialItem {
   totalPrice: number;
   isAIProposed?: boolean;
   isHeading?: boolean; // For section headings/dividers within items
+  vatRate?: VatRateCode; // Unset means the section's rate
 }
 
 // Labour item for itemized labour tracking
@@ -26,6 +36,7 @@ export interface LabourItem {
   description: string;
   hours: number;
   rate?: number; // Optional per-item rate override
+  vatRate?: VatRateCode; // Unset means the section's rate
 }
 
 export interface QuoteSection {
@@ -37,6 +48,19 @@ export interface QuoteSection {
   labourCost?: number; // Direct labour cost input (optional)
   labourItems?: LabourItem[]; // Itemized labour tracking
   subsectionPrice?: number; // Override total price for subsection (optional, auto-calculated if not set)
+  optionId?: string; // Belongs to one QuoteOption only; unset means part of every option
+  isOptional?: boolean; // Add-on the customer can tick in or out
+  isIncluded?: boolean; // Whether an optional add-on is currently ticked in
+  vatRate?: VatRateCode; // Default for the section's lines; unset means standard
+  cisLabour?: number; // Labour before markup, sent with marked-up prices by the quote portal; CIS is taken from it
+}
+
+// One of several mutually exclusive versions of the work in a single quote
+// (e.g. good / better / best, or repair vs full replacement)
+export interface QuoteOption {
+  id: string;
+  name: string;
+  description?: string;
 }
 
 export interface QuoteDisplayOptions {
@@ -64,6 +88,28 @@ export interface QuoteDisplayOptions {
   showTotalsBreakdown: boolean;
 }
 
+// When a payment milestone falls due
+export type PaymentMilestoneTrigger = 'on_acceptance' | 'on_start' | 'on_completion' | 'on_date';
+
+// One named stage in a quote's payment schedule (deposit, first fix, completion...)
+export interface PaymentMilestone {
+  id: string;
+  label: string;
+  type: 'percentage' | 'fixed'; // Percentage of the quote total, or a fixed amount
+  value: number;
+  dueTrigger?: PaymentMilestoneTrigger;
+  dueDate?: string; // With the 'on_date' trigger
+}
+
+// Totals persisted on the quotes row, signed like the row (negative on credit notes)
+export interface SavedQuoteTotals {
+  subtotal: number;
+  discountAmount: number;
+  vat: number;
+  cisAmount: number;
+  total: number;
+}
+
 export interface Quote {
   id: string;
   customerId: string;
@@ -78,9 +124,9 @@ export interface Quote {
   markupPercent: number;
   taxPercent: number;
   cisPercent: number;
-  status: 'draft' | 'sent' | 'accepted' | 'declined' | 'invoiced' | 'paid';
+  status: 'draft' | 'sent' | 'accepted' | 'declined' | 'invoiced' | 'part_paid' | 'paid' | 'void';
   notes: string;
-  type: 'estimate' | 'quotation' | 'invoice';
+  type: 'estimate' | 'quotation' | 'invoice' | 'credit_note';
   displayOptions?: QuoteDisplayOptions;
   referenceNumber?: number;
   // Discount fields
@@ -92,12 +138,110 @@ export interface Quote {
   paymentDate?: string;
   paymentMethod?: 'cash' | 'card' | 'bank_transfer' | 'cheque';
   amountPaid?: number;
+  // Source quote for an invoice, or the invoice a credit note reverses
   parentQuoteId?: string;
   // Part Payment fields (for deposits/staged payments)
   partPaymentEnabled?: boolean;
   partPaymentType?: 'percentage' | 'fixed';
   partPaymentValue?: number;
   partPaymentLabel?: string;
+  // Set on invoices generated from a recurring invoice
+  recurringInvoiceId?: string;
+  recurrenceDate?: string;
+  // Token for the customer portal link (/q/<token>); unset until shared
+  shareToken?: string;
+  // Alternative scopes offered in this quote; sections reference them by optionId
+  options?: QuoteOption[];
+  // The option the customer chose - fixes the accepted scope
+  selectedOptionId?: string;
+  // Staged billing for a quote; each milestone is raised as its own invoice
+  paymentSchedule?: PaymentMilestone[];
+  // Set on a stage invoice: the milestone of the parent quote it bills
+  milestoneId?: string;
+  // Retention held back by a main contractor, as a % of the net value of the work.
+  // Half is released at practical completion, the rest at the end of the defects period.
+  retentionPercent?: number;
+  practicalCompletionDate?: string;
+  defectsPeriodEndDate?: string;
+  // Domestic reverse charge: no VAT is charged, the customer accounts for it to HMRC
+  reverseCharge?: boolean;
+  // Totals as last saved, which the reports read; unset until saved with totals
+  savedTotals?: SavedQuoteTotals;
+}
+
+export type QuoteDecision = 'accepted' | 'declined';
+
+// A customer's accept/decline from the quote portal, kept as acceptance evidence
+export interface QuoteResponse {
+  id: string;
+  quoteId: string;
+  decision: QuoteDecision;
+  signerName: string;
+  signatureType: 'typed' | 'drawn';
+  // Typed name, or a PNG data URL of the drawn signature
+  signatureData: string;
+  comment?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  // Quote total and reference at the moment of signing
+  quoteTotal?: number;
+  quoteReference?: string;
+  respondedAt: string;
+  // When the tradesperson saw the notification
+  seenAt?: string;
+}
+
+// The parts of a Quote a recurring invoice copies onto each invoice it generates
+export type RecurringInvoiceTemplate = Pick<
+  Quote,
+  'sections' | 'labourRate' | 'markupPercent' | 'taxPercent' | 'cisPercent' | 'notes' |
+  'displayOptions' | 'discountType' | 'discountValue' | 'discountDescription' | 'jobAddress' |
+  'reverseCharge'
+>;
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'annual';
+
+// Repeat work (annual services, monthly maintenance) invoiced on a schedule
+export interface RecurringInvoice {
+  id: string;
+  referenceNumber?: number;
+  title: string;
+  customerId: string;
+  projectId?: string;
+  template: RecurringInvoiceTemplate;
+  // Schedule: every `interval` weeks/months/years from startDate
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: string;
+  endDate?: string;
+  maxOccurrences?: number;
+  occurrencesGenerated: number;
+  nextRunDate?: string;
+  // What gets generated on each run
+  generateStatus: 'draft' | 'sent';
+  paymentTermsDays: number;
+  createVisits: boolean;
+  visitStartTime?: string; // HH:MM
+  visitDurationMinutes?: number;
+  isActive: boolean;
+  lastGeneratedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A single payment received against an invoice (invoice_payments ledger)
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  paymentDate: string;
+  paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'cheque';
+  reference?: string;
+  notes?: string;
+  bankTransactionId?: string;
+  // CIS the contractor withheld from this payment
+  cisDeducted?: number;
+  createdAt: string;
 }
 
 export interface ScheduleEntry {
@@ -191,9 +335,19 @@ export interface AppSettings {
   vatNumber?: string;
   isVatRegistered: boolean;
   enableVat: boolean;
+  // VAT returns: HMRC stagger group, accounting scheme and flat rate details
+  vatStagger?: 1 | 2 | 3;
+  vatScheme?: 'standard' | 'cash' | 'flat_rate';
+  vatFlatRateCategory?: string;
+  vatFlatRateFirstYear?: boolean;
   enableCis: boolean;
+  // CIS contractor registration, for paying subcontractors under deduction
+  isCisContractor?: boolean;
+  cisUtr?: string;
+  cisAccountsOfficeReference?: string;
   quotePrefix: string;
   invoicePrefix: string;
+  creditNotePrefix?: string;
   defaultQuoteNotes: string;
   defaultInvoiceNotes: string;
   costBoxColor: 'slate' | 'amber' | 'blue';
@@ -230,6 +384,7 @@ export interface Expense {
   description?: string | null;
   amount: number;
   vatAmount: number;
+  vatRate?: VatRateCode;
   category: 'materials' | 'tools' | 'fuel' | 'subcontractor' | 'office' | 'insurance' | 'other' | string;
   receiptStoragePath?: string | null;
   receiptExtractedText?: string | null;
@@ -255,6 +410,27 @@ export interface BankTransaction {
   importBatchId?: string | null;
   bankName?: string | null;
   accountLastFour?: string | null;
+  externalId?: string | null;
+  statementFormat?: string | null;
+  bankAccountId?: string | null;
+  // The other side of a transfer between the user's own accounts
+  transferTransactionId?: string | null;
+  createdAt: string;
+}
+
+export type BankAccountType = 'current' | 'savings' | 'credit_card' | 'other';
+
+export interface BankAccount {
+  id: string;
+  name: string;
+  accountType: BankAccountType;
+  bankName?: string | null;
+  sortCode?: string | null;
+  accountLastFour?: string | null;
+  openingBalance: number;
+  openingBalanceDate?: string | null;
+  currency: string;
+  isArchived: boolean;
   createdAt: string;
 }
 
@@ -298,6 +474,10 @@ export interface DBBankTransaction {
   import_batch_id?: string;
   bank_name?: string;
   account_last_four?: string;
+  external_id?: string;
+  statement_format?: string;
+  bank_account_id?: string;
+  transfer_transaction_id?: string;
   created_at: string;
 }
 